@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { DatabaseManager } from '../database/manager';
 import { generateApiKey, hashApiKey } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
+import { LicenseService } from '../services/LicenseService';
 import uzumBankAdminRoutes from './uzum-bank/uzum-bank-admin';
 
 const router = Router();
@@ -23,6 +24,14 @@ const updateApiKeySchema = z.object({
   expires_at: z.string().optional()
 });
 
+const activateLicenseSchema = z.object({
+  license_key: z.string().trim().min(1).max(100)
+});
+
+const licenseFileSchema = z.object({
+  content: z.string().min(1).max(100000)
+});
+
 // GET /api/admin/api-keys - List all API keys
 router.get('/api-keys', asyncHandler(async (req: Request, res: Response) => {
   const result = await DatabaseManager.query(`
@@ -215,6 +224,61 @@ router.get('/api-keys/permissions', asyncHandler(async (req: Request, res: Respo
   });
 }));
 
+// GET /api/admin/license - Current license status, limits and features
+router.get('/license', asyncHandler(async (req: Request, res: Response) => {
+  const license = await LicenseService.getState();
+
+  res.json({
+    success: true,
+    data: { license }
+  });
+}));
+
+// POST /api/admin/license/activate - Activate this branch server with a license key
+router.post('/license/activate', asyncHandler(async (req: Request, res: Response) => {
+  const { license_key } = activateLicenseSchema.parse(req.body);
+  const license = await LicenseService.activate(license_key);
+
+  res.json({
+    success: true,
+    data: { license },
+    message: 'License activated successfully'
+  });
+}));
+
+// POST /api/admin/license/refresh - Check the license with the license server now
+router.post('/license/refresh', asyncHandler(async (req: Request, res: Response) => {
+  const license = await LicenseService.refresh();
+
+  res.json({
+    success: true,
+    data: { license }
+  });
+}));
+
+// POST /api/admin/license/file - Install a signed offline license file
+router.post('/license/file', asyncHandler(async (req: Request, res: Response) => {
+  const { content } = licenseFileSchema.parse(req.body);
+  const license = await LicenseService.installLicenseFile(content);
+
+  res.json({
+    success: true,
+    data: { license },
+    message: 'License file installed successfully'
+  });
+}));
+
+// DELETE /api/admin/license/file - Remove the offline license file
+router.delete('/license/file', asyncHandler(async (req: Request, res: Response) => {
+  const license = await LicenseService.removeLicenseFile();
+
+  res.json({
+    success: true,
+    data: { license },
+    message: 'License file removed'
+  });
+}));
+
 // Mount Uzum Bank admin routes
 router.use('/uzum-bank', uzumBankAdminRoutes);
 
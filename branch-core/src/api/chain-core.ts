@@ -5,6 +5,8 @@ import path from 'path';
 import { z } from 'zod';
 import { DatabaseManager } from '../database/manager';
 import { authenticateApiKey, requirePermission } from '../middleware/auth';
+import { PriceScheduleService } from '../services/PriceScheduleService';
+import { ProductBarcodeService } from '../services/ProductBarcodeService';
 
 const router = Router();
 
@@ -19,8 +21,15 @@ const PriceUpdateSchema = z.object({
     product_id: z.string().optional(),
     price: z.number().positive(),
     cost: z.number().positive().optional(),
-    effective_date: z.string().optional()
-  })).min(1)
+    effective_date: z.string().optional(), // Local time, or with an offset
+    effective_until: z.string().optional(), // Previous price is restored then
+    change_id: z.string().uuid().optional() // Scheduled change in chain-core
+  })).min(1),
+  timezone: z.string().refine(PriceScheduleService.isValidTimezone, 'Unknown timezone').optional()
+});
+
+const PriceCancelSchema = z.object({
+  change_ids: z.array(z.string().uuid()).min(1)
 });
 
 const InventoryUpdateSchema = z.object({
@@ -46,7 +55,13 @@ const ProductSyncSchema = z.object({
     price: z.number().positive(),
     cost: z.number().positive().optional(),
     unit_of_measure: z.string().optional(),
-    is_active: z.boolean().optional()
+    is_active: z.boolean().optional(),
+    variant_attributes: z.record(z.string()).nullable().optional(),
+    barcodes: z.array(z.object({
+      barcode: z.string().min(1),
+      quantity_multiplier: z.number().positive().default(1),
+      description: z.string().nullable().optional()
+    })).optional()
   })).min(1)
 });
 
@@ -228,7 +243,7 @@ router.put('/inventory', authenticateApiKey, requirePermission('inventory:write'
         );
 
         let newQuantity: number;
-        const currentQty = currentInventory.rows[0]?.quantity_in_stock || 0;
+        const currentQty = parseFloat(currentInventory.rows[0]?.quantity_in_stock) || 0;
 
         switch (update.adjustment_type) {
           case 'add':
@@ -406,6 +421,12 @@ router.put('/products/prices', authenticateApiKey, requirePermission('products:w
     const validatedData = PriceUpdateSchema.parse(req.body);
     const results: any[] = [];
 
+    if (validatedData.timezone) {
+      await PriceScheduleService.setTimezone(validatedData.timezone);
+    }
+    const timezone = await PriceScheduleService.getTimezone();
+    let staged = 0;
+
     await DatabaseManager.query('BEGIN');
 
     for (const update of validatedData.updates) {
@@ -433,6 +454,33 @@ router.put('/products/prices', authenticateApiKey, requirePermission('products:w
         const oldPrice = product.price;
         const oldCost = product.cost;
 
+        // Changes from the chain schedule, time-limited ones and future ones are staged
+        // and switched over locally at the effective time
+        const effectiveFrom = PriceScheduleService.toLocalTime(update.effective_date || new Date().toISOString(), timezone);
+        if (update.change_id || update.effective_until || !PriceScheduleService.isDue(effectiveFrom, timezone)) {
+          const scheduled = await PriceScheduleService.stagePrice({
+            productId: product.id,
+            chainChangeId: update.change_id,
+            price: update.price,
+            cost: update.cost,
+            effectiveFrom,
+            effectiveUntil: update.effective_until ? PriceScheduleService.toLocalTime(update.effective_until, timezone) : null
+          });
+          staged++;
+
+          results.push({
+            success: true,
+            scheduled: true,
+            product_id: product.id,
+            barcode: update.barcode,
+            change_id: update.change_id,
+            status: scheduled.status,
+            effective_from: scheduled.effective_from,
+            effective_until: scheduled.effective_until
+          });
+          continue;
+        }
+
         // Update product price
         const updateQuery = `
           UPDATE products 
@@ -461,6 +509,8 @@ router.put('/products/prices', authenticateApiKey, requirePermission('products:w
           update.effective_date || new Date().toISOString()
         ]);
 
+        await PriceScheduleService.updateRestorePrice(product.id, update.price, update.cost || null);
+
         results.push({
           success: true,
           product_id: product.id,
@@ -483,11 +533,18 @@ router.put('/products/prices', authenticateApiKey, requirePermission('products:w
 
     await DatabaseManager.query('COMMIT');
 
+    // Staged changes that are already due switch over now rather than on the next tick
+    if (staged > 0) {
+      await PriceScheduleService.applyDuePrices()
+        .catch(error => console.warn('⚠️ Scheduled price switch-over failed:', error.message));
+    }
+
     res.json({
       success: true,
       data: {
         results,
-        updated: results.filter(r => r.success).length,
+        updated: results.filter(r => r.success && !r.scheduled).length,
+        scheduled: staged,
         failed: results.filter(r => !r.success).length
       }
     });
@@ -513,6 +570,66 @@ router.put('/products/prices', authenticateApiKey, requirePermission('products:w
   }
 });
 
+// Cancel scheduled price changes (reverts the ones already in effect)
+router.post('/products/prices/cancel', authenticateApiKey, requirePermission('products:write'), async (req: Request, res: Response) => {
+  try {
+    const validatedData = PriceCancelSchema.parse(req.body);
+    const result = await PriceScheduleService.cancel(validatedData.change_ids);
+
+    res.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Error cancelling scheduled prices:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: error.errors
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to cancel scheduled prices'
+    });
+  }
+});
+
+// Get scheduled price changes
+router.get('/products/prices/scheduled', authenticateApiKey, requirePermission('products:read'), async (req: Request, res: Response) => {
+  try {
+    const { status, product_id, limit = 100 } = req.query;
+
+    const scheduledPrices = await PriceScheduleService.list({
+      status: status as any,
+      productId: product_id as string | undefined,
+      limit: Math.min(parseInt(limit as string) || 100, 500)
+    });
+
+    res.json({
+      success: true,
+      data: {
+        scheduled_prices: scheduledPrices,
+        timezone: await PriceScheduleService.getTimezone()
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching scheduled prices:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal Server Error',
+      message: 'Failed to fetch scheduled prices'
+    });
+  }
+});
+
 // Sync products from chain-core
 router.post('/products/sync', authenticateApiKey, requirePermission('products:write'), async (req: Request, res: Response) => {
   try {
@@ -539,9 +656,9 @@ router.post('/products/sync', authenticateApiKey, requirePermission('products:wr
         const upsertQuery = `
           INSERT INTO products (
             sku, barcode, name, description, category_id, 
-            brand, price, cost, is_active
+            brand, price, cost, is_active, unit_of_measure, variant_attributes
           )
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
           ON CONFLICT (barcode) 
           DO UPDATE SET 
             sku = $1,
@@ -552,6 +669,8 @@ router.post('/products/sync', authenticateApiKey, requirePermission('products:wr
             price = $7,
             cost = $8,
             is_active = $9,
+            unit_of_measure = $10,
+            variant_attributes = $11,
             updated_at = NOW()
           RETURNING *
         `;
@@ -566,8 +685,14 @@ router.post('/products/sync', authenticateApiKey, requirePermission('products:wr
           product.price,
           product.cost || null,
           product.is_active !== false,
+          product.unit_of_measure || 'pcs',
+          product.variant_attributes ? JSON.stringify(product.variant_attributes) : null
         ]);
 
+        if (product.barcodes) {
+          await ProductBarcodeService.replaceBarcodes(result.rows[0].id, product.barcodes, product.barcode);
+        }
+
         results.push({
           success: true,
           barcode: product.barcode,
@@ -728,10 +853,10 @@ router.post('/promotions/sync', authenticateApiKey, requirePermission('promotion
         const upsertQuery = `
           INSERT INTO promotions (
             chain_promotion_id, name, description, promotion_type, 
-            discount_value, min_quantity, product_barcode, category_key,
-            start_date, end_date, is_active
+            discount_value, min_quantity, buy_quantity, get_quantity,
+            product_barcode, category_key, start_date, end_date, is_active
           )
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
           ON CONFLICT (chain_promotion_id) 
           DO UPDATE SET 
             name = $2,
@@ -739,16 +864,21 @@ router.post('/promotions/sync', authenticateApiKey, requirePermission('promotion
             promotion_type = $4,
             discount_value = $5,
             min_quantity = $6,
-            product_barcode = $7,
-            category_key = $8,
-            start_date = $9,
-            end_date = $10,
-            is_active = $11,
+            buy_quantity = $7,
+            get_quantity = $8,
+            product_barcode = $9,
+            category_key = $10,
+            start_date = $11,
+            end_date = $12,
+            is_active = $13,
             updated_at = NOW()
           RETURNING *
         `;
 
-        const discountValue = promotion.discount_percentage || promotion.discount_amount || 0;
+        // Fixed discounts carry an amount, every other type carries a percentage
+        const discountValue = promotion.type === 'fixed_discount'
+          ? (promotion.discount_amount || 0)
+          : (promotion.discount_percentage || promotion.discount_amount || 0);
 
         const result = await DatabaseManager.query(upsertQuery, [
           promotion.id, // chain_promotion_id
@@ -757,6 +887,8 @@ router.post('/promotions/sync', authenticateApiKey, requirePermission('promotion
           promotion.type,
           discountValue,
           promotion.min_quantity || null,
+          promotion.buy_quantity || null,
+          promotion.get_quantity || null,
           promotion.product_barcode || null,
           promotion.category_key || null,
           promotion.start_date,
@@ -1025,6 +1157,7 @@ router.get('/transactions', authenticateApiKey, requirePermission('transactions:
           p.barcode,
           p.name as product_name,
           ti.quantity,
+          p.unit_of_measure,
           ti.unit_price,
           ti.total_amount
         FROM transaction_items ti
@@ -1040,7 +1173,8 @@ router.get('/transactions', authenticateApiKey, requirePermission('transactions:
         if (!acc[item.transaction_id]) {
           acc[item.transaction_id] = [];
         }
-        acc[item.transaction_id].push(item);
+        // DECIMAL quantities arrive as strings; weighed lines carry fractions of a kg or litre
+        acc[item.transaction_id].push({ ...item, quantity: parseFloat(item.quantity) });
         return acc;
       }, {});
       
@@ -1101,7 +1235,7 @@ router.get('/transactions', authenticateApiKey, requirePermission('transactions:
   }
 });
 
-// POST /api/chain-core/transactions/report - Report completed transactions to chain-core
+// POST /api/chain-core/transactions/report - Report completed transactions and refunds to chain-core
 router.post('/transactions/report', authenticateApiKey, requirePermission('transactions:write'), async (req: Request, res: Response) => {
   try {
     const { start_date, end_date } = req.body;
@@ -1114,7 +1248,9 @@ router.post('/transactions/report', authenticateApiKey, requirePermission('trans
         e.name as employee_name,
         t.subtotal,
         t.tax_amount,
+        t.discount_amount,
         t.total_amount,
+        t.prices_include_tax,
         t.status,
         t.created_at,
         t.completed_at,
@@ -1124,7 +1260,11 @@ router.post('/transactions/report', authenticateApiKey, requirePermission('trans
             'product_name', p.name,
             'barcode', p.barcode,
             'quantity', ti.quantity,
+            'unit_of_measure', p.unit_of_measure,
             'unit_price', ti.unit_price,
+            'discount_amount', ti.discount_amount,
+            'tax_rate', ti.tax_rate,
+            'tax_amount', ti.tax_amount,
             'total_price', ti.total_price
           )
         ) as items
@@ -1132,7 +1272,7 @@ router.post('/transactions/report', authenticateApiKey, requirePermission('trans
       LEFT JOIN employees e ON t.employee_id = e.employee_id
       LEFT JOIN transaction_items ti ON t.id = ti.transaction_id
       LEFT JOIN products p ON ti.product_id = p.id
-      WHERE t.status = 'completed'
+      WHERE t.status IN ('completed', 'refunded')
     `;
     
     const params: any[] = [];
@@ -1153,12 +1293,79 @@ router.post('/transactions/report', authenticateApiKey, requirePermission('trans
     query += ` GROUP BY t.id, e.name ORDER BY t.completed_at DESC`;
     
     const result = await DatabaseManager.query(query, params);
+
+    // Completed refund documents issued in the same period, linked to their original sale
+    let refundsQuery = `
+      SELECT 
+        r.id,
+        r.original_transaction_id,
+        r.terminal_id,
+        r.employee_id,
+        r.reason,
+        r.subtotal,
+        r.tax_amount,
+        r.total_amount,
+        r.status,
+        r.created_at,
+        (
+          SELECT json_agg(
+            json_build_object(
+              'product_id', ri.product_id,
+              'product_name', p.name,
+              'barcode', p.barcode,
+              'quantity', ri.quantity,
+              'unit_price', ri.unit_price,
+              'refund_amount', ri.refund_amount,
+              'tax_amount', ri.tax_amount,
+              'condition', ri.condition,
+              'restocked', ri.restocked
+            )
+          )
+          FROM refund_items ri
+          LEFT JOIN products p ON ri.product_id = p.id
+          WHERE ri.refund_id = r.id
+        ) as items,
+        (
+          SELECT json_agg(
+            json_build_object(
+              'method', rp.method,
+              'amount', rp.amount,
+              'provider_reference', rp.provider_reference,
+              'status', rp.status
+            )
+          )
+          FROM refund_payments rp
+          WHERE rp.refund_id = r.id
+        ) as payments
+      FROM refunds r
+      WHERE r.status = 'completed'
+    `;
+
+    const refundParams: any[] = [];
+    let refundParamIndex = 1;
+
+    if (start_date) {
+      refundsQuery += ` AND r.created_at >= $${refundParamIndex}`;
+      refundParams.push(start_date);
+      refundParamIndex++;
+    }
+
+    if (end_date) {
+      refundsQuery += ` AND r.created_at <= $${refundParamIndex}`;
+      refundParams.push(end_date);
+      refundParamIndex++;
+    }
+
+    refundsQuery += ` ORDER BY r.created_at DESC`;
+
+    const refundsResult = await DatabaseManager.query(refundsQuery, refundParams);
     
     res.json({
       success: true,
       data: {
         transactions: result.rows,
         count: result.rows.length,
+        refunds: refundsResult.rows,
         branch_id: process.env.BRANCH_ID || 'UNKNOWN',
         timestamp: new Date().toISOString()
       }
@@ -1184,6 +1391,7 @@ router.get('/inventory/report', authenticateApiKey, requirePermission('inventory
         p.barcode,
         p.quantity_in_stock,
         p.low_stock_threshold,
+        p.unit_of_measure,
         p.price,
         p.cost,
         p.category,
@@ -0,0 +1,131 @@
+import { asyncHandler } from '@/middleware/errorHandler';
+import { LoyaltyService } from '@/services/LoyaltyService';
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+
+const router = Router();
+
+// Validation schemas
+const lookupSchema = z.object({
+  card: z.string().trim().min(1).optional(),
+  phone: z.string().trim().min(3).optional()
+}).refine(data => data.card || data.phone, {
+  message: 'Either card or phone is required'
+});
+
+const settingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  pointValue: z.number().positive().optional()
+});
+
+const ruleSchema = z.object({
+  name: z.string().min(1).max(255),
+  ruleType: z.enum(['points_per_amount', 'category_multiplier', 'purchase_bonus']),
+  points: z.number().min(0).optional(),
+  amountStep: z.number().positive().nullable().optional(),
+  multiplier: z.number().positive().nullable().optional(),
+  categoryId: z.string().uuid().nullable().optional(),
+  minPurchase: z.number().min(0).optional(),
+  startsAt: z.string().datetime().nullable().optional(),
+  endsAt: z.string().datetime().nullable().optional(),
+  isActive: z.boolean().optional()
+});
+
+// GET /api/customers/lookup - Find a customer by loyalty card or phone
+router.get('/lookup', asyncHandler(async (req: Request, res: Response) => {
+  const params = lookupSchema.parse(req.query);
+  const [{ customer, source }, settings] = await Promise.all([
+    LoyaltyService.lookupCustomer(params),
+    LoyaltyService.getSettings()
+  ]);
+
+  res.json({
+    success: true,
+    data: { customer, source, loyalty: settings }
+  });
+}));
+
+// GET /api/customers/loyalty/settings - Whether loyalty is on and what a point is worth
+router.get('/loyalty/settings', asyncHandler(async (req: Request, res: Response) => {
+  const settings = await LoyaltyService.getSettings();
+
+  res.json({
+    success: true,
+    data: { settings }
+  });
+}));
+
+// PUT /api/customers/loyalty/settings - Update loyalty settings
+router.put('/loyalty/settings', asyncHandler(async (req: Request, res: Response) => {
+  const settings = await LoyaltyService.updateSettings(settingsSchema.parse(req.body));
+
+  res.json({
+    success: true,
+    data: { settings },
+    message: 'Loyalty settings updated'
+  });
+}));
+
+// GET /api/customers/loyalty/rules - Earn rules
+router.get('/loyalty/rules', asyncHandler(async (req: Request, res: Response) => {
+  const rules = await LoyaltyService.listRules(req.query.includeInactive === 'true');
+
+  res.json({
+    success: true,
+    data: { rules }
+  });
+}));
+
+// POST /api/customers/loyalty/rules - Create an earn rule
+router.post('/loyalty/rules', asyncHandler(async (req: Request, res: Response) => {
+  const rule = await LoyaltyService.createRule(ruleSchema.parse(req.body));
+
+  res.status(201).json({
+    success: true,
+    data: { rule },
+    message: 'Loyalty rule created'
+  });
+}));
+
+// PUT /api/customers/loyalty/rules/:id - Update an earn rule
+router.put('/loyalty/rules/:id', asyncHandler(async (req: Request, res: Response) => {
+  const rule = await LoyaltyService.updateRule(req.params.id, ruleSchema.partial().parse(req.body));
+
+  res.json({
+    success: true,
+    data: { rule },
+    message: 'Loyalty rule updated'
+  });
+}));
+
+// DELETE /api/customers/loyalty/rules/:id - Delete an earn rule
+router.delete('/loyalty/rules/:id', asyncHandler(async (req: Request, res: Response) => {
+  await LoyaltyService.deleteRule(req.params.id);
+
+  res.json({
+    success: true,
+    message: 'Loyalty rule deleted'
+  });
+}));
+
+// POST /api/customers/loyalty/sync - Push unsynced ledger entries to chain-core now
+router.post('/loyalty/sync', asyncHandler(async (req: Request, res: Response) => {
+  const result = await LoyaltyService.syncLedger();
+
+  res.json({
+    success: true,
+    data: result
+  });
+}));
+
+// GET /api/customers/:id/loyalty - Balance and recent points history
+router.get('/:id/loyalty', asyncHandler(async (req: Request, res: Response) => {
+  const account = await LoyaltyService.getAccount(req.params.id);
+
+  res.json({
+    success: true,
+    data: account
+  });
+}));
+
+export default router;
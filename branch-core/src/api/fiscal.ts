@@ -0,0 +1,65 @@
+import { asyncHandler } from '@/middleware/errorHandler';
+import { FiscalService } from '@/services/FiscalService';
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+
+const router = Router();
+
+// Validation schemas
+const listSchema = z.object({
+  status: z.enum(['pending', 'fiscalized', 'failed', 'cancelled', 'all']).default('all'),
+  transactionId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+});
+
+// GET /api/fiscal/status - Whether a fiscal module is configured and how many receipts wait for it
+router.get('/status', asyncHandler(async (req: Request, res: Response) => {
+  const status = await FiscalService.getQueueStatus();
+
+  res.json({
+    success: true,
+    data: status
+  });
+}));
+
+// GET /api/fiscal/receipts - Fiscal receipts; status=failed lists the ones the module rejected
+router.get('/receipts', asyncHandler(async (req: Request, res: Response) => {
+  const receipts = await FiscalService.getReceipts(listSchema.parse(req.query));
+
+  res.json({
+    success: true,
+    data: { receipts }
+  });
+}));
+
+// GET /api/fiscal/receipts/:id
+router.get('/receipts/:id', asyncHandler(async (req: Request, res: Response) => {
+  const receipt = await FiscalService.getReceipt(req.params.id);
+
+  res.json({
+    success: true,
+    data: { receipt }
+  });
+}));
+
+// POST /api/fiscal/receipts/:id/retry - Send a rejected receipt again after fixing product IKPU codes
+router.post('/receipts/:id/retry', asyncHandler(async (req: Request, res: Response) => {
+  const receipt = await FiscalService.retryReceipt(req.params.id);
+
+  res.json({
+    success: true,
+    data: { receipt }
+  });
+}));
+
+// POST /api/fiscal/process - Work through the queue now instead of waiting for the next run
+router.post('/process', asyncHandler(async (req: Request, res: Response) => {
+  const result = await FiscalService.processQueue();
+
+  res.json({
+    success: true,
+    data: result
+  });
+}));
+
+export default router;
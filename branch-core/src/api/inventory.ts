@@ -0,0 +1,238 @@
+import { asyncHandler } from '@/middleware/errorHandler';
+import { PurchaseOrderService } from '@/services/PurchaseOrderService';
+import { StockTransferService } from '@/services/StockTransferService';
+import { StocktakeService } from '@/services/StocktakeService';
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+
+const router = Router();
+
+// Validation schemas
+// Stock is kept in the product unit of measure, up to grams and millilitres
+const quantitySchema = z.number().multipleOf(0.001, 'Quantity allows at most 3 decimal places');
+
+const listTransfersSchema = z.object({
+  direction: z.enum(['incoming', 'outgoing']).optional(),
+  status: z.enum(['requested', 'approved', 'rejected', 'shipped', 'received', 'cancelled']).optional()
+});
+
+const transferQuantitiesSchema = z.object({
+  employeeId: z.string().min(1, 'Employee ID is required'),
+  items: z.array(z.object({
+    itemId: z.string().uuid(),
+    quantity: quantitySchema.min(0),
+    notes: z.string().max(500).optional()
+  })).default([])
+});
+
+const listPurchaseOrdersSchema = z.object({
+  status: z.enum(['draft', 'submitted', 'approved', 'rejected', 'ordered', 'partially_received', 'received', 'cancelled']).optional()
+});
+
+const receiveGoodsSchema = z.object({
+  employeeId: z.string().min(1, 'Employee ID is required'),
+  supplierInvoiceNumber: z.string().max(100).optional(),
+  notes: z.string().max(500).optional(),
+  items: z.array(z.object({
+    itemId: z.string().uuid(),
+    quantity: quantitySchema.min(0),
+    unitCost: z.number().min(0).optional(),
+    notes: z.string().max(500).optional()
+  })).default([])
+});
+
+const listStocktakesSchema = z.object({
+  status: z.enum(['counting', 'review', 'approved', 'cancelled']).optional()
+});
+
+const createStocktakeSchema = z.object({
+  name: z.string().max(255).optional(),
+  scope: z.enum(['full', 'category', 'location']).default('full'),
+  categoryId: z.string().uuid().optional(),
+  location: z.string().min(1).max(100).optional(),
+  employeeId: z.string().min(1, 'Employee ID is required'),
+  notes: z.string().max(500).optional()
+});
+
+const recordCountSchema = z.object({
+  barcode: z.string().min(1).optional(),
+  productId: z.string().uuid().optional(),
+  quantity: quantitySchema.refine(quantity => quantity !== 0, 'Quantity cannot be zero').default(1),
+  employeeId: z.string().min(1, 'Employee ID is required'),
+  terminalId: z.string().optional()
+}).refine(data => data.barcode || data.productId, 'A barcode or product ID is required');
+
+const approveStocktakeSchema = z.object({
+  employeeId: z.string().min(1, 'Employee ID is required'),
+  productIds: z.array(z.string().uuid()).optional(),
+  uncountedAsZero: z.boolean().default(false)
+});
+
+// GET /api/inventory/transfers - Stock transfers sent from or to this branch
+router.get('/transfers', asyncHandler(async (req: Request, res: Response) => {
+  const filters = listTransfersSchema.parse(req.query);
+  const transfers = await StockTransferService.listTransfers(filters);
+
+  res.json({
+    success: true,
+    data: { transfers }
+  });
+}));
+
+// GET /api/inventory/transfers/:id - Stock transfer with its items
+router.get('/transfers/:id', asyncHandler(async (req: Request, res: Response) => {
+  const transfer = await StockTransferService.getTransfer(req.params.id);
+
+  res.json({
+    success: true,
+    data: { transfer }
+  });
+}));
+
+// POST /api/inventory/transfers/:id/ship - Ship an approved outgoing transfer
+router.post('/transfers/:id/ship', asyncHandler(async (req: Request, res: Response) => {
+  const { employeeId, items } = transferQuantitiesSchema.parse(req.body);
+  const transfer = await StockTransferService.shipTransfer(req.params.id, employeeId, items);
+
+  res.json({
+    success: true,
+    data: { transfer },
+    message: 'Transfer shipped'
+  });
+}));
+
+// POST /api/inventory/transfers/:id/receive - Receive a shipped incoming transfer
+router.post('/transfers/:id/receive', asyncHandler(async (req: Request, res: Response) => {
+  const { employeeId, items } = transferQuantitiesSchema.parse(req.body);
+  const transfer = await StockTransferService.receiveTransfer(req.params.id, employeeId, items);
+
+  res.json({
+    success: true,
+    data: { transfer },
+    message: transfer.has_discrepancy ? 'Transfer received with discrepancies' : 'Transfer received'
+  });
+}));
+
+// GET /api/inventory/purchase-orders - Purchase orders delivered to this branch
+router.get('/purchase-orders', asyncHandler(async (req: Request, res: Response) => {
+  const filters = listPurchaseOrdersSchema.parse(req.query);
+  const purchaseOrders = await PurchaseOrderService.listPurchaseOrders(filters);
+
+  res.json({
+    success: true,
+    data: { purchaseOrders }
+  });
+}));
+
+// GET /api/inventory/purchase-orders/:id - Purchase order with its items and deliveries
+router.get('/purchase-orders/:id', asyncHandler(async (req: Request, res: Response) => {
+  const purchaseOrder = await PurchaseOrderService.getPurchaseOrder(req.params.id);
+
+  res.json({
+    success: true,
+    data: { purchaseOrder }
+  });
+}));
+
+// POST /api/inventory/purchase-orders/:id/receive - Receive a supplier delivery
+router.post('/purchase-orders/:id/receive', asyncHandler(async (req: Request, res: Response) => {
+  const { employeeId, items, supplierInvoiceNumber, notes } = receiveGoodsSchema.parse(req.body);
+  const purchaseOrder = await PurchaseOrderService.receiveGoods(req.params.id, employeeId, items, { supplierInvoiceNumber, notes });
+
+  res.json({
+    success: true,
+    data: { purchaseOrder },
+    message: purchaseOrder.status === 'received' ? 'Purchase order received' : 'Delivery received; items are still outstanding'
+  });
+}));
+
+// GET /api/inventory/stocktakes - Stocktake sessions, newest first
+router.get('/stocktakes', asyncHandler(async (req: Request, res: Response) => {
+  const filters = listStocktakesSchema.parse(req.query);
+  const stocktakes = await StocktakeService.listStocktakes(filters);
+
+  res.json({
+    success: true,
+    data: { stocktakes }
+  });
+}));
+
+// POST /api/inventory/stocktakes - Start a stocktake and snapshot system stock
+router.post('/stocktakes', asyncHandler(async (req: Request, res: Response) => {
+  const input = createStocktakeSchema.parse(req.body);
+  const stocktake = await StocktakeService.createStocktake(input);
+
+  res.status(201).json({
+    success: true,
+    data: { stocktake },
+    message: 'Stocktake started'
+  });
+}));
+
+// GET /api/inventory/stocktakes/:id - Stocktake with snapshot, counts and variances
+router.get('/stocktakes/:id', asyncHandler(async (req: Request, res: Response) => {
+  const stocktake = await StocktakeService.getStocktake(req.params.id);
+
+  res.json({
+    success: true,
+    data: { stocktake }
+  });
+}));
+
+// POST /api/inventory/stocktakes/:id/counts - Add a scanned or keyed count
+router.post('/stocktakes/:id/counts', asyncHandler(async (req: Request, res: Response) => {
+  const input = recordCountSchema.parse(req.body);
+  const item = await StocktakeService.recordCount(req.params.id, input);
+
+  res.json({
+    success: true,
+    data: { item }
+  });
+}));
+
+// POST /api/inventory/stocktakes/:id/finish - Close counting for review
+router.post('/stocktakes/:id/finish', asyncHandler(async (req: Request, res: Response) => {
+  const stocktake = await StocktakeService.finishCounting(req.params.id);
+
+  res.json({
+    success: true,
+    data: { stocktake },
+    message: 'Counting finished'
+  });
+}));
+
+// POST /api/inventory/stocktakes/:id/reopen - Return to counting for a recount
+router.post('/stocktakes/:id/reopen', asyncHandler(async (req: Request, res: Response) => {
+  const stocktake = await StocktakeService.reopenCounting(req.params.id);
+
+  res.json({
+    success: true,
+    data: { stocktake },
+    message: 'Counting reopened'
+  });
+}));
+
+// POST /api/inventory/stocktakes/:id/approve - Post the variances as stock movements
+router.post('/stocktakes/:id/approve', asyncHandler(async (req: Request, res: Response) => {
+  const input = approveStocktakeSchema.parse(req.body);
+  const stocktake = await StocktakeService.approveStocktake(req.params.id, input);
+
+  res.json({
+    success: true,
+    data: { stocktake },
+    message: 'Stocktake approved'
+  });
+}));
+
+// POST /api/inventory/stocktakes/:id/cancel - Abandon a stocktake without changing stock
+router.post('/stocktakes/:id/cancel', asyncHandler(async (req: Request, res: Response) => {
+  const stocktake = await StocktakeService.cancelStocktake(req.params.id);
+
+  res.json({
+    success: true,
+    data: { stocktake },
+    message: 'Stocktake cancelled'
+  });
+}));
+
+export default router;
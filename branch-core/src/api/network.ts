@@ -1,9 +1,62 @@
 import { Request, Response, Router } from 'express';
+import { PoolClient } from 'pg';
 import { DatabaseManager } from '../database/manager';
 import { asyncHandler } from '../middleware/errorHandler';
+import { LicenseService } from '../services/LicenseService';
+import { TerminalDiscoveryService } from '../services/TerminalDiscoveryService';
 
 const router = Router();
 
+interface TerminalFields {
+  terminal_id: string;
+  name: string;
+  ip_address: string;
+  port?: number;
+  mac_address?: string | null;
+  location?: string | null;
+  assigned_employee_id?: string | null;
+  hardware_info?: any;
+  software_version?: string | null;
+}
+
+// Register a terminal, or update it when the terminal ID is already known (reactivating a removed one)
+const saveTerminal = async (fields: TerminalFields) => {
+  const query = `
+    INSERT INTO pos_terminals (
+      terminal_id, name, ip_address, port, mac_address, location,
+      assigned_employee_id, hardware_info, software_version
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    ON CONFLICT (terminal_id) 
+    DO UPDATE SET
+      name = EXCLUDED.name,
+      ip_address = EXCLUDED.ip_address,
+      port = EXCLUDED.port,
+      mac_address = EXCLUDED.mac_address,
+      location = EXCLUDED.location,
+      assigned_employee_id = EXCLUDED.assigned_employee_id,
+      hardware_info = EXCLUDED.hardware_info,
+      software_version = EXCLUDED.software_version,
+      is_active = true,
+      updated_at = NOW()
+    RETURNING *
+  `;
+  
+  const result = await DatabaseManager.transaction(async (client: PoolClient) => {
+    // Serialize registrations so two new terminals cannot both take the last licensed slot
+    await client.query('LOCK TABLE pos_terminals IN SHARE ROW EXCLUSIVE MODE');
+    await LicenseService.assertTerminalCapacity(fields.terminal_id, client);
+
+    return client.query(query, [
+      fields.terminal_id, fields.name, fields.ip_address, fields.port || 5173, fields.mac_address,
+      fields.location, fields.assigned_employee_id,
+      fields.hardware_info ? JSON.stringify(fields.hardware_info) : null,
+      fields.software_version
+    ]);
+  });
+  
+  return result.rows[0];
+};
+
 // Get all POS terminals
 router.get('/terminals', asyncHandler(async (req: Request, res: Response) => {
   const { status, assigned_employee_id } = req.query;
@@ -41,6 +94,71 @@ router.get('/terminals', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
+// Discovered POS terminals not registered yet, with the state of the subnet probe
+router.get('/terminals/discovered', asyncHandler(async (req: Request, res: Response) => {
+  const status = await TerminalDiscoveryService.getStatus();
+  
+  res.json({
+    success: true,
+    data: status
+  });
+}));
+
+// Network discovery - ask terminals to announce themselves; probe=true also probes ip_range
+router.post('/terminals/discover', asyncHandler(async (req: Request, res: Response) => {
+  const { ip_range, probe } = req.body;
+  
+  if (ip_range !== undefined && typeof ip_range !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'ip_range must be a string such as 192.168.1.0/24'
+    });
+  }
+  
+  const scan = await TerminalDiscoveryService.discover({ range: ip_range, probe: probe === true });
+  
+  res.json({
+    success: true,
+    message: scan ? 'Network discovery initiated' : 'Discovery query sent',
+    data: {
+      scan,
+      status: scan ? scan.status : 'listening'
+    }
+  });
+}));
+
+// Adopt a discovered terminal into pos_terminals; announced details can be overridden
+router.post('/terminals/discovered/:key/adopt', asyncHandler(async (req: Request, res: Response) => {
+  const discovered = TerminalDiscoveryService.getTerminal(req.params.key);
+  const terminal_id = req.body.terminal_id || discovered.terminal_id;
+  
+  if (!terminal_id) {
+    return res.status(400).json({
+      success: false,
+      error: 'terminal_id is required for terminals found by the subnet probe'
+    });
+  }
+  
+  const terminal = await saveTerminal({
+    terminal_id,
+    name: req.body.name || discovered.name || `Terminal ${terminal_id}`,
+    ip_address: discovered.ip_address,
+    port: discovered.port,
+    mac_address: discovered.mac_address,
+    location: req.body.location,
+    assigned_employee_id: req.body.assigned_employee_id,
+    hardware_info: discovered.hardware_info,
+    software_version: discovered.software_version
+  });
+  TerminalDiscoveryService.markRegistered(discovered.key, terminal.id);
+  
+  res.json({
+    success: true,
+    data: terminal,
+    message: 'POS terminal adopted successfully'
+  });
+}));
+
 // Get POS terminal by ID
 router.get('/terminals/:id', asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -121,34 +239,14 @@ router.post('/terminals', asyncHandler(async (req: Request, res: Response) => {
     });
   }
   
-  const query = `
-    INSERT INTO pos_terminals (
-      terminal_id, name, ip_address, port, mac_address, location,
-      assigned_employee_id, hardware_info, software_version
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-    ON CONFLICT (terminal_id) 
-    DO UPDATE SET
-      name = EXCLUDED.name,
-      ip_address = EXCLUDED.ip_address,
-      port = EXCLUDED.port,
-      mac_address = EXCLUDED.mac_address,
-      location = EXCLUDED.location,
-      assigned_employee_id = EXCLUDED.assigned_employee_id,
-      hardware_info = EXCLUDED.hardware_info,
-      software_version = EXCLUDED.software_version,
-      updated_at = NOW()
-    RETURNING *
-  `;
-  
-  const result = await DatabaseManager.query(query, [
-    terminal_id, name, ip_address, port || 5173, mac_address, location,
-    assigned_employee_id, hardware_info ? JSON.stringify(hardware_info) : null,
-    software_version
-  ]);
+  const terminal = await saveTerminal({
+    terminal_id, name, ip_address, port, mac_address, location,
+    assigned_employee_id, hardware_info, software_version
+  });
   
   res.json({
     success: true,
-    data: result.rows[0],
+    data: terminal,
     message: 'POS terminal configuration saved successfully'
   });
 }));
@@ -501,22 +599,6 @@ router.get('/health-logs', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
-// Network discovery - scan for POS terminals on the network
-router.post('/terminals/discover', asyncHandler(async (req: Request, res: Response) => {
-  const { ip_range } = req.body;
-  
-  // This is a placeholder for network discovery functionality
-  // In a real implementation, you would scan the network for devices
-  res.json({
-    success: true,
-    message: 'Network discovery initiated',
-    data: {
-      scanning_range: ip_range || '192.168.1.0/24',
-      status: 'in_progress'
-    }
-  });
-}));
-
 // Get client IP address (helper for terminals)
 router.get('/client-ip', (req: Request, res: Response) => {
   try {
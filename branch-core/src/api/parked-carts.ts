@@ -0,0 +1,89 @@
+import { asyncHandler } from '@/middleware/errorHandler';
+import { ParkedCartService } from '@/services/ParkedCartService';
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+
+const router = Router();
+
+// Validation schemas
+const parkCartSchema = z.object({
+  terminalId: z.string().min(1, 'Terminal ID is required'),
+  employeeId: z.string().min(1, 'Employee ID is required'),
+  customerId: z.string().uuid().optional(),
+  note: z.string().max(255).optional(),
+  items: z.array(z.object({
+    productId: z.string().uuid(),
+    quantity: z.number()
+      .positive('Quantity must be greater than zero')
+      .multipleOf(0.001, 'Quantity allows at most 3 decimal places')
+  })).min(1, 'At least one item is required')
+});
+
+const listSchema = z.object({
+  status: z.enum(['parked', 'resumed', 'cancelled', 'expired', 'all']).default('parked'),
+  terminalId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+});
+
+const resumeSchema = z.object({
+  terminalId: z.string().min(1, 'Terminal ID is required'),
+  employeeId: z.string().min(1, 'Employee ID is required')
+});
+
+const cancelSchema = z.object({
+  employeeId: z.string().min(1, 'Employee ID is required')
+});
+
+// GET /api/parked-carts - Parked carts of the branch; status=all for the supervisor overview
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const carts = await ParkedCartService.listCarts(listSchema.parse(req.query));
+
+  res.json({
+    success: true,
+    data: { carts }
+  });
+}));
+
+// GET /api/parked-carts/settings - How long parked carts and unpaid sales are kept
+router.get('/settings', asyncHandler(async (req: Request, res: Response) => {
+  const settings = await ParkedCartService.getSettings();
+
+  res.json({
+    success: true,
+    data: { settings }
+  });
+}));
+
+// POST /api/parked-carts - Put the till's cart on hold
+router.post('/', asyncHandler(async (req: Request, res: Response) => {
+  const cart = await ParkedCartService.parkCart(parkCartSchema.parse(req.body));
+
+  res.status(201).json({
+    success: true,
+    data: { cart },
+    message: `Cart parked as ${cart.park_number}`
+  });
+}));
+
+// POST /api/parked-carts/:id/resume - Recall a parked cart at any till of the branch
+router.post('/:id/resume', asyncHandler(async (req: Request, res: Response) => {
+  const result = await ParkedCartService.resumeCart(req.params.id, resumeSchema.parse(req.body));
+
+  res.json({
+    success: true,
+    data: result
+  });
+}));
+
+// POST /api/parked-carts/:id/cancel
+router.post('/:id/cancel', asyncHandler(async (req: Request, res: Response) => {
+  const { employeeId } = cancelSchema.parse(req.body);
+  const cart = await ParkedCartService.cancelCart(req.params.id, employeeId);
+
+  res.json({
+    success: true,
+    data: { cart }
+  });
+}));
+
+export default router;
@@ -1,5 +1,8 @@
 import { DatabaseManager } from '@/database/manager';
 import { asyncHandler, createError } from '@/middleware/errorHandler';
+import { EmbeddedBarcodeService } from '@/services/EmbeddedBarcodeService';
+import { ProductBarcodeService } from '@/services/ProductBarcodeService';
+import { TaxEngine } from '@/services/TaxEngine';
 import { RedisManager } from '@/services/redis';
 import { Request, Response, Router } from 'express';
 import { z } from 'zod';
@@ -17,6 +20,10 @@ const barcodeSchema = z.object({
   barcode: z.string().min(1, 'Barcode is required')
 });
 
+// IKPU (MXIK) product class code from the tax committee catalogue, printed on fiscal receipts
+const ikpuCodeSchema = z.string().regex(/^\d{17}$/, 'IKPU code must be 17 digits');
+const packageCodeSchema = z.string().max(20);
+
 const createProductSchema = z.object({
   name: z.string().min(1, 'Product name is required'),
   barcode: z.string().optional(),
@@ -24,8 +31,12 @@ const createProductSchema = z.object({
   cost: z.number().min(0, 'Cost must be positive').optional(),
   quantity_in_stock: z.number().min(0, 'Stock quantity must be positive').optional(),
   low_stock_threshold: z.number().min(0, 'Low stock threshold must be positive').optional(),
+  unit_of_measure: z.string().min(1).max(50).optional(),
   category_id: z.string().uuid().optional(),
   brand: z.string().optional(),
+  location: z.string().max(100).optional(),
+  ikpu_code: ikpuCodeSchema.optional(),
+  package_code: packageCodeSchema.optional(),
   description: z.string().optional(),
   image_url: z.string().optional(),
   is_active: z.boolean().optional(),
@@ -43,8 +54,12 @@ const updateProductSchema = z.object({
   cost: z.number().min(0, 'Cost must be positive').optional(),
   quantity_in_stock: z.number().min(0, 'Stock quantity must be positive').optional(),
   low_stock_threshold: z.number().min(0, 'Low stock threshold must be positive').optional(),
+  unit_of_measure: z.string().min(1).max(50).optional(),
   category_id: z.string().uuid().optional(),
   brand: z.string().optional(),
+  location: z.string().max(100).optional(),
+  ikpu_code: ikpuCodeSchema.nullable().optional(),
+  package_code: packageCodeSchema.nullable().optional(),
   description: z.string().optional(),
   image_url: z.string().optional(),
   is_active: z.boolean().optional()
@@ -97,7 +112,7 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
     SELECT 
       p.id, p.sku, ${nameField}, ${descField}, p.barcode, p.price, p.cost, p.quantity_in_stock, 
       ${categoryFields}, p.brand, p.image_url, p.is_active, p.created_at, p.updated_at,
-      p.low_stock_threshold
+      p.low_stock_threshold, p.location, p.unit_of_measure, p.variant_attributes
     FROM products p
     LEFT JOIN categories c ON p.category_id = c.id
     WHERE p.is_active = true
@@ -126,6 +141,37 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
+// GET /api/products/offline-catalog - Everything a till needs to keep selling while the branch server is unreachable
+router.get('/offline-catalog', asyncHandler(async (req: Request, res: Response) => {
+  const language = (req.query.language as string) || 'en';
+
+  const { nameField } = getLocalizedFields(language);
+  const categoryFields = getLocalizedCategoryField(language);
+
+  const [productsResult, taxSettings] = await Promise.all([
+    DatabaseManager.query(`
+      SELECT
+        p.id, p.sku, ${nameField}, p.barcode, p.price, p.cost, p.quantity_in_stock, p.low_stock_threshold, p.unit_of_measure,
+        p.tax_rate, ${categoryFields}, p.brand, p.is_active
+      FROM products p
+      LEFT JOIN categories c ON p.category_id = c.id
+      WHERE p.is_active = true
+      ORDER BY p.name ASC
+    `),
+    TaxEngine.getSettings()
+  ]);
+
+  res.json({
+    success: true,
+    data: {
+      products: productsResult.rows,
+      taxSettings,
+      language,
+      generatedAt: new Date().toISOString()
+    }
+  });
+}));
+
 // GET /api/products/search
 router.get('/search', asyncHandler(async (req: Request, res: Response) => {
   const { query, limit = 20, offset = 0 } = req.query;
@@ -138,7 +184,7 @@ router.get('/search', asyncHandler(async (req: Request, res: Response) => {
     SELECT 
       p.id, p.sku, ${nameField}, ${descField}, p.barcode, p.price, p.cost, p.quantity_in_stock, 
       ${categoryFields}, p.brand, p.image_url, p.is_active, p.created_at, p.updated_at,
-      p.low_stock_threshold
+      p.low_stock_threshold, p.unit_of_measure, p.variant_attributes
     FROM products p
     LEFT JOIN categories c ON p.category_id = c.id
     WHERE 
@@ -191,7 +237,7 @@ router.get('/autocomplete', asyncHandler(async (req: Request, res: Response) =>
   const exactQuery = `
     SELECT 
       p.id, p.sku, ${nameField}, p.barcode, p.price, p.quantity_in_stock, 
-      ${categoryFields}, p.brand, p.low_stock_threshold
+      ${categoryFields}, p.brand, p.low_stock_threshold, p.unit_of_measure, p.variant_attributes
     FROM products p
     LEFT JOIN categories c ON p.category_id = c.id
     WHERE 
@@ -225,7 +271,7 @@ router.get('/autocomplete', asyncHandler(async (req: Request, res: Response) =>
       partialQuery = `
         SELECT 
           p.id, p.sku, ${nameField}, p.barcode, p.price, p.quantity_in_stock, 
-          ${categoryFields}, p.brand, p.low_stock_threshold
+          ${categoryFields}, p.brand, p.low_stock_threshold, p.unit_of_measure, p.variant_attributes
         FROM products p
         LEFT JOIN categories c ON p.category_id = c.id
         WHERE 
@@ -246,7 +292,7 @@ router.get('/autocomplete', asyncHandler(async (req: Request, res: Response) =>
       partialQuery = `
         SELECT 
           p.id, p.sku, ${nameField}, p.barcode, p.price, p.quantity_in_stock, 
-          ${categoryFields}, p.brand, p.low_stock_threshold
+          ${categoryFields}, p.brand, p.low_stock_threshold, p.unit_of_measure, p.variant_attributes
         FROM products p
         LEFT JOIN categories c ON p.category_id = c.id
         WHERE 
@@ -281,6 +327,8 @@ router.get('/autocomplete', asyncHandler(async (req: Request, res: Response) =>
 }));
 
 // GET /api/products/barcode/:barcode
+// Additional barcodes (supplier barcodes, multipacks) and scale labels (EAN-13 with an
+// embedded weight or price) resolve to their product and quantity
 router.get('/barcode/:barcode', asyncHandler(async (req: Request, res: Response) => {
   const { barcode } = barcodeSchema.parse(req.params);
   const language = (req.query.language as string) || 'en';
@@ -288,26 +336,77 @@ router.get('/barcode/:barcode', asyncHandler(async (req: Request, res: Response)
   const { nameField, descField } = getLocalizedFields(language);
   const categoryFields = getLocalizedCategoryField(language);
   
-  const productQuery = `
+  const productSelect = `
     SELECT 
       p.id, p.sku, ${nameField}, ${descField}, p.barcode, p.price, p.cost, p.quantity_in_stock, 
       ${categoryFields}, p.brand, p.image_url, p.is_active, p.created_at, p.updated_at,
-      p.low_stock_threshold
+      p.low_stock_threshold, p.unit_of_measure, p.variant_attributes
     FROM products p
     LEFT JOIN categories c ON p.category_id = c.id
-    WHERE p.barcode = $1 AND p.is_active = true
+  `;
+  const productQuery = `${productSelect}
+    WHERE p.barcode = ANY($1::text[]) AND p.is_active = true
+    ORDER BY array_position($1::text[], p.barcode::text)
+    LIMIT 1
   `;
 
-  const result = await DatabaseManager.query(productQuery, [barcode]);
-  const product = result.rows[0];
+  const result = await DatabaseManager.query(productQuery, [[barcode]]);
+  let product = result.rows[0];
 
-  if (!product) {
+  if (product) {
+    res.json({
+      success: true,
+      data: { product, fromCache: false }
+    });
+    return;
+  }
+
+  const packaging = await ProductBarcodeService.find(barcode);
+  if (packaging) {
+    const packagingResult = await DatabaseManager.query(
+      `${productSelect} WHERE p.id = $1 AND p.is_active = true`,
+      [packaging.product_id]
+    );
+
+    if (packagingResult.rows[0]) {
+      res.json({
+        success: true,
+        data: {
+          product: packagingResult.rows[0],
+          fromCache: false,
+          packaging: {
+            barcode: packaging.barcode,
+            quantity_multiplier: packaging.quantity_multiplier,
+            description: packaging.description
+          }
+        }
+      });
+      return;
+    }
+  }
+
+  const embedded = EmbeddedBarcodeService.parse(barcode, await EmbeddedBarcodeService.getSettings());
+  if (embedded) {
+    const embeddedResult = await DatabaseManager.query(productQuery, [EmbeddedBarcodeService.productCodes(embedded)]);
+    product = embeddedResult.rows[0];
+  }
+
+  if (!product || !embedded) {
     throw createError('Product not found', 404);
   }
 
+  const quantity = EmbeddedBarcodeService.quantityFor(embedded, parseFloat(product.price));
+  if (quantity <= 0) {
+    throw createError('The label carries no quantity for this product', 422);
+  }
+
   res.json({
     success: true,
-    data: { product, fromCache: false }
+    data: {
+      product,
+      fromCache: false,
+      embedded: { ...embedded, quantity }
+    }
   });
 }));
 
@@ -340,7 +439,7 @@ router.get('/by-ids', asyncHandler(async (req: Request, res: Response) => {
     SELECT 
       p.id, p.sku, ${nameField}, ${descField}, p.barcode, p.price, p.cost, p.quantity_in_stock, 
       ${categoryFields}, p.brand, p.image_url, p.is_active, p.created_at, p.updated_at,
-      p.low_stock_threshold
+      p.low_stock_threshold, p.unit_of_measure, p.variant_attributes
     FROM products p
     LEFT JOIN categories c ON p.category_id = c.id
     WHERE p.id IN (${placeholders}) AND p.is_active = true
@@ -431,6 +530,24 @@ router.post('/categories', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
+// GET /api/products/locations - Storage locations in use, for location stocktakes
+router.get('/locations', asyncHandler(async (req: Request, res: Response) => {
+  const result = await DatabaseManager.query(`
+    SELECT location, COUNT(*) as product_count
+    FROM products
+    WHERE is_active = true AND location IS NOT NULL AND location <> ''
+    GROUP BY location
+    ORDER BY location
+  `);
+
+  res.json({
+    success: true,
+    data: {
+      locations: result.rows.map((row: any) => ({ location: row.location, product_count: parseInt(row.product_count) }))
+    }
+  });
+}));
+
 // GET /api/products/low-stock - Must come before /:id route
 router.get('/low-stock', asyncHandler(async (req: Request, res: Response) => {
   const threshold = parseInt(req.query.threshold as string) || 10;
@@ -509,7 +626,7 @@ router.get('/category/:category', asyncHandler(async (req: Request, res: Respons
     SELECT 
       p.id, p.sku, ${nameField}, ${descField}, p.barcode, p.price, p.cost, p.quantity_in_stock, 
       ${categoryFields}, p.brand, p.image_url, p.is_active, p.created_at, p.updated_at,
-      p.low_stock_threshold
+      p.low_stock_threshold, p.unit_of_measure, p.variant_attributes
     FROM products p
     LEFT JOIN categories c ON p.category_id = c.id
     WHERE c.key = $1 AND p.is_active = true
@@ -539,11 +656,12 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
       name, barcode, price, cost, quantity_in_stock, 
       low_stock_threshold, category_id, brand, description, 
       image_url, is_active, name_ru, name_uz, description_ru, description_uz,
-      created_at, updated_at
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, NOW(), NOW())
+      location, unit_of_measure, ikpu_code, package_code, created_at, updated_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, NOW(), NOW())
     RETURNING id, name, barcode, price, cost, quantity_in_stock, 
-             low_stock_threshold, category_id, brand, description, 
+             low_stock_threshold, unit_of_measure, category_id, brand, location, description, 
              image_url, is_active, name_ru, name_uz, description_ru, description_uz,
+             ikpu_code, package_code,
              created_at, updated_at
   `;
 
@@ -562,7 +680,11 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
     validatedData.name_ru || null,
     validatedData.name_uz || null,
     validatedData.description_ru || null,
-    validatedData.description_uz || null
+    validatedData.description_uz || null,
+    validatedData.location || null,
+    validatedData.unit_of_measure || 'pcs',
+    validatedData.ikpu_code || null,
+    validatedData.package_code || null
   ];
 
   const result = await DatabaseManager.query(createQuery, values);
@@ -611,8 +733,8 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
     SET ${updateFields.join(', ')}
     WHERE id = $${paramCount}
     RETURNING id, name, barcode, price, cost, quantity_in_stock, 
-             low_stock_threshold, category_id, brand, description, 
-             image_url, is_active, created_at, updated_at
+             low_stock_threshold, unit_of_measure, category_id, brand, location, description, 
+             image_url, is_active, ikpu_code, package_code, created_at, updated_at
   `;
 
   const result = await DatabaseManager.query(updateQuery, updateValues);
@@ -687,7 +809,8 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
     SELECT 
       p.id, p.sku, ${nameField}, ${descField}, p.barcode, p.price, p.cost, p.quantity_in_stock, 
       ${categoryField}, p.brand, p.image_url, p.is_active, p.created_at, p.updated_at,
-      p.low_stock_threshold
+      p.low_stock_threshold, p.location, p.unit_of_measure, p.variant_attributes,
+      p.ikpu_code, p.package_code
     FROM products p
     LEFT JOIN categories c ON p.category = c.key
     WHERE p.id = $1
@@ -730,13 +853,15 @@ router.post('/:id/update-stock', asyncHandler(async (req: Request, res: Response
       throw createError('Product not found', 404);
     }
 
+    // DECIMAL comes back from pg as a string; round away float noise on fractional stock
+    const currentQuantity = parseFloat(product.quantity_in_stock) || 0;
     let newQuantity;
     switch (operation) {
       case 'add':
-        newQuantity = product.quantity_in_stock + quantity;
+        newQuantity = Math.round((currentQuantity + quantity) * 1000) / 1000;
         break;
       case 'subtract':
-        newQuantity = Math.max(0, product.quantity_in_stock - quantity);
+        newQuantity = Math.max(0, Math.round((currentQuantity - quantity) * 1000) / 1000);
         break;
       case 'set':
         newQuantity = quantity;
@@ -757,7 +882,7 @@ router.post('/:id/update-stock', asyncHandler(async (req: Request, res: Response
         `INSERT INTO stock_movements 
          (product_id, old_quantity, new_quantity, change_quantity, operation, reason, created_at)
          VALUES ($1, $2, $3, $4, $5, $6, NOW())`,
-        [productId, product.quantity_in_stock, newQuantity, quantity, operation, reason || 'Manual adjustment']
+        [productId, currentQuantity, newQuantity, quantity, operation, reason || 'Manual adjustment']
       );
     } catch (error) {
       // If stock_movements table doesn't exist, just log the error but continue
@@ -43,10 +43,26 @@ router.get('/sales/daily', asyncHandler(async (req: Request, res: Response) => {
     ORDER BY hour
   `;
 
-  const [salesResult, paymentsResult, hourlyResult] = await Promise.all([
+  // Net, tax and gross per VAT rate (line totals include VAT when prices are VAT-inclusive)
+  const taxBreakdownQuery = `
+    SELECT 
+      ti.tax_rate,
+      COUNT(DISTINCT t.id) as transaction_count,
+      SUM(CASE WHEN t.prices_include_tax THEN ti.total_price - ti.tax_amount ELSE ti.total_price END) as net_amount,
+      SUM(ti.tax_amount) as tax_amount,
+      SUM(CASE WHEN t.prices_include_tax THEN ti.total_price ELSE ti.total_price + ti.tax_amount END) as gross_amount
+    FROM transaction_items ti
+    JOIN transactions t ON ti.transaction_id = t.id
+    WHERE DATE(t.created_at) = $1 AND t.status = 'completed'
+    GROUP BY ti.tax_rate
+    ORDER BY ti.tax_rate
+  `;
+
+  const [salesResult, paymentsResult, hourlyResult, taxResult] = await Promise.all([
     DatabaseManager.query(dailySalesQuery, [date]),
     DatabaseManager.query(paymentMethodsQuery, [date]),
-    DatabaseManager.query(hourlyBreakdownQuery, [date])
+    DatabaseManager.query(hourlyBreakdownQuery, [date]),
+    DatabaseManager.query(taxBreakdownQuery, [date])
   ]);
 
   res.json({
@@ -55,7 +71,8 @@ router.get('/sales/daily', asyncHandler(async (req: Request, res: Response) => {
       date,
       summary: salesResult.rows[0],
       paymentMethods: paymentsResult.rows,
-      hourlyBreakdown: hourlyResult.rows
+      hourlyBreakdown: hourlyResult.rows,
+      taxBreakdown: taxResult.rows
     }
   });
 }));
@@ -111,8 +128,8 @@ router.get('/products/top-selling', asyncHandler(async (req: Request, res: Respo
 
   const topProductsQuery = `
     SELECT 
-      p.id, p.name, p.category, p.price,
-      SUM(ti.quantity) as quantity_sold,
+      p.id, p.name, p.category, p.price, p.unit_of_measure,
+      SUM(ti.quantity) as quantity_sold, -- In unit_of_measure: pieces and kilograms are not comparable
       SUM(ti.total_price) as total_revenue,
       COUNT(DISTINCT ti.transaction_id) as transaction_count,
       AVG(ti.quantity) as avg_quantity_per_transaction
@@ -122,7 +139,7 @@ router.get('/products/top-selling', asyncHandler(async (req: Request, res: Respo
     WHERE 
       t.created_at >= NOW() - INTERVAL '${days} days'
       AND t.status = 'completed'
-    GROUP BY p.id, p.name, p.category, p.price
+    GROUP BY p.id, p.name, p.category, p.price, p.unit_of_measure
     ORDER BY quantity_sold DESC
     LIMIT $1
   `;
@@ -140,7 +157,7 @@ router.get('/products/top-selling', asyncHandler(async (req: Request, res: Respo
 
 // GET /api/reports/inventory/status
 router.get('/inventory/status', asyncHandler(async (req: Request, res: Response) => {
-  const lowStockThreshold = parseInt(req.query.threshold as string) || 10;
+  const lowStockThreshold = parseFloat(req.query.threshold as string) || 10;
 
   const inventoryQuery = `
     SELECT 
@@ -153,7 +170,7 @@ router.get('/inventory/status', asyncHandler(async (req: Request, res: Response)
   `;
 
   const lowStockProductsQuery = `
-    SELECT id, name, barcode, quantity_in_stock, cost, price
+    SELECT id, name, barcode, quantity_in_stock, unit_of_measure, cost, price
     FROM products
     WHERE quantity_in_stock <= $1 AND is_active = true
     ORDER BY quantity_in_stock ASC
@@ -0,0 +1,117 @@
+import { asyncHandler } from '@/middleware/errorHandler';
+import { ShiftService } from '@/services/ShiftService';
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+
+const router = Router();
+
+// Validation schemas
+const openShiftSchema = z.object({
+  terminalId: z.string().min(1),
+  employeeId: z.string().min(1),
+  openingFloat: z.number().min(0),
+  notes: z.string().max(1000).optional()
+});
+
+const movementSchema = z.object({
+  type: z.enum(['drop', 'pay_in', 'pay_out']),
+  amount: z.number().positive(),
+  reason: z.string().max(500).optional(),
+  employeeId: z.string().min(1)
+});
+
+const closeShiftSchema = z.object({
+  employeeId: z.string().min(1),
+  countedCash: z.number().min(0),
+  notes: z.string().max(1000).optional()
+});
+
+const listSchema = z.object({
+  terminalId: z.string().optional(),
+  status: z.enum(['open', 'closed']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional()
+});
+
+// GET /api/shifts - Recent shifts, optionally for one terminal
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const shifts = await ShiftService.listShifts(listSchema.parse(req.query));
+
+  res.json({
+    success: true,
+    data: { shifts }
+  });
+}));
+
+// GET /api/shifts/current/:terminalId - The terminal's open shift (null when the drawer is closed)
+router.get('/current/:terminalId', asyncHandler(async (req: Request, res: Response) => {
+  const shift = await ShiftService.getCurrentShift(req.params.terminalId);
+
+  res.json({
+    success: true,
+    data: { shift }
+  });
+}));
+
+// POST /api/shifts/open - Open a shift with the opening float
+router.post('/open', asyncHandler(async (req: Request, res: Response) => {
+  const shift = await ShiftService.openShift(openShiftSchema.parse(req.body));
+
+  res.status(201).json({
+    success: true,
+    data: { shift },
+    message: `Shift #${shift.shift_number} opened`
+  });
+}));
+
+// POST /api/shifts/sync - Push closed shift reports to chain-core now
+router.post('/sync', asyncHandler(async (req: Request, res: Response) => {
+  const result = await ShiftService.syncClosedShifts();
+
+  res.json({
+    success: true,
+    data: result
+  });
+}));
+
+// GET /api/shifts/:id - Shift with its cash movements
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const { shift, movements } = await ShiftService.getShift(req.params.id);
+
+  res.json({
+    success: true,
+    data: { shift, movements }
+  });
+}));
+
+// POST /api/shifts/:id/movements - Record a cash drop, pay-in or pay-out
+router.post('/:id/movements', asyncHandler(async (req: Request, res: Response) => {
+  const movement = await ShiftService.addMovement(req.params.id, movementSchema.parse(req.body));
+
+  res.status(201).json({
+    success: true,
+    data: { movement }
+  });
+}));
+
+// GET /api/shifts/:id/report - X report while open, Z report once closed
+router.get('/:id/report', asyncHandler(async (req: Request, res: Response) => {
+  const report = await ShiftService.getReport(req.params.id);
+
+  res.json({
+    success: true,
+    data: { report }
+  });
+}));
+
+// POST /api/shifts/:id/close - Close with the counted cash and produce the Z report
+router.post('/:id/close', asyncHandler(async (req: Request, res: Response) => {
+  const { shift, report } = await ShiftService.closeShift(req.params.id, closeShiftSchema.parse(req.body));
+
+  res.json({
+    success: true,
+    data: { shift, report },
+    message: `Shift #${shift.shift_number} closed`
+  });
+}));
+
+export default router;
@@ -1,6 +1,8 @@
 import { DatabaseManager } from '@/database/manager';
 import { asyncHandler, createError } from '@/middleware/errorHandler';
+import { ProductBarcodeService } from '@/services/ProductBarcodeService';
 import { RedisManager } from '@/services/redis';
+import { TaxEngine } from '@/services/TaxEngine';
 import { Request, Response, Router } from 'express';
 
 const router = Router();
@@ -159,6 +161,11 @@ router.post('/products-complete', asyncHandler(async (req: Request, res: Respons
     await DatabaseManager.query('BEGIN');
     
     try {
+      // Branch default VAT rate, used for products without a rate of their own
+      if (typeof data.settings?.default_tax_rate === 'number') {
+        await TaxEngine.setDefaultRate(data.settings.default_tax_rate);
+      }
+
       // 1. Process new/updated products
       if (data.products && Array.isArray(data.products)) {
         console.log(`📦 [COMPLETE SYNC] Processing ${data.products.length} product updates`);
@@ -183,9 +190,9 @@ router.post('/products-complete', asyncHandler(async (req: Request, res: Respons
             const upsertQuery = `
               INSERT INTO products (
                 sku, barcode, name, description, category_id, 
-                brand, price, cost, unit_of_measure, tax_rate, is_active, updated_at
+                brand, price, cost, unit_of_measure, tax_rate, is_active, variant_attributes, updated_at
               )
-              VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW())
+              VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW())
               ON CONFLICT (barcode) 
               DO UPDATE SET 
                 sku = EXCLUDED.sku,
@@ -198,11 +205,12 @@ router.post('/products-complete', asyncHandler(async (req: Request, res: Respons
                 unit_of_measure = EXCLUDED.unit_of_measure,
                 tax_rate = EXCLUDED.tax_rate,
                 is_active = EXCLUDED.is_active,
+                variant_attributes = EXCLUDED.variant_attributes,
                 updated_at = NOW()
               RETURNING id
             `;
 
-            await DatabaseManager.query(upsertQuery, [
+            const upsertResult = await DatabaseManager.query(upsertQuery, [
               product.sku || null,
               product.barcode,
               product.name,
@@ -212,9 +220,15 @@ router.post('/products-complete', asyncHandler(async (req: Request, res: Respons
               product.price,
               product.cost || null,
               product.unit_of_measure || 'pcs',
-              product.tax_rate || 0,
-              product.is_active !== false
+              product.tax_rate ?? null,
+              product.is_active !== false,
+              product.variant_attributes ? JSON.stringify(product.variant_attributes) : null
             ]);
+
+            // Additional barcodes are only replaced when chain-core sent the list
+            if (Array.isArray(product.barcodes)) {
+              await ProductBarcodeService.replaceBarcodes(upsertResult.rows[0].id, product.barcodes, product.barcode);
+            }
             
             syncResults.products.success++;
           } catch (error) {
@@ -285,6 +299,8 @@ router.post('/products-complete', asyncHandler(async (req: Request, res: Respons
                 promotion_type VARCHAR(50),
                 discount_value DECIMAL(10,2),
                 min_quantity INTEGER,
+                buy_quantity INTEGER,
+                get_quantity INTEGER,
                 product_barcode VARCHAR(100),
                 category_key VARCHAR(100),
                 start_date TIMESTAMP WITH TIME ZONE,
@@ -298,10 +314,10 @@ router.post('/products-complete', asyncHandler(async (req: Request, res: Respons
             const upsertQuery = `
               INSERT INTO promotions (
                 chain_promotion_id, name, description, promotion_type, 
-                discount_value, min_quantity, product_barcode, category_key,
-                start_date, end_date, is_active
+                discount_value, min_quantity, buy_quantity, get_quantity,
+                product_barcode, category_key, start_date, end_date, is_active
               )
-              VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+              VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
               ON CONFLICT (chain_promotion_id) 
               DO UPDATE SET 
                 name = EXCLUDED.name,
@@ -309,6 +325,8 @@ router.post('/products-complete', asyncHandler(async (req: Request, res: Respons
                 promotion_type = EXCLUDED.promotion_type,
                 discount_value = EXCLUDED.discount_value,
                 min_quantity = EXCLUDED.min_quantity,
+                buy_quantity = EXCLUDED.buy_quantity,
+                get_quantity = EXCLUDED.get_quantity,
                 product_barcode = EXCLUDED.product_barcode,
                 category_key = EXCLUDED.category_key,
                 start_date = EXCLUDED.start_date,
@@ -317,7 +335,10 @@ router.post('/products-complete', asyncHandler(async (req: Request, res: Respons
                 updated_at = NOW()
             `;
 
-            const discountValue = promotion.discount_percentage || promotion.discount_amount || 0;
+            // Fixed discounts carry an amount, every other type carries a percentage
+            const discountValue = promotion.type === 'fixed_discount'
+              ? (promotion.discount_amount || 0)
+              : (promotion.discount_percentage || promotion.discount_amount || 0);
 
             await DatabaseManager.query(upsertQuery, [
               promotion.id,
@@ -326,6 +347,8 @@ router.post('/products-complete', asyncHandler(async (req: Request, res: Respons
               promotion.type,
               discountValue,
               promotion.min_quantity || null,
+              promotion.buy_quantity || null,
+              promotion.get_quantity || null,
               promotion.product_barcode || null,
               promotion.category_key || null,
               promotion.start_date,
@@ -1,7 +1,14 @@
 import { DatabaseManager } from '@/database/manager';
 import { asyncHandler, createError } from '@/middleware/errorHandler';
 import { businessLogger } from '@/middleware/logger';
+import { FiscalService } from '@/services/FiscalService';
+import { LoyaltyService } from '@/services/LoyaltyService';
+import { OfflineSaleService } from '@/services/OfflineSaleService';
+import { PricingEngine } from '@/services/PricingEngine';
+import { RefundService } from '@/services/RefundService';
+import { TaxEngine } from '@/services/TaxEngine';
 import { RedisManager } from '@/services/redis';
+import { FiscalReceipt, TaxedCart } from '@/types';
 import { Request, Response, Router } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { z } from 'zod';
@@ -9,15 +16,42 @@ import { z } from 'zod';
 const router = Router();
 
 // Validation schemas
+// Quantities are in the product unit of measure, so weighed goods sell in fractions (0.455 kg)
+const quantitySchema = z.number()
+  .positive('Quantity must be greater than zero')
+  .multipleOf(0.001, 'Quantity allows at most 3 decimal places');
+
+const cartItemsSchema = z.array(z.object({
+  productId: z.string().min(1),
+  quantity: quantitySchema,
+  unitPrice: z.number().min(0),
+  // Set for price-embedded scale labels: the label price is charged, the quantity only moves stock
+  lineTotal: z.number().min(0).optional()
+})).min(1, 'At least one item is required');
+
 const createTransactionSchema = z.object({
   terminalId: z.string().min(1, 'Terminal ID is required'),
   employeeId: z.string().min(1, 'Employee ID is required'),
   customerId: z.string().optional(),
-  items: z.array(z.object({
-    productId: z.string().min(1),
-    quantity: z.number().min(1),
-    unitPrice: z.number().min(0)
-  })).min(1, 'At least one item is required')
+  items: cartItemsSchema,
+  // Generated by the till so a retried or replayed request never books the sale twice
+  clientTransactionId: z.string().uuid().optional(),
+  // Present when the till completed the sale while the branch server was unreachable
+  offline: z.object({
+    createdAt: z.string().datetime(),
+    expectedTotal: z.number().min(0),
+    payments: z.array(z.object({
+      method: z.literal('cash'),
+      amount: z.number().min(0)
+    })).min(1, 'At least one payment is required')
+  }).optional()
+}).refine(data => !data.offline || data.clientTransactionId, {
+  message: 'Offline sales must carry the client transaction ID',
+  path: ['clientTransactionId']
+});
+
+const quoteSchema = z.object({
+  items: cartItemsSchema
 });
 
 const paymentSchema = z.object({
@@ -37,52 +71,131 @@ const splitPaymentSchema = z.object({
   })).min(1, 'At least one payment is required')
 });
 
+const refundSchema = z.object({
+  terminalId: z.string().min(1, 'Terminal ID is required'),
+  employeeId: z.string().min(1, 'Employee ID is required'),
+  reason: z.string().min(1, 'Refund reason is required'),
+  items: z.array(z.object({
+    transactionItemId: z.string().uuid(),
+    quantity: quantitySchema,
+    condition: z.enum(['resellable', 'damaged']).default('resellable')
+  })).min(1, 'At least one item is required')
+});
+
+const conflictQuerySchema = z.object({
+  status: z.enum(['open', 'resolved', 'all']).default('open'),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+});
+
+const resolveConflictSchema = z.object({
+  employeeId: z.string().min(1, 'Employee ID is required'),
+  notes: z.string().optional()
+});
+
+// POST /api/transactions/quote - Price a cart with active promotions and tax without saving it
+router.post('/quote', asyncHandler(async (req: Request, res: Response) => {
+  const { items } = quoteSchema.parse(req.body);
+
+  const pricedCart = await PricingEngine.priceCart(items);
+  const taxedCart = await TaxEngine.taxCart(pricedCart);
+
+  res.json({
+    success: true,
+    data: formatCart(taxedCart)
+  });
+}));
+
 // POST /api/transactions
 router.post('/', asyncHandler(async (req: Request, res: Response) => {
-  const { terminalId, employeeId, customerId, items } = createTransactionSchema.parse(req.body);
+  const { terminalId, employeeId, customerId, items, clientTransactionId, offline } = createTransactionSchema.parse(req.body);
+
+  // Sales replayed from a till's offline queue are booked completed in one step
+  if (offline) {
+    const result = await OfflineSaleService.recordSale({
+      transactionId: clientTransactionId!,
+      terminalId,
+      employeeId,
+      customerId,
+      items,
+      createdAt: offline.createdAt,
+      expectedTotal: offline.expectedTotal,
+      payments: offline.payments
+    });
 
-  const transactionId = uuidv4();
-  
-  // Calculate totals
-  let subtotal = 0;
-  const processedItems: any[] = [];
+    if (!result.replayed) {
+      businessLogger.transaction.complete(result.transactionId, result.total, 'cash');
+      if (customerId) {
+        LoyaltyService.syncLedgerInBackground();
+      }
+      FiscalService.submitInBackground(result.transactionId);
+    }
 
-  for (const item of items) {
-    const itemTotal = item.quantity * item.unitPrice;
-    subtotal += itemTotal;
-    
-    processedItems.push({
-      ...item,
-      total: itemTotal
+    res.json({
+      success: true,
+      data: {
+        transactionId: result.transactionId,
+        status: result.status,
+        replayed: result.replayed,
+        conflicts: result.conflicts,
+        ...(result.cart ? formatCart(result.cart) : { total: result.total })
+      }
     });
+    return;
   }
 
-  const tax = subtotal * 0.08; // 8% tax rate - matching frontend calculation
-  const total = Math.round((subtotal + tax) * 10) / 10; // Round to 1 decimal place to match frontend
+  if (clientTransactionId) {
+    const existing = await DatabaseManager.query(
+      'SELECT id, status, total_amount FROM transactions WHERE id = $1',
+      [clientTransactionId]
+    );
+
+    if (existing.rows[0]) {
+      res.json({
+        success: true,
+        data: {
+          transactionId: clientTransactionId,
+          status: existing.rows[0].status,
+          replayed: true,
+          total: parseFloat(existing.rows[0].total_amount)
+        }
+      });
+      return;
+    }
+  }
+
+  const transactionId = clientTransactionId ?? uuidv4();
+
+  const taxedCart = await DatabaseManager.transaction(async (client) => {
+    // Apply promotions against the promotions table as it is right now, then tax each line
+    const pricedCart = await PricingEngine.priceCart(items, client);
+    const taxedCart = await TaxEngine.taxCart(pricedCart, client);
 
-  await DatabaseManager.transaction(async (client) => {
     // Create transaction record
     const transactionQuery = `
       INSERT INTO transactions 
-      (id, terminal_id, employee_id, customer_id, subtotal, tax_amount, total_amount, status, created_at)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, 'pending', NOW())
+      (id, terminal_id, employee_id, customer_id, subtotal, tax_amount, discount_amount, total_amount,
+       prices_include_tax, status, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'pending', NOW())
       RETURNING *
     `;
 
     await client.query(transactionQuery, [
-      transactionId, terminalId, employeeId, customerId, subtotal, tax, total
+      transactionId, terminalId, employeeId, customerId, taxedCart.netSubtotal, taxedCart.taxTotal,
+      taxedCart.discountTotal, taxedCart.total, taxedCart.pricesIncludeTax
     ]);
 
     // Create transaction items
-    for (const item of processedItems) {
+    for (const line of taxedCart.lines) {
       const itemQuery = `
         INSERT INTO transaction_items 
-        (transaction_id, product_id, quantity, unit_price, total_price, created_at)
-        VALUES ($1, $2, $3, $4, $5, NOW())
+        (transaction_id, product_id, quantity, unit_price, total_price, discount_amount, applied_promotion_ids,
+         tax_rate, tax_amount, created_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
       `;
 
       await client.query(itemQuery, [
-        transactionId, item.productId, item.quantity, item.unitPrice, item.total
+        transactionId, line.productId, line.quantity, line.unitPrice, line.total,
+        line.discountAmount, line.appliedPromotionIds, line.taxRate, line.taxAmount
       ]);
     }
 
@@ -101,6 +214,8 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
         [item.productId, item.quantity, transactionId]
       );
     }
+
+    return taxedCart;
   });
 
   businessLogger.transaction.start(transactionId, terminalId, employeeId);
@@ -109,11 +224,8 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
     success: true,
     data: {
       transactionId,
-      subtotal,
-      tax,
-      total,
       status: 'pending',
-      items: processedItems
+      ...formatCart(taxedCart)
     }
   });
 }));
@@ -124,8 +236,8 @@ router.post('/:id/payment', asyncHandler(async (req: Request, res: Response) =>
   const payment = paymentSchema.parse(req.body);
 
   await DatabaseManager.transaction(async (client) => {
-    // Get transaction details
-    const transactionQuery = 'SELECT * FROM transactions WHERE id = $1 AND status = $2';
+    // Lock the sale so the abandoned-sale cleanup cannot void it while it is paid
+    const transactionQuery = 'SELECT * FROM transactions WHERE id = $1 AND status = $2 FOR UPDATE';
     const transactionResult = await client.query(transactionQuery, [transactionId, 'pending']);
     const transaction = transactionResult.rows[0];
 
@@ -156,14 +268,33 @@ router.post('/:id/payment', asyncHandler(async (req: Request, res: Response) =>
       changeGiven
     ]);
 
+    // Store credit is paid with loyalty points; no change is given on it
+    if (payment.method === 'store_credit') {
+      await LoyaltyService.redeemPoints(client, {
+        customerId: transaction.customer_id,
+        transactionId,
+        amount: parseFloat(transaction.total_amount),
+        employeeId: transaction.employee_id
+      });
+    }
+
     // Update transaction status
-    await client.query(
-      'UPDATE transactions SET status = $1, completed_at = NOW() WHERE id = $2',
-      ['completed', transactionId]
+    const completed = await client.query(
+      'UPDATE transactions SET status = $1, completed_at = NOW() WHERE id = $2 AND status = $3',
+      ['completed', transactionId, 'pending']
     );
+
+    if (completed.rowCount === 0) {
+      throw createError('Transaction is no longer pending', 409);
+    }
+
+    await LoyaltyService.awardPoints(client, transactionId);
+    await FiscalService.queueSale(client, transactionId);
   });
 
   businessLogger.transaction.complete(transactionId, payment.amount, payment.method);
+  LoyaltyService.syncLedgerInBackground();
+  const fiscal = await getSaleReceipt(transactionId);
 
   res.json({
     success: true,
@@ -172,7 +303,8 @@ router.post('/:id/payment', asyncHandler(async (req: Request, res: Response) =>
       status: 'completed',
       paymentMethod: payment.method,
       amountPaid: payment.amount,
-      changeGiven: payment.method === 'cash' ? payment.amount - (await getTransactionTotal(transactionId)) : 0
+      changeGiven: payment.method === 'cash' ? payment.amount - (await getTransactionTotal(transactionId)) : 0,
+      fiscal
     }
   });
 }));
@@ -183,8 +315,8 @@ router.post('/:id/split-payment', asyncHandler(async (req: Request, res: Respons
   const { payments } = splitPaymentSchema.parse(req.body);
 
   await DatabaseManager.transaction(async (client) => {
-    // Get transaction details
-    const transactionQuery = 'SELECT * FROM transactions WHERE id = $1 AND status = $2';
+    // Lock the sale so the abandoned-sale cleanup cannot void it while it is paid
+    const transactionQuery = 'SELECT * FROM transactions WHERE id = $1 AND status = $2 FOR UPDATE';
     const transactionResult = await client.query(transactionQuery, [transactionId, 'pending']);
     const transaction = transactionResult.rows[0];
 
@@ -226,14 +358,35 @@ router.post('/:id/split-payment', asyncHandler(async (req: Request, res: Respons
       ]);
     }
 
+    const storeCreditAmount = payments
+      .filter(payment => payment.method === 'store_credit')
+      .reduce((sum, payment) => sum + payment.amount, 0);
+    if (storeCreditAmount > 0) {
+      await LoyaltyService.redeemPoints(client, {
+        customerId: transaction.customer_id,
+        transactionId,
+        amount: storeCreditAmount,
+        employeeId: transaction.employee_id
+      });
+    }
+
     // Update transaction status
-    await client.query(
-      'UPDATE transactions SET status = $1, completed_at = NOW() WHERE id = $2',
-      ['completed', transactionId]
+    const completed = await client.query(
+      'UPDATE transactions SET status = $1, completed_at = NOW() WHERE id = $2 AND status = $3',
+      ['completed', transactionId, 'pending']
     );
+
+    if (completed.rowCount === 0) {
+      throw createError('Transaction is no longer pending', 409);
+    }
+
+    await LoyaltyService.awardPoints(client, transactionId);
+    await FiscalService.queueSale(client, transactionId);
   });
 
   businessLogger.transaction.complete(transactionId, payments.reduce((sum, p) => sum + p.amount, 0), 'split');
+  LoyaltyService.syncLedgerInBackground();
+  const fiscal = await getSaleReceipt(transactionId);
 
   res.json({
     success: true,
@@ -242,11 +395,36 @@ router.post('/:id/split-payment', asyncHandler(async (req: Request, res: Respons
       status: 'completed',
       payments: payments.length,
       totalPaid: payments.reduce((sum, p) => sum + p.amount, 0),
-      changeGiven: Math.max(0, payments.reduce((sum, p) => sum + p.amount, 0) - (await getTransactionTotal(transactionId)))
+      changeGiven: Math.max(0, payments.reduce((sum, p) => sum + p.amount, 0) - (await getTransactionTotal(transactionId))),
+      fiscal
     }
   });
 }));
 
+// GET /api/transactions/offline-conflicts - Problems found when replaying offline till sales
+router.get('/offline-conflicts', asyncHandler(async (req: Request, res: Response) => {
+  const { status, limit } = conflictQuerySchema.parse(req.query);
+
+  const conflicts = await OfflineSaleService.listConflicts(status, limit);
+
+  res.json({
+    success: true,
+    data: { conflicts }
+  });
+}));
+
+// POST /api/transactions/offline-conflicts/:id/resolve
+router.post('/offline-conflicts/:id/resolve', asyncHandler(async (req: Request, res: Response) => {
+  const { employeeId, notes } = resolveConflictSchema.parse(req.body);
+
+  const conflict = await OfflineSaleService.resolveConflict(req.params.id, employeeId, notes);
+
+  res.json({
+    success: true,
+    data: { conflict }
+  });
+}));
+
 // GET /api/transactions/:id
 router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
   const transactionId = req.params.id;
@@ -280,10 +458,18 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
     ORDER BY created_at
   `;
 
-  const [transactionResult, itemsResult, paymentsResult] = await Promise.all([
+  const refundsQuery = `
+    SELECT * FROM refunds 
+    WHERE original_transaction_id = $1 
+    ORDER BY created_at
+  `;
+
+  const [transactionResult, itemsResult, paymentsResult, refundsResult, fiscalReceipts] = await Promise.all([
     DatabaseManager.query(transactionQuery, [transactionId]),
     DatabaseManager.query(itemsQuery, [transactionId]),
-    DatabaseManager.query(paymentsQuery, [transactionId])
+    DatabaseManager.query(paymentsQuery, [transactionId]),
+    DatabaseManager.query(refundsQuery, [transactionId]),
+    FiscalService.getReceipts({ transactionId, status: 'all' })
   ]);
 
   const transaction = transactionResult.rows[0];
@@ -296,7 +482,9 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
     data: {
       transaction,
       items: itemsResult.rows,
-      payments: paymentsResult.rows
+      payments: paymentsResult.rows,
+      refunds: refundsResult.rows,
+      fiscalReceipts
     }
   });
 }));
@@ -349,13 +537,77 @@ router.post('/:id/void', asyncHandler(async (req: Request, res: Response) => {
       'UPDATE transactions SET status = $1, voided_at = NOW(), void_reason = $2, voided_by = $3 WHERE id = $4',
       ['voided', reason, employeeId, transactionId]
     );
+
+    // Take back points the sale earned and return points it spent
+    await LoyaltyService.reverseTransaction(client, transactionId, employeeId);
+
+    // Cancels a receipt that never went out, or queues the return receipt of a fiscalized sale
+    await FiscalService.queueVoid(client, transactionId, employeeId);
   });
 
   businessLogger.transaction.void(transactionId, reason, employeeId);
+  LoyaltyService.syncLedgerInBackground();
+  const fiscalReceipts = await FiscalService.submitForTransaction(transactionId);
+
+  res.json({
+    success: true,
+    message: 'Transaction voided successfully',
+    data: {
+      fiscal: fiscalReceipts.find(receipt => receipt.receipt_type === 'void') ?? null
+    }
+  });
+}));
+
+// POST /api/transactions/:id/refund - Return selected items to the original payment methods
+router.post('/:id/refund', asyncHandler(async (req: Request, res: Response) => {
+  const transactionId = req.params.id;
+  const refundRequest = refundSchema.parse(req.body);
+
+  const result = await RefundService.refundTransaction(transactionId, refundRequest);
+
+  // A refund stopped by a failed reversal is logged when a retry completes it
+  if (result.refund.status === 'completed') {
+    businessLogger.transaction.refund(
+      transactionId,
+      result.refund.id,
+      parseFloat(String(result.refund.total_amount)),
+      refundRequest.employeeId
+    );
+  }
+
+  const fiscalReceipts = await FiscalService.submitForTransaction(transactionId);
+
+  res.json({
+    success: true,
+    data: {
+      ...result,
+      fiscal: fiscalReceipts.find(receipt => receipt.refund_id === result.refund.id) ?? null
+    }
+  });
+}));
+
+// POST /api/transactions/refunds/:refundId/retry - Reverse the payments a refund could not return yet
+router.post('/refunds/:refundId/retry', asyncHandler(async (req: Request, res: Response) => {
+  const result = await RefundService.retryRefund(req.params.refundId);
+  const transactionId = result.refund.original_transaction_id;
+
+  if (result.refund.status === 'completed') {
+    businessLogger.transaction.refund(
+      transactionId,
+      result.refund.id,
+      parseFloat(String(result.refund.total_amount)),
+      result.refund.employee_id
+    );
+  }
+
+  const fiscalReceipts = await FiscalService.submitForTransaction(transactionId);
 
   res.json({
     success: true,
-    message: 'Transaction voided successfully'
+    data: {
+      ...result,
+      fiscal: fiscalReceipts.find(receipt => receipt.refund_id === result.refund.id) ?? null
+    }
   });
 }));
 
@@ -433,6 +685,20 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
+// Helper function to shape a priced and taxed cart for API responses
+function formatCart(taxedCart: TaxedCart) {
+  return {
+    grossSubtotal: taxedCart.grossSubtotal,
+    discountTotal: taxedCart.discountTotal,
+    subtotal: taxedCart.netSubtotal,
+    tax: taxedCart.taxTotal,
+    total: taxedCart.total,
+    pricesIncludeTax: taxedCart.pricesIncludeTax,
+    taxBreakdown: taxedCart.taxBreakdown,
+    items: taxedCart.lines
+  };
+}
+
 // Helper function to get transaction total
 async function getTransactionTotal(transactionId: string): Promise<number> {
   const result = await DatabaseManager.query(
@@ -442,4 +708,10 @@ async function getTransactionTotal(transactionId: string): Promise<number> {
   return result.rows[0]?.total_amount || 0;
 }
 
+// Helper function to fiscalize a just-paid sale; null when fiscalization is off
+async function getSaleReceipt(transactionId: string): Promise<FiscalReceipt | null> {
+  const receipts = await FiscalService.submitForTransaction(transactionId);
+  return receipts.find(receipt => receipt.receipt_type === 'sale') ?? null;
+}
+
 export default router;
@@ -33,15 +33,30 @@ DROP TABLE IF EXISTS sync_logs CASCADE;
 DROP TABLE IF EXISTS api_keys CASCADE;
 DROP TABLE IF EXISTS connection_health_logs CASCADE;
 DROP TABLE IF EXISTS branch_network_config CASCADE;
+DROP TABLE IF EXISTS cash_movements CASCADE;
+DROP TABLE IF EXISTS cash_shifts CASCADE;
 DROP TABLE IF EXISTS pos_terminals CASCADE;
 DROP TABLE IF EXISTS employee_time_logs CASCADE;
+DROP TABLE IF EXISTS scheduled_prices CASCADE;
 DROP TABLE IF EXISTS price_history CASCADE;
+DROP TABLE IF EXISTS loyalty_ledger CASCADE;
+DROP TABLE IF EXISTS loyalty_rules CASCADE;
+DROP TABLE IF EXISTS offline_sale_conflicts CASCADE;
+DROP TABLE IF EXISTS stocktake_counts CASCADE;
+DROP TABLE IF EXISTS stocktake_items CASCADE;
+DROP TABLE IF EXISTS stocktakes CASCADE;
 DROP TABLE IF EXISTS stock_movements CASCADE;
 DROP TABLE IF EXISTS promotions CASCADE;
+DROP TABLE IF EXISTS fiscal_receipts CASCADE;
+DROP TABLE IF EXISTS refund_payments CASCADE;
+DROP TABLE IF EXISTS refund_items CASCADE;
+DROP TABLE IF EXISTS refunds CASCADE;
+DROP TABLE IF EXISTS parked_carts CASCADE;
 DROP TABLE IF EXISTS payments CASCADE;
 DROP TABLE IF EXISTS transaction_items CASCADE;
 DROP TABLE IF EXISTS transactions CASCADE;
 DROP TABLE IF EXISTS customers CASCADE;
+DROP TABLE IF EXISTS product_barcodes CASCADE;
 DROP TABLE IF EXISTS products CASCADE;
 DROP TABLE IF EXISTS categories CASCADE;
 DROP TABLE IF EXISTS employees CASCADE;
@@ -86,8 +101,8 @@ CREATE TABLE IF NOT EXISTS products (
     barcode VARCHAR(255) UNIQUE,
     price DECIMAL(10,2) NOT NULL,
     cost DECIMAL(10,2) DEFAULT 0,
-    quantity_in_stock INTEGER DEFAULT 0,
-    low_stock_threshold INTEGER DEFAULT 10,
+    quantity_in_stock DECIMAL(10,3) DEFAULT 0, -- Fractional for products sold by weight or volume
+    low_stock_threshold DECIMAL(10,3) DEFAULT 10,
     category_id UUID REFERENCES categories(id),
     brand VARCHAR(100),
     description TEXT,
@@ -95,14 +110,30 @@ CREATE TABLE IF NOT EXISTS products (
     description_ru TEXT,
     description_uz TEXT,
     unit_of_measure VARCHAR(50) DEFAULT 'pcs',
-    tax_rate DECIMAL(5,4) DEFAULT 0.0000,
+    location VARCHAR(100), -- Aisle, shelf or storage area; scopes partial stocktakes
+    tax_rate DECIMAL(5,4), -- VAT rate as a fraction; NULL uses the branch default_tax_rate, 0 is zero-rated
+    ikpu_code VARCHAR(17), -- IKPU (MXIK) product class code from the tax committee catalogue, required on fiscal receipts
+    package_code VARCHAR(20), -- Unit/package code registered for the IKPU code
     image_paths JSONB, -- Local image file paths for different sizes
     has_image BOOLEAN DEFAULT false, -- Quick flag to check if product has images
+    variant_attributes JSONB, -- Size, colour etc. of a product variant, as set in chain-core
     is_active BOOLEAN DEFAULT true,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Barcodes besides products.barcode, synced from chain-core: alternate supplier codes
+-- and multipacks. Scanning one sells quantity_multiplier units of the product.
+CREATE TABLE IF NOT EXISTS product_barcodes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    barcode VARCHAR(255) UNIQUE NOT NULL,
+    quantity_multiplier DECIMAL(10,3) NOT NULL DEFAULT 1 CHECK (quantity_multiplier > 0),
+    description VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Customers table
 CREATE TABLE IF NOT EXISTS customers (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -130,12 +161,15 @@ CREATE TABLE IF NOT EXISTS transactions (
     customer_id UUID REFERENCES customers(id),
     subtotal DECIMAL(10,2) NOT NULL,
     tax_amount DECIMAL(10,2) DEFAULT 0,
+    discount_amount DECIMAL(10,2) DEFAULT 0, -- Sum of promotion discounts on all lines
     total_amount DECIMAL(10,2) NOT NULL,
+    prices_include_tax BOOLEAN DEFAULT false, -- Line prices already contain VAT
     status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'voided', 'refunded')),
     void_reason TEXT,
     voided_by VARCHAR(50),
     voided_at TIMESTAMP WITH TIME ZONE,
     completed_at TIMESTAMP WITH TIME ZONE,
+    offline_synced_at TIMESTAMP WITH TIME ZONE, -- Set when the sale was made offline on the till and replayed later
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -145,9 +179,14 @@ CREATE TABLE IF NOT EXISTS transaction_items (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
     product_id UUID NOT NULL REFERENCES products(id),
-    quantity INTEGER NOT NULL,
+    quantity DECIMAL(10,3) NOT NULL, -- In the product unit of measure: pcs, kg, l, ...
     unit_price DECIMAL(10,2) NOT NULL,
-    total_price DECIMAL(10,2) NOT NULL,
+    total_price DECIMAL(10,2) NOT NULL, -- Line total after discount
+    discount_amount DECIMAL(10,2) DEFAULT 0, -- Promotion discount applied to this line
+    applied_promotion_ids TEXT[] DEFAULT '{}', -- chain_promotion_id values of applied promotions
+    tax_rate DECIMAL(5,4) DEFAULT 0, -- VAT rate applied to this line
+    tax_amount DECIMAL(10,2) DEFAULT 0, -- VAT on this line
+    refunded_quantity DECIMAL(10,3) DEFAULT 0, -- Units already returned through refunds
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -163,6 +202,94 @@ CREATE TABLE IF NOT EXISTS payments (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Parked carts table (carts put on hold at one till and recalled at any till of the branch)
+CREATE TABLE IF NOT EXISTS parked_carts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    park_number VARCHAR(50) UNIQUE NOT NULL,
+    terminal_id VARCHAR(100) NOT NULL, -- Till the cart was parked at
+    employee_id VARCHAR(50) NOT NULL,
+    customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+    note VARCHAR(255), -- What the cashier tells apart parked carts by ("blue jacket", "table 4")
+    items JSONB NOT NULL, -- [{ productId, name, quantity, unitPrice }]
+    item_count INTEGER NOT NULL DEFAULT 0,
+    total_amount DECIMAL(10,2) NOT NULL DEFAULT 0, -- Shelf-price total when parked; repriced on resume
+    status VARCHAR(20) DEFAULT 'parked' CHECK (status IN ('parked', 'resumed', 'cancelled', 'expired')),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    resumed_at TIMESTAMP WITH TIME ZONE,
+    resumed_by VARCHAR(50),
+    resumed_terminal_id VARCHAR(100),
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    cancelled_by VARCHAR(50),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Refunds table (refund documents linked to the original sale)
+CREATE TABLE IF NOT EXISTS refunds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    original_transaction_id UUID NOT NULL REFERENCES transactions(id),
+    terminal_id VARCHAR(100) NOT NULL,
+    employee_id VARCHAR(50) NOT NULL,
+    reason TEXT NOT NULL,
+    subtotal DECIMAL(10,2) NOT NULL, -- Returned amount excluding tax
+    tax_amount DECIMAL(10,2) DEFAULT 0,
+    total_amount DECIMAL(10,2) NOT NULL,
+    -- pending while payments are reversed; completed once all are and the items are back in stock
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'partially_failed', 'failed')),
+    processing_until TIMESTAMP WITH TIME ZONE, -- Set while a process reverses the payments, so two never run at once
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Refund items table (returned lines and what happened to the goods)
+CREATE TABLE IF NOT EXISTS refund_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    refund_id UUID NOT NULL REFERENCES refunds(id) ON DELETE CASCADE,
+    transaction_item_id UUID NOT NULL REFERENCES transaction_items(id),
+    product_id UUID NOT NULL REFERENCES products(id),
+    quantity DECIMAL(10,3) NOT NULL CHECK (quantity > 0),
+    unit_price DECIMAL(10,2) NOT NULL,
+    refund_amount DECIMAL(10,2) NOT NULL, -- Line amount returned, before tax
+    tax_amount DECIMAL(10,2) DEFAULT 0, -- Share of the line's VAT returned
+    condition VARCHAR(20) NOT NULL CHECK (condition IN ('resellable', 'damaged')),
+    restocked BOOLEAN NOT NULL, -- false means the units were written off
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Refund payments table (money returned per original payment)
+CREATE TABLE IF NOT EXISTS refund_payments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    refund_id UUID NOT NULL REFERENCES refunds(id) ON DELETE CASCADE,
+    payment_id UUID NOT NULL REFERENCES payments(id),
+    method VARCHAR(50) NOT NULL,
+    amount DECIMAL(10,2) NOT NULL,
+    provider_reference VARCHAR(255), -- FastPay/Click order ID or Payme receipt ID that was reversed
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+    error_message TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Fiscal receipts table (sales, refunds and voids sent to the fiscal module / OFD; queued while it is offline)
+CREATE TABLE IF NOT EXISTS fiscal_receipts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    refund_id UUID REFERENCES refunds(id) ON DELETE CASCADE, -- Set for refund receipts
+    receipt_type VARCHAR(10) NOT NULL CHECK (receipt_type IN ('sale', 'refund', 'void')),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'fiscalized', 'failed', 'cancelled')),
+    payload JSONB NOT NULL, -- Receipt as sent: lines with IKPU code, VAT and amounts in tiyin
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_error TEXT,
+    fiscal_module_id VARCHAR(50), -- Fiscal module (terminal) serial number
+    receipt_seq VARCHAR(20), -- Receipt number within the fiscal module
+    fiscal_sign VARCHAR(50),
+    qr_url TEXT, -- Tax committee check link printed as a QR code
+    fiscalized_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Promotions table (synced from chain-core)
 CREATE TABLE IF NOT EXISTS promotions (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -187,16 +314,114 @@ CREATE TABLE IF NOT EXISTS promotions (
 CREATE TABLE IF NOT EXISTS stock_movements (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     product_id UUID NOT NULL REFERENCES products(id),
-    old_quantity INTEGER,
-    new_quantity INTEGER,
-    change_quantity INTEGER NOT NULL,
+    old_quantity DECIMAL(10,3),
+    new_quantity DECIMAL(10,3),
+    change_quantity DECIMAL(10,3) NOT NULL,
     operation VARCHAR(20) NOT NULL CHECK (operation IN ('add', 'subtract', 'set')),
     reason VARCHAR(255),
     transaction_id UUID REFERENCES transactions(id),
+    reference_id VARCHAR(100), -- External document, e.g. a chain-core stock transfer ID
+    unit_cost DECIMAL(10, 2), -- Purchase cost of stock received from a supplier
     employee_id VARCHAR(50),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Stocktakes table (counting sessions against a frozen snapshot of system stock)
+CREATE TABLE IF NOT EXISTS stocktakes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    stocktake_number VARCHAR(50) UNIQUE NOT NULL,
+    name VARCHAR(255),
+    scope_type VARCHAR(20) NOT NULL DEFAULT 'full' CHECK (scope_type IN ('full', 'category', 'location')),
+    category_id UUID REFERENCES categories(id), -- Set for category scope
+    location VARCHAR(100), -- Set for location scope
+    status VARCHAR(20) DEFAULT 'counting' CHECK (status IN ('counting', 'review', 'approved', 'cancelled')),
+    notes TEXT,
+    created_by VARCHAR(50) NOT NULL,
+    approved_by VARCHAR(50),
+    snapshot_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    counting_finished_at TIMESTAMP WITH TIME ZONE,
+    approved_at TIMESTAMP WITH TIME ZONE,
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (scope_type <> 'category' OR category_id IS NOT NULL),
+    CHECK (scope_type <> 'location' OR location IS NOT NULL)
+);
+
+-- Stocktake items table (one row per product in scope, with the snapshot and the running count)
+CREATE TABLE IF NOT EXISTS stocktake_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    stocktake_id UUID NOT NULL REFERENCES stocktakes(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id),
+    expected_quantity DECIMAL(10,3) NOT NULL, -- System stock when the snapshot was taken
+    counted_quantity DECIMAL(10,3) CHECK (counted_quantity IS NULL OR counted_quantity >= 0), -- Sum of all counts; NULL = not counted
+    adjustment_quantity DECIMAL(10,3), -- Stock change posted on approval; NULL = not posted
+    last_counted_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE(stocktake_id, product_id)
+);
+
+-- Stocktake counts table (every scan or keyed count, by whoever made it)
+CREATE TABLE IF NOT EXISTS stocktake_counts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    stocktake_id UUID NOT NULL REFERENCES stocktakes(id) ON DELETE CASCADE,
+    stocktake_item_id UUID NOT NULL REFERENCES stocktake_items(id) ON DELETE CASCADE,
+    quantity DECIMAL(10,3) NOT NULL, -- Negative to correct an earlier count
+    employee_id VARCHAR(50) NOT NULL,
+    terminal_id VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Offline sale conflicts table (problems found when replaying sales made while the till was offline)
+CREATE TABLE IF NOT EXISTS offline_sale_conflicts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    terminal_id VARCHAR(100) NOT NULL,
+    employee_id VARCHAR(50) NOT NULL,
+    conflict_type VARCHAR(30) NOT NULL CHECK (conflict_type IN ('negative_stock', 'price_mismatch')),
+    product_id UUID REFERENCES products(id), -- Set for negative_stock
+    expected_value DECIMAL(12,2), -- What the till charged (price_mismatch)
+    actual_value DECIMAL(12,2), -- Branch total, or stock left after the sale (negative_stock)
+    details TEXT,
+    status VARCHAR(20) DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+    resolved_by VARCHAR(50),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolution_notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Loyalty earn rules table (how many points a sale earns)
+CREATE TABLE IF NOT EXISTS loyalty_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    rule_type VARCHAR(30) NOT NULL CHECK (rule_type IN ('points_per_amount', 'category_multiplier', 'purchase_bonus')),
+    points DECIMAL(10,2) DEFAULT 0, -- Points per amount_step (points_per_amount) or flat bonus (purchase_bonus)
+    amount_step DECIMAL(12,2) CHECK (amount_step IS NULL OR amount_step > 0), -- Spend that earns `points` (points_per_amount)
+    multiplier DECIMAL(6,2) CHECK (multiplier IS NULL OR multiplier >= 0), -- Factor on base points for the category (category_multiplier)
+    category_id UUID REFERENCES categories(id) ON DELETE CASCADE, -- Bonus category (category_multiplier)
+    min_purchase DECIMAL(12,2) DEFAULT 0, -- Smallest eligible sale total for the rule to apply
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Loyalty ledger table (every points change made at this branch, pushed to chain-core)
+CREATE TABLE IF NOT EXISTS loyalty_ledger (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID NOT NULL REFERENCES customers(id),
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    entry_type VARCHAR(20) NOT NULL CHECK (entry_type IN ('earn', 'redeem', 'reversal', 'adjustment')),
+    points INTEGER NOT NULL, -- Signed change: positive for earn, negative for redeem
+    balance_after INTEGER NOT NULL, -- Local balance right after this entry
+    description TEXT,
+    employee_id VARCHAR(50),
+    synced_at TIMESTAMP WITH TIME ZONE, -- When chain-core accepted the entry (NULL = not yet sent)
+    sync_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Price history table
 CREATE TABLE IF NOT EXISTS price_history (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -209,6 +434,25 @@ CREATE TABLE IF NOT EXISTS price_history (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Scheduled price changes table (staged by chain-core ahead of the effective time)
+CREATE TABLE IF NOT EXISTS scheduled_prices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    chain_change_id UUID UNIQUE, -- scheduled_price_changes.id in chain-core
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    price DECIMAL(10, 2) NOT NULL,
+    cost DECIMAL(10, 2),
+    effective_from TIMESTAMP NOT NULL, -- Branch local time
+    effective_until TIMESTAMP, -- Branch local time; the previous price is restored then
+    status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'expired', 'superseded', 'cancelled')),
+    previous_price DECIMAL(10, 2), -- Price to restore when the change expires
+    previous_cost DECIMAL(10, 2),
+    applied_at TIMESTAMP WITH TIME ZONE,
+    reverted_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (effective_until IS NULL OR effective_until > effective_from)
+);
+
 -- Employee time logs table
 CREATE TABLE IF NOT EXISTS employee_time_logs (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -244,6 +488,40 @@ CREATE TABLE IF NOT EXISTS pos_terminals (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Cash shifts table (one cash drawer session per terminal, closed with a Z report)
+CREATE TABLE IF NOT EXISTS cash_shifts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    terminal_id VARCHAR(50) NOT NULL REFERENCES pos_terminals(terminal_id),
+    shift_number INTEGER NOT NULL, -- Sequential per terminal, printed as the Z report number
+    status VARCHAR(20) DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+    opened_by VARCHAR(50) NOT NULL,
+    closed_by VARCHAR(50),
+    opening_float DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+    expected_cash DECIMAL(12,2), -- Cash that should be in the drawer at close
+    counted_cash DECIMAL(12,2), -- Cash the cashier counted at close
+    cash_difference DECIMAL(12,2), -- counted_cash - expected_cash (negative = short)
+    report JSONB, -- Z report frozen at close
+    notes TEXT,
+    opened_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    closed_at TIMESTAMP WITH TIME ZONE,
+    synced_at TIMESTAMP WITH TIME ZONE, -- When chain-core accepted the Z report (NULL = not yet sent)
+    sync_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(terminal_id, shift_number)
+);
+
+-- Cash movements table (cash added to or taken out of the drawer outside of sales)
+CREATE TABLE IF NOT EXISTS cash_movements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    shift_id UUID NOT NULL REFERENCES cash_shifts(id) ON DELETE CASCADE,
+    movement_type VARCHAR(20) NOT NULL CHECK (movement_type IN ('drop', 'pay_in', 'pay_out')),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    reason TEXT,
+    employee_id VARCHAR(50) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Branch Network Configuration table
 CREATE TABLE IF NOT EXISTS branch_network_config (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -833,6 +1111,7 @@ CREATE INDEX IF NOT EXISTS idx_categories_key ON categories(key);
 -- Products indexes
 CREATE INDEX IF NOT EXISTS idx_products_sku ON products(sku);
 CREATE INDEX IF NOT EXISTS idx_products_barcode ON products(barcode);
+CREATE INDEX IF NOT EXISTS idx_product_barcodes_product_id ON product_barcodes(product_id);
 CREATE INDEX IF NOT EXISTS idx_products_category_id ON products(category_id);
 CREATE INDEX IF NOT EXISTS idx_products_is_active ON products(is_active);
 CREATE INDEX IF NOT EXISTS idx_products_has_image ON products(has_image) WHERE has_image = true;
@@ -852,6 +1131,7 @@ CREATE INDEX IF NOT EXISTS idx_transactions_employee_id ON transactions(employee
 CREATE INDEX IF NOT EXISTS idx_transactions_status ON transactions(status);
 CREATE INDEX IF NOT EXISTS idx_transactions_created_at ON transactions(created_at);
 CREATE INDEX IF NOT EXISTS idx_transactions_completed_at ON transactions(completed_at);
+CREATE INDEX IF NOT EXISTS idx_parked_carts_status_expires_at ON parked_carts(status, expires_at);
 
 -- Transaction items indexes
 CREATE INDEX IF NOT EXISTS idx_transaction_items_transaction_id ON transaction_items(transaction_id);
@@ -861,6 +1141,18 @@ CREATE INDEX IF NOT EXISTS idx_transaction_items_product_id ON transaction_items
 CREATE INDEX IF NOT EXISTS idx_payments_transaction_id ON payments(transaction_id);
 CREATE INDEX IF NOT EXISTS idx_payments_method ON payments(method);
 
+-- Refunds indexes
+CREATE INDEX IF NOT EXISTS idx_refunds_original_transaction_id ON refunds(original_transaction_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_created_at ON refunds(created_at);
+CREATE INDEX IF NOT EXISTS idx_refunds_open ON refunds(original_transaction_id) WHERE status IN ('pending', 'partially_failed');
+CREATE INDEX IF NOT EXISTS idx_refund_items_refund_id ON refund_items(refund_id);
+CREATE INDEX IF NOT EXISTS idx_refund_payments_refund_id ON refund_payments(refund_id);
+CREATE INDEX IF NOT EXISTS idx_refund_payments_payment_id ON refund_payments(payment_id);
+CREATE INDEX IF NOT EXISTS idx_fiscal_receipts_transaction_id ON fiscal_receipts(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_fiscal_receipts_pending ON fiscal_receipts(next_attempt_at) WHERE status = 'pending';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fiscal_receipts_refund_id ON fiscal_receipts(refund_id) WHERE refund_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fiscal_receipts_sale_void ON fiscal_receipts(transaction_id, receipt_type) WHERE receipt_type IN ('sale', 'void');
+
 -- Promotions indexes
 CREATE INDEX IF NOT EXISTS idx_promotions_chain_promotion_id ON promotions(chain_promotion_id);
 CREATE INDEX IF NOT EXISTS idx_promotions_product_barcode ON promotions(product_barcode);
@@ -872,6 +1164,29 @@ CREATE INDEX IF NOT EXISTS idx_promotions_promotion_type ON promotions(promotion
 CREATE INDEX IF NOT EXISTS idx_stock_movements_product_id ON stock_movements(product_id);
 CREATE INDEX IF NOT EXISTS idx_stock_movements_transaction_id ON stock_movements(transaction_id);
 CREATE INDEX IF NOT EXISTS idx_stock_movements_created_at ON stock_movements(created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_reference_id ON stock_movements(reference_id);
+
+-- Stocktake indexes
+CREATE INDEX IF NOT EXISTS idx_stocktakes_status ON stocktakes(status);
+CREATE INDEX IF NOT EXISTS idx_stocktake_items_product_id ON stocktake_items(product_id);
+CREATE INDEX IF NOT EXISTS idx_stocktake_counts_item_id ON stocktake_counts(stocktake_item_id);
+CREATE INDEX IF NOT EXISTS idx_products_location ON products(location);
+
+-- Offline sale conflicts indexes
+CREATE INDEX IF NOT EXISTS idx_offline_sale_conflicts_transaction_id ON offline_sale_conflicts(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_offline_sale_conflicts_status ON offline_sale_conflicts(status);
+
+-- Loyalty indexes
+CREATE INDEX IF NOT EXISTS idx_loyalty_rules_active ON loyalty_rules(is_active, rule_type);
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_customer_id ON loyalty_ledger(customer_id);
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_transaction_id ON loyalty_ledger(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_unsynced ON loyalty_ledger(created_at) WHERE synced_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loyalty_ledger_transaction_entry ON loyalty_ledger(transaction_id, entry_type) WHERE entry_type IN ('earn', 'redeem');
+
+-- Scheduled prices indexes
+CREATE INDEX IF NOT EXISTS idx_scheduled_prices_product_id ON scheduled_prices(product_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_prices_pending ON scheduled_prices(effective_from) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_scheduled_prices_active ON scheduled_prices(effective_until) WHERE status = 'active';
 
 -- Employee time logs indexes
 CREATE INDEX IF NOT EXISTS idx_employee_time_logs_employee_id ON employee_time_logs(employee_id);
@@ -882,6 +1197,12 @@ CREATE INDEX IF NOT EXISTS idx_pos_terminals_status ON pos_terminals(status);
 CREATE INDEX IF NOT EXISTS idx_pos_terminals_ip ON pos_terminals(ip_address);
 CREATE INDEX IF NOT EXISTS idx_pos_terminals_active ON pos_terminals(is_active);
 
+-- Cash shift indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_shifts_open_terminal ON cash_shifts(terminal_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_cash_shifts_opened_at ON cash_shifts(opened_at);
+CREATE INDEX IF NOT EXISTS idx_cash_shifts_unsynced ON cash_shifts(closed_at) WHERE status = 'closed' AND synced_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_cash_movements_shift_id ON cash_movements(shift_id);
+
 -- Branch network config indexes
 CREATE INDEX IF NOT EXISTS idx_branch_network_config_key ON branch_network_config(config_key);
 CREATE INDEX IF NOT EXISTS idx_branch_network_config_category ON branch_network_config(category);
@@ -1051,21 +1372,45 @@ CREATE TRIGGER update_employees_updated_at BEFORE UPDATE ON employees
 CREATE TRIGGER update_products_updated_at BEFORE UPDATE ON products
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_product_barcodes_updated_at BEFORE UPDATE ON product_barcodes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_customers_updated_at BEFORE UPDATE ON customers
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 CREATE TRIGGER update_transactions_updated_at BEFORE UPDATE ON transactions
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_parked_carts_updated_at BEFORE UPDATE ON parked_carts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_fiscal_receipts_updated_at BEFORE UPDATE ON fiscal_receipts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_promotions_updated_at BEFORE UPDATE ON promotions
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_offline_sale_conflicts_updated_at BEFORE UPDATE ON offline_sale_conflicts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_stocktakes_updated_at BEFORE UPDATE ON stocktakes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_loyalty_rules_updated_at BEFORE UPDATE ON loyalty_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_categories_updated_at BEFORE UPDATE ON categories
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 CREATE TRIGGER update_pos_terminals_updated_at BEFORE UPDATE ON pos_terminals
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_scheduled_prices_updated_at BEFORE UPDATE ON scheduled_prices
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_cash_shifts_updated_at BEFORE UPDATE ON cash_shifts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_branch_network_config_updated_at BEFORE UPDATE ON branch_network_config
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
@@ -1161,8 +1506,22 @@ COMMENT ON COLUMN categories.name_ru IS 'Russian category name (optional)';
 COMMENT ON COLUMN categories.name_uz IS 'Uzbek category name (optional)';
 
 COMMENT ON TABLE connection_health_logs IS 'Health check logs for monitoring connectivity between systems';
+COMMENT ON TABLE scheduled_prices IS 'Price changes staged by chain-core, switched over at the effective time in the branch timezone';
 COMMENT ON TABLE pos_terminals IS 'POS terminals registered with this branch';
+COMMENT ON TABLE cash_shifts IS 'Cash drawer shifts per POS terminal with the Z report produced at close, synced to chain-core';
+COMMENT ON TABLE cash_movements IS 'Cash drops, pay-ins and pay-outs recorded during a shift';
 COMMENT ON TABLE branch_network_config IS 'Branch-specific network and system configuration';
+COMMENT ON TABLE stocktakes IS 'Stocktake sessions: full, per category or per location, counted against a snapshot and approved as one batch of stock movements';
+COMMENT ON COLUMN stocktake_items.adjustment_quantity IS 'Counted minus snapshot quantity, applied on top of current stock so sales made during the count are kept';
+COMMENT ON TABLE stocktake_counts IS 'Individual scans and keyed counts; several staff can count the same stocktake at once';
+COMMENT ON TABLE offline_sale_conflicts IS 'Negative stock and price differences found when replaying offline till sales, for manager review';
+COMMENT ON TABLE loyalty_rules IS 'Loyalty earn rules: points per amount spent, category multipliers and purchase bonuses';
+COMMENT ON TABLE loyalty_ledger IS 'Loyalty points earned, redeemed and reversed at this branch; chain-core holds the chain-wide balance';
+COMMENT ON COLUMN loyalty_ledger.synced_at IS 'When chain-core applied the entry; unsynced entries are retried on the next loyalty sync';
+COMMENT ON TABLE fiscal_receipts IS 'Fiscal receipts for sales, refunds and voids; pending rows are retried until the fiscal module returns a fiscal sign';
+COMMENT ON COLUMN products.ikpu_code IS 'IKPU (MXIK) product class code printed on fiscal receipts';
+COMMENT ON TABLE parked_carts IS 'Carts put on hold at a till, recalled at any till of the branch until they expire';
+COMMENT ON COLUMN transactions.offline_synced_at IS 'When a sale made offline on the till reached the branch server (NULL for online sales)';
 
 
 -- FastPay transactions indexes
@@ -1249,49 +1608,66 @@ ORDER BY transaction_date DESC;
 -- SCHEMA SUMMARY
 -- =================================================================
 
--- This schema contains 30 tables with unified payment credentials management:
+-- This schema contains 45 tables with unified payment credentials management:
 -- 
--- CORE BUSINESS TABLES (15):
+-- CORE BUSINESS TABLES (29):
 -- 1. employees - Staff management and authentication
 -- 2. categories - Product categories with multi-language support
 -- 3. products - Product catalog and inventory
--- 4. customers - Customer information and loyalty
--- 5. transactions - Sales transactions
--- 6. transaction_items - Transaction line items
--- 7. payments - Payment information
--- 8. promotions - Promotional offers (synced from chain-core)
--- 9. stock_movements - Inventory tracking
--- 10. price_history - Price change tracking
--- 11. employee_time_logs - Time tracking
--- 12. pos_terminals - POS terminal management
--- 13. branch_network_config - Network configuration
--- 14. connection_health_logs - Health monitoring
--- 15. api_keys - Authentication system
+-- 4. product_barcodes - Additional supplier and multipack barcodes
+-- 5. customers - Customer information and loyalty
+-- 6. transactions - Sales transactions
+-- 7. transaction_items - Transaction line items
+-- 8. payments - Payment information
+-- 9. parked_carts - Carts on hold, recalled at any till
+-- 10. refunds - Refund documents linked to the original sale
+-- 11. refund_items - Returned lines with restock/write-off
+-- 12. refund_payments - Money returned per original payment
+-- 13. promotions - Promotional offers (synced from chain-core)
+-- 14. stock_movements - Inventory tracking
+-- 15. offline_sale_conflicts - Problems found when replaying offline till sales
+-- 16. stocktakes - Stocktake sessions against a stock snapshot
+-- 17. stocktake_items - Snapshot and counted quantity per product
+-- 18. stocktake_counts - Individual scans by each counter
+-- 19. loyalty_rules - Loyalty earn rules
+-- 20. loyalty_ledger - Loyalty points changes, synced to chain-core
+-- 21. price_history - Price change tracking
+-- 22. scheduled_prices - Price changes staged ahead of their effective time
+-- 23. employee_time_logs - Time tracking
+-- 24. pos_terminals - POS terminal management
+-- 25. cash_shifts - Cash drawer shifts with X/Z reports, synced to chain-core
+-- 26. cash_movements - Cash drops, pay-ins and pay-outs
+-- 27. branch_network_config - Network configuration
+-- 28. connection_health_logs - Health monitoring
+-- 29. api_keys - Authentication system
 -- 
 -- UNIFIED PAYMENT METHODS MANAGEMENT (2):
--- 16. branch_payment_methods_status - Active payment methods for this branch (synced from chain-core)
--- 17. payment_method_credentials - Unified encrypted credentials storage (replaces separate config tables)
+-- 30. branch_payment_methods_status - Active payment methods for this branch (synced from chain-core)
+-- 31. payment_method_credentials - Unified encrypted credentials storage (replaces separate config tables)
 --
 -- UZUM BANK FASTPAY TABLES (4):
--- 18. uzum_fastpay_transactions - FastPay payment tracking
--- 19. uzum_fastpay_fiscalization - Fiscal receipt submissions
--- 20. uzum_fastpay_reversals - Payment cancellations
--- 21. uzum_fastpay_audit_log - Comprehensive audit trail
+-- 32. uzum_fastpay_transactions - FastPay payment tracking
+-- 33. uzum_fastpay_fiscalization - Fiscal receipt submissions
+-- 34. uzum_fastpay_reversals - Payment cancellations
+-- 35. uzum_fastpay_audit_log - Comprehensive audit trail
 --
 -- CLICK PASS PAYMENT TABLES (3):
--- 22. click_pass_transactions - Click Pass payment tracking
--- 23. click_pass_reversals - Click payment cancellations
--- 24. click_pass_audit_log - Click audit trail
+-- 36. click_pass_transactions - Click Pass payment tracking
+-- 37. click_pass_reversals - Click payment cancellations
+-- 38. click_pass_audit_log - Click audit trail
 --
 -- PAYME QR PAYMENT TABLES (5):
--- 25. payme_qr_receipts - Payme QR receipt tracking
--- 26. payme_status_checks - Payment status polling log
--- 27. payme_receipt_cancellations - Payme receipt cancellations
--- 28. payme_fiscal_receipts - Fiscal receipt submissions
--- 29. payme_audit_log - Payme audit trail
+-- 39. payme_qr_receipts - Payme QR receipt tracking
+-- 40. payme_status_checks - Payment status polling log
+-- 41. payme_receipt_cancellations - Payme receipt cancellations
+-- 42. payme_fiscal_receipts - Fiscal receipt submissions
+-- 43. payme_audit_log - Payme audit trail
 --
 -- SYNC AND LOGGING TABLES (1):
--- 30. sync_logs - Synchronization tracking
+-- 44. sync_logs - Synchronization tracking
+--
+-- FISCALIZATION TABLES (1):
+-- 45. fiscal_receipts - Receipts sent to the fiscal module / OFD, queued while offline
 --
 -- KEY IMPROVEMENTS:
 -- ✅ Unified payment_method_credentials table (no more separate config tables)
@@ -31,13 +31,24 @@ VALUES (
 INSERT INTO branch_network_config (config_key, config_value, description, category, is_system) VALUES
 ('chain_core_ip', 'localhost', 'Chain core server IP address', 'chain_connection', true),
 ('chain_core_port', '3001', 'Chain core server port', 'chain_connection', true),
+('chain_core_api_key', '', 'API key this branch uses for the chain-core branch API', 'security', true),
 ('branch_api_port', '3000', 'This branch API server port', 'general', true),
 ('branch_ws_port', '3001', 'This branch WebSocket server port', 'general', true),
 ('pos_default_port', '5173', 'Default port for new POS terminals', 'pos_terminals', true),
 ('network_scan_range', '192.168.1.0/24', 'Local network range to scan for POS terminals', 'pos_terminals', true),
 ('auto_discover_pos', 'true', 'Automatically discover POS terminals on network', 'pos_terminals', true),
+('terminal_discovery_port', '41234', 'UDP port POS terminals broadcast their announcements to', 'pos_terminals', true),
 ('connection_timeout_ms', '10000', 'Connection timeout in milliseconds', 'general', true),
-('health_check_interval_ms', '30000', 'Health check interval in milliseconds', 'general', true)
+('health_check_interval_ms', '30000', 'Health check interval in milliseconds', 'general', true),
+('default_tax_rate', '0.12', 'Default VAT rate (fraction) for products without their own tax_rate', 'general', false),
+('prices_include_tax', 'false', 'Whether product prices already include VAT', 'general', false),
+('loyalty_enabled', 'true', 'Earn and redeem loyalty points at the till', 'general', false),
+('loyalty_point_value', '0.01', 'Money one loyalty point is worth when redeemed as store credit', 'general', false),
+('weight_barcode_prefixes', '20,21,22,23,24', 'EAN-13 prefixes of scale labels carrying the weight in grams', 'general', false),
+('price_barcode_prefixes', '25,26,27,28,29', 'EAN-13 prefixes of scale labels carrying the package price', 'general', false),
+('price_barcode_decimals', '2', 'Decimal places of the price embedded in scale labels', 'general', false),
+('parked_cart_ttl_minutes', '240', 'Minutes a parked cart can be recalled before it expires', 'general', false),
+('pending_transaction_timeout_minutes', '30', 'Minutes after which an unpaid sale is voided and its stock restored', 'general', false)
 ON CONFLICT (config_key) DO NOTHING;
 
 -- =================================================================
@@ -98,6 +109,10 @@ VALUES
     ('DONUTS-12', 'Donuts 12-pack', 'Donuts 12-pack', 'Пончики 12 штук', 'Donutlar 12 ta', '423456789016', 6.99, 3.50, 10, 2, (SELECT id FROM categories WHERE key = 'bakery'), 'Krispy Kreme', 'Glazed donuts 12 pack', 'Glazed donuts 12 pack', 'Глазированные пончики 12 штук', 'Sirlangan donutlar 12 ta', 'pack', 0.1200, NULL, false, true),
     ('MUFFINS-4', 'Muffins 4-pack', 'Muffins 4-pack', 'Кексы 4 штуки', 'Kekslar 4 ta', '423456789017', 3.99, 2.00, 18, 3, (SELECT id FROM categories WHERE key = 'bakery'), 'Fresh Baked', 'Blueberry muffins 4 pack', 'Blueberry muffins 4 pack', 'Черничные кексы 4 штуки', 'Ko''k rezavorang kekslar 4 ta', 'pack', 0.1200, NULL, false, true),
     
+    -- Meat Category (sold by weight; the barcode is the scale prefix + PLU printed on labels)
+    ('BEEF-MINCE', 'Beef Mince', 'Beef Mince', 'Говяжий фарш', 'Mol go''shti qiymasi', '2000001', 8.99, 5.40, 12.500, 2, (SELECT id FROM categories WHERE key = 'meat'), 'Local Farm', 'Fresh beef mince, per kg', 'Fresh beef mince, per kg', 'Свежий говяжий фарш, за кг', 'Yangi mol go''shti qiymasi, kg uchun', 'kg', 0.1200, NULL, false, true),
+    ('CHICKEN-BREAST', 'Chicken Breast', 'Chicken Breast', 'Куриная грудка', 'Tovuq ko''kragi', '2000002', 6.49, 3.90, 18.250, 3, (SELECT id FROM categories WHERE key = 'meat'), 'Local Farm', 'Chicken breast fillet, per kg', 'Chicken breast fillet, per kg', 'Филе куриной грудки, за кг', 'Tovuq ko''kragi filesi, kg uchun', 'kg', 0.1200, NULL, false, true),
+    
     -- Personal Care Category
     ('TOOTHPASTE-COL', 'Toothpaste', 'Toothpaste', 'Зубная паста', 'Tish pastasi', '523456789012', 3.99, 2.10, 50, 8, (SELECT id FROM categories WHERE key = 'personal_care'), 'Colgate', 'Whitening toothpaste', 'Whitening toothpaste', 'Отбеливающая зубная паста', 'Oqartiruvchi tish pastasi', 'tube', 0.1200, NULL, false, true),
     ('SHAMPOO-400ML', 'Shampoo 400ml', 'Shampoo 400ml', 'Шампунь 400мл', 'Shampun 400ml', '523456789013', 6.99, 3.50, 30, 5, (SELECT id FROM categories WHERE key = 'personal_care'), 'Head & Shoulders', 'Dandruff shampoo 400ml', 'Dandruff shampoo 400ml', 'Шампунь от перхоти 400мл', 'Kepak qarshi shampun 400ml', 'bottle', 0.1200, NULL, false, true),
@@ -126,17 +141,26 @@ VALUES
 -- SAMPLE CUSTOMERS DATA
 -- =================================================================
 
-INSERT INTO customers (name, email, phone, loyalty_points) VALUES
-('John Smith', 'john.smith@email.com', '+1-555-0123', 150),
-('Maria Garcia', 'maria.garcia@email.com', '+1-555-0124', 275),
-('Ahmed Al-Rashid', 'ahmed.rashid@email.com', '+1-555-0125', 89),
-('Elena Petrov', 'elena.petrov@email.com', '+1-555-0126', 340),
-('James Wilson', 'james.wilson@email.com', '+1-555-0127', 67),
-('Sarah Johnson', 'sarah.johnson@email.com', '+1-555-0128', 198),
-('Chen Wei', 'chen.wei@email.com', '+1-555-0129', 422),
-('Isabella Rodriguez', 'isabella.rodriguez@email.com', '+1-555-0130', 156),
-('Mohammed Hassan', 'mohammed.hassan@email.com', '+1-555-0131', 78),
-('Anna Kowalski', 'anna.kowalski@email.com', '+1-555-0132', 234);
+INSERT INTO customers (name, email, phone, loyalty_points, loyalty_card_number) VALUES
+('John Smith', 'john.smith@email.com', '+1-555-0123', 150, 'RP1000001'),
+('Maria Garcia', 'maria.garcia@email.com', '+1-555-0124', 275, 'RP1000002'),
+('Ahmed Al-Rashid', 'ahmed.rashid@email.com', '+1-555-0125', 89, 'RP1000003'),
+('Elena Petrov', 'elena.petrov@email.com', '+1-555-0126', 340, 'RP1000004'),
+('James Wilson', 'james.wilson@email.com', '+1-555-0127', 67, 'RP1000005'),
+('Sarah Johnson', 'sarah.johnson@email.com', '+1-555-0128', 198, 'RP1000006'),
+('Chen Wei', 'chen.wei@email.com', '+1-555-0129', 422, 'RP1000007'),
+('Isabella Rodriguez', 'isabella.rodriguez@email.com', '+1-555-0130', 156, 'RP1000008'),
+('Mohammed Hassan', 'mohammed.hassan@email.com', '+1-555-0131', 78, 'RP1000009'),
+('Anna Kowalski', 'anna.kowalski@email.com', '+1-555-0132', 234, 'RP1000010');
+
+-- =================================================================
+-- SAMPLE LOYALTY RULES
+-- =================================================================
+
+INSERT INTO loyalty_rules (name, rule_type, points, amount_step, multiplier, category_id, min_purchase) VALUES
+('1 point per 1.00 spent', 'points_per_amount', 1, 1.00, NULL, NULL, 0),
+('Double points on dairy', 'category_multiplier', 0, NULL, 2, (SELECT id FROM categories WHERE key = 'dairy'), 0),
+('50 bonus points on purchases over 100.00', 'purchase_bonus', 50, NULL, NULL, NULL, 100.00);
 
 -- =================================================================
 -- SAMPLE POS TERMINALS DATA
@@ -160,6 +184,7 @@ BEGIN
     RAISE NOTICE 'Total categories: %', (SELECT COUNT(*) FROM categories);
     RAISE NOTICE 'Total products: %', (SELECT COUNT(*) FROM products);
     RAISE NOTICE 'Total customers: %', (SELECT COUNT(*) FROM customers);
+    RAISE NOTICE 'Total loyalty rules: %', (SELECT COUNT(*) FROM loyalty_rules);
     RAISE NOTICE 'Total POS terminals: %', (SELECT COUNT(*) FROM pos_terminals);
     RAISE NOTICE 'Total network configs: %', (SELECT COUNT(*) FROM branch_network_config);
 END $$;
@@ -0,0 +1,5 @@
+import { LicenseFeature } from '../types';
+import { LicenseService } from '../services/LicenseService';
+
+// Refuse the route unless the branch license includes the feature
+export const requireLicenseFeature = (feature: LicenseFeature) => LicenseService.requireFeature(feature);
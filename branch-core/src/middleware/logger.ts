@@ -158,9 +158,18 @@ export const businessLogger = {
         reason,
         userId
       });
+    },
+
+    refund: (transactionId: string, refundId: string, total: number, userId: string) => {
+      console.log(`↩️ [${new Date().toISOString()}] TRANSACTION REFUND`, {
+        transactionId,
+        refundId,
+        total: `$${total.toFixed(2)}`,
+        userId
+      });
     }
   },
-  
+
   inventory: {
     update: (productId: string, oldQuantity: number, newQuantity: number, reason: string) => {
       console.log(`📦 [${new Date().toISOString()}] INVENTORY UPDATE`, {
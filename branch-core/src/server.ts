@@ -9,7 +9,13 @@ import { WebSocketServer } from 'ws';
 // Change these imports to relative paths (remove @/)
 import { DatabaseManager } from './database/manager';
 import { errorHandler } from './middleware/errorHandler';
+import { requireLicenseFeature } from './middleware/license';
 import { requestLogger } from './middleware/logger';
+import { FiscalService } from './services/FiscalService';
+import { LicenseService } from './services/LicenseService';
+import { ParkedCartService } from './services/ParkedCartService';
+import { PriceScheduleService } from './services/PriceScheduleService';
+import { TerminalDiscoveryService } from './services/TerminalDiscoveryService';
 import { RedisManager } from './services/redis';
 import { WebSocketManager } from './services/websocket';
 
@@ -18,12 +24,17 @@ import adminRoutes from './api/admin';
 import authRoutes from './api/auth';
 import chainCoreRoutes from './api/chain-core';
 import clickPassRoutes from './api/click-pass/click-pass';
+import customersRoutes from './api/customers';
 import employeesRoutes from './api/employees';
+import fiscalRoutes from './api/fiscal';
+import inventoryRoutes from './api/inventory';
 import networkRoutes from './api/network';
+import parkedCartsRoutes from './api/parked-carts';
 import paymeQRRoutes from './api/payme-qr/payme-qr';
 import paymentMethodsRoutes from './api/payment-methods';
 import productsRoutes from './api/products';
 import reportsRoutes from './api/reports';
+import shiftsRoutes from './api/shifts';
 import syncRoutes from './api/sync';
 import transactionsRoutes from './api/transactions';
 import fastpayRoutes from './api/uzum-bank/fastpay';
@@ -109,9 +120,14 @@ class BranchServer {
     this.app.use('/api/admin', adminRoutes);
     this.app.use('/api/chain-core', chainCoreRoutes);
     this.app.use('/api/products', productsRoutes);
+    this.app.use('/api/inventory', inventoryRoutes);
     this.app.use('/api/transactions', transactionsRoutes);
+    this.app.use('/api/parked-carts', parkedCartsRoutes);
+    this.app.use('/api/customers', customersRoutes);
     this.app.use('/api/employees', employeesRoutes);
-    this.app.use('/api/reports', reportsRoutes);
+    this.app.use('/api/reports', requireLicenseFeature('reporting'), reportsRoutes);
+    this.app.use('/api/shifts', shiftsRoutes);
+    this.app.use('/api/fiscal', fiscalRoutes);
     this.app.use('/api/sync', syncRoutes);
     this.app.use('/api/network', networkRoutes);
     this.app.use('/api/payment-methods', paymentMethodsRoutes);
@@ -184,6 +200,26 @@ class BranchServer {
       await RedisManager.initialize();
       console.log('✅ Redis connected');
 
+      // Activate the license and keep it alive; a cached license covers outages
+      LicenseService.start();
+      console.log('✅ License heartbeat started');
+
+      // Switch over scheduled prices on time, also while chain-core is unreachable
+      PriceScheduleService.start();
+      console.log('✅ Scheduled price switch-over started');
+
+      // Expire parked carts and put back the stock of sales that were never paid
+      ParkedCartService.start();
+      console.log('✅ Parked cart cleanup started');
+
+      // Send queued fiscal receipts; they pile up while the fiscal module is offline
+      FiscalService.start();
+      console.log('✅ Fiscal receipt queue started');
+
+      // Listen for POS terminals announcing themselves; managers follow discovery over the WebSocket
+      await TerminalDiscoveryService.start(message => this.wsManager.broadcast(message));
+      console.log('✅ Terminal discovery started');
+
       // Start HTTP server
       this.httpServer.listen(PORT, () => {
         console.log(`🚀 Branch Core Server running on port ${PORT}`);
@@ -206,6 +242,12 @@ class BranchServer {
     console.log(`\n🛑 Graceful shutdown initiated (${signal})`);
 
     try {
+      TerminalDiscoveryService.stop();
+      FiscalService.stop();
+      ParkedCartService.stop();
+      PriceScheduleService.stop();
+      LicenseService.stop();
+
       // Close WebSocket connections
       this.wsManager.closeAll();
       console.log('✅ WebSocket connections closed');
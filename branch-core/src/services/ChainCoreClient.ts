@@ -0,0 +1,77 @@
+import axios from 'axios';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+
+export interface ChainCoreConnection {
+  baseUrl: string;
+  apiKey: string;
+  timeoutMs: number;
+}
+
+/**
+ * Chain Core Client
+ *
+ * Calls the chain-core branch API (/api/branch-api) on behalf of this branch,
+ * authenticating with the branch server API key issued by chain-core.
+ */
+export class ChainCoreClient {
+  /**
+   * Connection settings from branch_network_config, falling back to the environment
+   */
+  static async getConnection(): Promise<ChainCoreConnection> {
+    const result = await DatabaseManager.query(
+      `SELECT config_key, config_value FROM branch_network_config
+       WHERE config_key IN ('chain_core_ip', 'chain_core_port', 'chain_core_api_key', 'connection_timeout_ms')`
+    );
+
+    const config = new Map<string, string>(
+      result.rows.map((row: any) => [row.config_key, row.config_value])
+    );
+
+    const host = config.get('chain_core_ip');
+    const port = config.get('chain_core_port');
+    const baseUrl = host && port ? `http://${host}:${port}` : process.env.CHAIN_CORE_URL || '';
+    const apiKey = config.get('chain_core_api_key') || process.env.CHAIN_CORE_API_KEY || '';
+
+    if (!baseUrl || !apiKey) {
+      throw createError('Chain-core connection is not configured for this branch', 503);
+    }
+
+    return {
+      baseUrl: baseUrl.replace(/\/$/, ''),
+      apiKey,
+      timeoutMs: parseInt(config.get('connection_timeout_ms') || '10000')
+    };
+  }
+
+  /**
+   * Make an authenticated request to the chain-core branch API and return its `data`
+   */
+  static async request<T = any>(method: 'GET' | 'POST' | 'PUT', endpoint: string, data?: any): Promise<T> {
+    const connection = await this.getConnection();
+    const cleanEndpoint = endpoint.startsWith('/') ? endpoint.substring(1) : endpoint;
+
+    try {
+      const response = await axios({
+        method,
+        url: `${connection.baseUrl}/api/branch-api/${cleanEndpoint}`,
+        headers: {
+          'Authorization': `Bearer ${connection.apiKey}`,
+          'Content-Type': 'application/json',
+          'User-Agent': 'RockPoint-Branch-Core/1.0'
+        },
+        data: method !== 'GET' ? data : undefined,
+        timeout: connection.timeoutMs
+      });
+
+      return response.data.data;
+    } catch (error: any) {
+      if (error.response) {
+        const body = error.response.data || {};
+        throw createError(body.error || body.message || 'Chain-core request failed', error.response.status);
+      }
+
+      throw createError(`Chain-core is unreachable: ${error.message}`, 502);
+    }
+  }
+}
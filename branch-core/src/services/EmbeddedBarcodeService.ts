@@ -0,0 +1,117 @@
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import { EmbeddedBarcode, EmbeddedBarcodeSettings } from '../types';
+
+type Queryable = Pick<PoolClient, 'query'> | typeof DatabaseManager;
+
+const DEFAULT_WEIGHT_PREFIXES = '20,21,22,23,24';
+const DEFAULT_PRICE_PREFIXES = '25,26,27,28,29';
+const DEFAULT_PRICE_DECIMALS = '2';
+
+/**
+ * Embedded Barcode Service
+ *
+ * Label scales print EAN-13 barcodes laid out as a 2-digit prefix, the 5-digit item
+ * code (PLU) of the product, a 5-digit value and the check digit. The prefix says
+ * whether the value is the weight in grams or the price of the package; which prefixes
+ * mean what is set per branch in branch_network_config.
+ */
+export class EmbeddedBarcodeService {
+  /**
+   * Prefix settings from branch_network_config, falling back to the environment
+   */
+  static async getSettings(db: Queryable = DatabaseManager): Promise<EmbeddedBarcodeSettings> {
+    const result = await db.query(
+      `SELECT config_key, config_value FROM branch_network_config
+       WHERE config_key IN ('weight_barcode_prefixes', 'price_barcode_prefixes', 'price_barcode_decimals')`
+    );
+
+    const config = new Map<string, string>(
+      result.rows.map((row: any) => [row.config_key, row.config_value])
+    );
+
+    const weightPrefixes = config.get('weight_barcode_prefixes') ?? process.env.BRANCH_WEIGHT_BARCODE_PREFIXES ?? DEFAULT_WEIGHT_PREFIXES;
+    const pricePrefixes = config.get('price_barcode_prefixes') ?? process.env.BRANCH_PRICE_BARCODE_PREFIXES ?? DEFAULT_PRICE_PREFIXES;
+    const priceDecimals = parseInt(config.get('price_barcode_decimals') ?? process.env.BRANCH_PRICE_BARCODE_DECIMALS ?? DEFAULT_PRICE_DECIMALS);
+
+    return {
+      weightPrefixes: this.parsePrefixes(weightPrefixes),
+      pricePrefixes: this.parsePrefixes(pricePrefixes),
+      priceDecimals: Number.isInteger(priceDecimals) && priceDecimals >= 0 && priceDecimals <= 4 ? priceDecimals : parseInt(DEFAULT_PRICE_DECIMALS)
+    };
+  }
+
+  /**
+   * Decode a scale label (no database access). Returns null for anything that is not a
+   * valid EAN-13 with a configured weight or price prefix.
+   */
+  static parse(barcode: string, settings: EmbeddedBarcodeSettings): EmbeddedBarcode | null {
+    if (!this.isValidEan13(barcode)) {
+      return null;
+    }
+
+    const prefix = barcode.slice(0, 2);
+    const kind = settings.weightPrefixes.includes(prefix)
+      ? 'weight'
+      : settings.pricePrefixes.includes(prefix) ? 'price' : null;
+
+    if (!kind) {
+      return null;
+    }
+
+    const value = parseInt(barcode.slice(7, 12), 10);
+    const embedded: EmbeddedBarcode = { barcode, kind, prefix, item_code: barcode.slice(2, 7) };
+
+    if (kind === 'weight') {
+      embedded.weight = value / 1000;
+    } else {
+      embedded.price = value / 10 ** settings.priceDecimals;
+    }
+
+    return embedded;
+  }
+
+  /**
+   * Barcodes the product may be stored under: prefix + item code, the bare item code,
+   * or the label with a zero value (what most scale software exports)
+   */
+  static productCodes(embedded: EmbeddedBarcode): string[] {
+    const base = `${embedded.prefix}${embedded.item_code}00000`;
+    return [`${embedded.prefix}${embedded.item_code}`, embedded.item_code, `${base}${this.checkDigit(base)}`];
+  }
+
+  /**
+   * Quantity sold by the label: the weight, or the price divided by the unit price. A price
+   * label is still charged the printed price; its quantity is only what leaves the stock.
+   */
+  static quantityFor(embedded: EmbeddedBarcode, unitPrice: number): number {
+    if (embedded.kind === 'weight') {
+      return embedded.weight ?? 0;
+    }
+
+    if (!unitPrice || unitPrice <= 0) {
+      return 0;
+    }
+
+    return Math.round((embedded.price ?? 0) / unitPrice * 1000) / 1000;
+  }
+
+  static isValidEan13(barcode: string): boolean {
+    return /^\d{13}$/.test(barcode) && this.checkDigit(barcode.slice(0, 12)) === barcode[12];
+  }
+
+  // EAN-13 check digit: weights 1 and 3 alternating from the left
+  private static checkDigit(first12: string): string {
+    const sum = first12
+      .split('')
+      .reduce((total, digit, index) => total + parseInt(digit, 10) * (index % 2 === 0 ? 1 : 3), 0);
+    return String((10 - (sum % 10)) % 10);
+  }
+
+  private static parsePrefixes(value: string): string[] {
+    return value
+      .split(',')
+      .map(prefix => prefix.trim())
+      .filter(prefix => /^\d{2}$/.test(prefix));
+  }
+}
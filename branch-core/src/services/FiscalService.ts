@@ -0,0 +1,725 @@
+import axios from 'axios';
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import {
+  FiscalReceipt,
+  FiscalReceiptLine,
+  FiscalReceiptPayload,
+  FiscalReceiptStatus,
+  FiscalReceiptType,
+  FiscalSettings
+} from '../types';
+
+type Queryable = Pick<PoolClient, 'query'> | typeof DatabaseManager;
+
+export interface FiscalReceiptFilters {
+  status?: FiscalReceiptStatus | 'all';
+  transactionId?: string;
+  limit?: number;
+}
+
+export interface FiscalQueueResult {
+  fiscalized: number;
+  failed: number;
+  offline: boolean; // The run stopped because the fiscal module could not be reached
+}
+
+export interface FiscalQueueStatus {
+  enabled: boolean;
+  pending: number;
+  failed: number;
+  oldestPendingAt: Date | null;
+}
+
+type SubmitOutcome = 'fiscalized' | 'failed' | 'offline';
+
+// Fiscal data of the sale receipt a refund or void receipt refers to
+interface OriginalReceipt {
+  terminalId: string;
+  receiptSeq: string;
+  fiscalSign: string;
+  dateTime: string;
+}
+
+interface FiscalModuleResponse {
+  terminal_id?: string;
+  receipt_seq?: string | number;
+  date_time?: string;
+  fiscal_sign?: string;
+  qr_url?: string;
+}
+
+const DEFAULT_INTERVAL_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 5000;
+const IMMEDIATE_TIMEOUT_MS = 3000; // The cashier is waiting for the receipt
+const LEASE_SECONDS = 60;
+const BATCH_SIZE = 20;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+
+// Answers that reject the receipt itself; anything else (auth, 5xx, timeouts) is retried
+const REJECTED_STATUSES = [400, 409, 422];
+
+const toTiyin = (amount: number): number => Math.round(amount * 100);
+
+/**
+ * Fiscal Service
+ *
+ * Registers every completed sale, refund and void with the fiscal module (virtual
+ * fiscal module / OFD). Receipts are queued in the same database transaction as the
+ * sale, so nothing is lost while the module is unreachable; the payment endpoints try
+ * to fiscalize straight away and a background run works through whatever is left.
+ *
+ * Refund and void receipts reference the fiscal sign of the original sale, so they are
+ * only sent once the sale receipt has been fiscalized. A sale voided before its receipt
+ * went out is never sent at all.
+ */
+export class FiscalService {
+  private static timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Fiscal module settings from branch_network_config, falling back to the environment
+   */
+  static async getSettings(db: Queryable = DatabaseManager): Promise<FiscalSettings> {
+    const result = await db.query(
+      `SELECT config_key, config_value FROM branch_network_config
+       WHERE config_key IN ('fiscal_module_url', 'fiscal_module_token')`
+    );
+
+    const config = new Map<string, string>(
+      result.rows.map((row: any) => [row.config_key, row.config_value])
+    );
+
+    const moduleUrl = (config.get('fiscal_module_url') ?? process.env.FISCAL_MODULE_URL ?? '').trim().replace(/\/+$/, '');
+    const token = config.get('fiscal_module_token') ?? process.env.FISCAL_MODULE_TOKEN ?? '';
+
+    return {
+      enabled: moduleUrl.length > 0,
+      moduleUrl: moduleUrl || null,
+      token: token || null
+    };
+  }
+
+  // =================================================================
+  // QUEUEING (inside the sale, refund and void database transactions)
+  // =================================================================
+
+  /**
+   * Queue the sale receipt of a completed transaction. Returns the receipt ID, or null
+   * when no fiscal module is configured.
+   */
+  static async queueSale(client: PoolClient, transactionId: string): Promise<string | null> {
+    const settings = await this.getSettings(client);
+    if (!settings.enabled) {
+      return null;
+    }
+
+    const transactionResult = await client.query(
+      'SELECT id, terminal_id, employee_id, prices_include_tax, completed_at FROM transactions WHERE id = $1',
+      [transactionId]
+    );
+    const transaction = transactionResult.rows[0];
+    if (!transaction) {
+      throw createError('Transaction not found', 404);
+    }
+
+    const [itemsResult, paymentsResult] = await Promise.all([
+      client.query(`
+        SELECT ti.*, p.name, p.barcode, p.ikpu_code, p.package_code, p.unit_of_measure
+        FROM transaction_items ti
+        JOIN products p ON ti.product_id = p.id
+        WHERE ti.transaction_id = $1
+        ORDER BY ti.created_at, ti.id
+      `, [transactionId]),
+      client.query('SELECT method, amount, change_given FROM payments WHERE transaction_id = $1', [transactionId])
+    ]);
+
+    const items = itemsResult.rows.map((row: any) => this.buildLine(
+      row,
+      parseFloat(row.quantity),
+      transaction.prices_include_tax,
+      parseFloat(row.total_price) + (transaction.prices_include_tax ? 0 : parseFloat(row.tax_amount || 0)),
+      parseFloat(row.tax_amount || 0),
+      parseFloat(row.discount_amount || 0)
+    ));
+
+    const cash = paymentsResult.rows
+      .filter((row: any) => row.method === 'cash')
+      .reduce((sum: number, row: any) => sum + parseFloat(row.amount) - parseFloat(row.change_given || 0), 0);
+
+    return this.insertReceipt(client, {
+      type: 'sale',
+      transactionId,
+      terminalId: transaction.terminal_id,
+      cashier: transaction.employee_id,
+      time: new Date(transaction.completed_at ?? Date.now()).toISOString(),
+      items,
+      cash
+    });
+  }
+
+  /**
+   * Queue the return receipt of a refund. Sales made before fiscalization was switched
+   * on, or voided before their receipt went out, have nothing to return against.
+   */
+  static async queueRefund(client: PoolClient, refundId: string): Promise<string | null> {
+    const refundResult = await client.query(`
+      SELECT r.*, t.prices_include_tax
+      FROM refunds r
+      JOIN transactions t ON r.original_transaction_id = t.id
+      WHERE r.id = $1
+    `, [refundId]);
+    const refund = refundResult.rows[0];
+    if (!refund) {
+      throw createError('Refund not found', 404);
+    }
+
+    const saleReceipt = await this.findSaleReceipt(client, refund.original_transaction_id);
+    if (!saleReceipt || saleReceipt.status === 'cancelled') {
+      return null;
+    }
+
+    const [itemsResult, paymentsResult] = await Promise.all([
+      client.query(`
+        SELECT ri.quantity as returned_quantity, ri.refund_amount, ri.tax_amount as returned_tax,
+               ti.*, p.name, p.barcode, p.ikpu_code, p.package_code, p.unit_of_measure
+        FROM refund_items ri
+        JOIN transaction_items ti ON ri.transaction_item_id = ti.id
+        JOIN products p ON ri.product_id = p.id
+        WHERE ri.refund_id = $1
+        ORDER BY ti.created_at, ti.id
+      `, [refundId]),
+      client.query(
+        "SELECT method, amount FROM refund_payments WHERE refund_id = $1 AND status = 'completed'",
+        [refundId]
+      )
+    ]);
+
+    const items = itemsResult.rows.map((row: any) => {
+      const quantity = parseFloat(row.returned_quantity);
+      return this.buildLine(
+        row,
+        quantity,
+        refund.prices_include_tax,
+        parseFloat(row.refund_amount) + parseFloat(row.returned_tax || 0),
+        parseFloat(row.returned_tax || 0),
+        parseFloat(row.discount_amount || 0) * quantity / parseFloat(row.quantity)
+      );
+    });
+
+    const cash = paymentsResult.rows
+      .filter((row: any) => row.method === 'cash')
+      .reduce((sum: number, row: any) => sum + parseFloat(row.amount), 0);
+
+    return this.insertReceipt(client, {
+      type: 'refund',
+      transactionId: refund.original_transaction_id,
+      refundId,
+      terminalId: refund.terminal_id,
+      cashier: refund.employee_id,
+      time: new Date(refund.created_at ?? Date.now()).toISOString(),
+      items,
+      cash
+    });
+  }
+
+  /**
+   * Handle the fiscal side of a void. A sale receipt that never reached the fiscal module
+   * is cancelled; a fiscalized sale gets a return receipt for everything not refunded yet.
+   */
+  static async queueVoid(client: PoolClient, transactionId: string, employeeId: string): Promise<string | null> {
+    const saleReceipt = await this.findSaleReceipt(client, transactionId);
+    if (!saleReceipt || saleReceipt.status === 'cancelled') {
+      return null;
+    }
+
+    if (saleReceipt.status !== 'fiscalized') {
+      // Refund receipts of the sale were waiting on it and go with it
+      await client.query(
+        `UPDATE fiscal_receipts SET status = 'cancelled', next_attempt_at = NULL
+         WHERE transaction_id = $1 AND status IN ('pending', 'failed')`,
+        [transactionId]
+      );
+      return null;
+    }
+
+    const transactionResult = await client.query(
+      'SELECT terminal_id, prices_include_tax FROM transactions WHERE id = $1',
+      [transactionId]
+    );
+    const transaction = transactionResult.rows[0];
+
+    const [itemsResult, paymentsResult, refundedResult] = await Promise.all([
+      client.query(`
+        SELECT ti.*, p.name, p.barcode, p.ikpu_code, p.package_code, p.unit_of_measure
+        FROM transaction_items ti
+        JOIN products p ON ti.product_id = p.id
+        WHERE ti.transaction_id = $1
+        ORDER BY ti.created_at, ti.id
+      `, [transactionId]),
+      client.query('SELECT method, amount, change_given FROM payments WHERE transaction_id = $1', [transactionId]),
+      client.query(`
+        SELECT COALESCE(SUM(rp.amount) FILTER (WHERE rp.method = 'cash' AND rp.status = 'completed'), 0) as cash
+        FROM refund_payments rp
+        JOIN refunds r ON rp.refund_id = r.id
+        WHERE r.original_transaction_id = $1
+      `, [transactionId])
+    ]);
+
+    const items: FiscalReceiptLine[] = [];
+    for (const row of itemsResult.rows) {
+      const quantity = Math.round((parseFloat(row.quantity) - parseFloat(row.refunded_quantity || 0)) * 1000) / 1000;
+      if (quantity <= 0) {
+        continue;
+      }
+
+      const share = quantity / parseFloat(row.quantity);
+      const taxAmount = parseFloat(row.tax_amount || 0);
+      const lineAmount = parseFloat(row.total_price) + (transaction.prices_include_tax ? 0 : taxAmount);
+      items.push(this.buildLine(
+        row,
+        quantity,
+        transaction.prices_include_tax,
+        lineAmount * share,
+        taxAmount * share,
+        parseFloat(row.discount_amount || 0) * share
+      ));
+    }
+
+    // Fully refunded already: the refund receipts returned everything
+    if (items.length === 0) {
+      return null;
+    }
+
+    const cashPaid = paymentsResult.rows
+      .filter((row: any) => row.method === 'cash')
+      .reduce((sum: number, row: any) => sum + parseFloat(row.amount) - parseFloat(row.change_given || 0), 0);
+
+    return this.insertReceipt(client, {
+      type: 'void',
+      transactionId,
+      terminalId: transaction.terminal_id,
+      cashier: employeeId,
+      time: new Date().toISOString(),
+      items,
+      cash: cashPaid - parseFloat(refundedResult.rows[0].cash)
+    });
+  }
+
+  // =================================================================
+  // SENDING
+  // =================================================================
+
+  /**
+   * Try to fiscalize the queued receipts of one transaction right away and return all
+   * of its receipts. Receipts stay pending when the fiscal module is unreachable.
+   */
+  static async submitForTransaction(transactionId: string): Promise<FiscalReceipt[]> {
+    const settings = await this.getSettings();
+
+    if (settings.enabled) {
+      const receipts = await this.claimDue(transactionId);
+      for (const receipt of receipts) {
+        if (await this.submit(receipt, settings, IMMEDIATE_TIMEOUT_MS) === 'offline') {
+          break;
+        }
+      }
+    }
+
+    return this.getReceipts({ transactionId, status: 'all' });
+  }
+
+  /**
+   * Fire-and-forget variant for callers that do not wait for the fiscal sign
+   */
+  static submitInBackground(transactionId: string): void {
+    this.submitForTransaction(transactionId).catch((error) => {
+      console.warn('⚠️ Fiscalization deferred:', error.message);
+    });
+  }
+
+  /**
+   * Send due receipts oldest first. The run stops at the first receipt the fiscal module
+   * cannot take because it is offline; the rest wait for the next run.
+   */
+  static async processQueue(): Promise<FiscalQueueResult> {
+    const outcome: FiscalQueueResult = { fiscalized: 0, failed: 0, offline: false };
+
+    const settings = await this.getSettings();
+    if (!settings.enabled) {
+      return outcome;
+    }
+
+    const receipts = await this.claimDue();
+    for (const [index, receipt] of receipts.entries()) {
+      const result = await this.submit(receipt, settings, REQUEST_TIMEOUT_MS);
+
+      if (result === 'offline') {
+        outcome.offline = true;
+        const untried = receipts.slice(index + 1).map(r => r.id);
+        if (untried.length > 0) {
+          await DatabaseManager.query(
+            `UPDATE fiscal_receipts SET next_attempt_at = NOW() + ($2 || ' milliseconds')::interval
+             WHERE id = ANY($1::uuid[]) AND status = 'pending'`,
+            [untried, String(BASE_BACKOFF_MS)]
+          );
+        }
+        break;
+      }
+
+      outcome[result]++;
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Send a failed receipt again, with the IKPU and package codes the products have now
+   */
+  static async retryReceipt(id: string): Promise<FiscalReceipt> {
+    const receipt = await this.getReceipt(id);
+
+    if (receipt.status === 'fiscalized' || receipt.status === 'cancelled') {
+      throw createError(`Receipt is already ${receipt.status}`, 400);
+    }
+
+    const productIds = [...new Set(receipt.payload.items.map(item => item.productId))];
+    const productsResult = await DatabaseManager.query(
+      'SELECT id, ikpu_code, package_code FROM products WHERE id = ANY($1::uuid[])',
+      [productIds]
+    );
+    const codes = new Map<string, any>(productsResult.rows.map((row: any) => [row.id, row]));
+
+    const payload: FiscalReceiptPayload = {
+      ...receipt.payload,
+      items: receipt.payload.items.map(item => ({
+        ...item,
+        ikpuCode: codes.get(item.productId)?.ikpu_code ?? item.ikpuCode,
+        packageCode: codes.get(item.productId)?.package_code ?? item.packageCode
+      }))
+    };
+
+    await DatabaseManager.query(
+      `UPDATE fiscal_receipts
+       SET status = 'pending', payload = $2, next_attempt_at = NOW(), last_error = NULL
+       WHERE id = $1`,
+      [id, JSON.stringify(payload)]
+    );
+
+    await this.submitForTransaction(receipt.transaction_id);
+    return this.getReceipt(id);
+  }
+
+  // =================================================================
+  // QUERIES
+  // =================================================================
+
+  static async getReceipts(filters: FiscalReceiptFilters = {}): Promise<FiscalReceipt[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.status && filters.status !== 'all') {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (filters.transactionId) {
+      params.push(filters.transactionId);
+      conditions.push(`transaction_id = $${params.length}`);
+    }
+
+    params.push(filters.limit ?? 100);
+    const result = await DatabaseManager.query(
+      `SELECT * FROM fiscal_receipts
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY created_at DESC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.formatReceipt(row));
+  }
+
+  static async getReceipt(id: string): Promise<FiscalReceipt> {
+    const result = await DatabaseManager.query('SELECT * FROM fiscal_receipts WHERE id = $1', [id]);
+    if (!result.rows[0]) {
+      throw createError('Fiscal receipt not found', 404);
+    }
+    return this.formatReceipt(result.rows[0]);
+  }
+
+  /**
+   * Queue depth for the branch dashboard; a growing pending count means the module is offline
+   */
+  static async getQueueStatus(): Promise<FiscalQueueStatus> {
+    const [settings, countsResult] = await Promise.all([
+      this.getSettings(),
+      DatabaseManager.query(`
+        SELECT
+          COUNT(*) FILTER (WHERE status = 'pending') as pending,
+          COUNT(*) FILTER (WHERE status = 'failed') as failed,
+          MIN(created_at) FILTER (WHERE status = 'pending') as oldest_pending_at
+        FROM fiscal_receipts
+      `)
+    ]);
+    const counts = countsResult.rows[0];
+
+    return {
+      enabled: settings.enabled,
+      pending: parseInt(counts.pending),
+      failed: parseInt(counts.failed),
+      oldestPendingAt: counts.oldest_pending_at ?? null
+    };
+  }
+
+  static start(intervalMs: number = DEFAULT_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = () => {
+      this.processQueue()
+        .then(({ fiscalized, failed, offline }) => {
+          if (fiscalized > 0 || failed > 0) {
+            console.log(`🧾 Fiscal queue: ${fiscalized} receipts fiscalized, ${failed} rejected`);
+          }
+          if (offline) {
+            console.warn('⚠️ Fiscal module unreachable, receipts stay queued');
+          }
+        })
+        .catch(error => console.warn('⚠️ Fiscal queue run failed:', error.message));
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // =================================================================
+  // HELPERS
+  // =================================================================
+
+  /**
+   * Lease due receipts so the background run and an immediate submit never send the same
+   * one side by side. Refunds and voids are only due once their sale is fiscalized.
+   */
+  private static async claimDue(transactionId?: string): Promise<FiscalReceipt[]> {
+    const result = await DatabaseManager.query(`
+      UPDATE fiscal_receipts
+      SET next_attempt_at = NOW() + INTERVAL '${LEASE_SECONDS} seconds'
+      WHERE id IN (
+        SELECT r.id FROM fiscal_receipts r
+        WHERE r.status = 'pending'
+          AND r.next_attempt_at <= NOW()
+          AND ($1::uuid IS NULL OR r.transaction_id = $1::uuid)
+          AND (
+            r.receipt_type = 'sale'
+            OR EXISTS (
+              SELECT 1 FROM fiscal_receipts s
+              WHERE s.transaction_id = r.transaction_id AND s.receipt_type = 'sale' AND s.status = 'fiscalized'
+            )
+          )
+        ORDER BY r.created_at
+        LIMIT ${BATCH_SIZE}
+        FOR UPDATE OF r SKIP LOCKED
+      )
+      RETURNING *
+    `, [transactionId ?? null]);
+
+    return result.rows
+      .map((row: any) => this.formatReceipt(row))
+      .sort((a: FiscalReceipt, b: FiscalReceipt) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+  }
+
+  /**
+   * Send one receipt. A validation rejection is final until someone fixes the data and
+   * retries it; anything else means the module is unavailable and the receipt is retried
+   * with backoff.
+   */
+  private static async submit(receipt: FiscalReceipt, settings: FiscalSettings, timeout: number): Promise<SubmitOutcome> {
+    const original = receipt.receipt_type === 'sale' ? undefined : await this.getOriginal(receipt.transaction_id);
+
+    let response: FiscalModuleResponse;
+    try {
+      const reply = await axios.post<FiscalModuleResponse>(
+        `${settings.moduleUrl}/api/v1/receipts`,
+        { ...receipt.payload, original },
+        {
+          timeout,
+          headers: {
+            'Content-Type': 'application/json',
+            ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {})
+          }
+        }
+      );
+      response = reply.data;
+    } catch (error: any) {
+      const status: number | undefined = error.response?.status;
+      const message = error.response?.data?.error || error.message;
+
+      if (status && REJECTED_STATUSES.includes(status)) {
+        await this.markFailed(receipt.id, `Fiscal module rejected the receipt (${status}): ${message}`);
+        return 'failed';
+      }
+
+      const delay = Math.min(BASE_BACKOFF_MS * Math.pow(2, receipt.attempts), MAX_BACKOFF_MS);
+      await DatabaseManager.query(
+        `UPDATE fiscal_receipts
+         SET attempts = attempts + 1, last_error = $2, next_attempt_at = NOW() + ($3 || ' milliseconds')::interval
+         WHERE id = $1`,
+        [receipt.id, status ? `Fiscal module error (${status}): ${message}` : message, String(delay)]
+      );
+      return 'offline';
+    }
+
+    if (!response?.fiscal_sign || !response.terminal_id || response.receipt_seq === undefined) {
+      await this.markFailed(receipt.id, 'Fiscal module answer has no fiscal sign');
+      return 'failed';
+    }
+
+    await DatabaseManager.query(
+      `UPDATE fiscal_receipts
+       SET status = 'fiscalized', attempts = attempts + 1, last_error = NULL, next_attempt_at = NULL,
+           fiscal_module_id = $2, receipt_seq = $3, fiscal_sign = $4, qr_url = $5, fiscalized_at = $6
+       WHERE id = $1`,
+      [
+        receipt.id, response.terminal_id, String(response.receipt_seq), response.fiscal_sign,
+        response.qr_url ?? null, response.date_time ? new Date(response.date_time) : new Date()
+      ]
+    );
+    return 'fiscalized';
+  }
+
+  private static async markFailed(id: string, error: string): Promise<void> {
+    await DatabaseManager.query(
+      `UPDATE fiscal_receipts
+       SET status = 'failed', attempts = attempts + 1, last_error = $2, next_attempt_at = NULL
+       WHERE id = $1`,
+      [id, error]
+    );
+  }
+
+  private static async getOriginal(transactionId: string): Promise<OriginalReceipt | undefined> {
+    const sale = await this.findSaleReceipt(DatabaseManager, transactionId);
+    if (!sale || sale.status !== 'fiscalized') {
+      return undefined;
+    }
+
+    return {
+      terminalId: sale.fiscal_module_id!,
+      receiptSeq: sale.receipt_seq!,
+      fiscalSign: sale.fiscal_sign!,
+      dateTime: new Date(sale.fiscalized_at!).toISOString()
+    };
+  }
+
+  private static async findSaleReceipt(db: Queryable, transactionId: string): Promise<FiscalReceipt | null> {
+    const result = await db.query(
+      "SELECT * FROM fiscal_receipts WHERE transaction_id = $1 AND receipt_type = 'sale'",
+      [transactionId]
+    );
+    return result.rows[0] ? this.formatReceipt(result.rows[0]) : null;
+  }
+
+  private static async insertReceipt(
+    client: PoolClient,
+    receipt: {
+      type: FiscalReceiptType;
+      transactionId: string;
+      refundId?: string;
+      terminalId: string;
+      cashier: string;
+      time: string;
+      items: FiscalReceiptLine[];
+      cash: number;
+    }
+  ): Promise<string | null> {
+    const id = uuidv4();
+    const total = receipt.items.reduce((sum, item) => sum + item.amount, 0);
+    const receivedCash = Math.min(Math.max(toTiyin(receipt.cash), 0), total);
+
+    const payload: FiscalReceiptPayload = {
+      receiptId: id,
+      type: receipt.type,
+      transactionId: receipt.transactionId,
+      ...(receipt.refundId ? { refundId: receipt.refundId } : {}),
+      terminalId: receipt.terminalId,
+      cashier: receipt.cashier,
+      time: receipt.time,
+      items: receipt.items,
+      total,
+      vatTotal: receipt.items.reduce((sum, item) => sum + item.vat, 0),
+      receivedCash,
+      receivedCard: total - receivedCash
+    };
+
+    // A sale or void is fiscalized once; a repeated call keeps the first receipt
+    const result = await client.query(
+      `INSERT INTO fiscal_receipts (id, transaction_id, refund_id, receipt_type, payload)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT DO NOTHING
+       RETURNING id`,
+      [id, receipt.transactionId, receipt.refundId ?? null, receipt.type, JSON.stringify(payload)]
+    );
+
+    return result.rows[0]?.id ?? null;
+  }
+
+  /**
+   * One receipt line in tiyin. Unit price and discount are shown VAT-inclusive, as the
+   * customer saw them, whatever the branch pricing mode.
+   */
+  private static buildLine(
+    row: any,
+    quantity: number,
+    pricesIncludeTax: boolean,
+    amount: number,
+    vat: number,
+    discount: number
+  ): FiscalReceiptLine {
+    const taxRate = parseFloat(row.tax_rate || 0);
+    const grossFactor = pricesIncludeTax ? 1 : 1 + taxRate;
+
+    return {
+      productId: row.product_id,
+      name: row.name,
+      barcode: row.barcode ?? null,
+      ikpuCode: row.ikpu_code ?? null,
+      packageCode: row.package_code ?? null,
+      unit: row.unit_of_measure || 'pcs',
+      quantity,
+      price: toTiyin(parseFloat(row.unit_price) * grossFactor),
+      discount: toTiyin(discount * grossFactor),
+      amount: toTiyin(amount),
+      vatPercent: Math.round(taxRate * 10000) / 100,
+      vat: toTiyin(vat)
+    };
+  }
+
+  private static formatReceipt(row: any): FiscalReceipt {
+    return {
+      id: row.id,
+      transaction_id: row.transaction_id,
+      refund_id: row.refund_id,
+      receipt_type: row.receipt_type,
+      status: row.status,
+      payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+      attempts: Number(row.attempts ?? 0),
+      next_attempt_at: row.next_attempt_at,
+      last_error: row.last_error,
+      fiscal_module_id: row.fiscal_module_id,
+      receipt_seq: row.receipt_seq,
+      fiscal_sign: row.fiscal_sign,
+      qr_url: row.qr_url,
+      fiscalized_at: row.fiscalized_at,
+      created_at: row.created_at
+    };
+  }
+}
@@ -0,0 +1,121 @@
+import { LicenseClient, LicenseFeature, LicenseState, LicenseStore } from '@rockpoint/license-client';
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+
+type Queryable = Pick<PoolClient, 'query'> | typeof DatabaseManager;
+
+// License key, cached token, license file and revocation list live in branch_network_config
+const branchNetworkConfigStore: LicenseStore = {
+  async read(keys) {
+    const result = await DatabaseManager.query(
+      `SELECT config_key, config_value FROM branch_network_config WHERE config_key = ANY($1)`,
+      [keys]
+    );
+    return new Map<string, string>(result.rows.map((row: any) => [row.config_key, row.config_value]));
+  },
+
+  async write(values) {
+    for (const [key, value, description] of values) {
+      await DatabaseManager.query(
+        `INSERT INTO branch_network_config (config_key, config_value, description, category, is_system)
+         VALUES ($1, $2, $3, 'security', true)
+         ON CONFLICT (config_key) DO UPDATE SET config_value = EXCLUDED.config_value, updated_at = NOW()`,
+        [key, value, description]
+      );
+    }
+  },
+
+  async remove(keys) {
+    await DatabaseManager.query('DELETE FROM branch_network_config WHERE config_key = ANY($1)', [keys]);
+  }
+};
+
+/**
+ * License Service
+ *
+ * This branch server's side of the shared license client (@rockpoint/license-client): it
+ * activates as branch-core, keeps the license in branch_network_config and limits POS
+ * terminal registrations to the licensed maxPOSTerminals. Without a license key the server
+ * runs unrestricted outside production.
+ */
+export class LicenseService {
+  private static readonly client = new LicenseClient({ appType: 'branch-core', store: branchNetworkConfigStore });
+
+  static getMachineId(): string {
+    return this.client.getMachineId();
+  }
+
+  static getLicenseKey(): Promise<string> {
+    return this.client.getLicenseKey();
+  }
+
+  static getState(now?: Date): Promise<LicenseState> {
+    return this.client.getState(now);
+  }
+
+  static isUsable(state: LicenseState): boolean {
+    return this.client.isUsable(state);
+  }
+
+  static hasFeature(feature: LicenseFeature): Promise<boolean> {
+    return this.client.hasFeature(feature);
+  }
+
+  static assertFeature(feature: LicenseFeature): Promise<void> {
+    return this.client.assertFeature(feature);
+  }
+
+  static requireFeature(feature: LicenseFeature) {
+    return this.client.requireFeature(feature);
+  }
+
+  static installLicenseFile(content: string): Promise<LicenseState> {
+    return this.client.installLicenseFile(content);
+  }
+
+  static removeLicenseFile(): Promise<LicenseState> {
+    return this.client.removeLicenseFile();
+  }
+
+  static activate(licenseKey?: string): Promise<LicenseState> {
+    return this.client.activate(licenseKey);
+  }
+
+  static refresh(): Promise<LicenseState> {
+    return this.client.refresh();
+  }
+
+  static start(intervalMs?: number): void {
+    this.client.start(intervalMs);
+  }
+
+  static stop(): void {
+    this.client.stop();
+  }
+
+  /**
+   * Refuse registering a new POS terminal once the licensed count is in use. Active terminals
+   * may always be updated; a removed terminal registering again takes a slot like a new one.
+   */
+  static async assertTerminalCapacity(terminalId: string, db: Queryable = DatabaseManager): Promise<void> {
+    const state = await this.client.requireUsableState('POS terminals cannot be registered');
+    if (!state) {
+      return;
+    }
+
+    const existing = await db.query('SELECT is_active FROM pos_terminals WHERE terminal_id = $1', [terminalId]);
+    if (existing.rows[0]?.is_active) {
+      return;
+    }
+
+    const result = await db.query('SELECT COUNT(*) AS count FROM pos_terminals WHERE is_active = true');
+    const registered = parseInt(result.rows[0].count);
+    if (registered >= (state.maxPOSTerminals ?? 0)) {
+      throw createError(
+        `License allows ${state.maxPOSTerminals} POS terminals and ${registered} are registered`,
+        403
+      );
+    }
+  }
+}
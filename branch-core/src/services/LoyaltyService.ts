@@ -0,0 +1,744 @@
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import {
+  Customer,
+  LoyaltyEarnLine,
+  LoyaltyEarnResult,
+  LoyaltyLedgerEntry,
+  LoyaltyRule,
+  LoyaltySettings
+} from '../types';
+import { ChainCoreClient } from './ChainCoreClient';
+
+type Queryable = Pick<PoolClient, 'query'> | typeof DatabaseManager;
+
+export interface LoyaltyRuleInput {
+  name: string;
+  ruleType: LoyaltyRule['rule_type'];
+  points?: number;
+  amountStep?: number | null;
+  multiplier?: number | null;
+  categoryId?: string | null;
+  minPurchase?: number;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  isActive?: boolean;
+}
+
+export interface CustomerLookupResult {
+  customer: Customer;
+  source: 'chain' | 'local'; // 'local' when chain-core could not be reached
+}
+
+export interface LoyaltySyncResult {
+  sent: number;
+  applied: number;
+  failed: number;
+}
+
+interface ChainLedgerResult {
+  id: string;
+  status: 'applied' | 'duplicate' | 'error';
+  error?: string;
+  customer_id?: string;
+  loyalty_points?: number;
+}
+
+const RULE_COLUMNS: Record<keyof Omit<LoyaltyRuleInput, 'name' | 'ruleType'>, string> = {
+  points: 'points',
+  amountStep: 'amount_step',
+  multiplier: 'multiplier',
+  categoryId: 'category_id',
+  minPurchase: 'min_purchase',
+  startsAt: 'starts_at',
+  endsAt: 'ends_at',
+  isActive: 'is_active'
+};
+
+/**
+ * Loyalty Service
+ *
+ * Earns points on completed sales according to the branch's loyalty rules and spends
+ * them when a sale is paid with store credit. Every change goes into loyalty_ledger
+ * first; chain-core holds the chain-wide balance and the ledger is pushed to it, so a
+ * customer can earn in one branch and redeem in another. The local balance is a cache:
+ * chain-core's balance plus whatever this branch has not synced yet.
+ */
+export class LoyaltyService {
+  /**
+   * Loyalty settings from branch_network_config, falling back to the environment
+   */
+  static async getSettings(db: Queryable = DatabaseManager): Promise<LoyaltySettings> {
+    const result = await db.query(
+      `SELECT config_key, config_value FROM branch_network_config
+       WHERE config_key IN ('loyalty_enabled', 'loyalty_point_value')`
+    );
+
+    const config = new Map<string, string>(
+      result.rows.map((row: any) => [row.config_key, row.config_value])
+    );
+
+    const enabled = config.get('loyalty_enabled') ?? process.env.LOYALTY_ENABLED ?? 'true';
+    const pointValue = parseFloat(config.get('loyalty_point_value') ?? process.env.LOYALTY_POINT_VALUE ?? '0.01');
+
+    return {
+      enabled: enabled === 'true',
+      pointValue: pointValue > 0 ? pointValue : 0.01
+    };
+  }
+
+  static async updateSettings(settings: Partial<LoyaltySettings>): Promise<LoyaltySettings> {
+    const values: Array<[string, string, string]> = [];
+    if (settings.enabled !== undefined) {
+      values.push(['loyalty_enabled', String(settings.enabled), 'Earn and redeem loyalty points at the till']);
+    }
+    if (settings.pointValue !== undefined) {
+      values.push(['loyalty_point_value', String(settings.pointValue), 'Money one loyalty point is worth when redeemed as store credit']);
+    }
+
+    for (const [key, value, description] of values) {
+      await DatabaseManager.query(
+        `INSERT INTO branch_network_config (config_key, config_value, description, category)
+         VALUES ($1, $2, $3, 'general')
+         ON CONFLICT (config_key) DO UPDATE SET config_value = EXCLUDED.config_value, updated_at = NOW()`,
+        [key, value, description]
+      );
+    }
+
+    return this.getSettings();
+  }
+
+  // =================================================================
+  // EARN RULES
+  // =================================================================
+
+  static async listRules(includeInactive = false, db: Queryable = DatabaseManager): Promise<LoyaltyRule[]> {
+    const result = await db.query(
+      `SELECT r.*, c.key AS category_key
+       FROM loyalty_rules r
+       LEFT JOIN categories c ON r.category_id = c.id
+       WHERE ($1::boolean OR r.is_active = true)
+       ORDER BY r.rule_type, r.created_at`,
+      [includeInactive]
+    );
+    return result.rows.map((row: any) => this.mapRule(row));
+  }
+
+  static async createRule(input: LoyaltyRuleInput): Promise<LoyaltyRule> {
+    this.validateRule(input);
+
+    const result = await DatabaseManager.query(
+      `INSERT INTO loyalty_rules
+       (name, rule_type, points, amount_step, multiplier, category_id, min_purchase, starts_at, ends_at, is_active)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        input.name, input.ruleType, input.points ?? 0, input.amountStep ?? null, input.multiplier ?? null,
+        input.categoryId ?? null, input.minPurchase ?? 0, input.startsAt ?? null, input.endsAt ?? null,
+        input.isActive ?? true
+      ]
+    );
+    return this.mapRule(result.rows[0]);
+  }
+
+  static async updateRule(ruleId: string, input: Partial<LoyaltyRuleInput>): Promise<LoyaltyRule> {
+    const existing = await DatabaseManager.query('SELECT * FROM loyalty_rules WHERE id = $1', [ruleId]);
+    if (existing.rows.length === 0) {
+      throw createError('Loyalty rule not found', 404);
+    }
+
+    const current = this.mapRule(existing.rows[0]);
+    this.validateRule({
+      name: input.name ?? current.name,
+      ruleType: input.ruleType ?? current.rule_type,
+      points: input.points ?? current.points,
+      amountStep: input.amountStep !== undefined ? input.amountStep : current.amount_step,
+      multiplier: input.multiplier !== undefined ? input.multiplier : current.multiplier,
+      categoryId: input.categoryId !== undefined ? input.categoryId : current.category_id
+    });
+
+    const sets: string[] = [];
+    const params: any[] = [];
+    if (input.name !== undefined) {
+      params.push(input.name);
+      sets.push(`name = $${params.length}`);
+    }
+    if (input.ruleType !== undefined) {
+      params.push(input.ruleType);
+      sets.push(`rule_type = $${params.length}`);
+    }
+    for (const [field, column] of Object.entries(RULE_COLUMNS)) {
+      const value = input[field as keyof typeof RULE_COLUMNS];
+      if (value !== undefined) {
+        params.push(value);
+        sets.push(`${column} = $${params.length}`);
+      }
+    }
+
+    if (sets.length === 0) {
+      return current;
+    }
+
+    params.push(ruleId);
+    const result = await DatabaseManager.query(
+      `UPDATE loyalty_rules SET ${sets.join(', ')} WHERE id = $${params.length} RETURNING *`,
+      params
+    );
+    return this.mapRule(result.rows[0]);
+  }
+
+  static async deleteRule(ruleId: string): Promise<void> {
+    const result = await DatabaseManager.query('DELETE FROM loyalty_rules WHERE id = $1', [ruleId]);
+    if (result.rowCount === 0) {
+      throw createError('Loyalty rule not found', 404);
+    }
+  }
+
+  /**
+   * Points a sale earns (no database access).
+   *
+   * `eligibleShare` is the part of the sale not paid with store credit (0-1); points are
+   * never earned on money that was itself paid with points. Per-amount rules give the
+   * base points of each line, the best matching category multiplier scales a line, and
+   * purchase bonuses add a flat amount once the sale is large enough.
+   */
+  static calculateEarnedPoints(
+    lines: LoyaltyEarnLine[],
+    rules: LoyaltyRule[],
+    eligibleShare = 1,
+    now: Date = new Date()
+  ): LoyaltyEarnResult {
+    const share = Math.min(1, Math.max(0, eligibleShare));
+    const activeRules = rules.filter(rule => this.isRuleActive(rule, now));
+    const saleTotal = this.round(lines.reduce((sum, line) => sum + line.amount, 0) * share);
+    const applied = new Set<string>();
+
+    const baseRules = activeRules.filter(rule =>
+      rule.rule_type === 'points_per_amount' && rule.amount_step && saleTotal >= rule.min_purchase
+    );
+    const multiplierRules = activeRules.filter(rule =>
+      rule.rule_type === 'category_multiplier' && rule.category_id && rule.multiplier !== null && saleTotal >= rule.min_purchase
+    );
+
+    let points = 0;
+    for (const line of lines) {
+      const eligibleAmount = line.amount * share;
+      let linePoints = 0;
+      for (const rule of baseRules) {
+        linePoints += (eligibleAmount / rule.amount_step!) * rule.points;
+        applied.add(rule.id);
+      }
+
+      const bestMultiplier = multiplierRules
+        .filter(rule => rule.category_id === line.categoryId)
+        .sort((a, b) => b.multiplier! - a.multiplier!)[0];
+      if (bestMultiplier && linePoints > 0) {
+        linePoints *= bestMultiplier.multiplier!;
+        applied.add(bestMultiplier.id);
+      }
+
+      points += linePoints;
+    }
+
+    for (const rule of activeRules) {
+      if (rule.rule_type === 'purchase_bonus' && saleTotal > 0 && saleTotal >= rule.min_purchase && rule.points > 0) {
+        points += rule.points;
+        applied.add(rule.id);
+      }
+    }
+
+    // Tiny float noise must not cost the customer a point
+    return { points: Math.max(0, Math.floor(points + 1e-9)), appliedRuleIds: [...applied] };
+  }
+
+  /**
+   * Points needed to pay `amount` with store credit
+   */
+  static pointsForAmount(amount: number, pointValue: number): number {
+    return Math.ceil(this.round(amount / pointValue) - 1e-9);
+  }
+
+  // =================================================================
+  // CUSTOMERS
+  // =================================================================
+
+  /**
+   * Find a customer by loyalty card or phone. chain-core is asked first so the balance
+   * includes points earned at other branches; the local copy is used when it is unreachable.
+   */
+  static async lookupCustomer(params: { card?: string; phone?: string }): Promise<CustomerLookupResult> {
+    const query = new URLSearchParams();
+    if (params.card) query.set('card', params.card);
+    if (params.phone) query.set('phone', params.phone);
+
+    try {
+      const data = await ChainCoreClient.request<{ customer: any }>('GET', `customers/lookup?${query}`);
+      if (data?.customer) {
+        const customer = await this.saveChainCustomer(data.customer);
+        return { customer, source: 'chain' };
+      }
+    } catch (error: any) {
+      // Unknown at chain level: a customer only this branch knows is still found locally below
+      if (error.statusCode && ![404, 502, 503].includes(error.statusCode)) {
+        throw error;
+      }
+    }
+
+    const local = await this.findLocalCustomer(DatabaseManager, params);
+    if (!local) {
+      throw createError('Customer not found', 404);
+    }
+    return { customer: local, source: 'local' };
+  }
+
+  /**
+   * Balance and recent ledger entries of a customer
+   */
+  static async getAccount(customerId: string, limit = 20): Promise<{ customer: Customer; entries: LoyaltyLedgerEntry[]; unsyncedPoints: number }> {
+    const customerResult = await DatabaseManager.query('SELECT * FROM customers WHERE id = $1', [customerId]);
+    if (customerResult.rows.length === 0) {
+      throw createError('Customer not found', 404);
+    }
+
+    const [entriesResult, unsyncedResult] = await Promise.all([
+      DatabaseManager.query(
+        'SELECT * FROM loyalty_ledger WHERE customer_id = $1 ORDER BY created_at DESC LIMIT $2',
+        [customerId, limit]
+      ),
+      DatabaseManager.query(
+        'SELECT COALESCE(SUM(points), 0) AS points FROM loyalty_ledger WHERE customer_id = $1 AND synced_at IS NULL',
+        [customerId]
+      )
+    ]);
+
+    return {
+      customer: customerResult.rows[0],
+      entries: entriesResult.rows,
+      unsyncedPoints: parseInt(unsyncedResult.rows[0].points)
+    };
+  }
+
+  // =================================================================
+  // EARN / REDEEM (inside the sale's database transaction)
+  // =================================================================
+
+  /**
+   * Spend points for a store credit payment. Throws when the customer does not have enough.
+   */
+  static async redeemPoints(
+    client: PoolClient,
+    params: { customerId: string | null; transactionId: string; amount: number; employeeId?: string }
+  ): Promise<number> {
+    if (!params.customerId) {
+      throw createError('Store credit needs a customer on the sale', 400);
+    }
+
+    const settings = await this.getSettings(client);
+    if (!settings.enabled) {
+      throw createError('Loyalty program is disabled at this branch', 400);
+    }
+
+    const points = this.pointsForAmount(params.amount, settings.pointValue);
+    const customerResult = await client.query(
+      'SELECT id, loyalty_points FROM customers WHERE id = $1 FOR UPDATE',
+      [params.customerId]
+    );
+    const customer = customerResult.rows[0];
+    if (!customer) {
+      throw createError('Customer not found', 404);
+    }
+    if ((customer.loyalty_points || 0) < points) {
+      throw createError(`Not enough loyalty points: ${points} needed, ${customer.loyalty_points || 0} available`, 400);
+    }
+
+    await this.addEntry(client, {
+      customerId: params.customerId,
+      transactionId: params.transactionId,
+      entryType: 'redeem',
+      points: -points,
+      description: `Paid ${params.amount.toFixed(2)} with store credit`,
+      employeeId: params.employeeId
+    });
+
+    return points;
+  }
+
+  /**
+   * Award points for a completed sale. Safe to call twice: a sale earns only once.
+   */
+  static async awardPoints(client: PoolClient, transactionId: string, employeeId?: string): Promise<number> {
+    const transactionResult = await client.query(
+      `SELECT t.id, t.customer_id, t.total_amount, t.employee_id,
+              COALESCE((SELECT SUM(p.amount) FROM payments p
+                        WHERE p.transaction_id = t.id AND p.method = 'store_credit'), 0) AS store_credit
+       FROM transactions t
+       WHERE t.id = $1 AND t.status = 'completed'`,
+      [transactionId]
+    );
+    const transaction = transactionResult.rows[0];
+    if (!transaction?.customer_id) {
+      return 0;
+    }
+
+    const settings = await this.getSettings(client);
+    if (!settings.enabled) {
+      return 0;
+    }
+
+    const alreadyEarned = await client.query(
+      `SELECT id FROM loyalty_ledger WHERE transaction_id = $1 AND entry_type = 'earn'`,
+      [transactionId]
+    );
+    if (alreadyEarned.rows.length > 0) {
+      return 0;
+    }
+
+    const itemsResult = await client.query(
+      `SELECT ti.product_id, ti.total_price, p.category_id
+       FROM transaction_items ti
+       JOIN products p ON ti.product_id = p.id
+       WHERE ti.transaction_id = $1`,
+      [transactionId]
+    );
+
+    const total = parseFloat(transaction.total_amount);
+    const storeCredit = parseFloat(transaction.store_credit);
+    const eligibleShare = total > 0 ? (total - storeCredit) / total : 0;
+
+    const rules = await this.listRules(false, client);
+    const { points } = this.calculateEarnedPoints(
+      itemsResult.rows.map((row: any) => ({
+        productId: row.product_id,
+        categoryId: row.category_id,
+        amount: parseFloat(row.total_price)
+      })),
+      rules,
+      eligibleShare
+    );
+
+    if (points <= 0) {
+      return 0;
+    }
+
+    await this.addEntry(client, {
+      customerId: transaction.customer_id,
+      transactionId,
+      entryType: 'earn',
+      points,
+      description: `Earned on sale of ${total.toFixed(2)}`,
+      employeeId: employeeId ?? transaction.employee_id
+    });
+
+    return points;
+  }
+
+  /**
+   * Undo the points a voided sale still holds: what it earned and what it spent, less what
+   * its refunds already took back or returned
+   */
+  static async reverseTransaction(client: PoolClient, transactionId: string, employeeId?: string): Promise<number> {
+    const balancesResult = await client.query(
+      `SELECT customer_id, SUM(points) AS points FROM loyalty_ledger
+       WHERE transaction_id = $1
+       GROUP BY customer_id`,
+      [transactionId]
+    );
+
+    let reversed = 0;
+    for (const row of balancesResult.rows) {
+      const points = parseInt(row.points);
+      if (points === 0) {
+        continue;
+      }
+
+      await this.addEntry(client, {
+        customerId: row.customer_id,
+        transactionId,
+        entryType: 'reversal',
+        points: -points,
+        description: 'Reversed points of voided sale',
+        employeeId
+      });
+      reversed += -points;
+    }
+    return reversed;
+  }
+
+  /**
+   * Give back the points a completed refund paid out as store credit and take back the
+   * points earned on the returned part of the sale. Each refund moves the difference between
+   * the points due for all refunds so far and for the earlier ones, so a sale refunded in
+   * full always ends up with every earned point taken back and every spent point returned.
+   */
+  static async reverseRefund(client: PoolClient, refundId: string, employeeId?: string): Promise<number> {
+    const refundResult = await client.query(
+      `SELECT r.original_transaction_id, r.total_amount, t.total_amount AS sale_total,
+              COALESCE((SELECT SUM(pr.total_amount) FROM refunds pr
+                        WHERE pr.original_transaction_id = r.original_transaction_id
+                          AND pr.status = 'completed' AND pr.id <> r.id), 0) AS previously_refunded,
+              COALESCE((SELECT SUM(p.amount) FROM payments p
+                        WHERE p.transaction_id = r.original_transaction_id AND p.method = 'store_credit'), 0) AS store_credit,
+              COALESCE((SELECT SUM(rp.amount) FROM refund_payments rp JOIN refunds pr ON rp.refund_id = pr.id
+                        WHERE pr.original_transaction_id = r.original_transaction_id
+                          AND pr.status = 'completed' AND pr.id <> r.id AND rp.method = 'store_credit'), 0) AS previous_store_credit,
+              COALESCE((SELECT SUM(rp.amount) FROM refund_payments rp
+                        WHERE rp.refund_id = r.id AND rp.method = 'store_credit'), 0) AS refund_store_credit
+       FROM refunds r
+       JOIN transactions t ON r.original_transaction_id = t.id
+       WHERE r.id = $1`,
+      [refundId]
+    );
+    const refund = refundResult.rows[0];
+    if (!refund) {
+      return 0;
+    }
+
+    const entriesResult = await client.query(
+      `SELECT customer_id, entry_type, points FROM loyalty_ledger
+       WHERE transaction_id = $1 AND entry_type IN ('earn', 'redeem')`,
+      [refund.original_transaction_id]
+    );
+
+    // Share of a sale's points due for refunds worth `returned` out of `total`
+    const due = (points: number, returned: number, total: number): number =>
+      total > 0 ? Math.round(points * Math.min(1, returned / total)) : 0;
+
+    const saleTotal = parseFloat(refund.sale_total);
+    const previouslyRefunded = parseFloat(refund.previously_refunded);
+    const storeCredit = parseFloat(refund.store_credit);
+    const previousStoreCredit = parseFloat(refund.previous_store_credit);
+
+    let reversed = 0;
+    for (const entry of entriesResult.rows) {
+      const points = Math.abs(entry.points);
+      const change = entry.entry_type === 'earn'
+        ? -(due(points, previouslyRefunded + parseFloat(refund.total_amount), saleTotal) - due(points, previouslyRefunded, saleTotal))
+        : due(points, previousStoreCredit + parseFloat(refund.refund_store_credit), storeCredit) - due(points, previousStoreCredit, storeCredit);
+      if (change === 0) {
+        continue;
+      }
+
+      await this.addEntry(client, {
+        customerId: entry.customer_id,
+        transactionId: refund.original_transaction_id,
+        entryType: 'reversal',
+        points: change,
+        description: entry.entry_type === 'earn' ? 'Took back points earned on refunded items' : 'Returned points spent on refunded items',
+        employeeId
+      });
+      reversed += change;
+    }
+    return reversed;
+  }
+
+  // =================================================================
+  // CHAIN SYNC
+  // =================================================================
+
+  /**
+   * Push ledger entries chain-core has not seen yet and take its balances back.
+   * chain-core applies each entry once, so resending after a timeout is harmless.
+   */
+  static async syncLedger(limit = 200): Promise<LoyaltySyncResult> {
+    const pending = await DatabaseManager.query(
+      `SELECT l.*, c.loyalty_card_number, c.phone, c.name
+       FROM loyalty_ledger l
+       JOIN customers c ON l.customer_id = c.id
+       WHERE l.synced_at IS NULL
+       ORDER BY l.created_at
+       LIMIT $1`,
+      [limit]
+    );
+
+    if (pending.rows.length === 0) {
+      return { sent: 0, applied: 0, failed: 0 };
+    }
+
+    const data = await ChainCoreClient.request<{ results: ChainLedgerResult[] }>('POST', 'customers/loyalty/ledger', {
+      entries: pending.rows.map((row: any) => ({
+        id: row.id,
+        customer_id: row.customer_id,
+        loyalty_card_number: row.loyalty_card_number || undefined,
+        phone: row.phone || undefined,
+        name: row.name,
+        transaction_id: row.transaction_id || undefined,
+        entry_type: row.entry_type,
+        points: row.points,
+        description: row.description || undefined,
+        employee_id: row.employee_id || undefined,
+        created_at: new Date(row.created_at).toISOString()
+      }))
+    });
+
+    let applied = 0;
+    let failed = 0;
+    const balances = new Map<string, number>();
+    const localCustomerByEntry = new Map<string, string>(pending.rows.map((row: any) => [row.id, row.customer_id]));
+
+    for (const result of data.results) {
+      if (result.status === 'error') {
+        failed++;
+        await DatabaseManager.query('UPDATE loyalty_ledger SET sync_error = $2 WHERE id = $1', [result.id, result.error || 'Rejected by chain-core']);
+        continue;
+      }
+
+      applied++;
+      await DatabaseManager.query('UPDATE loyalty_ledger SET synced_at = NOW(), sync_error = NULL WHERE id = $1', [result.id]);
+      const localCustomerId = localCustomerByEntry.get(result.id);
+      if (localCustomerId && result.loyalty_points !== undefined) {
+        balances.set(localCustomerId, result.loyalty_points);
+      }
+    }
+
+    for (const [customerId, chainBalance] of balances) {
+      await this.applyChainBalance(DatabaseManager, customerId, chainBalance);
+    }
+
+    return { sent: pending.rows.length, applied, failed };
+  }
+
+  /**
+   * Sync after a sale without holding up the till; entries left unsynced go with the next sync
+   */
+  static syncLedgerInBackground(): void {
+    this.syncLedger().catch((error) => {
+      console.warn('⚠️ Loyalty ledger sync deferred:', error.message);
+    });
+  }
+
+  // =================================================================
+  // HELPERS
+  // =================================================================
+
+  private static async addEntry(
+    client: PoolClient,
+    entry: { customerId: string; transactionId: string | null; entryType: LoyaltyLedgerEntry['entry_type']; points: number; description: string; employeeId?: string }
+  ): Promise<void> {
+    const balanceResult = await client.query(
+      `UPDATE customers SET loyalty_points = COALESCE(loyalty_points, 0) + $2
+       WHERE id = $1
+       RETURNING loyalty_points`,
+      [entry.customerId, entry.points]
+    );
+
+    await client.query(
+      `INSERT INTO loyalty_ledger (customer_id, transaction_id, entry_type, points, balance_after, description, employee_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        entry.customerId, entry.transactionId, entry.entryType, entry.points,
+        balanceResult.rows[0]?.loyalty_points ?? entry.points, entry.description, entry.employeeId
+      ]
+    );
+  }
+
+  // Local balance = chain-wide balance + entries made here that chain-core has not applied yet
+  private static async applyChainBalance(db: Queryable, customerId: string, chainBalance: number): Promise<void> {
+    await db.query(
+      `UPDATE customers SET loyalty_points = $2 + COALESCE((
+         SELECT SUM(points) FROM loyalty_ledger WHERE customer_id = $1 AND synced_at IS NULL
+       ), 0)
+       WHERE id = $1`,
+      [customerId, chainBalance]
+    );
+  }
+
+  // Keep the branch copy of a chain customer; a local record with the same card keeps its own ID
+  private static async saveChainCustomer(chainCustomer: any): Promise<Customer> {
+    return DatabaseManager.transaction(async (client) => {
+      const existing = await client.query(
+        `SELECT id FROM customers
+         WHERE id = $1 OR ($2::text IS NOT NULL AND loyalty_card_number = $2)
+         ORDER BY (id = $1) DESC
+         LIMIT 1`,
+        [chainCustomer.id, chainCustomer.loyalty_card_number || null]
+      );
+
+      let customerId: string;
+      if (existing.rows[0]) {
+        customerId = existing.rows[0].id;
+        await client.query(
+          `UPDATE customers
+           SET name = $2, email = $3, phone = $4, loyalty_card_number = $5, discount_percentage = $6,
+               is_vip = $7, is_active = $8
+           WHERE id = $1`,
+          [
+            customerId, chainCustomer.name, chainCustomer.email, chainCustomer.phone,
+            chainCustomer.loyalty_card_number, chainCustomer.discount_percentage ?? 0,
+            chainCustomer.is_vip ?? false, chainCustomer.is_active ?? true
+          ]
+        );
+      } else {
+        const inserted = await client.query(
+          `INSERT INTO customers (id, name, email, phone, loyalty_card_number, loyalty_points, discount_percentage, is_vip, is_active)
+           VALUES ($1, $2, $3, $4, $5, 0, $6, $7, $8)
+           RETURNING id`,
+          [
+            chainCustomer.id, chainCustomer.name, chainCustomer.email, chainCustomer.phone,
+            chainCustomer.loyalty_card_number, chainCustomer.discount_percentage ?? 0,
+            chainCustomer.is_vip ?? false, chainCustomer.is_active ?? true
+          ]
+        );
+        customerId = inserted.rows[0].id;
+      }
+
+      await this.applyChainBalance(client, customerId, chainCustomer.loyalty_points ?? 0);
+
+      const result = await client.query('SELECT * FROM customers WHERE id = $1', [customerId]);
+      return result.rows[0];
+    });
+  }
+
+  private static async findLocalCustomer(db: Queryable, params: { card?: string; phone?: string }): Promise<Customer | null> {
+    const result = await db.query(
+      `SELECT * FROM customers
+       WHERE is_active = true
+         AND (($1::text IS NOT NULL AND loyalty_card_number = $1)
+           OR ($2::text IS NOT NULL AND regexp_replace(phone, '[^0-9]', '', 'g') = regexp_replace($2, '[^0-9]', '', 'g')))
+       ORDER BY (loyalty_card_number = $1) DESC NULLS LAST
+       LIMIT 1`,
+      [params.card || null, params.phone || null]
+    );
+    return result.rows[0] || null;
+  }
+
+  private static validateRule(input: Partial<LoyaltyRuleInput>): void {
+    if (input.ruleType === 'points_per_amount' && (!input.amountStep || !input.points)) {
+      throw createError('Points per amount rules need points and an amount step', 400);
+    }
+    if (input.ruleType === 'category_multiplier' && (!input.categoryId || input.multiplier == null)) {
+      throw createError('Category multiplier rules need a category and a multiplier', 400);
+    }
+    if (input.ruleType === 'purchase_bonus' && !input.points) {
+      throw createError('Purchase bonus rules need a number of points', 400);
+    }
+  }
+
+  private static isRuleActive(rule: LoyaltyRule, now: Date): boolean {
+    if (!rule.is_active) return false;
+    if (rule.starts_at && new Date(rule.starts_at) > now) return false;
+    if (rule.ends_at && new Date(rule.ends_at) < now) return false;
+    return true;
+  }
+
+  private static mapRule(row: any): LoyaltyRule {
+    return {
+      id: row.id,
+      name: row.name,
+      rule_type: row.rule_type,
+      points: parseFloat(row.points || 0),
+      amount_step: row.amount_step !== null && row.amount_step !== undefined ? parseFloat(row.amount_step) : null,
+      multiplier: row.multiplier !== null && row.multiplier !== undefined ? parseFloat(row.multiplier) : null,
+      category_id: row.category_id ?? null,
+      category_key: row.category_key ?? null,
+      min_purchase: parseFloat(row.min_purchase || 0),
+      starts_at: row.starts_at ?? null,
+      ends_at: row.ends_at ?? null,
+      is_active: row.is_active
+    };
+  }
+
+  private static round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,260 @@
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import { CartLineInput, OfflineSaleConflict, OfflineSaleConflictDraft, TaxedCart } from '../types';
+import { FiscalService } from './FiscalService';
+import { LoyaltyService } from './LoyaltyService';
+import { PricingEngine } from './PricingEngine';
+import { TaxEngine } from './TaxEngine';
+
+export interface OfflineSaleRequest {
+  transactionId: string; // Generated on the till, so a replay of the same sale is recognised
+  terminalId: string;
+  employeeId: string;
+  customerId?: string;
+  items: CartLineInput[];
+  createdAt: string; // When the cashier finished the sale on the till
+  expectedTotal: number; // Total the till charged from its cached prices
+  payments: Array<{ method: 'cash'; amount: number }>;
+}
+
+export interface OfflineSaleResult {
+  transactionId: string;
+  status: string;
+  total: number;
+  replayed: boolean; // true when the sale had already been recorded by an earlier replay
+  cart?: TaxedCart;
+  conflicts: OfflineSaleConflict[];
+}
+
+/**
+ * Offline Sale Service
+ *
+ * Records cash sales that a till completed while the branch server was unreachable.
+ * The till replays each sale with its own transaction ID; a sale that is already on
+ * file is returned as-is, so replays are safe to repeat. The cash was already taken,
+ * so the sale is always booked - negative stock and totals that differ from what the
+ * till charged are recorded as conflicts for a manager to review.
+ */
+export class OfflineSaleService {
+  /**
+   * Book a replayed offline sale (idempotent on the transaction ID)
+   */
+  static async recordSale(request: OfflineSaleRequest): Promise<OfflineSaleResult> {
+    return DatabaseManager.transaction(async (client) => {
+      const existing = await this.findReplayedSale(client, request.transactionId);
+      if (existing) {
+        return existing;
+      }
+
+      const pricedCart = await PricingEngine.priceCart(request.items, client);
+      const taxedCart = await TaxEngine.taxCart(pricedCart, client);
+
+      // A concurrent replay of the same sale inserts nothing here and falls back to the stored one
+      const inserted = await client.query(
+        `INSERT INTO transactions
+         (id, terminal_id, employee_id, customer_id, subtotal, tax_amount, discount_amount, total_amount,
+          prices_include_tax, status, completed_at, offline_synced_at, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'completed', $10, NOW(), $10)
+         ON CONFLICT (id) DO NOTHING
+         RETURNING id`,
+        [
+          request.transactionId, request.terminalId, request.employeeId, request.customerId,
+          taxedCart.netSubtotal, taxedCart.taxTotal, taxedCart.discountTotal, taxedCart.total,
+          taxedCart.pricesIncludeTax, request.createdAt
+        ]
+      );
+
+      if (inserted.rowCount === 0) {
+        const replayed = await this.findReplayedSale(client, request.transactionId);
+        if (!replayed) {
+          throw createError('Offline sale could not be recorded', 409);
+        }
+        return replayed;
+      }
+
+      for (const line of taxedCart.lines) {
+        await client.query(
+          `INSERT INTO transaction_items
+           (transaction_id, product_id, quantity, unit_price, total_price, discount_amount, applied_promotion_ids,
+            tax_rate, tax_amount, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+          [
+            request.transactionId, line.productId, line.quantity, line.unitPrice, line.total,
+            line.discountAmount, line.appliedPromotionIds, line.taxRate, line.taxAmount, request.createdAt
+          ]
+        );
+      }
+
+      const stockLevels: Array<{ productId: string; name: string; quantityInStock: number }> = [];
+      for (const item of request.items) {
+        const stockResult = await client.query(
+          `UPDATE products SET quantity_in_stock = quantity_in_stock - $1
+           WHERE id = $2
+           RETURNING id, name, quantity_in_stock`,
+          [item.quantity, item.productId]
+        );
+
+        if (stockResult.rows.length === 0) {
+          throw createError(`Product ${item.productId} not found`, 404);
+        }
+
+        const product = stockResult.rows[0];
+        stockLevels.push({ productId: product.id, name: product.name, quantityInStock: Number(product.quantity_in_stock) });
+
+        await client.query(
+          `INSERT INTO stock_movements
+           (product_id, old_quantity, new_quantity, change_quantity, operation, reason, transaction_id, employee_id, created_at)
+           VALUES ($1, $2, $3, $4, 'subtract', 'sale', $5, $6, NOW())`,
+          [
+            item.productId, Number(product.quantity_in_stock) + item.quantity, product.quantity_in_stock,
+            item.quantity, request.transactionId, request.employeeId
+          ]
+        );
+      }
+
+      // The change handed back is already known; the last cash payment carries it
+      const paid = this.round(request.payments.reduce((sum, payment) => sum + payment.amount, 0));
+      const changeGiven = Math.max(0, this.round(paid - request.expectedTotal));
+      for (const [index, payment] of request.payments.entries()) {
+        await client.query(
+          `INSERT INTO payments (transaction_id, method, amount, reference, change_given, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [
+            request.transactionId, payment.method, payment.amount, 'offline',
+            index === request.payments.length - 1 ? changeGiven : 0, request.createdAt
+          ]
+        );
+      }
+
+      const drafts = this.detectConflicts(request.expectedTotal, taxedCart.total, stockLevels);
+      const conflicts: OfflineSaleConflict[] = [];
+      for (const draft of drafts) {
+        const conflictResult = await client.query(
+          `INSERT INTO offline_sale_conflicts
+           (transaction_id, terminal_id, employee_id, conflict_type, product_id, expected_value, actual_value, details)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+           RETURNING *`,
+          [
+            request.transactionId, request.terminalId, request.employeeId, draft.conflictType,
+            draft.productId, draft.expectedValue, draft.actualValue, draft.details
+          ]
+        );
+        conflicts.push(conflictResult.rows[0]);
+      }
+
+      if (request.customerId) {
+        await LoyaltyService.awardPoints(client, request.transactionId, request.employeeId);
+      }
+
+      // The till printed a non-fiscal slip; the fiscal receipt is registered now
+      await FiscalService.queueSale(client, request.transactionId);
+
+      return {
+        transactionId: request.transactionId,
+        status: 'completed',
+        total: taxedCart.total,
+        replayed: false,
+        cart: taxedCart,
+        conflicts
+      };
+    });
+  }
+
+  /**
+   * Compare the replayed sale with the branch's view of it (no database access)
+   */
+  static detectConflicts(
+    expectedTotal: number,
+    branchTotal: number,
+    stockLevels: Array<{ productId: string; name: string; quantityInStock: number }>
+  ): OfflineSaleConflictDraft[] {
+    const conflicts: OfflineSaleConflictDraft[] = [];
+
+    for (const level of stockLevels) {
+      if (level.quantityInStock < 0) {
+        conflicts.push({
+          conflictType: 'negative_stock',
+          productId: level.productId,
+          expectedValue: null,
+          actualValue: level.quantityInStock,
+          details: `${level.name} is at ${level.quantityInStock} units after the offline sale`
+        });
+      }
+    }
+
+    if (Math.abs(this.round(expectedTotal - branchTotal)) >= 0.01) {
+      conflicts.push({
+        conflictType: 'price_mismatch',
+        expectedValue: expectedTotal,
+        actualValue: branchTotal,
+        details: `Till charged ${expectedTotal.toFixed(2)} from cached prices, branch prices give ${branchTotal.toFixed(2)}`
+      });
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Conflicts waiting for (or already given) a manager's review, newest first
+   */
+  static async listConflicts(status: 'open' | 'resolved' | 'all' = 'open', limit = 100): Promise<OfflineSaleConflict[]> {
+    const result = await DatabaseManager.query(
+      `SELECT c.*, p.name AS product_name
+       FROM offline_sale_conflicts c
+       LEFT JOIN products p ON c.product_id = p.id
+       WHERE ($1 = 'all' OR c.status = $1)
+       ORDER BY c.created_at DESC
+       LIMIT $2`,
+      [status, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Mark a conflict as handled by a manager
+   */
+  static async resolveConflict(conflictId: string, employeeId: string, notes?: string): Promise<OfflineSaleConflict> {
+    const result = await DatabaseManager.query(
+      `UPDATE offline_sale_conflicts
+       SET status = 'resolved', resolved_by = $2, resolved_at = NOW(), resolution_notes = $3
+       WHERE id = $1 AND status = 'open'
+       RETURNING *`,
+      [conflictId, employeeId, notes]
+    );
+
+    if (result.rows.length === 0) {
+      throw createError('Conflict not found or already resolved', 404);
+    }
+
+    return result.rows[0];
+  }
+
+  private static async findReplayedSale(client: PoolClient, transactionId: string): Promise<OfflineSaleResult | null> {
+    const transactionResult = await client.query(
+      'SELECT id, status, total_amount FROM transactions WHERE id = $1',
+      [transactionId]
+    );
+    const transaction = transactionResult.rows[0];
+    if (!transaction) {
+      return null;
+    }
+
+    const conflictsResult = await client.query(
+      'SELECT * FROM offline_sale_conflicts WHERE transaction_id = $1 ORDER BY created_at',
+      [transactionId]
+    );
+
+    return {
+      transactionId,
+      status: transaction.status,
+      total: parseFloat(transaction.total_amount),
+      replayed: true,
+      conflicts: conflictsResult.rows
+    };
+  }
+
+  private static round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
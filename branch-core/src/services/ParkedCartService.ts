@@ -0,0 +1,383 @@
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import { ParkedCart, ParkedCartItem, ParkedCartSettings, ParkedCartStatus, ResumedCartItem } from '../types';
+
+type Queryable = Pick<PoolClient, 'query'> | typeof DatabaseManager;
+
+export interface ParkCartInput {
+  terminalId: string;
+  employeeId: string;
+  customerId?: string;
+  note?: string;
+  items: Array<{ productId: string; quantity: number }>;
+}
+
+export interface ParkedCartFilters {
+  status?: ParkedCartStatus | 'all';
+  terminalId?: string;
+  limit?: number;
+}
+
+export interface ResumeCartInput {
+  terminalId: string;
+  employeeId: string;
+}
+
+export interface CleanupResult {
+  expiredCarts: number;
+  releasedTransactions: number;
+}
+
+const DEFAULT_TTL_MINUTES = '240';
+const DEFAULT_PENDING_TIMEOUT_MINUTES = '30';
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Parked Cart Service
+ *
+ * A cashier parks a cart when the customer has to step away (forgot their wallet, went
+ * back for one more item) and serves the next customer. The cart is kept on the branch
+ * server, so it can be resumed at any till until it expires; parking does not reserve
+ * stock and the resumed cart is repriced like any new one.
+ *
+ * The same cleanup run releases sales that were created but never paid: a pending
+ * transaction has already taken its stock, so abandoned ones are voided and the stock
+ * is put back.
+ */
+export class ParkedCartService {
+  private static timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Expiry settings from branch_network_config, falling back to the environment
+   */
+  static async getSettings(db: Queryable = DatabaseManager): Promise<ParkedCartSettings> {
+    const result = await db.query(
+      `SELECT config_key, config_value FROM branch_network_config
+       WHERE config_key IN ('parked_cart_ttl_minutes', 'pending_transaction_timeout_minutes')`
+    );
+
+    const config = new Map<string, string>(
+      result.rows.map((row: any) => [row.config_key, row.config_value])
+    );
+
+    const ttlMinutes = parseInt(config.get('parked_cart_ttl_minutes') ?? process.env.PARKED_CART_TTL_MINUTES ?? DEFAULT_TTL_MINUTES);
+    const pendingTimeoutMinutes = parseInt(
+      config.get('pending_transaction_timeout_minutes') ?? process.env.PENDING_TRANSACTION_TIMEOUT_MINUTES ?? DEFAULT_PENDING_TIMEOUT_MINUTES
+    );
+
+    return {
+      ttlMinutes: ttlMinutes > 0 ? ttlMinutes : parseInt(DEFAULT_TTL_MINUTES),
+      pendingTimeoutMinutes: pendingTimeoutMinutes > 0 ? pendingTimeoutMinutes : parseInt(DEFAULT_PENDING_TIMEOUT_MINUTES)
+    };
+  }
+
+  /**
+   * Put a cart on hold; names and shelf prices are stored so the list reads without lookups
+   */
+  static async parkCart(input: ParkCartInput): Promise<ParkedCart> {
+    return DatabaseManager.transaction(async (client: PoolClient) => {
+      const productIds = [...new Set(input.items.map(item => item.productId))];
+      const productResult = await client.query(
+        'SELECT id, name, price FROM products WHERE id = ANY($1::uuid[])',
+        [productIds]
+      );
+      const products = new Map<string, any>(productResult.rows.map((row: any) => [row.id, row]));
+
+      const items: ParkedCartItem[] = input.items.map(item => {
+        const product = products.get(item.productId);
+        if (!product) {
+          throw createError(`Product ${item.productId} not found`, 404);
+        }
+
+        return {
+          productId: item.productId,
+          name: product.name,
+          quantity: item.quantity,
+          unitPrice: parseFloat(product.price)
+        };
+      });
+
+      const total = round2(items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0));
+      const { ttlMinutes } = await this.getSettings(client);
+
+      const result = await client.query(
+        `INSERT INTO parked_carts
+         (park_number, terminal_id, employee_id, customer_id, note, items, item_count, total_amount, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW() + make_interval(mins => $9))
+         RETURNING *`,
+        [
+          this.generateNumber(), input.terminalId, input.employeeId, input.customerId ?? null,
+          input.note?.trim() || null, JSON.stringify(items), items.length, total, ttlMinutes
+        ]
+      );
+
+      return this.formatCart(result.rows[0]);
+    });
+  }
+
+  /**
+   * Parked carts of the branch, newest first. Tills ask for the ones still parked;
+   * supervisors can look at resumed, cancelled and expired carts as well.
+   */
+  static async listCarts(filters: ParkedCartFilters = {}): Promise<ParkedCart[]> {
+    await this.expireCarts();
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    const status = filters.status ?? 'parked';
+    if (status !== 'all') {
+      params.push(status);
+      conditions.push(`pc.status = $${params.length}`);
+    }
+    if (filters.terminalId) {
+      params.push(filters.terminalId);
+      conditions.push(`pc.terminal_id = $${params.length}`);
+    }
+    params.push(filters.limit ?? 100);
+
+    const result = await DatabaseManager.query(
+      `SELECT pc.*, e.name as employee_name,
+              c.name as customer_name, c.loyalty_card_number as customer_card_number, c.phone as customer_phone
+       FROM parked_carts pc
+       LEFT JOIN employees e ON pc.employee_id = e.employee_id
+       LEFT JOIN customers c ON pc.customer_id = c.id
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY pc.created_at DESC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.formatCart(row));
+  }
+
+  /**
+   * Recall a parked cart at a till. The cart can only be resumed once; its lines come back
+   * with the current price and stock so the till can flag what can no longer be sold.
+   */
+  static async resumeCart(id: string, input: ResumeCartInput): Promise<{ cart: ParkedCart; items: ResumedCartItem[] }> {
+    return DatabaseManager.transaction(async (client: PoolClient) => {
+      const cartResult = await client.query('SELECT * FROM parked_carts WHERE id = $1 FOR UPDATE', [id]);
+      const row = cartResult.rows[0];
+
+      if (!row) {
+        throw createError('Parked cart not found', 404);
+      }
+      if (row.status !== 'parked') {
+        throw createError(`Parked cart ${row.park_number} is already ${row.status}`, 409);
+      }
+      if (new Date(row.expires_at) <= new Date()) {
+        throw createError(`Parked cart ${row.park_number} has expired`, 410);
+      }
+
+      const updated = await client.query(
+        `UPDATE parked_carts
+         SET status = 'resumed', resumed_at = NOW(), resumed_by = $1, resumed_terminal_id = $2
+         WHERE id = $3
+         RETURNING *`,
+        [input.employeeId, input.terminalId, id]
+      );
+
+      // The customer comes back with card and phone so the till can look up the loyalty balance
+      let customer: any = {};
+      if (row.customer_id) {
+        const customerResult = await client.query(
+          `SELECT name as customer_name, loyalty_card_number as customer_card_number, phone as customer_phone
+           FROM customers WHERE id = $1`,
+          [row.customer_id]
+        );
+        customer = customerResult.rows[0] ?? {};
+      }
+      const cart = this.formatCart({ ...updated.rows[0], ...customer });
+
+      const productResult = await client.query(
+        'SELECT id, name, price, quantity_in_stock, unit_of_measure, is_active FROM products WHERE id = ANY($1::uuid[])',
+        [cart.items.map(item => item.productId)]
+      );
+      const products = new Map<string, any>(productResult.rows.map((product: any) => [product.id, product]));
+
+      const items: ResumedCartItem[] = cart.items.map(item => {
+        const product = products.get(item.productId);
+        const quantityInStock = product ? parseFloat(product.quantity_in_stock) : 0;
+
+        return {
+          ...item,
+          name: product?.name ?? item.name,
+          unitPrice: product ? parseFloat(product.price) : item.unitPrice,
+          quantityInStock,
+          unitOfMeasure: product?.unit_of_measure,
+          available: !!product?.is_active && quantityInStock > 0
+        };
+      });
+
+      return { cart, items };
+    });
+  }
+
+  /**
+   * Throw a parked cart away; the customer is not coming back
+   */
+  static async cancelCart(id: string, employeeId: string): Promise<ParkedCart> {
+    const result = await DatabaseManager.query(
+      `UPDATE parked_carts
+       SET status = 'cancelled', cancelled_at = NOW(), cancelled_by = $1
+       WHERE id = $2 AND status = 'parked'
+       RETURNING *`,
+      [employeeId, id]
+    );
+
+    if (!result.rows[0]) {
+      const existing = await DatabaseManager.query('SELECT park_number, status FROM parked_carts WHERE id = $1', [id]);
+      if (!existing.rows[0]) {
+        throw createError('Parked cart not found', 404);
+      }
+      throw createError(`Parked cart ${existing.rows[0].park_number} is already ${existing.rows[0].status}`, 409);
+    }
+
+    return this.formatCart(result.rows[0]);
+  }
+
+  static async expireCarts(db: Queryable = DatabaseManager): Promise<number> {
+    const result = await db.query(
+      `UPDATE parked_carts SET status = 'expired'
+       WHERE status = 'parked' AND expires_at <= NOW()
+       RETURNING id`
+    );
+
+    return result.rows.length;
+  }
+
+  /**
+   * Void sales left pending past the timeout and put their stock back. Sales with a wallet
+   * payment that is still in flight or went through are left for a manager to settle.
+   */
+  static async releaseAbandonedTransactions(): Promise<number> {
+    const { pendingTimeoutMinutes } = await this.getSettings();
+
+    return DatabaseManager.transaction(async (client: PoolClient) => {
+      const abandoned = await client.query(
+        `SELECT t.id FROM transactions t
+         WHERE t.status = 'pending'
+           AND t.created_at <= NOW() - make_interval(mins => $1)
+           AND NOT EXISTS (
+             SELECT 1 FROM uzum_fastpay_transactions ft
+             WHERE ft.pos_transaction_id = t.id AND ft.status NOT IN ('failed', 'cancelled', 'reversed')
+           )
+           AND NOT EXISTS (
+             SELECT 1 FROM click_pass_transactions ct
+             WHERE ct.pos_transaction_id = t.id AND ct.status NOT IN ('failed', 'cancelled', 'rejected')
+           )
+           AND NOT EXISTS (
+             SELECT 1 FROM payme_qr_receipts pr
+             WHERE pr.pos_transaction_id = t.id AND pr.status NOT IN ('cancelled', 'error', 'expired')
+           )
+         ORDER BY t.created_at
+         FOR UPDATE OF t SKIP LOCKED`,
+        [pendingTimeoutMinutes]
+      );
+
+      for (const { id } of abandoned.rows) {
+        const itemsResult = await client.query(
+          'SELECT product_id, quantity FROM transaction_items WHERE transaction_id = $1',
+          [id]
+        );
+
+        for (const item of itemsResult.rows) {
+          await client.query(
+            'UPDATE products SET quantity_in_stock = quantity_in_stock + $1 WHERE id = $2',
+            [item.quantity, item.product_id]
+          );
+
+          await client.query(
+            `INSERT INTO stock_movements
+             (product_id, change_quantity, operation, reason, transaction_id, created_at)
+             VALUES ($1, $2, 'add', 'abandoned_transaction', $3, NOW())`,
+            [item.product_id, item.quantity, id]
+          );
+        }
+
+        await client.query(
+          `UPDATE transactions
+           SET status = 'voided', voided_at = NOW(), voided_by = 'system', void_reason = $1
+           WHERE id = $2`,
+          [`Not paid within ${pendingTimeoutMinutes} minutes`, id]
+        );
+      }
+
+      return abandoned.rows.length;
+    });
+  }
+
+  static async cleanup(): Promise<CleanupResult> {
+    const expiredCarts = await this.expireCarts();
+    const releasedTransactions = await this.releaseAbandonedTransactions();
+
+    return { expiredCarts, releasedTransactions };
+  }
+
+  /**
+   * Expire parked carts and release abandoned sales every minute
+   */
+  static start(intervalMs: number = DEFAULT_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = () => {
+      this.cleanup()
+        .then(({ expiredCarts, releasedTransactions }) => {
+          if (expiredCarts > 0 || releasedTransactions > 0) {
+            console.log(`🛒 Cart cleanup: ${expiredCarts} parked carts expired, ${releasedTransactions} unpaid sales released`);
+          }
+        })
+        .catch(error => console.warn('⚠️ Cart cleanup failed:', error.message));
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private static formatCart(row: any): ParkedCart {
+    const items: ParkedCartItem[] = (typeof row.items === 'string' ? JSON.parse(row.items) : row.items) ?? [];
+
+    return {
+      id: row.id,
+      park_number: row.park_number,
+      terminal_id: row.terminal_id,
+      employee_id: row.employee_id,
+      employee_name: row.employee_name,
+      customer_id: row.customer_id,
+      customer_name: row.customer_name,
+      customer_card_number: row.customer_card_number,
+      customer_phone: row.customer_phone,
+      note: row.note,
+      items,
+      item_count: Number(row.item_count),
+      total_amount: parseFloat(row.total_amount),
+      status: row.status,
+      expires_at: row.expires_at,
+      resumed_at: row.resumed_at,
+      resumed_by: row.resumed_by,
+      resumed_terminal_id: row.resumed_terminal_id,
+      cancelled_at: row.cancelled_at,
+      cancelled_by: row.cancelled_by,
+      created_at: row.created_at
+    };
+  }
+
+  private static generateNumber(): string {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const suffix = Math.random().toString(36).substring(2, 8).toUpperCase();
+    return `PK-${date}-${suffix}`;
+  }
+}
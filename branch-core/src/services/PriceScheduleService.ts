@@ -0,0 +1,392 @@
+import dayjs from 'dayjs';
+import timezone from 'dayjs/plugin/timezone';
+import utc from 'dayjs/plugin/utc';
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import { ScheduledPrice, ScheduledPriceStatus } from '../types';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+type Queryable = Pick<PoolClient, 'query'> | typeof DatabaseManager;
+
+export interface StagePriceInput {
+  productId: string;
+  chainChangeId?: string | null;
+  price: number;
+  cost?: number | null;
+  effectiveFrom: string; // Branch local time, no offset
+  effectiveUntil?: string | null;
+}
+
+export interface ScheduledPriceFilters {
+  status?: ScheduledPriceStatus;
+  productId?: string;
+  limit?: number;
+}
+
+export interface PriceSwitchResult {
+  activated: number;
+  expired: number;
+}
+
+const LOCAL_TIME_FORMAT = 'YYYY-MM-DDTHH:mm:ss';
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+// Local times are read back as text so the pg driver does not shift them into the server's zone
+const SCHEDULED_PRICE_COLUMNS = `
+  id, chain_change_id, product_id, price, cost,
+  to_char(effective_from, 'YYYY-MM-DD"T"HH24:MI:SS') AS effective_from,
+  to_char(effective_until, 'YYYY-MM-DD"T"HH24:MI:SS') AS effective_until,
+  status, previous_price, previous_cost, applied_at, reverted_at, created_at`;
+
+/**
+ * Price Schedule Service
+ *
+ * Chain-core delivers price changes before they take effect. Each change is staged in
+ * scheduled_prices with its effective times in branch local time, and a timer switches
+ * the product over once that time has passed in the branch timezone - it only needs
+ * the local database, so prices change on time while chain-core is unreachable. When
+ * effective_until passes, the price the product had before the change is restored.
+ */
+export class PriceScheduleService {
+  private static timer: NodeJS.Timeout | null = null;
+
+  // =================================================================
+  // TIMEZONE
+  // =================================================================
+
+  /**
+   * Branch timezone from branch_network_config, falling back to the environment
+   */
+  static async getTimezone(db: Queryable = DatabaseManager): Promise<string> {
+    const result = await db.query(
+      `SELECT config_value FROM branch_network_config WHERE config_key = 'branch_timezone'`
+    );
+
+    const configured = result.rows[0]?.config_value ?? process.env.BRANCH_TIMEZONE;
+    return configured && this.isValidTimezone(configured) ? configured : 'UTC';
+  }
+
+  static async setTimezone(tz: string, db: Queryable = DatabaseManager): Promise<void> {
+    if (!this.isValidTimezone(tz)) {
+      throw createError(`Unknown timezone: ${tz}`, 400);
+    }
+
+    await db.query(
+      `INSERT INTO branch_network_config (config_key, config_value, description, category)
+       VALUES ('branch_timezone', $1, 'IANA timezone scheduled price changes are switched over in', 'general')
+       ON CONFLICT (config_key) DO UPDATE SET config_value = EXCLUDED.config_value, updated_at = NOW()`,
+      [tz]
+    );
+  }
+
+  static isValidTimezone(tz: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: tz });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Branch local time for a date string; strings with an offset are converted, others
+   * are already local
+   */
+  static toLocalTime(value: string, tz: string): string {
+    const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/i.test(value.trim());
+    const local = hasOffset ? dayjs(value).tz(tz) : dayjs(value);
+
+    if (!local.isValid()) {
+      throw createError(`Invalid date: ${value}`, 400);
+    }
+    return local.format(LOCAL_TIME_FORMAT);
+  }
+
+  static isDue(localTime: string, tz: string, now: Date = new Date()): boolean {
+    return dayjs.tz(localTime, tz).valueOf() <= now.getTime();
+  }
+
+  // =================================================================
+  // STAGING
+  // =================================================================
+
+  /**
+   * Stage a price change. Chain-core may resend a change it is not sure was delivered;
+   * a pending copy is updated, one that has already switched over is left alone.
+   */
+  static async stagePrice(input: StagePriceInput, db: Queryable = DatabaseManager): Promise<ScheduledPrice> {
+    if (input.effectiveUntil && input.effectiveUntil <= input.effectiveFrom) {
+      throw createError('effective_until must be after effective_from', 400);
+    }
+
+    const result = await db.query(
+      `INSERT INTO scheduled_prices (chain_change_id, product_id, price, cost, effective_from, effective_until)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (chain_change_id) DO UPDATE SET
+         product_id = EXCLUDED.product_id,
+         price = EXCLUDED.price,
+         cost = EXCLUDED.cost,
+         effective_from = EXCLUDED.effective_from,
+         effective_until = EXCLUDED.effective_until
+       WHERE scheduled_prices.status = 'pending'
+       RETURNING ${SCHEDULED_PRICE_COLUMNS}`,
+      [
+        input.chainChangeId || null, input.productId, input.price, input.cost ?? null,
+        input.effectiveFrom, input.effectiveUntil || null
+      ]
+    );
+
+    if (result.rows.length > 0) {
+      return this.mapScheduledPrice(result.rows[0]);
+    }
+
+    const existing = await db.query(
+      `SELECT ${SCHEDULED_PRICE_COLUMNS} FROM scheduled_prices WHERE chain_change_id = $1`,
+      [input.chainChangeId]
+    );
+    return this.mapScheduledPrice(existing.rows[0]);
+  }
+
+  /**
+   * Cancel staged changes; one that has already switched over is reverted straight away
+   */
+  static async cancel(chainChangeIds: string[]): Promise<{ cancelled: number; reverted: number }> {
+    return DatabaseManager.transaction(async (client: PoolClient) => {
+      const result = await client.query(
+        `SELECT ${SCHEDULED_PRICE_COLUMNS} FROM scheduled_prices
+         WHERE chain_change_id = ANY($1) AND status IN ('pending', 'active')
+         FOR UPDATE`,
+        [chainChangeIds]
+      );
+
+      let reverted = 0;
+      for (const row of result.rows) {
+        const change = this.mapScheduledPrice(row);
+        if (change.status === 'active') {
+          await this.revert(client, change, 'cancelled');
+          reverted++;
+        } else {
+          await client.query(
+            `UPDATE scheduled_prices SET status = 'cancelled' WHERE id = $1`,
+            [change.id]
+          );
+        }
+      }
+
+      return { cancelled: result.rows.length, reverted };
+    });
+  }
+
+  /**
+   * A price set directly while a time-limited change is active becomes the price that
+   * change restores, so the manual price is not lost when it expires
+   */
+  static async updateRestorePrice(productId: string, price: number, cost: number | null, db: Queryable = DatabaseManager): Promise<void> {
+    await db.query(
+      `UPDATE scheduled_prices
+       SET previous_price = $2, previous_cost = COALESCE($3, previous_cost)
+       WHERE product_id = $1 AND status = 'active' AND effective_until IS NOT NULL`,
+      [productId, price, cost]
+    );
+  }
+
+  static async list(filters: ScheduledPriceFilters = {}): Promise<ScheduledPrice[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (filters.productId) {
+      params.push(filters.productId);
+      conditions.push(`product_id = $${params.length}`);
+    }
+    params.push(filters.limit || 100);
+
+    const result = await DatabaseManager.query(
+      `SELECT ${SCHEDULED_PRICE_COLUMNS} FROM scheduled_prices
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY effective_from DESC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.mapScheduledPrice(row));
+  }
+
+  // =================================================================
+  // SWITCH-OVER
+  // =================================================================
+
+  /**
+   * Revert changes whose effective_until has passed, then switch over the ones whose
+   * effective_from has. Expiring first lets one change end exactly when the next begins.
+   */
+  static async applyDuePrices(): Promise<PriceSwitchResult> {
+    const tz = await this.getTimezone();
+
+    return DatabaseManager.transaction(async (client: PoolClient) => {
+      const expiring = await client.query(
+        `SELECT ${SCHEDULED_PRICE_COLUMNS} FROM scheduled_prices
+         WHERE status = 'active' AND effective_until IS NOT NULL
+           AND (scheduled_prices.effective_until AT TIME ZONE $1) <= NOW()
+         ORDER BY scheduled_prices.effective_until
+         FOR UPDATE`,
+        [tz]
+      );
+
+      for (const row of expiring.rows) {
+        await this.revert(client, this.mapScheduledPrice(row), 'expired');
+      }
+
+      const due = await client.query(
+        `SELECT ${SCHEDULED_PRICE_COLUMNS},
+                (scheduled_prices.effective_until AT TIME ZONE $1) <= NOW() AS already_over
+         FROM scheduled_prices
+         WHERE status = 'pending' AND (scheduled_prices.effective_from AT TIME ZONE $1) <= NOW()
+         ORDER BY scheduled_prices.effective_from, created_at
+         FOR UPDATE`,
+        [tz]
+      );
+
+      let activated = 0;
+      for (const row of due.rows) {
+        // Delivered too late to matter - the whole window passed while the branch was down
+        if (row.already_over) {
+          await client.query(
+            `UPDATE scheduled_prices SET status = 'expired' WHERE id = $1`,
+            [row.id]
+          );
+          continue;
+        }
+
+        await this.activate(client, this.mapScheduledPrice(row));
+        activated++;
+      }
+
+      return { activated, expired: expiring.rows.length };
+    });
+  }
+
+  /**
+   * Check for due changes every minute; the first run catches up on anything that came
+   * due while the server was down
+   */
+  static start(intervalMs: number = DEFAULT_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = () => {
+      this.applyDuePrices()
+        .then(({ activated, expired }) => {
+          if (activated > 0 || expired > 0) {
+            console.log(`💲 Scheduled prices: ${activated} switched over, ${expired} reverted`);
+          }
+        })
+        .catch(error => console.warn('⚠️ Scheduled price switch-over failed:', error.message));
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private static async activate(client: PoolClient, change: ScheduledPrice): Promise<void> {
+    const productResult = await client.query(
+      'SELECT id, price, cost FROM products WHERE id = $1 FOR UPDATE',
+      [change.product_id]
+    );
+    const product = productResult.rows[0];
+
+    // A change replacing a time-limited one restores what that one would have restored
+    const activeResult = await client.query(
+      `SELECT id, effective_until, previous_price, previous_cost FROM scheduled_prices
+       WHERE product_id = $1 AND status = 'active' AND id <> $2
+       ORDER BY applied_at DESC
+       FOR UPDATE`,
+      [change.product_id, change.id]
+    );
+    const replaced = activeResult.rows.find((row: any) => row.effective_until !== null);
+
+    const previousPrice = replaced ? replaced.previous_price : product.price;
+    const previousCost = replaced ? replaced.previous_cost : product.cost;
+
+    if (activeResult.rows.length > 0) {
+      await client.query(
+        `UPDATE scheduled_prices SET status = 'superseded' WHERE id = ANY($1)`,
+        [activeResult.rows.map((row: any) => row.id)]
+      );
+    }
+
+    await client.query(
+      `UPDATE products SET price = $1, cost = COALESCE($2, cost), updated_at = NOW() WHERE id = $3`,
+      [change.price, change.cost ?? null, change.product_id]
+    );
+
+    await this.logPriceChange(client, change.product_id, product, change.price, change.cost ?? product.cost);
+
+    await client.query(
+      `UPDATE scheduled_prices
+       SET status = 'active', previous_price = $2, previous_cost = $3, applied_at = NOW()
+       WHERE id = $1`,
+      [change.id, previousPrice, previousCost]
+    );
+  }
+
+  private static async revert(client: PoolClient, change: ScheduledPrice, status: 'expired' | 'cancelled'): Promise<void> {
+    if (change.previous_price !== null && change.previous_price !== undefined) {
+      const productResult = await client.query(
+        'SELECT id, price, cost FROM products WHERE id = $1 FOR UPDATE',
+        [change.product_id]
+      );
+      const product = productResult.rows[0];
+
+      await client.query(
+        `UPDATE products SET price = $1, cost = COALESCE($2, cost), updated_at = NOW() WHERE id = $3`,
+        [change.previous_price, change.previous_cost ?? null, change.product_id]
+      );
+
+      await this.logPriceChange(client, change.product_id, product, change.previous_price, change.previous_cost ?? product.cost);
+    }
+
+    await client.query(
+      `UPDATE scheduled_prices SET status = $2, reverted_at = NOW() WHERE id = $1`,
+      [change.id, status]
+    );
+  }
+
+  private static async logPriceChange(
+    client: PoolClient,
+    productId: string,
+    before: { price: string; cost: string | null },
+    newPrice: number,
+    newCost: number | string | null
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO price_history (product_id, old_price, new_price, old_cost, new_cost, effective_date, created_at)
+       VALUES ($1, $2, $3, $4, $5, NOW(), NOW())`,
+      [productId, before.price, newPrice, before.cost, newCost]
+    );
+  }
+
+  private static mapScheduledPrice(row: any): ScheduledPrice {
+    return {
+      ...row,
+      price: parseFloat(row.price),
+      cost: row.cost !== null && row.cost !== undefined ? parseFloat(row.cost) : null,
+      previous_price: row.previous_price !== null && row.previous_price !== undefined ? parseFloat(row.previous_price) : null,
+      previous_cost: row.previous_cost !== null && row.previous_cost !== undefined ? parseFloat(row.previous_cost) : null
+    };
+  }
+}
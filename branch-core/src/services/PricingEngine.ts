@@ -0,0 +1,170 @@
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import {
+  AppliedDiscount,
+  CartLineInput,
+  PricedCart,
+  PricedCartLine,
+  Promotion
+} from '../types';
+
+type Queryable = Pick<PoolClient, 'query'> | typeof DatabaseManager;
+
+/**
+ * Pricing Engine
+ *
+ * Evaluates the promotions synced from chain-core against a cart.
+ * Promotions do not stack: each line gets the single promotion that gives the
+ * customer the largest discount.
+ */
+export class PricingEngine {
+  /**
+   * Load promotions that are active right now
+   */
+  static async getActivePromotions(db: Queryable = DatabaseManager): Promise<Promotion[]> {
+    const result = await db.query(`
+      SELECT
+        id, chain_promotion_id, name, description, promotion_type,
+        discount_value, min_quantity, buy_quantity, get_quantity,
+        product_barcode, category_key, start_date, end_date, is_active
+      FROM promotions
+      WHERE is_active = true
+        AND start_date <= NOW()
+        AND end_date >= NOW()
+    `);
+
+    return result.rows.map((row: any) => ({
+      ...row,
+      discount_value: parseFloat(row.discount_value || 0)
+    }));
+  }
+
+  /**
+   * Price a cart against the active promotions.
+   * Pass the transaction client when pricing inside DatabaseManager.transaction().
+   */
+  static async priceCart(items: CartLineInput[], db: Queryable = DatabaseManager): Promise<PricedCart> {
+    const productIds = [...new Set(items.map(item => item.productId))];
+
+    const productsResult = await db.query(`
+      SELECT p.id, p.barcode, c.key as category_key
+      FROM products p
+      LEFT JOIN categories c ON p.category_id = c.id
+      WHERE p.id = ANY($1::uuid[])
+    `, [productIds]);
+
+    const productInfo = new Map<string, { barcode: string | null; category_key: string | null }>(
+      productsResult.rows.map((row: any) => [row.id, row])
+    );
+
+    const promotions = await this.getActivePromotions(db);
+
+    return this.evaluateCart(
+      items.map(item => ({
+        ...item,
+        barcode: productInfo.get(item.productId)?.barcode ?? null,
+        categoryKey: productInfo.get(item.productId)?.category_key ?? null
+      })),
+      promotions
+    );
+  }
+
+  /**
+   * Apply promotions to already-resolved cart lines (no database access)
+   */
+  static evaluateCart(
+    items: Array<CartLineInput & { barcode?: string | null; categoryKey?: string | null }>,
+    promotions: Promotion[]
+  ): PricedCart {
+    const lines: PricedCartLine[] = items.map(item => {
+      const grossTotal = this.round(item.lineTotal ?? item.quantity * item.unitPrice);
+
+      let best: AppliedDiscount | null = null;
+      for (const promotion of promotions) {
+        if (!this.appliesTo(promotion, item.barcode, item.categoryKey)) {
+          continue;
+        }
+
+        const amount = Math.min(grossTotal, this.calculateDiscount(promotion, item.quantity, item.unitPrice));
+        if (amount > 0 && (!best || amount > best.amount)) {
+          best = {
+            promotionId: promotion.chain_promotion_id,
+            name: promotion.name,
+            type: promotion.promotion_type,
+            amount
+          };
+        }
+      }
+
+      const discountAmount = best ? best.amount : 0;
+
+      return {
+        ...item,
+        grossTotal,
+        discountAmount,
+        total: this.round(grossTotal - discountAmount),
+        appliedPromotionIds: best ? [best.promotionId] : [],
+        discounts: best ? [best] : []
+      };
+    });
+
+    const grossSubtotal = this.round(lines.reduce((sum, line) => sum + line.grossTotal, 0));
+    const discountTotal = this.round(lines.reduce((sum, line) => sum + line.discountAmount, 0));
+
+    return {
+      lines,
+      grossSubtotal,
+      discountTotal,
+      subtotal: this.round(grossSubtotal - discountTotal)
+    };
+  }
+
+  /**
+   * A promotion targets a product barcode, a category, or (with neither set) every product
+   */
+  private static appliesTo(promotion: Promotion, barcode?: string | null, categoryKey?: string | null): boolean {
+    if (promotion.product_barcode) {
+      return promotion.product_barcode === barcode;
+    }
+    if (promotion.category_key) {
+      return promotion.category_key === categoryKey;
+    }
+    return true;
+  }
+
+  /**
+   * Discount a single promotion gives on one cart line
+   */
+  private static calculateDiscount(promotion: Promotion, quantity: number, unitPrice: number): number {
+    const minQuantity = promotion.min_quantity || 1;
+    const value = promotion.discount_value;
+
+    switch (promotion.promotion_type) {
+      case 'percentage_discount':
+      case 'bulk_discount':
+        // Bulk discounts are percentages that only kick in from min_quantity
+        if (quantity < minQuantity) return 0;
+        return this.round(quantity * unitPrice * Math.min(value, 100) / 100);
+
+      case 'fixed_discount':
+        // Fixed amount off each unit, never below zero
+        if (quantity < minQuantity) return 0;
+        return this.round(quantity * Math.min(value, unitPrice));
+
+      case 'buy_x_get_y': {
+        const buy = promotion.buy_quantity || 0;
+        const get = promotion.get_quantity || 0;
+        if (buy <= 0 || get <= 0) return 0;
+        const freeUnits = Math.floor(quantity / (buy + get)) * get;
+        return this.round(freeUnits * unitPrice);
+      }
+
+      default:
+        return 0;
+    }
+  }
+
+  private static round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,95 @@
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import { ProductBarcode } from '../types';
+
+type Queryable = Pick<PoolClient, 'query'> | typeof DatabaseManager;
+
+export interface ProductBarcodeMatch extends ProductBarcode {
+  product_id: string;
+}
+
+/**
+ * Product Barcode Service
+ *
+ * Besides its own barcode a product can carry any number of additional barcodes synced
+ * from chain-core: alternate supplier barcodes (multiplier 1) and multipacks, where one
+ * scan adds quantity_multiplier units of the product.
+ */
+export class ProductBarcodeService {
+  /**
+   * Additional barcode lookup; the product's own barcode is matched by the caller first
+   */
+  static async find(barcode: string, db: Queryable = DatabaseManager): Promise<ProductBarcodeMatch | null> {
+    const result = await db.query(
+      `SELECT pb.product_id, pb.barcode, pb.quantity_multiplier, pb.description
+       FROM product_barcodes pb
+       JOIN products p ON p.id = pb.product_id
+       WHERE pb.barcode = $1 AND p.is_active = true`,
+      [barcode]
+    );
+
+    const row = result.rows[0];
+    return row
+      ? { ...row, quantity_multiplier: parseFloat(row.quantity_multiplier) }
+      : null;
+  }
+
+  /**
+   * Clean up a synced barcode list: drop blanks, duplicates and the product's own barcode,
+   * and default the multiplier to a single unit
+   */
+  static normalize(barcodes: Array<Partial<ProductBarcode>>, ownBarcode?: string | null): ProductBarcode[] {
+    const seen = new Set<string>(ownBarcode ? [ownBarcode] : []);
+    const normalized: ProductBarcode[] = [];
+
+    for (const entry of barcodes) {
+      const barcode = entry.barcode?.trim();
+      if (!barcode || seen.has(barcode)) {
+        continue;
+      }
+      seen.add(barcode);
+
+      const multiplier = Number(entry.quantity_multiplier ?? 1);
+      normalized.push({
+        barcode,
+        quantity_multiplier: Number.isFinite(multiplier) && multiplier > 0 ? multiplier : 1,
+        description: entry.description ?? null
+      });
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Replace the additional barcodes of a product with the list chain-core sent. A barcode
+   * that moved to another product in the chain moves here as well.
+   */
+  static async replaceBarcodes(
+    productId: string,
+    barcodes: Array<Partial<ProductBarcode>>,
+    ownBarcode: string | null = null,
+    db: Queryable = DatabaseManager
+  ): Promise<ProductBarcode[]> {
+    const normalized = this.normalize(barcodes, ownBarcode);
+
+    await db.query(
+      'DELETE FROM product_barcodes WHERE product_id = $1 AND NOT (barcode = ANY($2::text[]))',
+      [productId, normalized.map(entry => entry.barcode)]
+    );
+
+    for (const entry of normalized) {
+      await db.query(
+        `INSERT INTO product_barcodes (product_id, barcode, quantity_multiplier, description)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (barcode) DO UPDATE SET
+           product_id = EXCLUDED.product_id,
+           quantity_multiplier = EXCLUDED.quantity_multiplier,
+           description = EXCLUDED.description,
+           updated_at = NOW()`,
+        [productId, entry.barcode, entry.quantity_multiplier, entry.description]
+      );
+    }
+
+    return normalized;
+  }
+}
@@ -0,0 +1,155 @@
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import { PurchaseOrder, PurchaseOrderStatus, ReceiptStockLine, ReceiveQuantity } from '../types';
+import { ChainCoreClient } from './ChainCoreClient';
+import { RedisManager } from './redis';
+
+// Statuses a purchase order can be received in
+const RECEIVABLE_STATUSES: PurchaseOrderStatus[] = ['approved', 'ordered', 'partially_received'];
+
+/**
+ * Purchase Order Service
+ *
+ * Receives supplier deliveries against purchase orders kept in chain-core. The received
+ * stock is put on the shelves here and booked as a goods received note in chain-core
+ * inside one database transaction, so local stock only changes when chain-core accepts it.
+ */
+export class PurchaseOrderService {
+  /**
+   * Purchase orders delivered to this branch
+   */
+  static async listPurchaseOrders(params: { status?: PurchaseOrderStatus }): Promise<PurchaseOrder[]> {
+    const query = new URLSearchParams();
+    if (params.status) query.set('status', params.status);
+
+    const data = await ChainCoreClient.request<{ purchase_orders: PurchaseOrder[] }>(
+      'GET',
+      `inventory/purchase-orders${query.toString() ? `?${query}` : ''}`
+    );
+    return data.purchase_orders;
+  }
+
+  /**
+   * A single purchase order with its items and earlier deliveries
+   */
+  static async getPurchaseOrder(purchaseOrderId: string): Promise<PurchaseOrder> {
+    const data = await ChainCoreClient.request<{ purchase_order: PurchaseOrder }>('GET', `inventory/purchase-orders/${purchaseOrderId}`);
+    return data.purchase_order;
+  }
+
+  /**
+   * Receive a delivery: add the received stock with its cost and book the goods received note in chain-core
+   */
+  static async receiveGoods(
+    purchaseOrderId: string,
+    employeeId: string,
+    quantities: ReceiveQuantity[] = [],
+    details: { supplierInvoiceNumber?: string; notes?: string } = {}
+  ): Promise<PurchaseOrder> {
+    const purchaseOrder = await this.getPurchaseOrder(purchaseOrderId);
+    if (!RECEIVABLE_STATUSES.includes(purchaseOrder.status)) {
+      throw createError(`Purchase order ${purchaseOrder.po_number} cannot be received (it is ${purchaseOrder.status})`, 409);
+    }
+
+    const lines = this.planReceiptLines(purchaseOrder, quantities);
+    if (lines.length === 0) {
+      throw createError('Nothing to receive', 400);
+    }
+
+    return DatabaseManager.transaction(async (client) => {
+      for (const line of lines) {
+        const productId = await this.findLocalProduct(client, line);
+        await this.postStockChange(client, productId, line, purchaseOrderId, employeeId);
+      }
+
+      const data = await ChainCoreClient.request<{ purchase_order: PurchaseOrder }>('POST', `inventory/purchase-orders/${purchaseOrderId}/receive`, {
+        employee_id: employeeId,
+        supplier_invoice_number: details.supplierInvoiceNumber,
+        notes: details.notes,
+        items: lines.map(line => ({ item_id: line.itemId, quantity: line.quantity, unit_cost: line.unitCost, notes: line.notes }))
+      });
+
+      return data.purchase_order;
+    });
+  }
+
+  /**
+   * Work out what is received on each line (no database access). Without explicit
+   * quantities everything outstanding is received; costs default to the ordered cost.
+   */
+  static planReceiptLines(purchaseOrder: PurchaseOrder, quantities: ReceiveQuantity[]): ReceiptStockLine[] {
+    const itemIds = new Set(purchaseOrder.items.map(item => item.id));
+    const unknown = quantities.find(quantity => !itemIds.has(quantity.itemId));
+    if (unknown) {
+      throw createError(`Item ${unknown.itemId} does not belong to purchase order ${purchaseOrder.po_number}`, 400);
+    }
+
+    return purchaseOrder.items
+      .map(item => {
+        const outstanding = Math.max(Number(item.quantity_ordered) - Number(item.quantity_received), 0);
+        const override = quantities.find(quantity => quantity.itemId === item.id);
+        const quantity = quantities.length > 0 ? override?.quantity ?? 0 : outstanding;
+
+        if (quantity > outstanding) {
+          throw createError(`Cannot receive more than the outstanding quantity (${outstanding}) for ${item.product_name}`, 400);
+        }
+
+        return {
+          itemId: item.id,
+          productName: item.product_name,
+          barcode: item.barcode,
+          sku: item.sku,
+          quantity,
+          unitCost: override?.unitCost ?? Number(item.unit_cost),
+          notes: override?.notes
+        };
+      })
+      .filter(line => line.quantity > 0);
+  }
+
+  // Chain-core and branch product IDs differ; barcode is the shared identifier, SKU the fallback
+  private static async findLocalProduct(client: PoolClient, line: ReceiptStockLine): Promise<string> {
+    const result = await client.query(
+      `SELECT id FROM products
+       WHERE ($1::text IS NOT NULL AND barcode = $1) OR ($2::text IS NOT NULL AND sku = $2)
+       ORDER BY (barcode = $1) DESC NULLS LAST
+       LIMIT 1
+       FOR UPDATE`,
+      [line.barcode || null, line.sku || null]
+    );
+
+    if (result.rows.length === 0) {
+      throw createError(`${line.productName} is not in this branch's catalog; sync products first`, 409);
+    }
+
+    return result.rows[0].id;
+  }
+
+  private static async postStockChange(
+    client: PoolClient,
+    productId: string,
+    line: ReceiptStockLine,
+    purchaseOrderId: string,
+    employeeId: string
+  ): Promise<void> {
+    const stockResult = await client.query(
+      `UPDATE products
+       SET quantity_in_stock = quantity_in_stock + $1, updated_at = NOW()
+       WHERE id = $2
+       RETURNING quantity_in_stock`,
+      [line.quantity, productId]
+    );
+    const newQuantity = parseFloat(stockResult.rows[0].quantity_in_stock);
+    const oldQuantity = Math.round((newQuantity - line.quantity) * 1000) / 1000;
+
+    await client.query(
+      `INSERT INTO stock_movements
+       (product_id, old_quantity, new_quantity, change_quantity, operation, reason, reference_id, unit_cost, employee_id, created_at)
+       VALUES ($1, $2, $3, $4, 'add', 'purchase', $5, $6, $7, NOW())`,
+      [productId, oldQuantity, newQuantity, line.quantity, purchaseOrderId, line.unitCost, employeeId]
+    );
+
+    await RedisManager.del(`product:${productId}`);
+  }
+}
@@ -0,0 +1,605 @@
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import {
+  Refund,
+  RefundablePayment,
+  RefundAllocation,
+  RefundCondition,
+  RefundPaymentMethod,
+  RefundPaymentStatus,
+  RefundStatus
+} from '../types';
+import { ClickPassService } from './ClickPassService';
+import { FastPayService } from './FastPayService';
+import { FiscalService } from './FiscalService';
+import { LoyaltyService } from './LoyaltyService';
+import { PaymeQRService } from './PaymeQRService';
+
+export interface RefundRequest {
+  terminalId: string;
+  employeeId: string;
+  reason: string;
+  items: Array<{
+    transactionItemId: string;
+    quantity: number;
+    condition: RefundCondition;
+  }>;
+}
+
+export interface RefundResult {
+  refund: Refund;
+  items: Array<{
+    transactionItemId: string;
+    productId: string;
+    quantity: number;
+    refundAmount: number;
+    taxAmount: number;
+    condition: RefundCondition;
+    restocked: boolean;
+  }>;
+  payments: Array<RefundAllocation & {
+    status: RefundPaymentStatus;
+    providerReference?: string;
+    error?: string;
+  }>;
+  transactionStatus: 'completed' | 'refunded';
+}
+
+interface ReversalOutcome {
+  success: boolean;
+  providerReference?: string;
+  error?: string;
+}
+
+/**
+ * Refund Service
+ *
+ * Returns selected items from a completed sale. Money goes back to the original
+ * payment methods (reversing FastPay, Click Pass and Payme where needed), returned
+ * units are restocked or written off, and a refund document is linked to the sale.
+ *
+ * A refund is recorded as pending with one pending row per payment before any money
+ * moves. The reversals run outside the sale lock and each is recorded as it finishes;
+ * stock and the sale are only touched once every payment has been returned.
+ */
+export class RefundService {
+  // Providers whose reversal API cancels the whole payment, never part of it
+  private static readonly FULL_REVERSAL_ONLY: RefundPaymentMethod[] = ['fastpay', 'payme_qr'];
+
+  // Reversed before counter methods, so a provider refusal leaves no cash handed out
+  private static readonly PROVIDER_METHODS: RefundPaymentMethod[] = ['fastpay', 'click_pass', 'payme_qr'];
+
+  private static readonly OPEN_STATUSES: RefundStatus[] = ['pending', 'partially_failed'];
+
+  /**
+   * Refund items from a completed transaction
+   */
+  static async refundTransaction(transactionId: string, request: RefundRequest): Promise<RefundResult> {
+    const refundId = await DatabaseManager.transaction(client => this.openRefund(client, transactionId, request));
+    return this.processRefund(refundId);
+  }
+
+  /**
+   * Retry the reversals of a refund that stopped part way; it completes once all succeed
+   */
+  static async retryRefund(refundId: string): Promise<RefundResult> {
+    const result = await DatabaseManager.query('SELECT status FROM refunds WHERE id = $1', [refundId]);
+    const refund = result.rows[0];
+
+    if (!refund) {
+      throw createError('Refund not found', 404);
+    }
+
+    if (!this.OPEN_STATUSES.includes(refund.status)) {
+      throw createError(`Only pending or partially failed refunds can be retried (status: ${refund.status})`, 409);
+    }
+
+    return this.processRefund(refundId);
+  }
+
+  /**
+   * Validate the request against the locked sale and record the refund, its lines and the
+   * share of each payment as pending
+   */
+  private static async openRefund(client: PoolClient, transactionId: string, request: RefundRequest): Promise<string> {
+    // Lock the sale so two refunds of the same items cannot be opened side by side
+    const transactionResult = await client.query(
+      'SELECT * FROM transactions WHERE id = $1 FOR UPDATE',
+      [transactionId]
+    );
+    const transaction = transactionResult.rows[0];
+
+    if (!transaction) {
+      throw createError('Transaction not found', 404);
+    }
+
+    if (transaction.status !== 'completed') {
+      throw createError(`Only completed transactions can be refunded (status: ${transaction.status})`, 400);
+    }
+
+    const itemsResult = await client.query(
+      'SELECT * FROM transaction_items WHERE transaction_id = $1 FOR UPDATE',
+      [transactionId]
+    );
+    const transactionItems = new Map<string, any>(itemsResult.rows.map((row: any) => [row.id, row]));
+
+    // Validate requested lines and price them from what the customer actually paid
+    const seen = new Set<string>();
+    const lines = request.items.map(requested => {
+      const item = transactionItems.get(requested.transactionItemId);
+      if (!item) {
+        throw createError(`Item ${requested.transactionItemId} does not belong to this transaction`, 400);
+      }
+      if (seen.has(item.id)) {
+        throw createError(`Item ${item.id} is listed more than once`, 400);
+      }
+      seen.add(item.id);
+
+      const remaining = this.roundQuantity(parseFloat(item.quantity) - parseFloat(item.refunded_quantity || 0));
+      if (requested.quantity > remaining) {
+        throw createError(`Only ${remaining} unit(s) of item ${item.id} can still be refunded`, 400);
+      }
+
+      // Share of the line (after discount) and of its VAT for the returned units
+      const share = requested.quantity / parseFloat(item.quantity);
+      const lineAmount = parseFloat(item.total_price) * share;
+      const taxAmount = this.round(parseFloat(item.tax_amount || 0) * share);
+
+      return {
+        transactionItemId: item.id as string,
+        productId: item.product_id as string,
+        quantity: requested.quantity,
+        unitPrice: parseFloat(item.unit_price),
+        refundAmount: this.round(transaction.prices_include_tax ? lineAmount - taxAmount : lineAmount),
+        taxAmount,
+        condition: requested.condition
+      };
+    });
+
+    // Refunded quantities only move when a refund completes, so an open one must be finished first
+    const openResult = await client.query(
+      'SELECT id FROM refunds WHERE original_transaction_id = $1 AND status = ANY($2) LIMIT 1',
+      [transactionId, this.OPEN_STATUSES]
+    );
+    if (openResult.rows[0]) {
+      throw createError(`Refund ${openResult.rows[0].id} of this transaction is still open; retry it first`, 409);
+    }
+
+    const isFullRefund = itemsResult.rows.every((item: any) => {
+      const line = lines.find(l => l.transactionItemId === item.id);
+      return this.roundQuantity(parseFloat(item.refunded_quantity || 0) + (line?.quantity || 0)) >= parseFloat(item.quantity);
+    });
+
+    const totals = await this.calculateTotals(client, transaction, lines, isFullRefund);
+
+    // Work out how much goes back to each original payment
+    const paymentsResult = await client.query(`
+      SELECT
+        p.*,
+        COALESCE(SUM(rp.amount) FILTER (WHERE rp.status = 'completed'), 0) as refunded_amount
+      FROM payments p
+      LEFT JOIN refund_payments rp ON rp.payment_id = p.id
+      WHERE p.transaction_id = $1
+      GROUP BY p.id
+      ORDER BY p.created_at
+    `, [transactionId]);
+
+    const allocations = this.allocateRefund(totals.total, paymentsResult.rows.map((row: any) => ({
+      paymentId: row.id,
+      method: row.method,
+      refundable: this.round(
+        parseFloat(row.amount) - parseFloat(row.change_given || 0) - parseFloat(row.refunded_amount)
+      ),
+      fullReversalOnly: this.FULL_REVERSAL_ONLY.includes(row.method)
+    })));
+
+    const refundId = uuidv4();
+
+    await client.query(`
+      INSERT INTO refunds
+      (id, original_transaction_id, terminal_id, employee_id, reason, subtotal, tax_amount, total_amount, status, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'pending', NOW())
+    `, [
+      refundId, transactionId, request.terminalId, request.employeeId, request.reason,
+      totals.subtotal, totals.tax, totals.total
+    ]);
+
+    // Lines are marked restocked when the refund completes and the units are back on the shelf
+    for (const line of lines) {
+      await client.query(`
+        INSERT INTO refund_items
+        (refund_id, transaction_item_id, product_id, quantity, unit_price, refund_amount, tax_amount,
+         condition, restocked, created_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, false, NOW())
+      `, [
+        refundId, line.transactionItemId, line.productId, line.quantity,
+        line.unitPrice, line.refundAmount, line.taxAmount, line.condition
+      ]);
+    }
+
+    for (const allocation of allocations) {
+      await client.query(`
+        INSERT INTO refund_payments (refund_id, payment_id, method, amount, status, created_at)
+        VALUES ($1, $2, $3, $4, 'pending', NOW())
+      `, [refundId, allocation.paymentId, allocation.method, allocation.amount]);
+    }
+
+    return refundId;
+  }
+
+  /**
+   * Reverse the payments of a refund that are not yet returned, one at a time and without
+   * holding any lock, then complete the refund or record where it stopped
+   */
+  private static async processRefund(refundId: string): Promise<RefundResult> {
+    const claimResult = await DatabaseManager.query(`
+      UPDATE refunds SET processing_until = NOW() + INTERVAL '2 minutes'
+      WHERE id = $1 AND status = ANY($2) AND (processing_until IS NULL OR processing_until < NOW())
+      RETURNING *
+    `, [refundId, this.OPEN_STATUSES]);
+    const refund = claimResult.rows[0];
+
+    if (!refund) {
+      throw createError('Refund is already being processed', 409);
+    }
+
+    let failure: { method: string; error?: string } | null = null;
+
+    try {
+      const paymentsResult = await DatabaseManager.query(`
+        SELECT rp.id, rp.method, rp.amount, p.reference
+        FROM refund_payments rp
+        JOIN payments p ON rp.payment_id = p.id
+        WHERE rp.refund_id = $1 AND rp.status <> 'completed'
+        ORDER BY rp.created_at, rp.id
+      `, [refundId]);
+
+      const pending = [...paymentsResult.rows].sort((a: any, b: any) =>
+        Number(!this.PROVIDER_METHODS.includes(a.method)) - Number(!this.PROVIDER_METHODS.includes(b.method))
+      );
+
+      // Each outcome is written as soon as it is known, so a crash never loses a reversal
+      for (const payment of pending) {
+        const outcome = await this.reversePayment(
+          refund.original_transaction_id,
+          payment,
+          parseFloat(payment.amount),
+          refund.reason,
+          refund.employee_id
+        );
+
+        await DatabaseManager.query(`
+          UPDATE refund_payments
+          SET status = $2, provider_reference = COALESCE($3, provider_reference), error_message = $4,
+              completed_at = CASE WHEN $5::boolean THEN NOW() END
+          WHERE id = $1
+        `, [
+          payment.id, outcome.success ? 'completed' : 'failed',
+          outcome.providerReference || null, outcome.error || null, outcome.success
+        ]);
+
+        if (!outcome.success) {
+          failure = { method: payment.method, error: outcome.error };
+          break;
+        }
+      }
+
+      if (!failure) {
+        await this.completeRefund(refundId);
+        LoyaltyService.syncLedgerInBackground();
+      } else {
+        // Nothing returned yet closes the refund; otherwise it stays open to be retried
+        await DatabaseManager.query(`
+          UPDATE refunds
+          SET status = CASE WHEN EXISTS (
+                SELECT 1 FROM refund_payments WHERE refund_id = $1 AND status = 'completed'
+              ) THEN 'partially_failed' ELSE 'failed' END
+          WHERE id = $1
+        `, [refundId]);
+      }
+    } finally {
+      await DatabaseManager.query('UPDATE refunds SET processing_until = NULL WHERE id = $1', [refundId]);
+    }
+
+    const result = await this.getRefundResult(refundId);
+
+    if (result.refund.status === 'failed') {
+      throw createError(`Failed to refund ${failure?.method} payment: ${failure?.error}`, 502);
+    }
+
+    return result;
+  }
+
+  /**
+   * Book the returned items once all money is back: refunded quantities, stock, the fiscal
+   * receipt and the sale status
+   */
+  private static async completeRefund(refundId: string): Promise<void> {
+    await DatabaseManager.transaction(async (client) => {
+      const refundResult = await client.query(
+        'SELECT original_transaction_id FROM refunds WHERE id = $1',
+        [refundId]
+      );
+      const transactionId = refundResult.rows[0].original_transaction_id;
+
+      // Same lock order as opening a refund: the sale, then the refund
+      await client.query('SELECT id FROM transactions WHERE id = $1 FOR UPDATE', [transactionId]);
+      const lockedResult = await client.query(
+        'SELECT status, employee_id FROM refunds WHERE id = $1 FOR UPDATE',
+        [refundId]
+      );
+      const refund = lockedResult.rows[0];
+
+      if (!this.OPEN_STATUSES.includes(refund.status)) {
+        return;
+      }
+
+      const linesResult = await client.query('SELECT * FROM refund_items WHERE refund_id = $1', [refundId]);
+
+      for (const line of linesResult.rows) {
+        const quantity = parseFloat(line.quantity);
+        const restocked = line.condition === 'resellable';
+
+        await client.query(
+          'UPDATE transaction_items SET refunded_quantity = COALESCE(refunded_quantity, 0) + $1 WHERE id = $2',
+          [quantity, line.transaction_item_id]
+        );
+
+        await this.returnToStock(
+          client,
+          transactionId,
+          { productId: line.product_id, quantity, restocked },
+          refund.employee_id
+        );
+
+        await client.query('UPDATE refund_items SET restocked = $1 WHERE id = $2', [restocked, line.id]);
+      }
+
+      // Store credit goes back as points, and points earned on the returned items are taken back
+      await LoyaltyService.reverseRefund(client, refundId, refund.employee_id);
+
+      await FiscalService.queueRefund(client, refundId);
+
+      await client.query(
+        "UPDATE refunds SET status = 'completed', completed_at = NOW() WHERE id = $1",
+        [refundId]
+      );
+
+      await client.query(`
+        UPDATE transactions SET status = 'refunded', updated_at = NOW()
+        WHERE id = $1 AND NOT EXISTS (
+          SELECT 1 FROM transaction_items
+          WHERE transaction_id = $1 AND COALESCE(refunded_quantity, 0) < quantity
+        )
+      `, [transactionId]);
+    });
+  }
+
+  /**
+   * A refund as the till sees it: the document, its lines, each payment and the sale status
+   */
+  private static async getRefundResult(refundId: string): Promise<RefundResult> {
+    const refundResult = await DatabaseManager.query(`
+      SELECT r.*, t.status as transaction_status
+      FROM refunds r
+      JOIN transactions t ON r.original_transaction_id = t.id
+      WHERE r.id = $1
+    `, [refundId]);
+    const { transaction_status: transactionStatus, ...refund } = refundResult.rows[0];
+
+    const [itemsResult, paymentsResult] = await Promise.all([
+      DatabaseManager.query('SELECT * FROM refund_items WHERE refund_id = $1 ORDER BY created_at, id', [refundId]),
+      DatabaseManager.query('SELECT * FROM refund_payments WHERE refund_id = $1 ORDER BY created_at, id', [refundId])
+    ]);
+
+    return {
+      refund,
+      items: itemsResult.rows.map((row: any) => ({
+        transactionItemId: row.transaction_item_id,
+        productId: row.product_id,
+        quantity: parseFloat(row.quantity),
+        refundAmount: parseFloat(row.refund_amount),
+        taxAmount: parseFloat(row.tax_amount || 0),
+        condition: row.condition,
+        restocked: row.restocked
+      })),
+      payments: paymentsResult.rows.map((row: any) => ({
+        paymentId: row.payment_id,
+        method: row.method,
+        amount: parseFloat(row.amount),
+        status: row.status,
+        providerReference: row.provider_reference || undefined,
+        error: row.error_message || undefined
+      })),
+      transactionStatus: transactionStatus === 'refunded' ? 'refunded' : 'completed'
+    };
+  }
+
+  /**
+   * Split a refund across the original payments.
+   * Full-reversal-only providers are used when the whole remaining payment fits in the
+   * refund; partial-capable methods cover whatever is left.
+   */
+  static allocateRefund(amount: number, payments: RefundablePayment[]): RefundAllocation[] {
+    const allocations: RefundAllocation[] = [];
+    let remaining = this.round(amount);
+
+    for (const payment of payments.filter(p => p.fullReversalOnly && p.refundable > 0)) {
+      if (payment.refundable <= remaining + 0.01) {
+        allocations.push({ paymentId: payment.paymentId, method: payment.method, amount: payment.refundable });
+        remaining = this.round(remaining - payment.refundable);
+      }
+    }
+
+    for (const payment of payments.filter(p => !p.fullReversalOnly && p.refundable > 0)) {
+      if (remaining <= 0) break;
+      const share = Math.min(payment.refundable, remaining);
+      allocations.push({ paymentId: payment.paymentId, method: payment.method, amount: share });
+      remaining = this.round(remaining - share);
+    }
+
+    if (remaining > 0.01) {
+      throw createError(
+        'Refund cannot be returned to the original payment methods. FastPay and Payme payments can only be reversed in full',
+        400
+      );
+    }
+
+    return allocations;
+  }
+
+  /**
+   * Refund subtotal, tax and total. The last refund of a sale returns exactly what is left
+   * so rounding never leaves a few tiyin behind.
+   */
+  private static async calculateTotals(
+    client: PoolClient,
+    transaction: any,
+    lines: Array<{ refundAmount: number; taxAmount: number }>,
+    isFullRefund: boolean
+  ): Promise<{ subtotal: number; tax: number; total: number }> {
+    if (isFullRefund) {
+      const previousResult = await client.query(`
+        SELECT
+          COALESCE(SUM(subtotal), 0) as subtotal,
+          COALESCE(SUM(tax_amount), 0) as tax_amount,
+          COALESCE(SUM(total_amount), 0) as total_amount
+        FROM refunds
+        WHERE original_transaction_id = $1 AND status = 'completed'
+      `, [transaction.id]);
+      const previous = previousResult.rows[0];
+
+      return {
+        subtotal: this.round(parseFloat(transaction.subtotal) - parseFloat(previous.subtotal)),
+        tax: this.round(parseFloat(transaction.tax_amount || 0) - parseFloat(previous.tax_amount)),
+        total: this.round(parseFloat(transaction.total_amount) - parseFloat(previous.total_amount))
+      };
+    }
+
+    const subtotal = this.round(lines.reduce((sum, line) => sum + line.refundAmount, 0));
+    const tax = this.round(lines.reduce((sum, line) => sum + line.taxAmount, 0));
+
+    return { subtotal, tax, total: this.round(subtotal + tax) };
+  }
+
+  /**
+   * Put returned units back on the shelf, or book them in and straight back out as a write-off
+   */
+  private static async returnToStock(
+    client: PoolClient,
+    transactionId: string,
+    line: { productId: string; quantity: number; restocked: boolean },
+    employeeId: string
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO stock_movements
+       (product_id, change_quantity, operation, reason, transaction_id, employee_id, created_at)
+       VALUES ($1, $2, 'add', 'refund', $3, $4, NOW())`,
+      [line.productId, line.quantity, transactionId, employeeId]
+    );
+
+    if (line.restocked) {
+      await client.query(
+        'UPDATE products SET quantity_in_stock = quantity_in_stock + $1 WHERE id = $2',
+        [line.quantity, line.productId]
+      );
+      return;
+    }
+
+    await client.query(
+      `INSERT INTO stock_movements
+       (product_id, change_quantity, operation, reason, transaction_id, employee_id, created_at)
+       VALUES ($1, $2, 'subtract', 'refund_write_off', $3, $4, NOW())`,
+      [line.productId, line.quantity, transactionId, employeeId]
+    );
+  }
+
+  /**
+   * Reverse a payment with its provider. Cash, card and wallet refunds are handed back
+   * at the counter, so there is nothing to call.
+   */
+  private static async reversePayment(
+    transactionId: string,
+    payment: any,
+    amount: number,
+    reason: string,
+    employeeId: string
+  ): Promise<ReversalOutcome> {
+    switch (payment.method as RefundPaymentMethod) {
+      case 'fastpay': {
+        const result = await DatabaseManager.query(
+          `SELECT order_id, status FROM uzum_fastpay_transactions
+           WHERE (pos_transaction_id = $1 OR order_id = $2) AND status IN ('success', 'reversed')
+           ORDER BY created_at LIMIT 1`,
+          [transactionId, payment.reference]
+        );
+        const orderId = result.rows[0]?.order_id;
+        if (!orderId) {
+          return { success: false, error: 'FastPay payment not found' };
+        }
+        // Reversed by an earlier attempt that stopped before recording it
+        if (result.rows[0].status === 'reversed') {
+          return { success: true, providerReference: orderId };
+        }
+        return { ...(await FastPayService.reversePayment(orderId, reason, employeeId)), providerReference: orderId };
+      }
+
+      case 'click_pass': {
+        const result = await DatabaseManager.query(
+          `SELECT order_id FROM click_pass_transactions
+           WHERE (pos_transaction_id = $1 OR order_id = $2) AND status IN ('success', 'confirmed')
+           ORDER BY created_at LIMIT 1`,
+          [transactionId, payment.reference]
+        );
+        const orderId = result.rows[0]?.order_id;
+        if (!orderId) {
+          return { success: false, error: 'Click Pass payment not found' };
+        }
+        return {
+          ...(await ClickPassService.reversePayment(orderId, reason, employeeId, amount)),
+          providerReference: orderId
+        };
+      }
+
+      case 'payme_qr': {
+        const result = await DatabaseManager.query(
+          `SELECT id, receipt_id, status FROM payme_qr_receipts
+           WHERE (pos_transaction_id = $1 OR order_id = $2)
+             AND (status = 'paid' OR (status = 'cancelled' AND paid_at IS NOT NULL))
+           ORDER BY created_at LIMIT 1`,
+          [transactionId, payment.reference]
+        );
+        const receipt = result.rows[0];
+        if (!receipt) {
+          return { success: false, error: 'Payme receipt not found' };
+        }
+        // A paid receipt that is now cancelled was reversed by an earlier attempt
+        if (receipt.status === 'cancelled') {
+          return { success: true, providerReference: receipt.receipt_id || receipt.id };
+        }
+        return {
+          ...(await PaymeQRService.cancelReceipt(receipt.id, reason, employeeId)),
+          providerReference: receipt.receipt_id || receipt.id
+        };
+      }
+
+      // Points go back to the customer when the refund completes, with the restock
+      case 'store_credit':
+        return { success: true };
+
+      default:
+        return { success: true };
+    }
+  }
+
+  private static round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  // Quantities are DECIMAL(10,3) so weighed goods can be partly returned
+  private static roundQuantity(quantity: number): number {
+    return Math.round(quantity * 1000) / 1000;
+  }
+}
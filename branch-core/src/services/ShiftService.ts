@@ -0,0 +1,476 @@
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import { CashMovement, CashMovementType, CashShift, ShiftPaymentTotal, ShiftReport } from '../types';
+import { ChainCoreClient } from './ChainCoreClient';
+
+type Queryable = Pick<PoolClient, 'query'> | typeof DatabaseManager;
+
+export interface OpenShiftInput {
+  terminalId: string;
+  employeeId: string;
+  openingFloat: number;
+  notes?: string;
+}
+
+export interface CashMovementInput {
+  type: CashMovementType;
+  amount: number;
+  reason?: string;
+  employeeId: string;
+}
+
+export interface CloseShiftInput {
+  employeeId: string;
+  countedCash: number;
+  notes?: string;
+}
+
+export interface ShiftListFilters {
+  terminalId?: string;
+  status?: CashShift['status'];
+  limit?: number;
+}
+
+export interface ShiftSyncResult {
+  sent: number;
+  synced: number;
+  failed: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Shift Service
+ *
+ * A shift is one cash drawer session on a POS terminal: it opens with a float, collects
+ * cash drops, pay-ins and pay-outs while it runs, and closes with a counted amount. The
+ * X report can be printed at any time while the shift is open; closing freezes it into
+ * the Z report, which compares the expected cash (float + cash kept from sales - cash
+ * refunds + pay-ins - pay-outs - drops) with what was counted. Closed reports are pushed
+ * to chain-core.
+ */
+export class ShiftService {
+  /**
+   * Open a shift on a terminal; a terminal can only have one open shift
+   */
+  static async openShift(input: OpenShiftInput): Promise<CashShift> {
+    return DatabaseManager.transaction(async (client: PoolClient) => {
+      // Locking the terminal row serialises shift numbering per terminal
+      const terminalResult = await client.query(
+        'SELECT terminal_id, is_active FROM pos_terminals WHERE terminal_id = $1 FOR UPDATE',
+        [input.terminalId]
+      );
+
+      if (terminalResult.rows.length === 0) {
+        throw createError(`Terminal ${input.terminalId} is not registered with this branch`, 404);
+      }
+      if (!terminalResult.rows[0].is_active) {
+        throw createError(`Terminal ${input.terminalId} is deactivated`, 400);
+      }
+
+      const openResult = await client.query(
+        `SELECT shift_number FROM cash_shifts WHERE terminal_id = $1 AND status = 'open'`,
+        [input.terminalId]
+      );
+      if (openResult.rows.length > 0) {
+        throw createError(`Terminal ${input.terminalId} already has an open shift (#${openResult.rows[0].shift_number})`, 409);
+      }
+
+      const numberResult = await client.query(
+        'SELECT COALESCE(MAX(shift_number), 0) + 1 AS next_number FROM cash_shifts WHERE terminal_id = $1',
+        [input.terminalId]
+      );
+
+      const result = await client.query(
+        `INSERT INTO cash_shifts (terminal_id, shift_number, opened_by, opening_float, notes)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [input.terminalId, numberResult.rows[0].next_number, input.employeeId, round2(input.openingFloat), input.notes || null]
+      );
+
+      return this.mapShift(result.rows[0]);
+    });
+  }
+
+  /**
+   * The open shift on a terminal, if any
+   */
+  static async getCurrentShift(terminalId: string, db: Queryable = DatabaseManager): Promise<CashShift | null> {
+    const result = await db.query(
+      `SELECT * FROM cash_shifts WHERE terminal_id = $1 AND status = 'open'`,
+      [terminalId]
+    );
+
+    return result.rows.length > 0 ? this.mapShift(result.rows[0]) : null;
+  }
+
+  static async getShift(shiftId: string): Promise<{ shift: CashShift; movements: CashMovement[] }> {
+    const [shiftResult, movementsResult] = await Promise.all([
+      DatabaseManager.query('SELECT * FROM cash_shifts WHERE id = $1', [shiftId]),
+      DatabaseManager.query('SELECT * FROM cash_movements WHERE shift_id = $1 ORDER BY created_at', [shiftId])
+    ]);
+
+    if (shiftResult.rows.length === 0) {
+      throw createError('Shift not found', 404);
+    }
+
+    return {
+      shift: this.mapShift(shiftResult.rows[0]),
+      movements: movementsResult.rows.map((row: any) => this.mapMovement(row))
+    };
+  }
+
+  static async listShifts(filters: ShiftListFilters = {}): Promise<CashShift[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.terminalId) {
+      params.push(filters.terminalId);
+      conditions.push(`terminal_id = $${params.length}`);
+    }
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    params.push(filters.limit || 50);
+
+    const result = await DatabaseManager.query(
+      `SELECT * FROM cash_shifts
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY opened_at DESC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.mapShift(row));
+  }
+
+  /**
+   * Record a cash drop, pay-in or pay-out on an open shift
+   */
+  static async addMovement(shiftId: string, input: CashMovementInput): Promise<CashMovement> {
+    return DatabaseManager.transaction(async (client: PoolClient) => {
+      const shift = await this.lockOpenShift(client, shiftId);
+
+      if (input.type !== 'pay_in') {
+        const report = await this.buildReport(client, shift, new Date(), 'X');
+        if (round2(input.amount) > report.cash.expected) {
+          throw createError(`Only ${report.cash.expected.toFixed(2)} in cash is expected in the drawer`, 400);
+        }
+      }
+
+      const result = await client.query(
+        `INSERT INTO cash_movements (shift_id, movement_type, amount, reason, employee_id)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [shiftId, input.type, round2(input.amount), input.reason || null, input.employeeId]
+      );
+
+      return this.mapMovement(result.rows[0]);
+    });
+  }
+
+  /**
+   * X report for an open shift; a closed shift returns its stored Z report
+   */
+  static async getReport(shiftId: string): Promise<ShiftReport> {
+    const result = await DatabaseManager.query('SELECT * FROM cash_shifts WHERE id = $1', [shiftId]);
+    if (result.rows.length === 0) {
+      throw createError('Shift not found', 404);
+    }
+
+    const shift = this.mapShift(result.rows[0]);
+    if (shift.status === 'closed' && shift.report) {
+      return shift.report;
+    }
+
+    return this.buildReport(DatabaseManager, shift, new Date(), 'X');
+  }
+
+  /**
+   * Close the shift with the counted cash and store its Z report
+   */
+  static async closeShift(shiftId: string, input: CloseShiftInput): Promise<{ shift: CashShift; report: ShiftReport }> {
+    const closed = await DatabaseManager.transaction(async (client: PoolClient) => {
+      const shift = await this.lockOpenShift(client, shiftId);
+      const closedAt = new Date();
+
+      const report = await this.buildReport(client, shift, closedAt, 'Z');
+      const countedCash = round2(input.countedCash);
+      const difference = round2(countedCash - report.cash.expected);
+
+      report.closed_by = input.employeeId;
+      report.closed_at = closedAt.toISOString();
+      report.cash.counted = countedCash;
+      report.cash.difference = difference;
+
+      const result = await client.query(
+        `UPDATE cash_shifts SET
+           status = 'closed', closed_by = $2, closed_at = $3,
+           expected_cash = $4, counted_cash = $5, cash_difference = $6,
+           report = $7, notes = COALESCE($8, notes)
+         WHERE id = $1
+         RETURNING *`,
+        [shiftId, input.employeeId, closedAt, report.cash.expected, countedCash, difference, JSON.stringify(report), input.notes || null]
+      );
+
+      return { shift: this.mapShift(result.rows[0]), report };
+    });
+
+    this.syncInBackground();
+    return closed;
+  }
+
+  /**
+   * Build the X/Z report for a shift from the terminal's sales, refunds and cash movements
+   * between the shift opening and `until`
+   */
+  static async buildReport(db: Queryable, shift: CashShift, until: Date, type: ShiftReport['type']): Promise<ShiftReport> {
+    const window = [shift.terminal_id, shift.opened_at, until];
+
+    // Partially refunded sales keep status 'completed'; 'refunded' ones still took the money in this shift
+    const [salesResult, voidsResult, paymentsResult, refundsResult, refundPaymentsResult, movementsResult] = await Promise.all([
+      db.query(
+        `SELECT COUNT(*) AS count,
+                COALESCE(SUM(subtotal), 0) AS subtotal,
+                COALESCE(SUM(tax_amount), 0) AS tax,
+                COALESCE(SUM(discount_amount), 0) AS discounts,
+                COALESCE(SUM(total_amount), 0) AS total
+         FROM transactions
+         WHERE terminal_id = $1 AND status IN ('completed', 'refunded')
+           AND completed_at >= $2 AND completed_at < $3`,
+        window
+      ),
+      db.query(
+        `SELECT COUNT(*) AS count, COALESCE(SUM(total_amount), 0) AS total
+         FROM transactions
+         WHERE terminal_id = $1 AND status = 'voided'
+           AND voided_at >= $2 AND voided_at < $3`,
+        window
+      ),
+      db.query(
+        `SELECT p.method,
+                COUNT(*) AS count,
+                COALESCE(SUM(p.amount), 0) AS amount,
+                COALESCE(SUM(p.change_given), 0) AS change_given
+         FROM payments p
+         JOIN transactions t ON p.transaction_id = t.id
+         WHERE t.terminal_id = $1 AND t.status IN ('completed', 'refunded')
+           AND t.completed_at >= $2 AND t.completed_at < $3
+         GROUP BY p.method
+         ORDER BY p.method`,
+        window
+      ),
+      db.query(
+        `SELECT COUNT(*) AS count, COALESCE(SUM(total_amount), 0) AS total
+         FROM refunds
+         WHERE terminal_id = $1 AND status = 'completed'
+           AND created_at >= $2 AND created_at < $3`,
+        window
+      ),
+      db.query(
+        `SELECT rp.method, COALESCE(SUM(rp.amount), 0) AS amount
+         FROM refund_payments rp
+         JOIN refunds r ON rp.refund_id = r.id
+         WHERE r.terminal_id = $1 AND rp.status = 'completed'
+           AND r.created_at >= $2 AND r.created_at < $3
+         GROUP BY rp.method`,
+        window
+      ),
+      db.query(
+        `SELECT movement_type, COALESCE(SUM(amount), 0) AS amount
+         FROM cash_movements
+         WHERE shift_id = $1
+         GROUP BY movement_type`,
+        [shift.id]
+      )
+    ]);
+
+    const refundedByMethod = new Map<string, number>(
+      refundPaymentsResult.rows.map((row: any) => [row.method, parseFloat(row.amount)])
+    );
+    const movements = new Map<string, number>(
+      movementsResult.rows.map((row: any) => [row.movement_type, parseFloat(row.amount)])
+    );
+
+    const payments: ShiftPaymentTotal[] = paymentsResult.rows.map((row: any) => {
+      const amount = parseFloat(row.amount);
+      const changeGiven = parseFloat(row.change_given);
+      return {
+        method: row.method,
+        count: parseInt(row.count),
+        amount: round2(amount),
+        change_given: round2(changeGiven),
+        net_amount: round2(amount - changeGiven),
+        refunded: round2(refundedByMethod.get(row.method) || 0)
+      };
+    });
+
+    // Refunds paid in a method that took no sales this shift still belong in the totals
+    for (const [method, refunded] of refundedByMethod) {
+      if (!payments.some(payment => payment.method === method)) {
+        payments.push({ method, count: 0, amount: 0, change_given: 0, net_amount: 0, refunded: round2(refunded) });
+      }
+    }
+
+    const cashSales = payments.find(payment => payment.method === 'cash')?.net_amount || 0;
+    const cashRefunds = round2(refundedByMethod.get('cash') || 0);
+    const payIns = round2(movements.get('pay_in') || 0);
+    const payOuts = round2(movements.get('pay_out') || 0);
+    const drops = round2(movements.get('drop') || 0);
+
+    const sales = salesResult.rows[0];
+    const voids = voidsResult.rows[0];
+    const refunds = refundsResult.rows[0];
+
+    return {
+      type,
+      shift_id: shift.id,
+      shift_number: shift.shift_number,
+      terminal_id: shift.terminal_id,
+      opened_by: shift.opened_by,
+      closed_by: shift.closed_by || null,
+      opened_at: new Date(shift.opened_at).toISOString(),
+      closed_at: shift.closed_at ? new Date(shift.closed_at).toISOString() : null,
+      generated_at: until.toISOString(),
+      sales: {
+        count: parseInt(sales.count),
+        subtotal: round2(parseFloat(sales.subtotal)),
+        tax: round2(parseFloat(sales.tax)),
+        discounts: round2(parseFloat(sales.discounts)),
+        total: round2(parseFloat(sales.total))
+      },
+      voids: { count: parseInt(voids.count), total: round2(parseFloat(voids.total)) },
+      refunds: { count: parseInt(refunds.count), total: round2(parseFloat(refunds.total)) },
+      payments,
+      cash: {
+        opening_float: shift.opening_float,
+        sales: cashSales,
+        refunds: cashRefunds,
+        pay_ins: payIns,
+        pay_outs: payOuts,
+        drops,
+        expected: round2(shift.opening_float + cashSales - cashRefunds + payIns - payOuts - drops),
+        counted: shift.counted_cash ?? null,
+        difference: shift.cash_difference ?? null
+      }
+    };
+  }
+
+  // =================================================================
+  // CHAIN-CORE SYNC
+  // =================================================================
+
+  /**
+   * Push Z reports of closed shifts that chain-core has not accepted yet
+   */
+  static async syncClosedShifts(limit = 20): Promise<ShiftSyncResult> {
+    const pending = await DatabaseManager.query(
+      `SELECT * FROM cash_shifts
+       WHERE status = 'closed' AND synced_at IS NULL
+       ORDER BY closed_at
+       LIMIT $1`,
+      [limit]
+    );
+
+    let synced = 0;
+    let failed = 0;
+
+    for (const row of pending.rows) {
+      const shift = this.mapShift(row);
+
+      try {
+        await ChainCoreClient.request('POST', 'shifts/reports', {
+          branch_shift_id: shift.id,
+          terminal_id: shift.terminal_id,
+          shift_number: shift.shift_number,
+          opened_by: shift.opened_by,
+          closed_by: shift.closed_by,
+          opened_at: new Date(shift.opened_at).toISOString(),
+          closed_at: new Date(shift.closed_at!).toISOString(),
+          opening_float: shift.opening_float,
+          expected_cash: shift.expected_cash,
+          counted_cash: shift.counted_cash,
+          cash_difference: shift.cash_difference,
+          notes: shift.notes || undefined,
+          report: shift.report
+        });
+
+        await DatabaseManager.query(
+          'UPDATE cash_shifts SET synced_at = NOW(), sync_error = NULL WHERE id = $1',
+          [shift.id]
+        );
+        synced++;
+      } catch (error: any) {
+        // Chain-core unreachable or not configured: the remaining shifts would fail the same way
+        if (error.statusCode === 502 || error.statusCode === 503) {
+          throw error;
+        }
+
+        await DatabaseManager.query('UPDATE cash_shifts SET sync_error = $2 WHERE id = $1', [shift.id, error.message]);
+        failed++;
+      }
+    }
+
+    return { sent: pending.rows.length, synced, failed };
+  }
+
+  static syncInBackground(): void {
+    this.syncClosedShifts().catch((error) => {
+      console.warn('⚠️ Shift report sync deferred:', error.message);
+    });
+  }
+
+  // =================================================================
+  // HELPERS
+  // =================================================================
+
+  private static async lockOpenShift(client: PoolClient, shiftId: string): Promise<CashShift> {
+    const result = await client.query('SELECT * FROM cash_shifts WHERE id = $1 FOR UPDATE', [shiftId]);
+
+    if (result.rows.length === 0) {
+      throw createError('Shift not found', 404);
+    }
+    if (result.rows[0].status !== 'open') {
+      throw createError('Shift is already closed', 400);
+    }
+
+    return this.mapShift(result.rows[0]);
+  }
+
+  private static mapShift(row: any): CashShift {
+    const toNumber = (value: any) => (value === null || value === undefined ? null : parseFloat(value));
+
+    return {
+      id: row.id,
+      terminal_id: row.terminal_id,
+      shift_number: parseInt(row.shift_number),
+      status: row.status,
+      opened_by: row.opened_by,
+      closed_by: row.closed_by,
+      opening_float: parseFloat(row.opening_float),
+      expected_cash: toNumber(row.expected_cash),
+      counted_cash: toNumber(row.counted_cash),
+      cash_difference: toNumber(row.cash_difference),
+      report: row.report,
+      notes: row.notes,
+      opened_at: row.opened_at,
+      closed_at: row.closed_at,
+      synced_at: row.synced_at,
+      sync_error: row.sync_error
+    };
+  }
+
+  private static mapMovement(row: any): CashMovement {
+    return {
+      id: row.id,
+      shift_id: row.shift_id,
+      movement_type: row.movement_type,
+      amount: parseFloat(row.amount),
+      reason: row.reason,
+      employee_id: row.employee_id,
+      created_at: row.created_at
+    };
+  }
+}
@@ -0,0 +1,179 @@
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import { StockTransfer, StockTransferStatus, TransferQuantity, TransferStockLine } from '../types';
+import { ChainCoreClient } from './ChainCoreClient';
+import { RedisManager } from './redis';
+
+/**
+ * Stock Transfer Service
+ *
+ * Ships and receives inter-branch transfers. The transfer itself lives in chain-core;
+ * this branch posts its own stock movements and reports the quantities back, all inside
+ * one database transaction so local stock only changes when chain-core accepts the step.
+ */
+export class StockTransferService {
+  /**
+   * Transfers sent from or to this branch
+   */
+  static async listTransfers(params: { direction?: 'incoming' | 'outgoing'; status?: StockTransferStatus }): Promise<StockTransfer[]> {
+    const query = new URLSearchParams();
+    if (params.direction) query.set('direction', params.direction);
+    if (params.status) query.set('status', params.status);
+
+    const data = await ChainCoreClient.request<{ transfers: StockTransfer[] }>(
+      'GET',
+      `inventory/transfers${query.toString() ? `?${query}` : ''}`
+    );
+    return data.transfers;
+  }
+
+  /**
+   * A single transfer with its items
+   */
+  static async getTransfer(transferId: string): Promise<StockTransfer> {
+    const data = await ChainCoreClient.request<{ transfer: StockTransfer }>('GET', `inventory/transfers/${transferId}`);
+    return data.transfer;
+  }
+
+  /**
+   * Ship an approved transfer: take the stock off the shelves and mark it shipped in chain-core
+   */
+  static async shipTransfer(transferId: string, employeeId: string, quantities: TransferQuantity[] = []): Promise<StockTransfer> {
+    const transfer = await this.getTransfer(transferId);
+    if (transfer.status !== 'approved') {
+      throw createError(`Only approved transfers can be shipped (transfer is ${transfer.status})`, 409);
+    }
+
+    const lines = this.planStockLines(transfer, 'ship', quantities);
+
+    return DatabaseManager.transaction(async (client) => {
+      for (const line of lines.filter(line => line.quantity > 0)) {
+        const product = await this.findLocalProduct(client, line);
+
+        if (parseFloat(String(product.quantity_in_stock)) < line.quantity) {
+          throw createError(
+            `Insufficient stock for ${line.productName}. Available: ${product.quantity_in_stock}, shipping: ${line.quantity}`,
+            400
+          );
+        }
+
+        await this.postStockChange(client, product.id, 'subtract', line.quantity, 'transfer_out', transferId, employeeId);
+      }
+
+      const data = await ChainCoreClient.request<{ transfer: StockTransfer }>('POST', `inventory/transfers/${transferId}/ship`, {
+        employee_id: employeeId,
+        items: lines.map(line => ({ item_id: line.itemId, quantity: line.quantity }))
+      });
+
+      return data.transfer;
+    });
+  }
+
+  /**
+   * Receive a shipped transfer: put the counted stock on the shelves and report
+   * the received quantities (and any discrepancy notes) to chain-core
+   */
+  static async receiveTransfer(transferId: string, employeeId: string, quantities: TransferQuantity[] = []): Promise<StockTransfer> {
+    const transfer = await this.getTransfer(transferId);
+    if (transfer.status !== 'shipped') {
+      throw createError(`Only shipped transfers can be received (transfer is ${transfer.status})`, 409);
+    }
+
+    const lines = this.planStockLines(transfer, 'receive', quantities);
+
+    return DatabaseManager.transaction(async (client) => {
+      for (const line of lines.filter(line => line.quantity > 0)) {
+        const product = await this.findLocalProduct(client, line);
+        await this.postStockChange(client, product.id, 'add', line.quantity, 'transfer_in', transferId, employeeId);
+      }
+
+      const data = await ChainCoreClient.request<{ transfer: StockTransfer }>('POST', `inventory/transfers/${transferId}/receive`, {
+        employee_id: employeeId,
+        items: lines.map(line => ({ item_id: line.itemId, quantity: line.quantity, notes: line.notes }))
+      });
+
+      return data.transfer;
+    });
+  }
+
+  /**
+   * Work out the quantity for every transfer line (no database access).
+   * Shipping defaults to the approved quantity and may not exceed it;
+   * receiving defaults to the shipped quantity.
+   */
+  static planStockLines(transfer: StockTransfer, stage: 'ship' | 'receive', quantities: TransferQuantity[]): TransferStockLine[] {
+    const itemIds = new Set(transfer.items.map(item => item.id));
+    const unknown = quantities.find(quantity => !itemIds.has(quantity.itemId));
+    if (unknown) {
+      throw createError(`Item ${unknown.itemId} does not belong to transfer ${transfer.transfer_number}`, 400);
+    }
+
+    return transfer.items.map(item => {
+      const expected = Number(stage === 'ship' ? item.quantity_approved : item.quantity_shipped) || 0;
+      const override = quantities.find(quantity => quantity.itemId === item.id);
+      const quantity = override ? override.quantity : expected;
+
+      if (stage === 'ship' && quantity > expected) {
+        throw createError(`Cannot ship more than the approved quantity (${expected}) for ${item.product_name}`, 400);
+      }
+
+      return {
+        itemId: item.id,
+        productName: item.product_name,
+        barcode: item.barcode,
+        sku: item.sku,
+        quantity,
+        notes: override?.notes
+      };
+    });
+  }
+
+  // Chain-core and branch product IDs differ; barcode is the shared identifier, SKU the fallback
+  private static async findLocalProduct(client: PoolClient, line: TransferStockLine): Promise<{ id: string; quantity_in_stock: number }> {
+    const result = await client.query(
+      `SELECT id, quantity_in_stock FROM products
+       WHERE ($1::text IS NOT NULL AND barcode = $1) OR ($2::text IS NOT NULL AND sku = $2)
+       ORDER BY (barcode = $1) DESC
+       LIMIT 1
+       FOR UPDATE`,
+      [line.barcode || null, line.sku || null]
+    );
+
+    if (result.rows.length === 0) {
+      throw createError(`${line.productName} is not in this branch's catalog; sync products first`, 409);
+    }
+
+    return result.rows[0];
+  }
+
+  private static async postStockChange(
+    client: PoolClient,
+    productId: string,
+    operation: 'add' | 'subtract',
+    quantity: number,
+    reason: 'transfer_in' | 'transfer_out',
+    transferId: string,
+    employeeId: string
+  ): Promise<void> {
+    const stockResult = await client.query(
+      `UPDATE products
+       SET quantity_in_stock = quantity_in_stock ${operation === 'add' ? '+' : '-'} $1, updated_at = NOW()
+       WHERE id = $2
+       RETURNING quantity_in_stock`,
+      [quantity, productId]
+    );
+    // DECIMAL stock comes back as a string; round so fractional (weighed) stock stays at 3 places
+    const newQuantity = parseFloat(stockResult.rows[0].quantity_in_stock);
+    const oldQuantity = Math.round((operation === 'add' ? newQuantity - quantity : newQuantity + quantity) * 1000) / 1000;
+
+    await client.query(
+      `INSERT INTO stock_movements
+       (product_id, old_quantity, new_quantity, change_quantity, operation, reason, reference_id, employee_id, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())`,
+      [productId, oldQuantity, newQuantity, quantity, operation, reason, transferId, employeeId]
+    );
+
+    await RedisManager.del(`product:${productId}`);
+  }
+}
@@ -0,0 +1,426 @@
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import { Stocktake, StocktakeAdjustment, StocktakeItem, StocktakeScope, StocktakeStatus } from '../types';
+import { RedisManager } from './redis';
+
+export interface CreateStocktakeInput {
+  name?: string;
+  scope: StocktakeScope;
+  categoryId?: string;
+  location?: string;
+  employeeId: string;
+  notes?: string;
+}
+
+export interface RecordCountInput {
+  barcode?: string;
+  productId?: string;
+  quantity: number;
+  employeeId: string;
+  terminalId?: string;
+}
+
+export interface ApproveStocktakeInput {
+  employeeId: string;
+  // Only post these products' variances; the rest of the stocktake is left unchanged
+  productIds?: string[];
+  // Treat products nobody counted as missing (count of zero) instead of skipping them
+  uncountedAsZero?: boolean;
+}
+
+// A product can only be in one stocktake that is still being counted or reviewed
+const OPEN_STATUSES: StocktakeStatus[] = ['counting', 'review'];
+
+/**
+ * Stocktake Service
+ *
+ * A stocktake freezes the system quantity of every product in its scope (the whole
+ * store, one category or one location) and collects counts from any number of staff
+ * scanning in parallel. Once counting is finished the variances are reviewed, and
+ * approving posts them as one batch of `stocktake` stock movements. Variances are
+ * applied on top of current stock rather than overwriting it, so sales rung up while
+ * the shelves were being counted are not lost.
+ */
+export class StocktakeService {
+  /**
+   * Start a stocktake by taking a snapshot of the system quantity of every product in scope
+   */
+  static async createStocktake(input: CreateStocktakeInput): Promise<Stocktake> {
+    if (input.scope === 'category' && !input.categoryId) {
+      throw createError('A category is required for a category stocktake', 400);
+    }
+    if (input.scope === 'location' && !input.location) {
+      throw createError('A location is required for a location stocktake', 400);
+    }
+
+    const stocktakeId = await DatabaseManager.transaction(async (client: PoolClient) => {
+      const params: any[] = [];
+      let scopeCondition = '';
+      if (input.scope === 'category') {
+        params.push(input.categoryId);
+        scopeCondition = `AND p.category_id = $${params.length}`;
+      } else if (input.scope === 'location') {
+        params.push(input.location);
+        scopeCondition = `AND p.location = $${params.length}`;
+      }
+
+      // Locking the products keeps sales from slipping between the overlap check and the snapshot
+      const productsResult = await client.query(
+        `SELECT p.id, p.quantity_in_stock FROM products p
+         WHERE p.is_active = true ${scopeCondition}
+         FOR UPDATE`,
+        params
+      );
+      if (productsResult.rows.length === 0) {
+        throw createError('No active products match this stocktake', 400);
+      }
+
+      const productIds = productsResult.rows.map((row: any) => row.id);
+      const overlapResult = await client.query(
+        `SELECT s.stocktake_number, COUNT(*) as product_count
+         FROM stocktake_items si
+         JOIN stocktakes s ON s.id = si.stocktake_id
+         WHERE s.status = ANY($1::text[]) AND si.product_id = ANY($2::uuid[])
+         GROUP BY s.stocktake_number
+         LIMIT 1`,
+        [OPEN_STATUSES, productIds]
+      );
+      if (overlapResult.rows.length > 0) {
+        const overlap = overlapResult.rows[0];
+        throw createError(`${overlap.product_count} of these products are already being counted in stocktake ${overlap.stocktake_number}`, 409);
+      }
+
+      const stocktakeResult = await client.query(
+        `INSERT INTO stocktakes (stocktake_number, name, scope_type, category_id, location, notes, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING id`,
+        [
+          this.generateNumber(),
+          input.name || null,
+          input.scope,
+          input.scope === 'category' ? input.categoryId : null,
+          input.scope === 'location' ? input.location : null,
+          input.notes || null,
+          input.employeeId
+        ]
+      );
+      const id = stocktakeResult.rows[0].id;
+
+      await client.query(
+        `INSERT INTO stocktake_items (stocktake_id, product_id, expected_quantity)
+         SELECT $1, product_id, quantity FROM UNNEST($2::uuid[], $3::numeric[]) AS snapshot(product_id, quantity)`,
+        [id, productIds, productsResult.rows.map((row: any) => this.toQuantity(row.quantity_in_stock))]
+      );
+
+      return id;
+    });
+
+    return this.getStocktake(stocktakeId);
+  }
+
+  static async listStocktakes(filters: { status?: StocktakeStatus; limit?: number } = {}): Promise<Stocktake[]> {
+    const params: any[] = [];
+    let condition = '';
+    if (filters.status) {
+      params.push(filters.status);
+      condition = `WHERE s.status = $${params.length}`;
+    }
+    params.push(filters.limit || 50);
+
+    const result = await DatabaseManager.query(
+      `${this.stocktakeSelect()}
+       ${condition}
+       ORDER BY s.created_at DESC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.mapStocktake(row));
+  }
+
+  /**
+   * A stocktake with every product in scope, its snapshot, count and variance
+   */
+  static async getStocktake(stocktakeId: string): Promise<Stocktake> {
+    const result = await DatabaseManager.query(`${this.stocktakeSelect()} WHERE s.id = $1`, [stocktakeId]);
+    if (result.rows.length === 0) {
+      throw createError('Stocktake not found', 404);
+    }
+
+    const itemsResult = await DatabaseManager.query(
+      `SELECT si.*, p.name as product_name, p.barcode, p.sku, p.location
+       FROM stocktake_items si
+       JOIN products p ON p.id = si.product_id
+       WHERE si.stocktake_id = $1
+       ORDER BY p.location NULLS LAST, p.name`,
+      [stocktakeId]
+    );
+
+    return {
+      ...this.mapStocktake(result.rows[0]),
+      items: itemsResult.rows.map((row: any) => this.mapItem(row))
+    };
+  }
+
+  /**
+   * Add a scanned or keyed count for one product; counts from several staff add up
+   */
+  static async recordCount(stocktakeId: string, input: RecordCountInput): Promise<StocktakeItem> {
+    if (!input.barcode && !input.productId) {
+      throw createError('A barcode or product ID is required', 400);
+    }
+
+    return DatabaseManager.transaction(async (client: PoolClient) => {
+      // A share lock lets several counters scan at once while keeping counting from being closed underneath them
+      const stocktake = await this.lockStocktake(client, stocktakeId, ['counting'], 'SHARE');
+
+      const productResult = await client.query(
+        input.productId
+          ? 'SELECT id, name FROM products WHERE id = $1'
+          : 'SELECT id, name FROM products WHERE barcode = $1 OR sku = $1 ORDER BY (barcode = $1) DESC NULLS LAST LIMIT 1',
+        [input.productId || input.barcode]
+      );
+      if (productResult.rows.length === 0) {
+        throw createError(`No product found for ${input.barcode || input.productId}`, 404);
+      }
+      const product = productResult.rows[0];
+
+      // The item row lock serialises parallel scans of the same product
+      const itemResult = await client.query(
+        'SELECT id, counted_quantity FROM stocktake_items WHERE stocktake_id = $1 AND product_id = $2 FOR UPDATE',
+        [stocktakeId, product.id]
+      );
+      if (itemResult.rows.length === 0) {
+        throw createError(`${product.name} is not part of stocktake ${stocktake.stocktake_number}`, 400);
+      }
+
+      const item = itemResult.rows[0];
+      const countedQuantity = this.roundQuantity(this.toQuantity(item.counted_quantity) + input.quantity);
+      if (countedQuantity < 0) {
+        throw createError(`The count for ${product.name} cannot go below zero`, 400);
+      }
+
+      await client.query(
+        'UPDATE stocktake_items SET counted_quantity = $1, last_counted_at = NOW() WHERE id = $2',
+        [countedQuantity, item.id]
+      );
+
+      await client.query(
+        `INSERT INTO stocktake_counts (stocktake_id, stocktake_item_id, quantity, employee_id, terminal_id)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [stocktakeId, item.id, input.quantity, input.employeeId, input.terminalId || null]
+      );
+
+      const result = await client.query(
+        `SELECT si.*, p.name as product_name, p.barcode, p.sku, p.location
+         FROM stocktake_items si
+         JOIN products p ON p.id = si.product_id
+         WHERE si.id = $1`,
+        [item.id]
+      );
+      return this.mapItem(result.rows[0]);
+    });
+  }
+
+  /**
+   * Close counting so the variances can be reviewed
+   */
+  static async finishCounting(stocktakeId: string): Promise<Stocktake> {
+    return this.transition(stocktakeId, ['counting'], `status = 'review', counting_finished_at = NOW()`);
+  }
+
+  /**
+   * Go back to counting, e.g. to recount products with a large variance
+   */
+  static async reopenCounting(stocktakeId: string): Promise<Stocktake> {
+    return this.transition(stocktakeId, ['review'], `status = 'counting', counting_finished_at = NULL`);
+  }
+
+  static async cancelStocktake(stocktakeId: string): Promise<Stocktake> {
+    return this.transition(stocktakeId, OPEN_STATUSES, `status = 'cancelled', cancelled_at = NOW()`);
+  }
+
+  /**
+   * Approve the reviewed variances and post them as one batch of stock movements
+   */
+  static async approveStocktake(stocktakeId: string, input: ApproveStocktakeInput): Promise<Stocktake> {
+    await DatabaseManager.transaction(async (client: PoolClient) => {
+      await this.lockStocktake(client, stocktakeId, ['review']);
+
+      const itemsResult = await client.query(
+        'SELECT id, product_id, expected_quantity, counted_quantity FROM stocktake_items WHERE stocktake_id = $1',
+        [stocktakeId]
+      );
+      const adjustments = this.planAdjustments(
+        itemsResult.rows.map((row: any) => ({
+          id: row.id,
+          product_id: row.product_id,
+          expected_quantity: this.toQuantity(row.expected_quantity),
+          counted_quantity: row.counted_quantity === null ? null : this.toQuantity(row.counted_quantity)
+        })),
+        input
+      );
+
+      for (const adjustment of adjustments) {
+        const applied = await this.postAdjustment(client, adjustment, stocktakeId, input.employeeId);
+        await client.query('UPDATE stocktake_items SET adjustment_quantity = $1 WHERE id = $2', [applied, adjustment.itemId]);
+      }
+
+      await client.query(
+        `UPDATE stocktakes SET status = 'approved', approved_by = $1, approved_at = NOW() WHERE id = $2`,
+        [input.employeeId, stocktakeId]
+      );
+    });
+
+    return this.getStocktake(stocktakeId);
+  }
+
+  /**
+   * Work out the stock change for each product (no database access). Products nobody
+   * counted are skipped unless uncountedAsZero is set, which books them as missing.
+   */
+  static planAdjustments(
+    items: Array<Pick<StocktakeItem, 'id' | 'product_id' | 'expected_quantity' | 'counted_quantity'>>,
+    options: Pick<ApproveStocktakeInput, 'productIds' | 'uncountedAsZero'> = {}
+  ): StocktakeAdjustment[] {
+    const selected = options.productIds ? new Set(options.productIds) : null;
+
+    return items
+      .filter(item => !selected || selected.has(item.product_id))
+      .filter(item => item.counted_quantity !== null || options.uncountedAsZero)
+      .map(item => ({
+        itemId: item.id,
+        productId: item.product_id,
+        variance: this.roundQuantity((item.counted_quantity ?? 0) - item.expected_quantity)
+      }))
+      .filter(adjustment => adjustment.variance !== 0);
+  }
+
+  // Applies the variance to current stock; returns the change actually made (stock never goes below zero)
+  private static async postAdjustment(
+    client: PoolClient,
+    adjustment: StocktakeAdjustment,
+    stocktakeId: string,
+    employeeId: string
+  ): Promise<number> {
+    const productResult = await client.query(
+      'SELECT quantity_in_stock FROM products WHERE id = $1 FOR UPDATE',
+      [adjustment.productId]
+    );
+    const oldQuantity = this.toQuantity(productResult.rows[0].quantity_in_stock);
+    const newQuantity = Math.max(0, this.roundQuantity(oldQuantity + adjustment.variance));
+    const change = this.roundQuantity(newQuantity - oldQuantity);
+
+    if (change === 0) {
+      return 0;
+    }
+
+    await client.query(
+      'UPDATE products SET quantity_in_stock = $1, updated_at = NOW() WHERE id = $2',
+      [newQuantity, adjustment.productId]
+    );
+
+    await client.query(
+      `INSERT INTO stock_movements
+       (product_id, old_quantity, new_quantity, change_quantity, operation, reason, reference_id, employee_id, created_at)
+       VALUES ($1, $2, $3, $4, $5, 'stocktake', $6, $7, NOW())`,
+      [adjustment.productId, oldQuantity, newQuantity, Math.abs(change), change > 0 ? 'add' : 'subtract', stocktakeId, employeeId]
+    );
+
+    await RedisManager.del(`product:${adjustment.productId}`);
+    return change;
+  }
+
+  private static async transition(stocktakeId: string, from: StocktakeStatus[], set: string): Promise<Stocktake> {
+    await DatabaseManager.transaction(async (client: PoolClient) => {
+      await this.lockStocktake(client, stocktakeId, from);
+      await client.query(`UPDATE stocktakes SET ${set} WHERE id = $1`, [stocktakeId]);
+    });
+
+    return this.getStocktake(stocktakeId);
+  }
+
+  private static async lockStocktake(
+    client: PoolClient,
+    stocktakeId: string,
+    allowed: StocktakeStatus[],
+    lock: 'UPDATE' | 'SHARE' = 'UPDATE'
+  ): Promise<any> {
+    const result = await client.query(`SELECT * FROM stocktakes WHERE id = $1 FOR ${lock}`, [stocktakeId]);
+    if (result.rows.length === 0) {
+      throw createError('Stocktake not found', 404);
+    }
+
+    const stocktake = result.rows[0];
+    if (!allowed.includes(stocktake.status)) {
+      throw createError(`Stocktake ${stocktake.stocktake_number} is ${stocktake.status}`, 409);
+    }
+    return stocktake;
+  }
+
+  private static stocktakeSelect(): string {
+    return `SELECT s.*, c.name_en as category_name,
+        (SELECT COUNT(*) FROM stocktake_items si WHERE si.stocktake_id = s.id) as item_count,
+        (SELECT COUNT(*) FROM stocktake_items si WHERE si.stocktake_id = s.id AND si.counted_quantity IS NOT NULL) as counted_count,
+        (SELECT COUNT(*) FROM stocktake_items si
+         WHERE si.stocktake_id = s.id AND si.counted_quantity IS NOT NULL AND si.counted_quantity <> si.expected_quantity) as variance_count
+      FROM stocktakes s
+      LEFT JOIN categories c ON c.id = s.category_id`;
+  }
+
+  private static mapStocktake(row: any): Stocktake {
+    return {
+      id: row.id,
+      stocktake_number: row.stocktake_number,
+      name: row.name,
+      scope_type: row.scope_type,
+      category_id: row.category_id,
+      category_name: row.category_name,
+      location: row.location,
+      status: row.status,
+      notes: row.notes,
+      created_by: row.created_by,
+      approved_by: row.approved_by,
+      snapshot_at: row.snapshot_at,
+      counting_finished_at: row.counting_finished_at,
+      approved_at: row.approved_at,
+      item_count: parseInt(row.item_count) || 0,
+      counted_count: parseInt(row.counted_count) || 0,
+      variance_count: parseInt(row.variance_count) || 0
+    };
+  }
+
+  private static mapItem(row: any): StocktakeItem {
+    const counted = row.counted_quantity === null ? null : this.toQuantity(row.counted_quantity);
+
+    return {
+      id: row.id,
+      product_id: row.product_id,
+      product_name: row.product_name,
+      barcode: row.barcode,
+      sku: row.sku,
+      location: row.location,
+      expected_quantity: this.toQuantity(row.expected_quantity),
+      counted_quantity: counted,
+      variance: counted === null ? null : this.roundQuantity(counted - this.toQuantity(row.expected_quantity)),
+      adjustment_quantity: row.adjustment_quantity === null ? null : this.toQuantity(row.adjustment_quantity),
+      last_counted_at: row.last_counted_at
+    };
+  }
+
+  // Quantities are DECIMAL(10,3): pg returns them as strings, and float sums drift past 3 places
+  private static toQuantity(value: string | number | null | undefined): number {
+    return this.roundQuantity(parseFloat(String(value ?? 0)) || 0);
+  }
+
+  private static roundQuantity(quantity: number): number {
+    return Math.round(quantity * 1000) / 1000;
+  }
+
+  private static generateNumber(): string {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const suffix = Math.random().toString(36).substring(2, 8).toUpperCase();
+    return `ST-${date}-${suffix}`;
+  }
+}
@@ -0,0 +1,140 @@
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import {
+  PricedCart,
+  TaxBreakdownEntry,
+  TaxedCart,
+  TaxedCartLine,
+  TaxSettings
+} from '../types';
+
+type Queryable = Pick<PoolClient, 'query'> | typeof DatabaseManager;
+
+/**
+ * Tax Engine
+ *
+ * Resolves the VAT rate for every cart line (the product's own rate, or the branch
+ * default when the product has none) and calculates tax for VAT-inclusive or
+ * VAT-exclusive pricing.
+ */
+export class TaxEngine {
+  /**
+   * Branch tax settings from branch_network_config, falling back to the environment
+   */
+  static async getSettings(db: Queryable = DatabaseManager): Promise<TaxSettings> {
+    const result = await db.query(
+      `SELECT config_key, config_value FROM branch_network_config
+       WHERE config_key IN ('default_tax_rate', 'prices_include_tax')`
+    );
+
+    const config = new Map<string, string>(
+      result.rows.map((row: any) => [row.config_key, row.config_value])
+    );
+
+    const defaultRate = config.get('default_tax_rate') ?? process.env.BRANCH_TAX_RATE ?? '0';
+    const pricesIncludeTax = config.get('prices_include_tax') ?? process.env.BRANCH_PRICES_INCLUDE_TAX ?? 'false';
+
+    return {
+      defaultRate: this.normalizeRate(parseFloat(defaultRate)),
+      pricesIncludeTax: pricesIncludeTax === 'true'
+    };
+  }
+
+  /**
+   * Store the branch default rate sent by chain-core (branches.tax_rate)
+   */
+  static async setDefaultRate(rate: number, db: Queryable = DatabaseManager): Promise<void> {
+    await db.query(
+      `INSERT INTO branch_network_config (config_key, config_value, description, category)
+       VALUES ('default_tax_rate', $1, 'Default VAT rate (fraction) for products without their own tax_rate', 'general')
+       ON CONFLICT (config_key) DO UPDATE SET config_value = EXCLUDED.config_value, updated_at = NOW()`,
+      [String(this.normalizeRate(rate))]
+    );
+  }
+
+  /**
+   * Add tax to a priced cart, loading product rates and branch settings
+   */
+  static async taxCart(pricedCart: PricedCart, db: Queryable = DatabaseManager): Promise<TaxedCart> {
+    const productIds = [...new Set(pricedCart.lines.map(line => line.productId))];
+
+    const [ratesResult, settings] = await Promise.all([
+      db.query('SELECT id, tax_rate FROM products WHERE id = ANY($1::uuid[])', [productIds]),
+      this.getSettings(db)
+    ]);
+
+    const productRates = new Map<string, number | null>(
+      ratesResult.rows.map((row: any) => [row.id, row.tax_rate === null ? null : parseFloat(row.tax_rate)])
+    );
+
+    return this.applyTax(pricedCart, productRates, settings);
+  }
+
+  /**
+   * Calculate per-line and per-rate tax (no database access).
+   * A product without a rate uses the branch default; a rate of 0 is zero-rated.
+   */
+  static applyTax(pricedCart: PricedCart, productRates: Map<string, number | null>, settings: TaxSettings): TaxedCart {
+    const lines: TaxedCartLine[] = pricedCart.lines.map(line => {
+      const productRate = productRates.get(line.productId);
+      const taxRate = productRate === null || productRate === undefined
+        ? settings.defaultRate
+        : this.normalizeRate(productRate);
+
+      // Inclusive prices already contain the tax, so it is carved out of the line total
+      const taxAmount = settings.pricesIncludeTax
+        ? this.round(line.total * taxRate / (1 + taxRate))
+        : this.round(line.total * taxRate);
+
+      return {
+        ...line,
+        taxRate,
+        taxAmount,
+        netAmount: settings.pricesIncludeTax ? this.round(line.total - taxAmount) : line.total
+      };
+    });
+
+    const netSubtotal = this.round(lines.reduce((sum, line) => sum + line.netAmount, 0));
+    const taxTotal = this.round(lines.reduce((sum, line) => sum + line.taxAmount, 0));
+
+    return {
+      lines,
+      grossSubtotal: pricedCart.grossSubtotal,
+      discountTotal: pricedCart.discountTotal,
+      netSubtotal,
+      taxTotal,
+      total: this.round(netSubtotal + taxTotal),
+      pricesIncludeTax: settings.pricesIncludeTax,
+      taxBreakdown: this.summarizeByRate(lines)
+    };
+  }
+
+  /**
+   * Group taxed lines by rate, lowest rate first
+   */
+  static summarizeByRate(lines: Array<{ taxRate: number; netAmount: number; taxAmount: number }>): TaxBreakdownEntry[] {
+    const byRate = new Map<number, TaxBreakdownEntry>();
+
+    for (const line of lines) {
+      const entry = byRate.get(line.taxRate) || { rate: line.taxRate, netAmount: 0, taxAmount: 0, grossAmount: 0 };
+      entry.netAmount = this.round(entry.netAmount + line.netAmount);
+      entry.taxAmount = this.round(entry.taxAmount + line.taxAmount);
+      entry.grossAmount = this.round(entry.netAmount + entry.taxAmount);
+      byRate.set(line.taxRate, entry);
+    }
+
+    return [...byRate.values()].sort((a, b) => a.rate - b.rate);
+  }
+
+  /**
+   * Rates are stored as fractions; values above 1 are treated as percentages (12 -> 0.12)
+   */
+  static normalizeRate(rate: number): number {
+    if (!Number.isFinite(rate) || rate <= 0) return 0;
+    return rate > 1 ? rate / 100 : rate;
+  }
+
+  private static round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,441 @@
+import axios from 'axios';
+import dgram from 'dgram';
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import {
+  DiscoveredTerminal,
+  TerminalDiscoveryScan,
+  TerminalDiscoverySettings,
+  TerminalDiscoverySource
+} from '../types';
+import { WSMessage } from './websocket';
+
+type Queryable = Pick<PoolClient, 'query'> | typeof DatabaseManager;
+
+export interface DiscoverOptions {
+  range?: string;
+  probe?: boolean;
+}
+
+export interface TerminalDiscoveryStatus {
+  enabled: boolean;
+  listening: boolean;
+  udpPort: number | null;
+  scan: TerminalDiscoveryScan | null;
+  terminals: DiscoveredTerminal[];
+}
+
+// What a terminal told us about itself, before it is merged into the discovered list
+interface Sighting {
+  terminal_id: string | null;
+  name: string | null;
+  ip_address: string;
+  port: number;
+  mac_address: string | null;
+  software_version: string | null;
+  hardware_info: any;
+  source: TerminalDiscoverySource;
+}
+
+const DEFAULT_UDP_PORT = 41234;
+const DEFAULT_SCAN_RANGE = '192.168.1.0/24';
+const DEFAULT_TERMINAL_PORT = 5173;
+
+// Datagram types; terminals answer a query with an announcement sent back to the sender
+const ANNOUNCE_TYPE = 'pos_terminal_announce';
+const QUERY_TYPE = 'pos_terminal_discover';
+const BROADCAST_ADDRESS = '255.255.255.255';
+
+const STALE_AFTER_MS = 5 * 60 * 1000; // Terminals announce every 30 seconds
+const PROBE_TIMEOUT_MS = 1500;
+const PROBE_CONCURRENCY = 32;
+const PROGRESS_EVERY = 16;
+const MIN_PREFIX = 22; // Probe at most 1022 hosts
+const MAC_ADDRESS = /^([0-9a-f]{2}[:-]){5}[0-9a-f]{2}$/i;
+
+const toIp = (value: number): string =>
+  [24, 16, 8, 0].map(shift => Math.floor(value / 2 ** shift) % 256).join('.');
+
+const text = (value: unknown, maxLength: number): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : null;
+
+/**
+ * Terminal Discovery Service
+ *
+ * Finds POS terminals on the branch network that are not registered yet. Terminals
+ * running the desktop app broadcast a small JSON announcement over UDP every 30 seconds
+ * and answer discovery queries; the optional subnet probe also queries every host of
+ * the scan range directly and tries the terminal HTTP port, which finds browser tills
+ * that cannot announce themselves.
+ *
+ * Discovered terminals are kept in memory and streamed to managers over the WebSocket
+ * as terminal_discovered / terminal_discovery_scan / terminal_adopted messages. Adopting
+ * one registers it in pos_terminals like any other terminal.
+ */
+export class TerminalDiscoveryService {
+  private static socket: dgram.Socket | null = null;
+  private static terminals = new Map<string, DiscoveredTerminal>();
+  private static scan: TerminalDiscoveryScan | null = null;
+  private static broadcaster: ((message: WSMessage) => void) | null = null;
+
+  /**
+   * Discovery settings from branch_network_config, falling back to the environment
+   */
+  static async getSettings(db: Queryable = DatabaseManager): Promise<TerminalDiscoverySettings> {
+    const result = await db.query(
+      `SELECT config_key, config_value FROM branch_network_config
+       WHERE config_key IN ('auto_discover_pos', 'terminal_discovery_port', 'network_scan_range', 'pos_default_port')`
+    );
+
+    const config = new Map<string, string>(
+      result.rows.map((row: any) => [row.config_key, row.config_value])
+    );
+
+    const enabled = config.get('auto_discover_pos') ?? process.env.AUTO_DISCOVER_POS ?? 'true';
+
+    return {
+      enabled: enabled.trim().toLowerCase() !== 'false',
+      udpPort: parseInt(config.get('terminal_discovery_port') ?? process.env.TERMINAL_DISCOVERY_PORT ?? '') || DEFAULT_UDP_PORT,
+      scanRange: (config.get('network_scan_range') ?? process.env.NETWORK_SCAN_RANGE ?? '').trim() || DEFAULT_SCAN_RANGE,
+      terminalPort: parseInt(config.get('pos_default_port') ?? '') || DEFAULT_TERMINAL_PORT
+    };
+  }
+
+  // =================================================================
+  // LISTENER
+  // =================================================================
+
+  /**
+   * Listen for terminal announcements. Discovery messages go out through `broadcast`,
+   * normally the WebSocket manager. A port that cannot be bound only disables announcements.
+   */
+  static async start(broadcast?: (message: WSMessage) => void): Promise<void> {
+    this.broadcaster = broadcast ?? null;
+    if (this.socket) {
+      return;
+    }
+
+    const settings = await this.getSettings();
+    if (!settings.enabled) {
+      return;
+    }
+
+    const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+    socket.on('message', (data, remote) => this.handleDatagram(data, remote.address));
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        socket.once('error', reject);
+        socket.bind(settings.udpPort, () => {
+          socket.off('error', reject);
+          resolve();
+        });
+      });
+    } catch (error: any) {
+      socket.close();
+      console.warn(`⚠️ Terminal discovery cannot listen on UDP port ${settings.udpPort}:`, error.message);
+      return;
+    }
+
+    socket.setBroadcast(true);
+    socket.on('error', error => console.warn('⚠️ Terminal discovery socket error:', error.message));
+    this.socket = socket;
+
+    // Terminals that are already running answer straight away
+    this.sendQuery(BROADCAST_ADDRESS, settings.udpPort);
+  }
+
+  static stop(): void {
+    if (this.socket) {
+      this.socket.close();
+      this.socket = null;
+    }
+    this.broadcaster = null;
+  }
+
+  // =================================================================
+  // DISCOVERY
+  // =================================================================
+
+  /**
+   * Ask terminals to announce themselves and, with `probe`, probe every host of the
+   * scan range. The probe runs in the background; only one runs at a time.
+   */
+  static async discover(options: DiscoverOptions = {}): Promise<TerminalDiscoveryScan | null> {
+    const settings = await this.getSettings();
+    const hosts = options.probe ? this.expandRange(options.range || settings.scanRange) : [];
+
+    this.sendQuery(BROADCAST_ADDRESS, settings.udpPort);
+
+    if (!options.probe) {
+      return null;
+    }
+    if (this.scan?.status === 'running') {
+      return this.scan;
+    }
+
+    const scan: TerminalDiscoveryScan = {
+      id: uuidv4(),
+      range: options.range || settings.scanRange,
+      status: 'running',
+      hosts_total: hosts.length,
+      hosts_probed: 0,
+      found: 0,
+      started_at: new Date(),
+      finished_at: null
+    };
+    this.scan = scan;
+    this.emit('terminal_discovery_scan', scan);
+
+    this.probeHosts(scan, hosts, settings).catch(error => {
+      console.warn('⚠️ Terminal subnet probe failed:', error.message);
+      this.finishScan(scan);
+    });
+
+    return scan;
+  }
+
+  /**
+   * Discovered terminals, newest first, with the pos_terminals row each one was adopted as
+   */
+  static async getStatus(): Promise<TerminalDiscoveryStatus> {
+    const settings = await this.getSettings();
+    const address = this.socket?.address();
+
+    return {
+      enabled: settings.enabled,
+      listening: !!address,
+      udpPort: address ? address.port : null,
+      scan: this.scan,
+      terminals: await this.list()
+    };
+  }
+
+  static async list(): Promise<DiscoveredTerminal[]> {
+    const cutoff = Date.now() - STALE_AFTER_MS;
+    for (const [key, terminal] of this.terminals) {
+      if (terminal.last_seen.getTime() < cutoff) {
+        this.terminals.delete(key);
+      }
+    }
+
+    const terminals = Array.from(this.terminals.values());
+    if (terminals.length > 0) {
+      const result = await DatabaseManager.query(
+        `SELECT id, terminal_id, host(ip_address) AS ip_address FROM pos_terminals
+         WHERE is_active = true AND (terminal_id = ANY($1) OR host(ip_address) = ANY($2))`,
+        [terminals.map(t => t.terminal_id).filter(Boolean), terminals.map(t => t.ip_address)]
+      );
+
+      for (const terminal of terminals) {
+        const registered = result.rows.find((row: any) =>
+          terminal.terminal_id ? row.terminal_id === terminal.terminal_id : row.ip_address === terminal.ip_address
+        );
+        terminal.registered_terminal_id = registered?.id ?? null;
+      }
+    }
+
+    return terminals.sort((a, b) => b.first_seen.getTime() - a.first_seen.getTime());
+  }
+
+  static getTerminal(key: string): DiscoveredTerminal {
+    const terminal = this.terminals.get(key);
+    if (!terminal) {
+      throw createError('Discovered terminal not found; run discovery again', 404);
+    }
+    return terminal;
+  }
+
+  /**
+   * Record that a discovered terminal was adopted into pos_terminals
+   */
+  static markRegistered(key: string, registeredTerminalId: string): void {
+    const terminal = this.terminals.get(key);
+    if (terminal) {
+      terminal.registered_terminal_id = registeredTerminalId;
+      this.emit('terminal_adopted', terminal);
+    }
+  }
+
+  // =================================================================
+  // HELPERS
+  // =================================================================
+
+  private static handleDatagram(data: Buffer, address: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(data.toString('utf8'));
+    } catch {
+      return;
+    }
+
+    // Our own queries come back to us through the broadcast address
+    const terminalId = text(message?.terminal_id, 50);
+    if (message?.type !== ANNOUNCE_TYPE || !terminalId) {
+      return;
+    }
+
+    const port = Number(message.port);
+    const macAddress = text(message.mac_address, 17);
+
+    this.found({
+      terminal_id: terminalId,
+      name: text(message.name, 255),
+      ip_address: address,
+      port: Number.isInteger(port) && port > 0 && port < 65536 ? port : DEFAULT_TERMINAL_PORT,
+      mac_address: macAddress && MAC_ADDRESS.test(macAddress) ? macAddress : null,
+      software_version: text(message.software_version, 50),
+      hardware_info: message.hardware_info && typeof message.hardware_info === 'object' ? message.hardware_info : null,
+      source: 'announce'
+    }).catch(error => console.warn('⚠️ Could not record discovered terminal:', error.message));
+  }
+
+  /**
+   * Merge a sighting into the discovered list and stream it to managers. An announcement
+   * replaces what the probe found at the same address.
+   */
+  private static async found(sighting: Sighting): Promise<void> {
+    const now = new Date();
+    let firstSeen = now;
+
+    if (sighting.terminal_id) {
+      const probed = this.terminals.get(sighting.ip_address);
+      if (probed && !probed.terminal_id) {
+        this.terminals.delete(probed.key);
+        firstSeen = probed.first_seen;
+      }
+    } else {
+      const announced = Array.from(this.terminals.values())
+        .find(t => t.terminal_id && t.ip_address === sighting.ip_address);
+      if (announced) {
+        announced.last_seen = now;
+        return;
+      }
+    }
+
+    const key = sighting.terminal_id || sighting.ip_address;
+    const existing = this.terminals.get(key);
+
+    const registered = await DatabaseManager.query(
+      sighting.terminal_id
+        ? 'SELECT id FROM pos_terminals WHERE terminal_id = $1 AND is_active = true'
+        : 'SELECT id FROM pos_terminals WHERE host(ip_address) = $1 AND is_active = true',
+      [key]
+    );
+
+    const terminal: DiscoveredTerminal = {
+      key,
+      ...sighting,
+      first_seen: existing?.first_seen ?? firstSeen,
+      last_seen: now,
+      registered_terminal_id: registered.rows[0]?.id ?? null
+    };
+    this.terminals.set(key, terminal);
+
+    this.emit('terminal_discovered', terminal);
+  }
+
+  private static async probeHosts(
+    scan: TerminalDiscoveryScan,
+    hosts: string[],
+    settings: TerminalDiscoverySettings
+  ): Promise<void> {
+    const queue = [...hosts];
+
+    const worker = async () => {
+      while (queue.length > 0) {
+        const host = queue.shift()!;
+
+        // Desktop terminals answer the query with an announcement; browser tills only have HTTP
+        this.sendQuery(host, settings.udpPort);
+        if (await this.probeHttp(host, settings.terminalPort)) {
+          scan.found++;
+          await this.found({
+            terminal_id: null,
+            name: null,
+            ip_address: host,
+            port: settings.terminalPort,
+            mac_address: null,
+            software_version: null,
+            hardware_info: null,
+            source: 'probe'
+          });
+        }
+
+        scan.hosts_probed++;
+        if (scan.hosts_probed % PROGRESS_EVERY === 0 && scan.hosts_probed < scan.hosts_total) {
+          this.emit('terminal_discovery_scan', scan);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(PROBE_CONCURRENCY, hosts.length) }, worker));
+    this.finishScan(scan);
+  }
+
+  private static async probeHttp(host: string, port: number): Promise<boolean> {
+    try {
+      await axios.get(`http://${host}:${port}/`, {
+        timeout: PROBE_TIMEOUT_MS,
+        maxRedirects: 0,
+        validateStatus: () => true
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private static finishScan(scan: TerminalDiscoveryScan): void {
+    scan.status = 'finished';
+    scan.finished_at = new Date();
+    this.emit('terminal_discovery_scan', scan);
+  }
+
+  private static sendQuery(address: string, port: number): void {
+    if (!this.socket) {
+      return;
+    }
+
+    const query = Buffer.from(JSON.stringify({ type: QUERY_TYPE }));
+    this.socket.send(query, port, address, error => {
+      if (error && address === BROADCAST_ADDRESS) {
+        console.warn('⚠️ Terminal discovery query could not be broadcast:', error.message);
+      }
+    });
+  }
+
+  /**
+   * Host addresses of an IPv4 range like 192.168.1.0/24, without the network and
+   * broadcast addresses. A single address is probed on its own.
+   */
+  private static expandRange(range: string): string[] {
+    const match = /^(\d{1,3}(?:\.\d{1,3}){3})(?:\/(\d{1,2}))?$/.exec(range.trim());
+    const octets = match ? match[1].split('.').map(Number) : [];
+    const prefix = match?.[2] === undefined ? 32 : Number(match[2]);
+
+    if (!match || octets.some(octet => octet > 255) || prefix > 32) {
+      throw createError(`Invalid IP range "${range}", expected e.g. 192.168.1.0/24`, 400);
+    }
+    if (prefix < MIN_PREFIX) {
+      throw createError(`IP range ${range} is too large to probe; use /${MIN_PREFIX} or smaller`, 400);
+    }
+
+    const size = 2 ** (32 - prefix);
+    const address = octets.reduce((value, octet) => value * 256 + octet, 0);
+    const network = address - (address % size);
+    const [first, last] = size <= 2 ? [0, size - 1] : [1, size - 2];
+
+    const hosts: string[] = [];
+    for (let offset = first; offset <= last; offset++) {
+      hosts.push(toIp(network + offset));
+    }
+    return hosts;
+  }
+
+  private static emit(type: string, payload: any): void {
+    this.broadcaster?.({ type, payload, timestamp: new Date().toISOString() });
+  }
+}
@@ -18,17 +18,27 @@ export interface Product {
   barcode?: string;
   price: number;
   cost: number;
-  quantity_in_stock: number;
+  quantity_in_stock: number; // Fractional for products sold by weight or volume
   low_stock_threshold: number;
+  unit_of_measure?: string; // pcs, kg, l, ...
   category_id?: string; // UUID foreign key to categories table
   brand?: string;
   description?: string;
   image_url?: string;
+  location?: string;
+  variant_attributes?: Record<string, string> | null; // Size, colour, ... when the product is a variant
   is_active: boolean;
   created_at: Date;
   updated_at: Date;
 }
 
+// Additional barcodes of a product (supplier barcodes, multipacks)
+export interface ProductBarcode {
+  barcode: string;
+  quantity_multiplier: number; // Units of the product one scan of this barcode adds
+  description?: string | null;
+}
+
 export interface Transaction {
   id: string;
   transaction_id: string;
@@ -39,7 +49,9 @@ export interface Transaction {
   tax_amount: number;
   discount_amount: number;
   total_amount: number;
+  prices_include_tax: boolean;
   status: 'pending' | 'completed' | 'voided' | 'refunded';
+  offline_synced_at?: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -51,6 +63,11 @@ export interface TransactionItem {
   quantity: number;
   unit_price: number;
   total_price: number;
+  discount_amount: number;
+  applied_promotion_ids: string[];
+  tax_rate: number;
+  tax_amount: number;
+  refunded_quantity: number;
   created_at: Date;
 }
 
@@ -71,6 +88,11 @@ export interface Customer {
   phone?: string;
   address?: string;
   membership_level?: string;
+  loyalty_card_number?: string | null;
+  loyalty_points?: number;
+  discount_percentage?: number;
+  is_vip?: boolean;
+  is_active?: boolean;
   created_at: Date;
   updated_at: Date;
 }
@@ -111,6 +133,604 @@ export interface SyncLog {
   cloud_sync_id?: string;
 }
 
+// Promotion types
+export type PromotionType = 'percentage_discount' | 'fixed_discount' | 'buy_x_get_y' | 'bulk_discount';
+
+export interface Promotion {
+  id: string;
+  chain_promotion_id: string;
+  name: string;
+  description?: string;
+  promotion_type: PromotionType;
+  discount_value: number;
+  min_quantity?: number | null;
+  buy_quantity?: number | null;
+  get_quantity?: number | null;
+  product_barcode?: string | null;
+  category_key?: string | null;
+  start_date: Date;
+  end_date: Date;
+  is_active: boolean;
+}
+
+// Pricing engine types
+export interface CartLineInput {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal?: number; // Price printed on price-embedded scale labels; charged instead of quantity x unit price
+}
+
+export interface AppliedDiscount {
+  promotionId: string; // chain_promotion_id
+  name: string;
+  type: PromotionType;
+  amount: number;
+}
+
+export interface PricedCartLine extends CartLineInput {
+  barcode?: string | null;
+  categoryKey?: string | null;
+  grossTotal: number;
+  discountAmount: number;
+  total: number;
+  appliedPromotionIds: string[];
+  discounts: AppliedDiscount[];
+}
+
+export interface PricedCart {
+  lines: PricedCartLine[];
+  grossSubtotal: number;
+  discountTotal: number;
+  subtotal: number;
+}
+
+// Tax engine types
+export interface TaxSettings {
+  defaultRate: number; // Branch default, as a fraction (0.12 = 12%)
+  pricesIncludeTax: boolean; // VAT-inclusive shelf prices
+}
+
+export interface TaxedCartLine extends PricedCartLine {
+  taxRate: number;
+  taxAmount: number;
+  netAmount: number; // Line total after discount, excluding tax
+}
+
+export interface TaxBreakdownEntry {
+  rate: number;
+  netAmount: number;
+  taxAmount: number;
+  grossAmount: number;
+}
+
+export interface TaxedCart {
+  lines: TaxedCartLine[];
+  grossSubtotal: number;
+  discountTotal: number;
+  netSubtotal: number;
+  taxTotal: number;
+  total: number;
+  pricesIncludeTax: boolean;
+  taxBreakdown: TaxBreakdownEntry[];
+}
+
+// Refund types
+export type RefundCondition = 'resellable' | 'damaged';
+
+export type RefundPaymentMethod =
+  'cash' | 'card' | 'digital_wallet' | 'store_credit' | 'fastpay' | 'click_pass' | 'payme_qr';
+
+// pending: reversals under way; partially_failed: some money returned, retry to finish;
+// failed: nothing returned and the refund is closed; completed: items returned to stock
+export type RefundStatus = 'pending' | 'completed' | 'partially_failed' | 'failed';
+
+export type RefundPaymentStatus = 'pending' | 'completed' | 'failed';
+
+export interface RefundablePayment {
+  paymentId: string;
+  method: RefundPaymentMethod;
+  refundable: number; // Amount paid minus change given and earlier refunds
+  fullReversalOnly: boolean; // Provider can only reverse the whole payment
+}
+
+export interface RefundAllocation {
+  paymentId: string;
+  method: RefundPaymentMethod;
+  amount: number;
+}
+
+export interface Refund {
+  id: string;
+  original_transaction_id: string;
+  terminal_id: string;
+  employee_id: string;
+  reason: string;
+  subtotal: number;
+  tax_amount: number;
+  total_amount: number;
+  status: RefundStatus;
+  completed_at?: Date | null;
+  created_at: Date;
+}
+
+// Stock transfer types (transfers are owned by chain-core; quantities arrive as DECIMAL strings)
+export type StockTransferStatus = 'requested' | 'approved' | 'rejected' | 'shipped' | 'received' | 'cancelled';
+
+export interface StockTransferItem {
+  id: string;
+  product_id: string; // chain-core product ID
+  product_name: string;
+  sku?: string;
+  barcode?: string;
+  quantity_requested: number | string;
+  quantity_approved?: number | string | null;
+  quantity_shipped?: number | string | null;
+  quantity_received?: number | string | null;
+  discrepancy_notes?: string | null;
+}
+
+export interface StockTransfer {
+  id: string;
+  transfer_number: string;
+  from_branch_id: string;
+  from_branch_name: string;
+  to_branch_id: string;
+  to_branch_name: string;
+  status: StockTransferStatus;
+  notes?: string;
+  has_discrepancy: boolean;
+  requested_at: string;
+  items: StockTransferItem[];
+}
+
+export interface TransferQuantity {
+  itemId: string;
+  quantity: number;
+  notes?: string;
+}
+
+export interface TransferStockLine {
+  itemId: string;
+  productName: string;
+  barcode?: string;
+  sku?: string;
+  quantity: number;
+  notes?: string;
+}
+
+// Purchase order types (orders to suppliers kept in chain-core, received at this branch)
+export type PurchaseOrderStatus =
+  | 'draft'
+  | 'submitted'
+  | 'approved'
+  | 'rejected'
+  | 'ordered'
+  | 'partially_received'
+  | 'received'
+  | 'cancelled';
+
+export interface PurchaseOrderItem {
+  id: string;
+  product_id: string;
+  product_name: string;
+  sku?: string;
+  barcode?: string;
+  supplier_sku?: string;
+  quantity_ordered: number | string;
+  quantity_received: number | string;
+  unit_cost: number | string;
+  notes?: string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  supplier_name: string;
+  branch_id: string;
+  status: PurchaseOrderStatus;
+  expected_date?: string;
+  total_cost: number | string;
+  notes?: string;
+  items: PurchaseOrderItem[];
+  receipts?: Array<{ id: string; grn_number: string; supplier_invoice_number?: string; received_by?: string; total_cost: number | string; received_at: string }>;
+}
+
+export interface ReceiveQuantity {
+  itemId: string;
+  quantity: number;
+  unitCost?: number;
+  notes?: string;
+}
+
+export interface ReceiptStockLine {
+  itemId: string;
+  productName: string;
+  barcode?: string;
+  sku?: string;
+  quantity: number;
+  unitCost: number;
+  notes?: string;
+}
+
+// Stocktake types (counting sessions against a snapshot of system stock)
+export type StocktakeStatus = 'counting' | 'review' | 'approved' | 'cancelled';
+export type StocktakeScope = 'full' | 'category' | 'location';
+
+export interface StocktakeItem {
+  id: string;
+  product_id: string;
+  product_name: string;
+  barcode?: string;
+  sku?: string;
+  location?: string;
+  expected_quantity: number;
+  counted_quantity: number | null;
+  variance: number | null;
+  adjustment_quantity: number | null;
+  last_counted_at?: Date | null;
+}
+
+export interface Stocktake {
+  id: string;
+  stocktake_number: string;
+  name?: string;
+  scope_type: StocktakeScope;
+  category_id?: string | null;
+  category_name?: string | null;
+  location?: string | null;
+  status: StocktakeStatus;
+  notes?: string;
+  created_by: string;
+  approved_by?: string | null;
+  snapshot_at: Date;
+  counting_finished_at?: Date | null;
+  approved_at?: Date | null;
+  item_count: number;
+  counted_count: number;
+  variance_count: number;
+  items?: StocktakeItem[];
+}
+
+export interface StocktakeAdjustment {
+  itemId: string;
+  productId: string;
+  variance: number;
+}
+
+// Offline sale types (sales made on a till while the branch server was unreachable)
+export type OfflineSaleConflictType = 'negative_stock' | 'price_mismatch';
+
+export interface OfflineSaleConflictDraft {
+  conflictType: OfflineSaleConflictType;
+  productId?: string;
+  expectedValue: number | null;
+  actualValue: number;
+  details: string;
+}
+
+export interface OfflineSaleConflict {
+  id: string;
+  transaction_id: string;
+  terminal_id: string;
+  employee_id: string;
+  conflict_type: OfflineSaleConflictType;
+  product_id?: string | null;
+  product_name?: string | null;
+  expected_value?: string | null;
+  actual_value?: string | null;
+  details?: string | null;
+  status: 'open' | 'resolved';
+  resolved_by?: string | null;
+  resolved_at?: Date | null;
+  resolution_notes?: string | null;
+  created_at: Date;
+}
+
+// Loyalty types
+export type LoyaltyRuleType = 'points_per_amount' | 'category_multiplier' | 'purchase_bonus';
+export type LoyaltyEntryType = 'earn' | 'redeem' | 'reversal' | 'adjustment';
+
+export interface LoyaltySettings {
+  enabled: boolean;
+  pointValue: number; // Money one point is worth when redeemed as store credit
+}
+
+export interface LoyaltyRule {
+  id: string;
+  name: string;
+  rule_type: LoyaltyRuleType;
+  points: number;
+  amount_step: number | null;
+  multiplier: number | null;
+  category_id: string | null;
+  category_key?: string | null;
+  min_purchase: number;
+  starts_at?: Date | string | null;
+  ends_at?: Date | string | null;
+  is_active: boolean;
+}
+
+export interface LoyaltyEarnLine {
+  productId: string;
+  categoryId?: string | null;
+  amount: number; // What the customer paid for the line
+}
+
+export interface LoyaltyEarnResult {
+  points: number;
+  appliedRuleIds: string[];
+}
+
+export interface LoyaltyLedgerEntry {
+  id: string;
+  customer_id: string;
+  transaction_id?: string | null;
+  entry_type: LoyaltyEntryType;
+  points: number;
+  balance_after: number;
+  description?: string | null;
+  employee_id?: string | null;
+  synced_at?: Date | null;
+  sync_error?: string | null;
+  created_at: Date;
+}
+
+// Scheduled price types
+export type ScheduledPriceStatus = 'pending' | 'active' | 'expired' | 'superseded' | 'cancelled';
+
+export interface ScheduledPrice {
+  id: string;
+  chain_change_id?: string | null;
+  product_id: string;
+  price: number;
+  cost?: number | null;
+  effective_from: string; // Branch local time, no offset
+  effective_until?: string | null;
+  status: ScheduledPriceStatus;
+  previous_price?: number | null;
+  previous_cost?: number | null;
+  applied_at?: Date | null;
+  reverted_at?: Date | null;
+  created_at: Date;
+}
+
+// Cash shift types
+export type CashShiftStatus = 'open' | 'closed';
+export type CashMovementType = 'drop' | 'pay_in' | 'pay_out';
+
+export interface CashShift {
+  id: string;
+  terminal_id: string;
+  shift_number: number;
+  status: CashShiftStatus;
+  opened_by: string;
+  closed_by?: string | null;
+  opening_float: number;
+  expected_cash?: number | null;
+  counted_cash?: number | null;
+  cash_difference?: number | null;
+  report?: ShiftReport | null;
+  notes?: string | null;
+  opened_at: Date;
+  closed_at?: Date | null;
+  synced_at?: Date | null;
+  sync_error?: string | null;
+}
+
+export interface CashMovement {
+  id: string;
+  shift_id: string;
+  movement_type: CashMovementType;
+  amount: number;
+  reason?: string | null;
+  employee_id: string;
+  created_at: Date;
+}
+
+export interface ShiftPaymentTotal {
+  method: string;
+  count: number;
+  amount: number; // Tendered amount
+  change_given: number;
+  net_amount: number; // amount - change_given, what the shop kept
+  refunded: number;
+}
+
+// X report (shift still open) or Z report (frozen at close)
+export interface ShiftReport {
+  type: 'X' | 'Z';
+  shift_id: string;
+  shift_number: number;
+  terminal_id: string;
+  opened_by: string;
+  closed_by?: string | null;
+  opened_at: string;
+  closed_at?: string | null;
+  generated_at: string;
+  sales: {
+    count: number;
+    subtotal: number;
+    tax: number;
+    discounts: number;
+    total: number;
+  };
+  voids: { count: number; total: number };
+  refunds: { count: number; total: number };
+  payments: ShiftPaymentTotal[];
+  cash: {
+    opening_float: number;
+    sales: number; // Cash kept from sales (tendered - change)
+    refunds: number;
+    pay_ins: number;
+    pay_outs: number;
+    drops: number;
+    expected: number;
+    counted?: number | null;
+    difference?: number | null;
+  };
+}
+
+// Parked cart types (carts put on hold at one till and recalled at any till)
+export type ParkedCartStatus = 'parked' | 'resumed' | 'cancelled' | 'expired';
+
+export interface ParkedCartItem {
+  productId: string;
+  name: string;
+  quantity: number;
+  unitPrice: number; // Shelf price when parked
+}
+
+export interface ParkedCart {
+  id: string;
+  park_number: string;
+  terminal_id: string;
+  employee_id: string;
+  employee_name?: string | null;
+  customer_id?: string | null;
+  customer_name?: string | null;
+  customer_card_number?: string | null;
+  customer_phone?: string | null;
+  note?: string | null;
+  items: ParkedCartItem[];
+  item_count: number;
+  total_amount: number;
+  status: ParkedCartStatus;
+  expires_at: Date;
+  resumed_at?: Date | null;
+  resumed_by?: string | null;
+  resumed_terminal_id?: string | null;
+  cancelled_at?: Date | null;
+  cancelled_by?: string | null;
+  created_at: Date;
+}
+
+// A resumed cart line with the product as it is now
+export interface ResumedCartItem extends ParkedCartItem {
+  available: boolean; // Still active and in stock
+  quantityInStock: number;
+  unitOfMeasure?: string;
+}
+
+export interface ParkedCartSettings {
+  ttlMinutes: number; // How long a parked cart can be recalled
+  pendingTimeoutMinutes: number; // Unpaid sales older than this are voided and their stock restored
+}
+
+// Embedded barcode types (EAN-13 labels printed by scales: prefix + item code + weight or price)
+export type EmbeddedBarcodeKind = 'weight' | 'price';
+
+export interface EmbeddedBarcodeSettings {
+  weightPrefixes: string[];
+  pricePrefixes: string[];
+  priceDecimals: number; // Decimal places of the embedded price (0 for whole sums)
+}
+
+export interface EmbeddedBarcode {
+  barcode: string;
+  kind: EmbeddedBarcodeKind;
+  prefix: string;
+  item_code: string; // 5-digit PLU the scale was programmed with
+  weight?: number; // Kilograms (embedded as grams)
+  price?: number; // Line total printed on the label
+}
+
+// Fiscal receipt types (sales, refunds and voids registered with the fiscal module / OFD)
+export type FiscalReceiptType = 'sale' | 'refund' | 'void';
+export type FiscalReceiptStatus = 'pending' | 'fiscalized' | 'failed' | 'cancelled';
+
+export interface FiscalSettings {
+  enabled: boolean; // false when no fiscal module URL is configured
+  moduleUrl: string | null;
+  token: string | null;
+}
+
+// Receipt line as sent to the fiscal module; amounts in tiyin
+export interface FiscalReceiptLine {
+  productId: string;
+  name: string;
+  barcode?: string | null;
+  ikpuCode: string | null;
+  packageCode?: string | null;
+  unit: string;
+  quantity: number;
+  price: number; // Unit price
+  discount: number;
+  amount: number; // Line total including VAT
+  vatPercent: number;
+  vat: number;
+}
+
+export interface FiscalReceiptPayload {
+  receiptId: string;
+  type: FiscalReceiptType;
+  transactionId: string;
+  refundId?: string;
+  terminalId: string;
+  cashier: string;
+  time: string;
+  items: FiscalReceiptLine[];
+  total: number;
+  vatTotal: number;
+  receivedCash: number;
+  receivedCard: number;
+}
+
+export interface FiscalReceipt {
+  id: string;
+  transaction_id: string;
+  refund_id?: string | null;
+  receipt_type: FiscalReceiptType;
+  status: FiscalReceiptStatus;
+  payload: FiscalReceiptPayload;
+  attempts: number;
+  next_attempt_at?: Date | null;
+  last_error?: string | null;
+  fiscal_module_id?: string | null;
+  receipt_seq?: string | null;
+  fiscal_sign?: string | null;
+  qr_url?: string | null;
+  fiscalized_at?: Date | null;
+  created_at: Date;
+}
+
+// POS terminal discovery (UDP announcements and the optional subnet probe)
+export type TerminalDiscoverySource = 'announce' | 'probe';
+
+export interface TerminalDiscoverySettings {
+  enabled: boolean; // auto_discover_pos; false stops listening for announcements
+  udpPort: number;
+  scanRange: string;
+  terminalPort: number;
+}
+
+export interface DiscoveredTerminal {
+  key: string; // Announced terminal ID, or the IP address of a terminal found by the probe
+  terminal_id: string | null;
+  name: string | null;
+  ip_address: string;
+  port: number;
+  mac_address: string | null;
+  software_version: string | null;
+  hardware_info: any;
+  source: TerminalDiscoverySource;
+  first_seen: Date;
+  last_seen: Date;
+  registered_terminal_id: string | null; // pos_terminals.id once adopted
+}
+
+export interface TerminalDiscoveryScan {
+  id: string;
+  range: string;
+  status: 'running' | 'finished';
+  hosts_total: number;
+  hosts_probed: number;
+  found: number;
+  started_at: Date;
+  finished_at: Date | null;
+}
+
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -161,6 +781,9 @@ export interface BranchConfig {
   manager?: string;
 }
 
+// License types come from the shared license client
+export type { LicenseFeature, LicenseSource, LicenseState, LicenseStatus } from '@rockpoint/license-client';
+
 // Report types
 export interface DailySalesReport {
   date: string;
@@ -0,0 +1,84 @@
+import { DatabaseManager } from '../../src/database/manager';
+import { EmbeddedBarcodeService } from '../../src/services/EmbeddedBarcodeService';
+import { EmbeddedBarcodeSettings } from '../../src/types';
+
+// Mock DatabaseManager.query static method
+jest.mock('../../src/database/manager', () => ({
+  DatabaseManager: {
+    query: jest.fn()
+  }
+}));
+
+const settings: EmbeddedBarcodeSettings = {
+  weightPrefixes: ['20', '21'],
+  pricePrefixes: ['26'],
+  priceDecimals: 2
+};
+
+describe('EmbeddedBarcodeService Unit Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.BRANCH_WEIGHT_BARCODE_PREFIXES;
+  });
+
+  describe('parse', () => {
+    test('should read the weight in kilograms from a weight label', () => {
+      expect(EmbeddedBarcodeService.parse('2000001004555', settings)).toEqual({
+        barcode: '2000001004555',
+        kind: 'weight',
+        prefix: '20',
+        item_code: '00001',
+        weight: 0.455
+      });
+    });
+
+    test('should read the package price from a price label', () => {
+      expect(EmbeddedBarcodeService.parse('2600002012988', settings)).toMatchObject({
+        kind: 'price',
+        item_code: '00002',
+        price: 12.98
+      });
+    });
+
+    test('should ignore barcodes with a wrong check digit or an unknown prefix', () => {
+      expect(EmbeddedBarcodeService.parse('2000001004556', settings)).toBeNull();
+      expect(EmbeddedBarcodeService.parse('4601234567893', settings)).toBeNull();
+      expect(EmbeddedBarcodeService.parse('20000010045', settings)).toBeNull();
+    });
+  });
+
+  describe('productCodes', () => {
+    test('should look the product up by prefix and PLU, bare PLU or zero-value label', () => {
+      const embedded = EmbeddedBarcodeService.parse('2000001004555', settings)!;
+
+      expect(EmbeddedBarcodeService.productCodes(embedded)).toEqual(['2000001', '00001', '2000001000007']);
+    });
+  });
+
+  describe('quantityFor', () => {
+    test('should derive the quantity of a price label from the unit price', () => {
+      const embedded = EmbeddedBarcodeService.parse('2600002012988', settings)!;
+
+      expect(EmbeddedBarcodeService.quantityFor(embedded, 6.49)).toBe(2);
+      expect(EmbeddedBarcodeService.quantityFor(embedded, 0)).toBe(0);
+    });
+  });
+
+  describe('getSettings', () => {
+    test('should prefer branch config and fall back to the environment', async () => {
+      process.env.BRANCH_WEIGHT_BARCODE_PREFIXES = '22, 23';
+      (DatabaseManager.query as jest.Mock).mockResolvedValueOnce({
+        rows: [
+          { config_key: 'price_barcode_prefixes', config_value: '28,x,29' },
+          { config_key: 'price_barcode_decimals', config_value: '0' }
+        ]
+      });
+
+      await expect(EmbeddedBarcodeService.getSettings()).resolves.toEqual({
+        weightPrefixes: ['22', '23'],
+        pricePrefixes: ['28', '29'],
+        priceDecimals: 0
+      });
+    });
+  });
+});
@@ -0,0 +1,265 @@
+import { DatabaseManager } from '../../src/database/manager';
+import { FiscalService } from '../../src/services/FiscalService';
+import { FiscalModuleSimulator } from '../utils/FiscalModuleSimulator';
+
+// Mock DatabaseManager static methods
+jest.mock('../../src/database/manager', () => ({
+  DatabaseManager: {
+    query: jest.fn(),
+    transaction: jest.fn()
+  }
+}));
+
+const IKPU_MILK = '10401001001000000';
+const IKPU_BREAD = '10901001001000000';
+
+const simulator = new FiscalModuleSimulator({ token: 'fm-token' });
+
+let config: Array<{ config_key: string; config_value: string }> = [];
+let receipts: any[] = [];
+
+// Answers the fiscal_receipts statements of FiscalService from the in-memory `receipts`
+const receiptHandlers: Array<[RegExp, (params: any[]) => any]> = [
+  [/FROM branch_network_config/, () => ({ rows: config })],
+  [/INSERT INTO fiscal_receipts/, (params) => {
+    receipts.push({
+      id: params[0], transaction_id: params[1], refund_id: params[2], receipt_type: params[3],
+      payload: JSON.parse(params[4]), status: 'pending', attempts: 0, next_attempt_at: new Date(0),
+      created_at: new Date(Date.now() + receipts.length)
+    });
+    return { rows: [{ id: params[0] }], rowCount: 1 };
+  }],
+  [/SET next_attempt_at = NOW\(\) \+ INTERVAL/, (params) => {
+    const saleFiscalized = (transactionId: string) =>
+      receipts.some(r => r.transaction_id === transactionId && r.receipt_type === 'sale' && r.status === 'fiscalized');
+    const due = receipts.filter(r =>
+      r.status === 'pending' &&
+      new Date(r.next_attempt_at).getTime() <= Date.now() &&
+      (!params[0] || r.transaction_id === params[0]) &&
+      (r.receipt_type === 'sale' || saleFiscalized(r.transaction_id))
+    );
+    due.forEach(r => { r.next_attempt_at = new Date(Date.now() + 60000); });
+    return { rows: due };
+  }],
+  [/SET status = 'fiscalized'/, (params) => {
+    Object.assign(receipts.find(r => r.id === params[0]), {
+      status: 'fiscalized', attempts: 1, fiscal_module_id: params[1], receipt_seq: params[2],
+      fiscal_sign: params[3], qr_url: params[4], fiscalized_at: params[5]
+    });
+    return { rows: [] };
+  }],
+  [/SET status = 'failed'/, (params) => {
+    Object.assign(receipts.find(r => r.id === params[0]), { status: 'failed', last_error: params[1] });
+    return { rows: [] };
+  }],
+  [/SET attempts = attempts \+ 1, last_error/, (params) => {
+    const receipt = receipts.find(r => r.id === params[0]);
+    Object.assign(receipt, {
+      attempts: receipt.attempts + 1, last_error: params[1], next_attempt_at: new Date(Date.now() + parseInt(params[2]))
+    });
+    return { rows: [] };
+  }],
+  [/SET status = 'cancelled'/, (params) => {
+    receipts
+      .filter(r => r.transaction_id === params[0] && ['pending', 'failed'].includes(r.status))
+      .forEach(r => { r.status = 'cancelled'; });
+    return { rows: [], rowCount: 1 };
+  }],
+  [/SET next_attempt_at = NOW\(\) \+ \(\$2/, () => ({ rows: [] })],
+  [/FROM fiscal_receipts WHERE transaction_id = \$1 AND receipt_type = 'sale'/, (params) => ({
+    rows: receipts.filter(r => r.transaction_id === params[0] && r.receipt_type === 'sale')
+  })],
+  [/SELECT \* FROM fiscal_receipts/, (params) => ({
+    rows: receipts.filter(r => params.length < 2 || r.transaction_id === params[0])
+  })]
+];
+
+const handle = (handlers: Array<[RegExp, (params: any[]) => any]>) => async (sql: string, params: any[] = []) => {
+  const handler = handlers.find(([pattern]) => pattern.test(sql));
+  return handler ? handler[1](params) : { rows: [], rowCount: 0 };
+};
+
+// Fake pool client for the sale being completed: one milk (12% VAT, prices include VAT) and one bread
+const createSaleClient = (overrides: { ikpu?: string | null; pricesIncludeTax?: boolean } = {}) => ({
+  query: jest.fn(handle([
+    [/FROM transactions WHERE id/, () => ({
+      rows: [{
+        id: 'tx-1', terminal_id: 'POS-1', employee_id: 'EMP001',
+        prices_include_tax: overrides.pricesIncludeTax ?? true, completed_at: '2026-03-01T09:30:00.000Z'
+      }]
+    })],
+    [/FROM transaction_items ti/, () => ({
+      rows: [
+        {
+          product_id: 'p-milk', name: 'Milk 1L', barcode: '4780000000011', ikpu_code: overrides.ikpu === undefined ? IKPU_MILK : overrides.ikpu,
+          package_code: '1503', unit_of_measure: 'pcs', quantity: '2.000', unit_price: '11200.00', total_price: '22400.00',
+          discount_amount: '0', tax_rate: '0.1200', tax_amount: '2400.00'
+        },
+        {
+          product_id: 'p-bread', name: 'Bread', barcode: null, ikpu_code: IKPU_BREAD, package_code: null,
+          unit_of_measure: 'pcs', quantity: '1.000', unit_price: '5000.00', total_price: '4500.00',
+          discount_amount: '500.00', tax_rate: '0.0000', tax_amount: '0'
+        }
+      ]
+    })],
+    [/FROM refund_payments rp/, () => ({ rows: [{ cash: '0' }] })],
+    [/FROM payments WHERE transaction_id/, () => ({
+      rows: [
+        { method: 'cash', amount: '20000.00', change_given: '0' },
+        { method: 'card', amount: '6900.00', change_given: '0' }
+      ]
+    })],
+    ...receiptHandlers
+  ]))
+});
+
+describe('FiscalService Unit Tests', () => {
+  beforeAll(async () => {
+    await simulator.start();
+  });
+
+  afterAll(async () => {
+    await simulator.stop();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    simulator.reset();
+    receipts = [];
+    config = [
+      { config_key: 'fiscal_module_url', config_value: `${simulator.url}/` },
+      { config_key: 'fiscal_module_token', config_value: 'fm-token' }
+    ];
+    (DatabaseManager.query as jest.Mock).mockImplementation(handle(receiptHandlers));
+  });
+
+  describe('getSettings', () => {
+    test('should be disabled without a fiscal module URL', async () => {
+      config = [];
+      const client = createSaleClient();
+
+      expect(await FiscalService.getSettings(client as any)).toEqual({ enabled: false, moduleUrl: null, token: null });
+      expect(await FiscalService.queueSale(client as any, 'tx-1')).toBeNull();
+      expect(receipts).toHaveLength(0);
+    });
+  });
+
+  describe('queueSale', () => {
+    test('should snapshot lines with IKPU codes, VAT and amounts in tiyin', async () => {
+      const receiptId = await FiscalService.queueSale(createSaleClient() as any, 'tx-1');
+
+      expect(receiptId).toBe(receipts[0].id);
+      expect(receipts[0].payload).toMatchObject({
+        receiptId,
+        type: 'sale',
+        transactionId: 'tx-1',
+        time: '2026-03-01T09:30:00.000Z',
+        total: 2690000,
+        vatTotal: 240000,
+        receivedCash: 2000000,
+        receivedCard: 690000
+      });
+      expect(receipts[0].payload.items).toEqual([
+        expect.objectContaining({
+          productId: 'p-milk', ikpuCode: IKPU_MILK, packageCode: '1503', quantity: 2,
+          price: 1120000, discount: 0, amount: 2240000, vatPercent: 12, vat: 240000
+        }),
+        expect.objectContaining({
+          productId: 'p-bread', ikpuCode: IKPU_BREAD, price: 500000, discount: 50000, amount: 450000, vatPercent: 0, vat: 0
+        })
+      ]);
+    });
+
+    test('should show VAT-inclusive prices when the branch prices exclude VAT', async () => {
+      await FiscalService.queueSale(createSaleClient({ pricesIncludeTax: false }) as any, 'tx-1');
+
+      expect(receipts[0].payload.items[0]).toMatchObject({ price: 1254400, amount: 2480000, vat: 240000 });
+    });
+  });
+
+  describe('submitForTransaction', () => {
+    test('should store the fiscal sign and QR URL returned by the fiscal module', async () => {
+      await FiscalService.queueSale(createSaleClient() as any, 'tx-1');
+
+      const [receipt] = await FiscalService.submitForTransaction('tx-1');
+
+      expect(simulator.receipts).toHaveLength(1);
+      expect(receipt).toMatchObject({
+        status: 'fiscalized',
+        fiscal_module_id: 'VFM0000000001',
+        receipt_seq: '1',
+        fiscal_sign: simulator.receipts[0].fiscalSign,
+        qr_url: simulator.receipts[0].qrUrl
+      });
+    });
+
+    test('should keep the receipt queued with backoff while the fiscal module is offline', async () => {
+      await FiscalService.queueSale(createSaleClient() as any, 'tx-1');
+      simulator.failNext(503);
+
+      const [receipt] = await FiscalService.submitForTransaction('tx-1');
+
+      expect(receipt).toMatchObject({ status: 'pending', attempts: 1 });
+      expect(receipt.last_error).toContain('503');
+      expect(new Date(receipt.next_attempt_at!).getTime()).toBeGreaterThan(Date.now());
+      expect(simulator.receipts).toHaveLength(0);
+    });
+
+    test('should mark a receipt the fiscal module rejects as failed', async () => {
+      await FiscalService.queueSale(createSaleClient({ ikpu: null }) as any, 'tx-1');
+
+      const [receipt] = await FiscalService.submitForTransaction('tx-1');
+
+      expect(receipt.status).toBe('failed');
+      expect(receipt.last_error).toContain('IKPU');
+    });
+  });
+
+  describe('processQueue', () => {
+    test('should stop at the first offline answer and send the rest on a later run', async () => {
+      await FiscalService.queueSale(createSaleClient() as any, 'tx-1');
+      await FiscalService.queueSale(createSaleClient() as any, 'tx-2');
+      simulator.failNext(502);
+
+      expect(await FiscalService.processQueue()).toEqual({ fiscalized: 0, failed: 0, offline: true });
+      expect(simulator.requests).toBe(1);
+
+      receipts.forEach(r => { r.next_attempt_at = new Date(0); });
+      expect(await FiscalService.processQueue()).toEqual({ fiscalized: 2, failed: 0, offline: false });
+      expect(simulator.receipts.map(r => r.body.transactionId)).toEqual(['tx-1', 'tx-2']);
+    });
+
+    test('should do nothing while fiscalization is switched off', async () => {
+      config = [];
+
+      expect(await FiscalService.processQueue()).toEqual({ fiscalized: 0, failed: 0, offline: false });
+      expect(simulator.requests).toBe(0);
+    });
+  });
+
+  describe('queueVoid', () => {
+    test('should cancel a sale receipt that never reached the fiscal module', async () => {
+      await FiscalService.queueSale(createSaleClient() as any, 'tx-1');
+
+      expect(await FiscalService.queueVoid(createSaleClient() as any, 'tx-1', 'EMP002')).toBeNull();
+      expect(receipts.map(r => r.status)).toEqual(['cancelled']);
+    });
+
+    test('should register a return receipt against a fiscalized sale', async () => {
+      const client = createSaleClient();
+      await FiscalService.queueSale(client as any, 'tx-1');
+      await FiscalService.submitForTransaction('tx-1');
+
+      const voidId = await FiscalService.queueVoid(client as any, 'tx-1', 'EMP002');
+      const fiscalReceipts = await FiscalService.submitForTransaction('tx-1');
+
+      expect(fiscalReceipts.find(r => r.id === voidId)).toMatchObject({ receipt_type: 'void', status: 'fiscalized' });
+      expect(simulator.receipts[1].body).toMatchObject({
+        type: 'void',
+        cashier: 'EMP002',
+        total: 2690000,
+        original: { terminalId: 'VFM0000000001', fiscalSign: simulator.receipts[0].fiscalSign }
+      });
+    });
+  });
+});
@@ -0,0 +1,336 @@
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { DatabaseManager } from '../../src/database/manager';
+import { LicenseService } from '../../src/services/LicenseService';
+
+// Mock DatabaseManager static methods
+jest.mock('../../src/database/manager', () => ({
+  DatabaseManager: {
+    query: jest.fn(),
+    transaction: jest.fn()
+  }
+}));
+
+// The license client calls the license server with fetch
+const fetchMock = jest.fn();
+global.fetch = fetchMock;
+
+const reply = (body: object, status = 200) => ({ ok: status < 400, status, json: async () => body });
+
+const LICENSE_KEY = 'ABCD-EFGH-IJKL-MNOP';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// branch_network_config rows as seen by the service
+let config: Map<string, string>;
+let terminals: { existing: boolean; existingActive: boolean; active: number };
+
+const cacheToken = (token: string, verifiedAt: Date) => {
+  config.set('license_token', token);
+  config.set('license_verified_at', verifiedAt.toISOString());
+};
+
+const serverError = (status: number, reason: string) => reply({ success: false, reason }, status);
+
+// Signs documents the way license-api-server does
+const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+const signDocument = (format: string, payload: object) => {
+  const bytes = Buffer.from(JSON.stringify(payload));
+  return {
+    format,
+    version: 1,
+    algorithm: 'Ed25519',
+    payload: bytes.toString('base64'),
+    signature: sign(null, bytes, privateKey).toString('base64')
+  };
+};
+
+const signToken = (overrides: any = {}, key: KeyObject = privateKey) => {
+  const header = Buffer.from(JSON.stringify({ alg: 'EdDSA', typ: 'JWT' })).toString('base64url');
+  const body = Buffer.from(JSON.stringify({
+    licenseKey: LICENSE_KEY,
+    customerId: 'customer-1',
+    machineId: LicenseService.getMachineId(),
+    appType: 'branch-core',
+    permissions: ['inventory', 'reporting'],
+    maxBranches: 3,
+    maxPOSTerminals: 2,
+    licenseExpiresAt: new Date(Date.now() + 365 * DAY_MS).toISOString(),
+    exp: Math.floor(Date.now() / 1000) + 24 * 60 * 60,
+    ...overrides
+  })).toString('base64url');
+
+  return `${header}.${body}.${sign(null, Buffer.from(`${header}.${body}`), key).toString('base64url')}`;
+};
+
+const licenseFile = (overrides: any = {}) => JSON.stringify(signDocument('rockpoint-license', {
+  fileId: 'file-1',
+  licenseKey: LICENSE_KEY,
+  customer: { id: 'customer-1', name: 'Akmal', company: 'Store LLC' },
+  maxBranches: 1,
+  maxPOSTerminals: 4,
+  features: ['inventory'],
+  expiryDate: new Date(Date.now() + 365 * DAY_MS).toISOString(),
+  issuedAt: new Date().toISOString(),
+  ...overrides
+}));
+
+const revocationList = (revokedFileIds: string[], issuedAt = new Date()) => signDocument('rockpoint-license-revocations', {
+  issuedAt: issuedAt.toISOString(),
+  revokedFileIds,
+  revokedLicenseKeys: []
+});
+
+describe('LicenseService Unit Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    config = new Map([['license_key', LICENSE_KEY]]);
+    terminals = { existing: false, existingActive: true, active: 0 };
+
+    // Forget state kept between calls
+    (LicenseService as any).client.reload();
+    delete process.env.LICENSE_OFFLINE_GRACE_DAYS;
+    process.env.LICENSE_PUBLIC_KEY = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+    (DatabaseManager.query as jest.Mock).mockImplementation(async (sql: string, params: any[] = []) => {
+      if (sql.includes('INSERT INTO branch_network_config')) {
+        config.set(params[0], params[1]);
+        return { rows: [] };
+      }
+      if (sql.includes('DELETE FROM branch_network_config')) {
+        params[0].forEach((key: string) => config.delete(key));
+        return { rows: [] };
+      }
+      if (sql.includes('FROM branch_network_config')) {
+        return {
+          rows: Array.from(config.entries())
+            .filter(([key]) => params[0].includes(key))
+            .map(([config_key, config_value]) => ({ config_key, config_value }))
+        };
+      }
+      if (sql.includes('WHERE terminal_id = $1')) {
+        return { rows: terminals.existing ? [{ is_active: terminals.existingActive }] : [] };
+      }
+      if (sql.includes('COUNT(*)')) {
+        return { rows: [{ count: String(terminals.active) }] };
+      }
+      return { rows: [] };
+    });
+  });
+
+  describe('getState', () => {
+    test('should run unrestricted without a license key outside production only', async () => {
+      config.clear();
+      const originalEnv = process.env.NODE_ENV;
+
+      await expect(LicenseService.getState()).resolves.toMatchObject({ status: 'unrestricted' });
+
+      process.env.NODE_ENV = 'production';
+      await expect(LicenseService.getState()).resolves.toMatchObject({ status: 'unlicensed' });
+      process.env.NODE_ENV = originalEnv;
+    });
+
+    test('should honour a cached license within the offline grace period', async () => {
+      cacheToken(signToken(), new Date(Date.now() - 2 * DAY_MS));
+
+      const state = await LicenseService.getState();
+
+      expect(state).toMatchObject({ status: 'grace', maxPOSTerminals: 2, features: ['inventory', 'reporting'] });
+      expect(await LicenseService.hasFeature('reporting')).toBe(true);
+      expect(await LicenseService.hasFeature('analytics')).toBe(false);
+    });
+
+    test('should expire once the offline grace period has passed', async () => {
+      process.env.LICENSE_OFFLINE_GRACE_DAYS = '3';
+      cacheToken(signToken(), new Date(Date.now() - 4 * DAY_MS));
+
+      const state = await LicenseService.getState();
+
+      expect(state.status).toBe('expired');
+      expect(await LicenseService.hasFeature('reporting')).toBe(false);
+    });
+
+    test('should not honour a license cached for another machine', async () => {
+      cacheToken(signToken({ machineId: 'another-machine' }), new Date());
+
+      await expect(LicenseService.getState()).resolves.toMatchObject({ status: 'unlicensed' });
+    });
+
+    test('should not honour a cached token that fails signature verification', async () => {
+      // Raised limits on a genuine token, and a token signed with someone else's key
+      const [header, , signature] = signToken().split('.');
+      const raised = Buffer.from(JSON.stringify({ licenseKey: LICENSE_KEY, maxPOSTerminals: 99 })).toString('base64url');
+      cacheToken(`${header}.${raised}.${signature}`, new Date());
+
+      await expect(LicenseService.getState()).resolves.toMatchObject({ status: 'unlicensed', maxPOSTerminals: null });
+
+      (LicenseService as any).client.reload();
+      cacheToken(signToken({}, generateKeyPairSync('ed25519').privateKey), new Date());
+
+      await expect(LicenseService.getState()).resolves.toMatchObject({ status: 'unlicensed' });
+    });
+  });
+
+  describe('refresh', () => {
+    test('should activate with the machine ID when nothing is cached', async () => {
+      const token = signToken();
+      fetchMock.mockResolvedValueOnce(reply({ success: true, sessionToken: token }));
+
+      const state = await LicenseService.refresh();
+
+      expect(fetchMock.mock.calls[0][0]).toMatch(/\/activate-license$/);
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+        licenseKey: LICENSE_KEY,
+        appType: 'branch-core',
+        machineId: LicenseService.getMachineId()
+      });
+      expect(config.get('license_token')).toBe(token);
+      expect(state.status).toBe('active');
+    });
+
+    test('should refuse a token from the server that fails signature verification', async () => {
+      fetchMock.mockResolvedValueOnce(reply({
+        success: true, sessionToken: signToken({}, generateKeyPairSync('ed25519').privateKey)
+      }));
+
+      const state = await LicenseService.refresh();
+
+      expect(config.has('license_token')).toBe(false);
+      expect(state.status).toBe('unlicensed');
+    });
+
+    test('should send a heartbeat and cache the rotated token', async () => {
+      cacheToken(signToken(), new Date(Date.now() - DAY_MS));
+      const rotated = signToken({ maxPOSTerminals: 5 });
+      fetchMock.mockResolvedValueOnce(reply({ success: true, sessionToken: rotated }));
+
+      const state = await LicenseService.refresh();
+
+      expect(fetchMock.mock.calls[0][0]).toMatch(/\/license-heartbeat$/);
+      expect(config.get('license_token')).toBe(rotated);
+      expect(state).toMatchObject({ status: 'active', maxPOSTerminals: 5 });
+    });
+
+    test('should activate again when the cached token lapsed while offline', async () => {
+      cacheToken(signToken(), new Date(Date.now() - 2 * DAY_MS));
+      fetchMock
+        .mockResolvedValueOnce(serverError(401, 'Session token is invalid or expired'))
+        .mockResolvedValueOnce(reply({ success: true, sessionToken: signToken() }));
+
+      const state = await LicenseService.refresh();
+
+      expect(fetchMock.mock.calls[1][0]).toMatch(/\/activate-license$/);
+      expect(state.status).toBe('active');
+    });
+
+    test('should keep the cached license while the license server is unreachable', async () => {
+      cacheToken(signToken(), new Date(Date.now() - DAY_MS));
+      fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      const state = await LicenseService.refresh();
+
+      expect(state.status).toBe('grace');
+      expect(config.has('license_token')).toBe(true);
+    });
+
+    test('should drop the cached license when the server refuses it', async () => {
+      cacheToken(signToken(), new Date());
+      fetchMock.mockResolvedValueOnce(serverError(403, 'License is deactivated'));
+
+      const state = await LicenseService.refresh();
+
+      expect(state).toMatchObject({ status: 'invalid', reason: 'License is deactivated' });
+      expect(config.has('license_token')).toBe(false);
+    });
+  });
+
+  describe('license files', () => {
+    beforeEach(() => {
+      config.delete('license_key');
+    });
+
+    test('should apply a license file verified with the public key alone', async () => {
+      const state = await LicenseService.installLicenseFile(licenseFile());
+
+      expect(state).toMatchObject({ status: 'active', source: 'file', fileId: 'file-1', maxPOSTerminals: 4 });
+      expect(config.has('license_file')).toBe(true);
+      await expect(LicenseService.getLicenseKey()).resolves.toBe(LICENSE_KEY);
+    });
+
+    test('should reject a file whose contents were altered', async () => {
+      const tampered = JSON.parse(licenseFile());
+      tampered.payload = Buffer.from(
+        Buffer.from(tampered.payload, 'base64').toString().replace('"maxPOSTerminals":4', '"maxPOSTerminals":40')
+      ).toString('base64');
+
+      await expect(LicenseService.installLicenseFile(JSON.stringify(tampered))).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'License signature is invalid'
+      });
+      expect(config.has('license_file')).toBe(false);
+    });
+
+    test('should reject a file bound to another machine', async () => {
+      await expect(LicenseService.installLicenseFile(licenseFile({ machineId: 'another-machine' })))
+        .rejects.toMatchObject({ statusCode: 400, message: 'License file was issued for another machine' });
+    });
+
+    test('should stop honouring a file once a heartbeat brings it on the revocation list', async () => {
+      config.set('license_file', licenseFile());
+      cacheToken(signToken(), new Date());
+      fetchMock.mockResolvedValueOnce(reply({
+        success: true, sessionToken: signToken(), revocationList: revocationList(['file-1'])
+      }));
+
+      const state = await LicenseService.refresh();
+
+      expect(state).toMatchObject({ status: 'invalid', source: 'file', reason: 'License file was revoked' });
+      expect(config.has('license_revocations')).toBe(true);
+    });
+
+    test('should ignore a revocation list that is not signed by the license server', async () => {
+      config.set('license_file', licenseFile());
+      const forged = { ...revocationList(['file-1']), signature: revocationList([]).signature };
+      fetchMock.mockResolvedValueOnce(reply({ success: true, sessionToken: signToken(), revocationList: forged }));
+
+      const state = await LicenseService.refresh();
+
+      expect(state.status).toBe('active');
+      expect(config.has('license_revocations')).toBe(false);
+    });
+  });
+
+  describe('assertTerminalCapacity', () => {
+    beforeEach(() => {
+      cacheToken(signToken(), new Date());
+    });
+
+    test('should refuse a new terminal once the licensed count is registered', async () => {
+      terminals.active = 2;
+
+      await expect(LicenseService.assertTerminalCapacity('POS-003')).rejects.toMatchObject({
+        statusCode: 403,
+        message: 'License allows 2 POS terminals and 2 are registered'
+      });
+    });
+
+    test('should allow updating a terminal that is already registered', async () => {
+      terminals.active = 2;
+      terminals.existing = true;
+
+      await expect(LicenseService.assertTerminalCapacity('POS-001')).resolves.toBeUndefined();
+    });
+
+    test('should refuse reactivating a removed terminal once the licensed count is registered', async () => {
+      terminals.active = 2;
+      terminals.existing = true;
+      terminals.existingActive = false;
+
+      await expect(LicenseService.assertTerminalCapacity('POS-001')).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    test('should allow a new terminal while slots are free', async () => {
+      terminals.active = 1;
+
+      await expect(LicenseService.assertTerminalCapacity('POS-002')).resolves.toBeUndefined();
+    });
+  });
+});
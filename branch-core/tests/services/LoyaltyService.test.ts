@@ -0,0 +1,273 @@
+import { DatabaseManager } from '../../src/database/manager';
+import { ChainCoreClient } from '../../src/services/ChainCoreClient';
+import { LoyaltyService } from '../../src/services/LoyaltyService';
+import { LoyaltyRule } from '../../src/types';
+
+// Mock DatabaseManager static methods
+jest.mock('../../src/database/manager', () => ({
+  DatabaseManager: {
+    query: jest.fn(),
+    transaction: jest.fn()
+  }
+}));
+
+jest.mock('../../src/services/ChainCoreClient', () => ({
+  ChainCoreClient: {
+    request: jest.fn()
+  }
+}));
+
+const buildRule = (overrides: Partial<LoyaltyRule> = {}): LoyaltyRule => ({
+  id: 'rule-base',
+  name: '1 point per 1.00',
+  rule_type: 'points_per_amount',
+  points: 1,
+  amount_step: 1,
+  multiplier: null,
+  category_id: null,
+  min_purchase: 0,
+  starts_at: null,
+  ends_at: null,
+  is_active: true,
+  ...overrides
+});
+
+const settingsRows = {
+  rows: [
+    { config_key: 'loyalty_enabled', config_value: 'true' },
+    { config_key: 'loyalty_point_value', config_value: '0.01' }
+  ]
+};
+
+describe('LoyaltyService Unit Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('calculateEarnedPoints', () => {
+    const lines = [
+      { productId: 'milk', categoryId: 'dairy', amount: 12.5 },
+      { productId: 'bread', categoryId: 'bakery', amount: 7.5 }
+    ];
+
+    test('should earn points per amount spent, rounded down', () => {
+      const result = LoyaltyService.calculateEarnedPoints(lines, [buildRule({ amount_step: 3 })]);
+
+      expect(result).toEqual({ points: 6, appliedRuleIds: ['rule-base'] });
+    });
+
+    test('should apply only the best category multiplier to matching lines', () => {
+      const result = LoyaltyService.calculateEarnedPoints(lines, [
+        buildRule(),
+        buildRule({ id: 'dairy-2x', rule_type: 'category_multiplier', points: 0, amount_step: null, multiplier: 2, category_id: 'dairy' }),
+        buildRule({ id: 'dairy-3x', rule_type: 'category_multiplier', points: 0, amount_step: null, multiplier: 3, category_id: 'dairy' })
+      ]);
+
+      // 12.5 x 3 + 7.5
+      expect(result.points).toBe(45);
+      expect(result.appliedRuleIds).toEqual(['rule-base', 'dairy-3x']);
+    });
+
+    test('should add purchase bonuses only above the minimum purchase', () => {
+      const bonus = buildRule({ id: 'bonus', rule_type: 'purchase_bonus', points: 50, amount_step: null, min_purchase: 20 });
+
+      expect(LoyaltyService.calculateEarnedPoints(lines, [bonus]).points).toBe(50);
+      expect(LoyaltyService.calculateEarnedPoints(lines.slice(0, 1), [bonus]).points).toBe(0);
+    });
+
+    test('should not earn on the part of the sale paid with points', () => {
+      const result = LoyaltyService.calculateEarnedPoints(lines, [buildRule()], 0.25);
+
+      expect(result.points).toBe(5);
+    });
+
+    test('should skip inactive and out-of-date rules', () => {
+      const now = new Date('2026-06-01T12:00:00Z');
+      const result = LoyaltyService.calculateEarnedPoints(lines, [
+        buildRule({ is_active: false }),
+        buildRule({ id: 'expired', ends_at: '2026-05-31T23:59:59Z' }),
+        buildRule({ id: 'future', starts_at: '2026-06-02T00:00:00Z' })
+      ], 1, now);
+
+      expect(result).toEqual({ points: 0, appliedRuleIds: [] });
+    });
+  });
+
+  describe('pointsForAmount', () => {
+    test('should round the points needed up', () => {
+      expect(LoyaltyService.pointsForAmount(1.5, 0.01)).toBe(150);
+      expect(LoyaltyService.pointsForAmount(1.005, 0.01)).toBe(101);
+      expect(LoyaltyService.pointsForAmount(10, 0.3)).toBe(34);
+    });
+  });
+
+  describe('redeemPoints', () => {
+    test('should require a customer on the sale', async () => {
+      const client = { query: jest.fn() };
+
+      await expect(LoyaltyService.redeemPoints(client as any, { customerId: null, transactionId: 'txn-1', amount: 5 }))
+        .rejects.toMatchObject({ statusCode: 400 });
+      expect(client.query).not.toHaveBeenCalled();
+    });
+
+    test('should refuse to spend more points than the customer has', async () => {
+      const client = {
+        query: jest.fn()
+          .mockResolvedValueOnce(settingsRows)
+          .mockResolvedValueOnce({ rows: [{ id: 'cust-1', loyalty_points: 499 }] })
+      };
+
+      await expect(LoyaltyService.redeemPoints(client as any, { customerId: 'cust-1', transactionId: 'txn-1', amount: 5 }))
+        .rejects.toThrow('500 needed, 499 available');
+      expect(client.query).toHaveBeenCalledTimes(2);
+    });
+
+    test('should record a negative ledger entry with the new balance', async () => {
+      const client = {
+        query: jest.fn()
+          .mockResolvedValueOnce(settingsRows)
+          .mockResolvedValueOnce({ rows: [{ id: 'cust-1', loyalty_points: 800 }] })
+          .mockResolvedValueOnce({ rows: [{ loyalty_points: 300 }] })
+          .mockResolvedValueOnce({ rows: [] })
+      };
+
+      const points = await LoyaltyService.redeemPoints(client as any, { customerId: 'cust-1', transactionId: 'txn-1', amount: 5, employeeId: 'EMP001' });
+
+      expect(points).toBe(500);
+      expect(client.query.mock.calls[2][1]).toEqual(['cust-1', -500]);
+      expect(client.query.mock.calls[3][1]).toEqual(['cust-1', 'txn-1', 'redeem', -500, 300, 'Paid 5.00 with store credit', 'EMP001']);
+    });
+  });
+
+  describe('awardPoints', () => {
+    test('should not award a sale twice', async () => {
+      const client = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [{ id: 'txn-1', customer_id: 'cust-1', total_amount: '20.00', store_credit: '0' }] })
+          .mockResolvedValueOnce(settingsRows)
+          .mockResolvedValueOnce({ rows: [{ id: 'entry-1' }] })
+      };
+
+      await expect(LoyaltyService.awardPoints(client as any, 'txn-1')).resolves.toBe(0);
+      expect(client.query).toHaveBeenCalledTimes(3);
+    });
+
+    test('should ignore sales without a customer', async () => {
+      const client = {
+        query: jest.fn().mockResolvedValueOnce({ rows: [{ id: 'txn-1', customer_id: null, total_amount: '20.00', store_credit: '0' }] })
+      };
+
+      await expect(LoyaltyService.awardPoints(client as any, 'txn-1')).resolves.toBe(0);
+      expect(client.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('reverseRefund', () => {
+    // A 100.00 sale that earned 100 points and paid 20.00 with 2000 points
+    const saleEntries = {
+      rows: [
+        { customer_id: 'cust-1', entry_type: 'earn', points: 100 },
+        { customer_id: 'cust-1', entry_type: 'redeem', points: -2000 }
+      ]
+    };
+
+    const refundClient = (refund: Record<string, string>) => ({
+      query: jest.fn()
+        .mockResolvedValueOnce({
+          rows: [{
+            original_transaction_id: 'tx-1',
+            sale_total: '100.00',
+            store_credit: '20.00',
+            previously_refunded: '0',
+            previous_store_credit: '0',
+            refund_store_credit: '0',
+            ...refund
+          }]
+        })
+        .mockResolvedValueOnce(saleEntries)
+        .mockResolvedValue({ rows: [{ loyalty_points: 0 }] })
+    });
+
+    const ledgerEntries = (client: { query: jest.Mock }) => client.query.mock.calls
+      .filter(([sql]) => /INSERT INTO loyalty_ledger/.test(sql))
+      .map(([, params]) => [params[2], params[3]]);
+
+    test('should return spent points and take back the earned share of the refunded items', async () => {
+      const client = refundClient({ total_amount: '40.00', refund_store_credit: '20.00' });
+
+      const reversed = await LoyaltyService.reverseRefund(client as any, 'refund-1', 'EMP001');
+
+      expect(ledgerEntries(client)).toEqual([['reversal', -40], ['reversal', 2000]]);
+      expect(reversed).toBe(1960);
+    });
+
+    test('should settle every remaining point on the last refund of the sale', async () => {
+      const client = refundClient({
+        total_amount: '66.67',
+        previously_refunded: '33.33',
+        previous_store_credit: '20.00'
+      });
+
+      await LoyaltyService.reverseRefund(client as any, 'refund-2', 'EMP001');
+
+      // 33 points went back with the first refund, so the last one takes the other 67
+      expect(ledgerEntries(client)).toEqual([['reversal', -67]]);
+    });
+  });
+
+  describe('lookupCustomer', () => {
+    test('should fall back to the local customer when chain-core is unreachable', async () => {
+      (ChainCoreClient.request as jest.Mock).mockRejectedValueOnce(Object.assign(new Error('Chain-core unreachable'), { statusCode: 502 }));
+      (DatabaseManager.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 'cust-1', name: 'Aziza', loyalty_points: 120 }] });
+
+      const result = await LoyaltyService.lookupCustomer({ card: 'RP1000001' });
+
+      expect(result.source).toBe('local');
+      expect(result.customer.id).toBe('cust-1');
+      expect(ChainCoreClient.request).toHaveBeenCalledWith('GET', 'customers/lookup?card=RP1000001');
+    });
+
+    test('should report unknown customers as not found', async () => {
+      (ChainCoreClient.request as jest.Mock).mockRejectedValueOnce(Object.assign(new Error('Customer not found'), { statusCode: 404 }));
+      (DatabaseManager.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await expect(LoyaltyService.lookupCustomer({ phone: '+998 90 123 45 67' }))
+        .rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('syncLedger', () => {
+    test('should mark applied entries and keep the chain balance plus unsynced points', async () => {
+      (DatabaseManager.query as jest.Mock)
+        .mockResolvedValueOnce({
+          rows: [
+            { id: 'entry-1', customer_id: 'cust-1', entry_type: 'earn', points: 20, loyalty_card_number: 'RP1000001', created_at: '2026-06-01T10:00:00Z' },
+            { id: 'entry-2', customer_id: 'cust-1', entry_type: 'redeem', points: -500, loyalty_card_number: 'RP1000001', created_at: '2026-06-01T11:00:00Z' }
+          ]
+        })
+        .mockResolvedValue({ rows: [] });
+      (ChainCoreClient.request as jest.Mock).mockResolvedValueOnce({
+        results: [
+          { id: 'entry-1', status: 'applied', customer_id: 'cust-1', loyalty_points: 520 },
+          { id: 'entry-2', status: 'error', error: 'Customer not found' }
+        ]
+      });
+
+      const result = await LoyaltyService.syncLedger();
+
+      expect(result).toEqual({ sent: 2, applied: 1, failed: 1 });
+      const calls = (DatabaseManager.query as jest.Mock).mock.calls;
+      expect(calls[1][1]).toEqual(['entry-1']);
+      expect(calls[2][1]).toEqual(['entry-2', 'Customer not found']);
+      expect(calls[3][0]).toContain('synced_at IS NULL');
+      expect(calls[3][1]).toEqual(['cust-1', 520]);
+    });
+
+    test('should not call chain-core when everything is synced', async () => {
+      (DatabaseManager.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await expect(LoyaltyService.syncLedger()).resolves.toEqual({ sent: 0, applied: 0, failed: 0 });
+      expect(ChainCoreClient.request).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { DatabaseManager } from '../../src/database/manager';
+import { OfflineSaleRequest, OfflineSaleService } from '../../src/services/OfflineSaleService';
+import { PricingEngine } from '../../src/services/PricingEngine';
+import { TaxEngine } from '../../src/services/TaxEngine';
+
+// Mock DatabaseManager static methods
+jest.mock('../../src/database/manager', () => ({
+  DatabaseManager: {
+    query: jest.fn(),
+    transaction: jest.fn()
+  }
+}));
+
+jest.mock('../../src/services/PricingEngine', () => ({
+  PricingEngine: {
+    priceCart: jest.fn()
+  }
+}));
+
+jest.mock('../../src/services/TaxEngine', () => ({
+  TaxEngine: {
+    taxCart: jest.fn()
+  }
+}));
+
+const buildRequest = (overrides: Partial<OfflineSaleRequest> = {}): OfflineSaleRequest => ({
+  transactionId: '6f1c1a52-3c4e-4d8a-9a57-1f2b3c4d5e6f',
+  terminalId: 'POS-1',
+  employeeId: 'EMP001',
+  items: [{ productId: 'p1', quantity: 2, unitPrice: 5 }],
+  createdAt: '2026-01-01T10:00:00.000Z',
+  expectedTotal: 10,
+  payments: [{ method: 'cash', amount: 20 }],
+  ...overrides
+});
+
+const taxedCart = {
+  lines: [{
+    productId: 'p1', quantity: 2, unitPrice: 5, grossTotal: 10, discountAmount: 0, total: 10,
+    appliedPromotionIds: [], discounts: [], taxRate: 0, taxAmount: 0, netAmount: 10
+  }],
+  grossSubtotal: 10,
+  discountTotal: 0,
+  netSubtotal: 10,
+  taxTotal: 0,
+  total: 10,
+  pricesIncludeTax: false,
+  taxBreakdown: []
+};
+
+// Fake pool client answering by statement, recording every query it was given
+const createClient = (handlers: Array<[RegExp, (params: any[]) => any]>) => {
+  const client = {
+    query: jest.fn(async (sql: string, params: any[]) => {
+      const handler = handlers.find(([pattern]) => pattern.test(sql));
+      return handler ? handler[1](params) : { rows: [], rowCount: 0 };
+    })
+  };
+  (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback) => callback(client));
+  return client;
+};
+
+describe('OfflineSaleService Unit Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (PricingEngine.priceCart as jest.Mock).mockResolvedValue({});
+    (TaxEngine.taxCart as jest.Mock).mockResolvedValue(taxedCart);
+  });
+
+  describe('detectConflicts', () => {
+    test('should report nothing when stock and totals agree', () => {
+      expect(OfflineSaleService.detectConflicts(10, 10, [
+        { productId: 'p1', name: 'Milk', quantityInStock: 0 }
+      ])).toEqual([]);
+    });
+
+    test('should flag products that went below zero', () => {
+      const conflicts = OfflineSaleService.detectConflicts(10, 10, [
+        { productId: 'p1', name: 'Milk', quantityInStock: 3 },
+        { productId: 'p2', name: 'Bread', quantityInStock: -2 }
+      ]);
+
+      expect(conflicts).toEqual([
+        expect.objectContaining({ conflictType: 'negative_stock', productId: 'p2', actualValue: -2 })
+      ]);
+    });
+
+    test('should flag totals that differ from what the till charged', () => {
+      const conflicts = OfflineSaleService.detectConflicts(10, 9.5, []);
+
+      expect(conflicts).toEqual([
+        expect.objectContaining({ conflictType: 'price_mismatch', expectedValue: 10, actualValue: 9.5 })
+      ]);
+    });
+
+    test('should ignore rounding noise below one cent', () => {
+      expect(OfflineSaleService.detectConflicts(10.004, 10, [])).toEqual([]);
+    });
+  });
+
+  describe('recordSale', () => {
+    test('should return an already recorded sale without booking it again', async () => {
+      const client = createClient([
+        [/FROM transactions WHERE id/, () => ({ rows: [{ id: 'tx', status: 'completed', total_amount: '10.00' }] })],
+        [/FROM offline_sale_conflicts/, () => ({ rows: [] })]
+      ]);
+
+      const result = await OfflineSaleService.recordSale(buildRequest());
+
+      expect(result).toMatchObject({ replayed: true, status: 'completed', total: 10, conflicts: [] });
+      expect(PricingEngine.priceCart).not.toHaveBeenCalled();
+      expect(client.query).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO'), expect.anything());
+    });
+
+    test('should book the sale as completed at the till time with a cash payment', async () => {
+      const client = createClient([
+        [/INSERT INTO transactions/, () => ({ rows: [{ id: 'tx' }], rowCount: 1 })],
+        [/UPDATE products/, (params) => ({ rows: [{ id: params[1], name: 'Milk', quantity_in_stock: 4 }] })]
+      ]);
+
+      const result = await OfflineSaleService.recordSale(buildRequest());
+
+      expect(result).toMatchObject({ replayed: false, status: 'completed', total: 10, conflicts: [] });
+
+      const insertCall = client.query.mock.calls.find(([sql]) => /INSERT INTO transactions/.test(sql))!;
+      expect(insertCall[0]).toContain('ON CONFLICT (id) DO NOTHING');
+      expect(insertCall[1][9]).toBe('2026-01-01T10:00:00.000Z');
+
+      // The line is stored as priced at the till; chain-core costs it from the branch's valuation
+      const itemCall = client.query.mock.calls.find(([sql]) => /INSERT INTO transaction_items/.test(sql))!;
+      expect(itemCall[1]).toEqual([
+        '6f1c1a52-3c4e-4d8a-9a57-1f2b3c4d5e6f', 'p1', 2, 5, 10, 0, [], 0, 0, '2026-01-01T10:00:00.000Z'
+      ]);
+
+      const paymentCall = client.query.mock.calls.find(([sql]) => /INSERT INTO payments/.test(sql))!;
+      expect(paymentCall[1]).toEqual(['6f1c1a52-3c4e-4d8a-9a57-1f2b3c4d5e6f', 'cash', 20, 'offline', 10, '2026-01-01T10:00:00.000Z']);
+    });
+
+    test('should record negative stock as a conflict but still book the sale', async () => {
+      const client = createClient([
+        [/INSERT INTO transactions/, () => ({ rows: [{ id: 'tx' }], rowCount: 1 })],
+        [/UPDATE products/, (params) => ({ rows: [{ id: params[1], name: 'Milk', quantity_in_stock: -1 }] })],
+        [/INSERT INTO offline_sale_conflicts/, (params) => ({ rows: [{ id: 'c1', conflict_type: params[3] }] })]
+      ]);
+
+      const result = await OfflineSaleService.recordSale(buildRequest());
+
+      expect(result.conflicts).toEqual([{ id: 'c1', conflict_type: 'negative_stock' }]);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO payments'), expect.anything());
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { DatabaseManager } from '../../src/database/manager';
+import { ParkedCartService } from '../../src/services/ParkedCartService';
+
+// Mock DatabaseManager static methods
+jest.mock('../../src/database/manager', () => ({
+  DatabaseManager: {
+    query: jest.fn(),
+    transaction: jest.fn()
+  }
+}));
+
+const parkedRow = {
+  id: 'cart-1',
+  park_number: 'PK-20261019-ABC123',
+  terminal_id: 'POS-01',
+  employee_id: 'EMP002',
+  note: 'Blue jacket',
+  items: [
+    { productId: 'p1', name: 'Milk', quantity: 2, unitPrice: 1.5 },
+    { productId: 'p2', name: 'Beef Mince', quantity: 0.455, unitPrice: 12 }
+  ],
+  item_count: 2,
+  total_amount: '8.46',
+  status: 'parked',
+  expires_at: new Date(Date.now() + 60 * 60 * 1000),
+  created_at: new Date()
+};
+
+describe('ParkedCartService Unit Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getSettings', () => {
+    test('should fall back to the defaults for missing or invalid settings', async () => {
+      (DatabaseManager.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{ config_key: 'parked_cart_ttl_minutes', config_value: '0' }]
+      });
+
+      const settings = await ParkedCartService.getSettings();
+
+      expect(settings).toEqual({ ttlMinutes: 240, pendingTimeoutMinutes: 30 });
+    });
+  });
+
+  describe('parkCart', () => {
+    test('should store shelf prices and the cart total with the configured expiry', async () => {
+      const client = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [{ id: 'p1', name: 'Milk', price: '1.50' }, { id: 'p2', name: 'Beef Mince', price: '12.00' }] })
+          .mockResolvedValueOnce({ rows: [{ config_key: 'parked_cart_ttl_minutes', config_value: '60' }] })
+          .mockResolvedValueOnce({ rows: [parkedRow] })
+      };
+      (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(client));
+
+      const cart = await ParkedCartService.parkCart({
+        terminalId: 'POS-01',
+        employeeId: 'EMP002',
+        note: ' Blue jacket ',
+        items: [{ productId: 'p1', quantity: 2 }, { productId: 'p2', quantity: 0.455 }]
+      });
+
+      const params = client.query.mock.calls[2][1];
+      expect(JSON.parse(params[5])).toEqual(parkedRow.items);
+      expect(params.slice(1, 5)).toEqual(['POS-01', 'EMP002', null, 'Blue jacket']);
+      expect(params.slice(6)).toEqual([2, 8.46, 60]);
+      expect(cart).toMatchObject({ park_number: 'PK-20261019-ABC123', total_amount: 8.46, status: 'parked' });
+    });
+
+    test('should refuse unknown products', async () => {
+      const client = { query: jest.fn().mockResolvedValueOnce({ rows: [] }) };
+      (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(client));
+
+      await expect(ParkedCartService.parkCart({
+        terminalId: 'POS-01',
+        employeeId: 'EMP002',
+        items: [{ productId: 'p1', quantity: 1 }]
+      })).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('resumeCart', () => {
+    test('should mark the cart resumed and return lines at the current price and stock', async () => {
+      const client = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [parkedRow] })
+          .mockResolvedValueOnce({ rows: [{ ...parkedRow, status: 'resumed', resumed_by: 'EMP003', resumed_terminal_id: 'POS-02' }] })
+          .mockResolvedValueOnce({
+            rows: [
+              { id: 'p1', name: 'Milk', price: '1.60', quantity_in_stock: '10.000', unit_of_measure: 'pcs', is_active: true },
+              { id: 'p2', name: 'Beef Mince', price: '12.00', quantity_in_stock: '0.000', unit_of_measure: 'kg', is_active: true }
+            ]
+          })
+      };
+      (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(client));
+
+      const { cart, items } = await ParkedCartService.resumeCart('cart-1', { terminalId: 'POS-02', employeeId: 'EMP003' });
+
+      expect(client.query.mock.calls[1][1]).toEqual(['EMP003', 'POS-02', 'cart-1']);
+      expect(cart.status).toBe('resumed');
+      expect(items[0]).toMatchObject({ productId: 'p1', unitPrice: 1.6, quantity: 2, available: true });
+      expect(items[1]).toMatchObject({ productId: 'p2', quantityInStock: 0, available: false });
+    });
+
+    test('should refuse a cart that was already resumed at another till', async () => {
+      const client = { query: jest.fn().mockResolvedValueOnce({ rows: [{ ...parkedRow, status: 'resumed' }] }) };
+      (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(client));
+
+      await expect(ParkedCartService.resumeCart('cart-1', { terminalId: 'POS-02', employeeId: 'EMP003' }))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(client.query).toHaveBeenCalledTimes(1);
+    });
+
+    test('should refuse an expired cart', async () => {
+      const client = {
+        query: jest.fn().mockResolvedValueOnce({ rows: [{ ...parkedRow, expires_at: new Date(Date.now() - 1000) }] })
+      };
+      (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(client));
+
+      await expect(ParkedCartService.resumeCart('cart-1', { terminalId: 'POS-02', employeeId: 'EMP003' }))
+        .rejects.toMatchObject({ statusCode: 410 });
+    });
+  });
+
+  describe('releaseAbandonedTransactions', () => {
+    test('should void unpaid sales past the timeout and restore their stock', async () => {
+      (DatabaseManager.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+      const client = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [{ id: 'tx-1' }] })
+          .mockResolvedValueOnce({ rows: [{ product_id: 'p1', quantity: '2.000' }] })
+          .mockResolvedValue({ rows: [] })
+      };
+      (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(client));
+
+      const released = await ParkedCartService.releaseAbandonedTransactions();
+
+      expect(released).toBe(1);
+      expect(client.query.mock.calls[0][1]).toEqual([30]);
+      expect(client.query.mock.calls[2][1]).toEqual(['2.000', 'p1']);
+      expect(client.query.mock.calls[3][1]).toEqual(['p1', '2.000', 'tx-1']);
+      expect(client.query.mock.calls[4][1]).toEqual(['Not paid within 30 minutes', 'tx-1']);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { DatabaseManager } from '../../src/database/manager';
+import { PriceScheduleService } from '../../src/services/PriceScheduleService';
+
+// Mock DatabaseManager static methods
+jest.mock('../../src/database/manager', () => ({
+  DatabaseManager: {
+    query: jest.fn(),
+    transaction: jest.fn()
+  }
+}));
+
+const mockClient = { query: jest.fn() };
+
+const scheduledRow = (overrides: any = {}) => ({
+  id: 'sched-1',
+  chain_change_id: 'change-1',
+  product_id: 'prod-1',
+  price: '8.99',
+  cost: null,
+  effective_from: '2026-11-01T00:00:00',
+  effective_until: '2026-11-08T00:00:00',
+  status: 'pending',
+  previous_price: null,
+  previous_cost: null,
+  applied_at: null,
+  reverted_at: null,
+  created_at: new Date('2026-10-19T10:00:00Z'),
+  ...overrides
+});
+
+describe('PriceScheduleService Unit Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient.query.mockReset();
+    (DatabaseManager.query as jest.Mock).mockReset();
+    (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(mockClient));
+    delete process.env.BRANCH_TIMEZONE;
+  });
+
+  describe('timezone handling', () => {
+    test('should use the configured branch timezone', async () => {
+      (DatabaseManager.query as jest.Mock).mockResolvedValueOnce({ rows: [{ config_value: 'Asia/Tashkent' }] });
+
+      await expect(PriceScheduleService.getTimezone()).resolves.toBe('Asia/Tashkent');
+    });
+
+    test('should fall back to the environment and then to UTC', async () => {
+      (DatabaseManager.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+      process.env.BRANCH_TIMEZONE = 'Europe/Moscow';
+      await expect(PriceScheduleService.getTimezone()).resolves.toBe('Europe/Moscow');
+
+      process.env.BRANCH_TIMEZONE = 'Not/AZone';
+      await expect(PriceScheduleService.getTimezone()).resolves.toBe('UTC');
+    });
+
+    test('should convert times with an offset to branch local time', () => {
+      expect(PriceScheduleService.toLocalTime('2026-10-31T19:00:00Z', 'Asia/Tashkent')).toBe('2026-11-01T00:00:00');
+      expect(PriceScheduleService.toLocalTime('2026-11-01T00:00:00', 'Asia/Tashkent')).toBe('2026-11-01T00:00:00');
+    });
+
+    test('should only be due once the local time has passed in the branch timezone', () => {
+      expect(PriceScheduleService.isDue('2026-11-01T00:00:00', 'Asia/Tashkent', new Date('2026-10-31T18:59:00Z'))).toBe(false);
+      expect(PriceScheduleService.isDue('2026-11-01T00:00:00', 'Asia/Tashkent', new Date('2026-10-31T19:00:00Z'))).toBe(true);
+    });
+  });
+
+  describe('stagePrice', () => {
+    test('should reject a change that ends before it starts', async () => {
+      await expect(PriceScheduleService.stagePrice({
+        productId: 'prod-1',
+        price: 8.99,
+        effectiveFrom: '2026-11-08T00:00:00',
+        effectiveUntil: '2026-11-01T00:00:00'
+      })).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    test('should return the stored change when a resend arrives after the switch-over', async () => {
+      (DatabaseManager.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [scheduledRow({ status: 'active', previous_price: '10.00' })] });
+
+      const change = await PriceScheduleService.stagePrice({
+        productId: 'prod-1',
+        chainChangeId: 'change-1',
+        price: 8.99,
+        effectiveFrom: '2026-11-01T00:00:00'
+      });
+
+      expect(change).toMatchObject({ status: 'active', price: 8.99, previous_price: 10 });
+    });
+  });
+
+  describe('applyDuePrices', () => {
+    beforeEach(() => {
+      (DatabaseManager.query as jest.Mock).mockResolvedValue({ rows: [{ config_value: 'Asia/Tashkent' }] });
+    });
+
+    test('should switch a due change over and remember the price it replaced', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [scheduledRow()] })
+        .mockResolvedValueOnce({ rows: [{ id: 'prod-1', price: '10.00', cost: '6.00' }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValue({ rows: [] });
+
+      const result = await PriceScheduleService.applyDuePrices();
+
+      expect(mockClient.query.mock.calls[0][1]).toEqual(['Asia/Tashkent']);
+      expect(mockClient.query.mock.calls[4][1]).toEqual([8.99, null, 'prod-1']);
+      expect(mockClient.query.mock.calls[6][1]).toEqual(['sched-1', '10.00', '6.00']);
+      expect(result).toEqual({ activated: 1, expired: 0 });
+    });
+
+    test('should restore the previous price when a change expires', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [scheduledRow({ status: 'active', previous_price: '10.00', previous_cost: '6.00' })] })
+        .mockResolvedValueOnce({ rows: [{ id: 'prod-1', price: '8.99', cost: '6.00' }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await PriceScheduleService.applyDuePrices();
+
+      expect(mockClient.query.mock.calls[2][1]).toEqual([10, 6, 'prod-1']);
+      expect(mockClient.query.mock.calls[4][1]).toEqual(['sched-1', 'expired']);
+      expect(result).toEqual({ activated: 0, expired: 1 });
+    });
+
+    test('should keep the original price when one temporary price replaces another', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [scheduledRow({ id: 'sched-2', price: '7.50' })] })
+        .mockResolvedValueOnce({ rows: [{ id: 'prod-1', price: '8.99', cost: '6.00' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'sched-1', effective_until: '2026-11-08T00:00:00', previous_price: '10.00', previous_cost: '6.00' }] })
+        .mockResolvedValue({ rows: [] });
+
+      await PriceScheduleService.applyDuePrices();
+
+      expect(mockClient.query.mock.calls[4][0]).toContain('superseded');
+      expect(mockClient.query.mock.calls[4][1]).toEqual([['sched-1']]);
+      expect(mockClient.query.mock.calls[7][1]).toEqual(['sched-2', '10.00', '6.00']);
+    });
+
+    test('should expire a change whose whole window passed before it could switch over', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ ...scheduledRow(), already_over: true }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await PriceScheduleService.applyDuePrices();
+
+      expect(mockClient.query).toHaveBeenCalledTimes(3);
+      expect(mockClient.query.mock.calls[2][0]).toContain(`status = 'expired'`);
+      expect(result).toEqual({ activated: 0, expired: 0 });
+    });
+  });
+
+  describe('cancel', () => {
+    test('should revert a change in effect and drop a pending one', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({
+          rows: [
+            scheduledRow({ status: 'active', previous_price: '10.00' }),
+            scheduledRow({ id: 'sched-2', chain_change_id: 'change-2' })
+          ]
+        })
+        .mockResolvedValueOnce({ rows: [{ id: 'prod-1', price: '8.99', cost: '6.00' }] })
+        .mockResolvedValue({ rows: [] });
+
+      const result = await PriceScheduleService.cancel(['change-1', 'change-2']);
+
+      expect(mockClient.query.mock.calls[2][1]).toEqual([10, null, 'prod-1']);
+      expect(mockClient.query.mock.calls[4][1]).toEqual(['sched-1', 'cancelled']);
+      expect(mockClient.query.mock.calls[5][1]).toEqual(['sched-2']);
+      expect(result).toEqual({ cancelled: 2, reverted: 1 });
+    });
+  });
+});
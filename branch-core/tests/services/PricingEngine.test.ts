@@ -0,0 +1,128 @@
+import { DatabaseManager } from '../../src/database/manager';
+import { PricingEngine } from '../../src/services/PricingEngine';
+import { Promotion } from '../../src/types';
+
+// Mock DatabaseManager.query static method
+jest.mock('../../src/database/manager', () => ({
+  DatabaseManager: {
+    query: jest.fn()
+  }
+}));
+
+const buildPromotion = (overrides: Partial<Promotion>): Promotion => ({
+  id: 'local-id',
+  chain_promotion_id: 'promo-1',
+  name: 'Test Promotion',
+  promotion_type: 'percentage_discount',
+  discount_value: 10,
+  min_quantity: null,
+  buy_quantity: null,
+  get_quantity: null,
+  product_barcode: null,
+  category_key: null,
+  start_date: new Date('2020-01-01'),
+  end_date: new Date('2099-01-01'),
+  is_active: true,
+  ...overrides
+});
+
+describe('PricingEngine Unit Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('evaluateCart', () => {
+    test('should apply percentage discount to matching barcode only', () => {
+      const promotion = buildPromotion({ product_barcode: '111', discount_value: 25 });
+
+      const cart = PricingEngine.evaluateCart([
+        { productId: 'p1', quantity: 2, unitPrice: 10, barcode: '111' },
+        { productId: 'p2', quantity: 1, unitPrice: 10, barcode: '222' }
+      ], [promotion]);
+
+      expect(cart.lines[0].discountAmount).toBe(5);
+      expect(cart.lines[0].total).toBe(15);
+      expect(cart.lines[0].appliedPromotionIds).toEqual(['promo-1']);
+      expect(cart.lines[1].discountAmount).toBe(0);
+      expect(cart.lines[1].appliedPromotionIds).toEqual([]);
+      expect(cart.grossSubtotal).toBe(30);
+      expect(cart.discountTotal).toBe(5);
+      expect(cart.subtotal).toBe(25);
+    });
+
+    test('should apply fixed discount per unit without going below zero', () => {
+      const promotion = buildPromotion({ promotion_type: 'fixed_discount', discount_value: 15, category_key: 'drinks' });
+
+      const cart = PricingEngine.evaluateCart([
+        { productId: 'p1', quantity: 3, unitPrice: 10, categoryKey: 'drinks' }
+      ], [promotion]);
+
+      expect(cart.lines[0].discountAmount).toBe(30);
+      expect(cart.lines[0].total).toBe(0);
+    });
+
+    test('should give free units for buy_x_get_y', () => {
+      const promotion = buildPromotion({ promotion_type: 'buy_x_get_y', buy_quantity: 2, get_quantity: 1 });
+
+      const cart = PricingEngine.evaluateCart([
+        { productId: 'p1', quantity: 7, unitPrice: 4.5 }
+      ], [promotion]);
+
+      // 7 units = two full "buy 2 get 1" groups
+      expect(cart.lines[0].discountAmount).toBe(9);
+      expect(cart.lines[0].total).toBe(22.5);
+    });
+
+    test('should only apply bulk discount from min_quantity', () => {
+      const promotion = buildPromotion({ promotion_type: 'bulk_discount', discount_value: 10, min_quantity: 5 });
+
+      const below = PricingEngine.evaluateCart([{ productId: 'p1', quantity: 4, unitPrice: 10 }], [promotion]);
+      const above = PricingEngine.evaluateCart([{ productId: 'p1', quantity: 5, unitPrice: 10 }], [promotion]);
+
+      expect(below.discountTotal).toBe(0);
+      expect(above.discountTotal).toBe(5);
+    });
+
+    test('should pick the best single promotion instead of stacking', () => {
+      const small = buildPromotion({ chain_promotion_id: 'small', discount_value: 5 });
+      const large = buildPromotion({ chain_promotion_id: 'large', promotion_type: 'fixed_discount', discount_value: 2 });
+
+      const cart = PricingEngine.evaluateCart([
+        { productId: 'p1', quantity: 2, unitPrice: 10 }
+      ], [small, large]);
+
+      expect(cart.lines[0].discountAmount).toBe(4);
+      expect(cart.lines[0].appliedPromotionIds).toEqual(['large']);
+      expect(cart.lines[0].discounts).toHaveLength(1);
+    });
+
+    test('should charge the label price of a price-embedded line', () => {
+      // 23 000 printed on the label is 0.271 kg at 85 000, which would price at 23 035
+      const cart = PricingEngine.evaluateCart([
+        { productId: 'p1', quantity: 0.271, unitPrice: 85000, lineTotal: 23000 }
+      ], []);
+
+      expect(cart.lines[0]).toMatchObject({ quantity: 0.271, grossTotal: 23000, total: 23000 });
+      expect(cart.subtotal).toBe(23000);
+    });
+  });
+
+  describe('priceCart', () => {
+    test('should resolve barcodes and categories before applying promotions', async () => {
+      (DatabaseManager.query as jest.Mock)
+        .mockResolvedValueOnce({
+          rows: [{ id: 'p1', barcode: '111', category_key: 'dairy' }]
+        })
+        .mockResolvedValueOnce({
+          rows: [{ ...buildPromotion({ category_key: 'dairy' }), discount_value: '50.00' }]
+        });
+
+      const cart = await PricingEngine.priceCart([{ productId: 'p1', quantity: 1, unitPrice: 8 }]);
+
+      expect(DatabaseManager.query).toHaveBeenCalledTimes(2);
+      expect(cart.lines[0].barcode).toBe('111');
+      expect(cart.lines[0].discountAmount).toBe(4);
+      expect(cart.subtotal).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { DatabaseManager } from '../../src/database/manager';
+import { ProductBarcodeService } from '../../src/services/ProductBarcodeService';
+
+// Mock DatabaseManager static methods
+jest.mock('../../src/database/manager', () => ({
+  DatabaseManager: {
+    query: jest.fn()
+  }
+}));
+
+describe('ProductBarcodeService Unit Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('normalize', () => {
+    test('should drop blanks, duplicates and the product\'s own barcode', () => {
+      const barcodes = ProductBarcodeService.normalize([
+        { barcode: '4600000000011' },
+        { barcode: ' 4600000000028 ', quantity_multiplier: 6, description: 'Six-pack' },
+        { barcode: '4600000000011', quantity_multiplier: 12 },
+        { barcode: '' },
+        { barcode: '4600000000004' }
+      ], '4600000000004');
+
+      expect(barcodes).toEqual([
+        { barcode: '4600000000011', quantity_multiplier: 1, description: null },
+        { barcode: '4600000000028', quantity_multiplier: 6, description: 'Six-pack' }
+      ]);
+    });
+
+    test('should fall back to a single unit for invalid multipliers', () => {
+      const [barcode] = ProductBarcodeService.normalize([{ barcode: '111', quantity_multiplier: 0 }]);
+
+      expect(barcode.quantity_multiplier).toBe(1);
+    });
+  });
+
+  describe('find', () => {
+    test('should return the multipack quantity as a number', async () => {
+      (DatabaseManager.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{ product_id: 'p1', barcode: '4600000000028', quantity_multiplier: '6.000', description: 'Six-pack' }]
+      });
+
+      const match = await ProductBarcodeService.find('4600000000028');
+
+      expect(match).toEqual({ product_id: 'p1', barcode: '4600000000028', quantity_multiplier: 6, description: 'Six-pack' });
+    });
+
+    test('should return null for unknown barcodes', async () => {
+      (DatabaseManager.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      expect(await ProductBarcodeService.find('999')).toBeNull();
+    });
+  });
+
+  describe('replaceBarcodes', () => {
+    test('should remove barcodes no longer listed and upsert the rest', async () => {
+      const client = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+
+      await ProductBarcodeService.replaceBarcodes('p1', [
+        { barcode: '111', quantity_multiplier: 1 },
+        { barcode: '222', quantity_multiplier: 12, description: 'Box' }
+      ], '000', client);
+
+      expect(client.query).toHaveBeenCalledTimes(3);
+      expect(client.query.mock.calls[0][1]).toEqual(['p1', ['111', '222']]);
+      expect(client.query.mock.calls[2][1]).toEqual(['p1', '222', 12, 'Box']);
+    });
+
+    test('should clear all additional barcodes for an empty list', async () => {
+      const client = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+
+      await ProductBarcodeService.replaceBarcodes('p1', [], null, client);
+
+      expect(client.query).toHaveBeenCalledTimes(1);
+      expect(client.query.mock.calls[0][1]).toEqual(['p1', []]);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { DatabaseManager } from '../../src/database/manager';
+import { ChainCoreClient } from '../../src/services/ChainCoreClient';
+import { PurchaseOrderService } from '../../src/services/PurchaseOrderService';
+import { PurchaseOrder } from '../../src/types';
+
+// Mock DatabaseManager static methods
+jest.mock('../../src/database/manager', () => ({
+  DatabaseManager: {
+    query: jest.fn(),
+    transaction: jest.fn()
+  }
+}));
+
+jest.mock('../../src/services/ChainCoreClient', () => ({
+  ChainCoreClient: {
+    request: jest.fn()
+  }
+}));
+
+jest.mock('../../src/services/redis', () => ({
+  RedisManager: {
+    del: jest.fn()
+  }
+}));
+
+const buildPurchaseOrder = (overrides: Partial<PurchaseOrder> = {}): PurchaseOrder => ({
+  id: 'po-1',
+  po_number: 'PO-20260101-ABC123',
+  supplier_id: 'supplier-1',
+  supplier_name: 'Dairy Supplier',
+  branch_id: 'branch-a',
+  status: 'ordered',
+  total_cost: '130000.00',
+  items: [
+    { id: 'item-1', product_id: 'p1', product_name: 'Milk', barcode: '111', quantity_ordered: '10.000', quantity_received: '4.000', unit_cost: '12000.00' },
+    { id: 'item-2', product_id: 'p2', product_name: 'Butter', barcode: '222', quantity_ordered: '5.000', quantity_received: '0.000', unit_cost: '14000.00' }
+  ],
+  ...overrides
+});
+
+describe('PurchaseOrderService Unit Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('planReceiptLines', () => {
+    test('should receive everything outstanding at the ordered cost by default', () => {
+      const lines = PurchaseOrderService.planReceiptLines(buildPurchaseOrder(), []);
+
+      expect(lines.map(line => [line.itemId, line.quantity, line.unitCost])).toEqual([
+        ['item-1', 6, 12000],
+        ['item-2', 5, 14000]
+      ]);
+    });
+
+    test('should receive only the listed lines, with their invoiced cost', () => {
+      const lines = PurchaseOrderService.planReceiptLines(buildPurchaseOrder(), [
+        { itemId: 'item-2', quantity: 3, unitCost: 13500 }
+      ]);
+
+      expect(lines).toEqual([
+        expect.objectContaining({ itemId: 'item-2', quantity: 3, unitCost: 13500 })
+      ]);
+    });
+
+    test('should reject receiving more than is outstanding', () => {
+      expect(() => PurchaseOrderService.planReceiptLines(buildPurchaseOrder(), [
+        { itemId: 'item-1', quantity: 7 }
+      ])).toThrow('outstanding quantity (6) for Milk');
+    });
+
+    test('should reject items from another purchase order', () => {
+      expect(() => PurchaseOrderService.planReceiptLines(buildPurchaseOrder(), [
+        { itemId: 'item-x', quantity: 1 }
+      ])).toThrow('does not belong');
+    });
+  });
+
+  describe('receiveGoods', () => {
+    test('should refuse purchase orders that are not approved yet', async () => {
+      (ChainCoreClient.request as jest.Mock).mockResolvedValueOnce({ purchase_order: buildPurchaseOrder({ status: 'submitted' }) });
+
+      await expect(PurchaseOrderService.receiveGoods('po-1', 'EMP001'))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(DatabaseManager.transaction).not.toHaveBeenCalled();
+    });
+
+    test('should post purchase movements with cost before booking the delivery in chain-core', async () => {
+      const client = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [{ id: 'local-p1' }] })
+          .mockResolvedValueOnce({ rows: [{ quantity_in_stock: 9 }] })
+          .mockResolvedValueOnce({ rows: [] })
+      };
+      (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(client));
+      (ChainCoreClient.request as jest.Mock)
+        .mockResolvedValueOnce({ purchase_order: buildPurchaseOrder() })
+        .mockResolvedValueOnce({ purchase_order: buildPurchaseOrder({ status: 'partially_received' }) });
+
+      const purchaseOrder = await PurchaseOrderService.receiveGoods(
+        'po-1',
+        'EMP001',
+        [{ itemId: 'item-1', quantity: 6, unitCost: 11500 }],
+        { supplierInvoiceNumber: 'INV-77' }
+      );
+
+      expect(purchaseOrder.status).toBe('partially_received');
+      expect(client.query.mock.calls[2][1]).toEqual(['local-p1', 3, 9, 6, 'po-1', 11500, 'EMP001']);
+      expect(ChainCoreClient.request).toHaveBeenLastCalledWith('POST', 'inventory/purchase-orders/po-1/receive', {
+        employee_id: 'EMP001',
+        supplier_invoice_number: 'INV-77',
+        notes: undefined,
+        items: [{ item_id: 'item-1', quantity: 6, unit_cost: 11500, notes: undefined }]
+      });
+    });
+
+    test('should not touch stock when a product is missing from the branch catalog', async () => {
+      const client = {
+        query: jest.fn().mockResolvedValueOnce({ rows: [] })
+      };
+      (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(client));
+      (ChainCoreClient.request as jest.Mock).mockResolvedValueOnce({ purchase_order: buildPurchaseOrder() });
+
+      await expect(PurchaseOrderService.receiveGoods('po-1', 'EMP001'))
+        .rejects.toThrow('Milk is not in this branch\'s catalog');
+      expect(ChainCoreClient.request).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,335 @@
+import { DatabaseManager } from '../../src/database/manager';
+import { FastPayService } from '../../src/services/FastPayService';
+import { FiscalService } from '../../src/services/FiscalService';
+import { LoyaltyService } from '../../src/services/LoyaltyService';
+import { PaymeQRService } from '../../src/services/PaymeQRService';
+import { RefundService } from '../../src/services/RefundService';
+
+// Mock DatabaseManager static methods
+jest.mock('../../src/database/manager', () => ({
+  DatabaseManager: {
+    query: jest.fn(),
+    transaction: jest.fn()
+  }
+}));
+
+jest.mock('../../src/services/FastPayService', () => ({
+  FastPayService: { reversePayment: jest.fn() }
+}));
+
+jest.mock('../../src/services/PaymeQRService', () => ({
+  PaymeQRService: { cancelReceipt: jest.fn() }
+}));
+
+jest.mock('../../src/services/ClickPassService', () => ({
+  ClickPassService: { reversePayment: jest.fn() }
+}));
+
+jest.mock('../../src/services/FiscalService', () => ({
+  FiscalService: { queueRefund: jest.fn() }
+}));
+
+jest.mock('../../src/services/LoyaltyService', () => ({
+  LoyaltyService: { reverseRefund: jest.fn(), syncLedgerInBackground: jest.fn() }
+}));
+
+// A sale of one 100.00 line paid by the given payments, kept in memory as the refund moves along
+const createDatabase = (payments: Array<{ id: string; method: string; amount: number }>) => {
+  const state = {
+    refund: null as any,
+    items: [] as any[],
+    refundPayments: [] as any[],
+    openRefundId: null as string | null,
+    inTransaction: false,
+    statements: [] as string[]
+  };
+
+  const handlers: Array<[RegExp, (params: any[]) => any]> = [
+    [/FROM transactions WHERE id = \$1 FOR UPDATE/, () => ({
+      rows: [{ id: 'tx-1', status: 'completed', subtotal: '100.00', tax_amount: '0', total_amount: '100.00' }]
+    })],
+    [/FROM transaction_items WHERE transaction_id/, () => ({
+      rows: [{ id: 'item-1', product_id: 'p1', quantity: '1', refunded_quantity: '0', unit_price: '100.00', total_price: '100.00' }]
+    })],
+    [/status = ANY\(\$2\) LIMIT 1/, () => ({ rows: state.openRefundId ? [{ id: state.openRefundId }] : [] })],
+    [/SUM\(subtotal\)/, () => ({ rows: [{ subtotal: '0', tax_amount: '0', total_amount: '0' }] })],
+    [/FROM payments p/, () => ({
+      rows: payments.map(payment => ({ ...payment, amount: String(payment.amount), change_given: '0', refunded_amount: '0' }))
+    })],
+    [/INSERT INTO refunds/, (params) => {
+      state.refund = { id: params[0], original_transaction_id: params[1], reason: params[4], employee_id: params[3], status: 'pending', total_amount: params[7] };
+      return { rows: [], rowCount: 1 };
+    }],
+    [/INSERT INTO refund_items/, (params) => {
+      state.items.push({ id: `ri-${state.items.length + 1}`, transaction_item_id: params[1], product_id: params[2], quantity: String(params[3]), refund_amount: String(params[5]), condition: params[7], restocked: false });
+      return { rows: [], rowCount: 1 };
+    }],
+    [/INSERT INTO refund_payments/, (params) => {
+      state.refundPayments.push({ id: `rp-${state.refundPayments.length + 1}`, payment_id: params[1], method: params[2], amount: String(params[3]), status: 'pending' });
+      return { rows: [], rowCount: 1 };
+    }],
+    [/SET processing_until = NOW\(\)/, () => ({ rows: state.refund && ['pending', 'partially_failed'].includes(state.refund.status) ? [state.refund] : [] })],
+    [/FROM refund_payments rp/, () => ({ rows: state.refundPayments.filter(payment => payment.status !== 'completed') })],
+    [/FROM uzum_fastpay_transactions/, () => ({ rows: [{ order_id: 'FP-1', status: 'success' }] })],
+    [/FROM payme_qr_receipts/, () => ({ rows: [{ id: 'receipt-1', receipt_id: 'PM-1', status: 'paid' }] })],
+    [/UPDATE refund_payments/, (params) => {
+      Object.assign(state.refundPayments.find(payment => payment.id === params[0]), { status: params[1], error_message: params[3] });
+      return { rows: [], rowCount: 1 };
+    }],
+    [/UPDATE refund_items SET restocked/, (params) => {
+      state.items.find(item => item.id === params[1]).restocked = params[0];
+      return { rows: [], rowCount: 1 };
+    }],
+    [/SET status = CASE/, () => {
+      state.refund.status = state.refundPayments.some(payment => payment.status === 'completed') ? 'partially_failed' : 'failed';
+      return { rows: [], rowCount: 1 };
+    }],
+    [/SET status = 'completed', completed_at/, () => {
+      state.refund.status = 'completed';
+      return { rows: [], rowCount: 1 };
+    }],
+    [/FROM refunds WHERE id = \$1/, () => ({ rows: [state.refund] })],
+    [/FROM refund_items WHERE refund_id/, () => ({ rows: state.items })],
+    [/FROM refunds r/, () => ({
+      rows: [{ ...state.refund, transaction_status: state.statements.some(sql => /UPDATE transactions SET status = 'refunded'/.test(sql)) ? 'refunded' : 'completed' }]
+    })],
+    [/FROM refund_payments WHERE refund_id/, () => ({ rows: state.refundPayments })]
+  ];
+
+  const query = jest.fn(async (sql: string, params: any[] = []) => {
+    state.statements.push(sql);
+    const handler = handlers.find(([pattern]) => pattern.test(sql));
+    return handler ? handler[1](params) : { rows: [], rowCount: 0 };
+  });
+
+  (DatabaseManager.query as jest.Mock).mockImplementation(query);
+  (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => {
+    state.inTransaction = true;
+    try {
+      return await callback({ query });
+    } finally {
+      state.inTransaction = false;
+    }
+  });
+
+  return state;
+};
+
+const ran = (state: { statements: string[] }, pattern: RegExp) => state.statements.some(sql => pattern.test(sql));
+
+describe('RefundService Unit Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('allocateRefund', () => {
+    test('should refund a single cash payment partially', () => {
+      const allocations = RefundService.allocateRefund(12.5, [
+        { paymentId: 'cash-1', method: 'cash', refundable: 50, fullReversalOnly: false }
+      ]);
+
+      expect(allocations).toEqual([{ paymentId: 'cash-1', method: 'cash', amount: 12.5 }]);
+    });
+
+    test('should reverse a FastPay payment in full when it fits in the refund', () => {
+      const allocations = RefundService.allocateRefund(100, [
+        { paymentId: 'cash-1', method: 'cash', refundable: 40, fullReversalOnly: false },
+        { paymentId: 'fastpay-1', method: 'fastpay', refundable: 60, fullReversalOnly: true }
+      ]);
+
+      expect(allocations).toEqual([
+        { paymentId: 'fastpay-1', method: 'fastpay', amount: 60 },
+        { paymentId: 'cash-1', method: 'cash', amount: 40 }
+      ]);
+    });
+
+    test('should use partial-capable methods when a full reversal would over-refund', () => {
+      const allocations = RefundService.allocateRefund(30, [
+        { paymentId: 'payme-1', method: 'payme_qr', refundable: 80, fullReversalOnly: true },
+        { paymentId: 'click-1', method: 'click_pass', refundable: 50, fullReversalOnly: false }
+      ]);
+
+      expect(allocations).toEqual([{ paymentId: 'click-1', method: 'click_pass', amount: 30 }]);
+    });
+
+    test('should reject refunds the original payments cannot cover', () => {
+      expect(() => RefundService.allocateRefund(30, [
+        { paymentId: 'fastpay-1', method: 'fastpay', refundable: 100, fullReversalOnly: true },
+        { paymentId: 'cash-1', method: 'cash', refundable: 20, fullReversalOnly: false }
+      ])).toThrow('can only be reversed in full');
+    });
+
+    test('should skip payments that were already refunded', () => {
+      const allocations = RefundService.allocateRefund(10, [
+        { paymentId: 'card-1', method: 'card', refundable: 0, fullReversalOnly: false },
+        { paymentId: 'card-2', method: 'card', refundable: 25, fullReversalOnly: false }
+      ]);
+
+      expect(allocations).toEqual([{ paymentId: 'card-2', method: 'card', amount: 10 }]);
+    });
+  });
+
+  describe('refundTransaction', () => {
+    const request = {
+      terminalId: 'POS-001',
+      employeeId: 'EMP001',
+      reason: 'Customer return',
+      items: [{ transactionItemId: 'item-1', quantity: 1, condition: 'resellable' as const }]
+    };
+
+    const runWithClient = (client: { query: jest.Mock }) => {
+      (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(client));
+    };
+
+    test('should reject refunds of transactions that are not completed', async () => {
+      const client = { query: jest.fn().mockResolvedValueOnce({ rows: [{ id: 'tx-1', status: 'voided' }] }) };
+      runWithClient(client);
+
+      await expect(RefundService.refundTransaction('tx-1', request))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    test('should reject quantities above what is left to refund', async () => {
+      const client = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [{ id: 'tx-1', status: 'completed' }] })
+          .mockResolvedValueOnce({
+            rows: [{ id: 'item-1', product_id: 'p1', quantity: 2, refunded_quantity: 2, unit_price: '5.00', total_price: '10.00' }]
+          })
+      };
+      runWithClient(client);
+
+      await expect(RefundService.refundTransaction('tx-1', request))
+        .rejects.toThrow('Only 0 unit(s)');
+    });
+
+    test('should reverse payments outside the sale lock and restock once all succeeded', async () => {
+      const state = createDatabase([
+        { id: 'pay-cash', method: 'cash', amount: 40 },
+        { id: 'pay-fp', method: 'fastpay', amount: 60 }
+      ]);
+      (FastPayService.reversePayment as jest.Mock).mockImplementation(async () => ({ success: !state.inTransaction }));
+
+      const result = await RefundService.refundTransaction('tx-1', request);
+
+      expect(result.refund.status).toBe('completed');
+      expect(result.transactionStatus).toBe('refunded');
+      expect(result.payments.map(payment => [payment.method, payment.status])).toEqual([
+        ['fastpay', 'completed'],
+        ['cash', 'completed']
+      ]);
+      expect(result.items).toEqual([expect.objectContaining({ transactionItemId: 'item-1', restocked: true })]);
+      expect(ran(state, /SET refunded_quantity/)).toBe(true);
+      expect(ran(state, /UPDATE products SET quantity_in_stock/)).toBe(true);
+      expect(FiscalService.queueRefund).toHaveBeenCalledWith(expect.anything(), state.refund.id);
+    });
+
+    test('should leave stock and the sale alone when a later reversal fails', async () => {
+      const state = createDatabase([
+        { id: 'pay-fp', method: 'fastpay', amount: 60 },
+        { id: 'pay-payme', method: 'payme_qr', amount: 40 }
+      ]);
+      (FastPayService.reversePayment as jest.Mock).mockResolvedValue({ success: true });
+      (PaymeQRService.cancelReceipt as jest.Mock).mockResolvedValue({ success: false, error: 'Payme is unavailable' });
+
+      const result = await RefundService.refundTransaction('tx-1', request);
+
+      expect(result.refund.status).toBe('partially_failed');
+      expect(result.transactionStatus).toBe('completed');
+      expect(result.payments.map(payment => [payment.method, payment.status])).toEqual([
+        ['fastpay', 'completed'],
+        ['payme_qr', 'failed']
+      ]);
+      expect(ran(state, /SET refunded_quantity/)).toBe(false);
+      expect(ran(state, /UPDATE products/)).toBe(false);
+      expect(ran(state, /INSERT INTO stock_movements/)).toBe(false);
+      expect(ran(state, /UPDATE transactions SET status/)).toBe(false);
+      expect(FiscalService.queueRefund).not.toHaveBeenCalled();
+    });
+
+    test('should close the refund without touching stock when nothing could be reversed', async () => {
+      const state = createDatabase([{ id: 'pay-fp', method: 'fastpay', amount: 100 }]);
+      (FastPayService.reversePayment as jest.Mock).mockResolvedValue({ success: false, error: 'FastPay is unavailable' });
+
+      await expect(RefundService.refundTransaction('tx-1', request))
+        .rejects.toMatchObject({ statusCode: 502, message: 'Failed to refund fastpay payment: FastPay is unavailable' });
+
+      expect(state.refund.status).toBe('failed');
+      expect(ran(state, /SET refunded_quantity/)).toBe(false);
+    });
+
+    test('should give store credit back as points inside the refund transaction', async () => {
+      const state = createDatabase([
+        { id: 'pay-credit', method: 'store_credit', amount: 30 },
+        { id: 'pay-cash', method: 'cash', amount: 70 }
+      ]);
+      let reversedInTransaction = false;
+      (LoyaltyService.reverseRefund as jest.Mock).mockImplementation(async () => {
+        reversedInTransaction = state.inTransaction;
+      });
+
+      const result = await RefundService.refundTransaction('tx-1', request);
+
+      expect(result.payments.map(payment => [payment.method, payment.status])).toEqual([
+        ['store_credit', 'completed'],
+        ['cash', 'completed']
+      ]);
+      expect(LoyaltyService.reverseRefund).toHaveBeenCalledWith(expect.anything(), state.refund.id, 'EMP001');
+      expect(reversedInTransaction).toBe(true);
+      expect(LoyaltyService.syncLedgerInBackground).toHaveBeenCalled();
+    });
+
+    test('should not touch loyalty points while a refund is unfinished', async () => {
+      createDatabase([
+        { id: 'pay-fp', method: 'fastpay', amount: 70 },
+        { id: 'pay-credit', method: 'store_credit', amount: 30 }
+      ]);
+      (FastPayService.reversePayment as jest.Mock).mockResolvedValue({ success: false, error: 'FastPay is unavailable' });
+
+      await expect(RefundService.refundTransaction('tx-1', request)).rejects.toMatchObject({ statusCode: 502 });
+
+      expect(LoyaltyService.reverseRefund).not.toHaveBeenCalled();
+    });
+
+    test('should refuse a new refund while another one of the sale is open', async () => {
+      const state = createDatabase([{ id: 'pay-cash', method: 'cash', amount: 100 }]);
+      state.openRefundId = 'refund-open';
+
+      await expect(RefundService.refundTransaction('tx-1', request))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(ran(state, /INSERT INTO refunds/)).toBe(false);
+    });
+  });
+
+  describe('retryRefund', () => {
+    test('should reverse only what is left and then complete the refund', async () => {
+      const state = createDatabase([
+        { id: 'pay-fp', method: 'fastpay', amount: 60 },
+        { id: 'pay-payme', method: 'payme_qr', amount: 40 }
+      ]);
+      (FastPayService.reversePayment as jest.Mock).mockResolvedValue({ success: true });
+      (PaymeQRService.cancelReceipt as jest.Mock).mockResolvedValueOnce({ success: false, error: 'Payme is unavailable' });
+      await RefundService.refundTransaction('tx-1', {
+        terminalId: 'POS-001',
+        employeeId: 'EMP001',
+        reason: 'Customer return',
+        items: [{ transactionItemId: 'item-1', quantity: 1, condition: 'damaged' }]
+      });
+
+      (PaymeQRService.cancelReceipt as jest.Mock).mockResolvedValueOnce({ success: true });
+      const result = await RefundService.retryRefund(state.refund.id);
+
+      expect(FastPayService.reversePayment).toHaveBeenCalledTimes(1);
+      expect(PaymeQRService.cancelReceipt).toHaveBeenCalledTimes(2);
+      expect(result.refund.status).toBe('completed');
+      expect(result.items).toEqual([expect.objectContaining({ restocked: false })]);
+      expect(ran(state, /'refund_write_off'/)).toBe(true);
+    });
+
+    test('should refuse refunds that are already completed', async () => {
+      (DatabaseManager.query as jest.Mock).mockResolvedValueOnce({ rows: [{ status: 'completed' }] });
+
+      await expect(RefundService.retryRefund('refund-1')).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { DatabaseManager } from '../../src/database/manager';
+import { createError } from '../../src/middleware/errorHandler';
+import { ChainCoreClient } from '../../src/services/ChainCoreClient';
+import { ShiftService } from '../../src/services/ShiftService';
+import { CashShift } from '../../src/types';
+
+// Mock DatabaseManager static methods
+jest.mock('../../src/database/manager', () => ({
+  DatabaseManager: {
+    query: jest.fn(),
+    transaction: jest.fn()
+  }
+}));
+
+jest.mock('../../src/services/ChainCoreClient', () => ({
+  ChainCoreClient: {
+    request: jest.fn()
+  }
+}));
+
+const mockClient = { query: jest.fn() };
+
+const shiftRow = (overrides: any = {}) => ({
+  id: 'shift-1',
+  terminal_id: 'POS-001',
+  shift_number: 4,
+  status: 'open',
+  opened_by: 'EMP001',
+  closed_by: null,
+  opening_float: '100.00',
+  expected_cash: null,
+  counted_cash: null,
+  cash_difference: null,
+  report: null,
+  notes: null,
+  opened_at: new Date('2026-10-19T08:00:00Z'),
+  closed_at: null,
+  synced_at: null,
+  sync_error: null,
+  ...overrides
+});
+
+// Results for the six report queries, in the order buildReport runs them
+const mockReportQueries = (query: jest.Mock) => {
+  query
+    .mockResolvedValueOnce({ rows: [{ count: '3', subtotal: '240.00', tax: '28.80', discounts: '5.00', total: '268.80' }] })
+    .mockResolvedValueOnce({ rows: [{ count: '1', total: '12.00' }] })
+    .mockResolvedValueOnce({
+      rows: [
+        { method: 'card', count: '1', amount: '100.00', change_given: '0.00' },
+        { method: 'cash', count: '2', amount: '200.00', change_given: '31.20' }
+      ]
+    })
+    .mockResolvedValueOnce({ rows: [{ count: '2', total: '30.00' }] })
+    .mockResolvedValueOnce({
+      rows: [
+        { method: 'cash', amount: '20.00' },
+        { method: 'payme_qr', amount: '10.00' }
+      ]
+    })
+    .mockResolvedValueOnce({
+      rows: [
+        { movement_type: 'drop', amount: '150.00' },
+        { movement_type: 'pay_in', amount: '50.00' },
+        { movement_type: 'pay_out', amount: '15.00' }
+      ]
+    });
+};
+
+describe('ShiftService Unit Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient.query.mockReset();
+    (DatabaseManager.query as jest.Mock).mockReset();
+    (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(mockClient));
+  });
+
+  describe('openShift', () => {
+    const input = { terminalId: 'POS-001', employeeId: 'EMP001', openingFloat: 100 };
+
+    test('should reject terminals that are not registered', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(ShiftService.openShift(input)).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    test('should reject a second open shift on the same terminal', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ terminal_id: 'POS-001', is_active: true }] })
+        .mockResolvedValueOnce({ rows: [{ shift_number: 3 }] });
+
+      await expect(ShiftService.openShift(input)).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    test('should open the next numbered shift with the opening float', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ terminal_id: 'POS-001', is_active: true }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ next_number: 4 }] })
+        .mockResolvedValueOnce({ rows: [shiftRow()] });
+
+      const shift = await ShiftService.openShift(input);
+
+      expect(mockClient.query.mock.calls[3][1]).toEqual(['POS-001', 4, 'EMP001', 100, null]);
+      expect(shift).toMatchObject({ shift_number: 4, status: 'open', opening_float: 100 });
+    });
+  });
+
+  describe('buildReport', () => {
+    test('should total payments per method and work out the expected cash', async () => {
+      const query = jest.fn();
+      mockReportQueries(query);
+      const shift = { ...shiftRow(), opening_float: 100, shift_number: 4 } as CashShift;
+
+      const report = await ShiftService.buildReport({ query } as any, shift, new Date('2026-10-19T16:00:00Z'), 'X');
+
+      expect(report.sales).toEqual({ count: 3, subtotal: 240, tax: 28.8, discounts: 5, total: 268.8 });
+      expect(report.voids).toEqual({ count: 1, total: 12 });
+      expect(report.payments).toEqual([
+        { method: 'card', count: 1, amount: 100, change_given: 0, net_amount: 100, refunded: 0 },
+        { method: 'cash', count: 2, amount: 200, change_given: 31.2, net_amount: 168.8, refunded: 20 },
+        { method: 'payme_qr', count: 0, amount: 0, change_given: 0, net_amount: 0, refunded: 10 }
+      ]);
+      // 100 float + 168.80 cash kept - 20 refunded + 50 in - 15 out - 150 dropped
+      expect(report.cash).toMatchObject({ sales: 168.8, refunds: 20, drops: 150, expected: 133.8 });
+    });
+
+    test('should only count sales made on the terminal during the shift', async () => {
+      const query = jest.fn();
+      mockReportQueries(query);
+      const until = new Date('2026-10-19T16:00:00Z');
+      const shift = { ...shiftRow(), opening_float: 100 } as CashShift;
+
+      await ShiftService.buildReport({ query } as any, shift, until, 'X');
+
+      expect(query.mock.calls[0][1]).toEqual(['POS-001', shift.opened_at, until]);
+      expect(query.mock.calls[5][1]).toEqual(['shift-1']);
+    });
+
+    test('should only count refunds that were completed', async () => {
+      const query = jest.fn();
+      mockReportQueries(query);
+      const shift = { ...shiftRow(), opening_float: 100 } as CashShift;
+
+      await ShiftService.buildReport({ query } as any, shift, new Date('2026-10-19T16:00:00Z'), 'X');
+
+      expect(query.mock.calls[3][0]).toContain("status = 'completed'");
+    });
+  });
+
+  describe('addMovement', () => {
+    test('should not drop more cash than the drawer should hold', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [shiftRow()] });
+      mockReportQueries(mockClient.query);
+
+      await expect(
+        ShiftService.addMovement('shift-1', { type: 'drop', amount: 200, employeeId: 'EMP001' })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    test('should record a pay-in without checking the drawer', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [shiftRow()] })
+        .mockResolvedValueOnce({ rows: [{ id: 'mov-1', shift_id: 'shift-1', movement_type: 'pay_in', amount: '25.00', employee_id: 'EMP001' }] });
+
+      const movement = await ShiftService.addMovement('shift-1', { type: 'pay_in', amount: 25, employeeId: 'EMP001' });
+
+      expect(movement).toMatchObject({ movement_type: 'pay_in', amount: 25 });
+      expect(mockClient.query).toHaveBeenCalledTimes(2);
+    });
+
+    test('should reject movements on a closed shift', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [shiftRow({ status: 'closed' })] });
+
+      await expect(
+        ShiftService.addMovement('shift-1', { type: 'pay_out', amount: 5, employeeId: 'EMP001' })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('closeShift', () => {
+    test('should store the Z report with the counted cash and the difference', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [shiftRow()] });
+      mockReportQueries(mockClient.query);
+      mockClient.query.mockImplementationOnce(async (_sql: string, params: any[]) => ({
+        rows: [shiftRow({ status: 'closed', closed_by: params[1], expected_cash: params[3], counted_cash: params[4], cash_difference: params[5], report: JSON.parse(params[6]) })]
+      }));
+      (DatabaseManager.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+      const { shift, report } = await ShiftService.closeShift('shift-1', { employeeId: 'EMP002', countedCash: 130 });
+
+      expect(report.type).toBe('Z');
+      expect(report.cash).toMatchObject({ expected: 133.8, counted: 130, difference: -3.8 });
+      expect(shift).toMatchObject({ status: 'closed', closed_by: 'EMP002', expected_cash: 133.8, cash_difference: -3.8 });
+    });
+  });
+
+  describe('syncClosedShifts', () => {
+    test('should mark shifts accepted by chain-core as synced', async () => {
+      (DatabaseManager.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [shiftRow({ status: 'closed', closed_at: new Date(), report: { type: 'Z' } })] })
+        .mockResolvedValueOnce({ rows: [] });
+      (ChainCoreClient.request as jest.Mock).mockResolvedValueOnce({ status: 'created' });
+
+      const result = await ShiftService.syncClosedShifts();
+
+      expect(ChainCoreClient.request).toHaveBeenCalledWith('POST', 'shifts/reports', expect.objectContaining({
+        branch_shift_id: 'shift-1',
+        shift_number: 4,
+        report: { type: 'Z' }
+      }));
+      expect(result).toEqual({ sent: 1, synced: 1, failed: 0 });
+    });
+
+    test('should keep a rejected report for retry with its error', async () => {
+      (DatabaseManager.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [shiftRow({ status: 'closed', closed_at: new Date() })] })
+        .mockResolvedValueOnce({ rows: [] });
+      (ChainCoreClient.request as jest.Mock).mockRejectedValueOnce(createError('Invalid report', 400));
+
+      const result = await ShiftService.syncClosedShifts();
+
+      expect(DatabaseManager.query).toHaveBeenLastCalledWith(expect.stringContaining('sync_error'), ['shift-1', 'Invalid report']);
+      expect(result).toEqual({ sent: 1, synced: 0, failed: 1 });
+    });
+
+    test('should stop when chain-core is unreachable', async () => {
+      (DatabaseManager.query as jest.Mock).mockResolvedValueOnce({
+        rows: [shiftRow({ status: 'closed', closed_at: new Date() }), shiftRow({ id: 'shift-2', status: 'closed', closed_at: new Date() })]
+      });
+      (ChainCoreClient.request as jest.Mock).mockRejectedValueOnce(createError('Chain-core is unreachable', 502));
+
+      await expect(ShiftService.syncClosedShifts()).rejects.toMatchObject({ statusCode: 502 });
+      expect(ChainCoreClient.request).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { DatabaseManager } from '../../src/database/manager';
+import { ChainCoreClient } from '../../src/services/ChainCoreClient';
+import { StockTransferService } from '../../src/services/StockTransferService';
+import { StockTransfer } from '../../src/types';
+
+// Mock DatabaseManager static methods
+jest.mock('../../src/database/manager', () => ({
+  DatabaseManager: {
+    query: jest.fn(),
+    transaction: jest.fn()
+  }
+}));
+
+jest.mock('../../src/services/ChainCoreClient', () => ({
+  ChainCoreClient: {
+    request: jest.fn()
+  }
+}));
+
+jest.mock('../../src/services/redis', () => ({
+  RedisManager: {
+    del: jest.fn()
+  }
+}));
+
+const buildTransfer = (overrides: Partial<StockTransfer> = {}): StockTransfer => ({
+  id: 'transfer-1',
+  transfer_number: 'TRF-20260101-ABC123',
+  from_branch_id: 'branch-a',
+  from_branch_name: 'Branch A',
+  to_branch_id: 'branch-b',
+  to_branch_name: 'Branch B',
+  status: 'approved',
+  has_discrepancy: false,
+  requested_at: '2026-01-01T10:00:00Z',
+  items: [
+    { id: 'item-1', product_id: 'p1', product_name: 'Milk', barcode: '111', quantity_requested: '10.000', quantity_approved: '8.000', quantity_shipped: '8.000' },
+    { id: 'item-2', product_id: 'p2', product_name: 'Bread', barcode: '222', quantity_requested: '5.000', quantity_approved: '5.000', quantity_shipped: '5.000' }
+  ],
+  ...overrides
+});
+
+describe('StockTransferService Unit Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('planStockLines', () => {
+    test('should ship the approved quantities by default', () => {
+      const lines = StockTransferService.planStockLines(buildTransfer(), 'ship', []);
+
+      expect(lines.map(line => line.quantity)).toEqual([8, 5]);
+    });
+
+    test('should record short receipts with notes', () => {
+      const lines = StockTransferService.planStockLines(buildTransfer({ status: 'shipped' }), 'receive', [
+        { itemId: 'item-1', quantity: 6, notes: 'Two bottles broken' }
+      ]);
+
+      expect(lines[0]).toMatchObject({ itemId: 'item-1', quantity: 6, notes: 'Two bottles broken' });
+      expect(lines[1]).toMatchObject({ itemId: 'item-2', quantity: 5 });
+    });
+
+    test('should reject shipping more than was approved', () => {
+      expect(() => StockTransferService.planStockLines(buildTransfer(), 'ship', [
+        { itemId: 'item-1', quantity: 9 }
+      ])).toThrow('approved quantity');
+    });
+
+    test('should reject items from another transfer', () => {
+      expect(() => StockTransferService.planStockLines(buildTransfer(), 'receive', [
+        { itemId: 'item-x', quantity: 1 }
+      ])).toThrow('does not belong');
+    });
+  });
+
+  describe('shipTransfer', () => {
+    test('should refuse transfers that are not approved', async () => {
+      (ChainCoreClient.request as jest.Mock).mockResolvedValueOnce({ transfer: buildTransfer({ status: 'requested' }) });
+
+      await expect(StockTransferService.shipTransfer('transfer-1', 'EMP001'))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(DatabaseManager.transaction).not.toHaveBeenCalled();
+    });
+
+    test('should post local stock movements before confirming with chain-core', async () => {
+      const client = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [{ id: 'local-p1', quantity_in_stock: 20 }] })
+          .mockResolvedValueOnce({ rows: [{ quantity_in_stock: 12 }] })
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rows: [{ id: 'local-p2', quantity_in_stock: 5 }] })
+          .mockResolvedValueOnce({ rows: [{ quantity_in_stock: 0 }] })
+          .mockResolvedValueOnce({ rows: [] })
+      };
+      (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(client));
+      (ChainCoreClient.request as jest.Mock)
+        .mockResolvedValueOnce({ transfer: buildTransfer() })
+        .mockResolvedValueOnce({ transfer: buildTransfer({ status: 'shipped' }) });
+
+      const transfer = await StockTransferService.shipTransfer('transfer-1', 'EMP001');
+
+      expect(transfer.status).toBe('shipped');
+      expect(ChainCoreClient.request).toHaveBeenLastCalledWith('POST', 'inventory/transfers/transfer-1/ship', {
+        employee_id: 'EMP001',
+        items: [{ item_id: 'item-1', quantity: 8 }, { item_id: 'item-2', quantity: 5 }]
+      });
+      expect(client.query.mock.calls[2][1]).toEqual(['local-p1', 20, 12, 8, 'subtract', 'transfer_out', 'transfer-1', 'EMP001']);
+    });
+
+    test('should not ship more than the branch has in stock', async () => {
+      const client = {
+        query: jest.fn().mockResolvedValueOnce({ rows: [{ id: 'local-p1', quantity_in_stock: 3 }] })
+      };
+      (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(client));
+      (ChainCoreClient.request as jest.Mock).mockResolvedValueOnce({ transfer: buildTransfer() });
+
+      await expect(StockTransferService.shipTransfer('transfer-1', 'EMP001'))
+        .rejects.toThrow('Insufficient stock for Milk');
+      expect(ChainCoreClient.request).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { DatabaseManager } from '../../src/database/manager';
+import { StocktakeService } from '../../src/services/StocktakeService';
+
+// Mock DatabaseManager static methods
+jest.mock('../../src/database/manager', () => ({
+  DatabaseManager: {
+    query: jest.fn(),
+    transaction: jest.fn()
+  }
+}));
+
+jest.mock('../../src/services/redis', () => ({
+  RedisManager: {
+    del: jest.fn()
+  }
+}));
+
+const items = [
+  { id: 'item-1', product_id: 'p1', expected_quantity: 10, counted_quantity: 8 },
+  { id: 'item-2', product_id: 'p2', expected_quantity: 5, counted_quantity: 5 },
+  { id: 'item-3', product_id: 'p3', expected_quantity: 4, counted_quantity: null },
+  { id: 'item-4', product_id: 'p4', expected_quantity: 0, counted_quantity: 3 }
+];
+
+describe('StocktakeService Unit Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('planAdjustments', () => {
+    test('should post only counted products with a variance', () => {
+      expect(StocktakeService.planAdjustments(items)).toEqual([
+        { itemId: 'item-1', productId: 'p1', variance: -2 },
+        { itemId: 'item-4', productId: 'p4', variance: 3 }
+      ]);
+    });
+
+    test('should book uncounted products as missing when asked to', () => {
+      const adjustments = StocktakeService.planAdjustments(items, { uncountedAsZero: true });
+
+      expect(adjustments).toContainEqual({ itemId: 'item-3', productId: 'p3', variance: -4 });
+    });
+
+    test('should limit the batch to the approved products', () => {
+      const adjustments = StocktakeService.planAdjustments(items, { productIds: ['p4'] });
+
+      expect(adjustments.map(adjustment => adjustment.productId)).toEqual(['p4']);
+    });
+  });
+
+  describe('createStocktake', () => {
+    test('should snapshot fractional stock of weighed products as DECIMAL quantities', async () => {
+      const client = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [{ id: 'p1', quantity_in_stock: '2.500' }, { id: 'p2', quantity_in_stock: 4 }] })
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rows: [{ id: 'st-1' }] })
+          .mockResolvedValueOnce({ rows: [] })
+      };
+      (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(client));
+      (DatabaseManager.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 'st-1', status: 'counting' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await StocktakeService.createStocktake({ scope: 'full', employeeId: 'MGR001' });
+
+      const [sql, params] = client.query.mock.calls[3];
+      expect(sql).toContain('$3::numeric[]');
+      expect(params).toEqual(['st-1', ['p1', 'p2'], [2.5, 4]]);
+    });
+  });
+
+  describe('recordCount', () => {
+    test('should add a scan to the running count of the product', async () => {
+      const client = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [{ id: 'st-1', stocktake_number: 'ST-1', status: 'counting' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'p1', name: 'Milk' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'item-1', counted_quantity: 4 }] })
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rows: [{ ...items[0], counted_quantity: 5, adjustment_quantity: null, product_name: 'Milk' }] })
+      };
+      (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(client));
+
+      const item = await StocktakeService.recordCount('st-1', { barcode: '111', quantity: 1, employeeId: 'EMP002' });
+
+      expect(client.query.mock.calls[3][1]).toEqual([5, 'item-1']);
+      expect(client.query.mock.calls[4][1]).toEqual(['st-1', 'item-1', 1, 'EMP002', null]);
+      expect(item).toMatchObject({ counted_quantity: 5, variance: -5 });
+    });
+
+    test('should add weighed counts to the DECIMAL running count', async () => {
+      const client = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [{ id: 'st-1', stocktake_number: 'ST-1', status: 'counting' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'p1', name: 'Beef Mince' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'item-1', counted_quantity: '1.250' }] })
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rows: [] })
+          .mockResolvedValueOnce({ rows: [{ ...items[0], expected_quantity: '2.000', counted_quantity: '1.705', adjustment_quantity: null }] })
+      };
+      (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(client));
+
+      const item = await StocktakeService.recordCount('st-1', { productId: 'p1', quantity: 0.455, employeeId: 'EMP002' });
+
+      expect(client.query.mock.calls[3][1]).toEqual([1.705, 'item-1']);
+      expect(item).toMatchObject({ counted_quantity: 1.705, variance: -0.295 });
+    });
+
+    test('should refuse counts once counting has finished', async () => {
+      const client = {
+        query: jest.fn().mockResolvedValueOnce({ rows: [{ id: 'st-1', stocktake_number: 'ST-1', status: 'review' }] })
+      };
+      (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(client));
+
+      await expect(StocktakeService.recordCount('st-1', { barcode: '111', quantity: 1, employeeId: 'EMP002' }))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    test('should refuse corrections that take the count below zero', async () => {
+      const client = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [{ id: 'st-1', stocktake_number: 'ST-1', status: 'counting' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'p1', name: 'Milk' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'item-1', counted_quantity: 1 }] })
+      };
+      (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(client));
+
+      await expect(StocktakeService.recordCount('st-1', { barcode: '111', quantity: -2, employeeId: 'EMP002' }))
+        .rejects.toThrow('cannot go below zero');
+      expect(client.query).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('approveStocktake', () => {
+    test('should apply variances on top of current stock as one stocktake batch', async () => {
+      const client = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [{ id: 'st-1', stocktake_number: 'ST-1', status: 'review' }] })
+          .mockResolvedValueOnce({ rows: items.slice(0, 2) })
+          // p1 sold 3 more while the shelves were counted: 7 in the system, 2 missing
+          .mockResolvedValueOnce({ rows: [{ quantity_in_stock: 7 }] })
+          .mockResolvedValue({ rows: [] })
+      };
+      (DatabaseManager.transaction as jest.Mock).mockImplementation(async (callback: any) => callback(client));
+      (DatabaseManager.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 'st-1', status: 'approved', item_count: 2, counted_count: 2, variance_count: 1 }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await StocktakeService.approveStocktake('st-1', { employeeId: 'MGR001' });
+
+      expect(client.query.mock.calls[3][1]).toEqual([5, 'p1']);
+      expect(client.query.mock.calls[4][1]).toEqual(['p1', 7, 5, 2, 'subtract', 'st-1', 'MGR001']);
+      expect(client.query.mock.calls[5][1]).toEqual([-2, 'item-1']);
+      expect(client.query.mock.calls[6][1]).toEqual(['MGR001', 'st-1']);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { DatabaseManager } from '../../src/database/manager';
+import { TaxEngine } from '../../src/services/TaxEngine';
+import { PricedCart } from '../../src/types';
+
+// Mock DatabaseManager.query static method
+jest.mock('../../src/database/manager', () => ({
+  DatabaseManager: {
+    query: jest.fn()
+  }
+}));
+
+const buildCart = (lines: Array<{ productId: string; total: number }>): PricedCart => ({
+  lines: lines.map(line => ({
+    productId: line.productId,
+    quantity: 1,
+    unitPrice: line.total,
+    grossTotal: line.total,
+    discountAmount: 0,
+    total: line.total,
+    appliedPromotionIds: [],
+    discounts: []
+  })),
+  grossSubtotal: lines.reduce((sum, line) => sum + line.total, 0),
+  discountTotal: 0,
+  subtotal: lines.reduce((sum, line) => sum + line.total, 0)
+});
+
+describe('TaxEngine Unit Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.BRANCH_TAX_RATE;
+    delete process.env.BRANCH_PRICES_INCLUDE_TAX;
+  });
+
+  describe('applyTax', () => {
+    test('should use the product rate and fall back to the branch default', () => {
+      const cart = TaxEngine.applyTax(
+        buildCart([{ productId: 'p1', total: 100 }, { productId: 'p2', total: 50 }]),
+        new Map([['p1', 0.15], ['p2', null]]),
+        { defaultRate: 0.12, pricesIncludeTax: false }
+      );
+
+      expect(cart.lines[0].taxRate).toBe(0.15);
+      expect(cart.lines[0].taxAmount).toBe(15);
+      expect(cart.lines[1].taxRate).toBe(0.12);
+      expect(cart.lines[1].taxAmount).toBe(6);
+      expect(cart.netSubtotal).toBe(150);
+      expect(cart.taxTotal).toBe(21);
+      expect(cart.total).toBe(171);
+    });
+
+    test('should keep an explicit 0% rate instead of the branch default', () => {
+      const cart = TaxEngine.applyTax(
+        buildCart([{ productId: 'p1', total: 100 }]),
+        new Map([['p1', 0]]),
+        { defaultRate: 0.12, pricesIncludeTax: false }
+      );
+
+      expect(cart.lines[0].taxRate).toBe(0);
+      expect(cart.taxTotal).toBe(0);
+      expect(cart.total).toBe(100);
+    });
+
+    test('should carve tax out of VAT-inclusive prices', () => {
+      const cart = TaxEngine.applyTax(
+        buildCart([{ productId: 'p1', total: 112 }]),
+        new Map(),
+        { defaultRate: 0.12, pricesIncludeTax: true }
+      );
+
+      expect(cart.lines[0].taxAmount).toBe(12);
+      expect(cart.lines[0].netAmount).toBe(100);
+      expect(cart.total).toBe(112);
+      expect(cart.pricesIncludeTax).toBe(true);
+    });
+
+    test('should break totals down by rate', () => {
+      const cart = TaxEngine.applyTax(
+        buildCart([
+          { productId: 'p1', total: 10 },
+          { productId: 'p2', total: 20 },
+          { productId: 'p3', total: 30 }
+        ]),
+        new Map([['p2', 0.05]]),
+        { defaultRate: 0.12, pricesIncludeTax: false }
+      );
+
+      expect(cart.taxBreakdown).toEqual([
+        { rate: 0.05, netAmount: 20, taxAmount: 1, grossAmount: 21 },
+        { rate: 0.12, netAmount: 40, taxAmount: 4.8, grossAmount: 44.8 }
+      ]);
+    });
+  });
+
+  describe('getSettings', () => {
+    test('should read branch config and treat percentages as fractions', async () => {
+      (DatabaseManager.query as jest.Mock).mockResolvedValue({
+        rows: [
+          { config_key: 'default_tax_rate', config_value: '12' },
+          { config_key: 'prices_include_tax', config_value: 'true' }
+        ]
+      });
+
+      const settings = await TaxEngine.getSettings();
+
+      expect(settings).toEqual({ defaultRate: 0.12, pricesIncludeTax: true });
+    });
+
+    test('should fall back to environment variables', async () => {
+      process.env.BRANCH_TAX_RATE = '0.08';
+      (DatabaseManager.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+      const settings = await TaxEngine.getSettings();
+
+      expect(settings).toEqual({ defaultRate: 0.08, pricesIncludeTax: false });
+    });
+  });
+
+  describe('setDefaultRate', () => {
+    test('should store the chain-core branch rate as a fraction', async () => {
+      (DatabaseManager.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+      await TaxEngine.setDefaultRate(12);
+
+      expect((DatabaseManager.query as jest.Mock).mock.calls[0][1]).toEqual(['0.12']);
+    });
+  });
+});
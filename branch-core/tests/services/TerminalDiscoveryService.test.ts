@@ -0,0 +1,187 @@
+import dgram from 'dgram';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { DatabaseManager } from '../../src/database/manager';
+import { TerminalDiscoveryService } from '../../src/services/TerminalDiscoveryService';
+
+// Mock DatabaseManager static methods
+jest.mock('../../src/database/manager', () => ({
+  DatabaseManager: {
+    query: jest.fn(),
+    transaction: jest.fn()
+  }
+}));
+
+let config: Array<{ config_key: string; config_value: string }> = [];
+let registered: Array<{ id: string; terminal_id: string; ip_address: string }> = [];
+
+const handlers: Array<[RegExp, (params: any[]) => any]> = [
+  [/FROM branch_network_config/, () => ({ rows: config })],
+  [/WHERE terminal_id = \$1/, (params) => ({ rows: registered.filter(t => t.terminal_id === params[0]) })],
+  [/WHERE host\(ip_address\) = \$1/, (params) => ({ rows: registered.filter(t => t.ip_address === params[0]) })],
+  [/terminal_id = ANY\(\$1\)/, (params) => ({
+    rows: registered.filter(t => params[0].includes(t.terminal_id) || params[1].includes(t.ip_address))
+  })]
+];
+
+const freeUdpPort = async (): Promise<number> => {
+  const socket = dgram.createSocket('udp4');
+  await new Promise<void>(resolve => socket.bind(0, '127.0.0.1', resolve));
+  const { port } = socket.address();
+  await new Promise<void>(resolve => socket.close(() => resolve()));
+  return port;
+};
+
+const waitFor = async <T>(check: () => Promise<T | undefined>): Promise<T> => {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const result = await check();
+    if (result !== undefined) {
+      return result;
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error('Timed out waiting for terminal discovery');
+};
+
+describe('TerminalDiscoveryService Unit Tests', () => {
+  const broadcast = jest.fn();
+  let udpPort: number;
+  let terminal: dgram.Socket;
+
+  const announce = (message: object | string) => new Promise<void>((resolve, reject) => {
+    const data = typeof message === 'string' ? message : JSON.stringify(message);
+    terminal.send(data, udpPort, '127.0.0.1', error => (error ? reject(error) : resolve()));
+  });
+
+  const discovered = (key: string) => waitFor(async () =>
+    (await TerminalDiscoveryService.list()).find(t => t.key === key)
+  );
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    (TerminalDiscoveryService as any).terminals.clear();
+    (TerminalDiscoveryService as any).scan = null;
+    registered = [];
+    udpPort = await freeUdpPort();
+    config = [
+      { config_key: 'auto_discover_pos', config_value: 'true' },
+      { config_key: 'terminal_discovery_port', config_value: String(udpPort) }
+    ];
+    (DatabaseManager.query as jest.Mock).mockImplementation(async (sql: string, params: any[] = []) => {
+      const handler = handlers.find(([pattern]) => pattern.test(sql));
+      return handler ? handler[1](params) : { rows: [] };
+    });
+
+    terminal = dgram.createSocket('udp4');
+    await new Promise<void>(resolve => terminal.bind(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    TerminalDiscoveryService.stop();
+    await new Promise<void>(resolve => terminal.close(() => resolve()));
+  });
+
+  describe('announcements', () => {
+    test('should record an announcing terminal and stream it to managers', async () => {
+      await TerminalDiscoveryService.start(broadcast);
+
+      await announce({
+        type: 'pos_terminal_announce',
+        terminal_id: 'POS-LK2J9',
+        name: 'Till 3',
+        port: 5173,
+        mac_address: '00:1A:2B:3C:4D:5E',
+        software_version: '1.4.0',
+        hardware_info: { platform: 'win32' }
+      });
+
+      expect(await discovered('POS-LK2J9')).toMatchObject({
+        terminal_id: 'POS-LK2J9',
+        name: 'Till 3',
+        ip_address: '127.0.0.1',
+        port: 5173,
+        mac_address: '00:1A:2B:3C:4D:5E',
+        software_version: '1.4.0',
+        source: 'announce',
+        registered_terminal_id: null
+      });
+      expect(broadcast).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'terminal_discovered',
+        payload: expect.objectContaining({ key: 'POS-LK2J9' })
+      }));
+      expect((await TerminalDiscoveryService.getStatus())).toMatchObject({ listening: true, udpPort });
+    });
+
+    test('should ignore malformed datagrams and queries from other branch servers', async () => {
+      await TerminalDiscoveryService.start(broadcast);
+
+      await announce('not json');
+      await announce({ type: 'pos_terminal_discover' });
+      await announce({ type: 'pos_terminal_announce', name: 'No ID' });
+      await announce({ type: 'pos_terminal_announce', terminal_id: 'POS-OK', mac_address: 'garbage', port: 70000 });
+
+      expect(await discovered('POS-OK')).toMatchObject({ mac_address: null, port: 5173 });
+      expect(await TerminalDiscoveryService.list()).toHaveLength(1);
+    });
+
+    test('should show which discovered terminals are already registered', async () => {
+      registered = [{ id: 'pt-1', terminal_id: 'POS-REG', ip_address: '10.0.0.5' }];
+      await TerminalDiscoveryService.start(broadcast);
+
+      await announce({ type: 'pos_terminal_announce', terminal_id: 'POS-REG' });
+
+      expect((await discovered('POS-REG')).registered_terminal_id).toBe('pt-1');
+    });
+
+    test('should not listen when automatic discovery is switched off', async () => {
+      config = [{ config_key: 'auto_discover_pos', config_value: 'false' }];
+
+      await TerminalDiscoveryService.start(broadcast);
+
+      expect(await TerminalDiscoveryService.getStatus()).toMatchObject({ enabled: false, listening: false, udpPort: null });
+    });
+  });
+
+  describe('discover', () => {
+    test('should find browser tills over HTTP and replace them once they announce', async () => {
+      const till = http.createServer((req, res) => res.end('<html></html>'));
+      await new Promise<void>(resolve => till.listen(0, '127.0.0.1', resolve));
+      config.push({ config_key: 'pos_default_port', config_value: String((till.address() as AddressInfo).port) });
+
+      try {
+        await TerminalDiscoveryService.start(broadcast);
+        const scan = await TerminalDiscoveryService.discover({ range: '127.0.0.1/32', probe: true });
+        expect(scan).toMatchObject({ range: '127.0.0.1/32', status: 'running', hosts_total: 1 });
+
+        const finished = await waitFor(async () => {
+          const status = await TerminalDiscoveryService.getStatus();
+          return status.scan?.status === 'finished' ? status : undefined;
+        });
+        expect(finished.scan).toMatchObject({ hosts_probed: 1, found: 1 });
+        expect(finished.terminals).toEqual([
+          expect.objectContaining({ key: '127.0.0.1', terminal_id: null, source: 'probe' })
+        ]);
+
+        await announce({ type: 'pos_terminal_announce', terminal_id: 'POS-NEW' });
+        await discovered('POS-NEW');
+        expect((await TerminalDiscoveryService.list()).map(t => t.key)).toEqual(['POS-NEW']);
+      } finally {
+        await new Promise<void>(resolve => till.close(() => resolve()));
+      }
+    });
+
+    test('should reject ranges that are malformed or too large to probe', async () => {
+      await expect(TerminalDiscoveryService.discover({ range: '192.168.1/24', probe: true }))
+        .rejects.toMatchObject({ statusCode: 400 });
+      await expect(TerminalDiscoveryService.discover({ range: '10.0.0.0/16', probe: true }))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    test('should only send a query without the probe', async () => {
+      await TerminalDiscoveryService.start(broadcast);
+
+      expect(await TerminalDiscoveryService.discover()).toBeNull();
+      expect(broadcast).not.toHaveBeenCalled();
+    });
+  });
+});
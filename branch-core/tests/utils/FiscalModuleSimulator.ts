@@ -0,0 +1,191 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+// Local stand-in for a virtual fiscal module / OFD. It checks receipts the way the
+// tax committee does (17-digit IKPU codes, totals in tiyin, returns pointing at a
+// registered sale) and answers with a fiscal sign and check URL. Run it directly to
+// point a dev branch-core at it (FISCAL_MODULE_URL=http://127.0.0.1:8082):
+//   npm run mock:fiscal-module
+export interface FiscalModuleSimulatorOptions {
+  token?: string;
+  terminalId?: string;
+}
+
+export interface RegisteredReceipt {
+  receiptId: string;
+  type: string;
+  body: any;
+  receiptSeq: number;
+  fiscalSign: string;
+  dateTime: string;
+  qrUrl: string;
+}
+
+export class FiscalModuleSimulator {
+  readonly receipts: RegisteredReceipt[] = [];
+  requests = 0;
+
+  private server: http.Server | null = null;
+  private failures: number[] = [];
+  private nextSeq = 1;
+
+  constructor(private options: FiscalModuleSimulatorOptions = {}) {}
+
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('Fiscal module simulator is not running');
+    }
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  get terminalId(): string {
+    return this.options.terminalId || 'VFM0000000001';
+  }
+
+  async start(port: number = 0): Promise<string> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>(resolve => this.server!.listen(port, '127.0.0.1', resolve));
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    if (this.server) {
+      await new Promise<void>(resolve => this.server!.close(() => resolve()));
+      this.server = null;
+    }
+  }
+
+  reset(): void {
+    this.receipts.length = 0;
+    this.requests = 0;
+    this.failures = [];
+  }
+
+  // Answer the next requests with these HTTP statuses, e.g. failNext(503) while "offline"
+  failNext(...statuses: number[]): void {
+    this.failures.push(...statuses);
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      this.requests++;
+
+      const failure = this.failures.shift();
+      if (failure) {
+        return this.reply(res, failure, { error: 'Fiscal module unavailable' });
+      }
+
+      if (req.method !== 'POST' || req.url !== '/api/v1/receipts') {
+        return this.reply(res, 404, { error: 'Not found' });
+      }
+
+      if (this.options.token && req.headers.authorization !== `Bearer ${this.options.token}`) {
+        return this.reply(res, 401, { error: 'Unauthorized' });
+      }
+
+      let body: any;
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      } catch {
+        return this.reply(res, 400, { error: 'Malformed JSON' });
+      }
+
+      // Idempotent on the receipt ID: a retry after a lost answer gets the same sign
+      const existing = this.receipts.find(receipt => receipt.receiptId === body.receiptId);
+      if (existing) {
+        return this.reply(res, 200, this.toResponse(existing));
+      }
+
+      const error = this.validate(body);
+      if (error) {
+        return this.reply(res, 400, { error });
+      }
+
+      const dateTime = new Date().toISOString();
+      const receiptSeq = this.nextSeq++;
+      const fiscalSign = String(Math.floor(1e11 + Math.random() * 9e11));
+      const receipt: RegisteredReceipt = {
+        receiptId: body.receiptId,
+        type: body.type,
+        body,
+        receiptSeq,
+        fiscalSign,
+        dateTime,
+        qrUrl: `https://ofd.soliq.uz/check?t=${this.terminalId}&r=${receiptSeq}&c=${dateTime.replace(/\D/g, '').slice(0, 14)}&s=${fiscalSign}`
+      };
+      this.receipts.push(receipt);
+
+      this.reply(res, 200, this.toResponse(receipt));
+    });
+  }
+
+  private validate(body: any): string | null {
+    if (!body.receiptId || !['sale', 'refund', 'void'].includes(body.type)) {
+      return 'receiptId and a sale, refund or void type are required';
+    }
+    if (!Array.isArray(body.items) || body.items.length === 0) {
+      return 'Receipt has no items';
+    }
+
+    for (const item of body.items) {
+      if (!/^\d{17}$/.test(item.ikpuCode || '')) {
+        return `Item "${item.name}" has no valid 17-digit IKPU code`;
+      }
+      if (![item.price, item.amount, item.vat, item.discount].every(Number.isInteger)) {
+        return `Item "${item.name}" amounts must be whole tiyin`;
+      }
+    }
+
+    const total = body.items.reduce((sum: number, item: any) => sum + item.amount, 0);
+    if (total !== body.total) {
+      return `Total ${body.total} does not match the items (${total})`;
+    }
+    if (body.receivedCash + body.receivedCard !== body.total) {
+      return 'Cash and card received must add up to the total';
+    }
+
+    if (body.type !== 'sale') {
+      const original = this.receipts.find(receipt =>
+        receipt.type === 'sale' && receipt.fiscalSign === body.original?.fiscalSign
+      );
+      if (!original) {
+        return 'Return receipt does not reference a registered sale';
+      }
+    }
+
+    return null;
+  }
+
+  private toResponse(receipt: RegisteredReceipt) {
+    return {
+      terminal_id: this.terminalId,
+      receipt_seq: receipt.receiptSeq,
+      date_time: receipt.dateTime,
+      fiscal_sign: receipt.fiscalSign,
+      qr_url: receipt.qrUrl
+    };
+  }
+
+  private reply(res: http.ServerResponse, status: number, body: object): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+if (require.main === module) {
+  const simulator = new FiscalModuleSimulator({ token: process.env.FISCAL_MODULE_TOKEN });
+
+  simulator.start(parseInt(process.env.MOCK_FISCAL_MODULE_PORT || '') || 8082).then(url => {
+    console.log(`🧪 Fiscal module simulator listening at ${url}`);
+    let logged = 0;
+    setInterval(() => {
+      for (const receipt of simulator.receipts.slice(logged)) {
+        console.log(`🧾 ${receipt.type} #${receipt.receiptSeq} sign ${receipt.fiscalSign} (${receipt.body.total} tiyin)`);
+      }
+      logged = simulator.receipts.length;
+    }, 1000);
+  });
+}
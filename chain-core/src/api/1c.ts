@@ -20,17 +20,22 @@ const router = Router();
 // Apply authentication middleware to all routes
 router.use(authenticateApiKey);
 
-// Mount comprehensive OneC endpoint routers with appropriate prefixes
-router.use('/products', productsRouter);
-router.use('/categories', categoriesRouter);
-router.use('/branches', branchesRouter);
-router.use('/customers', customersRouter);
-router.use('/transactions', transactionsRouter);
-router.use('/employees', employeesRouter);
-router.use('/inventory', inventoryRouter);
-router.use('/payments', paymentsRouter);
-router.use('/sync-logs', syncLogsRouter);
-router.use('/analytics', analyticsRouter);
+// Comprehensive OneC endpoint routers with their prefixes; also read by the API key permission catalogue
+export const ONEC_ROUTERS: Array<[string, Router]> = [
+  ['/products', productsRouter],
+  ['/categories', categoriesRouter],
+  ['/branches', branchesRouter],
+  ['/customers', customersRouter],
+  ['/transactions', transactionsRouter],
+  ['/employees', employeesRouter],
+  ['/inventory', inventoryRouter],
+  ['/payments', paymentsRouter],
+  ['/sync-logs', syncLogsRouter],
+  ['/analytics', analyticsRouter]
+];
 
+for (const [prefix, onecRouter] of ONEC_ROUTERS) {
+  router.use(prefix, onecRouter);
+}
 
 export default router;
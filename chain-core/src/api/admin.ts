@@ -2,16 +2,29 @@ import { Request, Response, Router } from 'express';
 import { z } from 'zod';
 import { DatabaseManager } from '../database/manager';
 import { generateApiKey } from '../middleware/auth';
-import { asyncHandler } from '../middleware/errorHandler';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { ApiKeyService } from '../services/ApiKeyService';
+import { LicenseService } from '../services/LicenseService';
+import { ONEC_EXPORT_TYPES, OneCExchangeService } from '../services/OneCExchangeService';
+import { WEBHOOK_DELIVERY_STATUSES, WEBHOOK_EVENTS, WebhookService } from '../services/WebhookService';
+import { ONEC_ROUTERS } from './1c';
 
 const router = Router();
 
 // Validation schemas
+// IP ranges are stored in CIDR notation; a bare address is a range of one
+const ipRangeSchema = z.string()
+  .refine(range => ApiKeyService.normalizeIpRange(range) !== null, 'IP ranges must be addresses or CIDR ranges, e.g. 10.0.0.0/8')
+  .transform(range => ApiKeyService.normalizeIpRange(range)!);
+
 const createApiKeySchema = z.object({
   name: z.string().min(1).max(255),
   description: z.string().optional(),
   permissions: z.array(z.string()).default([]),
-  expires_at: z.string().optional()
+  expires_at: z.string().optional(),
+  allowed_branch_codes: z.array(z.string().trim().min(1).max(50)).default([]),
+  allowed_ip_ranges: z.array(ipRangeSchema).default([]),
+  rate_limit_per_minute: z.number().int().min(1).max(100000).nullable().optional()
 });
 
 const updateApiKeySchema = z.object({
@@ -19,23 +32,94 @@ const updateApiKeySchema = z.object({
   description: z.string().optional(),
   permissions: z.array(z.string()).optional(),
   is_active: z.boolean().optional(),
-  expires_at: z.string().optional()
+  expires_at: z.string().optional(),
+  allowed_branch_codes: z.array(z.string().trim().min(1).max(50)).optional(),
+  allowed_ip_ranges: z.array(ipRangeSchema).optional(),
+  rate_limit_per_minute: z.number().int().min(1).max(100000).nullable().optional()
+});
+
+const apiKeyUsageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(7),
+  denied_only: z.enum(['true', 'false']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+});
+
+const activateLicenseSchema = z.object({
+  license_key: z.string().trim().min(1).max(100)
+});
+
+const licenseFileSchema = z.object({
+  content: z.string().min(1).max(100000)
+});
+
+const onecExchangeSettingsSchema = z.object({
+  url: z.union([z.string().trim().url(), z.literal('')]).optional(),
+  username: z.string().max(255).optional(),
+  password: z.string().max(255).optional(),
+  batch_size: z.number().int().min(1).max(10000).optional(),
+  max_attempts: z.number().int().min(1).max(10).optional()
+});
+
+const onecExportSchema = z.object({
+  types: z.array(z.enum(ONEC_EXPORT_TYPES)).min(1).optional(),
+  branch_id: z.string().uuid().optional()
+});
+
+// Receivers must be reachable over HTTP(S); events cannot be empty
+const webhookUrlSchema = z.string().trim().url().refine(url => /^https?:\/\//i.test(url), 'Webhook URL must use http or https');
+
+const createWebhookSchema = z.object({
+  api_key_id: z.string().uuid(),
+  url: webhookUrlSchema,
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  description: z.string().max(1000).optional(),
+  is_active: z.boolean().optional()
+});
+
+const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).optional(),
+  description: z.string().max(1000).nullable().optional(),
+  is_active: z.boolean().optional()
+});
+
+const webhookDeliveriesQuerySchema = z.object({
+  subscription_id: z.string().uuid().optional(),
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+  event: z.string().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
 });
 
+const API_KEY_COLUMNS = `
+  id, name, description, permissions, is_active, created_at, updated_at, expires_at,
+  last_used_at, last_used_ip, usage_count, allowed_branch_codes, allowed_ip_ranges, rate_limit_per_minute
+`;
+
+const permissionCatalogue = () => ApiKeyService.getPermissionCatalogue('/api/1c', ONEC_ROUTERS);
+
+// Permissions must be in the catalogue and branch codes must belong to existing branches
+async function validateApiKeyScopes(data: { permissions?: string[]; allowed_branch_codes?: string[] }): Promise<void> {
+  const unknownPermissions = ApiKeyService.findUnknownPermissions(permissionCatalogue(), data.permissions || []);
+  if (unknownPermissions.length > 0) {
+    throw createError(`Unknown permissions: ${unknownPermissions.join(', ')}`, 400);
+  }
+
+  const branchCodes = data.allowed_branch_codes || [];
+  if (branchCodes.length > 0) {
+    const branches = await DatabaseManager.query('SELECT code FROM branches WHERE code = ANY($1)', [branchCodes]);
+    const found = new Set(branches.rows.map((row: any) => row.code));
+    const unknownBranches = branchCodes.filter(code => !found.has(code));
+    if (unknownBranches.length > 0) {
+      throw createError(`Unknown branch codes: ${unknownBranches.join(', ')}`, 400);
+    }
+  }
+}
+
 // GET /api/admin/api-keys - List all API keys
 router.get('/api-keys', asyncHandler(async (req: Request, res: Response) => {
   const result = await DatabaseManager.query(`
     SELECT 
-      id,
-      name,
-      description,
-      permissions,
-      is_active,
-      created_at,
-      updated_at,
-      expires_at,
-      last_used_at,
-      usage_count,
+      ${API_KEY_COLUMNS},
       SUBSTRING(key_hash, 1, 8) || '...' as key_preview
     FROM api_keys
     ORDER BY created_at DESC
@@ -52,6 +136,7 @@ router.get('/api-keys', asyncHandler(async (req: Request, res: Response) => {
 // POST /api/admin/api-keys - Create new API key
 router.post('/api-keys', asyncHandler(async (req: Request, res: Response) => {
   const data = createApiKeySchema.parse(req.body);
+  await validateApiKeyScopes(data);
   
   // Generate new API key
   const apiKey = generateApiKey();
@@ -59,16 +144,20 @@ router.post('/api-keys', asyncHandler(async (req: Request, res: Response) => {
   // Insert into database
   const result = await DatabaseManager.query(`
     INSERT INTO api_keys (
-      name, key_hash, description, permissions, expires_at
+      name, key_hash, description, permissions, expires_at,
+      allowed_branch_codes, allowed_ip_ranges, rate_limit_per_minute
     ) VALUES (
-      $1, $2, $3, $4, $5
-    ) RETURNING id, name, description, permissions, is_active, created_at, expires_at
+      $1, $2, $3, $4, $5, $6, $7, $8
+    ) RETURNING ${API_KEY_COLUMNS}
   `, [
     data.name,
     apiKey,
     data.description || null,
     data.permissions,
-    data.expires_at || null
+    data.expires_at || null,
+    data.allowed_branch_codes,
+    data.allowed_ip_ranges,
+    data.rate_limit_per_minute ?? null
   ]);
 
   res.status(201).json({
@@ -85,6 +174,7 @@ router.post('/api-keys', asyncHandler(async (req: Request, res: Response) => {
 router.put('/api-keys/:id', asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const data = updateApiKeySchema.parse(req.body);
+  await validateApiKeyScopes(data);
   
   // Build dynamic update query
   const updateFields = [];
@@ -113,7 +203,7 @@ router.put('/api-keys/:id', asyncHandler(async (req: Request, res: Response) =>
     UPDATE api_keys 
     SET ${updateFields.join(', ')}
     WHERE id = $${paramCount}
-    RETURNING id, name, description, permissions, is_active, updated_at, expires_at
+    RETURNING ${API_KEY_COLUMNS}
   `, params);
   
   if (result.rows.length === 0) {
@@ -167,7 +257,7 @@ router.post('/api-keys/:id/regenerate', asyncHandler(async (req: Request, res: R
     UPDATE api_keys 
     SET key_hash = $1, updated_at = NOW()
     WHERE id = $2
-    RETURNING id, name, description, permissions, is_active
+    RETURNING ${API_KEY_COLUMNS}
   `, [newApiKey, id]);
   
   if (result.rows.length === 0) {
@@ -187,26 +277,250 @@ router.post('/api-keys/:id/regenerate', asyncHandler(async (req: Request, res: R
   });
 }));
 
-// GET /api/admin/api-keys/permissions - Get available permissions
+// GET /api/admin/api-keys/permissions - Permission catalogue generated from the 1C API routes
 router.get('/api-keys/permissions', asyncHandler(async (req: Request, res: Response) => {
-  const availablePermissions = [
-    { name: 'products:read', description: 'Read product data' },
-    { name: 'products:write', description: 'Create and update products' },
-    { name: 'inventory:read', description: 'Read inventory levels' },
-    { name: 'inventory:write', description: 'Update inventory levels' },
-    { name: 'employees:read', description: 'Read employee data' },
-    { name: 'employees:write', description: 'Create and update employees' },
-    { name: 'transactions:read', description: 'Read transaction data' },
-    { name: 'sync:execute', description: 'Execute synchronization operations' },
-    { name: '*', description: 'All permissions (admin)' }
-  ];
-  
+  const catalogue = permissionCatalogue();
+
+  res.json({
+    success: true,
+    data: {
+      permissions: catalogue.permissions,
+      routes: catalogue.routes
+    }
+  });
+}));
+
+// GET /api/admin/api-keys/:id/usage - Recent requests of an API key with a per-route summary
+router.get('/api-keys/:id/usage', asyncHandler(async (req: Request, res: Response) => {
+  const query = apiKeyUsageQuerySchema.parse(req.query);
+  const usage = await ApiKeyService.getUsage(req.params.id, {
+    days: query.days,
+    deniedOnly: query.denied_only === 'true',
+    limit: query.limit
+  });
+
+  res.json({
+    success: true,
+    data: usage
+  });
+}));
+
+// GET /api/admin/license - Current license status, limits and features
+router.get('/license', asyncHandler(async (req: Request, res: Response) => {
+  const license = await LicenseService.getState();
+
+  res.json({
+    success: true,
+    data: { license }
+  });
+}));
+
+// POST /api/admin/license/activate - Activate chain-core with a license key
+router.post('/license/activate', asyncHandler(async (req: Request, res: Response) => {
+  const { license_key } = activateLicenseSchema.parse(req.body);
+  const license = await LicenseService.activate(license_key);
+
+  res.json({
+    success: true,
+    data: { license },
+    message: 'License activated successfully'
+  });
+}));
+
+// POST /api/admin/license/refresh - Check the license with the license server now
+router.post('/license/refresh', asyncHandler(async (req: Request, res: Response) => {
+  const license = await LicenseService.refresh();
+
+  res.json({
+    success: true,
+    data: { license }
+  });
+}));
+
+// POST /api/admin/license/file - Install a signed offline license file
+router.post('/license/file', asyncHandler(async (req: Request, res: Response) => {
+  const { content } = licenseFileSchema.parse(req.body);
+  const license = await LicenseService.installLicenseFile(content);
+
+  res.json({
+    success: true,
+    data: { license },
+    message: 'License file installed successfully'
+  });
+}));
+
+// DELETE /api/admin/license/file - Remove the offline license file
+router.delete('/license/file', asyncHandler(async (req: Request, res: Response) => {
+  const license = await LicenseService.removeLicenseFile();
+
+  res.json({
+    success: true,
+    data: { license },
+    message: 'License file removed'
+  });
+}));
+
+// GET /api/admin/onec-exchange - CommerceML push to 1C: settings, pending records and recent batches
+router.get('/onec-exchange', asyncHandler(async (req: Request, res: Response) => {
+  const { password, ...settings } = await OneCExchangeService.getSettings();
+  const pending = await OneCExchangeService.getPendingCounts();
+  const batches = await DatabaseManager.query(`
+    SELECT id, sync_type, status, records_total, records_processed, records_failed,
+           error_message, metadata, started_at, completed_at
+    FROM onec_sync_logs
+    WHERE direction = 'export'
+    ORDER BY started_at DESC
+    LIMIT 20
+  `);
+
+  res.json({
+    success: true,
+    data: {
+      settings: { ...settings, has_password: !!password },
+      pending,
+      recent_batches: batches.rows
+    }
+  });
+}));
+
+// PUT /api/admin/onec-exchange - Update the 1C exchange URL, credentials and batching
+router.put('/onec-exchange', asyncHandler(async (req: Request, res: Response) => {
+  const { batch_size, max_attempts, ...changes } = onecExchangeSettingsSchema.parse(req.body);
+  const { password, ...settings } = await OneCExchangeService.updateSettings({
+    ...changes,
+    batchSize: batch_size,
+    maxAttempts: max_attempts
+  });
+
+  res.json({
+    success: true,
+    data: { settings: { ...settings, has_password: !!password } },
+    message: '1C exchange settings updated'
+  });
+}));
+
+// POST /api/admin/onec-exchange/run - Push pending records to 1C now
+router.post('/onec-exchange/run', asyncHandler(async (req: Request, res: Response) => {
+  const { types, branch_id } = onecExportSchema.parse(req.body || {});
+  const result = await OneCExchangeService.exportAll(branch_id ? { branchId: branch_id } : {}, types);
+  if (!result.configured) {
+    throw createError('1C exchange URL is not configured', 409);
+  }
+
+  res.json({
+    success: result.failed === 0,
+    data: result
+  });
+}));
+
+// GET /api/admin/webhooks - Webhook subscriptions, optionally of one API key
+router.get('/webhooks', asyncHandler(async (req: Request, res: Response) => {
+  const apiKeyId = typeof req.query.api_key_id === 'string' ? req.query.api_key_id : undefined;
+  const subscriptions = await WebhookService.getSubscriptions(apiKeyId);
+
+  res.json({
+    success: true,
+    data: {
+      subscriptions,
+      events: WEBHOOK_EVENTS
+    }
+  });
+}));
+
+// POST /api/admin/webhooks - Subscribe an API key integration to events
+router.post('/webhooks', asyncHandler(async (req: Request, res: Response) => {
+  const data = createWebhookSchema.parse(req.body);
+  const { subscription, secret } = await WebhookService.createSubscription({
+    apiKeyId: data.api_key_id,
+    url: data.url,
+    events: data.events,
+    description: data.description,
+    isActive: data.is_active
+  }, req.user?.id);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      subscription,
+      secret, // Only returned on creation and rotation
+      warning: 'Store this signing secret securely. It will not be shown again.'
+    }
+  });
+}));
+
+// PUT /api/admin/webhooks/:id - Update URL, events or state of a subscription
+router.put('/webhooks/:id', asyncHandler(async (req: Request, res: Response) => {
+  const data = updateWebhookSchema.parse(req.body);
+  const subscription = await WebhookService.updateSubscription(req.params.id, {
+    url: data.url,
+    events: data.events,
+    description: data.description,
+    isActive: data.is_active
+  });
+
+  res.json({
+    success: true,
+    data: { subscription }
+  });
+}));
+
+// DELETE /api/admin/webhooks/:id - Delete a subscription with its delivery log
+router.delete('/webhooks/:id', asyncHandler(async (req: Request, res: Response) => {
+  await WebhookService.deleteSubscription(req.params.id);
+
+  res.json({
+    success: true,
+    message: 'Webhook subscription deleted'
+  });
+}));
+
+// POST /api/admin/webhooks/:id/rotate-secret - Issue a new signing secret
+router.post('/webhooks/:id/rotate-secret', asyncHandler(async (req: Request, res: Response) => {
+  const secret = await WebhookService.rotateSecret(req.params.id);
+
   res.json({
     success: true,
     data: {
-      permissions: availablePermissions
+      secret,
+      warning: 'Store this signing secret securely. Deliveries are signed with it from now on.'
     }
   });
 }));
 
+// POST /api/admin/webhooks/:id/ping - Send a test delivery
+router.post('/webhooks/:id/ping', asyncHandler(async (req: Request, res: Response) => {
+  const delivery = await WebhookService.ping(req.params.id);
+
+  res.status(202).json({
+    success: true,
+    data: { delivery }
+  });
+}));
+
+// GET /api/admin/webhook-deliveries - Delivery log, newest first
+router.get('/webhook-deliveries', asyncHandler(async (req: Request, res: Response) => {
+  const filters = webhookDeliveriesQuerySchema.parse(req.query);
+  const deliveries = await WebhookService.getDeliveries({
+    subscriptionId: filters.subscription_id,
+    status: filters.status,
+    event: filters.event,
+    limit: filters.limit
+  });
+
+  res.json({
+    success: true,
+    data: { deliveries }
+  });
+}));
+
+// POST /api/admin/webhook-deliveries/:id/redeliver - Send a logged delivery again
+router.post('/webhook-deliveries/:id/redeliver', asyncHandler(async (req: Request, res: Response) => {
+  const delivery = await WebhookService.redeliver(req.params.id);
+
+  res.status(202).json({
+    success: true,
+    data: { delivery }
+  });
+}));
+
 export default router;
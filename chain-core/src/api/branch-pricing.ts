@@ -2,6 +2,7 @@ import { Request, Response, Router } from 'express';
 import { z } from 'zod';
 import { DatabaseManager } from '../database/manager';
 import { asyncHandler } from '../middleware/errorHandler';
+import { PriceScheduleService } from '../services/PriceScheduleService';
 
 const router = Router();
 
@@ -24,6 +25,28 @@ const updateBranchPricingSchema = createBranchPricingSchema.partial().omit({
   product_id: true,
 });
 
+// Local date and time without an offset; each branch applies it in its own timezone
+const localDateTime = z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/, 'Expected local date and time (YYYY-MM-DDTHH:mm)');
+
+const schedulePriceChangeSchema = z.object({
+  product_id: z.string().uuid('Valid product ID is required'),
+  branch_ids: z.array(z.string().uuid()).optional(), // All active branches when omitted
+  price: z.coerce.number().positive('Price must be positive'),
+  cost: z.coerce.number().min(0, 'Cost must be non-negative').optional(),
+  effective_from: localDateTime,
+  effective_until: localDateTime.optional(),
+  notes: z.string().max(500).optional(),
+});
+
+const priceScheduleQuerySchema = z.object({
+  from: localDateTime.optional(),
+  to: localDateTime.optional(),
+  branch_id: z.string().uuid().optional(),
+  product_id: z.string().uuid().optional(),
+  status: z.enum(['scheduled', 'active', 'completed', 'cancelled']).optional(),
+  include_cancelled: z.enum(['true', 'false']).optional(),
+});
+
 // GET /api/branch-pricing - Get all branch pricing
 router.get('/', asyncHandler(async (req: Request, res: Response) => {
   const { branch_id, product_id } = req.query;
@@ -253,6 +276,88 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
+// GET /api/branch-pricing/schedule - Scheduled price changes in a period (calendar)
+router.get('/schedule', asyncHandler(async (req: Request, res: Response) => {
+  const query = priceScheduleQuerySchema.parse(req.query);
+
+  const changes = await PriceScheduleService.listChanges({
+    from: query.from,
+    to: query.to,
+    branchId: query.branch_id,
+    productId: query.product_id,
+    status: query.status,
+    includeCancelled: query.include_cancelled === 'true'
+  });
+
+  res.json({
+    success: true,
+    data: { changes }
+  });
+}));
+
+// POST /api/branch-pricing/schedule - Schedule a price change for one or more branches
+router.post('/schedule', asyncHandler(async (req: Request, res: Response) => {
+  const validatedData = schedulePriceChangeSchema.parse(req.body);
+
+  const { batchId, changes } = await PriceScheduleService.scheduleChange({
+    productId: validatedData.product_id,
+    branchIds: validatedData.branch_ids,
+    price: validatedData.price,
+    cost: validatedData.cost,
+    effectiveFrom: validatedData.effective_from,
+    effectiveUntil: validatedData.effective_until,
+    notes: validatedData.notes
+  });
+
+  // Send it to the branches now; the prices sync task retries the ones that are offline
+  PriceScheduleService.deliverPending()
+    .catch(error => console.warn('⚠️ Scheduled price delivery failed:', error.message));
+
+  res.status(201).json({
+    success: true,
+    data: { batch_id: batchId, changes },
+    message: 'Price change scheduled successfully'
+  });
+}));
+
+// POST /api/branch-pricing/schedule/deliver - Send undelivered changes to branches now
+router.post('/schedule/deliver', asyncHandler(async (req: Request, res: Response) => {
+  const result = await PriceScheduleService.deliverPending();
+
+  res.json({
+    success: true,
+    data: result
+  });
+}));
+
+// DELETE /api/branch-pricing/schedule/batch/:batchId - Cancel a change in every branch it was scheduled for
+router.delete('/schedule/batch/:batchId', asyncHandler(async (req: Request, res: Response) => {
+  const cancelled = await PriceScheduleService.cancelChanges({ batchId: req.params.batchId });
+
+  PriceScheduleService.deliverPending()
+    .catch(error => console.warn('⚠️ Scheduled price delivery failed:', error.message));
+
+  res.json({
+    success: true,
+    data: { cancelled },
+    message: 'Price change cancelled successfully'
+  });
+}));
+
+// DELETE /api/branch-pricing/schedule/:id - Cancel a scheduled price change for one branch
+router.delete('/schedule/:id', asyncHandler(async (req: Request, res: Response) => {
+  const cancelled = await PriceScheduleService.cancelChanges({ changeId: req.params.id });
+
+  PriceScheduleService.deliverPending()
+    .catch(error => console.warn('⚠️ Scheduled price delivery failed:', error.message));
+
+  res.json({
+    success: true,
+    data: { cancelled },
+    message: 'Price change cancelled successfully'
+  });
+}));
+
 // DELETE /api/branch-pricing/:id - Delete branch pricing
 router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { authenticateBranchServer } from './branches/auth';
+import customersRouter from './branches/customers';
 import employeesRouter from './branches/employees';
 import inventoryRouter from './branches/inventory';
 import productsRouter from './branches/products';
+import shiftsRouter from './branches/shifts';
 import syncRouter from './branches/sync';
 import transactionsRouter from './branches/transactions';
 
@@ -17,5 +19,7 @@ router.use('/employees', employeesRouter);
 router.use('/products', productsRouter);
 router.use('/inventory', inventoryRouter);
 router.use('/sync', syncRouter);
+router.use('/customers', customersRouter);
+router.use('/shifts', shiftsRouter);
 
 export default router;
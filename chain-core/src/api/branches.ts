@@ -2,6 +2,9 @@ import { Request, Response, Router } from 'express';
 import { z } from 'zod';
 import { DatabaseManager } from '../database/manager';
 import { asyncHandler } from '../middleware/errorHandler';
+import { COSTING_METHODS } from '../services/CostingService';
+import { LicenseService } from '../services/LicenseService';
+import { ShiftReportService } from '../services/ShiftReportService';
 
 const router = Router();
 
@@ -17,6 +20,7 @@ const createBranchSchema = z.object({
   timezone: z.string().default('Asia/Tashkent'),
   currency: z.string().default('UZS'),
   taxRate: z.number().min(0).max(100).default(12),
+  costingMethod: z.enum(COSTING_METHODS).default('weighted_average'),
   isActive: z.boolean().default(true),
   apiKey: z.string().optional(),
 });
@@ -33,7 +37,7 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   const query = `
     SELECT 
       id, name, code, address, phone, email, manager_name,
-      timezone, currency, tax_rate, is_active, last_sync_at,
+      timezone, currency, tax_rate, costing_method, is_active, last_sync_at,
       api_endpoint, api_key, created_at, updated_at
     FROM branches 
     ORDER BY name ASC
@@ -49,6 +53,7 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
         isActive: branch.is_active,
         managerName: branch.manager_name,
         taxRate: parseFloat(branch.tax_rate || '0'),
+        costingMethod: branch.costing_method,
         lastSyncAt: branch.last_sync_at
       }))
     }
@@ -62,7 +67,7 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
   const query = `
     SELECT 
       id, name, code, address, phone, email, manager_name,
-      timezone, currency, tax_rate, is_active, last_sync_at,
+      timezone, currency, tax_rate, costing_method, is_active, last_sync_at,
       api_endpoint, api_key, created_at, updated_at
     FROM branches 
     WHERE id = $1
@@ -87,6 +92,7 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
         isActive: branch.is_active,
         managerName: branch.manager_name,
         taxRate: parseFloat(branch.tax_rate || '0'),
+        costingMethod: branch.costing_method,
         lastSyncAt: branch.last_sync_at
       }
     }
@@ -110,6 +116,10 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
     });
   }
   
+  if (validatedData.isActive !== false) {
+    await LicenseService.assertBranchCapacity();
+  }
+  
   // Generate API key if not provided
   const apiKey = validatedData.apiKey || generateApiKey();
   const managerName = validatedData.managerName || validatedData.manager;
@@ -117,13 +127,13 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
   const insertQuery = `
     INSERT INTO branches (
       name, code, address, phone, email, manager_name,
-      timezone, currency, tax_rate, is_active, api_key,
+      timezone, currency, tax_rate, costing_method, is_active, api_key,
       created_at, updated_at
     ) VALUES (
-      $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW(), NOW()
+      $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW(), NOW()
     )
     RETURNING id, name, code, address, phone, email, manager_name,
-             timezone, currency, tax_rate, is_active, last_sync_at,
+             timezone, currency, tax_rate, costing_method, is_active, last_sync_at,
              api_endpoint, api_key, created_at, updated_at
   `;
   
@@ -137,6 +147,7 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
     validatedData.timezone,
     validatedData.currency,
     validatedData.taxRate,
+    validatedData.costingMethod,
     validatedData.isActive,
     apiKey
   ]);
@@ -151,6 +162,7 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
         isActive: branch.is_active,
         managerName: branch.manager_name,
         taxRate: parseFloat(branch.tax_rate || '0'),
+        costingMethod: branch.costing_method,
         lastSyncAt: branch.last_sync_at
       }
     }
@@ -164,7 +176,7 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
   
   // Check if branch exists
   const existingBranch = await DatabaseManager.query(
-    'SELECT id FROM branches WHERE id = $1',
+    'SELECT id, is_active FROM branches WHERE id = $1',
     [id]
   );
   
@@ -175,6 +187,11 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
     });
   }
   
+  // Reactivating a branch takes a licensed slot like creating one
+  if (validatedData.isActive === true && !existingBranch.rows[0].is_active) {
+    await LicenseService.assertBranchCapacity();
+  }
+  
   // Build dynamic update query
   const updateFields = [];
   const values = [];
@@ -187,6 +204,7 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
       else if (key === 'manager') dbField = 'manager_name';
       else if (key === 'isActive') dbField = 'is_active';
       else if (key === 'taxRate') dbField = 'tax_rate';
+      else if (key === 'costingMethod') dbField = 'costing_method';
       else if (key === 'apiKey') dbField = 'api_key';
       
       updateFields.push(`${dbField} = $${paramIndex}`);
@@ -210,7 +228,7 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
     SET ${updateFields.join(', ')}
     WHERE id = $${paramIndex}
     RETURNING id, name, code, address, phone, email, manager_name,
-             timezone, currency, tax_rate, is_active, last_sync_at,
+             timezone, currency, tax_rate, costing_method, is_active, last_sync_at,
              api_endpoint, api_key, created_at, updated_at
   `;
   
@@ -225,6 +243,7 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
         isActive: branch.is_active,
         managerName: branch.manager_name,
         taxRate: parseFloat(branch.tax_rate || '0'),
+        costingMethod: branch.costing_method,
         lastSyncAt: branch.last_sync_at
       }
     }
@@ -317,6 +336,43 @@ router.get('/:id/stats', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
+const shiftReportsQuerySchema = z.object({
+  terminalId: z.string().optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// GET /api/branches/:id/shift-reports - Closed cash shifts (Z reports) of the branch
+router.get('/:id/shift-reports', asyncHandler(async (req: Request, res: Response) => {
+  const filters = shiftReportsQuerySchema.parse(req.query);
+  const { reports, total } = await ShiftReportService.listBranchReports(req.params.id, filters);
+
+  res.json({
+    success: true,
+    data: {
+      reports,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset,
+        hasMore: filters.offset + filters.limit < total
+      }
+    }
+  });
+}));
+
+// GET /api/branches/:id/shift-reports/:reportId - Full Z report with totals per payment method
+router.get('/:id/shift-reports/:reportId', asyncHandler(async (req: Request, res: Response) => {
+  const report = await ShiftReportService.getBranchReport(req.params.id, req.params.reportId);
+
+  res.json({
+    success: true,
+    data: { report }
+  });
+}));
+
 // GET /api/branches/:id/connection - Get branch connection status
 router.get('/:id/connection', asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -0,0 +1,93 @@
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { LoyaltyService } from '../../services/LoyaltyService';
+
+const router = Router();
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const lookupSchema = z.object({
+  card: z.string().trim().min(1).optional(),
+  phone: z.string().trim().min(3).optional()
+}).refine(data => data.card || data.phone, {
+  message: "Either 'card' or 'phone' must be provided"
+});
+
+const ledgerSchema = z.object({
+  entries: z.array(z.object({
+    id: z.string().uuid(),
+    customer_id: z.string().min(1),
+    loyalty_card_number: z.string().optional(),
+    phone: z.string().optional(),
+    name: z.string().min(1).optional(),
+    transaction_id: z.string().optional(),
+    entry_type: z.enum(['earn', 'redeem', 'reversal', 'adjustment']),
+    points: z.number().int(),
+    description: z.string().optional(),
+    employee_id: z.string().optional(),
+    created_at: z.string().datetime()
+  })).min(1).max(500)
+});
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * GET /api/branch-api/customers/lookup
+ * Find a customer by loyalty card or phone with their chain-wide points balance
+ */
+router.get('/lookup', asyncHandler(async (req: Request, res: Response) => {
+  const { card, phone } = lookupSchema.parse(req.query);
+
+  const customer = await LoyaltyService.findCustomer({ card, phone });
+  if (!customer || !customer.is_active) {
+    return res.status(404).json({
+      success: false,
+      error: 'Customer not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: {
+      customer: {
+        id: customer.id,
+        name: customer.name,
+        email: customer.email,
+        phone: customer.phone,
+        loyalty_card_number: customer.loyalty_card_number,
+        loyalty_points: customer.loyalty_points,
+        discount_percentage: parseFloat(customer.discount_percentage || 0),
+        is_vip: customer.is_vip,
+        is_active: customer.is_active
+      }
+    }
+  });
+}));
+
+/**
+ * POST /api/branch-api/customers/loyalty/ledger
+ * Apply the branch's points ledger; entries already applied are reported as duplicates
+ */
+router.post('/loyalty/ledger', asyncHandler(async (req: Request, res: Response) => {
+  const { entries } = ledgerSchema.parse(req.body);
+  const branchServer = req.branchServer!;
+
+  const results = await LoyaltyService.applyBranchEntries(branchServer.branchId, entries);
+
+  res.json({
+    success: true,
+    data: {
+      results,
+      applied: results.filter(result => result.status === 'applied').length,
+      duplicates: results.filter(result => result.status === 'duplicate').length,
+      failed: results.filter(result => result.status === 'error').length
+    }
+  });
+}));
+
+export default router;
@@ -2,6 +2,9 @@ import { Request, Response, Router } from 'express';
 import { z } from 'zod';
 import { DatabaseManager } from '../../database/manager';
 import { asyncHandler } from '../../middleware/errorHandler';
+import { CostingService } from '../../services/CostingService';
+import { PurchaseOrderService } from '../../services/PurchaseOrderService';
+import { StockTransferService } from '../../services/StockTransferService';
 import { completeBranchSyncLog, createBranchSyncLog } from './auth';
 
 const router = Router();
@@ -46,8 +49,11 @@ async function resolveProductIds(productIdentifiers: string[]): Promise<Record<s
 // VALIDATION SCHEMAS
 // ============================================================================
 
+// Either from_branch_id (replenish this branch from another one) or
+// to_branch_id (send stock from this branch to another one)
 const transferRequestSchema = z.object({
-  to_branch_id: z.string().uuid(),
+  from_branch_id: z.string().uuid().optional(),
+  to_branch_id: z.string().uuid().optional(),
   items: z.array(z.object({
     product_id: z.string(),
     quantity_requested: z.number().positive(),
@@ -55,12 +61,37 @@ const transferRequestSchema = z.object({
     notes: z.string().optional()
   })).min(1),
   notes: z.string().optional()
+}).refine(data => !!data.from_branch_id !== !!data.to_branch_id, {
+  message: 'Exactly one of from_branch_id or to_branch_id is required',
+  path: ['to_branch_id']
+});
+
+const transferQuantitiesSchema = z.object({
+  employee_id: z.string().optional(),
+  items: z.array(z.object({
+    item_id: z.string().uuid(),
+    quantity: z.number().min(0),
+    notes: z.string().optional()
+  })).default([])
+});
+
+const goodsReceivedSchema = z.object({
+  employee_id: z.string().optional(),
+  supplier_invoice_number: z.string().max(100).optional(),
+  notes: z.string().optional(),
+  items: z.array(z.object({
+    item_id: z.string().uuid(),
+    quantity: z.number().min(0),
+    unit_cost: z.number().min(0).optional(),
+    notes: z.string().optional()
+  })).default([])
 });
 
 const stockMovementSchema = z.object({
   product_id: z.string(),
   movement_type: z.enum(['sale', 'return', 'adjustment_in', 'adjustment_out', 'transfer_in', 'transfer_out', 'damage', 'expiry', 'purchase']),
   quantity_change: z.number(),
+  unit_cost: z.number().min(0).optional(), // Purchase cost of incoming stock
   reason: z.string().min(1),
   reference_id: z.string().optional(),
   notes: z.string().optional(),
@@ -481,7 +512,7 @@ router.get('/summary', asyncHandler(async (req: Request, res: Response) => {
     success: true,
     data: {
       total_products: parseInt(summary.total_products || '0'),
-      total_stock: parseInt(summary.total_stock || '0'),
+      total_stock: parseFloat(summary.total_stock || '0'),
       low_stock_count: parseInt(summary.low_stock_count || '0'),
       out_of_stock_count: parseInt(summary.out_of_stock_count || '0'),
       avg_price: parseFloat(summary.avg_price || '0'),
@@ -514,7 +545,7 @@ router.get('/summary', asyncHandler(async (req: Request, res: Response) => {
       category_id: row.category_id,
       category_name: row.category_name || 'Uncategorized',
       product_count: parseInt(row.product_count || '0'),
-      total_stock: parseInt(row.total_stock || '0'),
+      total_stock: parseFloat(row.total_stock || '0'),
       low_stock_count: parseInt(row.low_stock_count || '0'),
       category_value: parseFloat(row.category_value || '0')
     }));
@@ -534,7 +565,7 @@ router.post('/bulk-movements', asyncHandler(async (req: Request, res: Response)
     movements: z.array(z.object({
       product_id: z.string(),
       movement_type: z.enum(['sale', 'purchase', 'adjustment', 'transfer', 'damage', 'expiry']),
-      quantity: z.number().int().positive('Quantity must be a positive integer'),
+      quantity: z.number().positive('Quantity must be positive'),
       reason: z.string().min(1, 'Reason is required'),
       reference_number: z.string().optional(),
       notes: z.string().optional(),
@@ -568,7 +599,7 @@ router.post('/bulk-movements', asyncHandler(async (req: Request, res: Response)
         continue;
       }
 
-      const currentStock = inventoryCheck.rows[0].quantity_in_stock;
+      const currentStock = parseFloat(inventoryCheck.rows[0].quantity_in_stock) || 0;
       
       // Calculate new quantity based on movement type
       let quantityChange = 0;
@@ -578,7 +609,8 @@ router.post('/bulk-movements', asyncHandler(async (req: Request, res: Response)
         quantityChange = movement.quantity;
       }
 
-      const newQuantity = currentStock + quantityChange;
+      // Weighed goods move in fractions; keep float noise out of the stored quantity
+      const newQuantity = Math.round((currentStock + quantityChange) * 1000) / 1000;
 
       if (newQuantity < 0) {
         errors.push({
@@ -634,6 +666,236 @@ router.post('/bulk-movements', asyncHandler(async (req: Request, res: Response)
   });
 }));
 
+// ============================================================================
+// STOCK TRANSFER ENDPOINTS
+// ============================================================================
+
+/**
+ * POST /api/branch-api/inventory/transfer-request
+ * Request a stock transfer between this branch and another branch.
+ * The transfer waits for approval by the main office.
+ */
+router.post('/transfer-request', asyncHandler(async (req: Request, res: Response) => {
+  const transferData = transferRequestSchema.parse(req.body);
+  const branchServer = req.branchServer!;
+
+  // Resolve product identifiers to UUIDs
+  const productMapping = await resolveProductIds(transferData.items.map(item => item.product_id));
+  const unknownProduct = transferData.items.find(item => !productMapping[item.product_id]);
+  if (unknownProduct) {
+    return res.status(404).json({
+      success: false,
+      code: 'PRODUCT_NOT_FOUND',
+      message: `Product not found: ${unknownProduct.product_id}`
+    });
+  }
+
+  const transfer = await StockTransferService.createTransfer({
+    fromBranchId: transferData.from_branch_id || branchServer.branchId,
+    toBranchId: transferData.to_branch_id || branchServer.branchId,
+    requestedByBranchId: branchServer.branchId,
+    notes: transferData.notes,
+    items: transferData.items.map(item => ({
+      productId: productMapping[item.product_id],
+      quantityRequested: item.quantity_requested,
+      urgency: item.urgency,
+      notes: item.notes
+    }))
+  });
+
+  res.status(201).json({
+    success: true,
+    data: {
+      transfer_id: transfer.id,
+      transfer_number: transfer.transfer_number,
+      status: transfer.status,
+      from_branch_id: transfer.from_branch_id,
+      from_branch_name: transfer.from_branch_name,
+      to_branch_id: transfer.to_branch_id,
+      to_branch_name: transfer.to_branch_name,
+      items_requested: transfer.items.length,
+      notes: transfer.notes,
+      created_at: transfer.created_at,
+      transfer
+    }
+  });
+}));
+
+/**
+ * GET /api/branch-api/inventory/transfers
+ * List transfers sent from or to this branch
+ */
+router.get('/transfers', asyncHandler(async (req: Request, res: Response) => {
+  const branchServer = req.branchServer!;
+  const { direction, status, page = 1, limit = 50 } = req.query;
+
+  const result = await StockTransferService.listTransfers({
+    branchId: branchServer.branchId,
+    direction: direction === 'incoming' || direction === 'outgoing' ? direction : undefined,
+    status: status as any,
+    limit: Number(limit),
+    offset: (Number(page) - 1) * Number(limit)
+  });
+
+  res.json({
+    success: true,
+    data: {
+      transfers: result.transfers,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total: result.total,
+        pages: Math.ceil(result.total / Number(limit))
+      },
+      branch_code: branchServer.branchCode
+    }
+  });
+}));
+
+/**
+ * GET /api/branch-api/inventory/transfers/:id
+ * Get a transfer with its items
+ */
+router.get('/transfers/:id', asyncHandler(async (req: Request, res: Response) => {
+  const branchServer = req.branchServer!;
+  const transfer = await StockTransferService.getTransfer(req.params.id);
+
+  if (transfer.from_branch_id !== branchServer.branchId && transfer.to_branch_id !== branchServer.branchId) {
+    return res.status(404).json({
+      success: false,
+      error: 'Stock transfer not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: { transfer }
+  });
+}));
+
+/**
+ * POST /api/branch-api/inventory/transfers/:id/ship
+ * Ship an approved transfer from this branch (quantities default to the approved ones)
+ */
+router.post('/transfers/:id/ship', asyncHandler(async (req: Request, res: Response) => {
+  const shipData = transferQuantitiesSchema.parse(req.body);
+  const branchServer = req.branchServer!;
+
+  const transfer = await StockTransferService.shipTransfer(
+    req.params.id,
+    branchServer.branchId,
+    shipData.employee_id,
+    shipData.items.map(item => ({ itemId: item.item_id, quantity: item.quantity, notes: item.notes }))
+  );
+
+  res.json({
+    success: true,
+    data: { transfer }
+  });
+}));
+
+/**
+ * POST /api/branch-api/inventory/transfers/:id/receive
+ * Confirm the quantities that arrived at this branch (quantities default to the shipped ones)
+ */
+router.post('/transfers/:id/receive', asyncHandler(async (req: Request, res: Response) => {
+  const receiveData = transferQuantitiesSchema.parse(req.body);
+  const branchServer = req.branchServer!;
+
+  const transfer = await StockTransferService.receiveTransfer(
+    req.params.id,
+    branchServer.branchId,
+    receiveData.employee_id,
+    receiveData.items.map(item => ({ itemId: item.item_id, quantity: item.quantity, notes: item.notes }))
+  );
+
+  res.json({
+    success: true,
+    data: { transfer }
+  });
+}));
+
+// ============================================================================
+// PURCHASE ORDER ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/branch-api/inventory/purchase-orders
+ * List purchase orders delivered to this branch
+ */
+router.get('/purchase-orders', asyncHandler(async (req: Request, res: Response) => {
+  const branchServer = req.branchServer!;
+  const { status, page = 1, limit = 50 } = req.query;
+
+  const result = await PurchaseOrderService.listPurchaseOrders({
+    branchId: branchServer.branchId,
+    status: status as any,
+    limit: Number(limit),
+    offset: (Number(page) - 1) * Number(limit)
+  });
+
+  res.json({
+    success: true,
+    data: {
+      purchase_orders: result.purchaseOrders,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total: result.total,
+        pages: Math.ceil(result.total / Number(limit))
+      },
+      branch_code: branchServer.branchCode
+    }
+  });
+}));
+
+/**
+ * GET /api/branch-api/inventory/purchase-orders/:id
+ * Get a purchase order with its items and goods received notes
+ */
+router.get('/purchase-orders/:id', asyncHandler(async (req: Request, res: Response) => {
+  const branchServer = req.branchServer!;
+  const purchaseOrder = await PurchaseOrderService.getPurchaseOrder(req.params.id);
+
+  if (purchaseOrder.branch_id !== branchServer.branchId) {
+    return res.status(404).json({
+      success: false,
+      error: 'Purchase order not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: { purchase_order: purchaseOrder }
+  });
+}));
+
+/**
+ * POST /api/branch-api/inventory/purchase-orders/:id/receive
+ * Record a delivery against a purchase order (quantities default to everything outstanding)
+ */
+router.post('/purchase-orders/:id/receive', asyncHandler(async (req: Request, res: Response) => {
+  const receiveData = goodsReceivedSchema.parse(req.body);
+  const branchServer = req.branchServer!;
+
+  const purchaseOrder = await PurchaseOrderService.receiveGoods(req.params.id, branchServer.branchId, {
+    receivedBy: receiveData.employee_id,
+    supplierInvoiceNumber: receiveData.supplier_invoice_number,
+    notes: receiveData.notes,
+    items: receiveData.items.map(item => ({
+      itemId: item.item_id,
+      quantity: item.quantity,
+      unitCost: item.unit_cost,
+      notes: item.notes
+    }))
+  });
+
+  res.json({
+    success: true,
+    data: { purchase_order: purchaseOrder }
+  });
+}));
+
 /**
  * GET /api/branch-api/inventory/:productId
  * Get detailed inventory information for a specific product
@@ -734,105 +996,115 @@ router.post('/movements', asyncHandler(async (req: Request, res: Response) => {
     1
   );
   
-  await DatabaseManager.query('BEGIN');
-  
   try {
-    // Verify product exists
-    const productResult = await DatabaseManager.query(
-      'SELECT id, name FROM products WHERE id = $1',
-      [productId]
-    );
+    // One connection for the movement, so the stock row and cost layers stay locked until it commits
+    const { movementId, productName, currentStock, newStock, stockChange } = await DatabaseManager.transaction(async (client) => {
+      // Verify product exists
+      const productResult = await client.query(
+        'SELECT id, name FROM products WHERE id = $1',
+        [productId]
+      );
     
-    if (productResult.rows.length === 0) {
-      throw new Error('Product not found');
-    }
+      if (productResult.rows.length === 0) {
+        throw new Error('Product not found');
+      }
     
-    // Get current stock
-    const currentStockResult = await DatabaseManager.query(
-      'SELECT quantity_in_stock FROM branch_inventory WHERE product_id = $1 AND branch_id = $2',
-      [productId, branchServer.branchId]
-    );
+      // Get current stock, locked until the new level is written
+      const currentStockResult = await client.query(
+        'SELECT quantity_in_stock FROM branch_inventory WHERE product_id = $1 AND branch_id = $2 FOR UPDATE',
+        [productId, branchServer.branchId]
+      );
     
-    const currentStock = currentStockResult.rows[0]?.quantity_in_stock || 0;
+      const currentStock = parseFloat(currentStockResult.rows[0]?.quantity_in_stock || '0');
     
-    // Calculate new stock level
-    let stockChange = 0;
-    let dbMovementType: 'sale' | 'return' | 'adjustment' | 'transfer_in' | 'transfer_out' | 'damaged' | 'expired' = 'adjustment';
+      // Calculate new stock level
+      let stockChange = 0;
+      let dbMovementType: 'sale' | 'return' | 'adjustment' | 'transfer_in' | 'transfer_out' | 'purchase' | 'damaged' | 'expired' = 'adjustment';
     
-    // Map movement types to valid database constraint values
-    switch (movementData.movement_type) {
-      case 'adjustment_in':
-        stockChange = movementData.quantity_change;
-        dbMovementType = 'adjustment';
-        break;
-      case 'return':
-        stockChange = movementData.quantity_change;
-        dbMovementType = 'return';
-        break;
-      case 'transfer_in':
-        stockChange = movementData.quantity_change;
-        dbMovementType = 'transfer_in';
-        break;
-      case 'purchase':
-        stockChange = movementData.quantity_change;
-        dbMovementType = 'transfer_in'; // Map purchase to transfer_in
-        break;
-      case 'sale':
-        stockChange = -Math.abs(movementData.quantity_change);
-        dbMovementType = 'sale';
-        break;
-      case 'adjustment_out':
-        stockChange = -Math.abs(movementData.quantity_change);
-        dbMovementType = 'adjustment';
-        break;
-      case 'transfer_out':
-        stockChange = -Math.abs(movementData.quantity_change);
-        dbMovementType = 'transfer_out';
-        break;
-      case 'damage':
-        stockChange = -Math.abs(movementData.quantity_change);
-        dbMovementType = 'damaged'; // Maps to 'damaged' in constraint
-        break;
-      case 'expiry':
-        stockChange = -Math.abs(movementData.quantity_change);
-        dbMovementType = 'expired'; // Maps to 'expired' in constraint
-        break;
-      default:
-        // Default to adjustment for unknown types
-        stockChange = movementData.quantity_change;
-        dbMovementType = 'adjustment'; // Maps to 'adjustment' in constraint
-        break;
-    }
+      // Map movement types to valid database constraint values
+      switch (movementData.movement_type) {
+        case 'adjustment_in':
+          stockChange = movementData.quantity_change;
+          dbMovementType = 'adjustment';
+          break;
+        case 'return':
+          stockChange = movementData.quantity_change;
+          dbMovementType = 'return';
+          break;
+        case 'transfer_in':
+          stockChange = movementData.quantity_change;
+          dbMovementType = 'transfer_in';
+          break;
+        case 'purchase':
+          stockChange = movementData.quantity_change;
+          dbMovementType = 'purchase';
+          break;
+        case 'sale':
+          stockChange = -Math.abs(movementData.quantity_change);
+          dbMovementType = 'sale';
+          break;
+        case 'adjustment_out':
+          stockChange = -Math.abs(movementData.quantity_change);
+          dbMovementType = 'adjustment';
+          break;
+        case 'transfer_out':
+          stockChange = -Math.abs(movementData.quantity_change);
+          dbMovementType = 'transfer_out';
+          break;
+        case 'damage':
+          stockChange = -Math.abs(movementData.quantity_change);
+          dbMovementType = 'damaged'; // Maps to 'damaged' in constraint
+          break;
+        case 'expiry':
+          stockChange = -Math.abs(movementData.quantity_change);
+          dbMovementType = 'expired'; // Maps to 'expired' in constraint
+          break;
+        default:
+          // Default to adjustment for unknown types
+          stockChange = movementData.quantity_change;
+          dbMovementType = 'adjustment'; // Maps to 'adjustment' in constraint
+          break;
+      }
     
-    const newStock = Math.max(0, currentStock + stockChange);
+      const newStock = Math.max(0, currentStock + stockChange);
     
-    // Record the stock movement
-    const movementResult = await DatabaseManager.query(`
-      INSERT INTO stock_movements (
-        branch_id, product_id, movement_type, quantity,
-        reference_type, notes, created_at
-      ) VALUES (
-        $1, $2, $3, $4, $5, $6, NOW()
-      ) RETURNING id
-    `, [
-      branchServer.branchId, productId, dbMovementType,
-      Math.abs(stockChange), movementData.reference_id, movementData.notes
-    ]);
+      const unitCost = await CostingService.recordMovement({
+        branchId: branchServer.branchId,
+        productId,
+        quantityChange: newStock - currentStock,
+        unitCost: movementData.unit_cost,
+        movementType: dbMovementType
+      }, client);
     
-    // Update inventory
-    await DatabaseManager.query(`
-      INSERT INTO branch_inventory (
-        branch_id, product_id, quantity_in_stock, updated_at
-      ) VALUES (
-        $1, $2, $3, NOW()
-      )
-      ON CONFLICT (branch_id, product_id)
-      DO UPDATE SET
-        quantity_in_stock = $3,
-        updated_at = NOW()
-    `, [branchServer.branchId, productId, newStock]);
+      // Record the stock movement
+      const movementResult = await client.query(`
+        INSERT INTO stock_movements (
+          branch_id, product_id, movement_type, quantity, unit_cost,
+          reference_type, notes, created_at
+        ) VALUES (
+          $1, $2, $3, $4, $5, $6, $7, NOW()
+        ) RETURNING id
+      `, [
+        branchServer.branchId, productId, dbMovementType,
+        Math.abs(stockChange), unitCost, movementData.reference_id, movementData.notes
+      ]);
+    
+      // Update inventory
+      await client.query(`
+        INSERT INTO branch_inventory (
+          branch_id, product_id, quantity_in_stock, updated_at
+        ) VALUES (
+          $1, $2, $3, NOW()
+        )
+        ON CONFLICT (branch_id, product_id)
+        DO UPDATE SET
+          quantity_in_stock = $3,
+          updated_at = NOW()
+      `, [branchServer.branchId, productId, newStock]);
+    
+      return { movementId: movementResult.rows[0].id as string, productName: productResult.rows[0].name as string, currentStock, newStock, stockChange };
+    });
     
-    await DatabaseManager.query('COMMIT');
     await completeBranchSyncLog(syncId, 'completed', 1);
     
     res.status(201).json({
@@ -840,9 +1112,9 @@ router.post('/movements', asyncHandler(async (req: Request, res: Response) => {
       data: {
         message: 'Stock movement recorded successfully',
         sync_id: syncId,
-        movement_id: movementResult.rows[0].id,
+        movement_id: movementId,
         product_id: productId,
-        product_name: productResult.rows[0].name,
+        product_name: productName,
         movement_type: movementData.movement_type,
         quantity: Math.abs(movementData.quantity_change),
         previous_stock: currentStock,
@@ -853,61 +1125,11 @@ router.post('/movements', asyncHandler(async (req: Request, res: Response) => {
     });
     
   } catch (error) {
-    await DatabaseManager.query('ROLLBACK');
     await completeBranchSyncLog(syncId, 'failed', 0, (error as Error).message);
     throw error;
   }
 }));
 
-/**
- * POST /api/branch-api/inventory/transfer-request
- * Create transfer request for stock replenishment
- */
-router.post('/transfer-request', asyncHandler(async (req: Request, res: Response) => {
-  const transferData = transferRequestSchema.parse(req.body);
-  const branchServer = req.branchServer!;
-  
-  // Verify target branch exists
-  const branchResult = await DatabaseManager.query(
-    'SELECT id, name FROM branches WHERE id = $1 AND is_active = true',
-    [transferData.to_branch_id]
-  );
-  
-  if (branchResult.rows.length === 0) {
-    return res.status(404).json({
-      success: false,
-      error: 'Target branch not found'
-    });
-  }
-  
-  const targetBranch = branchResult.rows[0];
-  
-  // Create transfer request (simplified - in real system this would go to a proper transfer system)
-  const transferResult = await DatabaseManager.query(`
-    INSERT INTO branch_sync_logs (
-      branch_id, sync_type, direction, status, records_processed, started_at
-    ) VALUES (
-      $1, 'inventory_transfer_request', 'to_branch', 'pending', $2, NOW()
-    ) RETURNING id
-  `, [branchServer.branchId, transferData.items.length]);
-  
-  const transferId = transferResult.rows[0].id;
-  
-  res.status(201).json({
-    success: true,
-    data: {
-      transfer_id: transferId,
-      status: 'pending',
-      from_branch_id: branchServer.branchId,
-      to_branch_id: transferData.to_branch_id,
-      to_branch_name: targetBranch.name,
-      items_requested: transferData.items.length,
-      notes: transferData.notes,
-      created_at: new Date().toISOString()
-    }
-  });
-}));
-
 /**
  * POST /api/branches/inventory/movements/bulk
  * Record multiple stock movements at once
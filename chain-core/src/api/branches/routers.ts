@@ -1,24 +1,30 @@
 // Branch Integration Router Exports
 // This file exports all branch-to-chain-core integration endpoint routers
 
+import customersRouter from './customers';
 import employeesRouter from './employees';
 import inventoryRouter from './inventory';
 import productsRouter from './products';
+import shiftsRouter from './shifts';
 import syncRouter from './sync';
 import transactionsRouter from './transactions';
 
 export {
+  customersRouter,
   employeesRouter,
   inventoryRouter,
   productsRouter,
+  shiftsRouter,
   syncRouter,
   transactionsRouter
 };
 
 export default {
+  customers: customersRouter,
   employees: employeesRouter,
   inventory: inventoryRouter,
   products: productsRouter,
+  shifts: shiftsRouter,
   sync: syncRouter,
   transactions: transactionsRouter
 };
@@ -0,0 +1,65 @@
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { ShiftReportService } from '../../services/ShiftReportService';
+
+const router = Router();
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const shiftReportSchema = z.object({
+  branch_shift_id: z.string().uuid(),
+  terminal_id: z.string().min(1),
+  shift_number: z.number().int().positive(),
+  opened_by: z.string().min(1),
+  closed_by: z.string().nullable().optional(),
+  opened_at: z.string().datetime(),
+  closed_at: z.string().datetime(),
+  opening_float: z.number().min(0),
+  expected_cash: z.number(),
+  counted_cash: z.number().min(0),
+  cash_difference: z.number(),
+  notes: z.string().optional(),
+  report: z.object({
+    type: z.literal('Z'),
+    sales: z.object({
+      count: z.number().int(),
+      total: z.number()
+    }).passthrough(),
+    payments: z.array(z.object({
+      method: z.string(),
+      amount: z.number(),
+      net_amount: z.number()
+    }).passthrough()),
+    cash: z.object({
+      expected: z.number()
+    }).passthrough()
+  }).passthrough()
+});
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * POST /api/branch-api/shifts/reports
+ * Store the Z report of a closed cash shift; a resent report replaces the stored one
+ */
+router.post('/reports', asyncHandler(async (req: Request, res: Response) => {
+  const report = shiftReportSchema.parse(req.body);
+  const branchServer = req.branchServer!;
+
+  const { id, created } = await ShiftReportService.saveBranchReport(branchServer.branchId, report);
+
+  res.status(created ? 201 : 200).json({
+    success: true,
+    data: {
+      id,
+      status: created ? 'created' : 'updated'
+    }
+  });
+}));
+
+export default router;
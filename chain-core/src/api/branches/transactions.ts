@@ -2,6 +2,9 @@ import { Request, Response, Router } from 'express';
 import { z } from 'zod';
 import { DatabaseManager } from '../../database/manager';
 import { asyncHandler } from '../../middleware/errorHandler';
+import { CostingService, IssuedCost } from '../../services/CostingService';
+import { WebhookService } from '../../services/WebhookService';
+import { WebSocketManager } from '../../services/websocket';
 import { completeBranchSyncLog, createBranchSyncLog } from './auth';
 
 const router = Router();
@@ -107,269 +110,315 @@ router.post('/submit', asyncHandler(async (req: Request, res: Response) => {
     1
   );
   
-  await DatabaseManager.query('BEGIN');
-  
   try {
-    // Find employee
-    const employeeResult = await DatabaseManager.query(
-      'SELECT id FROM employees WHERE employee_id = $1 AND branch_id = $2',
-      [transactionData.employee_id, branchServer.branchId]
-    );
+    // One connection for the whole sale, so stock and cost layer locks hold until it commits
+    const { transactionId, wasCompleted, payments } = await DatabaseManager.transaction(async (client) => {
+      // Find employee
+      const employeeResult = await client.query(
+        'SELECT id FROM employees WHERE employee_id = $1 AND branch_id = $2',
+        [transactionData.employee_id, branchServer.branchId]
+      );
     
-    if (employeeResult.rows.length === 0) {
-      throw new Error(`Employee with ID "${transactionData.employee_id}" not found in branch`);
-    }
+      if (employeeResult.rows.length === 0) {
+        throw new Error(`Employee with ID "${transactionData.employee_id}" not found in branch`);
+      }
     
-    const employeeId = employeeResult.rows[0].id;
+      const employeeId = employeeResult.rows[0].id;
+
+      // Check if transaction already exists
+      const existingResult = await client.query(
+        'SELECT id, status FROM transactions WHERE transaction_number = $1 AND branch_id = $2',
+        [transactionData.transaction_number, branchServer.branchId]
+      );
+      // A resent sale that was already completed is not announced, costed or taken from stock again
+      const wasCompleted = existingResult.rows[0]?.status === 'completed';
+      const takesStock = transactionData.status === 'completed' && !wasCompleted;
     
-    // First validate that all items have sufficient stock
-    for (const item of transactionData.items) {
-      let productId: string | undefined = item.product_id;
+      // First validate that all items have sufficient stock
+      for (const item of transactionData.items) {
+        let productId: string | undefined = item.product_id;
       
-      // Find product if not directly provided as internal ID
-      if (productId) {
-        // Check if it's an internal UUID or external ID
-        const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-        if (!uuidRegex.test(productId)) {
-          // It's an external ID (onec_id), find the internal ID
-          const productResult = await DatabaseManager.query(
-            'SELECT id FROM products WHERE onec_id = $1',
-            [productId]
+        // Find product if not directly provided as internal ID
+        if (productId) {
+          // Check if it's an internal UUID or external ID
+          const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+          if (!uuidRegex.test(productId)) {
+            // It's an external ID (onec_id), find the internal ID
+            const productResult = await client.query(
+              'SELECT id FROM products WHERE onec_id = $1',
+              [productId]
+            );
+            if (productResult.rows.length > 0) {
+              productId = productResult.rows[0].id;
+            } else {
+              productId = undefined;
+            }
+          }
+        }
+      
+        // Find product by barcode if still not found
+        if (!productId && item.product_barcode) {
+          const productResult = await client.query(
+            'SELECT id FROM products WHERE barcode = $1',
+            [item.product_barcode]
           );
           if (productResult.rows.length > 0) {
             productId = productResult.rows[0].id;
-          } else {
-            productId = undefined;
           }
         }
-      }
       
-      // Find product by barcode if still not found
-      if (!productId && item.product_barcode) {
-        const productResult = await DatabaseManager.query(
-          'SELECT id FROM products WHERE barcode = $1',
-          [item.product_barcode]
-        );
-        if (productResult.rows.length > 0) {
-          productId = productResult.rows[0].id;
-        }
-      }
-      
-      if (productId && transactionData.status === 'completed') {
-        // Check current stock
-        const stockResult = await DatabaseManager.query(`
-          SELECT quantity_in_stock FROM branch_inventory 
-          WHERE branch_id = $1 AND product_id = $2
-        `, [branchServer.branchId, productId]);
+        if (productId && takesStock) {
+          // Check current stock, locked so a concurrent sale cannot take it in between
+          const stockResult = await client.query(`
+            SELECT quantity_in_stock FROM branch_inventory 
+            WHERE branch_id = $1 AND product_id = $2
+            FOR UPDATE
+          `, [branchServer.branchId, productId]);
         
-        const currentStock = stockResult.rows[0]?.quantity_in_stock || 0;
+          const currentStock = stockResult.rows[0]?.quantity_in_stock || 0;
         
-        if (currentStock < item.quantity) {
-          throw new Error(`INSUFFICIENT_STOCK: Product ${item.product_name || item.name} has insufficient stock. Available: ${currentStock}, Requested: ${item.quantity}`);
+          if (currentStock < item.quantity) {
+            throw new Error(`INSUFFICIENT_STOCK: Product ${item.product_name || item.name} has insufficient stock. Available: ${currentStock}, Requested: ${item.quantity}`);
+          }
         }
       }
-    }
-    let customerId = null;
-    if (transactionData.customer_id) {
-      const customerResult = await DatabaseManager.query(
-        'SELECT id FROM customers WHERE id = $1',
-        [transactionData.customer_id]
-      );
-      if (customerResult.rows.length > 0) {
-        customerId = customerResult.rows[0].id;
-      }
-    } else if (transactionData.customer_phone || transactionData.customer_loyalty_card) {
-      const customerQuery = `
-        SELECT id FROM customers 
-        WHERE phone = $1 OR loyalty_card_number = $2
-      `;
-      const customerResult = await DatabaseManager.query(
-        customerQuery, 
-        [transactionData.customer_phone, transactionData.customer_loyalty_card]
-      );
-      if (customerResult.rows.length > 0) {
-        customerId = customerResult.rows[0].id;
+      let customerId = null;
+      if (transactionData.customer_id) {
+        const customerResult = await client.query(
+          'SELECT id FROM customers WHERE id = $1',
+          [transactionData.customer_id]
+        );
+        if (customerResult.rows.length > 0) {
+          customerId = customerResult.rows[0].id;
+        }
+      } else if (transactionData.customer_phone || transactionData.customer_loyalty_card) {
+        const customerQuery = `
+          SELECT id FROM customers 
+          WHERE phone = $1 OR loyalty_card_number = $2
+        `;
+        const customerResult = await client.query(
+          customerQuery, 
+          [transactionData.customer_phone, transactionData.customer_loyalty_card]
+        );
+        if (customerResult.rows.length > 0) {
+          customerId = customerResult.rows[0].id;
+        }
       }
-    }
     
-    // Check if transaction already exists
-    const existingResult = await DatabaseManager.query(
-      'SELECT id FROM transactions WHERE transaction_number = $1 AND branch_id = $2',
-      [transactionData.transaction_number, branchServer.branchId]
-    );
-    
-    let transactionId;
-    if (existingResult.rows.length > 0) {
-      // Update existing transaction
-      transactionId = existingResult.rows[0].id;
-      await DatabaseManager.query(`
-        UPDATE transactions SET
-          employee_id = $1,
-          customer_id = $2,
-          terminal_id = $3,
-          transaction_date = $4,
-          subtotal_amount = $5,
-          discount_amount = $6,
-          tax_amount = $7,
-          total_amount = $8,
-          status = $9,
-          notes = $10,
-          metadata = $11,
-          updated_at = NOW()
-        WHERE id = $12
-      `, [
-        employeeId, customerId, transactionData.terminal_id,
-        transactionData.transaction_date, transactionData.subtotal,
-        transactionData.discount_amount, transactionData.tax_amount, transactionData.total_amount,
-        transactionData.status, transactionData.notes,
-        JSON.stringify(transactionData.metadata || {}), transactionId
-      ]);
+      let transactionId: string;
+      // Costs fixed when the sale was first completed, per product in line order
+      const previousCosts = new Map<string, Array<Pick<IssuedCost, 'unitCost' | 'costAmount'>>>();
+      if (existingResult.rows.length > 0) {
+        // Update existing transaction
+        transactionId = existingResult.rows[0].id;
+        await client.query(`
+          UPDATE transactions SET
+            employee_id = $1,
+            customer_id = $2,
+            terminal_id = $3,
+            completed_at = $4,
+            subtotal = $5,
+            discount_amount = $6,
+            tax_amount = $7,
+            total_amount = $8,
+            status = $9,
+            notes = $10,
+            updated_at = NOW()
+          WHERE id = $11
+        `, [
+          employeeId, customerId, transactionData.terminal_id,
+          transactionData.transaction_date, transactionData.subtotal,
+          transactionData.discount_amount, transactionData.tax_amount, transactionData.total_amount,
+          transactionData.status, transactionData.notes, transactionId
+        ]);
       
-      // Delete existing items and payments to recreate them
-      await DatabaseManager.query('DELETE FROM transaction_items WHERE transaction_id = $1', [transactionId]);
-      await DatabaseManager.query('DELETE FROM payments WHERE transaction_id = $1', [transactionId]);
+        if (wasCompleted) {
+          const previousItems = await client.query(
+            'SELECT product_id, unit_cost, cost_amount FROM transaction_items WHERE transaction_id = $1 ORDER BY created_at, id',
+            [transactionId]
+          );
+          for (const row of previousItems.rows) {
+            if (!row.product_id || row.unit_cost === null) continue;
+            const costs = previousCosts.get(row.product_id) || [];
+            costs.push({ unitCost: parseFloat(row.unit_cost), costAmount: parseFloat(row.cost_amount) });
+            previousCosts.set(row.product_id, costs);
+          }
+        }
+
+        // Delete existing items and payments to recreate them
+        await client.query('DELETE FROM transaction_items WHERE transaction_id = $1', [transactionId]);
+        await client.query('DELETE FROM payments WHERE transaction_id = $1', [transactionId]);
       
-    } else {
-      // Create new transaction
-      const insertResult = await DatabaseManager.query(`
-        INSERT INTO transactions (
-          transaction_number, branch_id, employee_id, customer_id, terminal_id,
-          completed_at, subtotal, discount_amount, tax_amount, total_amount,
-          status, notes, created_at, updated_at
-        ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW(), NOW()
-        ) RETURNING id
-      `, [
-        transactionData.transaction_number || transactionData.transaction_id || transactionData.receipt_number, 
-        branchServer.branchId, employeeId, customerId,
-        transactionData.terminal_id, transactionData.transaction_date, transactionData.subtotal,
-        transactionData.discount_amount, transactionData.tax_amount, transactionData.total_amount,
-        transactionData.status, transactionData.notes
-      ]);
-      transactionId = insertResult.rows[0].id;
-    }
+      } else {
+        // Create new transaction
+        const insertResult = await client.query(`
+          INSERT INTO transactions (
+            transaction_number, branch_id, employee_id, customer_id, terminal_id,
+            completed_at, subtotal, discount_amount, tax_amount, total_amount,
+            status, notes, created_at, updated_at
+          ) VALUES (
+            $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW(), NOW()
+          ) RETURNING id
+        `, [
+          transactionData.transaction_number || transactionData.transaction_id || transactionData.receipt_number, 
+          branchServer.branchId, employeeId, customerId,
+          transactionData.terminal_id, transactionData.transaction_date, transactionData.subtotal,
+          transactionData.discount_amount, transactionData.tax_amount, transactionData.total_amount,
+          transactionData.status, transactionData.notes
+        ]);
+        transactionId = insertResult.rows[0].id;
+      }
     
-    // Create transaction items
-    for (const item of transactionData.items) {
-      // Find product if provided
-      let productId = null;
-      if (item.product_id) {
-        // Try to find by onec_id first, then by UUID
-        let productResult = await DatabaseManager.query(
-          'SELECT id FROM products WHERE onec_id = $1',
-          [item.product_id]
-        );
-        
-        // If not found by onec_id, try by UUID (only if it looks like a UUID)
-        if (productResult.rows.length === 0 && item.product_id.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
-          productResult = await DatabaseManager.query(
-            'SELECT id FROM products WHERE id = $1',
+      // Create transaction items
+      for (const item of transactionData.items) {
+        // Find product if provided
+        let productId = null;
+        if (item.product_id) {
+          // Try to find by onec_id first, then by UUID
+          let productResult = await client.query(
+            'SELECT id FROM products WHERE onec_id = $1',
             [item.product_id]
           );
-        }
         
-        if (productResult.rows.length > 0) {
-          productId = productResult.rows[0].id;
-        }
-      } else if (item.product_barcode) {
-        const productResult = await DatabaseManager.query(
-          'SELECT id FROM products WHERE barcode = $1',
-          [item.product_barcode]
-        );
-        if (productResult.rows.length > 0) {
-          productId = productResult.rows[0].id;
+          // If not found by onec_id, try by UUID (only if it looks like a UUID)
+          if (productResult.rows.length === 0 && item.product_id.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
+            productResult = await client.query(
+              'SELECT id FROM products WHERE id = $1',
+              [item.product_id]
+            );
+          }
+        
+          if (productResult.rows.length > 0) {
+            productId = productResult.rows[0].id;
+          }
+        } else if (item.product_barcode) {
+          const productResult = await client.query(
+            'SELECT id FROM products WHERE barcode = $1',
+            [item.product_barcode]
+          );
+          if (productResult.rows.length > 0) {
+            productId = productResult.rows[0].id;
+          }
         }
-      }
       
-      await DatabaseManager.query(`
-        INSERT INTO transaction_items (
-          transaction_id, product_id, quantity,
-          unit_price, original_price, discount_amount, tax_amount, total_amount,
-          created_at
-        ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, NOW()
-        )
-      `, [
-        transactionId, productId, item.quantity,
-        item.unit_price, item.unit_price + (item.discount_amount || 0), item.discount_amount, item.tax_amount, item.total_price
-      ]);
+        // Cost of goods sold is fixed when the sale is first completed, from the branch's cost layers
+        // or average cost; a resent sale keeps that cost
+        const issuedCost = productId && takesStock
+          ? await CostingService.issue({ branchId: branchServer.branchId, productId, quantity: item.quantity }, client)
+          : (productId && previousCosts.get(productId)?.shift()) || null;
+
+        await client.query(`
+          INSERT INTO transaction_items (
+            transaction_id, product_id, quantity,
+            unit_price, original_price, discount_amount, tax_rate, tax_amount, total_amount,
+            unit_cost, cost_amount, created_at
+          ) VALUES (
+            $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW()
+          )
+        `, [
+          transactionId, productId, item.quantity,
+          item.unit_price, item.unit_price + (item.discount_amount || 0), item.discount_amount,
+          item.tax_rate || 0, item.tax_amount, item.total_price,
+          issuedCost?.unitCost ?? null, issuedCost?.costAmount ?? null
+        ]);
       
-      // Update product stock if product exists
-      if (productId && transactionData.status === 'completed') {
-        // TODO: Re-enable when database schema is aligned
-        // Update inventory for the product
-        try {
-          await DatabaseManager.query(`
+        // Update product stock if product exists
+        if (productId && takesStock) {
+          await client.query(`
             UPDATE branch_inventory 
             SET quantity_in_stock = quantity_in_stock - $1, 
                 last_movement_at = NOW(), 
                 updated_at = NOW()
             WHERE branch_id = $2 AND product_id = $3
           `, [item.quantity, branchServer.branchId, productId]);
-        } catch (error: any) {
-          // Fallback for databases without last_movement_at or updated_at columns
-          if (error.code === '42703') {
-            await DatabaseManager.query(`
-              UPDATE branch_inventory 
-              SET quantity_in_stock = quantity_in_stock - $1
-              WHERE branch_id = $2 AND product_id = $3
-            `, [item.quantity, branchServer.branchId, productId]);
-          } else {
-            throw error;
-          }
-        }
         
-        // Create stock movement record
-        await DatabaseManager.query(`
-          INSERT INTO stock_movements (
-            branch_id, product_id, reference_id, reference_type, movement_type,
-            quantity, notes, created_at
-          ) VALUES (
-            $1, $2, $3, 'transaction', 'sale', $4, 'Transaction sale', NOW()
-          )
-        `, [branchServer.branchId, productId, transactionId, item.quantity]);
+          // Create stock movement record
+          await client.query(`
+            INSERT INTO stock_movements (
+              branch_id, product_id, reference_id, reference_type, movement_type,
+              quantity, unit_cost, notes, created_at
+            ) VALUES (
+              $1, $2, $3, 'transaction', 'sale', $4, $5, 'Transaction sale', NOW()
+            )
+          `, [branchServer.branchId, productId, transactionId, item.quantity, issuedCost?.unitCost ?? null]);
         
-        console.log(`Updated inventory for product ${productId}, quantity: ${item.quantity}`);
+          console.log(`Updated inventory for product ${productId}, quantity: ${item.quantity}`);
+        }
       }
-    }
     
-    // Create payments - handle both array and simple payment_method
-    const payments = transactionData.payments || [{
-      method: transactionData.payment_method || 'cash',
-      amount: transactionData.total_amount,
-      currency: 'USD',
-      status: 'completed' as const,
-      card_type: undefined,
-      card_last_four: undefined,
-      reference_number: undefined,
-      metadata: {}
-    }];
+      // Create payments - handle both array and simple payment_method
+      const payments = transactionData.payments || [{
+        method: transactionData.payment_method || 'cash',
+        amount: transactionData.total_amount,
+        currency: 'USD',
+        status: 'completed' as const,
+        card_type: undefined,
+        card_last_four: undefined,
+        reference_number: undefined,
+        metadata: {}
+      }];
     
-    // TEMPORARILY DISABLED payment storage due to schema mismatch
-    // TODO: Re-enable when payments table schema is aligned
-    /*
-    for (const payment of payments) {
-      await DatabaseManager.query(`
-        INSERT INTO payments (
-          transaction_id, payment_method, amount, currency,
-          card_type, card_last_four, reference_number,
-          status, metadata, processed_at, created_at
-        ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW()
-        )
-      `, [
-        transactionId, payment.method, payment.amount, payment.currency,
-        payment.card_type, payment.card_last_four, payment.reference_number,
-        payment.status, JSON.stringify(payment.metadata || {})
-      ]);
-    }
-    */
+      // TEMPORARILY DISABLED payment storage due to schema mismatch
+      // TODO: Re-enable when payments table schema is aligned
+      /*
+      for (const payment of payments) {
+        await client.query(`
+          INSERT INTO payments (
+            transaction_id, payment_method, amount, currency,
+            card_type, card_last_four, reference_number,
+            status, metadata, processed_at, created_at
+          ) VALUES (
+            $1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW()
+          )
+        `, [
+          transactionId, payment.method, payment.amount, payment.currency,
+          payment.card_type, payment.card_last_four, payment.reference_number,
+          payment.status, JSON.stringify(payment.metadata || {})
+        ]);
+      }
+      */
     
-    console.log(`Would create ${payments.length} payment records for transaction ${transactionId}`);
+      console.log(`Would create ${payments.length} payment records for transaction ${transactionId}`);
+      
+      return { transactionId, wasCompleted, payments };
+    });
     
-    await DatabaseManager.query('COMMIT');
     await completeBranchSyncLog(syncId, 'completed', 1);
     
+    if (transactionData.status === 'completed' && !wasCompleted) {
+      WebSocketManager.getInstance().broadcastNewTransaction({
+        id: transactionId,
+        branchId: branchServer.branchId,
+        employeeId: transactionData.employee_id,
+        amount: transactionData.total_amount,
+        paymentMethod: payments[0].method
+      });
+      await WebhookService.publish('transaction.completed', {
+        transactionId,
+        transactionNumber: transactionData.transaction_number || transactionData.transaction_id || transactionData.receipt_number,
+        branchId: branchServer.branchId,
+        branchCode: branchServer.branchCode,
+        terminalId: transactionData.terminal_id,
+        employeeId: transactionData.employee_id,
+        completedAt: transactionData.transaction_date,
+        subtotal: transactionData.subtotal,
+        discountAmount: transactionData.discount_amount,
+        taxAmount: transactionData.tax_amount,
+        totalAmount: transactionData.total_amount,
+        items: transactionData.items.map(item => ({
+          productId: item.product_id,
+          barcode: item.product_barcode,
+          sku: item.sku,
+          name: item.product_name || item.name,
+          quantity: item.quantity,
+          unitPrice: item.unit_price,
+          discountAmount: item.discount_amount,
+          totalPrice: item.total_price
+        })),
+        payments: payments.map(payment => ({ method: payment.method, amount: payment.amount }))
+      });
+    }
+    
     res.status(201).json({
       success: true,
       data: {
@@ -386,8 +435,6 @@ router.post('/submit', asyncHandler(async (req: Request, res: Response) => {
     });
     
   } catch (error) {
-    await DatabaseManager.query('ROLLBACK');
-    
     const errorMessage = (error as Error).message;
     
     // Handle insufficient stock error
@@ -2,6 +2,7 @@ import { Request, Response, Router } from 'express';
 import { z } from 'zod';
 import { DatabaseManager } from '../database/manager';
 import { asyncHandler } from '../middleware/errorHandler';
+import { LoyaltyService } from '../services/LoyaltyService';
 
 const router = Router();
 
@@ -497,4 +498,41 @@ router.get('/:id/transactions', asyncHandler(async (req: Request, res: Response)
   });
 }));
 
+// GET /api/customers/:id/loyalty-history - Points earned and spent across all branches
+router.get('/:id/loyalty-history', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const page = Math.max(1, Number(req.query.page) || 1);
+  const limit = Math.min(200, Math.max(1, Number(req.query.limit) || 50));
+
+  const customerResult = await DatabaseManager.query(
+    'SELECT id, name, loyalty_card_number, loyalty_points FROM customers WHERE id = $1',
+    [id]
+  );
+
+  if (customerResult.rows.length === 0) {
+    return res.status(404).json({
+      success: false,
+      error: 'Customer not found',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const { entries, total } = await LoyaltyService.getHistory(id, limit, (page - 1) * limit);
+
+  res.json({
+    success: true,
+    data: {
+      customer: customerResult.rows[0],
+      entries
+    },
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    },
+    timestamp: new Date().toISOString()
+  });
+}));
+
 export default router;
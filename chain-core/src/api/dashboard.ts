@@ -1,9 +1,46 @@
 import { Request, Response, Router } from 'express';
+import { z } from 'zod';
 import { DatabaseManager } from '../database/manager';
+import { authenticateUser } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
+import { ALERT_RULE_TYPES, ALERT_SEVERITIES, AlertRule, AlertService } from '../services/AlertService';
 
 const router = Router();
 
+const queryFlag = z.enum(['true', 'false']).transform(value => value === 'true').optional();
+
+const AlertListQuerySchema = z.object({
+  branch_id: z.string().uuid().optional(),
+  include_acknowledged: queryFlag,
+  include_snoozed: queryFlag,
+  include_resolved: queryFlag,
+  limit: z.coerce.number().int().min(1).max(500).optional()
+});
+
+const SnoozeAlertSchema = z.object({
+  minutes: z.number().int().min(1).max(7 * 24 * 60).optional(),
+  until: z.string().datetime({ offset: true }).optional()
+}).refine(data => !!data.minutes !== !!data.until, {
+  message: 'Provide either minutes or until'
+});
+
+const UpdateAlertRuleSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  branch_id: z.string().uuid().nullable().optional(),
+  severity: z.enum(ALERT_SEVERITIES).optional(),
+  params: z.record(z.any()).optional(),
+  is_active: z.boolean().optional()
+});
+
+const CreateAlertRuleSchema = z.object({
+  rule_type: z.enum(ALERT_RULE_TYPES),
+  name: z.string().trim().min(1).max(255),
+  branch_id: z.string().uuid().optional(),
+  severity: z.enum(ALERT_SEVERITIES).default('warning'),
+  params: z.record(z.any()).default({}),
+  is_active: z.boolean().default(true)
+});
+
 // GET /api/dashboard/overview - Get dashboard overview data
 router.get('/overview', asyncHandler(async (req: Request, res: Response) => {
   const { branch_id } = req.query;
@@ -236,7 +273,7 @@ router.get('/charts', asyncHandler(async (req: Request, res: Response) => {
       })),
       top_products: topProductsResult.rows.map((row: any) => ({
         name: row.name,
-        quantity_sold: parseInt(row.quantity_sold),
+        quantity_sold: parseFloat(row.quantity_sold),
         revenue: parseFloat(row.revenue)
       })),
       payment_methods: paymentMethodResult.rows.map((row: any) => ({
@@ -253,117 +290,131 @@ router.get('/charts', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
-// GET /api/dashboard/alerts - Get dashboard alerts and notifications
-router.get('/alerts', asyncHandler(async (req: Request, res: Response) => {
-  const { branch_id } = req.query;
-  const alerts: Array<{
-    id: string;
-    type: 'low_stock' | 'out_of_stock' | 'system' | 'employee' | 'transaction' | 'failed_transaction';
-    severity: 'low' | 'medium' | 'high' | 'critical' | 'warning';
-    title: string;
-    message: string;
-    timestamp: string;
-    branchId?: string;
-    branchName?: string;
-    acknowledged: boolean;
-    created_at?: string;
-  }> = [];
-  
-  // Low stock alerts
-  let lowStockQuery = `
-    SELECT 
-      p.name as product_name,
-      i.quantity,
-      i.min_stock,
-      b.name as branch_name
-    FROM inventory i
-    JOIN products p ON i.product_id = p.id
-    LEFT JOIN branches b ON i.branch_id = b.id
-    WHERE i.quantity <= i.min_stock
-    AND p.is_active = true
-  `;
-  
-  if (branch_id) {
-    lowStockQuery += ` AND i.branch_id = $1`;
-    lowStockQuery += ` ORDER BY i.quantity ASC LIMIT 10`;
-    const lowStockResult = await DatabaseManager.query(lowStockQuery, [branch_id]);
-  } else {
-    lowStockQuery += ` ORDER BY i.quantity ASC LIMIT 10`;
-    var lowStockResult = await DatabaseManager.query(lowStockQuery);
-  }
-  
-  lowStockResult.rows.forEach((item: any) => {
-    alerts.push({
-      id: `low_stock_${item.product_name}_${Date.now()}`,
-      type: 'low_stock',
-      severity: item.quantity === 0 ? 'critical' : 'warning',
-      title: `Stock Alert: ${item.product_name}`,
-      message: `${item.product_name} is ${item.quantity === 0 ? 'out of stock' : 'low in stock'}`,
-      timestamp: new Date().toISOString(),
-      branchId: item.branch_name ? undefined : undefined,
-      branchName: item.branch_name,
-      acknowledged: false,
-      created_at: new Date().toISOString()
-    });
-  });
-  
-  // Recent failed transactions
-  let failedTransactionsQuery = `
-    SELECT 
-      t.id,
-      t.total_amount,
-      t.created_at,
-      e.name as employee_name,
-      b.name as branch_name
-    FROM transactions t
-    LEFT JOIN employees e ON t.employee_id = e.id
-    LEFT JOIN branches b ON t.branch_id = b.id
-    WHERE t.status = 'failed'
-    AND t.created_at >= CURRENT_DATE - INTERVAL '1 day'
-  `;
-  
-  if (branch_id) {
-    failedTransactionsQuery += ` AND t.branch_id = $1`;
-    failedTransactionsQuery += ` ORDER BY t.created_at DESC LIMIT 5`;
-    const failedTransactionsResult = await DatabaseManager.query(failedTransactionsQuery, [branch_id]);
-  } else {
-    failedTransactionsQuery += ` ORDER BY t.created_at DESC LIMIT 5`;
-    var failedTransactionsResult = await DatabaseManager.query(failedTransactionsQuery);
-  }
-  
-  failedTransactionsResult.rows.forEach((transaction: any) => {
-    alerts.push({
-      id: `failed_transaction_${transaction.id}`,
-      type: 'failed_transaction',
-      severity: 'warning',
-      title: `Failed Transaction`,
-      message: `Failed transaction of $${transaction.total_amount}`,
-      timestamp: transaction.created_at,
-      branchId: undefined,
-      branchName: transaction.branch_name,
-      acknowledged: false,
-      created_at: transaction.created_at
-    });
+// GET /api/dashboard/alerts - Open alerts for the current user (acknowledged and snoozed ones on request)
+router.get('/alerts', authenticateUser, asyncHandler(async (req: Request, res: Response) => {
+  const query = AlertListQuerySchema.parse(req.query);
+
+  const alerts = await AlertService.listAlerts(req.user!.id, {
+    branchId: query.branch_id,
+    includeAcknowledged: query.include_acknowledged,
+    includeSnoozed: query.include_snoozed,
+    includeResolved: query.include_resolved,
+    limit: query.limit
   });
-  
-  // Sort alerts by severity and date
-  alerts.sort((a, b) => {
-    const severityOrder = { critical: 3, warning: 2, info: 1 };
-    const severityDiff = (severityOrder[b.severity as keyof typeof severityOrder] || 0) - 
-                        (severityOrder[a.severity as keyof typeof severityOrder] || 0);
-    if (severityDiff !== 0) return severityDiff;
-    
-    return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+
+  res.json({
+    success: true,
+    data: { alerts }
   });
-  
+}));
+
+// POST /api/dashboard/alerts/evaluate - Evaluate the alert rules now
+router.post('/alerts/evaluate', asyncHandler(async (req: Request, res: Response) => {
+  const result = await AlertService.evaluate();
+
   res.json({
     success: true,
     data: {
-      alerts: alerts.slice(0, 20) // Limit to 20 most important alerts
+      created: result.created,
+      resolved: result.resolved,
+      failed_rules: result.failedRules
     }
   });
 }));
 
+// POST /api/dashboard/alerts/:id/acknowledge - Acknowledge an alert for the current user
+router.post('/alerts/:id/acknowledge', authenticateUser, asyncHandler(async (req: Request, res: Response) => {
+  const alert = await AlertService.acknowledge(req.params.id, req.user!.id);
+
+  res.json({
+    success: true,
+    data: { alert }
+  });
+}));
+
+// POST /api/dashboard/alerts/:id/snooze - Hide an alert from the current user for a while
+router.post('/alerts/:id/snooze', authenticateUser, asyncHandler(async (req: Request, res: Response) => {
+  const data = SnoozeAlertSchema.parse(req.body);
+  const until = data.until ? new Date(data.until) : new Date(Date.now() + data.minutes! * 60 * 1000);
+
+  const alert = await AlertService.snooze(req.params.id, req.user!.id, until);
+
+  res.json({
+    success: true,
+    data: { alert }
+  });
+}));
+
+// GET /api/dashboard/alert-rules - List alert rules
+router.get('/alert-rules', asyncHandler(async (req: Request, res: Response) => {
+  const rules = await AlertService.listRules();
+
+  res.json({
+    success: true,
+    data: { rules: rules.map(serializeAlertRule) }
+  });
+}));
+
+// POST /api/dashboard/alert-rules - Add a rule, e.g. a stricter threshold for one branch
+router.post('/alert-rules', asyncHandler(async (req: Request, res: Response) => {
+  const data = CreateAlertRuleSchema.parse(req.body);
+
+  const rule = await AlertService.createRule({
+    ruleType: data.rule_type,
+    name: data.name,
+    branchId: data.branch_id,
+    severity: data.severity,
+    params: data.params,
+    isActive: data.is_active
+  });
+
+  res.status(201).json({
+    success: true,
+    data: { rule: serializeAlertRule(rule) }
+  });
+}));
+
+// PUT /api/dashboard/alert-rules/:id - Change a rule's thresholds, scope or severity
+router.put('/alert-rules/:id', asyncHandler(async (req: Request, res: Response) => {
+  const data = UpdateAlertRuleSchema.parse(req.body);
+
+  const rule = await AlertService.updateRule(req.params.id, {
+    name: data.name,
+    branchId: data.branch_id,
+    severity: data.severity,
+    params: data.params,
+    isActive: data.is_active
+  });
+
+  res.json({
+    success: true,
+    data: { rule: serializeAlertRule(rule) }
+  });
+}));
+
+// DELETE /api/dashboard/alert-rules/:id - Remove a rule; its open alerts are resolved
+router.delete('/alert-rules/:id', asyncHandler(async (req: Request, res: Response) => {
+  await AlertService.deleteRule(req.params.id);
+
+  res.json({
+    success: true,
+    message: 'Alert rule deleted'
+  });
+}));
+
+function serializeAlertRule(rule: AlertRule) {
+  return {
+    id: rule.id,
+    rule_type: rule.ruleType,
+    name: rule.name,
+    branch_id: rule.branchId || null,
+    branch_name: rule.branchName || null,
+    severity: rule.severity,
+    params: rule.params,
+    is_active: rule.isActive
+  };
+}
+
 // GET /api/dashboard/stats - Get quick stats for dashboard widgets
 router.get('/stats', asyncHandler(async (req: Request, res: Response) => {
   const { branch_id } = req.query;
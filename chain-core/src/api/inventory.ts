@@ -2,6 +2,9 @@ import { Request, Response, Router } from 'express';
 import { z } from 'zod';
 import { DatabaseManager } from '../database/manager';
 import { asyncHandler } from '../middleware/errorHandler';
+import { CostingService } from '../services/CostingService';
+import { PurchaseOrderService } from '../services/PurchaseOrderService';
+import { StockTransferService } from '../services/StockTransferService';
 
 const router = Router();
 
@@ -28,6 +31,67 @@ const adjustInventorySchema = z.object({
   reason: z.string().min(1, 'Reason is required'),
 });
 
+const createTransferSchema = z.object({
+  from_branch_id: z.string().uuid('Valid source branch ID is required'),
+  to_branch_id: z.string().uuid('Valid destination branch ID is required'),
+  items: z.array(z.object({
+    product_id: z.string().uuid('Valid product ID is required'),
+    quantity_requested: z.coerce.number().positive('Quantity must be positive'),
+    urgency: z.enum(['low', 'medium', 'high']).optional(),
+    notes: z.string().optional(),
+  })).min(1, 'At least one item is required'),
+  notes: z.string().optional(),
+});
+
+const approveTransferSchema = z.object({
+  approved_by: z.string().uuid().optional(),
+  items: z.array(z.object({
+    item_id: z.string().uuid(),
+    quantity_approved: z.coerce.number().min(0, 'Quantity must be non-negative'),
+  })).default([]),
+});
+
+const rejectTransferSchema = z.object({
+  reason: z.string().min(1, 'Reason is required'),
+  rejected_by: z.string().uuid().optional(),
+});
+
+const purchaseOrderItemSchema = z.object({
+  product_id: z.string().uuid('Valid product ID is required'),
+  quantity_ordered: z.coerce.number().positive('Quantity must be positive'),
+  unit_cost: z.coerce.number().min(0, 'Cost must be non-negative').optional(),
+  notes: z.string().optional(),
+});
+
+const createPurchaseOrderSchema = z.object({
+  supplier_id: z.string().uuid('Valid supplier ID is required'),
+  branch_id: z.string().uuid('Valid branch ID is required'),
+  expected_date: z.string().optional(),
+  notes: z.string().optional(),
+  created_by: z.string().uuid().optional(),
+  items: z.array(purchaseOrderItemSchema).min(1, 'At least one item is required'),
+});
+
+const updatePurchaseOrderSchema = z.object({
+  expected_date: z.string().nullable().optional(),
+  notes: z.string().optional(),
+  items: z.array(purchaseOrderItemSchema).min(1, 'At least one item is required').optional(),
+});
+
+const generatePurchaseOrdersSchema = z.object({
+  branch_id: z.string().uuid().optional(),
+  created_by: z.string().uuid().optional(),
+});
+
+const approvePurchaseOrderSchema = z.object({
+  approved_by: z.string().uuid().optional(),
+});
+
+const rejectPurchaseOrderSchema = z.object({
+  reason: z.string().min(1, 'Reason is required'),
+  rejected_by: z.string().uuid().optional(),
+});
+
 // GET /api/inventory - Get inventory items
 router.get('/', asyncHandler(async (req: Request, res: Response) => {
   const { branch_id, product_id, low_stock } = req.query;
@@ -141,6 +205,269 @@ router.get('/branch/:branchId', asyncHandler(async (req: Request, res: Response)
   });
 }));
 
+// GET /api/inventory/transfers - List stock transfers between branches
+router.get('/transfers', asyncHandler(async (req: Request, res: Response) => {
+  const { branch_id, status, page = 1, limit = 50 } = req.query;
+
+  const result = await StockTransferService.listTransfers({
+    branchId: branch_id as string | undefined,
+    status: status as any,
+    limit: Number(limit),
+    offset: (Number(page) - 1) * Number(limit)
+  });
+
+  res.json({
+    success: true,
+    data: {
+      transfers: result.transfers,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total: result.total,
+        pages: Math.ceil(result.total / Number(limit))
+      }
+    }
+  });
+}));
+
+// GET /api/inventory/transfers/:id - Get a stock transfer with its items
+router.get('/transfers/:id', asyncHandler(async (req: Request, res: Response) => {
+  const transfer = await StockTransferService.getTransfer(req.params.id);
+
+  res.json({
+    success: true,
+    data: { transfer }
+  });
+}));
+
+// POST /api/inventory/transfers - Create a stock transfer from the main office
+router.post('/transfers', asyncHandler(async (req: Request, res: Response) => {
+  const transferData = createTransferSchema.parse(req.body);
+
+  const transfer = await StockTransferService.createTransfer({
+    fromBranchId: transferData.from_branch_id,
+    toBranchId: transferData.to_branch_id,
+    notes: transferData.notes,
+    items: transferData.items.map(item => ({
+      productId: item.product_id,
+      quantityRequested: item.quantity_requested,
+      urgency: item.urgency,
+      notes: item.notes
+    }))
+  });
+
+  res.status(201).json({
+    success: true,
+    data: { transfer }
+  });
+}));
+
+// PUT /api/inventory/transfers/:id/approve - Approve a requested transfer
+router.put('/transfers/:id/approve', asyncHandler(async (req: Request, res: Response) => {
+  const { approved_by, items } = approveTransferSchema.parse(req.body);
+
+  const transfer = await StockTransferService.approveTransfer(
+    req.params.id,
+    approved_by,
+    items.map(item => ({ itemId: item.item_id, quantity: item.quantity_approved }))
+  );
+
+  res.json({
+    success: true,
+    data: { transfer }
+  });
+}));
+
+// PUT /api/inventory/transfers/:id/reject - Reject a requested transfer
+router.put('/transfers/:id/reject', asyncHandler(async (req: Request, res: Response) => {
+  const { reason, rejected_by } = rejectTransferSchema.parse(req.body);
+
+  const transfer = await StockTransferService.rejectTransfer(req.params.id, reason, rejected_by);
+
+  res.json({
+    success: true,
+    data: { transfer }
+  });
+}));
+
+// PUT /api/inventory/transfers/:id/cancel - Cancel a transfer that has not shipped
+router.put('/transfers/:id/cancel', asyncHandler(async (req: Request, res: Response) => {
+  const transfer = await StockTransferService.cancelTransfer(req.params.id);
+
+  res.json({
+    success: true,
+    data: { transfer }
+  });
+}));
+
+// GET /api/inventory/purchase-orders - List purchase orders
+router.get('/purchase-orders', asyncHandler(async (req: Request, res: Response) => {
+  const { branch_id, supplier_id, status, page = 1, limit = 50 } = req.query;
+
+  const result = await PurchaseOrderService.listPurchaseOrders({
+    branchId: branch_id as string | undefined,
+    supplierId: supplier_id as string | undefined,
+    status: status as any,
+    limit: Number(limit),
+    offset: (Number(page) - 1) * Number(limit)
+  });
+
+  res.json({
+    success: true,
+    data: {
+      purchase_orders: result.purchaseOrders,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total: result.total,
+        pages: Math.ceil(result.total / Number(limit))
+      }
+    }
+  });
+}));
+
+// POST /api/inventory/purchase-orders/generate - Draft purchase orders from branch reorder points
+router.post('/purchase-orders/generate', asyncHandler(async (req: Request, res: Response) => {
+  const { branch_id, created_by } = generatePurchaseOrdersSchema.parse(req.body);
+
+  const result = await PurchaseOrderService.generateReorderPurchaseOrders({
+    branchId: branch_id,
+    createdBy: created_by
+  });
+
+  res.status(201).json({
+    success: true,
+    data: {
+      purchase_orders: result.purchaseOrders,
+      without_supplier: result.withoutSupplier.map(item => ({
+        branch_id: item.branchId,
+        product_id: item.productId,
+        product_name: item.productName,
+        quantity: item.quantity
+      }))
+    }
+  });
+}));
+
+// GET /api/inventory/purchase-orders/:id - Get a purchase order with its items and receipts
+router.get('/purchase-orders/:id', asyncHandler(async (req: Request, res: Response) => {
+  const purchaseOrder = await PurchaseOrderService.getPurchaseOrder(req.params.id);
+
+  res.json({
+    success: true,
+    data: { purchase_order: purchaseOrder }
+  });
+}));
+
+// POST /api/inventory/purchase-orders - Create a draft purchase order
+router.post('/purchase-orders', asyncHandler(async (req: Request, res: Response) => {
+  const orderData = createPurchaseOrderSchema.parse(req.body);
+
+  const purchaseOrder = await PurchaseOrderService.createPurchaseOrder({
+    supplierId: orderData.supplier_id,
+    branchId: orderData.branch_id,
+    expectedDate: orderData.expected_date,
+    notes: orderData.notes,
+    createdBy: orderData.created_by,
+    items: orderData.items.map(item => ({
+      productId: item.product_id,
+      quantityOrdered: item.quantity_ordered,
+      unitCost: item.unit_cost,
+      notes: item.notes
+    }))
+  });
+
+  res.status(201).json({
+    success: true,
+    data: { purchase_order: purchaseOrder }
+  });
+}));
+
+// PUT /api/inventory/purchase-orders/:id - Change a draft purchase order
+router.put('/purchase-orders/:id', asyncHandler(async (req: Request, res: Response) => {
+  const changes = updatePurchaseOrderSchema.parse(req.body);
+
+  const purchaseOrder = await PurchaseOrderService.updatePurchaseOrder(req.params.id, {
+    expectedDate: changes.expected_date,
+    notes: changes.notes,
+    items: changes.items?.map(item => ({
+      productId: item.product_id,
+      quantityOrdered: item.quantity_ordered,
+      unitCost: item.unit_cost,
+      notes: item.notes
+    }))
+  });
+
+  res.json({
+    success: true,
+    data: { purchase_order: purchaseOrder }
+  });
+}));
+
+// DELETE /api/inventory/purchase-orders/:id - Delete a draft purchase order
+router.delete('/purchase-orders/:id', asyncHandler(async (req: Request, res: Response) => {
+  await PurchaseOrderService.deletePurchaseOrder(req.params.id);
+
+  res.json({
+    success: true,
+    message: 'Purchase order deleted'
+  });
+}));
+
+// PUT /api/inventory/purchase-orders/:id/submit - Submit a draft for approval
+router.put('/purchase-orders/:id/submit', asyncHandler(async (req: Request, res: Response) => {
+  const purchaseOrder = await PurchaseOrderService.submitPurchaseOrder(req.params.id);
+
+  res.json({
+    success: true,
+    data: { purchase_order: purchaseOrder }
+  });
+}));
+
+// PUT /api/inventory/purchase-orders/:id/approve - Approve a submitted purchase order
+router.put('/purchase-orders/:id/approve', asyncHandler(async (req: Request, res: Response) => {
+  const { approved_by } = approvePurchaseOrderSchema.parse(req.body);
+
+  const purchaseOrder = await PurchaseOrderService.approvePurchaseOrder(req.params.id, approved_by);
+
+  res.json({
+    success: true,
+    data: { purchase_order: purchaseOrder }
+  });
+}));
+
+// PUT /api/inventory/purchase-orders/:id/reject - Reject a submitted purchase order
+router.put('/purchase-orders/:id/reject', asyncHandler(async (req: Request, res: Response) => {
+  const { reason, rejected_by } = rejectPurchaseOrderSchema.parse(req.body);
+
+  const purchaseOrder = await PurchaseOrderService.rejectPurchaseOrder(req.params.id, reason, rejected_by);
+
+  res.json({
+    success: true,
+    data: { purchase_order: purchaseOrder }
+  });
+}));
+
+// PUT /api/inventory/purchase-orders/:id/order - Mark an approved purchase order as sent to the supplier
+router.put('/purchase-orders/:id/order', asyncHandler(async (req: Request, res: Response) => {
+  const purchaseOrder = await PurchaseOrderService.markOrdered(req.params.id);
+
+  res.json({
+    success: true,
+    data: { purchase_order: purchaseOrder }
+  });
+}));
+
+// PUT /api/inventory/purchase-orders/:id/cancel - Cancel a purchase order nothing was received against
+router.put('/purchase-orders/:id/cancel', asyncHandler(async (req: Request, res: Response) => {
+  const purchaseOrder = await PurchaseOrderService.cancelPurchaseOrder(req.params.id);
+
+  res.json({
+    success: true,
+    data: { purchase_order: purchaseOrder }
+  });
+}));
+
 // GET /api/inventory/:id - Get specific inventory item
 router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -376,60 +703,79 @@ router.post('/:id/adjust', asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const { adjustment_type, quantity, reason } = adjustInventorySchema.parse(req.body);
   
-  // Get current inventory item
-  const currentItem = await DatabaseManager.query(
-    'SELECT * FROM branch_inventory WHERE id = $1',
-    [id]
-  );
+  // One connection for the adjustment, so the stock row and cost layers stay locked until it commits
+  const adjusted = await DatabaseManager.transaction(async (client) => {
+    // Get current inventory item
+    const currentItem = await client.query(
+      'SELECT * FROM branch_inventory WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+    
+    if (currentItem.rows.length === 0) {
+      return null;
+    }
+    
+    const current = currentItem.rows[0];
+    const currentQuantity = parseFloat(current.quantity_in_stock);
+    let newQuantity = currentQuantity;
+    
+    switch (adjustment_type) {
+      case 'increase':
+        newQuantity += quantity;
+        break;
+      case 'decrease':
+        newQuantity = Math.max(0, currentQuantity - quantity);
+        break;
+      case 'set':
+        newQuantity = quantity;
+        break;
+    }
+    
+    // Found stock comes in at the current cost, lost stock leaves through the cost layers
+    const unitCost = await CostingService.recordMovement({
+      branchId: current.branch_id,
+      productId: current.product_id,
+      quantityChange: newQuantity - currentQuantity,
+      movementType: 'adjustment'
+    }, client);
+    
+    // Update inventory
+    const updateResult = await client.query(
+      'UPDATE branch_inventory SET quantity_in_stock = $1, last_movement_at = NOW(), updated_at = NOW() WHERE id = $2 RETURNING *',
+      [newQuantity, id]
+    );
+    
+    // Log the stock movement
+    await client.query(`
+      INSERT INTO stock_movements (
+        branch_id, product_id, movement_type, quantity, unit_cost, notes, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, NOW())
+    `, [
+      current.branch_id, 
+      current.product_id, 
+      'adjustment',
+      newQuantity - currentQuantity,
+      unitCost,
+      reason
+    ]);
+    
+    return { item: updateResult.rows[0], previousQuantity: current.quantity_in_stock, newQuantity };
+  });
   
-  if (currentItem.rows.length === 0) {
+  if (!adjusted) {
     return res.status(404).json({
       success: false,
       error: 'Inventory item not found'
     });
   }
   
-  const current = currentItem.rows[0];
-  let newQuantity = current.quantity_in_stock;
-  
-  switch (adjustment_type) {
-    case 'increase':
-      newQuantity += quantity;
-      break;
-    case 'decrease':
-      newQuantity = Math.max(0, current.quantity_in_stock - quantity);
-      break;
-    case 'set':
-      newQuantity = quantity;
-      break;
-  }
-  
-  // Update inventory
-  const updateResult = await DatabaseManager.query(
-    'UPDATE branch_inventory SET quantity_in_stock = $1, last_movement_at = NOW(), updated_at = NOW() WHERE id = $2 RETURNING *',
-    [newQuantity, id]
-  );
-  
-  // Log the stock movement
-  await DatabaseManager.query(`
-    INSERT INTO stock_movements (
-      branch_id, product_id, movement_type, quantity, notes, created_at
-    ) VALUES ($1, $2, $3, $4, $5, NOW())
-  `, [
-    current.branch_id, 
-    current.product_id, 
-    'adjustment',
-    newQuantity - current.quantity_in_stock,
-    reason
-  ]);
-  
   res.json({
     success: true,
     data: { 
-      inventory_item: updateResult.rows[0],
+      inventory_item: adjusted.item,
       adjustment: {
-        previous_quantity: current.quantity_in_stock,
-        new_quantity: newQuantity,
+        previous_quantity: adjusted.previousQuantity,
+        new_quantity: adjusted.newQuantity,
         adjustment_type,
         reason
       }
@@ -126,7 +126,7 @@ router.get('/', requirePermission('branches:read'), asyncHandler(async (req: Req
 }));
 
 // GET /api/1c/branches/:code - Get specific branch
-router.get('/:code', requirePermission('branches:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/:code', requirePermission('branches:read', { branch: 'param' }), asyncHandler(async (req: Request, res: Response) => {
   const { code } = req.params;
   const { include_servers, include_employees, include_inventory } = req.query;
   
@@ -294,7 +294,7 @@ router.post('/', requirePermission('branches:write'), asyncHandler(async (req: R
 }));
 
 // PUT /api/1c/branches/:code - Update specific branch
-router.put('/:code', requirePermission('branches:write'), asyncHandler(async (req: Request, res: Response) => {
+router.put('/:code', requirePermission('branches:write', { branch: 'param' }), asyncHandler(async (req: Request, res: Response) => {
   const { code } = req.params;
   const branchData = updateBranchSchema.parse(req.body);
   
@@ -340,7 +340,7 @@ router.put('/:code', requirePermission('branches:write'), asyncHandler(async (re
 }));
 
 // GET /api/1c/branches/:code/status - Get branch health status
-router.get('/:code/status', requirePermission('branches:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/:code/status', requirePermission('branches:read', { branch: 'param' }), asyncHandler(async (req: Request, res: Response) => {
   const { code } = req.params;
   
   // Get branch basic info
@@ -419,7 +419,7 @@ router.get('/:code/status', requirePermission('branches:read'), asyncHandler(asy
 // ============================================================================
 
 // GET /api/1c/branches/:code/servers - Get branch servers
-router.get('/:code/servers', requirePermission('branches:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/:code/servers', requirePermission('branches:read', { branch: 'param' }), asyncHandler(async (req: Request, res: Response) => {
   const { code } = req.params;
   
   const result = await DatabaseManager.query(`
@@ -443,7 +443,7 @@ router.get('/:code/servers', requirePermission('branches:read'), asyncHandler(as
 }));
 
 // POST /api/1c/branches/:code/servers - Add server to branch
-router.post('/:code/servers', requirePermission('branches:write'), asyncHandler(async (req: Request, res: Response) => {
+router.post('/:code/servers', requirePermission('branches:write', { branch: 'param' }), asyncHandler(async (req: Request, res: Response) => {
   const { code } = req.params;
   const serverData = branchServerSchema.parse({ ...req.body, branch_code: code });
   
@@ -501,7 +501,7 @@ router.post('/:code/servers', requirePermission('branches:write'), asyncHandler(
 }));
 
 // DELETE /api/1c/branches/:code - Deactivate branch
-router.delete('/:code', requirePermission('branches:write'), asyncHandler(async (req: Request, res: Response) => {
+router.delete('/:code', requirePermission('branches:write', { branch: 'param' }), asyncHandler(async (req: Request, res: Response) => {
   const { code } = req.params;
   
   const result = await DatabaseManager.query(`
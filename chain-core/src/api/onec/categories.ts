@@ -31,7 +31,7 @@ const updateCategorySchema = categorySchema.partial();
 // ============================================================================
 
 // GET /api/1c/categories - Get all categories
-router.get('/', requirePermission('products:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/', requirePermission('products:read', { branch: 'any' }), asyncHandler(async (req: Request, res: Response) => {
   const { page = 1, limit = 100, parent_key, is_active, search, include_hierarchy } = req.query;
   const offset = (Number(page) - 1) * Number(limit);
   
@@ -114,7 +114,7 @@ router.get('/', requirePermission('products:read'), asyncHandler(async (req: Req
 }));
 
 // GET /api/1c/categories/:key - Get specific category
-router.get('/:key', requirePermission('products:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/:key', requirePermission('products:read', { branch: 'any' }), asyncHandler(async (req: Request, res: Response) => {
   const { key } = req.params;
   const { include_children, include_products } = req.query;
   
@@ -185,7 +185,7 @@ router.get('/:key', requirePermission('products:read'), asyncHandler(async (req:
 }));
 
 // POST /api/1c/categories - Create categories
-router.post('/', requirePermission('products:write'), asyncHandler(async (req: Request, res: Response) => {
+router.post('/', requirePermission('products:write', { branch: 'any' }), asyncHandler(async (req: Request, res: Response) => {
   const categories = z.array(categorySchema).parse(req.body);
   
   const syncId = await createSyncLog('categories', 'import', categories.length);
@@ -290,7 +290,7 @@ router.post('/', requirePermission('products:write'), asyncHandler(async (req: R
 }));
 
 // PUT /api/1c/categories/:key - Update specific category
-router.put('/:key', requirePermission('products:write'), asyncHandler(async (req: Request, res: Response) => {
+router.put('/:key', requirePermission('products:write', { branch: 'any' }), asyncHandler(async (req: Request, res: Response) => {
   const { key } = req.params;
   const categoryData = updateCategorySchema.parse(req.body);
   
@@ -368,7 +368,7 @@ router.put('/:key', requirePermission('products:write'), asyncHandler(async (req
 }));
 
 // DELETE /api/1c/categories/:key - Deactivate category
-router.delete('/:key', requirePermission('products:write'), asyncHandler(async (req: Request, res: Response) => {
+router.delete('/:key', requirePermission('products:write', { branch: 'any' }), asyncHandler(async (req: Request, res: Response) => {
   const { key } = req.params;
   const { force } = req.query;
   
@@ -430,7 +430,7 @@ router.delete('/:key', requirePermission('products:write'), asyncHandler(async (
 }));
 
 // POST /api/1c/categories/reorder - Reorder categories
-router.post('/reorder', requirePermission('products:write'), asyncHandler(async (req: Request, res: Response) => {
+router.post('/reorder', requirePermission('products:write', { branch: 'any' }), asyncHandler(async (req: Request, res: Response) => {
   const { categories } = z.object({
     categories: z.array(z.object({
       key: z.string(),
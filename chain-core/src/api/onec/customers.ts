@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { DatabaseManager } from '../../database/manager';
 import { authenticateApiKey, requirePermission } from '../../middleware/auth';
 import { asyncHandler } from '../../middleware/errorHandler';
+import { LoyaltyService } from '../../services/LoyaltyService';
 
 const router = Router();
 
@@ -35,7 +36,7 @@ const updateCustomerSchema = customerSchema.partial();
 // ============================================================================
 
 // GET /api/1c/customers - Get all customers
-router.get('/', requirePermission('customers:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/', requirePermission('customers:read', { branch: 'any' }), asyncHandler(async (req: Request, res: Response) => {
   const { 
     page = 1, 
     limit = 100, 
@@ -122,7 +123,7 @@ router.get('/', requirePermission('customers:read'), asyncHandler(async (req: Re
 }));
 
 // GET /api/1c/customers/:id - Get specific customer
-router.get('/:id', requirePermission('customers:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/:id', requirePermission('customers:read', { branch: 'any' }), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const { include_transactions } = req.query;
   
@@ -181,7 +182,7 @@ router.get('/:id', requirePermission('customers:read'), asyncHandler(async (req:
 }));
 
 // POST /api/1c/customers - Create or update customers
-router.post('/', requirePermission('customers:write'), asyncHandler(async (req: Request, res: Response) => {
+router.post('/', requirePermission('customers:write', { branch: 'any' }), asyncHandler(async (req: Request, res: Response) => {
   const customers = z.array(customerSchema).parse(req.body);
   
   const syncId = await createSyncLog('customers', 'import', customers.length);
@@ -330,7 +331,7 @@ router.post('/', requirePermission('customers:write'), asyncHandler(async (req:
 }));
 
 // PUT /api/1c/customers/:id - Update specific customer
-router.put('/:id', requirePermission('customers:write'), asyncHandler(async (req: Request, res: Response) => {
+router.put('/:id', requirePermission('customers:write', { branch: 'any' }), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const customerData = updateCustomerSchema.parse(req.body);
   
@@ -381,7 +382,7 @@ router.put('/:id', requirePermission('customers:write'), asyncHandler(async (req
 }));
 
 // GET /api/1c/customers/:id/transactions - Get customer transaction history
-router.get('/:id/transactions', requirePermission('customers:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/:id/transactions', requirePermission('customers:read', { branch: 'query' }), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const { 
     page = 1, 
@@ -479,7 +480,7 @@ router.get('/:id/transactions', requirePermission('customers:read'), asyncHandle
 }));
 
 // POST /api/1c/customers/:id/loyalty-points - Update customer loyalty points
-router.post('/:id/loyalty-points', requirePermission('customers:write'), asyncHandler(async (req: Request, res: Response) => {
+router.post('/:id/loyalty-points', requirePermission('customers:write', { branch: 'any' }), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const { points, operation, reason } = z.object({
     points: z.number().int(),
@@ -487,70 +488,30 @@ router.post('/:id/loyalty-points', requirePermission('customers:write'), asyncHa
     reason: z.string().optional()
   }).parse(req.body);
   
-  await DatabaseManager.query('BEGIN');
-  
-  try {
-    // Get current customer data
-    const customerResult = await DatabaseManager.query(
-      'SELECT id, name, loyalty_points FROM customers WHERE id = $1 OR onec_id = $1 OR customer_code = $1 OR loyalty_card_number = $1',
-      [id]
-    );
-    
-    if (customerResult.rows.length === 0) {
-      await DatabaseManager.query('ROLLBACK');
-      return res.status(404).json({
-        success: false,
-        error: 'Customer not found'
-      });
-    }
-    
-    const customer = customerResult.rows[0];
-    let newPoints = customer.loyalty_points;
-    
-    switch (operation) {
-      case 'add':
-        newPoints += points;
-        break;
-      case 'subtract':
-        newPoints = Math.max(0, newPoints - points);
-        break;
-      case 'set':
-        newPoints = Math.max(0, points);
-        break;
+  const { customer, previousPoints, newPoints } = await LoyaltyService.adjustPoints({
+    customerId: id,
+    operation,
+    points,
+    reason,
+    source: 'onec'
+  });
+
+  res.json({
+    success: true,
+    data: {
+      customer_id: customer.id,
+      customer_name: customer.name,
+      previous_points: previousPoints,
+      new_points: newPoints,
+      points_changed: newPoints - previousPoints,
+      operation: operation,
+      reason: reason
     }
-    
-    // Update customer points
-    await DatabaseManager.query(
-      'UPDATE customers SET loyalty_points = $1, updated_at = NOW() WHERE id = $2',
-      [newPoints, customer.id]
-    );
-    
-    // Log the points change (you may want to create a loyalty_points_history table)
-    // For now, we'll just return the result
-    
-    await DatabaseManager.query('COMMIT');
-    
-    res.json({
-      success: true,
-      data: {
-        customer_id: customer.id,
-        customer_name: customer.name,
-        previous_points: customer.loyalty_points,
-        new_points: newPoints,
-        points_changed: newPoints - customer.loyalty_points,
-        operation: operation,
-        reason: reason
-      }
-    });
-    
-  } catch (error) {
-    await DatabaseManager.query('ROLLBACK');
-    throw error;
-  }
+  });
 }));
 
 // DELETE /api/1c/customers/:id - Deactivate customer
-router.delete('/:id', requirePermission('customers:write'), asyncHandler(async (req: Request, res: Response) => {
+router.delete('/:id', requirePermission('customers:write', { branch: 'any' }), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   
   const result = await DatabaseManager.query(`
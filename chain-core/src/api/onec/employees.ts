@@ -43,7 +43,7 @@ const timeLogSchema = z.object({
 // ============================================================================
 
 // GET /api/1c/employees - Get all employees
-router.get('/', requirePermission('employees:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/', requirePermission('employees:read', { branch: 'query' }), asyncHandler(async (req: Request, res: Response) => {
   const { 
     page = 1, 
     limit = 100, 
@@ -173,7 +173,7 @@ router.get('/:id', requirePermission('employees:read'), asyncHandler(async (req:
 }));
 
 // POST /api/1c/employees - Create or update employees from 1C
-router.post('/', requirePermission('employees:write'), asyncHandler(async (req: Request, res: Response) => {
+router.post('/', requirePermission('employees:write', { branch: 'body' }), asyncHandler(async (req: Request, res: Response) => {
   const employees = z.array(employeeSchema).parse(req.body);
   
   const syncId = await createSyncLog('employees', 'import', employees.length);
@@ -374,7 +374,7 @@ router.put('/:id', requirePermission('employees:write'), asyncHandler(async (req
 // ============================================================================
 
 // GET /api/1c/employees/time-logs - Get employee time logs
-router.get('/time-logs', requirePermission('employees:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/time-logs', requirePermission('employees:read', { branch: 'query' }), asyncHandler(async (req: Request, res: Response) => {
   const { 
     page = 1, 
     limit = 100, 
@@ -446,7 +446,7 @@ router.get('/time-logs', requirePermission('employees:read'), asyncHandler(async
 }));
 
 // POST /api/1c/employees/time-logs - Import time logs from 1C
-router.post('/time-logs', requirePermission('employees:write'), asyncHandler(async (req: Request, res: Response) => {
+router.post('/time-logs', requirePermission('employees:write', { branch: 'body' }), asyncHandler(async (req: Request, res: Response) => {
   const timeLogs = z.array(timeLogSchema).parse(req.body);
   
   const syncId = await createSyncLog('time_logs', 'import', timeLogs.length);
@@ -46,7 +46,7 @@ const stockMovementSchema = z.object({
 // ============================================================================
 
 // GET /api/1c/inventory - Get inventory levels
-router.get('/', requirePermission('inventory:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/', requirePermission('inventory:read', { branch: 'query' }), asyncHandler(async (req: Request, res: Response) => {
   const { 
     page = 1, 
     limit = 100, 
@@ -61,7 +61,7 @@ router.get('/', requirePermission('inventory:read'), asyncHandler(async (req: Re
   let query = `
     SELECT 
       bi.id, bi.quantity_in_stock, bi.min_stock_level, bi.max_stock_level,
-      bi.last_updated, bi.updated_at,
+      bi.updated_at,
       p.id as product_id, p.sku, p.barcode, p.name, p.name_ru, p.name_uz,
       p.base_price, p.cost, p.unit_of_measure,
       b.code as branch_code, b.name as branch_name,
@@ -107,7 +107,7 @@ router.get('/', requirePermission('inventory:read'), asyncHandler(async (req: Re
   }
   
   // Get total count for pagination
-  const countQuery = query.replace(/SELECT .* FROM/, 'SELECT COUNT(*) FROM');
+  const countQuery = query.replace(/SELECT[\s\S]*?FROM/, 'SELECT COUNT(*) FROM');
   const countResult = await DatabaseManager.query(countQuery, params);
   const total = parseInt(countResult.rows[0].count);
   
@@ -132,7 +132,7 @@ router.get('/', requirePermission('inventory:read'), asyncHandler(async (req: Re
 }));
 
 // GET /api/1c/inventory/summary - Get inventory summary
-router.get('/summary', requirePermission('inventory:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/summary', requirePermission('inventory:read', { branch: 'query' }), asyncHandler(async (req: Request, res: Response) => {
   const { branch_code } = req.query;
   
   let query = `
@@ -172,7 +172,7 @@ router.get('/summary', requirePermission('inventory:read'), asyncHandler(async (
 }));
 
 // GET /api/1c/inventory/branch/:code - Get inventory for specific branch
-router.get('/branch/:code', requirePermission('inventory:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/branch/:code', requirePermission('inventory:read', { branch: 'param' }), asyncHandler(async (req: Request, res: Response) => {
   const { code } = req.params;
   const { 
     page = 1, 
@@ -202,7 +202,7 @@ router.get('/branch/:code', requirePermission('inventory:read'), asyncHandler(as
   let query = `
     SELECT 
       bi.id, bi.quantity_in_stock, bi.min_stock_level, bi.max_stock_level,
-      bi.last_updated, bi.updated_at,
+      bi.updated_at,
       p.id as product_id, p.sku, p.barcode, p.name, p.name_ru, p.name_uz,
       p.base_price, p.cost, p.unit_of_measure,
       c.key as category_key, c.name as category_name,
@@ -241,7 +241,7 @@ router.get('/branch/:code', requirePermission('inventory:read'), asyncHandler(as
   }
   
   // Get total count for pagination
-  const countQuery = query.replace(/SELECT .* FROM/, 'SELECT COUNT(*) FROM');
+  const countQuery = query.replace(/SELECT[\s\S]*?FROM/, 'SELECT COUNT(*) FROM');
   const countResult = await DatabaseManager.query(countQuery, params);
   const total = parseInt(countResult.rows[0].count);
   
@@ -270,7 +270,7 @@ router.get('/branch/:code', requirePermission('inventory:read'), asyncHandler(as
 }));
 
 // PUT /api/1c/inventory - Update inventory levels from 1C
-router.put('/', requirePermission('inventory:write'), asyncHandler(async (req: Request, res: Response) => {
+router.put('/', requirePermission('inventory:write', { branch: 'body' }), asyncHandler(async (req: Request, res: Response) => {
   const { updates } = inventoryUpdateSchema.parse(req.body);
   
   const syncId = await createSyncLog('inventory', 'update', updates.length);
@@ -320,14 +320,13 @@ router.put('/', requirePermission('inventory:write'), asyncHandler(async (req: R
         
         // Update or insert inventory
         await DatabaseManager.query(`
-          INSERT INTO branch_inventory (branch_id, product_id, quantity_in_stock, min_stock_level, max_stock_level, last_updated, updated_at)
-          VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
+          INSERT INTO branch_inventory (branch_id, product_id, quantity_in_stock, min_stock_level, max_stock_level, updated_at)
+          VALUES ($1, $2, $3, $4, $5, NOW())
           ON CONFLICT (branch_id, product_id) 
           DO UPDATE SET 
             quantity_in_stock = $3,
             min_stock_level = COALESCE($4, branch_inventory.min_stock_level),
             max_stock_level = COALESCE($5, branch_inventory.max_stock_level),
-            last_updated = NOW(),
             updated_at = NOW()
         `, [
           branchId, productId, update.quantity_in_stock, 
@@ -390,7 +389,7 @@ router.put('/', requirePermission('inventory:write'), asyncHandler(async (req: R
 // ============================================================================
 
 // GET /api/1c/stock-movements - Get stock movement history
-router.get('/stock-movements', requirePermission('inventory:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/stock-movements', requirePermission('inventory:read', { branch: 'query' }), asyncHandler(async (req: Request, res: Response) => {
   const { 
     page = 1, 
     limit = 100, 
@@ -445,7 +444,7 @@ router.get('/stock-movements', requirePermission('inventory:read'), asyncHandler
   }
   
   // Get total count for pagination
-  const countQuery = query.replace(/SELECT .* FROM/, 'SELECT COUNT(*) FROM');
+  const countQuery = query.replace(/SELECT[\s\S]*?FROM/, 'SELECT COUNT(*) FROM');
   const countResult = await DatabaseManager.query(countQuery, params);
   const total = parseInt(countResult.rows[0].count);
   
@@ -470,7 +469,7 @@ router.get('/stock-movements', requirePermission('inventory:read'), asyncHandler
 }));
 
 // POST /api/1c/stock-movements - Record stock movements
-router.post('/stock-movements', requirePermission('inventory:write'), asyncHandler(async (req: Request, res: Response) => {
+router.post('/stock-movements', requirePermission('inventory:write', { branch: 'body' }), asyncHandler(async (req: Request, res: Response) => {
   const { movements } = stockMovementSchema.parse(req.body);
   
   const syncId = await createSyncLog('stock_movements', 'import', movements.length);
@@ -555,7 +554,6 @@ router.post('/stock-movements', requirePermission('inventory:write'), asyncHandl
           UPDATE branch_inventory 
           SET 
             quantity_in_stock = quantity_in_stock + $1,
-            last_updated = NOW(),
             updated_at = NOW()
           WHERE branch_id = $2 AND product_id = $3
         `, [quantityChange, branchId, productId]);
@@ -33,7 +33,7 @@ const paymentSchema = z.object({
 // ============================================================================
 
 // GET /api/1c/payments - Get all payments
-router.get('/', requirePermission('transactions:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/', requirePermission('transactions:read', { branch: 'query' }), asyncHandler(async (req: Request, res: Response) => {
   const { 
     page = 1, 
     limit = 100, 
@@ -167,7 +167,7 @@ router.get('/:id', requirePermission('transactions:read'), asyncHandler(async (r
 }));
 
 // POST /api/1c/payments - Import payment records
-router.post('/', requirePermission('transactions:write'), asyncHandler(async (req: Request, res: Response) => {
+router.post('/', requirePermission('transactions:write', { branch: 'body' }), asyncHandler(async (req: Request, res: Response) => {
   const payments = z.array(paymentSchema).parse(req.body);
   
   const syncId = await createSyncLog('payments', 'import', payments.length);
@@ -315,7 +315,7 @@ router.post('/', requirePermission('transactions:write'), asyncHandler(async (re
 }));
 
 // GET /api/1c/payments/methods - Get payment methods summary
-router.get('/methods', requirePermission('transactions:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/methods', requirePermission('transactions:read', { branch: 'query' }), asyncHandler(async (req: Request, res: Response) => {
   const { branch_code, start_date, end_date } = req.query;
   
   let query = `
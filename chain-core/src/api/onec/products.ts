@@ -9,6 +9,8 @@ import { z } from 'zod';
 import { DatabaseManager } from '../../database/manager';
 import { authenticateApiKey, requirePermission } from '../../middleware/auth';
 import { asyncHandler } from '../../middleware/errorHandler';
+import { ProductBarcodeInput, ProductCatalogService } from '../../services/ProductCatalogService';
+import { WebhookService } from '../../services/WebhookService';
 
 const router = Router();
 
@@ -31,11 +33,21 @@ const productSchema = z.object({
   unit_of_measure: z.string().default('pcs'),
   base_price: z.number().positive(),
   cost: z.number().positive(),
-  tax_rate: z.number().min(0).max(1).default(0),
+  tax_rate: z.number().min(0).max(1).nullable().optional(), // Unset uses the branch rate
   image_url: z.string().url().optional(),
   images: z.array(z.string().url()).optional(),
   attributes: z.record(z.any()).optional(),
-  is_active: z.boolean().default(true)
+  is_active: z.boolean().default(true),
+  // Variants (1C characteristics) name their parent product, which must be imported first
+  parent_oneC_id: z.string().optional(),
+  variant_attributes: z.record(z.string()).optional(),
+  // Replaces the additional barcodes: alternate supplier codes and multipacks
+  barcodes: z.array(z.object({
+    barcode: z.string().min(1),
+    quantity_multiplier: z.number().positive().default(1),
+    supplier_code: z.string().optional(),
+    description: z.string().optional()
+  })).optional()
 });
 
 const priceUpdateSchema = z.object({
@@ -74,7 +86,7 @@ const upload = multer({
 
 // POST /api/1c/products/:id/image - Upload product image (from 1C system)
 router.post('/:id/image', 
-  requirePermission('products:write'), 
+  requirePermission('products:write', { branch: 'any' }), 
   upload.single('image'), 
   asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
@@ -162,7 +174,7 @@ router.post('/:id/image',
 
 // POST /api/1c/products/chain-manager/:id/image - Upload product image (from chain-manager)
 router.post('/chain-manager/:id/image', 
-  requirePermission('products:write'), 
+  requirePermission('products:write', { branch: 'any' }), 
   upload.single('image'), 
   asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
@@ -259,7 +271,7 @@ router.post('/chain-manager/:id/image',
 ));
 
 // GET /api/1c/products - Get all products
-router.get('/', requirePermission('products:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/', requirePermission('products:read', { branch: 'any' }), asyncHandler(async (req: Request, res: Response) => {
   const { page = 1, limit = 100, category_key, is_active, search } = req.query;
   const offset = (Number(page) - 1) * Number(limit);
   
@@ -269,10 +281,14 @@ router.get('/', requirePermission('products:read'), asyncHandler(async (req: Req
       p.description, p.description_ru, p.description_uz, p.brand,
       p.unit_of_measure, p.base_price, p.cost, p.tax_rate,
       p.image_url, p.images, p.attributes, p.is_active,
+      parent.oneC_id as "parent_oneC_id", p.variant_attributes,
+      COALESCE(barcodes.list, '[]') as barcodes,
       p.created_at, p.updated_at,
       c.key as category_key, c.name as category_name
     FROM products p
     LEFT JOIN categories c ON p.category_id = c.id
+    LEFT JOIN products parent ON p.parent_product_id = parent.id
+    ${BARCODES_JOIN}
     WHERE 1=1
   `;
   
@@ -319,7 +335,7 @@ router.get('/', requirePermission('products:read'), asyncHandler(async (req: Req
 }));
 
 // GET /api/1c/products/:id - Get specific product
-router.get('/:id', requirePermission('products:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/:id', requirePermission('products:read', { branch: 'any' }), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   
   const query = `
@@ -328,14 +344,19 @@ router.get('/:id', requirePermission('products:read'), asyncHandler(async (req:
       p.description, p.description_ru, p.description_uz, p.brand,
       p.unit_of_measure, p.base_price, p.cost, p.tax_rate,
       p.image_url, p.images, p.attributes, p.is_active,
+      parent.oneC_id as "parent_oneC_id", p.variant_attributes,
+      COALESCE(barcodes.list, '[]') as barcodes,
       p.created_at, p.updated_at,
       c.key as category_key, c.name as category_name
     FROM products p
     LEFT JOIN categories c ON p.category_id = c.id
+    LEFT JOIN products parent ON p.parent_product_id = parent.id
+    ${BARCODES_JOIN}
     WHERE (p.id::text = $1 AND $1 ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$') 
        OR p.oneC_id = $1 
        OR p.sku = $1 
        OR p.barcode = $1
+       OR p.id IN (SELECT product_id FROM product_barcodes WHERE barcode = $1)
   `;  const result = await DatabaseManager.query(query, [id]);
   
   if (result.rows.length === 0) {
@@ -354,7 +375,7 @@ router.get('/:id', requirePermission('products:read'), asyncHandler(async (req:
 }));
 
 // POST /api/1c/products - Create or update products from 1C
-router.post('/', requirePermission('products:write'), asyncHandler(async (req: Request, res: Response) => {
+router.post('/', requirePermission('products:write', { branch: 'any' }), asyncHandler(async (req: Request, res: Response) => {
   // Validate that we received an array
   if (!Array.isArray(req.body)) {
     return res.status(400).json({
@@ -363,7 +384,8 @@ router.post('/', requirePermission('products:write'), asyncHandler(async (req: R
     });
   }
   
-  const rawProducts = req.body;
+  // Parents go first, so variants in the same request find them
+  const rawProducts = [...req.body].sort((a, b) => Number(Boolean(a?.parent_oneC_id)) - Number(Boolean(b?.parent_oneC_id)));
   const syncId = await createSyncLog('products', 'import', rawProducts.length);
   const results = [];
   
@@ -419,6 +441,27 @@ router.post('/', requirePermission('products:write'), asyncHandler(async (req: R
           productData.sku
         ]);
         
+        let parentId = null;
+        if (productData.parent_oneC_id) {
+          const parentResult = await DatabaseManager.query(
+            'SELECT id, parent_product_id FROM products WHERE oneC_id = $1',
+            [productData.parent_oneC_id]
+          );
+          if (parentResult.rows.length === 0) {
+            throw new Error(`Parent product ${productData.parent_oneC_id} not found; import it before its variants`);
+          }
+          if (parentResult.rows[0].parent_product_id) {
+            throw new Error(`Parent product ${productData.parent_oneC_id} is itself a variant`);
+          }
+          parentId = parentResult.rows[0].id;
+        }
+        
+        const barcodes = await resolveBarcodes(productData.barcodes);
+        await ProductCatalogService.assertBarcodesAvailable(
+          [productData.barcode || '', ...(barcodes ?? []).map(entry => entry.barcode)],
+          existingResult.rows.map((row: any) => row.id)
+        );
+        
         let productId;
         if (existingResult.rows.length > 0) {
           // Update existing product
@@ -431,6 +474,7 @@ router.post('/', requirePermission('products:write'), asyncHandler(async (req: R
               brand = $11, unit_of_measure = $12, base_price = $13,
               cost = $14, tax_rate = $15, image_url = $16,
               images = $17, attributes = $18, is_active = $19,
+              parent_product_id = $21, variant_attributes = $22,
               updated_at = NOW()
             WHERE id = $20
           `, [
@@ -441,7 +485,7 @@ router.post('/', requirePermission('products:write'), asyncHandler(async (req: R
             productData.base_price, productData.cost, productData.tax_rate,
             productData.image_url, JSON.stringify(productData.images || []),
             JSON.stringify(productData.attributes || {}), productData.is_active,
-            productId
+            productId, parentId, productData.variant_attributes ? JSON.stringify(productData.variant_attributes) : null
           ]);
         } else {
           // Create new product
@@ -450,10 +494,11 @@ router.post('/', requirePermission('products:write'), asyncHandler(async (req: R
               oneC_id, sku, barcode, name, name_ru, name_uz,
               description, description_ru, description_uz, category_id,
               brand, unit_of_measure, base_price, cost, tax_rate,
-              image_url, images, attributes, is_active, created_at, updated_at
+              image_url, images, attributes, is_active, parent_product_id, variant_attributes,
+              created_at, updated_at
             ) VALUES (
               $1, $2, $3, $4, $5, $6, $7, $8, $9, $10,
-              $11, $12, $13, $14, $15, $16, $17, $18, $19, NOW(), NOW()
+              $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, NOW(), NOW()
             ) RETURNING id
           `, [
             productData.oneC_id, productData.sku, productData.barcode,
@@ -462,11 +507,18 @@ router.post('/', requirePermission('products:write'), asyncHandler(async (req: R
             categoryId, productData.brand, productData.unit_of_measure,
             productData.base_price, productData.cost, productData.tax_rate,
             productData.image_url, JSON.stringify(productData.images || []),
-            JSON.stringify(productData.attributes || {}), productData.is_active
+            JSON.stringify(productData.attributes || {}), productData.is_active,
+            parentId, productData.variant_attributes ? JSON.stringify(productData.variant_attributes) : null
           ]);
           productId = insertResult.rows[0].id;
         }
         
+        if (barcodes) {
+          await ProductCatalogService.replaceBarcodes(productId, barcodes);
+        }
+        // Variants take category, brand, unit and tax from their parent
+        await ProductCatalogService.syncSharedFields(productId);
+        
         // Sync to all active branches
         await syncProductToBranches(productId);
         
@@ -523,7 +575,7 @@ router.post('/', requirePermission('products:write'), asyncHandler(async (req: R
 }));
 
 // PUT /api/1c/products/prices - Update product prices across branches
-router.put('/prices', requirePermission('products:write'), asyncHandler(async (req: Request, res: Response) => {
+router.put('/prices', requirePermission('products:write', { branch: 'body' }), asyncHandler(async (req: Request, res: Response) => {
   // Validate input data
   let updates;
   try {
@@ -678,7 +730,7 @@ router.put('/prices', requirePermission('products:write'), asyncHandler(async (r
 }));
 
 // PUT /api/1c/products/:id - Update specific product
-router.put('/:id', requirePermission('products:write'), asyncHandler(async (req: Request, res: Response) => {
+router.put('/:id', requirePermission('products:write', { branch: 'any' }), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const productData = productSchema.partial().parse(req.body);
   
@@ -760,6 +812,7 @@ router.put('/:id', requirePermission('products:write'), asyncHandler(async (req:
   
   // Sync to branches
   await syncProductToBranches(productId);
+  await WebhookService.publishProductUpdates([productId], 'onec');
   
   res.json({
     success: true,
@@ -771,7 +824,7 @@ router.put('/:id', requirePermission('products:write'), asyncHandler(async (req:
 }));
 
 // DELETE /api/1c/products/:id - Deactivate product
-router.delete('/:id', requirePermission('products:write'), asyncHandler(async (req: Request, res: Response) => {
+router.delete('/:id', requirePermission('products:write', { branch: 'any' }), asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   
   const result = await DatabaseManager.query(`
@@ -795,6 +848,7 @@ router.delete('/:id', requirePermission('products:write'), asyncHandler(async (r
   
   // Sync deactivation to branches
   await syncProductToBranches(productId);
+  await WebhookService.publishProductUpdates([productId], 'onec');
   
   res.json({
     success: true,
@@ -809,6 +863,43 @@ router.delete('/:id', requirePermission('products:write'), asyncHandler(async (r
 // HELPER FUNCTIONS
 // ============================================================================
 
+// Additional barcodes of each product, for the product queries above. No ORDER BY in here:
+// the list count query is cut at the first one.
+const BARCODES_JOIN = `
+    LEFT JOIN LATERAL (
+      SELECT json_agg(json_build_object(
+        'barcode', pb.barcode, 'quantity_multiplier', pb.quantity_multiplier,
+        'supplier_code', s.code, 'description', pb.description
+      )) as list
+      FROM product_barcodes pb
+      LEFT JOIN suppliers s ON pb.supplier_id = s.id
+      WHERE pb.product_id = p.id
+    ) barcodes ON true`;
+
+// 1C refers to suppliers by code
+async function resolveBarcodes(barcodes: z.infer<typeof productSchema>['barcodes']): Promise<ProductBarcodeInput[] | undefined> {
+  if (!barcodes) return undefined;
+
+  const codes = [...new Set(barcodes.map(entry => entry.supplier_code).filter((code): code is string => Boolean(code)))];
+  const suppliers = new Map<string, string>();
+  if (codes.length > 0) {
+    const result = await DatabaseManager.query('SELECT id, code FROM suppliers WHERE code = ANY($1::text[])', [codes]);
+    result.rows.forEach((row: any) => suppliers.set(row.code, row.id));
+  }
+
+  return barcodes.map(entry => {
+    if (entry.supplier_code && !suppliers.has(entry.supplier_code)) {
+      throw new Error(`Supplier ${entry.supplier_code} not found`);
+    }
+    return {
+      barcode: entry.barcode,
+      quantityMultiplier: entry.quantity_multiplier,
+      supplierId: entry.supplier_code ? suppliers.get(entry.supplier_code) : null,
+      description: entry.description
+    };
+  });
+}
+
 async function createSyncLog(syncType: string, direction: string, totalRecords: number): Promise<string> {
   const result = await DatabaseManager.query(`
     INSERT INTO onec_sync_logs (sync_type, direction, status, records_total, started_at)
@@ -849,7 +940,10 @@ async function syncProductToBranches(productId: string): Promise<void> {
   
   if (productResult.rows.length === 0) return;
   
-  const productData = productResult.rows[0];
+  const productData = {
+    ...productResult.rows[0],
+    barcodes: await ProductCatalogService.getBarcodes(productId)
+  };
   
   // Send to each branch
   for (const branch of branchesResult.rows) {
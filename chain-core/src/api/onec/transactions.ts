@@ -35,6 +35,7 @@ const transactionSchema = z.object({
     quantity: z.number().positive(),
     unit_price: z.number().min(0),
     discount_amount: z.number().min(0).default(0),
+    tax_rate: z.number().min(0).max(1).default(0),
     tax_amount: z.number().min(0).default(0),
     total_amount: z.number().min(0),
     metadata: z.record(z.any()).optional()
@@ -49,6 +50,7 @@ const transactionItemSchema = z.object({
   quantity: z.number().positive(),
   unit_price: z.number().min(0),
   discount_amount: z.number().min(0).default(0),
+  tax_rate: z.number().min(0).max(1).default(0),
   tax_amount: z.number().min(0).default(0),
   total_amount: z.number().min(0),
   metadata: z.record(z.any()).optional()
@@ -59,7 +61,7 @@ const transactionItemSchema = z.object({
 // ============================================================================
 
 // GET /api/1c/transactions - Get all transactions
-router.get('/', requirePermission('transactions:read'), asyncHandler(async (req: Request, res: Response) => {
+router.get('/', requirePermission('transactions:read', { branch: 'query' }), asyncHandler(async (req: Request, res: Response) => {
   const { 
     page = 1, 
     limit = 100, 
@@ -163,7 +165,7 @@ router.get('/', requirePermission('transactions:read'), asyncHandler(async (req:
       SELECT 
         ti.transaction_id, ti.id as item_id,
         ti.product_id, ti.product_name, ti.quantity,
-        ti.unit_price, ti.discount_amount, ti.tax_amount, ti.total_amount,
+        ti.unit_price, ti.discount_amount, ti.tax_rate, ti.tax_amount, ti.total_amount,
         p.sku, p.barcode
       FROM transaction_items ti
       LEFT JOIN products p ON ti.product_id = p.id
@@ -185,6 +187,14 @@ router.get('/', requirePermission('transactions:read'), asyncHandler(async (req:
       transaction.items = itemsByTransaction[transaction.id] || [];
     });
   }
+
+  // Totals per VAT rate for every exported transaction
+  if (result.rows.length > 0) {
+    const breakdowns = await getTaxBreakdowns(result.rows.map((t: any) => t.id));
+    result.rows.forEach((transaction: any) => {
+      transaction.tax_breakdown = breakdowns[transaction.id] || [];
+    });
+  }
   
   res.json({
     success: true,
@@ -237,7 +247,7 @@ router.get('/:id', requirePermission('transactions:read'), asyncHandler(async (r
     const itemsResult = await DatabaseManager.query(`
       SELECT 
         ti.id as item_id, ti.product_id, ti.product_name,
-        ti.quantity, ti.unit_price, ti.discount_amount, ti.tax_amount, ti.total_amount,
+        ti.quantity, ti.unit_price, ti.discount_amount, ti.tax_rate, ti.tax_amount, ti.total_amount,
         ti.metadata,
         p.sku, p.barcode, p.name as product_full_name
       FROM transaction_items ti
@@ -248,6 +258,9 @@ router.get('/:id', requirePermission('transactions:read'), asyncHandler(async (r
     
     transaction.items = itemsResult.rows;
   }
+
+  const breakdowns = await getTaxBreakdowns([transaction.id]);
+  transaction.tax_breakdown = breakdowns[transaction.id] || [];
   
   // Include payments if requested
   if (include_payments === 'true') {
@@ -273,7 +286,7 @@ router.get('/:id', requirePermission('transactions:read'), asyncHandler(async (r
 }));
 
 // POST /api/1c/transactions - Import transactions from 1C
-router.post('/', requirePermission('transactions:write'), asyncHandler(async (req: Request, res: Response) => {
+router.post('/', requirePermission('transactions:write', { branch: 'body' }), asyncHandler(async (req: Request, res: Response) => {
   const transactions = z.array(transactionSchema).parse(req.body);
   
   const syncId = await createSyncLog('transactions', 'import', transactions.length);
@@ -400,14 +413,14 @@ router.post('/', requirePermission('transactions:write'), asyncHandler(async (re
           await DatabaseManager.query(`
             INSERT INTO transaction_items (
               transaction_id, product_id, product_name, quantity,
-              unit_price, discount_amount, tax_amount, total_amount,
+              unit_price, discount_amount, tax_rate, tax_amount, total_amount,
               metadata, created_at
             ) VALUES (
-              $1, $2, $3, $4, $5, $6, $7, $8, $9, NOW()
+              $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW()
             )
           `, [
             transactionId, productId, item.product_name, item.quantity,
-            item.unit_price, item.discount_amount, item.tax_amount, item.total_amount,
+            item.unit_price, item.discount_amount, item.tax_rate, item.tax_amount, item.total_amount,
             JSON.stringify(item.metadata || {})
           ]);
         }
@@ -581,14 +594,14 @@ router.post('/:id/items', requirePermission('transactions:write'), asyncHandler(
       const itemResult = await DatabaseManager.query(`
         INSERT INTO transaction_items (
           transaction_id, product_id, product_name, quantity,
-          unit_price, discount_amount, tax_amount, total_amount,
+          unit_price, discount_amount, tax_rate, tax_amount, total_amount,
           metadata, created_at
         ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, NOW()
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW()
         ) RETURNING id
       `, [
         transaction.id, productId, item.product_name, item.quantity,
-        item.unit_price, item.discount_amount, item.tax_amount, item.total_amount,
+        item.unit_price, item.discount_amount, item.tax_rate, item.tax_amount, item.total_amount,
         JSON.stringify(item.metadata || {})
       ]);
       
@@ -669,4 +682,35 @@ async function completeSyncLog(
   `, [status, recordsProcessed, errorMessage, syncId]);
 }
 
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Line totals and tax grouped by VAT rate, keyed by transaction ID
+async function getTaxBreakdowns(transactionIds: string[]): Promise<{ [transactionId: string]: any[] }> {
+  const result = await DatabaseManager.query(`
+    SELECT 
+      transaction_id,
+      COALESCE(tax_rate, 0) as tax_rate,
+      COUNT(*) as item_count,
+      SUM(total_amount) as total_amount,
+      SUM(tax_amount) as tax_amount
+    FROM transaction_items
+    WHERE transaction_id = ANY($1)
+    GROUP BY transaction_id, COALESCE(tax_rate, 0)
+    ORDER BY transaction_id, tax_rate
+  `, [transactionIds]);
+
+  const breakdowns: { [transactionId: string]: any[] } = {};
+  result.rows.forEach((row: any) => {
+    const { transaction_id, ...entry } = row;
+    if (!breakdowns[transaction_id]) {
+      breakdowns[transaction_id] = [];
+    }
+    breakdowns[transaction_id].push(entry);
+  });
+
+  return breakdowns;
+}
+
 export default router;
@@ -2,10 +2,34 @@ import { Request, Response, Router } from 'express';
 import { z } from 'zod';
 import { DatabaseManager } from '../database/manager';
 import { asyncHandler } from '../middleware/errorHandler';
+import { ProductBarcodeInput, ProductCatalogService, ProductVariantInput } from '../services/ProductCatalogService';
+import { WebhookService } from '../services/WebhookService';
 
 const router = Router();
 
 // Validation schemas
+const productBarcodeSchema = z.object({
+  barcode: z.string().trim().min(1, 'Barcode is required'),
+  quantity_multiplier: z.coerce.number().positive('Quantity multiplier must be positive').multipleOf(0.001).default(1),
+  supplier_id: z.string().uuid().nullable().optional(),
+  description: z.string().max(255).nullable().optional(),
+});
+
+const variantAttributesSchema = z.record(z.string().trim().min(1));
+
+const productVariantSchema = z.object({
+  id: z.string().uuid().optional(),
+  sku: z.string().min(1, 'Variant SKU is required'),
+  barcode: z.string().nullable().optional(),
+  name: z.string().optional(),
+  variant_attributes: variantAttributesSchema.refine(attributes => Object.keys(attributes).length > 0, 'Variant attributes are required'),
+  base_price: z.coerce.number().min(0, 'Price must be non-negative').optional(),
+  cost: z.coerce.number().min(0, 'Cost must be non-negative').nullable().optional(),
+  is_active: z.boolean().optional(),
+  onec_id: z.string().nullable().optional(),
+  barcodes: z.array(productBarcodeSchema).optional(),
+});
+
 const createProductSchema = z.object({
   name: z.string().min(1, 'Product name is required'),
   name_en: z.string().optional(),
@@ -23,16 +47,50 @@ const createProductSchema = z.object({
   description_uz: z.string().optional(),
   brand: z.string().optional(),
   unit_of_measure: z.string().default('pcs'),
-  tax_rate: z.coerce.number().min(0).max(100).default(0).transform(val => val > 1 ? val / 100 : val),
+  tax_rate: z.coerce.number().min(0).max(100).transform(val => val > 1 ? val / 100 : val).nullable().optional(), // Unset uses the branch rate
   image_url: z.string().optional(),
   attributes: z.record(z.any()).optional(),
   onec_id: z.string().optional(),
   is_active: z.boolean().default(true),
   selected_branches: z.array(z.string().uuid()).optional(), // Array of branch IDs
+  variant_attributes: variantAttributesSchema.optional(), // Only meaningful on variants
+  barcodes: z.array(productBarcodeSchema).optional(), // Replaces the additional barcodes
+  variants: z.array(productVariantSchema).optional(), // Replaces the variants; missing ones are deactivated
 });
 
 const updateProductSchema = createProductSchema.partial();
 
+const PRODUCT_COLUMNS = `
+  id, name, name_en, name_ru, name_uz, sku, barcode, category_id, base_price, cost,
+  description, description_en, description_ru, description_uz, brand, unit_of_measure,
+  tax_rate, image_url, attributes, parent_product_id, variant_attributes, onec_id, is_active,
+  created_at, updated_at
+`;
+
+function toBarcodeInputs(barcodes: z.infer<typeof productBarcodeSchema>[]): ProductBarcodeInput[] {
+  return barcodes.map(entry => ({
+    barcode: entry.barcode,
+    quantityMultiplier: entry.quantity_multiplier,
+    supplierId: entry.supplier_id,
+    description: entry.description
+  }));
+}
+
+function toVariantInput(variant: z.infer<typeof productVariantSchema>): ProductVariantInput {
+  return {
+    id: variant.id,
+    sku: variant.sku,
+    barcode: variant.barcode,
+    name: variant.name,
+    variantAttributes: variant.variant_attributes,
+    basePrice: variant.base_price,
+    cost: variant.cost,
+    isActive: variant.is_active,
+    onecId: variant.onec_id,
+    barcodes: variant.barcodes ? toBarcodeInputs(variant.barcodes) : undefined
+  };
+}
+
 // GET /api/products - Get all products
 router.get('/', asyncHandler(async (req: Request, res: Response) => {
   const { category_id, is_active, search, branch_id } = req.query;
@@ -42,6 +100,8 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
       p.id, p.name, p.name_en, p.name_ru, p.name_uz, p.sku, p.barcode, p.category_id, 
       p.base_price, p.cost, p.description, p.description_en, p.description_ru, p.description_uz,
       p.brand, p.unit_of_measure, p.tax_rate, p.image_url, p.attributes, p.onec_id,
+      p.parent_product_id, p.variant_attributes,
+      (SELECT COUNT(*)::int FROM products v WHERE v.parent_product_id = p.id) as variant_count,
       p.created_at, p.updated_at,
       c.name as category_name, c.name_ru as category_name_ru, c.name_uz as category_name_uz
   `;
@@ -321,10 +381,12 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
       p.id, p.name, p.name_ru, p.name_uz, p.sku, p.barcode, p.category_id, 
       p.base_price, p.cost, p.description, p.description_ru, p.description_uz,
       p.brand, p.unit_of_measure, p.tax_rate, p.image_url, p.is_active, 
+      p.parent_product_id, p.variant_attributes, parent.name as parent_product_name,
       p.created_at, p.updated_at,
       c.name as category_name, c.name_ru as category_name_ru, c.name_uz as category_name_uz
     FROM products p
     LEFT JOIN categories c ON p.category_id = c.id
+    LEFT JOIN products parent ON p.parent_product_id = parent.id
     WHERE p.id = $1
   `;
   
@@ -337,9 +399,15 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
     });
   }
   
+  const product = {
+    ...result.rows[0],
+    barcodes: await ProductCatalogService.getBarcodes(id),
+    variants: await ProductCatalogService.getVariants(id)
+  };
+  
   res.json({
     success: true,
-    data: { product: result.rows[0] }
+    data: { product }
   });
 }));
 
@@ -374,34 +442,40 @@ router.get('/by-sku/:sku', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
-// GET /api/products/by-barcode/:barcode - Get product by barcode
+// GET /api/products/by-barcode/:barcode - Get product by its own or an additional barcode
 router.get('/by-barcode/:barcode', asyncHandler(async (req: Request, res: Response) => {
   const { barcode } = req.params;
   
+  const match = await ProductCatalogService.findByBarcode(barcode);
+  if (!match) {
+    return res.status(404).json({
+      success: false,
+      error: 'Product not found'
+    });
+  }
+  
   const query = `
     SELECT 
       p.id, p.name, p.name_ru, p.name_uz, p.sku, p.barcode, p.category_id, 
       p.base_price, p.cost, p.description, p.description_ru, p.description_uz,
       p.brand, p.unit_of_measure, p.tax_rate, p.image_url, p.is_active, 
+      p.parent_product_id, p.variant_attributes,
       p.created_at, p.updated_at,
       c.name as category_name, c.name_ru as category_name_ru, c.name_uz as category_name_uz
     FROM products p
     LEFT JOIN categories c ON p.category_id = c.id
-    WHERE p.barcode = $1
+    WHERE p.id = $1
   `;
   
-  const result = await DatabaseManager.query(query, [barcode]);
-  
-  if (result.rows.length === 0) {
-    return res.status(404).json({
-      success: false,
-      error: 'Product not found'
-    });
-  }
+  const result = await DatabaseManager.query(query, [match.productId]);
   
   res.json({
     success: true,
-    data: { product: result.rows[0] }
+    data: {
+      product: result.rows[0],
+      scanned_barcode: match.barcode,
+      quantity_multiplier: match.quantityMultiplier
+    }
   });
 }));
 
@@ -422,20 +496,14 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
     });
   }
   
-  // Check if barcode already exists (if provided)
-  if (validatedData.barcode) {
-    const existingBarcode = await DatabaseManager.query(
-      'SELECT id FROM products WHERE barcode = $1',
-      [validatedData.barcode]
-    );
-    
-    if (existingBarcode.rows.length > 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Barcode already exists'
-      });
-    }
-  }
+  // Check if any barcode is taken, as a primary or an additional barcode of another product
+  const barcodes = validatedData.barcodes ?? [];
+  const variants = validatedData.variants ?? [];
+  await ProductCatalogService.assertBarcodesAvailable([
+    validatedData.barcode || '',
+    ...barcodes.map(entry => entry.barcode),
+    ...variants.flatMap(variant => [variant.barcode || '', ...(variant.barcodes ?? []).map(entry => entry.barcode)])
+  ]);
   
   // Resolve category ID from name if category_name is provided instead of category_id
   let categoryId = validatedData.category_id;
@@ -478,9 +546,7 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
     ) VALUES (
       $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, NOW(), NOW()
     )
-    RETURNING id, name, name_en, name_ru, name_uz, sku, barcode, category_id, base_price, cost, 
-             description, description_en, description_ru, description_uz, brand, unit_of_measure, 
-             tax_rate, image_url, attributes, onec_id, is_active, created_at, updated_at
+    RETURNING ${PRODUCT_COLUMNS}
   `;
   
   const result = await DatabaseManager.query(insertQuery, [
@@ -567,6 +633,19 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
     // Don't fail the entire operation, just log the error
   }
   
+  // Variants are sold wherever the product is, so they are saved once it is distributed
+  if (barcodes.length > 0 || variants.length > 0) {
+    await DatabaseManager.transaction(async (client) => {
+      await ProductCatalogService.replaceBarcodes(product.id, toBarcodeInputs(barcodes), client);
+      await ProductCatalogService.saveVariants(product.id, variants.map(toVariantInput), client);
+    });
+  }
+  product = {
+    ...product,
+    barcodes: await ProductCatalogService.getBarcodes(product.id),
+    variants: await ProductCatalogService.getVariants(product.id)
+  };
+  
   res.status(201).json({
     success: true,
     data: { product }
@@ -608,17 +687,7 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
   
   // Check if barcode already exists (if being updated)
   if (validatedData.barcode) {
-    const existingBarcode = await DatabaseManager.query(
-      'SELECT id FROM products WHERE barcode = $1 AND id != $2',
-      [validatedData.barcode, id]
-    );
-    
-    if (existingBarcode.rows.length > 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Barcode already exists'
-      });
-    }
+    await ProductCatalogService.assertBarcodesAvailable([validatedData.barcode], [id]);
   }
   
   // Resolve category ID from name if category_name is provided
@@ -641,7 +710,7 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
   
   // Build dynamic update query
   const updateFields = [];
-  const values = [];
+  const values: any[] = [];
   let paramIndex = 1;
   
   // Map frontend fields to database fields
@@ -663,6 +732,7 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
     tax_rate: 'tax_rate',
     image_url: 'image_url',
     attributes: 'attributes',
+    variant_attributes: 'variant_attributes',
     onec_id: 'onec_id',
     is_active: 'is_active'
   };
@@ -671,7 +741,7 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
     const value = validatedData[frontendKey as keyof typeof validatedData];
     if (value !== undefined) {
       updateFields.push(`${dbKey} = $${paramIndex}`);
-      if (frontendKey === 'attributes' && value) {
+      if ((frontendKey === 'attributes' || frontendKey === 'variant_attributes') && value) {
         values.push(JSON.stringify(value));
       } else {
         values.push(value);
@@ -687,7 +757,8 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
     paramIndex++;
   }
   
-  if (updateFields.length === 0) {
+  const hasCatalogChanges = validatedData.barcodes !== undefined || validatedData.variants !== undefined;
+  if (updateFields.length === 0 && !hasCatalogChanges) {
     return res.status(400).json({
       success: false,
       error: 'No fields to update'
@@ -701,12 +772,20 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
     UPDATE products 
     SET ${updateFields.join(', ')}
     WHERE id = $${paramIndex}
-    RETURNING id, name, name_en, name_ru, name_uz, sku, barcode, category_id, base_price, cost, 
-             description, description_en, description_ru, description_uz, brand, unit_of_measure, 
-             tax_rate, image_url, attributes, onec_id, is_active, created_at, updated_at
   `;
   
-  const result = await DatabaseManager.query(updateQuery, values);
+  // Shared fields follow the parent, so a change on either side reaches the variants
+  const result = await DatabaseManager.transaction(async (client) => {
+    await client.query(updateQuery, values);
+    if (validatedData.barcodes) {
+      await ProductCatalogService.replaceBarcodes(id, toBarcodeInputs(validatedData.barcodes), client);
+    }
+    if (validatedData.variants) {
+      await ProductCatalogService.saveVariants(id, validatedData.variants.map(toVariantInput), client);
+    }
+    await ProductCatalogService.syncSharedFields(id, client);
+    return client.query(`SELECT ${PRODUCT_COLUMNS} FROM products WHERE id = $1`, [id]);
+  });
   
   // Get category name for response
   let product = result.rows[0];
@@ -724,6 +803,14 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
     };
   }
   
+  product = {
+    ...product,
+    barcodes: await ProductCatalogService.getBarcodes(id),
+    variants: await ProductCatalogService.getVariants(id)
+  };
+  
+  await WebhookService.publishProductUpdates([id, ...product.variants.map((variant: any) => variant.id)], 'chain_manager');
+  
   res.json({
     success: true,
     data: { product }
@@ -838,12 +925,21 @@ router.delete('/:id/soft', asyncHandler(async (req: Request, res: Response) => {
   
   const product = result.rows[0];
   
-  // Also deactivate in branch pricing (but keep records)
+  // Variants go with their product
   await DatabaseManager.query(
-    'UPDATE branch_product_pricing SET is_available = false, updated_at = NOW() WHERE product_id = $1',
+    'UPDATE products SET is_active = false, updated_at = NOW() WHERE parent_product_id = $1',
     [id]
   );
   
+  // Also deactivate in branch pricing (but keep records)
+  await DatabaseManager.query(`
+    UPDATE branch_product_pricing SET is_available = false, updated_at = NOW()
+    WHERE product_id = $1 OR product_id IN (SELECT id FROM products WHERE parent_product_id = $1)
+  `, [id]);
+  
+  const variants = await DatabaseManager.query('SELECT id FROM products WHERE parent_product_id = $1', [id]);
+  await WebhookService.publishProductUpdates([id, ...variants.rows.map((variant: any) => variant.id)], 'chain_manager');
+  
   res.json({
     success: true,
     message: `Product "${product.name}" deactivated successfully (data preserved)`,
@@ -2,6 +2,7 @@ import { Request, Response, Router } from 'express';
 import { z } from 'zod';
 import { DatabaseManager } from '../database/manager';
 import { asyncHandler } from '../middleware/errorHandler';
+import { REPORT_EXPORT_FORMATS, REPORT_EXPORT_TYPES, ReportExportService } from '../services/ReportExportService';
 
 const router = Router();
 
@@ -20,6 +21,10 @@ const salesReportParamsSchema = z.object({
   employee_id: z.string().uuid().optional(),
 });
 
+const exportParamsSchema = reportParamsSchema.extend({
+  format: z.enum(REPORT_EXPORT_FORMATS).default('csv'),
+});
+
 // GET /api/reports/sales - Sales report
 router.get('/sales', asyncHandler(async (req: Request, res: Response) => {
   const { start_date, end_date, branch_id } = salesReportParamsSchema.parse(req.query);
@@ -111,10 +116,10 @@ router.get('/products', asyncHandler(async (req: Request, res: Response) => {
     data: {
       product_performance: result.rows.map((row: any) => ({
         ...row,
-        total_quantity_sold: parseInt(row.total_quantity_sold),
+        total_quantity_sold: parseFloat(row.total_quantity_sold),
         total_revenue: parseFloat(row.total_revenue),
         transaction_count: parseInt(row.transaction_count),
-        average_price: parseFloat(row.total_revenue) / parseInt(row.total_quantity_sold)
+        average_price: parseFloat(row.total_revenue) / parseFloat(row.total_quantity_sold)
       }))
     }
   });
@@ -173,7 +178,9 @@ router.get('/inventory', asyncHandler(async (req: Request, res: Response) => {
     SELECT 
       p.id, p.name, p.sku, p.base_price,
       i.quantity_in_stock as quantity, i.min_stock_level as min_stock, i.max_stock_level as max_stock,
-      i.quantity_in_stock * p.cost as inventory_value,
+      v.average_cost as unit_cost,
+      v.inventory_value,
+      v.costing_method,
       CASE 
         WHEN i.quantity_in_stock = 0 THEN 'out_of_stock'
         WHEN i.quantity_in_stock <= i.min_stock_level THEN 'low_stock'
@@ -183,6 +190,7 @@ router.get('/inventory', asyncHandler(async (req: Request, res: Response) => {
       c.name as category_name
     FROM branch_inventory i
     JOIN products p ON i.product_id = p.id
+    JOIN branch_inventory_valuation v ON v.branch_id = i.branch_id AND v.product_id = i.product_id
     LEFT JOIN branches b ON i.branch_id = b.id
     LEFT JOIN categories c ON p.category_id = c.id
     WHERE p.is_active = true
@@ -264,6 +272,30 @@ router.get('/financial', asyncHandler(async (req: Request, res: Response) => {
   
   const salesResult = await DatabaseManager.query(salesQuery, params);
   
+  // Cost of goods sold as fixed on each line at sale time; lines recorded before costing
+  // was in place fall back to the standard product cost
+  let costQuery = `
+    SELECT 
+      SUM(COALESCE(ti.cost_amount, ti.quantity * COALESCE(ti.unit_cost, p.cost, 0))) as cost_of_goods_sold
+    FROM transaction_items ti
+    JOIN transactions t ON ti.transaction_id = t.id
+    LEFT JOIN products p ON ti.product_id = p.id
+    WHERE t.status = 'completed'
+    AND DATE(t.created_at) BETWEEN $1 AND $2
+  `;
+  
+  if (branch_id) {
+    costQuery += ` AND t.branch_id = $3`;
+  }
+  
+  const costResult = await DatabaseManager.query(costQuery, params);
+  
+  // Current stock value by each branch's costing method
+  const valueResult = await DatabaseManager.query(
+    `SELECT SUM(inventory_value) as inventory_value FROM branch_inventory_valuation${branch_id ? ' WHERE branch_id = $1' : ''}`,
+    branch_id ? [branch_id] : []
+  );
+  
   // Payment method breakdown
   let paymentQuery = `
     SELECT 
@@ -302,13 +334,24 @@ router.get('/financial', asyncHandler(async (req: Request, res: Response) => {
   
   const hourlyResult = await DatabaseManager.query(hourlyQuery, params);
   
+  const totalRevenue = parseFloat(salesResult.rows[0]?.total_revenue || '0');
+  const totalTax = parseFloat(salesResult.rows[0]?.total_tax || '0');
+  const netRevenue = totalRevenue - totalTax;
+  const costOfGoodsSold = parseFloat(costResult.rows[0]?.cost_of_goods_sold || '0');
+  const grossProfit = netRevenue - costOfGoodsSold;
+  
   res.json({
     success: true,
     data: {
       financial_summary: {
-        total_revenue: parseFloat(salesResult.rows[0]?.total_revenue || '0'),
-        total_tax: parseFloat(salesResult.rows[0]?.total_tax || '0'),
+        total_revenue: totalRevenue,
+        total_tax: totalTax,
         transaction_count: parseInt(salesResult.rows[0]?.transaction_count || '0'),
+        net_revenue: netRevenue,
+        cost_of_goods_sold: costOfGoodsSold,
+        gross_profit: grossProfit,
+        gross_margin: netRevenue > 0 ? Math.round(grossProfit / netRevenue * 10000) / 100 : 0,
+        inventory_value: parseFloat(valueResult.rows[0]?.inventory_value || '0'),
       },
       payment_methods: paymentResult.rows.map((row: any) => ({
         method: row.payment_method,
@@ -570,7 +613,7 @@ router.get('/top-products', asyncHandler(async (req: Request, res: Response) =>
     data: {
       top_products: result.rows.map((row: any) => ({
         ...row,
-        quantity_sold: parseInt(row.quantity_sold),
+        quantity_sold: parseFloat(row.quantity_sold),
         revenue: parseFloat(row.revenue),
         order_count: parseInt(row.order_count)
       }))
@@ -620,7 +663,7 @@ router.get('/categories', asyncHandler(async (req: Request, res: Response) => {
     data: {
       category_performance: result.rows.map((row: any) => ({
         ...row,
-        quantity_sold: parseInt(row.quantity_sold || '0'),
+        quantity_sold: parseFloat(row.quantity_sold || '0'),
         revenue: parseFloat(row.revenue || '0'),
         products_sold: parseInt(row.products_sold || '0'),
         order_count: parseInt(row.order_count || '0')
@@ -629,23 +672,12 @@ router.get('/categories', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
-// GET /api/reports/export/:type - Export report data
+// GET /api/reports/export/:type - Download a report as CSV, XLSX or PDF
 router.get('/export/:type', asyncHandler(async (req: Request, res: Response) => {
-  const { type } = req.params;
-  const queryParams = reportParamsSchema.parse(req.query);
-  
-  // This is a placeholder for export functionality
-  // In a real implementation, you would generate CSV, Excel, or PDF files
-  
-  res.json({
-    success: true,
-    message: `Export functionality for ${type} reports will be implemented`,
-    data: {
-      export_type: type,
-      parameters: queryParams,
-      // In real implementation, return download URL or file data
-    }
-  });
+  const type = z.enum(REPORT_EXPORT_TYPES).parse(req.params.type);
+  const { format, ...params } = exportParamsSchema.parse(req.query);
+
+  await ReportExportService.exportReport(type, format, params, res);
 }));
 
 export default router;
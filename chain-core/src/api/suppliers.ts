@@ -0,0 +1,264 @@
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { DatabaseManager } from '../database/manager';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+// Validation schemas
+const createSupplierSchema = z.object({
+  code: z.string().min(1, 'Supplier code is required').max(50),
+  name: z.string().min(1, 'Supplier name is required').max(255),
+  contact_person: z.string().max(255).optional(),
+  phone: z.string().max(50).optional(),
+  email: z.string().email().optional(),
+  address: z.string().optional(),
+  tax_id: z.string().max(50).optional(),
+  payment_terms_days: z.coerce.number().int().min(0).default(0),
+  lead_time_days: z.coerce.number().int().min(0).default(0),
+  notes: z.string().optional(),
+  is_active: z.boolean().default(true)
+});
+
+const updateSupplierSchema = createSupplierSchema.partial();
+
+const supplierProductSchema = z.object({
+  supplier_sku: z.string().max(100).optional(),
+  unit_cost: z.coerce.number().min(0, 'Cost must be non-negative').optional(),
+  min_order_quantity: z.coerce.number().positive('Minimum order quantity must be positive').default(1),
+  is_preferred: z.boolean().default(false)
+});
+
+// ============================================================================
+// SUPPLIER MANAGEMENT ENDPOINTS
+// ============================================================================
+
+// GET /api/suppliers - List suppliers
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const { search, is_active } = req.query;
+
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (is_active !== undefined) {
+    params.push(is_active === 'true');
+    conditions.push(`s.is_active = $${params.length}`);
+  }
+
+  if (search) {
+    params.push(`%${search}%`);
+    conditions.push(`(s.name ILIKE $${params.length} OR s.code ILIKE $${params.length} OR s.tax_id ILIKE $${params.length})`);
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const result = await DatabaseManager.query(`
+    SELECT
+      s.*,
+      (SELECT COUNT(*) FROM supplier_products sp WHERE sp.supplier_id = s.id) as product_count,
+      (SELECT COUNT(*) FROM purchase_orders po
+       WHERE po.supplier_id = s.id AND po.status IN ('submitted', 'approved', 'ordered', 'partially_received')) as open_order_count
+    FROM suppliers s
+    ${whereClause}
+    ORDER BY s.name
+  `, params);
+
+  res.json({
+    success: true,
+    data: { suppliers: result.rows }
+  });
+}));
+
+// GET /api/suppliers/:id - Get a supplier with the products it delivers
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const supplierResult = await DatabaseManager.query('SELECT * FROM suppliers WHERE id = $1', [req.params.id]);
+
+  if (supplierResult.rows.length === 0) {
+    return res.status(404).json({
+      success: false,
+      error: 'Supplier not found'
+    });
+  }
+
+  const productsResult = await DatabaseManager.query(`
+    SELECT sp.*, p.name as product_name, p.sku, p.barcode, p.cost as product_cost
+    FROM supplier_products sp
+    JOIN products p ON sp.product_id = p.id
+    WHERE sp.supplier_id = $1
+    ORDER BY p.name
+  `, [req.params.id]);
+
+  res.json({
+    success: true,
+    data: {
+      supplier: {
+        ...supplierResult.rows[0],
+        products: productsResult.rows
+      }
+    }
+  });
+}));
+
+// POST /api/suppliers - Create a supplier
+router.post('/', asyncHandler(async (req: Request, res: Response) => {
+  const supplierData = createSupplierSchema.parse(req.body);
+
+  const existingResult = await DatabaseManager.query('SELECT id FROM suppliers WHERE code = $1', [supplierData.code]);
+  if (existingResult.rows.length > 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Supplier with this code already exists'
+    });
+  }
+
+  const result = await DatabaseManager.query(`
+    INSERT INTO suppliers (
+      code, name, contact_person, phone, email, address, tax_id,
+      payment_terms_days, lead_time_days, notes, is_active
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    RETURNING *
+  `, [
+    supplierData.code, supplierData.name, supplierData.contact_person || null,
+    supplierData.phone || null, supplierData.email || null, supplierData.address || null,
+    supplierData.tax_id || null, supplierData.payment_terms_days, supplierData.lead_time_days,
+    supplierData.notes || null, supplierData.is_active
+  ]);
+
+  res.status(201).json({
+    success: true,
+    data: { supplier: result.rows[0] }
+  });
+}));
+
+// PUT /api/suppliers/:id - Update a supplier
+router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const supplierData = updateSupplierSchema.parse(req.body);
+
+  if (supplierData.code) {
+    const duplicateResult = await DatabaseManager.query(
+      'SELECT id FROM suppliers WHERE code = $1 AND id != $2',
+      [supplierData.code, req.params.id]
+    );
+    if (duplicateResult.rows.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Supplier with this code already exists'
+      });
+    }
+  }
+
+  const result = await DatabaseManager.query(`
+    UPDATE suppliers SET
+      code = COALESCE($1, code),
+      name = COALESCE($2, name),
+      contact_person = COALESCE($3, contact_person),
+      phone = COALESCE($4, phone),
+      email = COALESCE($5, email),
+      address = COALESCE($6, address),
+      tax_id = COALESCE($7, tax_id),
+      payment_terms_days = COALESCE($8, payment_terms_days),
+      lead_time_days = COALESCE($9, lead_time_days),
+      notes = COALESCE($10, notes),
+      is_active = COALESCE($11, is_active)
+    WHERE id = $12
+    RETURNING *
+  `, [
+    supplierData.code, supplierData.name, supplierData.contact_person, supplierData.phone,
+    supplierData.email, supplierData.address, supplierData.tax_id, supplierData.payment_terms_days,
+    supplierData.lead_time_days, supplierData.notes, supplierData.is_active, req.params.id
+  ]);
+
+  if (result.rows.length === 0) {
+    return res.status(404).json({
+      success: false,
+      error: 'Supplier not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: { supplier: result.rows[0] }
+  });
+}));
+
+// DELETE /api/suppliers/:id - Delete a supplier without purchase orders, deactivate it otherwise
+router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const ordersResult = await DatabaseManager.query(
+    'SELECT COUNT(*) as count FROM purchase_orders WHERE supplier_id = $1',
+    [req.params.id]
+  );
+  const hasOrders = parseInt(ordersResult.rows[0].count) > 0;
+
+  const result = hasOrders
+    ? await DatabaseManager.query('UPDATE suppliers SET is_active = false WHERE id = $1 RETURNING id', [req.params.id])
+    : await DatabaseManager.query('DELETE FROM suppliers WHERE id = $1 RETURNING id', [req.params.id]);
+
+  if (result.rows.length === 0) {
+    return res.status(404).json({
+      success: false,
+      error: 'Supplier not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: { deactivated: hasOrders },
+    message: hasOrders ? 'Supplier has purchase orders and was deactivated' : 'Supplier deleted'
+  });
+}));
+
+// PUT /api/suppliers/:id/products/:productId - Set the supplier's terms for a product
+router.put('/:id/products/:productId', asyncHandler(async (req: Request, res: Response) => {
+  const { id, productId } = req.params;
+  const terms = supplierProductSchema.parse(req.body);
+
+  const supplierProduct = await DatabaseManager.transaction(async (client) => {
+    // A product has at most one preferred supplier
+    if (terms.is_preferred) {
+      await client.query(
+        'UPDATE supplier_products SET is_preferred = false WHERE product_id = $1 AND supplier_id != $2 AND is_preferred = true',
+        [productId, id]
+      );
+    }
+
+    const result = await client.query(`
+      INSERT INTO supplier_products (supplier_id, product_id, supplier_sku, unit_cost, min_order_quantity, is_preferred)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (supplier_id, product_id) DO UPDATE SET
+        supplier_sku = EXCLUDED.supplier_sku,
+        unit_cost = EXCLUDED.unit_cost,
+        min_order_quantity = EXCLUDED.min_order_quantity,
+        is_preferred = EXCLUDED.is_preferred
+      RETURNING *
+    `, [id, productId, terms.supplier_sku || null, terms.unit_cost ?? null, terms.min_order_quantity, terms.is_preferred]);
+
+    return result.rows[0];
+  });
+
+  res.json({
+    success: true,
+    data: { supplier_product: supplierProduct }
+  });
+}));
+
+// DELETE /api/suppliers/:id/products/:productId - Stop buying a product from the supplier
+router.delete('/:id/products/:productId', asyncHandler(async (req: Request, res: Response) => {
+  const result = await DatabaseManager.query(
+    'DELETE FROM supplier_products WHERE supplier_id = $1 AND product_id = $2 RETURNING id',
+    [req.params.id, req.params.productId]
+  );
+
+  if (result.rows.length === 0) {
+    return res.status(404).json({
+      success: false,
+      error: 'Supplier product not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    message: 'Product removed from supplier'
+  });
+}));
+
+export default router;
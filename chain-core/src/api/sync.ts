@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { DatabaseManager } from '../database/manager';
 import { asyncHandler } from '../middleware/errorHandler';
 import { BranchApiService } from '../services/branchApi';
+import { SYNC_TASK_TYPES, SyncScheduler, SyncTask } from '../services/SyncScheduler';
 
 const router = Router();
 
@@ -40,6 +41,20 @@ const SyncInventorySchema = z.object({
   })).min(1)
 });
 
+const SyncTaskScheduleSchema = z.object({
+  schedule_type: z.enum(['interval', 'cron', 'manual']),
+  interval_minutes: z.number().int().positive().nullable().optional(),
+  cron_expression: z.string().trim().max(100).nullable().optional(),
+  is_active: z.boolean().optional(),
+  priority: z.number().int().min(1).max(100).optional()
+});
+
+const CreateSyncTaskSchema = SyncTaskScheduleSchema.extend({
+  task_type: z.enum(SYNC_TASK_TYPES),
+  branch_id: z.string().uuid().optional()
+});
+
+const UpdateSyncTaskSchema = SyncTaskScheduleSchema.partial();
 
 
 // POST /api/sync/products-complete/branch/:branchId - Comprehensive product sync
@@ -50,7 +65,7 @@ router.post('/products-complete/branch/:branchId', asyncHandler(async (req: Requ
     
     // Validate branch exists
     const branchCheck = await DatabaseManager.query(
-      'SELECT id, name, last_sync_at FROM branches WHERE id = $1 AND is_active = true',
+      'SELECT id, name, tax_rate, last_sync_at, updated_at FROM branches WHERE id = $1 AND is_active = true',
       [branchId]
     );
     
@@ -63,6 +78,8 @@ router.post('/products-complete/branch/:branchId', asyncHandler(async (req: Requ
     
     const branch = branchCheck.rows[0];
     const lastSyncAt = since_timestamp || branch.last_sync_at || '1970-01-01';
+    // The branch default VAT rate goes out with every sync; a change to it is reason enough to sync
+    const settingsChanged = new Date(branch.updated_at) > new Date(lastSyncAt);
         
     const syncResults = {
       products: { synced: 0, checked: 0 },
@@ -76,13 +93,20 @@ router.post('/products-complete/branch/:branchId', asyncHandler(async (req: Requ
       SELECT 
         p.id, p.sku, p.name, p.name_ru, p.name_uz, p.barcode, p.description,
         p.description_ru, p.description_uz, p.brand, p.unit_of_measure,
-        p.tax_rate, p.is_active, p.created_at, p.updated_at,
+        p.tax_rate, p.is_active, p.variant_attributes, p.created_at, p.updated_at,
         COALESCE(bpp.price, p.base_price) as price,
         COALESCE(bpp.cost, p.cost) as cost,
-        c.key as category_key
+        c.key as category_key,
+        COALESCE(barcodes.list, '[]') as barcodes
       FROM products p
       LEFT JOIN branch_product_pricing bpp ON p.id = bpp.product_id AND bpp.branch_id = $1
       LEFT JOIN categories c ON p.category_id = c.id
+      LEFT JOIN LATERAL (
+        SELECT json_agg(json_build_object(
+          'barcode', pb.barcode, 'quantity_multiplier', pb.quantity_multiplier, 'description', pb.description
+        )) as list
+        FROM product_barcodes pb WHERE pb.product_id = p.id
+      ) barcodes ON true
       WHERE (p.created_at > $2 OR p.updated_at > $2 OR bpp.updated_at > $2)
         AND p.barcode IS NOT NULL
       ORDER BY p.updated_at DESC, p.created_at DESC
@@ -135,7 +159,11 @@ router.post('/products-complete/branch/:branchId', asyncHandler(async (req: Requ
       sync_type: 'complete_products',
       timestamp: new Date().toISOString(),
       last_sync_at: lastSyncAt,
-      data: {}
+      data: {
+        settings: {
+          default_tax_rate: parseFloat(branch.tax_rate || 0)
+        }
+      }
     };
     
     // Add new/updated products
@@ -153,9 +181,11 @@ router.post('/products-complete/branch/:branchId', asyncHandler(async (req: Requ
         brand: row.brand,
         price: parseFloat(row.price || 0),
         cost: parseFloat(row.cost || 0),
-        tax_rate: parseFloat(row.tax_rate || 0),
+        tax_rate: row.tax_rate === null ? null : parseFloat(row.tax_rate),
         unit_of_measure: row.unit_of_measure,
         is_active: row.is_active,
+        variant_attributes: row.variant_attributes,
+        barcodes: row.barcodes,
         product_id: row.id
       }));
       syncResults.products.synced = syncPayload.data.products.length;
@@ -211,7 +241,7 @@ router.post('/products-complete/branch/:branchId', asyncHandler(async (req: Requ
     const totalChanges = syncResults.products.synced + syncResults.prices.synced + 
                         syncResults.promotions.synced + syncResults.inventory_status.synced;
     
-    if (totalChanges === 0) {
+    if (totalChanges === 0 && !settingsChanged) {
       return res.status(200).json({
         success: true,
         data: {
@@ -507,6 +537,197 @@ router.post('/test-all-connections', asyncHandler(async (req: Request, res: Resp
   });
 }));
 
+// =================================================================
+// SCHEDULED SYNC TASKS
+// =================================================================
+
+// GET /api/sync/tasks - Scheduled sync tasks and scheduler status
+router.get('/tasks', asyncHandler(async (req: Request, res: Response) => {
+  const scheduler = SyncScheduler.getInstance();
+  const tasks = await serializeSyncTasks(scheduler.getTasks());
+  const status = scheduler.getStatus();
+
+  res.json({
+    success: true,
+    data: {
+      tasks,
+      scheduler: {
+        is_running: status.isRunning,
+        timezone: status.timezone,
+        total_tasks: status.totalTasks,
+        active_tasks: status.activeTasks,
+        running_tasks: status.runningTasks
+      }
+    }
+  });
+}));
+
+// POST /api/sync/tasks - Create a task (with branch_id it overrides the chain-wide task for that branch)
+router.post('/tasks', asyncHandler(async (req: Request, res: Response) => {
+  const data = CreateSyncTaskSchema.parse(req.body);
+  const scheduler = SyncScheduler.getInstance();
+
+  const taskId = await scheduler.addTask({
+    type: data.task_type,
+    branchId: data.branch_id,
+    scheduleType: data.schedule_type,
+    intervalMinutes: data.interval_minutes ?? undefined,
+    cronExpression: data.cron_expression ?? undefined,
+    isActive: data.is_active ?? true,
+    priority: data.priority ?? 5
+  });
+
+  const [task] = await serializeSyncTasks([scheduler.getTask(taskId)!]);
+
+  res.status(201).json({
+    success: true,
+    data: { task }
+  });
+}));
+
+// PUT /api/sync/tasks/:id - Edit a task's schedule
+router.put('/tasks/:id', asyncHandler(async (req: Request, res: Response) => {
+  const data = UpdateSyncTaskSchema.parse(req.body);
+
+  const updated = await SyncScheduler.getInstance().updateTask(req.params.id, {
+    scheduleType: data.schedule_type,
+    intervalMinutes: data.interval_minutes,
+    cronExpression: data.cron_expression,
+    isActive: data.is_active,
+    priority: data.priority
+  });
+
+  const [task] = await serializeSyncTasks([updated]);
+
+  res.json({
+    success: true,
+    data: { task }
+  });
+}));
+
+// POST /api/sync/tasks/:id/pause - Stop scheduling a task
+router.post('/tasks/:id/pause', asyncHandler(async (req: Request, res: Response) => {
+  const [task] = await serializeSyncTasks([await SyncScheduler.getInstance().pauseTask(req.params.id)]);
+
+  res.json({
+    success: true,
+    data: { task }
+  });
+}));
+
+// POST /api/sync/tasks/:id/resume - Resume a paused task
+router.post('/tasks/:id/resume', asyncHandler(async (req: Request, res: Response) => {
+  const [task] = await serializeSyncTasks([await SyncScheduler.getInstance().resumeTask(req.params.id)]);
+
+  res.json({
+    success: true,
+    data: { task }
+  });
+}));
+
+// POST /api/sync/tasks/:id/run - Run a task now
+router.post('/tasks/:id/run', asyncHandler(async (req: Request, res: Response) => {
+  const result = await SyncScheduler.getInstance().runTaskNow(req.params.id);
+
+  res.json({
+    success: result.success,
+    data: {
+      result: {
+        task_id: result.taskId,
+        task_type: result.taskType,
+        branch_id: result.branchId || null,
+        success: result.success,
+        records_processed: result.recordsProcessed,
+        error_message: result.errorMessage,
+        duration_ms: result.duration,
+        completed_at: result.completedAt
+      }
+    },
+    error: result.success ? undefined : result.errorMessage
+  });
+}));
+
+// GET /api/sync/tasks/:id/runs - Recent runs of a task
+router.get('/tasks/:id/runs', asyncHandler(async (req: Request, res: Response) => {
+  const { limit } = z.object({
+    limit: z.coerce.number().int().min(1).max(200).default(20)
+  }).parse(req.query);
+
+  const scheduler = SyncScheduler.getInstance();
+  if (!scheduler.getTask(req.params.id)) {
+    return res.status(404).json({
+      success: false,
+      error: 'Sync task not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: {
+      runs: await scheduler.getTaskHistory(req.params.id, limit)
+    }
+  });
+}));
+
+// DELETE /api/sync/tasks/:id - Delete a task
+router.delete('/tasks/:id', asyncHandler(async (req: Request, res: Response) => {
+  const scheduler = SyncScheduler.getInstance();
+  const task = scheduler.getTask(req.params.id);
+
+  if (!task) {
+    return res.status(404).json({
+      success: false,
+      error: 'Sync task not found'
+    });
+  }
+
+  // Chain-wide defaults are recreated on startup, so they can only be paused
+  if (!task.branchId && task.id === `${task.type}_all`) {
+    return res.status(400).json({
+      success: false,
+      error: 'Default sync tasks cannot be deleted; pause the task instead'
+    });
+  }
+
+  await scheduler.removeTask(task.id);
+
+  res.json({
+    success: true,
+    message: 'Sync task deleted'
+  });
+}));
+
+// Convert scheduler tasks to API rows with branch names
+async function serializeSyncTasks(tasks: SyncTask[]): Promise<any[]> {
+  const branchIds = [...new Set(tasks.map(task => task.branchId).filter(Boolean))];
+  const branchNames = new Map<string, string>();
+
+  if (branchIds.length > 0) {
+    const result = await DatabaseManager.query(
+      'SELECT id, name FROM branches WHERE id = ANY($1::uuid[])',
+      [branchIds]
+    );
+    result.rows.forEach((row: any) => branchNames.set(row.id, row.name));
+  }
+
+  return tasks
+    .sort((a, b) => a.priority - b.priority)
+    .map(task => ({
+      id: task.id,
+      task_type: task.type,
+      branch_id: task.branchId || null,
+      branch_name: task.branchId ? branchNames.get(task.branchId) || null : null,
+      schedule_type: task.scheduleType,
+      interval_minutes: task.intervalMinutes ?? null,
+      cron_expression: task.cronExpression ?? null,
+      is_active: task.isActive,
+      status: task.status,
+      priority: task.priority,
+      last_run: task.lastRun || null,
+      next_run: task.nextRun || null
+    }));
+}
+
 // Helper function to get all active branch IDs
 async function getAllActiveBranchIds(): Promise<string[]> {
   const result = await DatabaseManager.query(`
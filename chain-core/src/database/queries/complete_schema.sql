@@ -3,20 +3,41 @@
 -- This file contains all tables, indexes, triggers, functions, and views
 
 -- Drop existing tables if they exist to start fresh
+DROP TABLE IF EXISTS alert_user_states CASCADE;
+DROP TABLE IF EXISTS alerts CASCADE;
+DROP TABLE IF EXISTS alert_rules CASCADE;
+DROP TABLE IF EXISTS sync_task_runs CASCADE;
+DROP TABLE IF EXISTS sync_tasks CASCADE;
 DROP TABLE IF EXISTS onec_sync_logs CASCADE;
 DROP TABLE IF EXISTS branch_sync_logs CASCADE;
 DROP TABLE IF EXISTS connection_health_logs CASCADE;
 DROP TABLE IF EXISTS network_settings CASCADE;
 DROP TABLE IF EXISTS branch_servers CASCADE;
+DROP TABLE IF EXISTS webhook_deliveries CASCADE;
+DROP TABLE IF EXISTS webhook_subscriptions CASCADE;
+DROP TABLE IF EXISTS api_key_usage CASCADE;
 DROP TABLE IF EXISTS api_keys CASCADE;
 DROP TABLE IF EXISTS system_settings CASCADE;
 DROP TABLE IF EXISTS promotions CASCADE;
+DROP TABLE IF EXISTS branch_shift_reports CASCADE;
 DROP TABLE IF EXISTS payments CASCADE;
 DROP TABLE IF EXISTS transaction_items CASCADE;
 DROP TABLE IF EXISTS transactions CASCADE;
+DROP TABLE IF EXISTS loyalty_transactions CASCADE;
 DROP TABLE IF EXISTS customers CASCADE;
+DROP TABLE IF EXISTS goods_received_note_items CASCADE;
+DROP TABLE IF EXISTS goods_received_notes CASCADE;
+DROP TABLE IF EXISTS purchase_order_items CASCADE;
+DROP TABLE IF EXISTS purchase_orders CASCADE;
+DROP TABLE IF EXISTS product_barcodes CASCADE;
+DROP TABLE IF EXISTS supplier_products CASCADE;
+DROP TABLE IF EXISTS suppliers CASCADE;
+DROP TABLE IF EXISTS stock_transfer_items CASCADE;
+DROP TABLE IF EXISTS stock_transfers CASCADE;
+DROP TABLE IF EXISTS inventory_cost_layers CASCADE;
 DROP TABLE IF EXISTS stock_movements CASCADE;
 DROP TABLE IF EXISTS branch_inventory CASCADE;
+DROP TABLE IF EXISTS scheduled_price_changes CASCADE;
 DROP TABLE IF EXISTS branch_product_pricing CASCADE;
 DROP TABLE IF EXISTS products CASCADE;
 DROP TABLE IF EXISTS categories CASCADE;
@@ -62,6 +83,7 @@ CREATE TABLE branches (
     timezone VARCHAR(100) DEFAULT 'UTC',
     currency VARCHAR(10) DEFAULT 'USD',
     tax_rate DECIMAL(5,4) DEFAULT 0.0000,
+    costing_method VARCHAR(20) DEFAULT 'weighted_average' CHECK (costing_method IN ('weighted_average', 'fifo')),
     is_active BOOLEAN DEFAULT true,
     last_sync_at TIMESTAMP WITH TIME ZONE,
     api_endpoint VARCHAR(500),
@@ -153,20 +175,26 @@ CREATE TABLE products (
     sku VARCHAR(100) UNIQUE NOT NULL,
     barcode VARCHAR(100),
     name VARCHAR(255) NOT NULL,
+    name_en VARCHAR(255),
     name_ru VARCHAR(255),
     name_uz VARCHAR(255),
     description TEXT,
+    description_en TEXT,
     description_ru TEXT,
     description_uz TEXT,
     category_id UUID REFERENCES categories(id),
     brand VARCHAR(255),
     unit_of_measure VARCHAR(50) DEFAULT 'pcs',
     base_price DECIMAL(10,2) NOT NULL, -- Default price, can be overridden per branch
-    cost DECIMAL(10,2),
-    tax_rate DECIMAL(5,4) DEFAULT 0.0000,
+    cost DECIMAL(10,2), -- Standard cost; stock without cost layers is valued at it
+    tax_rate DECIMAL(5,4), -- NULL uses the branch tax_rate, 0 is zero-rated
+    image_url VARCHAR(500), -- Main image URL sent by 1C or set in the admin panel
+    images JSONB DEFAULT '[]', -- Additional image URLs from 1C
     image_paths JSONB, -- Local image file paths for different sizes
     has_image BOOLEAN DEFAULT false, -- Quick flag to check if product has images
     attributes JSONB, -- Flexible attributes storage
+    parent_product_id UUID REFERENCES products(id) ON DELETE SET NULL, -- Set on variants; category, brand, unit and tax come from the parent
+    variant_attributes JSONB, -- What sets a variant apart, e.g. {"size": "M", "colour": "Red"}
     is_active BOOLEAN DEFAULT true,
     onec_id VARCHAR(100), -- Reference to 1C product ID
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -206,6 +234,33 @@ CREATE TABLE branch_product_price_sync_status (
     UNIQUE(branch_id, product_id)
 );
 
+-- Price changes scheduled ahead of time, one row per branch; delivered to the branch
+-- early and switched over there at effective_from in the branch's own timezone
+CREATE TABLE scheduled_price_changes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    batch_id UUID NOT NULL, -- Rows scheduled together for several branches share a batch
+    branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    price DECIMAL(10,2) NOT NULL,
+    cost DECIMAL(10,2),
+    effective_from TIMESTAMP NOT NULL, -- Local time in branches.timezone
+    effective_until TIMESTAMP, -- Local time in branches.timezone; the previous price returns then
+    status VARCHAR(20) NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'active', 'completed', 'cancelled')),
+    previous_price DECIMAL(10,2), -- Branch price before the change (NULL: no branch price, base price applies)
+    previous_cost DECIMAL(10,2),
+    applied_at TIMESTAMP WITH TIME ZONE,
+    reverted_at TIMESTAMP WITH TIME ZONE,
+    delivery_status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (delivery_status IN ('pending', 'delivered', 'failed')),
+    delivery_attempts INTEGER NOT NULL DEFAULT 0,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    delivery_error TEXT,
+    notes TEXT,
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (effective_until IS NULL OR effective_until > effective_from)
+);
+
 -- Branch inventory (stock levels per branch)
 CREATE TABLE branch_inventory (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -216,8 +271,10 @@ CREATE TABLE branch_inventory (
     min_stock_level DECIMAL(10,3) DEFAULT 0,
     max_stock_level DECIMAL(10,3),
     reorder_point DECIMAL(10,3),
+    average_cost DECIMAL(12,4), -- Moving weighted-average unit cost of the stock on hand
     last_counted_at TIMESTAMP WITH TIME ZONE,
     last_movement_at TIMESTAMP WITH TIME ZONE,
+    onec_exported_at TIMESTAMP WITH TIME ZONE, -- Balance last pushed to 1C; re-sent once updated_at moves past it
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     UNIQUE(branch_id, product_id)
@@ -228,13 +285,175 @@ CREATE TABLE stock_movements (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     branch_id UUID REFERENCES branches(id) ON DELETE CASCADE,
     product_id UUID REFERENCES products(id) ON DELETE CASCADE,
-    movement_type VARCHAR(50) NOT NULL CHECK (movement_type IN ('sale', 'return', 'adjustment', 'transfer_in', 'transfer_out', 'damaged', 'expired')),
+    movement_type VARCHAR(50) NOT NULL CHECK (movement_type IN ('sale', 'return', 'adjustment', 'transfer_in', 'transfer_out', 'purchase', 'damaged', 'expired')),
     quantity DECIMAL(10,3) NOT NULL,
     unit_cost DECIMAL(10,2),
     reference_id UUID, -- Transaction ID or adjustment ID
-    reference_type VARCHAR(50), -- 'transaction', 'adjustment', 'transfer'
+    reference_type VARCHAR(50), -- 'transaction', 'adjustment', 'transfer', 'goods_received_note'
     notes TEXT,
     employee_id UUID REFERENCES employees(id),
+    onec_exported_at TIMESTAMP WITH TIME ZONE, -- Pushed to 1C through the CommerceML exchange
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Cost layers of stock received into a branch, consumed oldest first by outgoing movements
+CREATE TABLE inventory_cost_layers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    stock_movement_id UUID REFERENCES stock_movements(id) ON DELETE SET NULL, -- Incoming movement that created the layer
+    movement_type VARCHAR(50) NOT NULL,
+    unit_cost DECIMAL(12,4) NOT NULL,
+    quantity DECIMAL(10,3) NOT NULL CHECK (quantity > 0),
+    remaining_quantity DECIMAL(10,3) NOT NULL CHECK (remaining_quantity >= 0),
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (remaining_quantity <= quantity)
+);
+
+-- Inter-branch stock transfers (requested -> approved -> shipped -> received)
+CREATE TABLE stock_transfers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transfer_number VARCHAR(50) UNIQUE NOT NULL,
+    from_branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE, -- Branch shipping the stock
+    to_branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE, -- Branch receiving the stock
+    status VARCHAR(20) NOT NULL DEFAULT 'requested' CHECK (status IN ('requested', 'approved', 'rejected', 'shipped', 'received', 'cancelled')),
+    requested_by_branch_id UUID REFERENCES branches(id), -- NULL when created by the main office
+    approved_by UUID REFERENCES users(id),
+    shipped_by VARCHAR(255), -- Branch employee ID
+    received_by VARCHAR(255), -- Branch employee ID
+    notes TEXT,
+    rejection_reason TEXT,
+    has_discrepancy BOOLEAN DEFAULT false, -- Received quantities differ from shipped
+    requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    approved_at TIMESTAMP WITH TIME ZONE,
+    shipped_at TIMESTAMP WITH TIME ZONE,
+    received_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (from_branch_id <> to_branch_id)
+);
+
+-- Stock transfer line items
+CREATE TABLE stock_transfer_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transfer_id UUID NOT NULL REFERENCES stock_transfers(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id),
+    quantity_requested DECIMAL(10,3) NOT NULL CHECK (quantity_requested > 0),
+    quantity_approved DECIMAL(10,3),
+    quantity_shipped DECIMAL(10,3),
+    quantity_received DECIMAL(10,3),
+    urgency VARCHAR(10) CHECK (urgency IN ('low', 'medium', 'high')),
+    notes TEXT,
+    discrepancy_notes TEXT, -- Reason given by the receiving branch for a quantity mismatch
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(transfer_id, product_id)
+);
+
+-- Suppliers goods are purchased from
+CREATE TABLE suppliers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code VARCHAR(50) UNIQUE NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    contact_person VARCHAR(255),
+    phone VARCHAR(50),
+    email VARCHAR(255),
+    address TEXT,
+    tax_id VARCHAR(50),
+    payment_terms_days INTEGER DEFAULT 0 CHECK (payment_terms_days >= 0),
+    lead_time_days INTEGER DEFAULT 0 CHECK (lead_time_days >= 0),
+    notes TEXT,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Products a supplier delivers, with its purchase terms; is_preferred picks the supplier for reorder suggestions
+CREATE TABLE supplier_products (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    supplier_sku VARCHAR(100),
+    unit_cost DECIMAL(10,2),
+    min_order_quantity DECIMAL(10,3) DEFAULT 1 CHECK (min_order_quantity > 0),
+    is_preferred BOOLEAN DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(supplier_id, product_id)
+);
+
+-- Barcodes besides products.barcode: alternate supplier codes and multipacks.
+-- Scanning one stands for quantity_multiplier units of the product.
+CREATE TABLE product_barcodes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    barcode VARCHAR(100) UNIQUE NOT NULL,
+    quantity_multiplier DECIMAL(10,3) NOT NULL DEFAULT 1 CHECK (quantity_multiplier > 0),
+    supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL,
+    description VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Purchase orders (draft -> submitted -> approved -> ordered -> partially_received -> received)
+CREATE TABLE purchase_orders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    po_number VARCHAR(50) UNIQUE NOT NULL,
+    supplier_id UUID NOT NULL REFERENCES suppliers(id),
+    branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE, -- Branch the goods are delivered to
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'approved', 'rejected', 'ordered', 'partially_received', 'received', 'cancelled')),
+    source VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'reorder')),
+    expected_date DATE,
+    total_cost DECIMAL(12,2) DEFAULT 0,
+    notes TEXT,
+    rejection_reason TEXT,
+    created_by UUID REFERENCES users(id),
+    approved_by UUID REFERENCES users(id),
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    approved_at TIMESTAMP WITH TIME ZONE,
+    ordered_at TIMESTAMP WITH TIME ZONE,
+    received_at TIMESTAMP WITH TIME ZONE, -- Set once every line is fully received
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Purchase order line items
+CREATE TABLE purchase_order_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id),
+    quantity_ordered DECIMAL(10,3) NOT NULL CHECK (quantity_ordered > 0),
+    quantity_received DECIMAL(10,3) DEFAULT 0,
+    unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(purchase_order_id, product_id)
+);
+
+-- Goods received notes; one per delivery, a purchase order may be received in several deliveries
+CREATE TABLE goods_received_notes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    grn_number VARCHAR(50) UNIQUE NOT NULL,
+    purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+    branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+    supplier_invoice_number VARCHAR(100),
+    received_by VARCHAR(255), -- Branch employee ID
+    total_cost DECIMAL(12,2) DEFAULT 0,
+    notes TEXT,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Goods received note lines; each posts a purchase stock movement at unit_cost
+CREATE TABLE goods_received_note_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    goods_received_note_id UUID NOT NULL REFERENCES goods_received_notes(id) ON DELETE CASCADE,
+    purchase_order_item_id UUID NOT NULL REFERENCES purchase_order_items(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id),
+    quantity_received DECIMAL(10,3) NOT NULL CHECK (quantity_received > 0),
+    unit_cost DECIMAL(10,2) NOT NULL,
+    notes TEXT,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -258,6 +477,23 @@ CREATE TABLE customers (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Loyalty points history; customers.loyalty_points is the running total of these rows
+CREATE TABLE loyalty_transactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    branch_id UUID REFERENCES branches(id) ON DELETE SET NULL, -- NULL for 1C and main office adjustments
+    branch_entry_id UUID, -- loyalty_ledger.id at the branch
+    transaction_reference VARCHAR(100), -- Branch transaction ID or 1C document
+    entry_type VARCHAR(20) NOT NULL CHECK (entry_type IN ('earn', 'redeem', 'reversal', 'adjustment')),
+    points INTEGER NOT NULL,
+    balance_after INTEGER NOT NULL,
+    description TEXT,
+    source VARCHAR(20) DEFAULT 'branch' CHECK (source IN ('branch', 'onec', 'admin')),
+    occurred_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- When it happened at the branch
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(branch_id, branch_entry_id)
+);
+
 -- Transactions (aggregated from all branches)
 CREATE TABLE transactions (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -275,6 +511,7 @@ CREATE TABLE transactions (
     completed_at TIMESTAMP WITH TIME ZONE,
     notes TEXT,
     onec_id VARCHAR(100), -- Reference to 1C transaction ID
+    onec_exported_at TIMESTAMP WITH TIME ZONE, -- Pushed to 1C through the CommerceML exchange
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     UNIQUE(transaction_number, branch_id)
@@ -288,8 +525,10 @@ CREATE TABLE transaction_items (
     quantity DECIMAL(10,3) NOT NULL,
     unit_price DECIMAL(10,2) NOT NULL, -- Actual price paid (including discounts)
     original_price DECIMAL(10,2) NOT NULL, -- Original price before discounts
-    unit_cost DECIMAL(10,2),
+    unit_cost DECIMAL(10,2), -- Cost of goods sold per unit at sale time, by the branch costing method
+    cost_amount DECIMAL(12,2), -- Cost of goods sold for the line
     discount_amount DECIMAL(10,2) DEFAULT 0,
+    tax_rate DECIMAL(5,4) DEFAULT 0, -- VAT rate applied to this line (fraction)
     tax_amount DECIMAL(10,2) DEFAULT 0,
     total_amount DECIMAL(10,2) NOT NULL,
     promotion_applied VARCHAR(255), -- Name of promotion if any
@@ -305,9 +544,34 @@ CREATE TABLE payments (
     reference_number VARCHAR(255),
     status VARCHAR(20) DEFAULT 'completed' CHECK (status IN ('pending', 'completed', 'failed', 'refunded')),
     processed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    onec_exported_at TIMESTAMP WITH TIME ZONE, -- Pushed to 1C through the CommerceML exchange
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Cash shift Z reports pushed by branches when a POS terminal's shift is closed
+CREATE TABLE branch_shift_reports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+    branch_shift_id UUID NOT NULL, -- cash_shifts.id at the branch
+    terminal_id VARCHAR(100) NOT NULL,
+    shift_number INTEGER NOT NULL,
+    opened_by VARCHAR(50) NOT NULL, -- Branch employee code
+    closed_by VARCHAR(50),
+    opened_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    closed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    opening_float DECIMAL(12,2) NOT NULL DEFAULT 0,
+    expected_cash DECIMAL(12,2) NOT NULL,
+    counted_cash DECIMAL(12,2) NOT NULL,
+    cash_difference DECIMAL(12,2) NOT NULL, -- Negative when the drawer was short
+    sales_count INTEGER DEFAULT 0,
+    sales_total DECIMAL(12,2) DEFAULT 0,
+    report JSONB NOT NULL, -- Full Z report with totals per payment method
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(branch_id, branch_shift_id)
+);
+
 -- Promotions/Sales rules
 CREATE TABLE promotions (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -399,7 +663,58 @@ CREATE TABLE api_keys (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     expires_at TIMESTAMP WITH TIME ZONE,
     last_used_at TIMESTAMP WITH TIME ZONE,
-    usage_count INTEGER DEFAULT 0
+    last_used_ip VARCHAR(45),
+    usage_count INTEGER DEFAULT 0,
+    allowed_branch_codes TEXT[] DEFAULT ARRAY[]::TEXT[], -- empty: every branch
+    allowed_ip_ranges TEXT[] DEFAULT ARRAY[]::TEXT[], -- CIDR ranges; empty: any address
+    rate_limit_per_minute INTEGER CHECK (rate_limit_per_minute IS NULL OR rate_limit_per_minute > 0) -- NULL: unlimited
+);
+
+-- One 1C API request made with an API key, including the ones it was refused
+CREATE TABLE api_key_usage (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    api_key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+    method VARCHAR(10) NOT NULL,
+    route VARCHAR(255), -- catalogue route pattern, e.g. /api/1c/branches/:code
+    path TEXT NOT NULL,
+    permission VARCHAR(100),
+    branch_codes TEXT[] DEFAULT ARRAY[]::TEXT[],
+    ip_address VARCHAR(45),
+    status_code INTEGER NOT NULL,
+    response_time_ms INTEGER,
+    denied_reason VARCHAR(50), -- error code when the key was refused, e.g. BRANCH_NOT_ALLOWED
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Outbound webhooks of an integration; they stop when its API key is disabled or deleted
+CREATE TABLE webhook_subscriptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    api_key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    secret VARCHAR(255) NOT NULL, -- HMAC-SHA256 signing secret shared with the receiver
+    events TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    description TEXT,
+    is_active BOOLEAN DEFAULT true,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One event sent to one subscription; failed attempts are retried with exponential backoff
+CREATE TABLE webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    subscription_id UUID NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+    event VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    response_status INTEGER,
+    response_body TEXT,
+    last_error TEXT,
+    redelivery_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- =================================================================
@@ -425,17 +740,93 @@ CREATE TABLE branch_sync_logs (
 -- 1C sync logs (for syncs triggered from 1C side)
 CREATE TABLE onec_sync_logs (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    sync_type VARCHAR(50) NOT NULL CHECK (sync_type IN ('products', 'categories', 'employees', 'transactions', 'inventory')),
-    direction VARCHAR(20) NOT NULL CHECK (direction IN ('import', 'export')),
+    sync_type VARCHAR(50) NOT NULL CHECK (sync_type IN ('products', 'categories', 'branches', 'employees', 'customers', 'transactions', 'payments', 'inventory', 'stock_movements')),
+    direction VARCHAR(20) NOT NULL CHECK (direction IN ('import', 'export', 'bidirectional')),
     status VARCHAR(20) NOT NULL CHECK (status IN ('started', 'in_progress', 'completed', 'failed')),
+    records_total INTEGER DEFAULT 0,
     records_processed INTEGER DEFAULT 0,
     records_failed INTEGER DEFAULT 0,
     error_message TEXT,
+    metadata JSONB DEFAULT '{}', -- Export batches: exchange file name, attempts, first and last record
     started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     completed_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Scheduled sync tasks (chain-wide when branch_id is NULL, otherwise a per-branch override)
+CREATE TABLE sync_tasks (
+    id VARCHAR(100) PRIMARY KEY,
+    task_type VARCHAR(50) NOT NULL CHECK (task_type IN ('products', 'inventory', 'transactions', 'employees', 'branches', 'prices', 'onec_export')),
+    branch_id UUID REFERENCES branches(id) ON DELETE CASCADE,
+    schedule_type VARCHAR(20) NOT NULL CHECK (schedule_type IN ('interval', 'cron', 'manual')),
+    interval_minutes INTEGER CHECK (interval_minutes > 0),
+    cron_expression VARCHAR(100),
+    is_active BOOLEAN DEFAULT true,
+    status VARCHAR(20) DEFAULT 'idle' CHECK (status IN ('idle', 'running', 'failed', 'completed')),
+    priority INTEGER DEFAULT 5,
+    last_run TIMESTAMP WITH TIME ZONE,
+    next_run TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (schedule_type <> 'interval' OR interval_minutes IS NOT NULL),
+    CHECK (schedule_type <> 'cron' OR cron_expression IS NOT NULL)
+);
+
+-- Every execution of a sync task and its result
+CREATE TABLE sync_task_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    task_id VARCHAR(100) NOT NULL REFERENCES sync_tasks(id) ON DELETE CASCADE,
+    task_type VARCHAR(50) NOT NULL,
+    branch_id UUID REFERENCES branches(id) ON DELETE SET NULL,
+    trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('scheduled', 'manual', 'startup')),
+    success BOOLEAN NOT NULL,
+    records_processed INTEGER DEFAULT 0,
+    error_message TEXT,
+    duration_ms INTEGER DEFAULT 0,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Alert rules evaluated periodically by AlertService; thresholds live in params
+CREATE TABLE alert_rules (
+    id VARCHAR(100) PRIMARY KEY,
+    rule_type VARCHAR(50) NOT NULL CHECK (rule_type IN ('low_stock', 'branch_offline', 'sync_failures', 'void_spike')),
+    name VARCHAR(255) NOT NULL,
+    branch_id UUID REFERENCES branches(id) ON DELETE CASCADE, -- NULL: every active branch
+    severity VARCHAR(20) NOT NULL DEFAULT 'warning' CHECK (severity IN ('info', 'warning', 'critical')),
+    params JSONB NOT NULL DEFAULT '{}',
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Alerts raised by alert rules; one open row per dedup_key until the condition clears
+CREATE TABLE alerts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    rule_id VARCHAR(100) REFERENCES alert_rules(id) ON DELETE SET NULL,
+    alert_type VARCHAR(50) NOT NULL CHECK (alert_type IN ('low_stock', 'out_of_stock', 'branch_offline', 'sync_failures', 'void_spike')),
+    severity VARCHAR(20) NOT NULL CHECK (severity IN ('info', 'warning', 'critical')),
+    dedup_key VARCHAR(255) NOT NULL,
+    branch_id UUID REFERENCES branches(id) ON DELETE CASCADE,
+    title VARCHAR(255) NOT NULL,
+    message TEXT NOT NULL,
+    details JSONB DEFAULT '{}',
+    first_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Per-user acknowledgement and snooze of an alert
+CREATE TABLE alert_user_states (
+    alert_id UUID NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    acknowledged_at TIMESTAMP WITH TIME ZONE,
+    snoozed_until TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (alert_id, user_id)
+);
+
 -- System settings
 CREATE TABLE system_settings (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -590,6 +981,7 @@ CREATE INDEX idx_products_barcode ON products(barcode);
 CREATE INDEX idx_products_category_id ON products(category_id);
 CREATE INDEX idx_products_is_active ON products(is_active);
 CREATE INDEX idx_products_onec_id ON products(onec_id);
+CREATE INDEX idx_products_parent_product_id ON products(parent_product_id) WHERE parent_product_id IS NOT NULL;
 CREATE INDEX idx_products_has_image ON products(has_image) WHERE has_image = true;
 CREATE INDEX idx_products_name ON products USING gin(to_tsvector('english', name));
 
@@ -601,6 +993,13 @@ CREATE INDEX idx_branch_product_pricing_effective_from ON branch_product_pricing
 CREATE INDEX idx_branch_product_pricing_effective_until ON branch_product_pricing(effective_until);
 CREATE INDEX idx_branch_product_pricing_branch_product ON branch_product_pricing(branch_id, product_id);
 
+-- Scheduled price change indexes
+CREATE INDEX idx_scheduled_price_changes_branch_id ON scheduled_price_changes(branch_id);
+CREATE INDEX idx_scheduled_price_changes_product_id ON scheduled_price_changes(product_id);
+CREATE INDEX idx_scheduled_price_changes_batch_id ON scheduled_price_changes(batch_id);
+CREATE INDEX idx_scheduled_price_changes_effective_from ON scheduled_price_changes(effective_from);
+CREATE INDEX idx_scheduled_price_changes_undelivered ON scheduled_price_changes(branch_id) WHERE delivery_status <> 'delivered';
+
 -- Branch product price sync status indexes
 CREATE INDEX idx_price_sync_status_branch_id ON branch_product_price_sync_status(branch_id);
 CREATE INDEX idx_price_sync_status_product_id ON branch_product_price_sync_status(product_id);
@@ -619,6 +1018,31 @@ CREATE INDEX idx_stock_movements_product_id ON stock_movements(product_id);
 CREATE INDEX idx_stock_movements_created_at ON stock_movements(created_at);
 CREATE INDEX idx_stock_movements_movement_type ON stock_movements(movement_type);
 
+-- Inventory cost layers indexes
+CREATE INDEX idx_cost_layers_open ON inventory_cost_layers(branch_id, product_id, received_at) WHERE remaining_quantity > 0;
+CREATE INDEX idx_cost_layers_movement ON inventory_cost_layers(stock_movement_id);
+
+-- Stock transfers indexes
+CREATE INDEX idx_stock_transfers_from_branch ON stock_transfers(from_branch_id);
+CREATE INDEX idx_stock_transfers_to_branch ON stock_transfers(to_branch_id);
+CREATE INDEX idx_stock_transfers_status ON stock_transfers(status);
+CREATE INDEX idx_stock_transfers_requested_at ON stock_transfers(requested_at);
+CREATE INDEX idx_stock_transfer_items_transfer_id ON stock_transfer_items(transfer_id);
+CREATE INDEX idx_stock_transfer_items_product_id ON stock_transfer_items(product_id);
+
+-- Purchasing indexes
+CREATE INDEX idx_suppliers_is_active ON suppliers(is_active);
+CREATE INDEX idx_supplier_products_product_id ON supplier_products(product_id);
+CREATE INDEX idx_product_barcodes_product_id ON product_barcodes(product_id);
+CREATE UNIQUE INDEX idx_supplier_products_preferred ON supplier_products(product_id) WHERE is_preferred = true;
+CREATE INDEX idx_purchase_orders_supplier_id ON purchase_orders(supplier_id);
+CREATE INDEX idx_purchase_orders_branch_id ON purchase_orders(branch_id);
+CREATE INDEX idx_purchase_orders_status ON purchase_orders(status);
+CREATE INDEX idx_purchase_order_items_purchase_order_id ON purchase_order_items(purchase_order_id);
+CREATE INDEX idx_purchase_order_items_product_id ON purchase_order_items(product_id);
+CREATE INDEX idx_goods_received_notes_purchase_order_id ON goods_received_notes(purchase_order_id);
+CREATE INDEX idx_goods_received_note_items_note_id ON goods_received_note_items(goods_received_note_id);
+
 -- Customers indexes
 CREATE INDEX idx_customers_email ON customers(email);
 CREATE INDEX idx_customers_phone ON customers(phone);
@@ -627,6 +1051,10 @@ CREATE INDEX idx_customers_is_active ON customers(is_active);
 CREATE INDEX idx_customers_is_vip ON customers(is_vip);
 CREATE INDEX idx_customers_name ON customers USING gin(to_tsvector('english', name));
 
+-- Loyalty transactions indexes
+CREATE INDEX idx_loyalty_transactions_customer_id ON loyalty_transactions(customer_id, created_at DESC);
+CREATE INDEX idx_loyalty_transactions_branch_id ON loyalty_transactions(branch_id);
+
 -- Transactions indexes
 CREATE INDEX idx_transactions_branch_id ON transactions(branch_id);
 CREATE INDEX idx_transactions_employee_id ON transactions(employee_id);
@@ -647,6 +1075,9 @@ CREATE INDEX idx_payments_transaction_id ON payments(transaction_id);
 CREATE INDEX idx_payments_method ON payments(method);
 CREATE INDEX idx_payments_status ON payments(status);
 
+-- Branch shift reports indexes
+CREATE INDEX idx_branch_shift_reports_branch_closed ON branch_shift_reports(branch_id, closed_at DESC);
+
 -- Promotions indexes
 CREATE INDEX idx_promotions_branch_id ON promotions(branch_id);
 CREATE INDEX idx_promotions_product_id ON promotions(product_id);
@@ -672,6 +1103,11 @@ CREATE INDEX idx_connection_logs_checked_at ON connection_health_logs(checked_at
 -- API keys indexes
 CREATE INDEX idx_api_keys_hash ON api_keys(key_hash);
 CREATE INDEX idx_api_keys_active ON api_keys(is_active);
+CREATE INDEX idx_api_key_usage_key ON api_key_usage(api_key_id, created_at DESC);
+CREATE INDEX idx_api_key_usage_created ON api_key_usage(created_at);
+CREATE INDEX idx_webhook_subscriptions_api_key_id ON webhook_subscriptions(api_key_id);
+CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id, created_at DESC);
 
 -- Branch sync logs indexes
 CREATE INDEX idx_branch_sync_logs_branch_id ON branch_sync_logs(branch_id);
@@ -684,6 +1120,18 @@ CREATE INDEX idx_branch_sync_logs_branch_type ON branch_sync_logs(branch_id, syn
 CREATE INDEX idx_onec_sync_logs_sync_type ON onec_sync_logs(sync_type);
 CREATE INDEX idx_onec_sync_logs_status ON onec_sync_logs(status);
 CREATE INDEX idx_onec_sync_logs_started_at ON onec_sync_logs(started_at);
+CREATE INDEX idx_transactions_onec_pending ON transactions(created_at) WHERE onec_exported_at IS NULL;
+CREATE INDEX idx_payments_onec_pending ON payments(created_at) WHERE onec_exported_at IS NULL;
+CREATE INDEX idx_stock_movements_onec_pending ON stock_movements(created_at) WHERE onec_exported_at IS NULL;
+
+-- Sync scheduler indexes
+CREATE UNIQUE INDEX idx_sync_tasks_branch_override ON sync_tasks(task_type, branch_id) WHERE branch_id IS NOT NULL;
+CREATE INDEX idx_sync_task_runs_task_completed ON sync_task_runs(task_id, completed_at DESC);
+CREATE UNIQUE INDEX idx_alerts_open_dedup_key ON alerts(dedup_key) WHERE resolved_at IS NULL;
+CREATE INDEX idx_alerts_rule_open ON alerts(rule_id) WHERE resolved_at IS NULL;
+CREATE INDEX idx_alerts_branch_id ON alerts(branch_id);
+CREATE INDEX idx_alerts_first_seen_at ON alerts(first_seen_at);
+CREATE INDEX idx_alert_user_states_user_id ON alert_user_states(user_id);
 
 -- System settings indexes
 CREATE INDEX idx_system_settings_key ON system_settings(key);
@@ -781,6 +1229,12 @@ CREATE TRIGGER update_products_updated_at BEFORE UPDATE ON products
 CREATE TRIGGER update_branch_product_pricing_updated_at BEFORE UPDATE ON branch_product_pricing
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_scheduled_price_changes_updated_at BEFORE UPDATE ON scheduled_price_changes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_branch_shift_reports_updated_at BEFORE UPDATE ON branch_shift_reports
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- Trigger for price sync status updated_at
 CREATE TRIGGER update_price_sync_status_updated_at BEFORE UPDATE ON branch_product_price_sync_status
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -799,6 +1253,21 @@ CREATE TRIGGER branch_pricing_change_sync_trigger
 CREATE TRIGGER update_branch_inventory_updated_at BEFORE UPDATE ON branch_inventory
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_stock_transfers_updated_at BEFORE UPDATE ON stock_transfers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_suppliers_updated_at BEFORE UPDATE ON suppliers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_supplier_products_updated_at BEFORE UPDATE ON supplier_products
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_product_barcodes_updated_at BEFORE UPDATE ON product_barcodes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_purchase_orders_updated_at BEFORE UPDATE ON purchase_orders
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_customers_updated_at BEFORE UPDATE ON customers
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
@@ -817,6 +1286,18 @@ CREATE TRIGGER update_network_settings_updated_at BEFORE UPDATE ON network_setti
 CREATE TRIGGER update_system_settings_updated_at BEFORE UPDATE ON system_settings
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_sync_tasks_updated_at BEFORE UPDATE ON sync_tasks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_alert_rules_updated_at BEFORE UPDATE ON alert_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_alert_user_states_updated_at BEFORE UPDATE ON alert_user_states
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_webhook_subscriptions_updated_at BEFORE UPDATE ON webhook_subscriptions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- Payment methods triggers
 CREATE TRIGGER update_payment_methods_updated_at BEFORE UPDATE ON payment_methods
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -882,6 +1363,34 @@ AND b.is_active = true
 AND p.is_active = true
 ORDER BY b.name, bi.quantity_in_stock ASC;
 
+-- Stock value per branch and product. FIFO values the open cost layers, weighted average
+-- the average cost; stock not covered by layers is valued at the average or standard cost
+CREATE OR REPLACE VIEW branch_inventory_valuation AS
+SELECT
+    bi.branch_id,
+    bi.product_id,
+    b.costing_method,
+    bi.quantity_in_stock,
+    COALESCE(bi.average_cost, bpp.cost, p.cost, 0) as average_cost,
+    CASE
+        WHEN bi.quantity_in_stock <= 0 THEN 0
+        WHEN b.costing_method = 'fifo' AND COALESCE(layers.quantity, 0) >= bi.quantity_in_stock
+            THEN bi.quantity_in_stock * layers.value / layers.quantity
+        WHEN b.costing_method = 'fifo'
+            THEN COALESCE(layers.value, 0)
+                + (bi.quantity_in_stock - COALESCE(layers.quantity, 0)) * COALESCE(bi.average_cost, bpp.cost, p.cost, 0)
+        ELSE bi.quantity_in_stock * COALESCE(bi.average_cost, bpp.cost, p.cost, 0)
+    END as inventory_value
+FROM branch_inventory bi
+JOIN branches b ON bi.branch_id = b.id
+JOIN products p ON bi.product_id = p.id
+LEFT JOIN branch_product_pricing bpp ON bi.branch_id = bpp.branch_id AND bi.product_id = bpp.product_id
+LEFT JOIN LATERAL (
+    SELECT SUM(icl.remaining_quantity) as quantity, SUM(icl.remaining_quantity * icl.unit_cost) as value
+    FROM inventory_cost_layers icl
+    WHERE icl.branch_id = bi.branch_id AND icl.product_id = bi.product_id AND icl.remaining_quantity > 0
+) layers ON true;
+
 -- Product pricing overview view
 CREATE OR REPLACE VIEW product_pricing_overview AS
 SELECT 
@@ -1127,6 +1636,14 @@ COMMENT ON TABLE api_keys IS 'API keys for external system authentication';
 COMMENT ON COLUMN api_keys.key_hash IS 'Hashed API key for security';
 COMMENT ON COLUMN api_keys.permissions IS 'Array of permission strings (e.g., products:write, inventory:read)';
 COMMENT ON COLUMN api_keys.usage_count IS 'Number of times this API key has been used';
+COMMENT ON COLUMN api_keys.allowed_branch_codes IS 'Branch codes the key may read and write; routes without a branch are refused to restricted keys';
+COMMENT ON COLUMN api_keys.allowed_ip_ranges IS 'CIDR ranges requests must come from (e.g., 10.0.0.0/8, 203.0.113.7/32)';
+COMMENT ON COLUMN api_keys.rate_limit_per_minute IS 'Requests allowed per minute; NULL for no limit';
+COMMENT ON TABLE api_key_usage IS 'Audit trail of 1C API requests per API key; rows older than API_KEY_USAGE_RETENTION_DAYS are purged';
+COMMENT ON TABLE webhook_subscriptions IS 'Outbound webhooks of API key integrations (transaction.completed, inventory.low_stock, product.updated, branch.offline)';
+COMMENT ON COLUMN webhook_subscriptions.secret IS 'Signs each delivery: X-RockPoint-Signature is an HMAC-SHA256 of "<timestamp>.<body>"';
+COMMENT ON TABLE webhook_deliveries IS 'Webhook delivery log; pending rows are sent by WebhookService and retried with exponential backoff';
+COMMENT ON COLUMN webhook_deliveries.redelivery_of IS 'Delivery this row was manually resent from';
 
 COMMENT ON TABLE branch_product_price_sync_status IS 'Tracks which products need price synchronization to specific branches';
 COMMENT ON COLUMN branch_product_price_sync_status.needs_sync IS 'True when product price has changed and needs to be synced to branch';
@@ -1137,6 +1654,38 @@ COMMENT ON COLUMN branch_product_price_sync_status.price_changed_at IS 'When the
 COMMENT ON COLUMN branch_servers.api_key IS 'API key that the branch uses to authenticate to chain-core (inbound authentication)';
 COMMENT ON COLUMN branch_servers.outbound_api_key IS 'API key that chain-core uses to authenticate to this branch (outbound authentication)';
 
+COMMENT ON TABLE scheduled_price_changes IS 'Effective-dated branch price changes, pushed to branches ahead of time and switched over in each branch timezone';
+COMMENT ON COLUMN scheduled_price_changes.effective_from IS 'Wall-clock time; each branch switches over when it is reached in branches.timezone';
+COMMENT ON COLUMN branches.costing_method IS 'How cost of goods sold and stock value are calculated: weighted_average or fifo';
+COMMENT ON TABLE inventory_cost_layers IS 'Quantities received into a branch at one unit cost; outgoing movements consume the oldest layers first';
+COMMENT ON COLUMN inventory_cost_layers.remaining_quantity IS 'Part of the layer still in stock; FIFO stock value is the sum of remaining_quantity * unit_cost';
+COMMENT ON COLUMN branch_inventory.average_cost IS 'Moving weighted-average unit cost, recalculated on every incoming movement';
+COMMENT ON COLUMN transaction_items.cost_amount IS 'Cost of goods sold for the line, fixed when the sale is recorded';
+
+COMMENT ON TABLE stock_transfers IS 'Inter-branch stock transfers approved by the main office';
+COMMENT ON COLUMN stock_transfer_items.quantity_received IS 'Quantity counted by the receiving branch; differences from quantity_shipped are discrepancies';
+
+COMMENT ON TABLE purchase_orders IS 'Purchase orders to suppliers, created manually or from branch reorder points and approved by the main office';
+COMMENT ON COLUMN purchase_orders.source IS 'reorder when generated from branch_inventory reorder points, manual otherwise';
+COMMENT ON COLUMN purchase_order_items.quantity_received IS 'Running total of goods_received_note_items for this line';
+COMMENT ON TABLE goods_received_notes IS 'Deliveries received by branches against purchase orders; each line posts a purchase stock movement with its cost';
+
+COMMENT ON TABLE loyalty_transactions IS 'Chain-wide loyalty points history; branches push their ledgers here so points earned in one branch can be spent in another';
+COMMENT ON COLUMN loyalty_transactions.branch_entry_id IS 'Branch ledger entry ID; unique per branch so a resent entry is applied once';
+
+COMMENT ON TABLE branch_shift_reports IS 'Z reports of closed cash shifts, pushed by branches; expected vs counted cash per POS terminal';
+COMMENT ON COLUMN branch_shift_reports.branch_shift_id IS 'Branch cash_shifts ID; unique per branch so a resent report replaces the stored one';
+
+COMMENT ON TABLE sync_tasks IS 'SyncScheduler tasks; a row with branch_id overrides the chain-wide task of the same type for that branch';
+COMMENT ON COLUMN sync_tasks.cron_expression IS 'Cron expression evaluated in the chain timezone (chains.timezone)';
+COMMENT ON TABLE sync_task_runs IS 'History of sync task executions with their results';
+
+COMMENT ON TABLE alert_rules IS 'Configurable alert rules (stock thresholds, branch offline, sync failure streaks, void spikes)';
+COMMENT ON COLUMN alert_rules.params IS 'Rule thresholds, e.g. {"minutes": 15} for branch_offline or {"windowMinutes": 60, "maxVoids": 5} for void_spike';
+COMMENT ON TABLE alerts IS 'Alerts raised by alert rules; resolved automatically once the condition clears';
+COMMENT ON COLUMN alerts.dedup_key IS 'Identifies the condition (rule, branch, subject); at most one open alert per key';
+COMMENT ON TABLE alert_user_states IS 'Acknowledgements and snoozes of alerts per chain-manager user';
+
 COMMENT ON TABLE connection_health_logs IS 'Health check logs for monitoring connectivity between systems';
 COMMENT ON TABLE branch_servers IS 'Branch servers registered with chain-core for network management';
 COMMENT ON TABLE network_settings IS 'System-wide network and connectivity configuration';
@@ -1148,7 +1697,7 @@ ANALYZE;
 -- SUMMARY
 -- =================================================================
 
--- This schema includes 30 tables:
+-- This schema includes 45 tables:
 -- CORE BUSINESS TABLES:
 -- 1. chains - Top-level chain organization
 -- 2. branches - Individual store locations
@@ -1187,4 +1736,44 @@ ANALYZE;
 -- 27. payment_transactions - Payment transaction tracking (aggregated from branches)
 -- 28. payment_audit_log - Payment system audit trail
 
+-- INVENTORY TRANSFER TABLES:
+-- 29. stock_transfers - Inter-branch stock transfers
+-- 30. stock_transfer_items - Stock transfer line items
+
+-- SYNC SCHEDULER TABLES:
+-- 31. sync_tasks - Scheduled sync tasks and per-branch overrides
+-- 32. sync_task_runs - Sync task execution history
+
+-- LOYALTY TABLES:
+-- 33. loyalty_transactions - Chain-wide loyalty points history
+
+-- CASH MANAGEMENT TABLES:
+-- 34. branch_shift_reports - Z reports of closed cash shifts from branches
+
+-- PRICE SCHEDULING TABLES:
+-- 35. scheduled_price_changes - Effective-dated price changes per branch
+
+-- ALERTING TABLES:
+-- 36. alert_rules - Configurable alert rules
+-- 37. alerts - Persisted alerts with stable IDs
+-- 38. alert_user_states - Per-user acknowledgements and snoozes
+
+-- PURCHASING TABLES:
+-- 39. suppliers - Suppliers goods are purchased from
+-- 40. supplier_products - Supplier purchase terms per product
+-- 41. purchase_orders - Purchase orders to suppliers
+-- 42. purchase_order_items - Purchase order line items
+-- 43. goods_received_notes - Deliveries received against purchase orders
+-- 44. goods_received_note_items - Goods received note lines
+
+-- COSTING TABLES:
+-- 45. inventory_cost_layers - Received stock per unit cost for FIFO valuation
+
+-- WEBHOOK TABLES:
+-- 46. webhook_subscriptions - Outbound webhooks per API key
+-- 47. webhook_deliveries - Webhook delivery log and retry queue
+
+-- API KEY AUDIT TABLES:
+-- 48. api_key_usage - Requests made with each API key
+
 COMMIT;
@@ -642,9 +642,9 @@ SELECT * FROM (
 
 -- Insert API keys
 INSERT INTO api_keys (name, key_hash, description, permissions, is_active) VALUES
-('1C Integration', 'rp_1C_DEFAULT_KEY_REPLACE_IN_PRODUCTION', 'Default API key for 1C ERP system integration', ARRAY['products:write', 'inventory:write', 'employees:write', 'transactions:read', 'sync:execute'], true),
+('1C Integration', 'rp_1C_DEFAULT_KEY_REPLACE_IN_PRODUCTION', 'Default API key for 1C ERP system integration', ARRAY['products:write', 'inventory:write', 'employees:write', 'transactions:read', 'admin:write'], true),
 ('Mobile App', 'rp_MOBILE_APP_KEY_SECURE_HASH', 'API key for mobile application', ARRAY['products:read', 'inventory:read', 'transactions:write'], true),
-('Analytics Service', 'rp_ANALYTICS_SERVICE_KEY_HASH', 'API key for analytics and reporting service', ARRAY['reports:read', 'analytics:read'], true);
+('Analytics Service', 'rp_ANALYTICS_SERVICE_KEY_HASH', 'API key for analytics and reporting service', ARRAY['admin:read'], true);
 
 -- Insert system settings
 INSERT INTO system_settings (key, value, description) VALUES
@@ -662,7 +662,11 @@ INSERT INTO system_settings (key, value, description) VALUES
 ('support_email', 'support@rockpoint.com', 'Support contact email'),
 ('max_daily_sales_amount', '50000', 'Maximum daily sales amount per branch'),
 ('inventory_sync_interval_hours', '6', 'Hours between automatic inventory syncs'),
-('report_generation_time', '02:00', 'Daily time to generate automated reports');
+('report_generation_time', '02:00', 'Daily time to generate automated reports'),
+('onec_exchange_url', '', 'CommerceML exchange URL of the 1C information base; empty disables the push to 1C'),
+('onec_exchange_username', '', '1C user for the CommerceML exchange'),
+('onec_exchange_batch_size', '500', 'Records per CommerceML exchange file'),
+('onec_exchange_max_attempts', '3', 'Attempts per exchange file before the batch waits for the next run');
 
 -- =================================================================
 -- LOGGING DATA
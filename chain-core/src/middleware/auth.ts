@@ -1,7 +1,9 @@
 import { NextFunction, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
 import { DatabaseManager } from '../database/manager';
+import { ApiKeyService, BranchScope, PermissionCheck } from '../services/ApiKeyService';
 
-// Extend Express Request interface to include apiKey
+// Extend Express Request interface to include apiKey and the chain-manager user
 declare global {
   namespace Express {
     interface Request {
@@ -9,12 +11,61 @@ declare global {
         id: string;
         name: string;
         permissions: string[];
+        // Empty when the key may use every branch
+        allowedBranchCodes: string[];
+      };
+      // What the request did with its API key, written to api_key_usage once it finishes
+      apiKeyUsage?: {
+        route?: string;
+        permission?: string;
+        branchCodes: string[];
+        deniedReason?: string;
+      };
+      user?: {
+        id: string;
+        email: string;
+        role: string;
       };
     }
   }
 }
 
+// Refuse an API key request, recording why in the usage audit trail
+const denyApiKey = (req: Request, res: Response, status: number, code: string, error: string, details?: Record<string, any>) => {
+  if (req.apiKeyUsage) {
+    req.apiKeyUsage.deniedReason = code;
+  }
+  return res.status(status).json({ success: false, error, code, ...(details && { details }) });
+};
+
+// Write the request to api_key_usage once the response has been sent
+const trackApiKeyUsage = (req: Request, res: Response, apiKeyId: string) => {
+  const startedAt = process.hrtime.bigint();
+  const usage: NonNullable<Request['apiKeyUsage']> = { branchCodes: [] };
+  req.apiKeyUsage = usage;
+
+  res.on('finish', () => {
+    ApiKeyService.recordUsage({
+      apiKeyId,
+      method: req.method,
+      route: usage.route,
+      path: req.originalUrl.split('?')[0],
+      permission: usage.permission,
+      branchCodes: usage.branchCodes,
+      ipAddress: ApiKeyService.normalizeIp(req.ip),
+      statusCode: res.statusCode,
+      responseTimeMs: Number(process.hrtime.bigint() - startedAt) / 1e6,
+      deniedReason: usage.deniedReason
+    }).catch(error => console.warn('⚠️ Failed to record API key usage:', error.message));
+  });
+};
+
 export const authenticateApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  // The 1C routers authenticate again below /api/1c; a request is checked and counted once
+  if (req.apiKey) {
+    return next();
+  }
+
   try {
     // Get API key from Authorization header
     const authHeader = req.headers.authorization;
@@ -55,8 +106,11 @@ export const authenticateApiKey = async (req: Request, res: Response, next: Next
         permissions, 
         is_active, 
         expires_at,
-        last_used_at
-      FROM api_keys 
+        last_used_at,
+        allowed_branch_codes,
+        allowed_ip_ranges,
+        rate_limit_per_minute
+      FROM api_keys
       WHERE key_hash = $1 AND is_active = true
     `, [apiKey]);
 
@@ -79,18 +133,37 @@ export const authenticateApiKey = async (req: Request, res: Response, next: Next
       });
     }
 
-    // Update last used timestamp
-    await DatabaseManager.query(`
-      UPDATE api_keys 
-      SET last_used_at = NOW(), usage_count = usage_count + 1
-      WHERE id = $1
-    `, [keyData.id]);
+    // The request is logged with its outcome once answered; refused ones do not count as usage
+    trackApiKeyUsage(req, res, keyData.id);
+    const ipAddress = ApiKeyService.normalizeIp(req.ip);
+
+    if (!ApiKeyService.isIpAllowed(ipAddress, keyData.allowed_ip_ranges || [])) {
+      return denyApiKey(req, res, 403, 'IP_NOT_ALLOWED', `API key cannot be used from ${ipAddress || 'this address'}`);
+    }
+
+    if (keyData.rate_limit_per_minute) {
+      const rateLimit = await ApiKeyService.consumeRateLimit(keyData.id, keyData.rate_limit_per_minute);
+      res.set({
+        'X-RateLimit-Limit': String(rateLimit.limit),
+        'X-RateLimit-Remaining': String(rateLimit.remaining),
+        'X-RateLimit-Reset': String(Math.ceil(rateLimit.resetTime / 1000))
+      });
+
+      if (!rateLimit.allowed) {
+        res.set('Retry-After', String(Math.max(1, Math.ceil((rateLimit.resetTime - Date.now()) / 1000))));
+        return denyApiKey(req, res, 429, 'RATE_LIMIT_EXCEEDED', 'Rate limit exceeded', {
+          limit: rateLimit.limit,
+          reset_time: new Date(rateLimit.resetTime).toISOString()
+        });
+      }
+    }
 
     // Add API key info to request object
     req.apiKey = {
       id: keyData.id,
       name: keyData.name,
-      permissions: keyData.permissions || []
+      permissions: keyData.permissions || [],
+      allowedBranchCodes: keyData.allowed_branch_codes || []
     };
 
     next();
@@ -104,8 +177,76 @@ export const authenticateApiKey = async (req: Request, res: Response, next: Next
   }
 };
 
-export const requirePermission = (permission: string) => {
-  return (req: Request, res: Response, next: NextFunction) => {
+// Chain-manager users send the JWT issued at login as a Bearer token
+export const authenticateUser = (req: Request, res: Response, next: NextFunction) => {
+  const token = req.headers.authorization?.replace('Bearer ', '');
+
+  if (!token) {
+    return res.status(401).json({
+      success: false,
+      error: 'No token provided',
+      code: 'MISSING_AUTH_HEADER'
+    });
+  }
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'default-secret') as any;
+    req.user = {
+      id: decoded.userId,
+      email: decoded.email,
+      role: decoded.role
+    };
+    next();
+  } catch (error) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid token',
+      code: 'INVALID_TOKEN'
+    });
+  }
+};
+
+/**
+ * Branch codes a request touches, read from where its route keeps them; null when one is missing
+ */
+const requestBranchCodes = (req: Request, branchScope: BranchScope): string[] | null => {
+  if (branchScope === 'param') {
+    return req.params.code ? [req.params.code] : null;
+  }
+
+  if (branchScope === 'query') {
+    const branchCode = req.query.branch_code;
+    return typeof branchCode === 'string' && branchCode ? [branchCode] : null;
+  }
+
+  // Bodies are an array of records, wrap them in updates / movements, or are a single record
+  const body = req.body;
+  const records: any[] = Array.isArray(body) ? body
+    : Array.isArray(body?.updates) ? body.updates
+    : Array.isArray(body?.movements) ? body.movements
+    : [body];
+
+  const codes: string[] = [];
+  for (const record of records) {
+    if (typeof record?.branch_code === 'string' && record.branch_code) {
+      codes.push(record.branch_code);
+    } else if (Array.isArray(record?.branch_codes) && record.branch_codes.length > 0) {
+      codes.push(...record.branch_codes);
+    } else {
+      return null;
+    }
+  }
+  return codes.length > 0 ? [...new Set(codes)] : null;
+};
+
+/**
+ * Require a permission of the API key. Keys restricted to branch codes are also checked against
+ * the branches the request touches, found as the branch scope of the route says.
+ */
+export const requirePermission = (permission: string, options: { branch?: BranchScope } = {}) => {
+  const branchScope = options.branch || 'none';
+
+  const check = (req: Request, res: Response, next: NextFunction) => {
     if (!req.apiKey) {
       return res.status(401).json({
         success: false,
@@ -114,16 +255,48 @@ export const requirePermission = (permission: string) => {
       });
     }
 
+    if (req.apiKeyUsage) {
+      req.apiKeyUsage.route = req.baseUrl + (req.route.path === '/' ? '' : req.route.path);
+      req.apiKeyUsage.permission = permission;
+    }
+
     if (!req.apiKey.permissions.includes(permission) && !req.apiKey.permissions.includes('*')) {
-      return res.status(403).json({
-        success: false,
-        error: `Insufficient permissions. Required: ${permission}`,
-        code: 'INSUFFICIENT_PERMISSIONS'
-      });
+      return denyApiKey(req, res, 403, 'INSUFFICIENT_PERMISSIONS', `Insufficient permissions. Required: ${permission}`);
+    }
+
+    const allowedBranchCodes = req.apiKey.allowedBranchCodes;
+    if (allowedBranchCodes.length === 0 || branchScope === 'any') {
+      return next();
+    }
+
+    if (branchScope === 'none') {
+      return denyApiKey(req, res, 403, 'BRANCH_SCOPE_UNSUPPORTED', 'This endpoint is not available to API keys restricted to branches');
+    }
+
+    let branchCodes = requestBranchCodes(req, branchScope);
+    if (!branchCodes && branchScope === 'query' && allowedBranchCodes.length === 1) {
+      // A key for a single branch reads that branch without naming it
+      req.query.branch_code = allowedBranchCodes[0];
+      branchCodes = [allowedBranchCodes[0]];
+    }
+    if (!branchCodes) {
+      return denyApiKey(req, res, 400, 'BRANCH_CODE_REQUIRED', 'API keys restricted to branches must name the branch of every record (branch_code)');
+    }
+
+    if (req.apiKeyUsage) {
+      req.apiKeyUsage.branchCodes = branchCodes;
+    }
+
+    const deniedBranchCodes = branchCodes.filter(code => !allowedBranchCodes.includes(code));
+    if (deniedBranchCodes.length > 0) {
+      return denyApiKey(req, res, 403, 'BRANCH_NOT_ALLOWED', `API key is not allowed to access branch ${deniedBranchCodes.join(', ')}`);
     }
 
     next();
   };
+
+  const permissionCheck: PermissionCheck = { permission, branchScope };
+  return Object.assign(check, { permissionCheck });
 };
 
 // Helper function to generate API key
@@ -0,0 +1,4 @@
+import { LicenseFeature, LicenseService } from '../services/LicenseService';
+
+// Refuse the route unless the chain license includes the feature
+export const requireLicenseFeature = (feature: LicenseFeature) => LicenseService.requireFeature(feature);
@@ -9,11 +9,17 @@ import { WebSocket, WebSocketServer } from 'ws';
 
 // Import managers and services
 import { DatabaseManager } from './database/manager';
+import { AlertService } from './services/AlertService';
+import { ApiKeyService } from './services/ApiKeyService';
 import { RedisManager } from './services/redis';
+import { LicenseService } from './services/LicenseService';
+import { SyncScheduler } from './services/SyncScheduler';
+import { WebhookService } from './services/WebhookService';
 import { WebSocketManager } from './services/websocket';
 
 // Import middleware
 import { errorHandler } from './middleware/errorHandler';
+import { requireLicenseFeature } from './middleware/license';
 import { requestLogger } from './middleware/logger';
 
 // Import API routes
@@ -32,6 +38,7 @@ import paymentMethodsRoutes from './api/payment-methods';
 import productsRoutes from './api/products';
 import promotionsRoutes from './api/promotions';
 import reportsRoutes from './api/reports';
+import suppliersRoutes from './api/suppliers';
 import syncRoutes from './api/sync';
 
 // Load environment variables
@@ -54,7 +61,7 @@ class ChainServer {
       server: this.httpServer,
       path: process.env.WS_PATH || '/ws'
     });
-    this.wsManager = WebSocketManager.getInstance(this.httpServer);
+    this.wsManager = WebSocketManager.getInstance();
     this.redisManager = RedisManager.getInstance();
 
     this.setupMiddleware();
@@ -126,9 +133,10 @@ class ChainServer {
     this.app.use('/api/payment-methods', paymentMethodsRoutes);
     this.app.use('/api/products', productsRoutes);
     this.app.use('/api/inventory', inventoryRoutes);
+    this.app.use('/api/suppliers', suppliersRoutes);
     this.app.use('/api/promotions', promotionsRoutes);
-    this.app.use('/api/reports', reportsRoutes);
-    this.app.use('/api/1c', oneCRoutes);
+    this.app.use('/api/reports', requireLicenseFeature('analytics'), reportsRoutes);
+    this.app.use('/api/1c', requireLicenseFeature('api-access'), oneCRoutes);
     this.app.use('/api/dashboard', dashboardRoutes);
     this.app.use('/api/network', networkRoutes);
     this.app.use('/api/sync', syncRoutes);
@@ -211,9 +219,24 @@ class ChainServer {
       });
 
       // Initialize WebSocket manager
-      this.wsManager.initialize();
+      this.wsManager.initialize(this.wsServer);
       console.log('✅ WebSocket server initialized');
 
+      // Start scheduled sync tasks
+      await SyncScheduler.getInstance().start();
+
+      // Activate the license and keep it alive; a cached license covers outages
+      LicenseService.start();
+
+      // Evaluate alert rules and push new alerts to chain-manager
+      AlertService.start();
+
+      // Send queued webhook deliveries and retry failed ones
+      WebhookService.start();
+
+      // Purge API key usage older than the retention period
+      ApiKeyService.start();
+
     } catch (error) {
       console.error('❌ Failed to start server:', error);
       process.exit(1);
@@ -224,6 +247,13 @@ class ChainServer {
     console.log(`\n🛑 Graceful shutdown initiated (${signal})`);
 
     try {
+      // Stop scheduled sync tasks
+      await SyncScheduler.getInstance().stop();
+      LicenseService.stop();
+      AlertService.stop();
+      WebhookService.stop();
+      ApiKeyService.stop();
+
       // Close WebSocket connections
       this.wsManager.closeAll();
       console.log('✅ WebSocket connections closed');
@@ -0,0 +1,626 @@
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import { WebhookService } from './WebhookService';
+import { WebSocketManager } from './websocket';
+
+// =================================================================
+// INTERFACES AND TYPES
+// =================================================================
+
+export const ALERT_RULE_TYPES = ['low_stock', 'branch_offline', 'sync_failures', 'void_spike'] as const;
+export const ALERT_SEVERITIES = ['info', 'warning', 'critical'] as const;
+
+export type AlertRuleType = typeof ALERT_RULE_TYPES[number];
+export type AlertSeverity = typeof ALERT_SEVERITIES[number];
+export type AlertType = AlertRuleType | 'out_of_stock';
+
+export interface AlertRule {
+  id: string;
+  ruleType: AlertRuleType;
+  name: string;
+  branchId?: string;
+  branchName?: string;
+  severity: AlertSeverity;
+  params: Record<string, any>;
+  isActive: boolean;
+}
+
+export interface AlertRuleChanges {
+  name?: string;
+  branchId?: string | null;
+  severity?: AlertSeverity;
+  params?: Record<string, any>;
+  isActive?: boolean;
+}
+
+export interface AlertFilters {
+  branchId?: string;
+  includeAcknowledged?: boolean;
+  includeSnoozed?: boolean;
+  includeResolved?: boolean;
+  limit?: number;
+}
+
+export interface AlertEvaluationResult {
+  created: number;
+  resolved: number;
+  failedRules: string[];
+}
+
+// A condition found by a rule; alerts with the same dedupKey are the same alert
+interface AlertCandidate {
+  type: AlertType;
+  severity: AlertSeverity;
+  dedupKey: string;
+  branchId?: string;
+  title: string;
+  message: string;
+  details: Record<string, any>;
+}
+
+// Thresholds per rule type; missing values fall back to these defaults
+const RULE_PARAM_SCHEMAS = {
+  // threshold: alert at or below this quantity; the item's min_stock_level when omitted
+  low_stock: z.object({
+    threshold: z.number().min(0).optional()
+  }),
+  branch_offline: z.object({
+    minutes: z.number().int().min(1).default(15)
+  }),
+  sync_failures: z.object({
+    failures: z.number().int().min(1).default(3)
+  }),
+  void_spike: z.object({
+    windowMinutes: z.number().int().min(1).default(60),
+    threshold: z.number().int().min(1).default(5)
+  })
+} satisfies Record<AlertRuleType, z.ZodTypeAny>;
+
+const DEFAULT_RULES: Omit<AlertRule, 'id' | 'branchName'>[] = [
+  { ruleType: 'low_stock', name: 'Low stock', severity: 'warning', params: {}, isActive: true },
+  { ruleType: 'branch_offline', name: 'Branch offline', severity: 'critical', params: { minutes: 15 }, isActive: true },
+  { ruleType: 'sync_failures', name: 'Sync failure streak', severity: 'warning', params: { failures: 3 }, isActive: true },
+  { ruleType: 'void_spike', name: 'Voided transaction spike', severity: 'warning', params: { windowMinutes: 60, threshold: 5 }, isActive: true }
+];
+
+const DEFAULT_EVALUATION_INTERVAL_MS = 60 * 1000;
+
+// Low stock rows considered per rule and run
+const MAX_STOCK_CANDIDATES = 500;
+
+const RULE_QUERY = `
+  SELECT r.id, r.rule_type, r.name, r.branch_id, b.name AS branch_name, r.severity, r.params, r.is_active
+  FROM alert_rules r
+  LEFT JOIN branches b ON r.branch_id = b.id
+`;
+
+const SEVERITY_ORDER = `CASE a.severity WHEN 'critical' THEN 3 WHEN 'warning' THEN 2 ELSE 1 END`;
+
+// =================================================================
+// ALERT SERVICE
+// =================================================================
+
+/**
+ * Alert Service
+ *
+ * Alert rules are evaluated periodically. Each condition a rule finds is kept as one open
+ * alert with a stable ID for as long as it holds, identified by its dedup key, and is
+ * resolved once the condition clears. New alerts are pushed to chain-manager over the
+ * WebSocket. Users acknowledge or snooze alerts for themselves only.
+ */
+export class AlertService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static evaluating = false;
+
+  // =================================================================
+  // RULES
+  // =================================================================
+
+  static async listRules(): Promise<AlertRule[]> {
+    const result = await DatabaseManager.query(`
+      ${RULE_QUERY}
+      ORDER BY r.rule_type, r.branch_id NULLS FIRST, r.name
+    `);
+
+    return result.rows.map((row: any) => this.mapRule(row));
+  }
+
+  static async createRule(rule: Omit<AlertRule, 'id' | 'branchName'>): Promise<AlertRule> {
+    const params = this.validateParams(rule.ruleType, rule.params);
+    const ruleId = `${rule.ruleType}_${uuidv4()}`;
+
+    await DatabaseManager.query(`
+      INSERT INTO alert_rules (id, rule_type, name, branch_id, severity, params, is_active)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `, [ruleId, rule.ruleType, rule.name, rule.branchId || null, rule.severity, JSON.stringify(params), rule.isActive]);
+
+    return this.getRule(ruleId);
+  }
+
+  static async updateRule(ruleId: string, changes: AlertRuleChanges): Promise<AlertRule> {
+    const rule = await this.getRule(ruleId);
+
+    const updated = {
+      ...rule,
+      name: changes.name ?? rule.name,
+      branchId: changes.branchId === null ? undefined : changes.branchId ?? rule.branchId,
+      severity: changes.severity ?? rule.severity,
+      params: changes.params ? this.validateParams(rule.ruleType, changes.params) : rule.params,
+      isActive: changes.isActive ?? rule.isActive
+    };
+
+    await DatabaseManager.query(`
+      UPDATE alert_rules
+      SET name = $1, branch_id = $2, severity = $3, params = $4, is_active = $5
+      WHERE id = $6
+    `, [updated.name, updated.branchId || null, updated.severity, JSON.stringify(updated.params), updated.isActive, ruleId]);
+
+    // Alerts of a paused rule would otherwise stay open with nobody re-checking them
+    if (!updated.isActive) {
+      await this.resolveAlerts(ruleId, []);
+    }
+
+    return this.getRule(ruleId);
+  }
+
+  static async deleteRule(ruleId: string): Promise<void> {
+    await this.getRule(ruleId);
+    await this.resolveAlerts(ruleId, []);
+    await DatabaseManager.query('DELETE FROM alert_rules WHERE id = $1', [ruleId]);
+  }
+
+  private static async getRule(ruleId: string): Promise<AlertRule> {
+    const result = await DatabaseManager.query(`
+      ${RULE_QUERY}
+      WHERE r.id = $1
+    `, [ruleId]);
+
+    if (result.rows.length === 0) {
+      throw createError(`Alert rule not found: ${ruleId}`, 404);
+    }
+    return this.mapRule(result.rows[0]);
+  }
+
+  private static validateParams(ruleType: AlertRuleType, params: Record<string, any> = {}): Record<string, any> {
+    const parsed = RULE_PARAM_SCHEMAS[ruleType].safeParse(params);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw createError(`Invalid ${ruleType} rule parameter ${issue.path.join('.')}: ${issue.message}`, 400);
+    }
+    return parsed.data;
+  }
+
+  // Stable IDs so restarts find the stored defaults instead of inserting new ones
+  private static async ensureDefaultRules(): Promise<void> {
+    for (const rule of DEFAULT_RULES) {
+      await DatabaseManager.query(`
+        INSERT INTO alert_rules (id, rule_type, name, severity, params, is_active)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (id) DO NOTHING
+      `, [`${rule.ruleType}_all`, rule.ruleType, rule.name, rule.severity, JSON.stringify(rule.params), rule.isActive]);
+    }
+  }
+
+  // =================================================================
+  // EVALUATION
+  // =================================================================
+
+  /**
+   * Run every active rule once. A rule that fails keeps its open alerts as they are.
+   */
+  static async evaluate(): Promise<AlertEvaluationResult> {
+    const outcome: AlertEvaluationResult = { created: 0, resolved: 0, failedRules: [] };
+    if (this.evaluating) {
+      return outcome;
+    }
+
+    this.evaluating = true;
+    try {
+      const rules = (await this.listRules()).filter(rule => rule.isActive);
+
+      for (const rule of rules) {
+        try {
+          const candidates = await this.findConditions(rule);
+          const created = await this.upsertAlerts(rule, candidates);
+          const resolved = await this.resolveAlerts(rule.id, candidates.map(candidate => candidate.dedupKey));
+          outcome.created += created;
+          outcome.resolved += resolved;
+        } catch (error) {
+          console.error(`Alert rule ${rule.id} failed:`, error instanceof Error ? error.message : error);
+          outcome.failedRules.push(rule.id);
+        }
+      }
+    } finally {
+      this.evaluating = false;
+    }
+
+    return outcome;
+  }
+
+  private static findConditions(rule: AlertRule): Promise<AlertCandidate[]> {
+    const params = this.validateParams(rule.ruleType, rule.params);
+
+    switch (rule.ruleType) {
+      case 'low_stock':
+        return this.findLowStock(rule, params);
+      case 'branch_offline':
+        return this.findOfflineBranches(rule, params);
+      case 'sync_failures':
+        return this.findSyncFailureStreaks(rule, params);
+      case 'void_spike':
+        return this.findVoidSpikes(rule, params);
+    }
+  }
+
+  private static async findLowStock(rule: AlertRule, params: Record<string, any>): Promise<AlertCandidate[]> {
+    const result = await DatabaseManager.query(`
+      SELECT bi.branch_id, bi.product_id, bi.quantity_in_stock, bi.min_stock_level,
+             p.name AS product_name, p.sku, b.name AS branch_name
+      FROM branch_inventory bi
+      JOIN products p ON bi.product_id = p.id
+      JOIN branches b ON bi.branch_id = b.id
+      WHERE p.is_active = true
+        AND b.is_active = true
+        AND bi.quantity_in_stock <= COALESCE($1, bi.min_stock_level)
+        AND ($2::uuid IS NULL OR bi.branch_id = $2)
+      ORDER BY bi.quantity_in_stock ASC
+      LIMIT ${MAX_STOCK_CANDIDATES}
+    `, [params.threshold ?? null, rule.branchId || null]);
+
+    return result.rows.map((row: any) => {
+      const quantity = parseFloat(row.quantity_in_stock);
+      const outOfStock = quantity <= 0;
+      const type: AlertType = outOfStock ? 'out_of_stock' : 'low_stock';
+
+      return {
+        type,
+        severity: outOfStock ? 'critical' : rule.severity,
+        dedupKey: `${rule.id}:${type}:${row.branch_id}:${row.product_id}`,
+        branchId: row.branch_id,
+        title: `${outOfStock ? 'Out of stock' : 'Low stock'}: ${row.product_name}`,
+        message: outOfStock
+          ? `${row.product_name} is out of stock at ${row.branch_name}`
+          : `${row.product_name} is low in stock at ${row.branch_name} (${quantity} left)`,
+        details: {
+          productId: row.product_id,
+          productName: row.product_name,
+          sku: row.sku,
+          quantity,
+          threshold: params.threshold ?? parseFloat(row.min_stock_level)
+        }
+      };
+    });
+  }
+
+  // Branches without a registered server are never reached, so only those with one are watched
+  private static async findOfflineBranches(rule: AlertRule, params: Record<string, any>): Promise<AlertCandidate[]> {
+    const result = await DatabaseManager.query(`
+      SELECT b.id, b.name, GREATEST(MAX(bs.last_ping), b.last_sync_at) AS last_seen_at
+      FROM branches b
+      JOIN branch_servers bs ON bs.branch_id = b.id AND bs.is_active = true
+      WHERE b.is_active = true
+        AND ($2::uuid IS NULL OR b.id = $2)
+      GROUP BY b.id, b.name, b.last_sync_at, b.created_at
+      HAVING COALESCE(GREATEST(MAX(bs.last_ping), b.last_sync_at), b.created_at) < NOW() - make_interval(mins => $1)
+    `, [params.minutes, rule.branchId || null]);
+
+    return result.rows.map((row: any) => ({
+      type: 'branch_offline' as const,
+      severity: rule.severity,
+      dedupKey: `${rule.id}:${row.id}`,
+      branchId: row.id,
+      title: `Branch offline: ${row.name}`,
+      message: `${row.name} has not been reachable for more than ${params.minutes} minutes`,
+      details: {
+        minutes: params.minutes,
+        lastSeenAt: row.last_seen_at
+      }
+    }));
+  }
+
+  private static async findSyncFailureStreaks(rule: AlertRule, params: Record<string, any>): Promise<AlertCandidate[]> {
+    const result = await DatabaseManager.query(`
+      SELECT r.task_id, r.task_type, t.branch_id, b.name AS branch_name,
+             (ARRAY_AGG(r.error_message ORDER BY r.completed_at DESC))[1] AS last_error,
+             MAX(r.completed_at) AS last_failed_at
+      FROM (
+        SELECT task_id, task_type, success, error_message, completed_at,
+               ROW_NUMBER() OVER (PARTITION BY task_id ORDER BY completed_at DESC) AS position
+        FROM sync_task_runs
+      ) r
+      JOIN sync_tasks t ON r.task_id = t.id
+      LEFT JOIN branches b ON t.branch_id = b.id
+      WHERE r.position <= $1
+        AND t.is_active = true
+        AND ($2::uuid IS NULL OR t.branch_id = $2)
+      GROUP BY r.task_id, r.task_type, t.branch_id, b.name
+      HAVING COUNT(*) = $1 AND BOOL_AND(NOT r.success)
+    `, [params.failures, rule.branchId || null]);
+
+    return result.rows.map((row: any) => {
+      const scope = row.branch_name || 'all branches';
+
+      return {
+        type: 'sync_failures' as const,
+        severity: rule.severity,
+        dedupKey: `${rule.id}:${row.task_id}`,
+        branchId: row.branch_id || undefined,
+        title: `Sync failing: ${row.task_type}`,
+        message: `The last ${params.failures} ${row.task_type} syncs for ${scope} failed${row.last_error ? `: ${row.last_error}` : ''}`,
+        details: {
+          taskId: row.task_id,
+          taskType: row.task_type,
+          failures: params.failures,
+          lastError: row.last_error,
+          lastFailedAt: row.last_failed_at
+        }
+      };
+    });
+  }
+
+  // Voided sales arrive from branches as cancelled transactions
+  private static async findVoidSpikes(rule: AlertRule, params: Record<string, any>): Promise<AlertCandidate[]> {
+    const result = await DatabaseManager.query(`
+      SELECT t.branch_id, b.name AS branch_name, COUNT(*) AS voids, SUM(t.total_amount) AS voided_amount
+      FROM transactions t
+      JOIN branches b ON t.branch_id = b.id
+      WHERE t.status = 'cancelled'
+        AND COALESCE(t.updated_at, t.created_at) >= NOW() - make_interval(mins => $1)
+        AND ($3::uuid IS NULL OR t.branch_id = $3)
+      GROUP BY t.branch_id, b.name
+      HAVING COUNT(*) >= $2
+    `, [params.windowMinutes, params.threshold, rule.branchId || null]);
+
+    return result.rows.map((row: any) => {
+      const voids = parseInt(row.voids);
+
+      return {
+        type: 'void_spike' as const,
+        severity: rule.severity,
+        dedupKey: `${rule.id}:${row.branch_id}`,
+        branchId: row.branch_id,
+        title: `Voided transactions: ${row.branch_name}`,
+        message: `${voids} transactions were voided at ${row.branch_name} in the last ${params.windowMinutes} minutes`,
+        details: {
+          voids,
+          voidedAmount: parseFloat(row.voided_amount || 0),
+          windowMinutes: params.windowMinutes,
+          threshold: params.threshold
+        }
+      };
+    });
+  }
+
+  /**
+   * Open alerts are refreshed in place; alerts opened now are pushed to chain-manager
+   */
+  private static async upsertAlerts(rule: AlertRule, candidates: AlertCandidate[]): Promise<number> {
+    let created = 0;
+
+    for (const candidate of candidates) {
+      const result = await DatabaseManager.query(`
+        INSERT INTO alerts (rule_id, alert_type, severity, dedup_key, branch_id, title, message, details)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (dedup_key) WHERE resolved_at IS NULL
+        DO UPDATE SET
+          severity = EXCLUDED.severity,
+          title = EXCLUDED.title,
+          message = EXCLUDED.message,
+          details = EXCLUDED.details,
+          last_seen_at = NOW()
+        RETURNING id, (xmax = 0) AS inserted
+      `, [
+        rule.id, candidate.type, candidate.severity, candidate.dedupKey, candidate.branchId || null,
+        candidate.title, candidate.message, JSON.stringify(candidate.details)
+      ]);
+
+      if (result.rows[0].inserted) {
+        created++;
+        const alert = await this.getAlert(result.rows[0].id);
+        WebSocketManager.getInstance().emitToAll('alert', alert);
+        await this.publishWebhook(alert.id, candidate);
+      }
+    }
+
+    return created;
+  }
+
+  // Stock and connectivity alerts are also webhook events for API key integrations
+  private static async publishWebhook(alertId: string, candidate: AlertCandidate): Promise<void> {
+    if (candidate.type === 'low_stock' || candidate.type === 'out_of_stock') {
+      await WebhookService.publish('inventory.low_stock', {
+        alertId,
+        branchId: candidate.branchId,
+        outOfStock: candidate.type === 'out_of_stock',
+        ...candidate.details
+      });
+    } else if (candidate.type === 'branch_offline') {
+      await WebhookService.publish('branch.offline', {
+        alertId,
+        branchId: candidate.branchId,
+        ...candidate.details
+      });
+    }
+  }
+
+  private static async resolveAlerts(ruleId: string, openDedupKeys: string[]): Promise<number> {
+    const result = await DatabaseManager.query(`
+      UPDATE alerts
+      SET resolved_at = NOW()
+      WHERE rule_id = $1
+        AND resolved_at IS NULL
+        AND dedup_key <> ALL($2::text[])
+      RETURNING id
+    `, [ruleId, openDedupKeys]);
+
+    for (const row of result.rows) {
+      WebSocketManager.getInstance().emitToAll('alert_resolved', { id: row.id });
+    }
+    return result.rows.length;
+  }
+
+  /**
+   * Evaluate the rules every minute; the first run seeds the default rules
+   */
+  static start(intervalMs: number = parseInt(process.env.ALERT_EVALUATION_INTERVAL_MS || '') || DEFAULT_EVALUATION_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = () => {
+      this.evaluate()
+        .then(result => {
+          if (result.failedRules.length > 0) {
+            console.warn(`⚠️ Alert rules failed: ${result.failedRules.join(', ')}`);
+          }
+        })
+        .catch(error => console.warn('⚠️ Alert evaluation failed:', error.message));
+    };
+
+    this.ensureDefaultRules()
+      .catch(error => console.warn('⚠️ Failed to create default alert rules:', error.message))
+      .then(run);
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // =================================================================
+  // ALERTS PER USER
+  // =================================================================
+
+  /**
+   * Alerts as the user sees them; acknowledged and snoozed alerts are left out unless asked for
+   */
+  static async listAlerts(userId: string | undefined, filters: AlertFilters = {}): Promise<any[]> {
+    const conditions: string[] = [];
+    const params: any[] = [userId || null];
+
+    if (!filters.includeResolved) {
+      conditions.push('a.resolved_at IS NULL');
+    }
+    if (!filters.includeAcknowledged) {
+      conditions.push('s.acknowledged_at IS NULL');
+    }
+    if (!filters.includeSnoozed) {
+      conditions.push('(s.snoozed_until IS NULL OR s.snoozed_until <= NOW())');
+    }
+    if (filters.branchId) {
+      params.push(filters.branchId);
+      conditions.push(`a.branch_id = $${params.length}`);
+    }
+
+    params.push(filters.limit || 100);
+    const result = await DatabaseManager.query(`
+      ${this.alertQuery()}
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY a.resolved_at IS NULL DESC, ${SEVERITY_ORDER} DESC, a.first_seen_at DESC
+      LIMIT $${params.length}
+    `, params);
+
+    return result.rows.map((row: any) => this.mapAlert(row));
+  }
+
+  static async acknowledge(alertId: string, userId: string): Promise<any> {
+    await this.getAlert(alertId);
+
+    await DatabaseManager.query(`
+      INSERT INTO alert_user_states (alert_id, user_id, acknowledged_at, snoozed_until)
+      VALUES ($1, $2, NOW(), NULL)
+      ON CONFLICT (alert_id, user_id)
+      DO UPDATE SET acknowledged_at = NOW(), snoozed_until = NULL
+    `, [alertId, userId]);
+
+    return this.notifyUser(alertId, userId);
+  }
+
+  static async snooze(alertId: string, userId: string, until: Date): Promise<any> {
+    if (until.getTime() <= Date.now()) {
+      throw createError('Snooze time must be in the future', 400);
+    }
+    await this.getAlert(alertId);
+
+    await DatabaseManager.query(`
+      INSERT INTO alert_user_states (alert_id, user_id, snoozed_until)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (alert_id, user_id)
+      DO UPDATE SET snoozed_until = EXCLUDED.snoozed_until
+    `, [alertId, userId, until]);
+
+    return this.notifyUser(alertId, userId);
+  }
+
+  // Other sessions of the same user hide or show the alert too
+  private static async notifyUser(alertId: string, userId: string): Promise<any> {
+    const alert = await this.getAlert(alertId, userId);
+    WebSocketManager.getInstance().emitToUser(userId, 'alert_state', alert);
+    return alert;
+  }
+
+  private static async getAlert(alertId: string, userId?: string): Promise<any> {
+    const result = await DatabaseManager.query(`
+      ${this.alertQuery()}
+      WHERE a.id = $2
+    `, [userId || null, alertId]);
+
+    if (result.rows.length === 0) {
+      throw createError('Alert not found', 404);
+    }
+    return this.mapAlert(result.rows[0]);
+  }
+
+  // $1 is the user whose acknowledgement and snooze are joined in
+  private static alertQuery(): string {
+    return `
+      SELECT a.id, a.rule_id, a.alert_type, a.severity, a.branch_id, a.title, a.message, a.details,
+             a.first_seen_at, a.last_seen_at, a.resolved_at,
+             b.name AS branch_name, s.acknowledged_at, s.snoozed_until
+      FROM alerts a
+      LEFT JOIN branches b ON a.branch_id = b.id
+      LEFT JOIN alert_user_states s ON s.alert_id = a.id AND s.user_id = $1
+    `;
+  }
+
+  private static mapAlert(row: any): any {
+    const snoozed = row.snoozed_until && new Date(row.snoozed_until).getTime() > Date.now();
+
+    return {
+      id: row.id,
+      ruleId: row.rule_id,
+      type: row.alert_type,
+      severity: row.severity,
+      title: row.title,
+      message: row.message,
+      details: row.details || {},
+      timestamp: row.first_seen_at,
+      branchId: row.branch_id,
+      branchName: row.branch_name,
+      acknowledged: !!row.acknowledged_at,
+      acknowledgedAt: row.acknowledged_at,
+      snoozedUntil: snoozed ? row.snoozed_until : null,
+      lastSeenAt: row.last_seen_at,
+      resolvedAt: row.resolved_at,
+      created_at: row.first_seen_at
+    };
+  }
+
+  private static mapRule(row: any): AlertRule {
+    return {
+      id: row.id,
+      ruleType: row.rule_type,
+      name: row.name,
+      branchId: row.branch_id || undefined,
+      branchName: row.branch_name || undefined,
+      severity: row.severity,
+      params: row.params || {},
+      isActive: row.is_active
+    };
+  }
+}
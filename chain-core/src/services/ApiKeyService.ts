@@ -0,0 +1,452 @@
+import { Router } from 'express';
+import { BlockList, isIP } from 'net';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import { RedisManager } from './redis';
+
+// =================================================================
+// INTERFACES AND TYPES
+// =================================================================
+
+/**
+ * Where a route takes the branches it touches from, for keys restricted to branch codes:
+ * - param: the :code route parameter
+ * - query: the branch_code query parameter
+ * - body: branch_code / branch_codes of every record in the request body
+ * - any: chain-wide master data (products, categories, customers), open to every key
+ * - none: chain-wide data that is not split by branch, refused to restricted keys
+ */
+export const BRANCH_SCOPES = ['param', 'query', 'body', 'any', 'none'] as const;
+export type BranchScope = typeof BRANCH_SCOPES[number];
+
+// Attached by requirePermission() to its middleware so the catalogue can be read off the routers
+export interface PermissionCheck {
+  permission: string;
+  branchScope: BranchScope;
+}
+
+export interface CatalogueRoute {
+  method: string;
+  path: string;
+  permission: string;
+  branchScope: BranchScope;
+}
+
+export interface CataloguePermission {
+  name: string;
+  description: string;
+  routes: CatalogueRoute[];
+}
+
+export interface PermissionCatalogue {
+  permissions: CataloguePermission[];
+  routes: CatalogueRoute[];
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number;
+}
+
+export interface ApiKeyUsageInput {
+  apiKeyId: string;
+  method: string;
+  route?: string;
+  path: string;
+  permission?: string;
+  branchCodes: string[];
+  ipAddress?: string;
+  statusCode: number;
+  responseTimeMs: number;
+  deniedReason?: string;
+}
+
+export interface ApiKeyUsageEntry {
+  id: string;
+  method: string;
+  route?: string;
+  path: string;
+  permission?: string;
+  branchCodes: string[];
+  ipAddress?: string;
+  statusCode: number;
+  responseTimeMs?: number;
+  deniedReason?: string;
+  createdAt: string;
+}
+
+export interface ApiKeyUsageSummary {
+  requests: number;
+  denied: number;
+  errors: number;
+  routes: Array<{ method: string; route: string; requests: number; denied: number; lastUsedAt: string }>;
+  statuses: Array<{ statusCode: number; requests: number }>;
+}
+
+export interface ApiKeyUsageFilters {
+  days?: number;
+  deniedOnly?: boolean;
+  limit?: number;
+}
+
+const WILDCARD_PERMISSION = '*';
+const RATE_LIMIT_WINDOW_SECONDS = 60;
+const DEFAULT_USAGE_RETENTION_DAYS = 90;
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const MAX_PATH_LENGTH = 2000;
+
+// What each resource of the 1C API covers, for the permission descriptions
+const RESOURCE_LABELS: Record<string, string> = {
+  admin: 'analytics and 1C sync logs',
+  branches: 'branches and branch servers',
+  customers: 'customers and loyalty points',
+  employees: 'employees and time logs',
+  inventory: 'branch stock levels and stock movements',
+  products: 'products, categories, images and prices',
+  transactions: 'transactions, transaction items and payments'
+};
+
+// Permissions whose routes do not fit "Read ..." / "Create, update and delete ..."
+const PERMISSION_DESCRIPTIONS: Record<string, string> = {
+  'admin:write': 'Record and clean up 1C sync logs'
+};
+
+// =================================================================
+// API KEY SERVICE
+// =================================================================
+
+/**
+ * API Key Service
+ *
+ * Everything behind the scopes of 1C API keys beyond their permissions: the permission catalogue
+ * generated from the routes themselves, IP ranges, per-key rate limits and the usage audit trail in
+ * api_key_usage. Rate limits are counted in Redis so they hold across chain-core instances, and in
+ * memory while Redis is unavailable.
+ */
+export class ApiKeyService {
+  private static catalogue: PermissionCatalogue | null = null;
+  private static timer: NodeJS.Timeout | null = null;
+  private static localWindows = new Map<string, { count: number; resetTime: number }>();
+
+  // =================================================================
+  // PERMISSION CATALOGUE
+  // =================================================================
+
+  /**
+   * Every route mounted under basePath with the permission and branch scope it requires.
+   * Routes only need requirePermission() to show up, so the catalogue cannot drift from the API.
+   */
+  static getPermissionCatalogue(basePath: string, mounts: Array<[string, Router]>): PermissionCatalogue {
+    if (this.catalogue) {
+      return this.catalogue;
+    }
+
+    const routes: CatalogueRoute[] = [];
+    for (const [prefix, router] of mounts) {
+      for (const layer of (router as any).stack as any[]) {
+        const check = layer.route?.stack
+          .map((routeLayer: any) => routeLayer.handle.permissionCheck as PermissionCheck | undefined)
+          .find(Boolean);
+        if (!check) {
+          continue;
+        }
+
+        const path = basePath + prefix + (layer.route.path === '/' ? '' : layer.route.path);
+        for (const method of Object.keys(layer.route.methods)) {
+          routes.push({ method: method.toUpperCase(), path, permission: check.permission, branchScope: check.branchScope });
+        }
+      }
+    }
+
+    const names = [...new Set(routes.map(route => route.permission))].sort();
+    this.catalogue = {
+      permissions: [
+        ...names.map(name => ({
+          name,
+          description: this.describePermission(name),
+          routes: routes.filter(route => route.permission === name)
+        })),
+        { name: WILDCARD_PERMISSION, description: 'All permissions (admin)', routes: [] }
+      ],
+      routes
+    };
+    return this.catalogue;
+  }
+
+  /**
+   * Permissions of the list that are not in the catalogue
+   */
+  static findUnknownPermissions(catalogue: PermissionCatalogue, permissions: string[]): string[] {
+    const known = new Set(catalogue.permissions.map(permission => permission.name));
+    return permissions.filter(permission => !known.has(permission));
+  }
+
+  // =================================================================
+  // IP RANGES
+  // =================================================================
+
+  /**
+   * Normalize "10.0.0.0/8", "203.0.113.7" or "2001:db8::/32" to CIDR notation; null when malformed
+   */
+  static normalizeIpRange(range: string): string | null {
+    const [address, prefix, ...rest] = range.trim().split('/');
+    const family = isIP(address);
+    if (!family || rest.length > 0) {
+      return null;
+    }
+
+    const maxPrefix = family === 4 ? 32 : 128;
+    if (prefix === undefined) {
+      return `${address}/${maxPrefix}`;
+    }
+    if (!/^\d+$/.test(prefix) || parseInt(prefix) > maxPrefix) {
+      return null;
+    }
+    return `${address}/${parseInt(prefix)}`;
+  }
+
+  /**
+   * Whether the client address is inside one of the ranges; an empty list allows any address
+   */
+  static isIpAllowed(ipAddress: string | undefined, ranges: string[]): boolean {
+    if (ranges.length === 0) {
+      return true;
+    }
+
+    const address = this.normalizeIp(ipAddress);
+    const family = isIP(address);
+    if (!family) {
+      return false;
+    }
+
+    const blockList = new BlockList();
+    for (const range of ranges) {
+      const cidr = this.normalizeIpRange(range);
+      if (!cidr) {
+        continue;
+      }
+      const [network, prefix] = cidr.split('/');
+      blockList.addSubnet(network, parseInt(prefix), isIP(network) === 4 ? 'ipv4' : 'ipv6');
+    }
+    return blockList.check(address, family === 4 ? 'ipv4' : 'ipv6');
+  }
+
+  // IPv4 clients of a dual-stack server show up as ::ffff:a.b.c.d
+  static normalizeIp(ipAddress: string | undefined): string {
+    return (ipAddress || '').replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+  }
+
+  // =================================================================
+  // RATE LIMITS
+  // =================================================================
+
+  /**
+   * Count one request against the per-minute limit of the key
+   */
+  static async consumeRateLimit(apiKeyId: string, limit: number): Promise<RateLimitResult> {
+    const redis = RedisManager.getInstance();
+    if (redis.isConnectionHealthy()) {
+      try {
+        const result = await redis.rateLimit(`api_key_rate:${apiKeyId}`, limit, RATE_LIMIT_WINDOW_SECONDS);
+        return { ...result, limit };
+      } catch (error) {
+        console.warn('⚠️ API key rate limit check failed, counting locally:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    const now = Date.now();
+    let window = this.localWindows.get(apiKeyId);
+    if (!window || window.resetTime <= now) {
+      window = { count: 0, resetTime: now + RATE_LIMIT_WINDOW_SECONDS * 1000 };
+      this.localWindows.set(apiKeyId, window);
+    }
+    window.count++;
+
+    return {
+      allowed: window.count <= limit,
+      limit,
+      remaining: Math.max(0, limit - window.count),
+      resetTime: window.resetTime
+    };
+  }
+
+  // =================================================================
+  // USAGE AUDIT TRAIL
+  // =================================================================
+
+  /**
+   * Log a finished request. Only requests the key was allowed to make count as its usage and
+   * move last_used_at; refused ones are kept in the log with their reason.
+   */
+  static async recordUsage(usage: ApiKeyUsageInput): Promise<void> {
+    await DatabaseManager.transaction(async (client) => {
+      await client.query(`
+        INSERT INTO api_key_usage (
+          api_key_id, method, route, path, permission, branch_codes,
+          ip_address, status_code, response_time_ms, denied_reason
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      `, [
+        usage.apiKeyId,
+        usage.method,
+        usage.route || null,
+        usage.path.slice(0, MAX_PATH_LENGTH),
+        usage.permission || null,
+        usage.branchCodes,
+        usage.ipAddress || null,
+        usage.statusCode,
+        Math.round(usage.responseTimeMs),
+        usage.deniedReason || null
+      ]);
+
+      if (!usage.deniedReason) {
+        await client.query(`
+          UPDATE api_keys
+          SET last_used_at = NOW(), last_used_ip = $2, usage_count = usage_count + 1
+          WHERE id = $1
+        `, [usage.apiKeyId, usage.ipAddress || null]);
+      }
+    });
+  }
+
+  /**
+   * Recent requests of a key and a summary per route and status over the last `days` days
+   */
+  static async getUsage(
+    apiKeyId: string,
+    filters: ApiKeyUsageFilters = {}
+  ): Promise<{ summary: ApiKeyUsageSummary; entries: ApiKeyUsageEntry[] }> {
+    const key = await DatabaseManager.query('SELECT id FROM api_keys WHERE id = $1', [apiKeyId]);
+    if (key.rows.length === 0) {
+      throw createError('API key not found', 404);
+    }
+
+    const days = filters.days || 7;
+    const [entries, totals, routes, statuses] = await Promise.all([
+      DatabaseManager.query(`
+        SELECT * FROM api_key_usage
+        WHERE api_key_id = $1
+          AND created_at > NOW() - $2::int * INTERVAL '1 day'
+          AND ($3::boolean IS NOT TRUE OR denied_reason IS NOT NULL)
+        ORDER BY created_at DESC
+        LIMIT $4
+      `, [apiKeyId, days, filters.deniedOnly || false, filters.limit || 100]),
+      DatabaseManager.query(`
+        SELECT
+          COUNT(*) AS requests,
+          COUNT(*) FILTER (WHERE denied_reason IS NOT NULL) AS denied,
+          COUNT(*) FILTER (WHERE status_code >= 500) AS errors
+        FROM api_key_usage
+        WHERE api_key_id = $1 AND created_at > NOW() - $2::int * INTERVAL '1 day'
+      `, [apiKeyId, days]),
+      DatabaseManager.query(`
+        SELECT
+          method, COALESCE(route, path) AS route,
+          COUNT(*) AS requests,
+          COUNT(*) FILTER (WHERE denied_reason IS NOT NULL) AS denied,
+          MAX(created_at) AS last_used_at
+        FROM api_key_usage
+        WHERE api_key_id = $1 AND created_at > NOW() - $2::int * INTERVAL '1 day'
+        GROUP BY method, COALESCE(route, path)
+        ORDER BY requests DESC
+        LIMIT 50
+      `, [apiKeyId, days]),
+      DatabaseManager.query(`
+        SELECT status_code, COUNT(*) AS requests
+        FROM api_key_usage
+        WHERE api_key_id = $1 AND created_at > NOW() - $2::int * INTERVAL '1 day'
+        GROUP BY status_code
+        ORDER BY status_code
+      `, [apiKeyId, days])
+    ]);
+
+    const total = totals.rows[0];
+    return {
+      summary: {
+        requests: parseInt(total.requests),
+        denied: parseInt(total.denied),
+        errors: parseInt(total.errors),
+        routes: routes.rows.map((row: any) => ({
+          method: row.method,
+          route: row.route,
+          requests: parseInt(row.requests),
+          denied: parseInt(row.denied),
+          lastUsedAt: row.last_used_at
+        })),
+        statuses: statuses.rows.map((row: any) => ({ statusCode: row.status_code, requests: parseInt(row.requests) }))
+      },
+      entries: entries.rows.map(this.mapUsage)
+    };
+  }
+
+  /**
+   * Delete audit rows older than the retention period
+   */
+  static async purgeUsage(retentionDays: number = this.retentionDays()): Promise<number> {
+    const result = await DatabaseManager.query(`
+      DELETE FROM api_key_usage WHERE created_at < NOW() - $1::int * INTERVAL '1 day'
+    `, [retentionDays]);
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Purge old usage rows now and every 6 hours
+   */
+  static start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.run(), PURGE_INTERVAL_MS);
+    this.run();
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private static run(): void {
+    this.purgeUsage()
+      .catch(error => console.warn('⚠️ API key usage purge failed:', error.message));
+  }
+
+  private static retentionDays(): number {
+    return parseInt(process.env.API_KEY_USAGE_RETENTION_DAYS || '') || DEFAULT_USAGE_RETENTION_DAYS;
+  }
+
+  private static describePermission(permission: string): string {
+    if (PERMISSION_DESCRIPTIONS[permission]) {
+      return PERMISSION_DESCRIPTIONS[permission];
+    }
+
+    const [resource, action] = permission.split(':');
+    const label = RESOURCE_LABELS[resource] || resource;
+    if (action === 'read') {
+      return `Read ${label}`;
+    }
+    if (action === 'write') {
+      return `Create, update and delete ${label}`;
+    }
+    return `${action} ${label}`;
+  }
+
+  private static mapUsage(row: any): ApiKeyUsageEntry {
+    return {
+      id: row.id,
+      method: row.method,
+      route: row.route || undefined,
+      path: row.path,
+      permission: row.permission || undefined,
+      branchCodes: row.branch_codes || [],
+      ipAddress: row.ip_address || undefined,
+      statusCode: row.status_code,
+      responseTimeMs: row.response_time_ms ?? undefined,
+      deniedReason: row.denied_reason || undefined,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -0,0 +1,226 @@
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+
+// =================================================================
+// INTERFACES AND TYPES
+// =================================================================
+
+type Queryable = Pick<PoolClient, 'query'> | typeof DatabaseManager;
+
+export const COSTING_METHODS = ['weighted_average', 'fifo'] as const;
+
+export type CostingMethod = typeof COSTING_METHODS[number];
+
+export interface ReceiveStockInput {
+  branchId: string;
+  productId: string;
+  quantity: number;
+  // Purchase cost per unit; returns and adjustments without one come in at the current cost
+  unitCost?: number | null;
+  movementType: string;
+  movementId?: string | null;
+}
+
+export interface IssueStockInput {
+  branchId: string;
+  productId: string;
+  quantity: number;
+}
+
+export interface IssuedCost {
+  method: CostingMethod;
+  unitCost: number;
+  costAmount: number;
+}
+
+export interface CostLayer {
+  id: string;
+  remainingQuantity: number;
+  unitCost: number;
+}
+
+export interface LayerConsumption {
+  layers: Array<{ layerId: string; quantity: number; unitCost: number }>;
+  // Quantity not covered by any layer, e.g. opening stock that was never received with a cost
+  shortfall: number;
+}
+
+// =================================================================
+// COSTING SERVICE
+// =================================================================
+
+/**
+ * Costing Service
+ *
+ * Values branch stock from the movements that bring it in. Every incoming movement adds
+ * a cost layer and updates the branch's moving weighted-average cost; every outgoing
+ * movement consumes the oldest layers. The branch costing method decides which of the
+ * two prices a sale: FIFO uses the layers consumed, weighted average uses the average.
+ * Stock never received with a cost is priced at the branch or standard product cost.
+ */
+export class CostingService {
+  static async getCostingMethod(branchId: string, db: Queryable = DatabaseManager): Promise<CostingMethod> {
+    const result = await db.query('SELECT costing_method FROM branches WHERE id = $1', [branchId]);
+    return result.rows[0]?.costing_method === 'fifo' ? 'fifo' : 'weighted_average';
+  }
+
+  /**
+   * Add received stock as a cost layer and fold it into the weighted-average cost.
+   * Call before branch_inventory.quantity_in_stock is increased. Returns the unit cost used.
+   */
+  static async receive(input: ReceiveStockInput, db: Queryable = DatabaseManager): Promise<number> {
+    if (input.quantity <= 0) {
+      return 0;
+    }
+
+    const current = await this.getCurrentCost(input.branchId, input.productId, db);
+    const unitCost = input.unitCost ?? current.averageCost;
+    const averageCost = this.weightedAverage(current.quantityOnHand, current.averageCost, input.quantity, unitCost);
+
+    await db.query(`
+      INSERT INTO inventory_cost_layers (
+        branch_id, product_id, stock_movement_id, movement_type, unit_cost, quantity, remaining_quantity
+      ) VALUES ($1, $2, $3, $4, $5, $6, $6)
+    `, [input.branchId, input.productId, input.movementId || null, input.movementType, unitCost, input.quantity]);
+
+    await db.query(`
+      INSERT INTO branch_inventory (branch_id, product_id, average_cost, updated_at)
+      VALUES ($1, $2, $3, NOW())
+      ON CONFLICT (branch_id, product_id)
+      DO UPDATE SET average_cost = EXCLUDED.average_cost, updated_at = NOW()
+    `, [input.branchId, input.productId, averageCost]);
+
+    return unitCost;
+  }
+
+  /**
+   * Take stock out of the oldest cost layers and price it by the branch costing method.
+   * The weighted-average cost does not change when stock leaves.
+   */
+  static async issue(input: IssueStockInput, db: Queryable = DatabaseManager): Promise<IssuedCost> {
+    const method = await this.getCostingMethod(input.branchId, db);
+    const current = await this.getCurrentCost(input.branchId, input.productId, db);
+
+    if (input.quantity <= 0) {
+      return { method, unitCost: current.averageCost, costAmount: 0 };
+    }
+
+    const layersResult = await db.query(`
+      SELECT id, remaining_quantity, unit_cost
+      FROM inventory_cost_layers
+      WHERE branch_id = $1 AND product_id = $2 AND remaining_quantity > 0
+      ORDER BY received_at ASC, created_at ASC
+      FOR UPDATE
+    `, [input.branchId, input.productId]);
+
+    const consumption = this.consumeLayers(
+      layersResult.rows.map((row: any) => ({
+        id: row.id,
+        remainingQuantity: parseFloat(row.remaining_quantity),
+        unitCost: parseFloat(row.unit_cost)
+      })),
+      input.quantity
+    );
+
+    if (consumption.layers.length > 0) {
+      await db.query(`
+        UPDATE inventory_cost_layers icl
+        SET remaining_quantity = icl.remaining_quantity - consumed.quantity
+        FROM UNNEST($1::uuid[], $2::numeric[]) AS consumed(id, quantity)
+        WHERE icl.id = consumed.id
+      `, [consumption.layers.map(layer => layer.layerId), consumption.layers.map(layer => layer.quantity)]);
+    }
+
+    const costAmount = method === 'fifo'
+      ? consumption.layers.reduce((sum, layer) => sum + layer.quantity * layer.unitCost, 0)
+        + consumption.shortfall * current.averageCost
+      : input.quantity * current.averageCost;
+
+    return {
+      method,
+      unitCost: this.round(costAmount / input.quantity, 4),
+      costAmount: this.round(costAmount, 2)
+    };
+  }
+
+  /**
+   * Cost a signed stock change: positive quantities are received, negative ones issued.
+   * Returns the unit cost of the movement.
+   */
+  static async recordMovement(
+    input: Omit<ReceiveStockInput, 'quantity'> & { quantityChange: number },
+    db: Queryable = DatabaseManager
+  ): Promise<number> {
+    if (input.quantityChange > 0) {
+      return this.receive({ ...input, quantity: input.quantityChange }, db);
+    }
+
+    const issued = await this.issue({
+      branchId: input.branchId,
+      productId: input.productId,
+      quantity: -input.quantityChange
+    }, db);
+    return issued.unitCost;
+  }
+
+  /**
+   * Split an outgoing quantity over cost layers, oldest first (no database access)
+   */
+  static consumeLayers(layers: CostLayer[], quantity: number): LayerConsumption {
+    const consumed: LayerConsumption['layers'] = [];
+    let outstanding = quantity;
+
+    for (const layer of layers) {
+      if (outstanding <= 0) break;
+
+      const taken = Math.min(layer.remainingQuantity, outstanding);
+      if (taken <= 0) continue;
+
+      consumed.push({ layerId: layer.id, quantity: taken, unitCost: layer.unitCost });
+      outstanding = this.round(outstanding - taken, 3);
+    }
+
+    return { layers: consumed, shortfall: Math.max(outstanding, 0) };
+  }
+
+  /**
+   * Moving weighted-average cost after a receipt (no database access). Stock already
+   * oversold to below zero carries no value into the new average.
+   */
+  static weightedAverage(quantityOnHand: number, averageCost: number, quantityReceived: number, unitCost: number): number {
+    const onHand = Math.max(quantityOnHand, 0);
+    const total = onHand + quantityReceived;
+
+    if (total <= 0) {
+      return unitCost;
+    }
+
+    return this.round((onHand * averageCost + quantityReceived * unitCost) / total, 4);
+  }
+
+  // Stock on hand and the cost it is carried at: weighted average, else branch or standard cost
+  private static async getCurrentCost(
+    branchId: string,
+    productId: string,
+    db: Queryable
+  ): Promise<{ quantityOnHand: number; averageCost: number }> {
+    const result = await db.query(`
+      SELECT bi.quantity_in_stock, COALESCE(bi.average_cost, bpp.cost, p.cost, 0) as average_cost
+      FROM products p
+      LEFT JOIN branch_inventory bi ON bi.product_id = p.id AND bi.branch_id = $1
+      LEFT JOIN branch_product_pricing bpp ON bpp.product_id = p.id AND bpp.branch_id = $1
+      WHERE p.id = $2
+    `, [branchId, productId]);
+
+    const row = result.rows[0];
+    return {
+      quantityOnHand: parseFloat(row?.quantity_in_stock || '0'),
+      averageCost: parseFloat(row?.average_cost || '0')
+    };
+  }
+
+  private static round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+  }
+}
@@ -0,0 +1,115 @@
+import { LicenseClient, LicenseFeature, LicenseState, LicenseStore } from '@rockpoint/license-client';
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+
+export type { LicenseFeature, LicenseSource, LicenseState, LicenseStatus } from '@rockpoint/license-client';
+
+type Queryable = Pick<PoolClient, 'query'> | typeof DatabaseManager;
+
+// License key, cached token, license file and revocation list live in system_settings
+const systemSettingsStore: LicenseStore = {
+  async read(keys) {
+    const result = await DatabaseManager.query('SELECT key, value FROM system_settings WHERE key = ANY($1)', [keys]);
+    return new Map<string, string>(result.rows.map((row: any) => [row.key, row.value]));
+  },
+
+  async write(values) {
+    for (const [key, value, description] of values) {
+      await DatabaseManager.query(
+        `INSERT INTO system_settings (key, value, description)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()`,
+        [key, value, description]
+      );
+    }
+  },
+
+  async remove(keys) {
+    await DatabaseManager.query('DELETE FROM system_settings WHERE key = ANY($1)', [keys]);
+  }
+};
+
+/**
+ * License Service
+ *
+ * chain-core's side of the shared license client (@rockpoint/license-client): it activates
+ * as chain-core, keeps the license in system_settings and limits branches to the licensed
+ * maxBranches. Features such as api-access and analytics gate their routes. Without a
+ * license key chain-core runs unrestricted outside production.
+ */
+export class LicenseService {
+  private static readonly client = new LicenseClient({ appType: 'chain-core', store: systemSettingsStore });
+
+  static getMachineId(): string {
+    return this.client.getMachineId();
+  }
+
+  static getLicenseKey(): Promise<string> {
+    return this.client.getLicenseKey();
+  }
+
+  static getState(now?: Date): Promise<LicenseState> {
+    return this.client.getState(now);
+  }
+
+  static isUsable(state: LicenseState): boolean {
+    return this.client.isUsable(state);
+  }
+
+  static hasFeature(feature: LicenseFeature): Promise<boolean> {
+    return this.client.hasFeature(feature);
+  }
+
+  static assertFeature(feature: LicenseFeature): Promise<void> {
+    return this.client.assertFeature(feature);
+  }
+
+  static requireFeature(feature: LicenseFeature) {
+    return this.client.requireFeature(feature);
+  }
+
+  static installLicenseFile(content: string): Promise<LicenseState> {
+    return this.client.installLicenseFile(content);
+  }
+
+  static removeLicenseFile(): Promise<LicenseState> {
+    return this.client.removeLicenseFile();
+  }
+
+  static activate(licenseKey?: string): Promise<LicenseState> {
+    return this.client.activate(licenseKey);
+  }
+
+  static refresh(): Promise<LicenseState> {
+    return this.client.refresh();
+  }
+
+  static start(intervalMs?: number): void {
+    this.client.start(intervalMs);
+  }
+
+  static stop(): void {
+    this.client.stop();
+  }
+
+  /**
+   * Refuse creating a branch beyond the licensed maxBranches; a second branch also needs
+   * the multi-branch feature
+   */
+  static async assertBranchCapacity(db: Queryable = DatabaseManager): Promise<void> {
+    const state = await this.client.requireUsableState('Branches cannot be created');
+    if (!state) {
+      return;
+    }
+
+    const result = await db.query('SELECT COUNT(*) AS count FROM branches WHERE is_active = true');
+    const branches = parseInt(result.rows[0].count);
+    if (branches >= 1 && !state.features.includes('multi-branch')) {
+      throw createError('License does not include the "multi-branch" feature', 403);
+    }
+    if (branches >= (state.maxBranches ?? 0)) {
+      throw createError(`License allows ${state.maxBranches} branches and ${branches} are active`, 403);
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+
+// =================================================================
+// INTERFACES AND TYPES
+// =================================================================
+
+export type LoyaltyEntryType = 'earn' | 'redeem' | 'reversal' | 'adjustment';
+
+export interface CustomerIdentifier {
+  id?: string;
+  card?: string;
+  phone?: string;
+}
+
+export interface BranchLedgerEntry {
+  id: string; // loyalty_ledger.id at the branch
+  customer_id: string;
+  loyalty_card_number?: string;
+  phone?: string;
+  name?: string;
+  transaction_id?: string;
+  entry_type: LoyaltyEntryType;
+  points: number;
+  description?: string;
+  created_at: string;
+}
+
+export interface BranchLedgerResult {
+  id: string;
+  status: 'applied' | 'duplicate' | 'error';
+  error?: string;
+  customer_id?: string;
+  loyalty_points?: number;
+}
+
+export interface PointsAdjustment {
+  customerId: string;
+  operation: 'add' | 'subtract' | 'set';
+  points: number;
+  reason?: string;
+  source: 'onec' | 'admin';
+  reference?: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// =================================================================
+// LOYALTY SERVICE
+// =================================================================
+
+/**
+ * Loyalty Service
+ *
+ * Keeps the chain-wide loyalty balance of each customer. Branches earn and spend
+ * points locally and push their ledger entries here; each entry is applied once
+ * (per branch and entry ID), so branches can resend after a timeout. A balance can
+ * go below zero when two offline branches spend the same points - the history shows
+ * where that happened.
+ */
+export class LoyaltyService {
+  /**
+   * Find an active customer by ID, loyalty card or phone (digits only are compared)
+   */
+  static async findCustomer(
+    identifier: CustomerIdentifier,
+    db: Pick<PoolClient, 'query'> | typeof DatabaseManager = DatabaseManager,
+    forUpdate = false
+  ): Promise<any | null> {
+    const lock = forUpdate ? ' FOR UPDATE' : '';
+
+    if (identifier.id && UUID_PATTERN.test(identifier.id)) {
+      const result = await db.query(`SELECT * FROM customers WHERE id = $1${lock}`, [identifier.id]);
+      if (result.rows[0]) return result.rows[0];
+    }
+
+    if (identifier.card) {
+      const result = await db.query(`SELECT * FROM customers WHERE loyalty_card_number = $1${lock}`, [identifier.card]);
+      if (result.rows[0]) return result.rows[0];
+    }
+
+    if (identifier.phone) {
+      const digits = identifier.phone.replace(/\D/g, '');
+      if (digits.length > 0) {
+        const result = await db.query(
+          `SELECT * FROM customers
+           WHERE is_active = true AND regexp_replace(phone, '[^0-9]', '', 'g') = $1
+           ORDER BY updated_at DESC
+           LIMIT 1${lock}`,
+          [digits]
+        );
+        if (result.rows[0]) return result.rows[0];
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Apply ledger entries pushed by a branch, each in its own transaction so one bad
+   * entry does not hold back the rest
+   */
+  static async applyBranchEntries(branchId: string, entries: BranchLedgerEntry[]): Promise<BranchLedgerResult[]> {
+    const results: BranchLedgerResult[] = [];
+
+    for (const entry of entries) {
+      try {
+        results.push(await DatabaseManager.transaction(client => this.applyBranchEntry(client, branchId, entry)));
+      } catch (error: any) {
+        results.push({ id: entry.id, status: 'error', error: error.message });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Change a balance from 1C or the main office and record why
+   */
+  static async adjustPoints(adjustment: PointsAdjustment): Promise<{ customer: any; previousPoints: number; newPoints: number }> {
+    return DatabaseManager.transaction(async (client) => {
+      const customer = await this.findCustomer({ id: adjustment.customerId, card: adjustment.customerId }, client, true);
+      if (!customer) {
+        throw createError('Customer not found', 404);
+      }
+
+      const previousPoints = customer.loyalty_points || 0;
+      let newPoints = previousPoints;
+      switch (adjustment.operation) {
+        case 'add':
+          newPoints += adjustment.points;
+          break;
+        case 'subtract':
+          newPoints = Math.max(0, newPoints - adjustment.points);
+          break;
+        case 'set':
+          newPoints = Math.max(0, adjustment.points);
+          break;
+      }
+
+      await client.query(
+        'UPDATE customers SET loyalty_points = $1, updated_at = NOW() WHERE id = $2',
+        [newPoints, customer.id]
+      );
+
+      if (newPoints !== previousPoints) {
+        await client.query(
+          `INSERT INTO loyalty_transactions
+           (customer_id, transaction_reference, entry_type, points, balance_after, description, source)
+           VALUES ($1, $2, 'adjustment', $3, $4, $5, $6)`,
+          [customer.id, adjustment.reference ?? null, newPoints - previousPoints, newPoints, adjustment.reason ?? null, adjustment.source]
+        );
+      }
+
+      return { customer, previousPoints, newPoints };
+    });
+  }
+
+  /**
+   * Points history of a customer across all branches, newest first
+   */
+  static async getHistory(customerId: string, limit = 50, offset = 0): Promise<{ entries: any[]; total: number }> {
+    const [entriesResult, countResult] = await Promise.all([
+      DatabaseManager.query(
+        `SELECT lt.*, b.name AS branch_name, b.code AS branch_code
+         FROM loyalty_transactions lt
+         LEFT JOIN branches b ON lt.branch_id = b.id
+         WHERE lt.customer_id = $1
+         ORDER BY lt.created_at DESC
+         LIMIT $2 OFFSET $3`,
+        [customerId, limit, offset]
+      ),
+      DatabaseManager.query('SELECT COUNT(*) FROM loyalty_transactions WHERE customer_id = $1', [customerId])
+    ]);
+
+    return { entries: entriesResult.rows, total: parseInt(countResult.rows[0].count) };
+  }
+
+  private static async applyBranchEntry(client: PoolClient, branchId: string, entry: BranchLedgerEntry): Promise<BranchLedgerResult> {
+    let customer = await this.findCustomer(
+      { id: entry.customer_id, card: entry.loyalty_card_number, phone: entry.phone },
+      client,
+      true
+    );
+
+    // Customers registered at a branch become known chain-wide with their first points
+    if (!customer) {
+      if (!entry.name) {
+        throw createError('Customer not found', 404);
+      }
+      const created = await client.query(
+        `INSERT INTO customers (id, name, phone, loyalty_card_number, loyalty_points)
+         VALUES ($1, $2, $3, $4, 0)
+         RETURNING *`,
+        [entry.customer_id, entry.name, entry.phone ?? null, entry.loyalty_card_number ?? null]
+      );
+      customer = created.rows[0];
+    }
+
+    const previousPoints = customer.loyalty_points || 0;
+    const newPoints = previousPoints + entry.points;
+
+    const inserted = await client.query(
+      `INSERT INTO loyalty_transactions
+       (customer_id, branch_id, branch_entry_id, transaction_reference, entry_type, points, balance_after, description, source, occurred_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'branch', $9)
+       ON CONFLICT (branch_id, branch_entry_id) DO NOTHING
+       RETURNING id`,
+      [customer.id, branchId, entry.id, entry.transaction_id ?? null, entry.entry_type, entry.points, newPoints, entry.description ?? null, entry.created_at]
+    );
+
+    if (inserted.rows.length === 0) {
+      return { id: entry.id, status: 'duplicate', customer_id: customer.id, loyalty_points: previousPoints };
+    }
+
+    await client.query(
+      'UPDATE customers SET loyalty_points = $1, updated_at = NOW() WHERE id = $2',
+      [newPoints, customer.id]
+    );
+
+    return { id: entry.id, status: 'applied', customer_id: customer.id, loyalty_points: newPoints };
+  }
+}
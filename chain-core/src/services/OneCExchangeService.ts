@@ -0,0 +1,766 @@
+import axios from 'axios';
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import { BranchScope } from './PriceScheduleService';
+
+// =================================================================
+// INTERFACES AND TYPES
+// =================================================================
+
+type Queryable = Pick<PoolClient, 'query'> | typeof DatabaseManager;
+
+// Pushed in this order: payments refer to sales that must already be in 1C
+export const ONEC_EXPORT_TYPES = ['transactions', 'payments', 'inventory', 'stock_movements'] as const;
+
+export type OneCExportType = typeof ONEC_EXPORT_TYPES[number];
+
+export interface OneCExchangeSettings {
+  url: string;
+  username: string;
+  password: string;
+  batchSize: number;
+  maxAttempts: number;
+}
+
+export interface OneCExportBatchResult {
+  type: OneCExportType;
+  logId: string;
+  filename: string;
+  records: number;
+  attempts: number;
+  success: boolean;
+  errorMessage?: string;
+}
+
+export interface OneCExportResult {
+  configured: boolean;
+  exported: number;
+  failed: number;
+  batches: OneCExportBatchResult[];
+}
+
+interface ExportBatch {
+  ids: string[];
+  // Balances are only marked exported if they did not change while the batch was in flight;
+  // updated_at as text keeps the microseconds a Date would drop
+  versions?: string[];
+  xml: string;
+}
+
+// CommerceML exchange session opened with mode=checkauth and mode=init
+interface ExchangeSession {
+  cookie: string;
+  fileLimit: number;
+}
+
+const SETTING_KEYS: Record<keyof OneCExchangeSettings, string> = {
+  url: 'onec_exchange_url',
+  username: 'onec_exchange_username',
+  password: 'onec_exchange_password',
+  batchSize: 'onec_exchange_batch_size',
+  maxAttempts: 'onec_exchange_max_attempts'
+};
+
+const SCHEMA_VERSION = '2.10';
+const DEFAULT_BATCH_SIZE = 500;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const MAX_BATCHES_PER_RUN = 20;
+const MAX_IMPORT_POLLS = 60;
+const REQUEST_TIMEOUT_MS = 30000;
+const RETRY_DELAY_MS = 2000;
+
+// Business operations of the CommerceML document schema
+const MOVEMENT_OPERATIONS: Record<string, string> = {
+  sale: 'Отпуск товара',
+  return: 'Возврат товара',
+  purchase: 'Поступление товара'
+};
+
+// =================================================================
+// 1C EXCHANGE SERVICE
+// =================================================================
+
+/**
+ * 1C Exchange Service
+ *
+ * Pushes completed sales, their payments, branch stock balances and stock movements to 1C
+ * over the standard CommerceML exchange protocol (checkauth, init, file, import). Every
+ * batch is one exchange file and one export row in onec_sync_logs. Records are marked with
+ * onec_exported_at once 1C has imported the file; a batch that fails after its retries stays
+ * pending and goes out with the next run.
+ */
+export class OneCExchangeService {
+  private static delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  // =================================================================
+  // CONFIGURATION
+  // =================================================================
+
+  /**
+   * Exchange settings from system_settings, falling back to ONEC_EXCHANGE_* variables
+   */
+  static async getSettings(db: Queryable = DatabaseManager): Promise<OneCExchangeSettings> {
+    const result = await db.query('SELECT key, value FROM system_settings WHERE key = ANY($1)', [Object.values(SETTING_KEYS)]);
+    const config = new Map<string, string>(result.rows.map((row: any) => [row.key, row.value]));
+    const value = (field: keyof OneCExchangeSettings, env: string) => config.get(SETTING_KEYS[field]) || process.env[env] || '';
+
+    const batchSize = parseInt(value('batchSize', 'ONEC_EXCHANGE_BATCH_SIZE'));
+    const maxAttempts = parseInt(value('maxAttempts', 'ONEC_EXCHANGE_MAX_ATTEMPTS'));
+
+    return {
+      url: value('url', 'ONEC_EXCHANGE_URL').trim(),
+      username: value('username', 'ONEC_EXCHANGE_USERNAME'),
+      password: value('password', 'ONEC_EXCHANGE_PASSWORD'),
+      batchSize: batchSize > 0 ? batchSize : DEFAULT_BATCH_SIZE,
+      maxAttempts: maxAttempts > 0 ? maxAttempts : DEFAULT_MAX_ATTEMPTS
+    };
+  }
+
+  static async updateSettings(changes: Partial<OneCExchangeSettings>): Promise<OneCExchangeSettings> {
+    for (const [field, key] of Object.entries(SETTING_KEYS) as Array<[keyof OneCExchangeSettings, string]>) {
+      if (changes[field] === undefined) {
+        continue;
+      }
+
+      await DatabaseManager.query(
+        `INSERT INTO system_settings (key, value, description)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()`,
+        [key, String(changes[field]), `1C CommerceML exchange: ${field}`]
+      );
+    }
+
+    return this.getSettings();
+  }
+
+  /**
+   * Records waiting for the next push, per export type
+   */
+  static async getPendingCounts(scope: BranchScope = {}): Promise<Record<OneCExportType, number>> {
+    const counts = {} as Record<OneCExportType, number>;
+
+    for (const type of ONEC_EXPORT_TYPES) {
+      const params: any[] = [];
+      const { from, where } = this.pendingQuery(type, scope, params);
+      const result = await DatabaseManager.query(`SELECT COUNT(*) AS count FROM ${from} WHERE ${where}`, params);
+      counts[type] = parseInt(result.rows[0].count);
+    }
+
+    return counts;
+  }
+
+  // =================================================================
+  // EXPORT
+  // =================================================================
+
+  /**
+   * Push everything pending, type by type. A failed batch stops its own type only; payments
+   * wait for their sale, so they follow on the next run when sales failed.
+   */
+  static async exportAll(scope: BranchScope = {}, types: readonly OneCExportType[] = ONEC_EXPORT_TYPES): Promise<OneCExportResult> {
+    const settings = await this.getSettings();
+    const result: OneCExportResult = { configured: !!settings.url, exported: 0, failed: 0, batches: [] };
+    if (!settings.url) {
+      return result;
+    }
+
+    for (const type of ONEC_EXPORT_TYPES.filter(type => types.includes(type))) {
+      for (let batchNumber = 1; batchNumber <= MAX_BATCHES_PER_RUN; batchNumber++) {
+        const batch = await this.exportBatch(type, settings, scope, batchNumber);
+        if (!batch) {
+          break;
+        }
+
+        result.batches.push(batch);
+        if (!batch.success) {
+          result.failed += batch.records;
+          break;
+        }
+
+        result.exported += batch.records;
+        if (batch.records < settings.batchSize) {
+          break;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Build, push and log one batch; null when nothing of this type is pending
+   */
+  private static async exportBatch(
+    type: OneCExportType,
+    settings: OneCExchangeSettings,
+    scope: BranchScope,
+    batchNumber: number
+  ): Promise<OneCExportBatchResult | null> {
+    const batch = await this.buildBatch(type, settings.batchSize, scope);
+    if (!batch) {
+      return null;
+    }
+
+    const filename = `${type}_${this.formatFileTimestamp(new Date())}_${batchNumber}.xml`;
+    const logResult = await DatabaseManager.query(
+      `INSERT INTO onec_sync_logs (sync_type, direction, status, records_total, metadata, started_at)
+       VALUES ($1, 'export', 'in_progress', $2, $3, NOW())
+       RETURNING id`,
+      [type, batch.ids.length, JSON.stringify({ filename, batch: batchNumber })]
+    );
+    const logId = logResult.rows[0].id;
+
+    let attempts = 0;
+    let errorMessage: string | undefined;
+    try {
+      attempts = await this.pushWithRetry(settings, type, filename, batch.xml);
+      await this.markExported(type, batch);
+    } catch (error: any) {
+      attempts = error.attempts || attempts;
+      errorMessage = error.message;
+      console.error(`❌ 1C export of ${type} failed: ${error.message}`);
+    }
+
+    const success = !errorMessage;
+    await DatabaseManager.query(
+      `UPDATE onec_sync_logs
+       SET status = $1, records_processed = $2, records_failed = $3, error_message = $4,
+           metadata = metadata || $5::jsonb, completed_at = NOW()
+       WHERE id = $6`,
+      [
+        success ? 'completed' : 'failed',
+        success ? batch.ids.length : 0,
+        success ? 0 : batch.ids.length,
+        errorMessage || null,
+        JSON.stringify({ attempts }),
+        logId
+      ]
+    );
+
+    return { type, logId, filename, records: batch.ids.length, attempts, success, errorMessage };
+  }
+
+  private static async markExported(type: OneCExportType, batch: ExportBatch): Promise<void> {
+    if (type === 'inventory') {
+      // The update trigger moves updated_at to NOW() as well, so the balance counts as sent
+      // until it changes again
+      await DatabaseManager.query(
+        `UPDATE branch_inventory bi
+         SET onec_exported_at = NOW()
+         FROM unnest($1::uuid[], $2::timestamptz[]) AS exported(id, updated_at)
+         WHERE bi.id = exported.id AND bi.updated_at = exported.updated_at`,
+        [batch.ids, batch.versions]
+      );
+      return;
+    }
+
+    await DatabaseManager.query(
+      `UPDATE ${type} SET onec_exported_at = NOW() WHERE id = ANY($1::uuid[])`,
+      [batch.ids]
+    );
+  }
+
+  private static pendingQuery(type: OneCExportType, scope: BranchScope, params: any[]): { from: string; where: string } {
+    const conditions: string[] = [];
+    let from: string;
+    let alias: string;
+
+    switch (type) {
+      case 'transactions':
+        from = 'transactions t';
+        alias = 't';
+        conditions.push("t.onec_exported_at IS NULL", "t.status IN ('completed', 'refunded')");
+        break;
+      case 'payments':
+        from = 'payments p JOIN transactions t ON p.transaction_id = t.id';
+        alias = 't';
+        conditions.push("p.onec_exported_at IS NULL", "p.status IN ('completed', 'refunded')", 't.onec_exported_at IS NOT NULL');
+        break;
+      case 'inventory':
+        from = 'branch_inventory bi';
+        alias = 'bi';
+        conditions.push('(bi.onec_exported_at IS NULL OR bi.updated_at > bi.onec_exported_at)');
+        break;
+      case 'stock_movements':
+        from = 'stock_movements sm';
+        alias = 'sm';
+        conditions.push('sm.onec_exported_at IS NULL');
+        break;
+    }
+
+    if (scope.branchId) {
+      params.push(scope.branchId);
+      conditions.push(`${alias}.branch_id = $${params.length}`);
+    } else if (scope.excludeBranchIds && scope.excludeBranchIds.length > 0) {
+      params.push(scope.excludeBranchIds);
+      conditions.push(`${alias}.branch_id <> ALL($${params.length}::uuid[])`);
+    }
+
+    return { from, where: conditions.join(' AND ') };
+  }
+
+  private static async buildBatch(type: OneCExportType, limit: number, scope: BranchScope): Promise<ExportBatch | null> {
+    switch (type) {
+      case 'transactions':
+        return this.buildTransactionsBatch(limit, scope);
+      case 'payments':
+        return this.buildPaymentsBatch(limit, scope);
+      case 'inventory':
+        return this.buildInventoryBatch(limit, scope);
+      case 'stock_movements':
+        return this.buildMovementsBatch(limit, scope);
+    }
+  }
+
+  // =================================================================
+  // COMMERCEML DOCUMENTS
+  // =================================================================
+
+  private static async buildTransactionsBatch(limit: number, scope: BranchScope): Promise<ExportBatch | null> {
+    const params: any[] = [];
+    const { where } = this.pendingQuery('transactions', scope, params);
+    params.push(limit);
+
+    const result = await DatabaseManager.query(
+      `SELECT t.id, t.transaction_number, t.terminal_id, t.subtotal, t.tax_amount, t.discount_amount,
+              t.total_amount, t.status, COALESCE(t.completed_at, t.created_at) AS document_date,
+              b.code AS branch_code, b.name AS branch_name, b.currency,
+              c.id AS customer_id, c.name AS customer_name, c.phone AS customer_phone,
+              e.employee_id AS employee_code, e.name AS employee_name
+       FROM transactions t
+       JOIN branches b ON t.branch_id = b.id
+       LEFT JOIN customers c ON t.customer_id = c.id
+       LEFT JOIN employees e ON t.employee_id = e.id
+       WHERE ${where}
+       ORDER BY t.created_at, t.id
+       LIMIT $${params.length}`,
+      params
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const ids = result.rows.map((row: any) => row.id);
+    const itemsResult = await DatabaseManager.query(
+      `SELECT ti.transaction_id, ti.quantity, ti.unit_price, ti.original_price, ti.discount_amount,
+              ti.tax_rate, ti.tax_amount, ti.total_amount,
+              p.id AS product_id, p.onec_id, p.sku, p.name, p.unit_of_measure
+       FROM transaction_items ti
+       JOIN products p ON ti.product_id = p.id
+       WHERE ti.transaction_id = ANY($1::uuid[])
+       ORDER BY ti.created_at`,
+      [ids]
+    );
+
+    const documents = result.rows.map((row: any) => {
+      const items = itemsResult.rows.filter((item: any) => item.transaction_id === row.id);
+      const refunded = row.status === 'refunded';
+
+      return this.element('Документ', [
+        this.element('Ид', row.id),
+        this.element('Номер', row.transaction_number),
+        this.element('Дата', this.formatDate(row.document_date)),
+        this.element('Время', this.formatTime(row.document_date)),
+        this.element('ХозОперация', refunded ? 'Возврат товара' : 'Отпуск товара'),
+        this.element('Роль', 'Продавец'),
+        this.element('Валюта', row.currency),
+        this.element('Курс', '1'),
+        this.element('Сумма', this.formatAmount(row.total_amount)),
+        row.customer_id
+          ? this.element('Контрагенты', [
+            this.element('Контрагент', [
+              this.element('Ид', row.customer_id),
+              this.element('Наименование', row.customer_name),
+              this.element('Роль', 'Покупатель'),
+              row.customer_phone ? this.element('Контакты', [
+                this.element('Контакт', [
+                  this.element('Тип', 'Телефон рабочий'),
+                  this.element('Значение', row.customer_phone)
+                ])
+              ]) : ''
+            ])
+          ])
+          : '',
+        this.taxes(row.tax_amount),
+        this.element('Товары', items.map((item: any) => this.element('Товар', [
+          this.element('Ид', item.onec_id || item.product_id),
+          this.element('Артикул', item.sku),
+          this.element('Наименование', item.name),
+          this.element('БазоваяЕдиница', item.unit_of_measure),
+          this.element('ЦенаЗаЕдиницу', this.formatAmount(item.unit_price)),
+          this.element('Количество', this.formatQuantity(item.quantity)),
+          this.element('Сумма', this.formatAmount(item.total_amount)),
+          parseFloat(item.discount_amount) > 0
+            ? this.element('Скидки', [
+              this.element('Скидка', [
+                this.element('Сумма', this.formatAmount(item.discount_amount)),
+                this.element('УчтеноВСумме', 'true')
+              ])
+            ])
+            : '',
+          this.taxes(item.tax_amount, item.tax_rate)
+        ]))),
+        this.requisites([
+          ['Склад', row.branch_code],
+          ['Магазин', row.branch_name],
+          ['Касса', row.terminal_id],
+          ['Кассир', row.employee_code ? `${row.employee_code} ${row.employee_name}` : null],
+          ['Статус', row.status]
+        ])
+      ]);
+    });
+
+    return { ids, xml: this.document(documents) };
+  }
+
+  private static async buildPaymentsBatch(limit: number, scope: BranchScope): Promise<ExportBatch | null> {
+    const params: any[] = [];
+    const { where } = this.pendingQuery('payments', scope, params);
+    params.push(limit);
+
+    const result = await DatabaseManager.query(
+      `SELECT p.id, p.method, p.amount, p.reference_number, p.status, p.processed_at,
+              t.id AS transaction_id, t.transaction_number, t.customer_id,
+              b.code AS branch_code, b.currency
+       FROM payments p
+       JOIN transactions t ON p.transaction_id = t.id
+       JOIN branches b ON t.branch_id = b.id
+       WHERE ${where}
+       ORDER BY p.created_at, p.id
+       LIMIT $${params.length}`,
+      params
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const documents = result.rows.map((row: any) => {
+      const cash = row.method === 'cash';
+      const operation = row.status === 'refunded'
+        ? (cash ? 'Возврат наличных денег' : 'Возврат безналичных денег')
+        : (cash ? 'Выплата наличных денег' : 'Выплата безналичных денег');
+
+      return this.element('Документ', [
+        this.element('Ид', row.id),
+        this.element('Номер', row.reference_number || row.transaction_number),
+        this.element('Дата', this.formatDate(row.processed_at)),
+        this.element('Время', this.formatTime(row.processed_at)),
+        this.element('ХозОперация', operation),
+        this.element('Роль', 'Покупатель'),
+        this.element('Валюта', row.currency),
+        this.element('Курс', '1'),
+        this.element('Сумма', this.formatAmount(row.amount)),
+        this.element('Основания', [
+          this.element('Основание', [
+            this.element('Ид', row.transaction_id),
+            this.element('Номер', row.transaction_number)
+          ])
+        ]),
+        this.requisites([
+          ['Склад', row.branch_code],
+          ['СпособОплаты', row.method],
+          ['Статус', row.status]
+        ])
+      ]);
+    });
+
+    return { ids: result.rows.map((row: any) => row.id), xml: this.document(documents) };
+  }
+
+  private static async buildInventoryBatch(limit: number, scope: BranchScope): Promise<ExportBatch | null> {
+    const params: any[] = [];
+    const { where } = this.pendingQuery('inventory', scope, params);
+    params.push(limit);
+
+    const result = await DatabaseManager.query(
+      `SELECT bi.id, bi.quantity_in_stock, bi.updated_at::text AS version,
+              p.id AS product_id, p.onec_id, p.sku, p.name, p.unit_of_measure,
+              b.code AS branch_code, b.name AS branch_name
+       FROM branch_inventory bi
+       JOIN products p ON bi.product_id = p.id
+       JOIN branches b ON bi.branch_id = b.id
+       WHERE ${where}
+       ORDER BY bi.updated_at, bi.id
+       LIMIT $${params.length}`,
+      params
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const warehouses = new Map<string, string>(result.rows.map((row: any) => [row.branch_code, row.branch_name]));
+    const offers = this.element('ПакетПредложений', [
+      this.element('Ид', `rockpoint-stock-${this.formatFileTimestamp(new Date())}`),
+      this.element('Наименование', 'Остатки филиалов'),
+      this.element('СодержитТолькоИзменения', 'true'),
+      this.element('Склады', Array.from(warehouses.entries()).map(([code, name]) => this.element('Склад', [
+        this.element('Ид', code),
+        this.element('Наименование', name)
+      ]))),
+      this.element('Предложения', result.rows.map((row: any) => this.element('Предложение', [
+        this.element('Ид', row.onec_id || row.product_id),
+        this.element('Артикул', row.sku),
+        this.element('Наименование', row.name),
+        this.element('БазоваяЕдиница', row.unit_of_measure),
+        this.element('Остатки', [
+          this.element('Остаток', [
+            this.element('Склад', [
+              this.element('Ид', row.branch_code),
+              this.element('Количество', this.formatQuantity(row.quantity_in_stock))
+            ])
+          ])
+        ])
+      ])))
+    ]);
+
+    return {
+      ids: result.rows.map((row: any) => row.id),
+      versions: result.rows.map((row: any) => row.version),
+      xml: this.document([offers])
+    };
+  }
+
+  private static async buildMovementsBatch(limit: number, scope: BranchScope): Promise<ExportBatch | null> {
+    const params: any[] = [];
+    const { where } = this.pendingQuery('stock_movements', scope, params);
+    params.push(limit);
+
+    const result = await DatabaseManager.query(
+      `SELECT sm.id, sm.movement_type, sm.quantity, sm.unit_cost, sm.reference_id, sm.reference_type,
+              sm.notes, sm.created_at,
+              p.id AS product_id, p.onec_id, p.sku, p.name, p.unit_of_measure,
+              b.code AS branch_code
+       FROM stock_movements sm
+       JOIN products p ON sm.product_id = p.id
+       JOIN branches b ON sm.branch_id = b.id
+       WHERE ${where}
+       ORDER BY sm.created_at, sm.id
+       LIMIT $${params.length}`,
+      params
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const documents = result.rows.map((row: any) => {
+      const unitCost = row.unit_cost !== null ? parseFloat(row.unit_cost) : null;
+      const quantity = parseFloat(row.quantity);
+
+      return this.element('Документ', [
+        this.element('Ид', row.id),
+        this.element('Номер', row.id),
+        this.element('Дата', this.formatDate(row.created_at)),
+        this.element('Время', this.formatTime(row.created_at)),
+        this.element('ХозОперация', MOVEMENT_OPERATIONS[row.movement_type] || 'Прочие'),
+        this.element('Роль', 'Продавец'),
+        this.element('Сумма', unitCost !== null ? this.formatAmount(Math.abs(quantity) * unitCost) : '0.00'),
+        this.element('Товары', [
+          this.element('Товар', [
+            this.element('Ид', row.onec_id || row.product_id),
+            this.element('Артикул', row.sku),
+            this.element('Наименование', row.name),
+            this.element('БазоваяЕдиница', row.unit_of_measure),
+            unitCost !== null ? this.element('ЦенаЗаЕдиницу', this.formatAmount(unitCost)) : '',
+            this.element('Количество', this.formatQuantity(row.quantity))
+          ])
+        ]),
+        this.requisites([
+          ['Склад', row.branch_code],
+          ['ВидДвижения', row.movement_type],
+          ['ДокументОснование', row.reference_id ? `${row.reference_type || 'document'} ${row.reference_id}` : null],
+          ['Комментарий', row.notes]
+        ])
+      ]);
+    });
+
+    return { ids: result.rows.map((row: any) => row.id), xml: this.document(documents) };
+  }
+
+  private static document(children: string[]): string {
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' + this.element(
+      'КоммерческаяИнформация',
+      children,
+      { ВерсияСхемы: SCHEMA_VERSION, ДатаФормирования: new Date().toISOString().substring(0, 19) }
+    );
+  }
+
+  private static taxes(amount: any, rate?: any): string {
+    if (!(parseFloat(amount) > 0)) {
+      return '';
+    }
+
+    return this.element('Налоги', [
+      this.element('Налог', [
+        this.element('Наименование', 'НДС'),
+        this.element('УчтеноВСумме', 'true'),
+        rate !== undefined ? this.element('Ставка', String(Math.round(parseFloat(rate) * 10000) / 100)) : '',
+        this.element('Сумма', this.formatAmount(amount))
+      ])
+    ]);
+  }
+
+  private static requisites(values: Array<[string, string | null | undefined]>): string {
+    return this.element('ЗначенияРеквизитов', values
+      .filter(([, value]) => value !== null && value !== undefined && value !== '')
+      .map(([name, value]) => this.element('ЗначениеРеквизита', [
+        this.element('Наименование', name),
+        this.element('Значение', value!)
+      ])));
+  }
+
+  private static element(name: string, content: string | string[], attributes: Record<string, string> = {}): string {
+    const attrs = Object.entries(attributes).map(([key, value]) => ` ${key}="${this.escape(value)}"`).join('');
+    const body = Array.isArray(content) ? content.filter(Boolean).join('') : this.escape(content ?? '');
+    return `<${name}${attrs}>${body}</${name}>`;
+  }
+
+  private static escape(value: unknown): string {
+    return String(value ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  private static formatAmount(value: any): string {
+    return (Math.round(parseFloat(value || 0) * 100) / 100).toFixed(2);
+  }
+
+  private static formatQuantity(value: any): string {
+    return String(Math.round(parseFloat(value || 0) * 1000) / 1000);
+  }
+
+  private static formatDate(value: Date | string): string {
+    return new Date(value).toISOString().substring(0, 10);
+  }
+
+  private static formatTime(value: Date | string): string {
+    return new Date(value).toISOString().substring(11, 19);
+  }
+
+  private static formatFileTimestamp(value: Date): string {
+    return value.toISOString().replace(/[-:]/g, '').substring(0, 15);
+  }
+
+  // =================================================================
+  // COMMERCEML EXCHANGE PROTOCOL
+  // =================================================================
+
+  /**
+   * Push one exchange file, retrying transport errors and 5xx responses with a growing delay.
+   * A file 1C answered with "failure" is not retried; it stays pending for the next run.
+   */
+  private static async pushWithRetry(
+    settings: OneCExchangeSettings,
+    type: OneCExportType,
+    filename: string,
+    xml: string
+  ): Promise<number> {
+    // Offers (stock balances) are a catalog exchange, everything else goes through sales documents
+    const exchangeType = type === 'inventory' ? 'catalog' : 'sale';
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.pushFile(settings, exchangeType, filename, xml);
+        return attempt;
+      } catch (error: any) {
+        if (attempt >= settings.maxAttempts || !(error.statusCode >= 500)) {
+          error.attempts = attempt;
+          throw error;
+        }
+        await this.delay(RETRY_DELAY_MS * Math.pow(2, attempt - 1));
+      }
+    }
+  }
+
+  private static async pushFile(settings: OneCExchangeSettings, exchangeType: string, filename: string, xml: string): Promise<void> {
+    const session = await this.openSession(settings, exchangeType);
+    const content = Buffer.from(xml, 'utf8');
+
+    // 1C appends consecutive parts of the same file
+    for (let offset = 0; offset < content.length; offset += session.fileLimit) {
+      const reply = await this.call(settings, exchangeType, 'file', session, {
+        filename,
+        body: content.subarray(offset, offset + session.fileLimit)
+      });
+      this.expectSuccess(reply, 'file');
+    }
+
+    for (let poll = 0; poll < MAX_IMPORT_POLLS; poll++) {
+      const reply = await this.call(settings, exchangeType, 'import', session, { filename });
+      if (reply[0] !== 'progress') {
+        this.expectSuccess(reply, 'import');
+        return;
+      }
+    }
+
+    throw createError(`1C did not finish importing ${filename}`, 504);
+  }
+
+  private static async openSession(settings: OneCExchangeSettings, exchangeType: string): Promise<ExchangeSession> {
+    const auth = await this.call(settings, exchangeType, 'checkauth');
+    this.expectSuccess(auth, 'checkauth');
+    if (!auth[1] || !auth[2]) {
+      throw createError('1C checkauth did not return a session cookie', 502);
+    }
+
+    const session: ExchangeSession = { cookie: `${auth[1]}=${auth[2]}`, fileLimit: Number.MAX_SAFE_INTEGER };
+    const init = await this.call(settings, exchangeType, 'init', session);
+    const options = new Map(init.map(line => line.split('=', 2) as [string, string]));
+
+    const fileLimit = parseInt(options.get('file_limit') || '');
+    if (fileLimit > 0) {
+      session.fileLimit = fileLimit;
+    }
+    return session;
+  }
+
+  /**
+   * One exchange step; the reply is split into lines ("success", "progress" or "failure" first)
+   */
+  private static async call(
+    settings: OneCExchangeSettings,
+    exchangeType: string,
+    mode: string,
+    session?: ExchangeSession,
+    file?: { filename: string; body?: Buffer }
+  ): Promise<string[]> {
+    try {
+      const response = await axios.request({
+        url: settings.url,
+        method: file?.body ? 'POST' : 'GET',
+        params: { type: exchangeType, mode, ...(file ? { filename: file.filename } : {}) },
+        data: file?.body,
+        headers: {
+          ...(session ? { Cookie: session.cookie } : {}),
+          ...(file?.body ? { 'Content-Type': 'application/octet-stream' } : {})
+        },
+        auth: session ? undefined : { username: settings.username, password: settings.password },
+        responseType: 'text',
+        timeout: REQUEST_TIMEOUT_MS
+      });
+
+      return String(response.data).replace(/^\uFEFF/, '').split(/\r?\n/).map(line => line.trim());
+    } catch (error: any) {
+      if (error.response) {
+        const status = error.response.status;
+        // 1C rejects bad credentials with 401/403; only server-side errors are worth retrying
+        throw createError(
+          `1C ${mode} failed with HTTP ${status}`,
+          status >= 500 || status === 408 || status === 429 ? 502 : 422
+        );
+      }
+
+      throw createError(`1C exchange is unreachable: ${error.message}`, 503);
+    }
+  }
+
+  private static expectSuccess(reply: string[], mode: string): void {
+    if (reply[0] !== 'success') {
+      const reason = reply[0] === 'failure' ? reply.slice(1).filter(Boolean).join(' ') : reply.join(' ');
+      throw createError(`1C ${mode} failed: ${reason || 'empty response'}`, 422);
+    }
+  }
+}
@@ -0,0 +1,508 @@
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import { BranchApiService } from './branchApi';
+
+// =================================================================
+// INTERFACES AND TYPES
+// =================================================================
+
+export type ScheduledPriceStatus = 'scheduled' | 'active' | 'completed' | 'cancelled';
+
+export interface SchedulePriceChangeRequest {
+  productId: string;
+  branchIds?: string[]; // Every active branch when empty
+  price: number;
+  cost?: number;
+  effectiveFrom: string; // Local time, applied in each branch's timezone
+  effectiveUntil?: string;
+  notes?: string;
+}
+
+export interface ScheduledPriceFilters {
+  from?: string;
+  to?: string;
+  branchId?: string;
+  productId?: string;
+  status?: ScheduledPriceStatus;
+  includeCancelled?: boolean;
+}
+
+export interface BranchScope {
+  branchId?: string;
+  excludeBranchIds?: string[];
+}
+
+export interface PriceDeliveryResult {
+  delivered: number;
+  failed: number;
+}
+
+export interface PriceSwitchResult {
+  activated: number;
+  completed: number;
+}
+
+// Local times are read back as text so the pg driver does not shift them into the server's zone
+const CHANGE_COLUMNS = `
+  c.id, c.batch_id, c.branch_id, c.product_id, c.price, c.cost,
+  to_char(c.effective_from, 'YYYY-MM-DD"T"HH24:MI:SS') AS effective_from,
+  to_char(c.effective_until, 'YYYY-MM-DD"T"HH24:MI:SS') AS effective_until,
+  c.status, c.previous_price, c.previous_cost, c.applied_at, c.reverted_at,
+  c.delivery_status, c.delivery_attempts, c.delivered_at, c.delivery_error,
+  c.notes, c.cancelled_at, c.created_at`;
+
+// =================================================================
+// PRICE SCHEDULE SERVICE
+// =================================================================
+
+/**
+ * Price Schedule Service
+ *
+ * Price changes are scheduled ahead of time with a local effective time and an optional
+ * end. Each branch gets its own row and is sent the change as soon as possible, so it can
+ * switch over at that time in its own timezone even if it loses the connection to
+ * chain-core before then. Chain-core mirrors the switch-over into branch_product_pricing
+ * on the same clock; when effective_until passes, the branch price from before the change
+ * comes back.
+ */
+export class PriceScheduleService {
+  /**
+   * Schedule a change for one product in the given branches, or in every active branch
+   */
+  static async scheduleChange(request: SchedulePriceChangeRequest): Promise<{ batchId: string; changes: any[] }> {
+    if (request.effectiveUntil && request.effectiveUntil <= request.effectiveFrom) {
+      throw createError('effective_until must be after effective_from', 400);
+    }
+
+    const batchId = uuidv4();
+
+    const changes = await DatabaseManager.transaction(async (client) => {
+      const productResult = await client.query(
+        'SELECT id, is_active FROM products WHERE id = $1',
+        [request.productId]
+      );
+      if (productResult.rows.length === 0) {
+        throw createError('Product not found', 404);
+      }
+
+      const branchesResult = request.branchIds && request.branchIds.length > 0
+        ? await client.query('SELECT id FROM branches WHERE id = ANY($1::uuid[]) AND is_active = true', [request.branchIds])
+        : await client.query('SELECT id FROM branches WHERE is_active = true');
+
+      if (branchesResult.rows.length === 0) {
+        throw createError('No active branches to schedule the price change for', 400);
+      }
+      if (request.branchIds && branchesResult.rows.length !== new Set(request.branchIds).size) {
+        throw createError('One or more branches were not found or are inactive', 400);
+      }
+
+      const created: any[] = [];
+      for (const branch of branchesResult.rows) {
+        const result = await client.query(
+          `INSERT INTO scheduled_price_changes (
+             batch_id, branch_id, product_id, price, cost, effective_from, effective_until, notes
+           ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+           RETURNING id`,
+          [
+            batchId, branch.id, request.productId, request.price, request.cost ?? null,
+            request.effectiveFrom, request.effectiveUntil || null, request.notes || null
+          ]
+        );
+        created.push(result.rows[0].id);
+      }
+
+      return this.findChanges(client, 'c.id = ANY($1::uuid[])', [created]);
+    });
+
+    return { batchId, changes };
+  }
+
+  /**
+   * Cancel one change or a whole batch. A change that is already in effect is reverted;
+   * branches are told either way.
+   */
+  static async cancelChanges(target: { changeId?: string; batchId?: string }): Promise<number> {
+    if (!target.changeId && !target.batchId) {
+      throw createError('changeId or batchId is required', 400);
+    }
+
+    return DatabaseManager.transaction(async (client) => {
+      const result = await client.query(
+        `SELECT ${CHANGE_COLUMNS} FROM scheduled_price_changes c
+         WHERE ${target.changeId ? 'c.id = $1' : 'c.batch_id = $1'} AND c.status IN ('scheduled', 'active')
+         FOR UPDATE`,
+        [target.changeId || target.batchId]
+      );
+
+      if (result.rows.length === 0 && target.changeId) {
+        const exists = await client.query('SELECT status FROM scheduled_price_changes WHERE id = $1', [target.changeId]);
+        if (exists.rows.length === 0) {
+          throw createError('Scheduled price change not found', 404);
+        }
+        throw createError(`Price change is already ${exists.rows[0].status}`, 400);
+      }
+
+      for (const change of result.rows) {
+        if (change.status === 'active') {
+          await this.restoreBranchPrice(client, change);
+        }
+
+        await client.query(
+          `UPDATE scheduled_price_changes
+           SET status = 'cancelled', cancelled_at = NOW(),
+               delivery_status = 'pending', delivery_attempts = 0, delivery_error = NULL
+           WHERE id = $1`,
+          [change.id]
+        );
+      }
+
+      return result.rows.length;
+    });
+  }
+
+  /**
+   * Changes in effect at some point of the period, for the calendar
+   */
+  static async listChanges(filters: ScheduledPriceFilters = {}): Promise<any[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.from) {
+      params.push(filters.from);
+      conditions.push(`COALESCE(c.effective_until, c.effective_from) >= $${params.length}`);
+    }
+    if (filters.to) {
+      params.push(filters.to);
+      conditions.push(`c.effective_from < $${params.length}`);
+    }
+    if (filters.branchId) {
+      params.push(filters.branchId);
+      conditions.push(`c.branch_id = $${params.length}`);
+    }
+    if (filters.productId) {
+      params.push(filters.productId);
+      conditions.push(`c.product_id = $${params.length}`);
+    }
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`c.status = $${params.length}`);
+    } else if (!filters.includeCancelled) {
+      conditions.push(`c.status <> 'cancelled'`);
+    }
+
+    const result = await DatabaseManager.query(
+      `SELECT ${CHANGE_COLUMNS},
+              p.name AS product_name, p.sku, p.barcode, p.base_price,
+              b.name AS branch_name, b.code AS branch_code, b.timezone AS branch_timezone
+       FROM scheduled_price_changes c
+       JOIN products p ON c.product_id = p.id
+       JOIN branches b ON c.branch_id = b.id
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY c.effective_from, p.name, b.name
+       LIMIT 2000`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.mapChange(row));
+  }
+
+  // =================================================================
+  // DELIVERY TO BRANCHES
+  // =================================================================
+
+  /**
+   * Send undelivered changes and cancellations to their branches. A branch that cannot
+   * be reached keeps its changes pending for the next run.
+   */
+  static async deliverPending(scope: BranchScope = {}): Promise<PriceDeliveryResult> {
+    // Time-limited changes that are already over need not reach the branch any more
+    const conditions = [`c.delivery_status <> 'delivered'`, `NOT (c.status = 'completed' AND c.effective_until IS NOT NULL)`];
+    const params: any[] = [];
+    this.addScope(scope, conditions, params);
+
+    const result = await DatabaseManager.query(
+      `SELECT ${CHANGE_COLUMNS}, p.barcode, p.sku, b.timezone AS branch_timezone
+       FROM scheduled_price_changes c
+       JOIN products p ON c.product_id = p.id
+       JOIN branches b ON c.branch_id = b.id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY c.branch_id, c.effective_from`,
+      params
+    );
+
+    const byBranch = new Map<string, any[]>();
+    for (const row of result.rows) {
+      byBranch.set(row.branch_id, [...(byBranch.get(row.branch_id) || []), row]);
+    }
+
+    const totals: PriceDeliveryResult = { delivered: 0, failed: 0 };
+    for (const [branchId, changes] of byBranch) {
+      const outcome = await this.deliverToBranch(branchId, changes);
+      totals.delivered += outcome.delivered;
+      totals.failed += outcome.failed;
+    }
+
+    return totals;
+  }
+
+  private static async deliverToBranch(branchId: string, changes: any[]): Promise<PriceDeliveryResult> {
+    const errors = new Map<string, string>();
+
+    const withoutBarcode = changes.filter(change => change.status !== 'cancelled' && !change.barcode);
+    withoutBarcode.forEach(change => errors.set(change.id, 'Product has no barcode'));
+
+    const updates = changes.filter(change => change.status !== 'cancelled' && change.barcode);
+    if (updates.length > 0) {
+      const response = await BranchApiService.makeRequest({
+        branchId,
+        endpoint: 'chain-core/products/prices',
+        method: 'PUT',
+        data: {
+          timezone: updates[0].branch_timezone,
+          updates: updates.map(change => ({
+            change_id: change.id,
+            barcode: change.barcode,
+            sku: change.sku,
+            price: parseFloat(change.price),
+            cost: change.cost !== null ? parseFloat(change.cost) : undefined,
+            effective_date: change.effective_from,
+            effective_until: change.effective_until || undefined
+          }))
+        },
+        timeout: 30000
+      });
+
+      if (!response.success) {
+        updates.forEach(change => errors.set(change.id, response.error || 'Branch request failed'));
+      } else {
+        for (const item of response.data?.data?.results || []) {
+          if (!item.success && item.change_id) {
+            errors.set(item.change_id, item.error || 'Rejected by branch');
+          }
+        }
+        // Results without a change_id cannot be matched; fall back to the barcode
+        for (const item of response.data?.data?.results || []) {
+          if (!item.success && !item.change_id) {
+            updates
+              .filter(change => change.barcode === item.barcode)
+              .forEach(change => errors.set(change.id, item.error || 'Rejected by branch'));
+          }
+        }
+      }
+    }
+
+    const cancellations = changes.filter(change => change.status === 'cancelled');
+    if (cancellations.length > 0) {
+      const response = await BranchApiService.makeRequest({
+        branchId,
+        endpoint: 'chain-core/products/prices/cancel',
+        method: 'POST',
+        data: { change_ids: cancellations.map(change => change.id) }
+      });
+
+      if (!response.success) {
+        cancellations.forEach(change => errors.set(change.id, response.error || 'Branch request failed'));
+      }
+    }
+
+    const delivered = changes.filter(change => !errors.has(change.id)).map(change => change.id);
+    if (delivered.length > 0) {
+      await DatabaseManager.query(
+        `UPDATE scheduled_price_changes
+         SET delivery_status = 'delivered', delivered_at = NOW(), delivery_error = NULL,
+             delivery_attempts = delivery_attempts + 1
+         WHERE id = ANY($1::uuid[])`,
+        [delivered]
+      );
+    }
+
+    for (const [changeId, error] of errors) {
+      await DatabaseManager.query(
+        `UPDATE scheduled_price_changes
+         SET delivery_status = 'failed', delivery_error = $2, delivery_attempts = delivery_attempts + 1
+         WHERE id = $1`,
+        [changeId, error]
+      );
+    }
+
+    return { delivered: delivered.length, failed: errors.size };
+  }
+
+  // =================================================================
+  // SWITCH-OVER IN CHAIN-CORE
+  // =================================================================
+
+  /**
+   * Bring branch_product_pricing in line with the schedule: end the changes whose
+   * effective_until has passed in the branch timezone, then apply the ones whose
+   * effective_from has
+   */
+  static async applyDueChanges(scope: BranchScope = {}): Promise<PriceSwitchResult> {
+    return DatabaseManager.transaction(async (client) => {
+      const expiringConditions = [
+        `c.status = 'active'`,
+        'c.effective_until IS NOT NULL',
+        '(c.effective_until AT TIME ZONE b.timezone) <= NOW()'
+      ];
+      const expiringParams: any[] = [];
+      this.addScope(scope, expiringConditions, expiringParams);
+
+      const expiring = await client.query(
+        `SELECT ${CHANGE_COLUMNS}
+         FROM scheduled_price_changes c
+         JOIN branches b ON c.branch_id = b.id
+         WHERE ${expiringConditions.join(' AND ')}
+         ORDER BY c.effective_until
+         FOR UPDATE OF c`,
+        expiringParams
+      );
+
+      for (const change of expiring.rows) {
+        await this.restoreBranchPrice(client, change);
+        await client.query(
+          `UPDATE scheduled_price_changes SET status = 'completed', reverted_at = NOW() WHERE id = $1`,
+          [change.id]
+        );
+      }
+
+      const dueConditions = [`c.status = 'scheduled'`, '(c.effective_from AT TIME ZONE b.timezone) <= NOW()'];
+      const dueParams: any[] = [];
+      this.addScope(scope, dueConditions, dueParams);
+
+      const due = await client.query(
+        `SELECT ${CHANGE_COLUMNS}, b.timezone AS branch_timezone,
+                (c.effective_until AT TIME ZONE b.timezone) <= NOW() AS already_over
+         FROM scheduled_price_changes c
+         JOIN branches b ON c.branch_id = b.id
+         WHERE ${dueConditions.join(' AND ')}
+         ORDER BY c.effective_from, c.created_at
+         FOR UPDATE OF c`,
+        dueParams
+      );
+
+      let activated = 0;
+      for (const change of due.rows) {
+        if (change.already_over) {
+          await client.query(
+            `UPDATE scheduled_price_changes SET status = 'completed' WHERE id = $1`,
+            [change.id]
+          );
+          continue;
+        }
+
+        await this.applyBranchPrice(client, change);
+        activated++;
+      }
+
+      return { activated, completed: expiring.rows.length };
+    });
+  }
+
+  private static async applyBranchPrice(client: PoolClient, change: any): Promise<void> {
+    const pricingResult = await client.query(
+      'SELECT price, cost FROM branch_product_pricing WHERE branch_id = $1 AND product_id = $2 FOR UPDATE',
+      [change.branch_id, change.product_id]
+    );
+    const current = pricingResult.rows[0];
+
+    // A change replacing a time-limited one restores what that one would have restored
+    const activeResult = await client.query(
+      `SELECT id, effective_until, previous_price, previous_cost FROM scheduled_price_changes
+       WHERE branch_id = $1 AND product_id = $2 AND status = 'active' AND id <> $3
+       FOR UPDATE`,
+      [change.branch_id, change.product_id, change.id]
+    );
+    const replaced = activeResult.rows.find((row: any) => row.effective_until !== null);
+
+    if (activeResult.rows.length > 0) {
+      await client.query(
+        `UPDATE scheduled_price_changes SET status = 'completed', reverted_at = NOW() WHERE id = ANY($1::uuid[])`,
+        [activeResult.rows.map((row: any) => row.id)]
+      );
+    }
+
+    await client.query(
+      `INSERT INTO branch_product_pricing (branch_id, product_id, price, cost, effective_from, effective_until)
+       VALUES ($1, $2, $3, $4, $5::timestamp AT TIME ZONE $7, $6::timestamp AT TIME ZONE $7)
+       ON CONFLICT (branch_id, product_id) DO UPDATE SET
+         price = EXCLUDED.price,
+         cost = COALESCE(EXCLUDED.cost, branch_product_pricing.cost),
+         effective_from = EXCLUDED.effective_from,
+         effective_until = EXCLUDED.effective_until,
+         updated_at = NOW()`,
+      [
+        change.branch_id, change.product_id, change.price, change.cost,
+        change.effective_from, change.effective_until, change.branch_timezone
+      ]
+    );
+
+    await client.query(
+      `UPDATE scheduled_price_changes
+       SET status = $2, previous_price = $3, previous_cost = $4, applied_at = NOW()
+       WHERE id = $1`,
+      [
+        change.id,
+        change.effective_until ? 'active' : 'completed',
+        replaced ? replaced.previous_price : current?.price ?? null,
+        replaced ? replaced.previous_cost : current?.cost ?? null
+      ]
+    );
+  }
+
+  /**
+   * Put back the branch price from before a change; without one the branch falls back
+   * to the product's base price
+   */
+  private static async restoreBranchPrice(client: PoolClient, change: any): Promise<void> {
+    if (change.previous_price === null) {
+      await client.query(
+        'DELETE FROM branch_product_pricing WHERE branch_id = $1 AND product_id = $2',
+        [change.branch_id, change.product_id]
+      );
+      return;
+    }
+
+    await client.query(
+      `UPDATE branch_product_pricing
+       SET price = $3, cost = COALESCE($4, cost), effective_from = NOW(), effective_until = NULL, updated_at = NOW()
+       WHERE branch_id = $1 AND product_id = $2`,
+      [change.branch_id, change.product_id, change.previous_price, change.previous_cost]
+    );
+  }
+
+  private static addScope(scope: BranchScope, conditions: string[], params: any[]): void {
+    if (scope.branchId) {
+      params.push(scope.branchId);
+      conditions.push(`c.branch_id = $${params.length}`);
+    } else if (scope.excludeBranchIds && scope.excludeBranchIds.length > 0) {
+      params.push(scope.excludeBranchIds);
+      conditions.push(`c.branch_id <> ALL($${params.length}::uuid[])`);
+    }
+  }
+
+  private static async findChanges(client: PoolClient, where: string, params: any[]): Promise<any[]> {
+    const result = await client.query(
+      `SELECT ${CHANGE_COLUMNS}, b.name AS branch_name, b.timezone AS branch_timezone
+       FROM scheduled_price_changes c
+       JOIN branches b ON c.branch_id = b.id
+       WHERE ${where}
+       ORDER BY b.name`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.mapChange(row));
+  }
+
+  private static mapChange(row: any): any {
+    return {
+      ...row,
+      price: parseFloat(row.price),
+      cost: row.cost !== null ? parseFloat(row.cost) : null,
+      previous_price: row.previous_price !== null ? parseFloat(row.previous_price) : null,
+      previous_cost: row.previous_cost !== null ? parseFloat(row.previous_cost) : null,
+      base_price: row.base_price !== undefined ? parseFloat(row.base_price) : undefined
+    };
+  }
+}
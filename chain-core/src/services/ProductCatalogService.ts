@@ -0,0 +1,316 @@
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+
+// =================================================================
+// INTERFACES AND TYPES
+// =================================================================
+
+type Queryable = Pick<PoolClient, 'query'> | typeof DatabaseManager;
+
+export interface ProductBarcodeInput {
+  barcode: string;
+  // Units of the product one scan stands for, e.g. 6 for a six-pack
+  quantityMultiplier?: number;
+  supplierId?: string | null;
+  description?: string | null;
+}
+
+export interface ProductVariantInput {
+  id?: string;
+  sku: string;
+  barcode?: string | null;
+  // Defaults to the parent name followed by the attribute values
+  name?: string;
+  variantAttributes: Record<string, string>;
+  // Defaults to the parent's price and cost
+  basePrice?: number;
+  cost?: number | null;
+  isActive?: boolean;
+  onecId?: string | null;
+  barcodes?: ProductBarcodeInput[];
+}
+
+export interface BarcodeMatch {
+  productId: string;
+  barcode: string;
+  quantityMultiplier: number;
+  // products.barcode, or one of the product_barcodes
+  source: 'primary' | 'additional';
+}
+
+// Columns a variant always takes from its parent product
+const SHARED_COLUMNS = [
+  'category_id', 'brand', 'description', 'description_en', 'description_ru', 'description_uz',
+  'unit_of_measure', 'tax_rate', 'attributes'
+];
+
+// =================================================================
+// PRODUCT CATALOG SERVICE
+// =================================================================
+
+/**
+ * Product Catalog Service
+ *
+ * Product variants and barcodes. A variant is a product of its own with its own SKU,
+ * price and branch stock, linked to a parent product whose category, brand, unit, tax
+ * rate and attributes it shares. Besides products.barcode a product can carry any
+ * number of additional barcodes, each standing for one or more units of the product.
+ */
+export class ProductCatalogService {
+  /**
+   * Resolve a scanned barcode to a product. The primary barcode wins over an
+   * additional one, so re-used supplier codes never shadow a product's own code.
+   */
+  static async findByBarcode(barcode: string, db: Queryable = DatabaseManager): Promise<BarcodeMatch | null> {
+    const result = await db.query(`
+      SELECT id as product_id, barcode, 1 as quantity_multiplier, 'primary' as source
+      FROM products WHERE barcode = $1
+      UNION ALL
+      SELECT product_id, barcode, quantity_multiplier, 'additional' as source
+      FROM product_barcodes WHERE barcode = $1
+      ORDER BY source DESC
+      LIMIT 1
+    `, [barcode]);
+
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    return {
+      productId: row.product_id,
+      barcode: row.barcode,
+      quantityMultiplier: parseFloat(row.quantity_multiplier),
+      source: row.source
+    };
+  }
+
+  /**
+   * Fail with 409 when any of the barcodes already belongs to a product other than
+   * the ones given, either as its primary barcode or as an additional one
+   */
+  static async assertBarcodesAvailable(barcodes: string[], ownProductIds: string[] = [], db: Queryable = DatabaseManager): Promise<void> {
+    const codes = barcodes.filter(Boolean);
+    const duplicate = codes.find((code, index) => codes.indexOf(code) !== index);
+    if (duplicate) {
+      throw createError(`Barcode ${duplicate} is listed more than once`, 400);
+    }
+    if (codes.length === 0) return;
+
+    const result = await db.query(`
+      SELECT barcode FROM products
+      WHERE barcode = ANY($1::text[]) AND id <> ALL($2::uuid[])
+      UNION
+      SELECT barcode FROM product_barcodes
+      WHERE barcode = ANY($1::text[]) AND product_id <> ALL($2::uuid[])
+    `, [codes, ownProductIds]);
+
+    if (result.rows.length > 0) {
+      throw createError(`Barcode ${result.rows[0].barcode} is already used by another product`, 409);
+    }
+  }
+
+  static async getBarcodes(productId: string, db: Queryable = DatabaseManager): Promise<any[]> {
+    const result = await db.query(`
+      SELECT pb.id, pb.barcode, pb.quantity_multiplier, pb.supplier_id, pb.description,
+             s.name as supplier_name
+      FROM product_barcodes pb
+      LEFT JOIN suppliers s ON pb.supplier_id = s.id
+      WHERE pb.product_id = $1
+      ORDER BY pb.quantity_multiplier, pb.barcode
+    `, [productId]);
+
+    return result.rows.map((row: any) => ({ ...row, quantity_multiplier: parseFloat(row.quantity_multiplier) }));
+  }
+
+  static async getVariants(parentId: string, db: Queryable = DatabaseManager): Promise<any[]> {
+    const result = await db.query(`
+      SELECT p.id, p.sku, p.barcode, p.name, p.variant_attributes, p.base_price, p.cost,
+             p.is_active, p.onec_id,
+             COALESCE(barcodes.list, '[]') as barcodes
+      FROM products p
+      LEFT JOIN LATERAL (
+        SELECT json_agg(json_build_object(
+          'id', pb.id, 'barcode', pb.barcode, 'quantity_multiplier', pb.quantity_multiplier,
+          'supplier_id', pb.supplier_id, 'description', pb.description
+        ) ORDER BY pb.quantity_multiplier, pb.barcode) as list
+        FROM product_barcodes pb WHERE pb.product_id = p.id
+      ) barcodes ON true
+      WHERE p.parent_product_id = $1
+      ORDER BY p.is_active DESC, p.sku
+    `, [parentId]);
+
+    return result.rows;
+  }
+
+  /**
+   * Replace the additional barcodes of a product with the given set
+   */
+  static async replaceBarcodes(productId: string, barcodes: ProductBarcodeInput[], db: Queryable = DatabaseManager): Promise<void> {
+    await this.assertBarcodesAvailable(barcodes.map(entry => entry.barcode), [productId], db);
+
+    const primary = await db.query('SELECT barcode FROM products WHERE id = $1', [productId]);
+    if (primary.rows.length === 0) {
+      throw createError('Product not found', 404);
+    }
+    if (barcodes.some(entry => entry.barcode === primary.rows[0].barcode)) {
+      throw createError(`Barcode ${primary.rows[0].barcode} is already the product's primary barcode`, 400);
+    }
+
+    await db.query(
+      'DELETE FROM product_barcodes WHERE product_id = $1 AND barcode <> ALL($2::text[])',
+      [productId, barcodes.map(entry => entry.barcode)]
+    );
+
+    for (const entry of barcodes) {
+      await db.query(`
+        INSERT INTO product_barcodes (product_id, barcode, quantity_multiplier, supplier_id, description)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (barcode) DO UPDATE SET
+          quantity_multiplier = EXCLUDED.quantity_multiplier,
+          supplier_id = EXCLUDED.supplier_id,
+          description = EXCLUDED.description
+      `, [productId, entry.barcode, entry.quantityMultiplier ?? 1, entry.supplierId || null, entry.description || null]);
+    }
+
+    // Branches pick up products changed since their last sync
+    await db.query('UPDATE products SET updated_at = NOW() WHERE id = $1', [productId]);
+  }
+
+  /**
+   * Create and update the variants of a product. Variants left out of the list are
+   * deactivated rather than deleted, as they carry stock and sales history.
+   * Returns the ids of the variants in the list.
+   */
+  static async saveVariants(parentId: string, variants: ProductVariantInput[], db: Queryable = DatabaseManager): Promise<string[]> {
+    const parentResult = await db.query(
+      'SELECT id, name, base_price, cost, parent_product_id FROM products WHERE id = $1',
+      [parentId]
+    );
+    if (parentResult.rows.length === 0) {
+      throw createError('Product not found', 404);
+    }
+    const parent = parentResult.rows[0];
+    if (parent.parent_product_id) {
+      throw createError('A variant cannot have variants of its own', 400);
+    }
+
+    const skus = variants.map(variant => variant.sku);
+    const duplicateSku = skus.find((sku, index) => skus.indexOf(sku) !== index);
+    if (duplicateSku) {
+      throw createError(`SKU ${duplicateSku} is listed more than once`, 400);
+    }
+
+    const existingResult = await db.query(
+      'SELECT id, sku FROM products WHERE parent_product_id = $1',
+      [parentId]
+    );
+    const existing = existingResult.rows;
+    const variantIds: string[] = [];
+
+    for (const variant of variants) {
+      const current = existing.find((row: any) => (variant.id ? row.id === variant.id : row.sku === variant.sku));
+      if (variant.id && !current) {
+        throw createError(`Variant ${variant.id} does not belong to this product`, 400);
+      }
+
+      const skuResult = await db.query(
+        'SELECT id FROM products WHERE sku = $1 AND id <> $2',
+        [variant.sku, current?.id ?? parentId]
+      );
+      if (skuResult.rows.length > 0) {
+        throw createError(`SKU ${variant.sku} already exists`, 409);
+      }
+
+      const ownIds = current ? [current.id] : [];
+      await this.assertBarcodesAvailable(
+        [variant.barcode || '', ...(variant.barcodes ?? []).map(entry => entry.barcode)],
+        ownIds,
+        db
+      );
+
+      const name = variant.name?.trim() || this.variantName(parent.name, variant.variantAttributes);
+      const basePrice = variant.basePrice ?? parseFloat(parent.base_price);
+      const cost = variant.cost !== undefined ? variant.cost : parent.cost;
+
+      let variantId: string;
+      if (current) {
+        await db.query(`
+          UPDATE products SET
+            sku = $1, barcode = $2, name = $3, variant_attributes = $4,
+            base_price = $5, cost = $6, is_active = $7, onec_id = COALESCE($8, onec_id),
+            updated_at = NOW()
+          WHERE id = $9
+        `, [
+          variant.sku, variant.barcode || null, name, JSON.stringify(variant.variantAttributes),
+          basePrice, cost, variant.isActive !== false, variant.onecId || null, current.id
+        ]);
+        variantId = current.id;
+      } else {
+        const insertResult = await db.query(`
+          INSERT INTO products (
+            sku, barcode, name, variant_attributes, base_price, cost, is_active, onec_id,
+            parent_product_id, created_at, updated_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
+          RETURNING id
+        `, [
+          variant.sku, variant.barcode || null, name, JSON.stringify(variant.variantAttributes),
+          basePrice, cost, variant.isActive !== false, variant.onecId || null, parentId
+        ]);
+        variantId = insertResult.rows[0].id;
+        await this.distributeVariant(parentId, variantId, basePrice, cost, db);
+      }
+
+      if (variant.barcodes) {
+        await this.replaceBarcodes(variantId, variant.barcodes, db);
+      }
+      variantIds.push(variantId);
+    }
+
+    await db.query(`
+      UPDATE products SET is_active = false, updated_at = NOW()
+      WHERE parent_product_id = $1 AND id <> ALL($2::uuid[]) AND is_active = true
+    `, [parentId, variantIds]);
+
+    await this.syncSharedFields(parentId, db);
+
+    return variantIds;
+  }
+
+  /**
+   * Copy the shared columns from the parent to its variants. Works from either side:
+   * pass a parent to update all of its variants, or a variant to refresh just that one.
+   */
+  static async syncSharedFields(productId: string, db: Queryable = DatabaseManager): Promise<void> {
+    const assignments = SHARED_COLUMNS.map(column => `${column} = parent.${column}`).join(', ');
+
+    await db.query(`
+      UPDATE products variant SET ${assignments}, updated_at = NOW()
+      FROM products parent
+      WHERE variant.parent_product_id = parent.id
+        AND (parent.id = $1 OR variant.id = $1)
+    `, [productId]);
+  }
+
+  static variantName(parentName: string, attributes: Record<string, string>): string {
+    const values = Object.values(attributes).filter(value => String(value).trim() !== '');
+    return values.length > 0 ? `${parentName} ${values.join(' / ')}` : parentName;
+  }
+
+  // New variants are sold wherever the parent is, at the variant's own price
+  private static async distributeVariant(parentId: string, variantId: string, price: number, cost: number | null, db: Queryable): Promise<void> {
+    await db.query(`
+      INSERT INTO branch_product_pricing (branch_id, product_id, price, cost, is_available, created_at, updated_at)
+      SELECT b.id, $2, $3, $4, COALESCE(bpp.is_available, false), NOW(), NOW()
+      FROM branches b
+      LEFT JOIN branch_product_pricing bpp ON bpp.branch_id = b.id AND bpp.product_id = $1
+      WHERE b.is_active = true
+      ON CONFLICT (branch_id, product_id) DO NOTHING
+    `, [parentId, variantId, price, cost ?? 0]);
+
+    await db.query(`
+      INSERT INTO branch_inventory (branch_id, product_id, quantity_in_stock, min_stock_level, created_at, updated_at)
+      SELECT id, $1, 0, 0, NOW(), NOW() FROM branches WHERE is_active = true
+      ON CONFLICT (branch_id, product_id) DO NOTHING
+    `, [variantId]);
+  }
+}
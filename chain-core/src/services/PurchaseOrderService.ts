@@ -0,0 +1,727 @@
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import { CostingService } from './CostingService';
+
+// =================================================================
+// INTERFACES AND TYPES
+// =================================================================
+
+export type PurchaseOrderStatus =
+  | 'draft'
+  | 'submitted'
+  | 'approved'
+  | 'rejected'
+  | 'ordered'
+  | 'partially_received'
+  | 'received'
+  | 'cancelled';
+
+export interface PurchaseOrderItemInput {
+  productId: string;
+  quantityOrdered: number;
+  unitCost?: number;
+  notes?: string;
+}
+
+export interface CreatePurchaseOrderRequest {
+  supplierId: string;
+  branchId: string;
+  expectedDate?: string;
+  notes?: string;
+  createdBy?: string;
+  items: PurchaseOrderItemInput[];
+}
+
+export interface UpdatePurchaseOrderRequest {
+  expectedDate?: string | null;
+  notes?: string;
+  items?: PurchaseOrderItemInput[];
+}
+
+export interface PurchaseOrderFilters {
+  branchId?: string;
+  supplierId?: string;
+  status?: PurchaseOrderStatus;
+  limit: number;
+  offset: number;
+}
+
+export interface ReceiveLine {
+  itemId: string;
+  quantity: number;
+  unitCost?: number;
+  notes?: string;
+}
+
+export interface ReceiveRequest {
+  receivedBy?: string;
+  supplierInvoiceNumber?: string;
+  notes?: string;
+  items: ReceiveLine[];
+}
+
+export interface ReorderCandidate {
+  branchId: string;
+  productId: string;
+  productName: string;
+  supplierId: string | null;
+  quantityInStock: number;
+  quantityOnOrder: number;
+  reorderPoint: number;
+  maxStockLevel: number | null;
+  minOrderQuantity: number;
+  unitCost: number;
+}
+
+export interface ReorderResult {
+  purchaseOrders: any[];
+  withoutSupplier: Array<{ branchId: string; productId: string; productName: string; quantity: number }>;
+}
+
+// Orders whose outstanding quantities count as already on order for reorder suggestions
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['draft', 'submitted', 'approved', 'ordered', 'partially_received'];
+
+// =================================================================
+// PURCHASE ORDER SERVICE
+// =================================================================
+
+/**
+ * Purchase Order Service
+ *
+ * Buys stock from suppliers: purchase orders are drafted by hand or generated from
+ * branch reorder points, submitted and approved by the main office, sent to the
+ * supplier and received by the branch in one or more goods received notes.
+ * Every received line posts a purchase stock movement with its unit cost.
+ */
+export class PurchaseOrderService {
+  /**
+   * Create a draft purchase order. Unit costs default to the supplier's price,
+   * then to the product cost.
+   */
+  static async createPurchaseOrder(request: CreatePurchaseOrderRequest, source: 'manual' | 'reorder' = 'manual'): Promise<any> {
+    const purchaseOrderId = await DatabaseManager.transaction(async (client) => {
+      const supplierResult = await client.query(
+        'SELECT id FROM suppliers WHERE id = $1 AND is_active = true',
+        [request.supplierId]
+      );
+      if (supplierResult.rows.length === 0) {
+        throw createError('Supplier not found', 404);
+      }
+
+      const branchResult = await client.query(
+        'SELECT id FROM branches WHERE id = $1 AND is_active = true',
+        [request.branchId]
+      );
+      if (branchResult.rows.length === 0) {
+        throw createError('Branch not found', 404);
+      }
+
+      const orderResult = await client.query(`
+        INSERT INTO purchase_orders (
+          po_number, supplier_id, branch_id, status, source, expected_date, notes, created_by
+        ) VALUES (
+          $1, $2, $3, 'draft', $4, $5, $6, $7
+        ) RETURNING id
+      `, [
+        this.generateNumber('PO'), request.supplierId, request.branchId, source,
+        request.expectedDate || null, request.notes || null, request.createdBy || null
+      ]);
+
+      const id = orderResult.rows[0].id;
+      await this.insertItems(client, id, request.supplierId, request.items);
+
+      return id;
+    });
+
+    return this.getPurchaseOrder(purchaseOrderId);
+  }
+
+  /**
+   * Change a draft purchase order; items, when given, replace the existing lines
+   */
+  static async updatePurchaseOrder(purchaseOrderId: string, changes: UpdatePurchaseOrderRequest): Promise<any> {
+    await DatabaseManager.transaction(async (client) => {
+      const order = await this.lockPurchaseOrder(client, purchaseOrderId, ['draft']);
+
+      await client.query(`
+        UPDATE purchase_orders
+        SET expected_date = CASE WHEN $1::boolean THEN $2::date ELSE expected_date END,
+            notes = COALESCE($3, notes)
+        WHERE id = $4
+      `, [changes.expectedDate !== undefined, changes.expectedDate || null, changes.notes ?? null, purchaseOrderId]);
+
+      if (changes.items) {
+        await client.query('DELETE FROM purchase_order_items WHERE purchase_order_id = $1', [purchaseOrderId]);
+        await this.insertItems(client, purchaseOrderId, order.supplier_id, changes.items);
+      }
+    });
+
+    return this.getPurchaseOrder(purchaseOrderId);
+  }
+
+  /**
+   * Delete a draft purchase order
+   */
+  static async deletePurchaseOrder(purchaseOrderId: string): Promise<void> {
+    await DatabaseManager.transaction(async (client) => {
+      await this.lockPurchaseOrder(client, purchaseOrderId, ['draft']);
+      await client.query('DELETE FROM purchase_orders WHERE id = $1', [purchaseOrderId]);
+    });
+  }
+
+  /**
+   * List purchase orders, optionally for one branch, supplier or status
+   */
+  static async listPurchaseOrders(filters: PurchaseOrderFilters): Promise<{ purchaseOrders: any[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.branchId) {
+      params.push(filters.branchId);
+      conditions.push(`po.branch_id = $${params.length}`);
+    }
+
+    if (filters.supplierId) {
+      params.push(filters.supplierId);
+      conditions.push(`po.supplier_id = $${params.length}`);
+    }
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`po.status = $${params.length}`);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await DatabaseManager.query(
+      `SELECT COUNT(*) as total FROM purchase_orders po ${whereClause}`,
+      params
+    );
+
+    const result = await DatabaseManager.query(`
+      SELECT
+        po.*,
+        s.name as supplier_name, s.code as supplier_code,
+        b.name as branch_name, b.code as branch_code,
+        (SELECT COUNT(*) FROM purchase_order_items poi WHERE poi.purchase_order_id = po.id) as item_count
+      FROM purchase_orders po
+      JOIN suppliers s ON po.supplier_id = s.id
+      JOIN branches b ON po.branch_id = b.id
+      ${whereClause}
+      ORDER BY po.created_at DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+    `, [...params, filters.limit, filters.offset]);
+
+    return {
+      purchaseOrders: result.rows,
+      total: parseInt(countResult.rows[0].total)
+    };
+  }
+
+  /**
+   * Get a purchase order with its items and goods received notes
+   */
+  static async getPurchaseOrder(purchaseOrderId: string): Promise<any> {
+    const orderResult = await DatabaseManager.query(`
+      SELECT
+        po.*,
+        s.name as supplier_name, s.code as supplier_code, s.phone as supplier_phone, s.email as supplier_email,
+        b.name as branch_name, b.code as branch_code
+      FROM purchase_orders po
+      JOIN suppliers s ON po.supplier_id = s.id
+      JOIN branches b ON po.branch_id = b.id
+      WHERE po.id = $1
+    `, [purchaseOrderId]);
+
+    if (orderResult.rows.length === 0) {
+      throw createError('Purchase order not found', 404);
+    }
+
+    const itemsResult = await DatabaseManager.query(`
+      SELECT
+        poi.*,
+        p.name as product_name, p.sku, p.barcode,
+        sp.supplier_sku
+      FROM purchase_order_items poi
+      JOIN purchase_orders po ON poi.purchase_order_id = po.id
+      JOIN products p ON poi.product_id = p.id
+      LEFT JOIN supplier_products sp ON sp.supplier_id = po.supplier_id AND sp.product_id = poi.product_id
+      WHERE poi.purchase_order_id = $1
+      ORDER BY p.name
+    `, [purchaseOrderId]);
+
+    const receiptsResult = await DatabaseManager.query(`
+      SELECT
+        grn.*,
+        COALESCE(json_agg(json_build_object(
+          'purchase_order_item_id', grni.purchase_order_item_id,
+          'product_id', grni.product_id,
+          'quantity_received', grni.quantity_received,
+          'unit_cost', grni.unit_cost,
+          'notes', grni.notes
+        )) FILTER (WHERE grni.id IS NOT NULL), '[]') as items
+      FROM goods_received_notes grn
+      LEFT JOIN goods_received_note_items grni ON grni.goods_received_note_id = grn.id
+      WHERE grn.purchase_order_id = $1
+      GROUP BY grn.id
+      ORDER BY grn.received_at
+    `, [purchaseOrderId]);
+
+    return {
+      ...orderResult.rows[0],
+      items: itemsResult.rows,
+      receipts: receiptsResult.rows
+    };
+  }
+
+  /**
+   * Submit a draft for approval by the main office
+   */
+  static async submitPurchaseOrder(purchaseOrderId: string): Promise<any> {
+    await DatabaseManager.transaction(async (client) => {
+      await this.lockPurchaseOrder(client, purchaseOrderId, ['draft']);
+
+      const itemsResult = await client.query(
+        'SELECT COUNT(*) as count FROM purchase_order_items WHERE purchase_order_id = $1',
+        [purchaseOrderId]
+      );
+      if (parseInt(itemsResult.rows[0].count) === 0) {
+        throw createError('A purchase order needs at least one item', 400);
+      }
+
+      await client.query(
+        `UPDATE purchase_orders SET status = 'submitted', submitted_at = NOW() WHERE id = $1`,
+        [purchaseOrderId]
+      );
+    });
+
+    return this.getPurchaseOrder(purchaseOrderId);
+  }
+
+  /**
+   * Approve a submitted purchase order
+   */
+  static async approvePurchaseOrder(purchaseOrderId: string, approvedBy?: string): Promise<any> {
+    await DatabaseManager.transaction(async (client) => {
+      await this.lockPurchaseOrder(client, purchaseOrderId, ['submitted']);
+
+      await client.query(`
+        UPDATE purchase_orders
+        SET status = 'approved', approved_by = $1, approved_at = NOW()
+        WHERE id = $2
+      `, [approvedBy || null, purchaseOrderId]);
+    });
+
+    return this.getPurchaseOrder(purchaseOrderId);
+  }
+
+  /**
+   * Reject a submitted purchase order
+   */
+  static async rejectPurchaseOrder(purchaseOrderId: string, reason: string, rejectedBy?: string): Promise<any> {
+    await DatabaseManager.transaction(async (client) => {
+      await this.lockPurchaseOrder(client, purchaseOrderId, ['submitted']);
+
+      await client.query(`
+        UPDATE purchase_orders
+        SET status = 'rejected', rejection_reason = $1, approved_by = $2, approved_at = NOW()
+        WHERE id = $3
+      `, [reason, rejectedBy || null, purchaseOrderId]);
+    });
+
+    return this.getPurchaseOrder(purchaseOrderId);
+  }
+
+  /**
+   * Record that an approved purchase order was sent to the supplier
+   */
+  static async markOrdered(purchaseOrderId: string): Promise<any> {
+    await DatabaseManager.transaction(async (client) => {
+      await this.lockPurchaseOrder(client, purchaseOrderId, ['approved']);
+
+      await client.query(
+        `UPDATE purchase_orders SET status = 'ordered', ordered_at = NOW() WHERE id = $1`,
+        [purchaseOrderId]
+      );
+    });
+
+    return this.getPurchaseOrder(purchaseOrderId);
+  }
+
+  /**
+   * Cancel a purchase order before anything was received against it
+   */
+  static async cancelPurchaseOrder(purchaseOrderId: string): Promise<any> {
+    await DatabaseManager.transaction(async (client) => {
+      await this.lockPurchaseOrder(client, purchaseOrderId, ['draft', 'submitted', 'approved', 'ordered']);
+
+      await client.query(
+        `UPDATE purchase_orders SET status = 'cancelled', cancelled_at = NOW() WHERE id = $1`,
+        [purchaseOrderId]
+      );
+    });
+
+    return this.getPurchaseOrder(purchaseOrderId);
+  }
+
+  /**
+   * Receive a delivery at the ordering branch: record a goods received note and post
+   * purchase movements at the received cost. Quantities default to everything still
+   * outstanding; unit costs default to the ordered cost.
+   */
+  static async receiveGoods(purchaseOrderId: string, branchId: string, request: ReceiveRequest): Promise<any> {
+    const goodsReceivedNote = await DatabaseManager.transaction(async (client) => {
+      const order = await this.lockPurchaseOrder(client, purchaseOrderId, ['approved', 'ordered', 'partially_received']);
+
+      if (order.branch_id !== branchId) {
+        throw createError('Only the ordering branch can receive this purchase order', 403);
+      }
+
+      const itemsResult = await client.query(`
+        SELECT poi.*, p.name as product_name
+        FROM purchase_order_items poi
+        JOIN products p ON poi.product_id = p.id
+        WHERE poi.purchase_order_id = $1
+        FOR UPDATE OF poi
+      `, [purchaseOrderId]);
+
+      const lines = this.planReceipt(itemsResult.rows, request.items);
+      if (lines.length === 0) {
+        throw createError('Nothing to receive', 400);
+      }
+
+      const totalCost = this.roundMoney(lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0));
+
+      const noteResult = await client.query(`
+        INSERT INTO goods_received_notes (
+          grn_number, purchase_order_id, branch_id, supplier_invoice_number, received_by, total_cost, notes
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING *
+      `, [
+        this.generateNumber('GRN'), purchaseOrderId, branchId, request.supplierInvoiceNumber || null,
+        request.receivedBy || null, totalCost, request.notes || null
+      ]);
+      const note = noteResult.rows[0];
+
+      for (const line of lines) {
+        await client.query(`
+          INSERT INTO goods_received_note_items (
+            goods_received_note_id, purchase_order_item_id, product_id, quantity_received, unit_cost, notes
+          ) VALUES ($1, $2, $3, $4, $5, $6)
+        `, [note.id, line.itemId, line.productId, line.quantity, line.unitCost, line.notes || null]);
+
+        await client.query(
+          'UPDATE purchase_order_items SET quantity_received = quantity_received + $1 WHERE id = $2',
+          [line.quantity, line.itemId]
+        );
+
+        await this.postPurchaseMovement(client, branchId, line.productId, line.quantity, line.unitCost, note.id,
+          `${order.po_number} received (${note.grn_number})`);
+      }
+
+      const outstandingResult = await client.query(
+        'SELECT COUNT(*) as count FROM purchase_order_items WHERE purchase_order_id = $1 AND quantity_received < quantity_ordered',
+        [purchaseOrderId]
+      );
+      const fullyReceived = parseInt(outstandingResult.rows[0].count) === 0;
+
+      await client.query(`
+        UPDATE purchase_orders
+        SET status = $1::varchar, received_at = CASE WHEN $1::varchar = 'received' THEN NOW() ELSE received_at END
+        WHERE id = $2
+      `, [fullyReceived ? 'received' : 'partially_received', purchaseOrderId]);
+
+      return note;
+    });
+
+    return {
+      ...(await this.getPurchaseOrder(purchaseOrderId)),
+      goods_received_note: goodsReceivedNote
+    };
+  }
+
+  /**
+   * Draft purchase orders for every branch item at or below its reorder point, one per
+   * branch and preferred supplier. The reorder point is the item's reorder_point, then
+   * its min_stock_level, then the chain-wide low_stock_threshold setting; stock already
+   * on open purchase orders counts towards it.
+   */
+  static async generateReorderPurchaseOrders(options: { branchId?: string; createdBy?: string } = {}): Promise<ReorderResult> {
+    const candidates = await this.findReorderCandidates(options.branchId);
+
+    const orders = new Map<string, CreatePurchaseOrderRequest>();
+    const withoutSupplier: ReorderResult['withoutSupplier'] = [];
+
+    for (const candidate of candidates) {
+      const quantity = this.reorderQuantity(candidate);
+      if (quantity <= 0) continue;
+
+      if (!candidate.supplierId) {
+        withoutSupplier.push({
+          branchId: candidate.branchId,
+          productId: candidate.productId,
+          productName: candidate.productName,
+          quantity
+        });
+        continue;
+      }
+
+      const key = `${candidate.branchId}:${candidate.supplierId}`;
+      if (!orders.has(key)) {
+        orders.set(key, {
+          branchId: candidate.branchId,
+          supplierId: candidate.supplierId,
+          createdBy: options.createdBy,
+          notes: 'Generated from reorder points',
+          items: []
+        });
+      }
+      orders.get(key)!.items.push({
+        productId: candidate.productId,
+        quantityOrdered: quantity,
+        unitCost: candidate.unitCost
+      });
+    }
+
+    const purchaseOrders = [];
+    for (const order of orders.values()) {
+      purchaseOrders.push(await this.createPurchaseOrder(order, 'reorder'));
+    }
+
+    return { purchaseOrders, withoutSupplier };
+  }
+
+  /**
+   * Quantity to order for a reorder candidate (no database access): enough to reach the
+   * maximum stock level, or twice the reorder point when no maximum is set, rounded up
+   * to a multiple of the supplier's minimum order quantity
+   */
+  static reorderQuantity(candidate: Pick<ReorderCandidate, 'quantityInStock' | 'quantityOnOrder' | 'reorderPoint' | 'maxStockLevel' | 'minOrderQuantity'>): number {
+    const available = candidate.quantityInStock + candidate.quantityOnOrder;
+    if (candidate.reorderPoint <= 0 || available > candidate.reorderPoint) {
+      return 0;
+    }
+
+    const target = candidate.maxStockLevel && candidate.maxStockLevel > candidate.reorderPoint
+      ? candidate.maxStockLevel
+      : candidate.reorderPoint * 2;
+    const needed = target - available;
+    if (needed <= 0) {
+      return 0;
+    }
+
+    const packSize = candidate.minOrderQuantity > 0 ? candidate.minOrderQuantity : 1;
+    return Math.round(Math.ceil(needed / packSize - 1e-9) * packSize * 1000) / 1000;
+  }
+
+  // =================================================================
+  // PRIVATE HELPERS
+  // =================================================================
+
+  private static async findReorderCandidates(branchId?: string): Promise<ReorderCandidate[]> {
+    const params: any[] = [OPEN_STATUSES];
+    let branchFilter = '';
+    if (branchId) {
+      params.push(branchId);
+      branchFilter = `AND bi.branch_id = $${params.length}`;
+    }
+
+    const result = await DatabaseManager.query(`
+      WITH default_threshold AS (
+        SELECT COALESCE((SELECT value::numeric FROM system_settings WHERE key = 'low_stock_threshold'), 0) as value
+      ),
+      on_order AS (
+        SELECT po.branch_id, poi.product_id, SUM(GREATEST(poi.quantity_ordered - poi.quantity_received, 0)) as quantity
+        FROM purchase_order_items poi
+        JOIN purchase_orders po ON poi.purchase_order_id = po.id
+        WHERE po.status = ANY($1::text[])
+        GROUP BY po.branch_id, poi.product_id
+      ),
+      levels AS (
+        SELECT
+          bi.branch_id, bi.product_id, bi.quantity_in_stock, bi.max_stock_level,
+          COALESCE(NULLIF(bi.reorder_point, 0), NULLIF(bi.min_stock_level, 0), dt.value) as reorder_point,
+          COALESCE(oo.quantity, 0) as quantity_on_order
+        FROM branch_inventory bi
+        CROSS JOIN default_threshold dt
+        LEFT JOIN on_order oo ON oo.branch_id = bi.branch_id AND oo.product_id = bi.product_id
+        WHERE 1=1 ${branchFilter}
+      )
+      SELECT
+        l.*,
+        p.name as product_name,
+        s.id as supplier_id,
+        COALESCE(sp.min_order_quantity, 1) as min_order_quantity,
+        COALESCE(sp.unit_cost, bpp.cost, p.cost, 0) as unit_cost
+      FROM levels l
+      JOIN branches b ON l.branch_id = b.id AND b.is_active = true
+      JOIN products p ON l.product_id = p.id AND p.is_active = true
+      LEFT JOIN supplier_products sp ON sp.product_id = p.id AND sp.is_preferred = true
+      LEFT JOIN suppliers s ON sp.supplier_id = s.id AND s.is_active = true
+      LEFT JOIN branch_product_pricing bpp ON bpp.branch_id = l.branch_id AND bpp.product_id = l.product_id
+      WHERE l.reorder_point > 0
+        AND l.quantity_in_stock + l.quantity_on_order <= l.reorder_point
+      ORDER BY b.name, p.name
+    `, params);
+
+    return result.rows.map((row: any) => ({
+      branchId: row.branch_id,
+      productId: row.product_id,
+      productName: row.product_name,
+      supplierId: row.supplier_id,
+      quantityInStock: parseFloat(row.quantity_in_stock) || 0,
+      quantityOnOrder: parseFloat(row.quantity_on_order) || 0,
+      reorderPoint: parseFloat(row.reorder_point) || 0,
+      maxStockLevel: row.max_stock_level !== null ? parseFloat(row.max_stock_level) : null,
+      minOrderQuantity: parseFloat(row.min_order_quantity) || 1,
+      unitCost: parseFloat(row.unit_cost) || 0
+    }));
+  }
+
+  private static async insertItems(client: PoolClient, purchaseOrderId: string, supplierId: string, items: PurchaseOrderItemInput[]): Promise<void> {
+    const productIds = [...new Set(items.map(item => item.productId))];
+    if (productIds.length !== items.length) {
+      throw createError('Each product can only appear once per purchase order', 400);
+    }
+
+    const costsResult = await client.query(`
+      SELECT p.id, COALESCE(sp.unit_cost, p.cost, 0) as cost
+      FROM products p
+      LEFT JOIN supplier_products sp ON sp.product_id = p.id AND sp.supplier_id = $2
+      WHERE p.id = ANY($1::uuid[])
+    `, [productIds, supplierId]);
+    if (costsResult.rows.length !== productIds.length) {
+      throw createError('One or more products not found', 404);
+    }
+
+    const defaultCosts = new Map<string, number>(
+      costsResult.rows.map((row: any) => [row.id, parseFloat(row.cost)])
+    );
+
+    for (const item of items) {
+      await client.query(`
+        INSERT INTO purchase_order_items (
+          purchase_order_id, product_id, quantity_ordered, unit_cost, notes
+        ) VALUES ($1, $2, $3, $4, $5)
+      `, [purchaseOrderId, item.productId, item.quantityOrdered, item.unitCost ?? defaultCosts.get(item.productId), item.notes || null]);
+    }
+
+    await client.query(`
+      UPDATE purchase_orders
+      SET total_cost = (
+        SELECT COALESCE(SUM(quantity_ordered * unit_cost), 0)
+        FROM purchase_order_items WHERE purchase_order_id = $1
+      )
+      WHERE id = $1
+    `, [purchaseOrderId]);
+  }
+
+  // Lines of a delivery; the PO items must be locked by the caller
+  private static planReceipt(items: any[], requested: ReceiveLine[]): Array<ReceiveLine & { productId: string; unitCost: number }> {
+    const itemsById = new Map(items.map(item => [item.id, item]));
+    const unknown = requested.find(line => !itemsById.has(line.itemId));
+    if (unknown) {
+      throw createError(`Item ${unknown.itemId} does not belong to this purchase order`, 400);
+    }
+
+    const lines: ReceiveLine[] = requested.length > 0
+      ? requested
+      : items.map(item => ({
+        itemId: item.id,
+        quantity: Math.max(parseFloat(item.quantity_ordered) - parseFloat(item.quantity_received), 0)
+      }));
+
+    // An item may arrive on several lines, e.g. at different costs; check their sum
+    const receiving = new Map<string, number>();
+
+    return lines
+      .filter(line => line.quantity > 0)
+      .map(line => {
+        const item = itemsById.get(line.itemId);
+        const outstanding = parseFloat(item.quantity_ordered) - parseFloat(item.quantity_received);
+        const quantity = (receiving.get(line.itemId) ?? 0) + line.quantity;
+        receiving.set(line.itemId, quantity);
+
+        if (quantity > outstanding + 1e-9) {
+          throw createError(`Cannot receive more than the outstanding quantity (${outstanding}) for ${item.product_name}`, 400);
+        }
+
+        return {
+          ...line,
+          productId: item.product_id,
+          unitCost: line.unitCost ?? parseFloat(item.unit_cost)
+        };
+      });
+  }
+
+  private static async lockPurchaseOrder(client: PoolClient, purchaseOrderId: string, allowedStatuses: PurchaseOrderStatus[]): Promise<any> {
+    const result = await client.query(
+      'SELECT * FROM purchase_orders WHERE id = $1 FOR UPDATE',
+      [purchaseOrderId]
+    );
+
+    if (result.rows.length === 0) {
+      throw createError('Purchase order not found', 404);
+    }
+
+    const order = result.rows[0];
+    if (!allowedStatuses.includes(order.status)) {
+      throw createError(`Purchase order is ${order.status}; expected ${allowedStatuses.join(' or ')}`, 409);
+    }
+
+    return order;
+  }
+
+  private static async postPurchaseMovement(
+    client: PoolClient,
+    branchId: string,
+    productId: string,
+    quantity: number,
+    unitCost: number,
+    goodsReceivedNoteId: string,
+    notes: string
+  ): Promise<void> {
+    const movementResult = await client.query(`
+      INSERT INTO stock_movements (
+        branch_id, product_id, movement_type, quantity, unit_cost,
+        reference_id, reference_type, notes, created_at
+      ) VALUES (
+        $1, $2, 'purchase', $3, $4, $5, 'goods_received_note', $6, NOW()
+      )
+      RETURNING id
+    `, [branchId, productId, quantity, unitCost, goodsReceivedNoteId, notes]);
+
+    await CostingService.receive({
+      branchId,
+      productId,
+      quantity,
+      unitCost,
+      movementType: 'purchase',
+      movementId: movementResult.rows[0].id
+    }, client);
+
+    await client.query(`
+      INSERT INTO branch_inventory (
+        branch_id, product_id, quantity_in_stock, last_movement_at, updated_at
+      ) VALUES (
+        $1, $2, $3, NOW(), NOW()
+      )
+      ON CONFLICT (branch_id, product_id)
+      DO UPDATE SET
+        quantity_in_stock = branch_inventory.quantity_in_stock + $3::numeric,
+        last_movement_at = NOW(),
+        updated_at = NOW()
+    `, [branchId, productId, quantity]);
+  }
+
+  private static roundMoney(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  private static generateNumber(prefix: 'PO' | 'GRN'): string {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const suffix = Math.random().toString(36).substring(2, 8).toUpperCase();
+    return `${prefix}-${date}-${suffix}`;
+  }
+}
@@ -0,0 +1,624 @@
+import dayjs from 'dayjs';
+import ExcelJS from 'exceljs';
+import { Response } from 'express';
+import PDFDocument from 'pdfkit';
+import QueryStream from 'pg-query-stream';
+import { DatabaseManager } from '../database/manager';
+
+// =================================================================
+// INTERFACES AND TYPES
+// =================================================================
+
+export const REPORT_EXPORT_TYPES = ['sales', 'products', 'employees', 'inventory', 'financial', 'branches'] as const;
+export const REPORT_EXPORT_FORMATS = ['csv', 'xlsx', 'pdf'] as const;
+
+export type ReportExportType = typeof REPORT_EXPORT_TYPES[number];
+export type ReportExportFormat = typeof REPORT_EXPORT_FORMATS[number];
+
+export interface ReportExportParams {
+  start_date?: string;
+  end_date?: string;
+  branch_id?: string;
+  employee_id?: string;
+}
+
+interface ReportColumn {
+  key: string;
+  header: string;
+  type?: 'text' | 'date' | 'integer' | 'number' | 'currency';
+  width: number;
+  total?: boolean;
+}
+
+interface ReportDefinition {
+  title: string;
+  columns: ReportColumn[];
+  buildQuery: (params: ReportExportParams) => { text: string; values: any[] };
+}
+
+interface ReportWriter {
+  writeRow: (values: any[]) => Promise<void>;
+  finish: (totals: any[] | null) => Promise<void>;
+}
+
+const CONTENT_TYPES: Record<ReportExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+// Rows fetched from PostgreSQL per round trip while streaming
+const STREAM_BATCH_SIZE = 500;
+
+/**
+ * Resolves once the response has flushed its buffer; a closed response settles it too,
+ * so an aborted download never leaves the export waiting for a 'drain' that will not come
+ */
+const waitForDrain = (res: Response) => new Promise<void>(resolve => {
+  if (!res.writableNeedDrain || res.destroyed) {
+    resolve();
+    return;
+  }
+
+  const done = () => {
+    res.off('drain', done);
+    res.off('close', done);
+    resolve();
+  };
+  res.once('drain', done);
+  res.once('close', done);
+});
+
+// =================================================================
+// REPORT DEFINITIONS
+// =================================================================
+
+/**
+ * Collects WHERE conditions with positional parameters
+ */
+const createFilter = () => {
+  const conditions: string[] = [];
+  const values: any[] = [];
+
+  return {
+    conditions,
+    values,
+    add(condition: (placeholder: string) => string, value: any) {
+      values.push(value);
+      conditions.push(condition(`$${values.length}`));
+    },
+    addDateRange(column: string, params: ReportExportParams) {
+      if (params.start_date) this.add(p => `DATE(${column}) >= ${p}`, params.start_date);
+      if (params.end_date) this.add(p => `DATE(${column}) <= ${p}`, params.end_date);
+    },
+    and() {
+      return conditions.map(condition => ` AND ${condition}`).join('');
+    },
+  };
+};
+
+const REPORTS: Record<ReportExportType, ReportDefinition> = {
+  sales: {
+    title: 'Sales Report',
+    columns: [
+      { key: 'date', header: 'Date', type: 'date', width: 12 },
+      { key: 'branch_name', header: 'Branch', width: 24 },
+      { key: 'transaction_count', header: 'Transactions', type: 'integer', width: 14, total: true },
+      { key: 'total_sales', header: 'Total Sales', type: 'currency', width: 16, total: true },
+      { key: 'total_tax', header: 'Tax', type: 'currency', width: 14, total: true },
+      { key: 'average_sale', header: 'Average Sale', type: 'currency', width: 14 },
+    ],
+    buildQuery: (params) => {
+      const filter = createFilter();
+      filter.addDateRange('t.created_at', params);
+      if (params.branch_id) filter.add(p => `t.branch_id = ${p}`, params.branch_id);
+      if (params.employee_id) filter.add(p => `t.employee_id = ${p}`, params.employee_id);
+
+      return {
+        text: `
+          SELECT
+            DATE(t.created_at) as date,
+            b.name as branch_name,
+            COUNT(t.id) as transaction_count,
+            SUM(t.total_amount) as total_sales,
+            SUM(t.tax_amount) as total_tax,
+            AVG(t.total_amount) as average_sale
+          FROM transactions t
+          LEFT JOIN branches b ON t.branch_id = b.id
+          WHERE t.status = 'completed'${filter.and()}
+          GROUP BY DATE(t.created_at), b.name
+          ORDER BY date DESC, b.name ASC
+        `,
+        values: filter.values,
+      };
+    },
+  },
+
+  products: {
+    title: 'Product Performance Report',
+    columns: [
+      { key: 'sku', header: 'SKU', width: 14 },
+      { key: 'name', header: 'Product', width: 30 },
+      { key: 'category_name', header: 'Category', width: 18 },
+      { key: 'base_price', header: 'Base Price', type: 'currency', width: 12 },
+      { key: 'total_quantity_sold', header: 'Quantity Sold', type: 'number', width: 14, total: true },
+      { key: 'total_revenue', header: 'Revenue', type: 'currency', width: 16, total: true },
+      { key: 'transaction_count', header: 'Transactions', type: 'integer', width: 13, total: true },
+    ],
+    buildQuery: (params) => {
+      const filter = createFilter();
+      filter.addDateRange('t.created_at', params);
+      if (params.branch_id) filter.add(p => `t.branch_id = ${p}`, params.branch_id);
+      if (params.employee_id) filter.add(p => `t.employee_id = ${p}`, params.employee_id);
+
+      return {
+        text: `
+          SELECT
+            p.sku, p.name, c.name as category_name, p.base_price,
+            SUM(ti.quantity) as total_quantity_sold,
+            SUM(ti.total_amount) as total_revenue,
+            COUNT(DISTINCT t.id) as transaction_count
+          FROM transaction_items ti
+          JOIN transactions t ON ti.transaction_id = t.id
+          JOIN products p ON ti.product_id = p.id
+          LEFT JOIN categories c ON p.category_id = c.id
+          WHERE t.status = 'completed'${filter.and()}
+          GROUP BY p.id, p.sku, p.name, p.base_price, c.name
+          ORDER BY total_revenue DESC
+        `,
+        values: filter.values,
+      };
+    },
+  },
+
+  employees: {
+    title: 'Employee Performance Report',
+    columns: [
+      { key: 'name', header: 'Employee', width: 26 },
+      { key: 'role', header: 'Role', width: 14 },
+      { key: 'branch_name', header: 'Branch', width: 24 },
+      { key: 'transaction_count', header: 'Transactions', type: 'integer', width: 14, total: true },
+      { key: 'total_sales', header: 'Total Sales', type: 'currency', width: 16, total: true },
+      { key: 'average_sale', header: 'Average Sale', type: 'currency', width: 14 },
+    ],
+    buildQuery: (params) => {
+      const filter = createFilter();
+      filter.addDateRange('t.created_at', params);
+      if (params.branch_id) filter.add(p => `e.branch_id = ${p}`, params.branch_id);
+      if (params.employee_id) filter.add(p => `e.id = ${p}`, params.employee_id);
+
+      return {
+        text: `
+          SELECT
+            e.name, e.role, b.name as branch_name,
+            COUNT(t.id) as transaction_count,
+            SUM(t.total_amount) as total_sales,
+            AVG(t.total_amount) as average_sale
+          FROM transactions t
+          JOIN employees e ON t.employee_id = e.id
+          LEFT JOIN branches b ON e.branch_id = b.id
+          WHERE t.status = 'completed'${filter.and()}
+          GROUP BY e.id, e.name, e.role, b.name
+          ORDER BY total_sales DESC
+        `,
+        values: filter.values,
+      };
+    },
+  },
+
+  inventory: {
+    title: 'Inventory Report',
+    columns: [
+      { key: 'branch_name', header: 'Branch', width: 22 },
+      { key: 'sku', header: 'SKU', width: 14 },
+      { key: 'name', header: 'Product', width: 30 },
+      { key: 'category_name', header: 'Category', width: 18 },
+      { key: 'quantity', header: 'In Stock', type: 'number', width: 11, total: true },
+      { key: 'min_stock', header: 'Min', type: 'number', width: 8 },
+      { key: 'max_stock', header: 'Max', type: 'number', width: 8 },
+      { key: 'unit_cost', header: 'Unit Cost', type: 'currency', width: 12 },
+      { key: 'inventory_value', header: 'Stock Value', type: 'currency', width: 15, total: true },
+      { key: 'stock_status', header: 'Status', width: 13 },
+    ],
+    // Inventory is a point-in-time snapshot, so the date range does not apply
+    buildQuery: (params) => {
+      const filter = createFilter();
+      if (params.branch_id) filter.add(p => `i.branch_id = ${p}`, params.branch_id);
+
+      return {
+        text: `
+          SELECT
+            b.name as branch_name, p.sku, p.name, c.name as category_name,
+            i.quantity_in_stock as quantity, i.min_stock_level as min_stock, i.max_stock_level as max_stock,
+            v.average_cost as unit_cost,
+            v.inventory_value,
+            CASE
+              WHEN i.quantity_in_stock = 0 THEN 'out_of_stock'
+              WHEN i.quantity_in_stock <= i.min_stock_level THEN 'low_stock'
+              ELSE 'in_stock'
+            END as stock_status
+          FROM branch_inventory i
+          JOIN products p ON i.product_id = p.id
+          JOIN branch_inventory_valuation v ON v.branch_id = i.branch_id AND v.product_id = i.product_id
+          LEFT JOIN branches b ON i.branch_id = b.id
+          LEFT JOIN categories c ON p.category_id = c.id
+          WHERE p.is_active = true${filter.and()}
+          ORDER BY b.name ASC, p.name ASC
+        `,
+        values: filter.values,
+      };
+    },
+  },
+
+  financial: {
+    title: 'Financial Report',
+    columns: [
+      { key: 'date', header: 'Date', type: 'date', width: 12 },
+      { key: 'payment_method', header: 'Payment Method', width: 18 },
+      { key: 'transaction_count', header: 'Transactions', type: 'integer', width: 14, total: true },
+      { key: 'total_revenue', header: 'Revenue', type: 'currency', width: 16, total: true },
+      { key: 'total_tax', header: 'Tax', type: 'currency', width: 14, total: true },
+      { key: 'cost_of_goods_sold', header: 'Cost of Goods', type: 'currency', width: 16, total: true },
+      { key: 'gross_profit', header: 'Gross Profit', type: 'currency', width: 16, total: true },
+    ],
+    buildQuery: (params) => {
+      const filter = createFilter();
+      filter.addDateRange('t.created_at', params);
+      if (params.branch_id) filter.add(p => `t.branch_id = ${p}`, params.branch_id);
+      if (params.employee_id) filter.add(p => `t.employee_id = ${p}`, params.employee_id);
+
+      return {
+        text: `
+          SELECT
+            DATE(t.created_at) as date,
+            t.payment_method,
+            COUNT(*) as transaction_count,
+            SUM(t.total_amount) as total_revenue,
+            SUM(t.tax_amount) as total_tax,
+            SUM(cogs.amount) as cost_of_goods_sold,
+            SUM(t.total_amount - t.tax_amount - cogs.amount) as gross_profit
+          FROM transactions t
+          LEFT JOIN LATERAL (
+            SELECT COALESCE(SUM(COALESCE(ti.cost_amount, ti.quantity * COALESCE(ti.unit_cost, p.cost, 0))), 0) as amount
+            FROM transaction_items ti
+            LEFT JOIN products p ON ti.product_id = p.id
+            WHERE ti.transaction_id = t.id
+          ) cogs ON true
+          WHERE t.status = 'completed'${filter.and()}
+          GROUP BY DATE(t.created_at), t.payment_method
+          ORDER BY date DESC, payment_method ASC
+        `,
+        values: filter.values,
+      };
+    },
+  },
+
+  branches: {
+    title: 'Branch Comparison Report',
+    columns: [
+      { key: 'code', header: 'Code', width: 10 },
+      { key: 'name', header: 'Branch', width: 26 },
+      { key: 'transaction_count', header: 'Transactions', type: 'integer', width: 14, total: true },
+      { key: 'total_sales', header: 'Total Sales', type: 'currency', width: 16, total: true },
+      { key: 'average_sale', header: 'Average Sale', type: 'currency', width: 14 },
+      { key: 'employee_count', header: 'Employees', type: 'integer', width: 11, total: true },
+    ],
+    buildQuery: (params) => {
+      // Date filters belong to the transaction join so branches without sales still appear
+      const joinFilter = createFilter();
+      joinFilter.addDateRange('t.created_at', params);
+      if (params.employee_id) joinFilter.add(p => `t.employee_id = ${p}`, params.employee_id);
+
+      let branchCondition = '';
+      if (params.branch_id) {
+        joinFilter.values.push(params.branch_id);
+        branchCondition = ` AND b.id = $${joinFilter.values.length}`;
+      }
+
+      return {
+        text: `
+          SELECT
+            b.code, b.name,
+            COALESCE(sales.transaction_count, 0) as transaction_count,
+            COALESCE(sales.total_sales, 0) as total_sales,
+            COALESCE(sales.average_sale, 0) as average_sale,
+            (SELECT COUNT(*) FROM employees e WHERE e.branch_id = b.id AND e.status = 'active') as employee_count
+          FROM branches b
+          LEFT JOIN LATERAL (
+            SELECT COUNT(t.id) as transaction_count, SUM(t.total_amount) as total_sales, AVG(t.total_amount) as average_sale
+            FROM transactions t
+            WHERE t.branch_id = b.id AND t.status = 'completed'${joinFilter.and()}
+          ) sales ON true
+          WHERE b.is_active = true${branchCondition}
+          ORDER BY total_sales DESC NULLS LAST
+        `,
+        values: joinFilter.values,
+      };
+    },
+  },
+};
+
+// =================================================================
+// EXPORT SERVICE
+// =================================================================
+
+/**
+ * Report Export Service
+ *
+ * Streams report rows straight from a PostgreSQL cursor into a CSV, XLSX or PDF
+ * response, so large exports never sit in memory as a whole.
+ */
+export class ReportExportService {
+  static async exportReport(
+    type: ReportExportType,
+    format: ReportExportFormat,
+    params: ReportExportParams,
+    res: Response
+  ): Promise<void> {
+    const report = REPORTS[type];
+    const { text, values } = report.buildQuery(params);
+
+    const client = await DatabaseManager.getPool().connect();
+    const stream = client.query(new QueryStream(text, values, { batchSize: STREAM_BATCH_SIZE }));
+
+    // The user closed the download: stop reading and close the cursor instead of waiting on the socket
+    let aborted = false;
+    const abort = () => {
+      if (!res.writableFinished) {
+        aborted = true;
+        stream.destroy();
+      }
+    };
+    res.once('close', abort);
+    res.once('error', abort);
+
+    try {
+      const columns = report.columns;
+      const totals: Array<number | null> = columns.map(column => (column.total ? 0 : null));
+
+      res.setHeader('Content-Type', CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${this.getFileName(type, format, params)}"`);
+
+      const writer = format === 'csv'
+        ? this.createCsvWriter(res, columns)
+        : format === 'xlsx'
+          ? this.createXlsxWriter(res, report)
+          : this.createPdfWriter(res, report, params);
+
+      for await (const row of stream) {
+        const rowValues = columns.map(column => this.formatValue(row[column.key], column));
+        rowValues.forEach((value, index) => {
+          if (totals[index] !== null && typeof value === 'number') {
+            totals[index] = (totals[index] as number) + value;
+          }
+        });
+        await writer.writeRow(rowValues);
+
+        if (aborted) {
+          break;
+        }
+      }
+
+      if (aborted) {
+        return;
+      }
+
+      await writer.finish(columns.some(column => column.total)
+        ? totals.map((value, index) => (value === null ? null : this.formatValue(value, columns[index])))
+        : null);
+    } catch (error) {
+      if (aborted) {
+        return;
+      }
+
+      if (!res.headersSent) {
+        throw error;
+      }
+
+      // The file is already half-sent; all we can do is abort the download
+      console.error(`Report export (${type}/${format}) failed mid-stream:`, error);
+      res.destroy(error as Error);
+    } finally {
+      res.off('close', abort);
+      res.off('error', abort);
+
+      // Close the cursor if it is still open; the connection goes back to the pool once it has
+      if (!stream.closed) {
+        const closed = new Promise(resolve => stream.once('close', resolve));
+        stream.destroy();
+        await closed;
+      }
+      client.release();
+    }
+  }
+
+  static getFileName(type: ReportExportType, format: ReportExportFormat, params: ReportExportParams): string {
+    const period = params.start_date || params.end_date
+      ? `${params.start_date || 'start'}_${params.end_date || dayjs().format('YYYY-MM-DD')}`
+      : dayjs().format('YYYY-MM-DD');
+
+    return `${type}-report-${period}.${format}`;
+  }
+
+  private static formatValue(value: any, column: ReportColumn): any {
+    if (value === null || value === undefined) {
+      return column.type && column.type !== 'text' && column.type !== 'date' ? 0 : '';
+    }
+
+    switch (column.type) {
+      case 'date':
+        return dayjs(value).format('YYYY-MM-DD');
+      case 'integer':
+        return parseInt(value, 10);
+      case 'number':
+        return parseFloat(value);
+      case 'currency':
+        return Math.round(parseFloat(value) * 100) / 100;
+      default:
+        return String(value);
+    }
+  }
+
+  // -----------------------------------------------------------------
+  // CSV
+  // -----------------------------------------------------------------
+
+  private static createCsvWriter(res: Response, columns: ReportColumn[]): ReportWriter {
+    const escape = (value: any) => {
+      let text = String(value ?? '');
+      // Keep spreadsheet apps from evaluating text cells as formulas
+      if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+        text = `'${text}`;
+      }
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const write = async (line: string) => {
+      if (!res.write(line)) {
+        await waitForDrain(res);
+      }
+    };
+
+    // BOM so Excel opens Cyrillic and Uzbek text as UTF-8
+    res.write('\uFEFF' + columns.map(column => escape(column.header)).join(',') + '\r\n');
+
+    return {
+      writeRow: (values) => write(values.map(escape).join(',') + '\r\n'),
+      finish: async (totals) => {
+        if (totals) {
+          await write(totals.map((value, index) => (index === 0 ? 'Total' : escape(value ?? ''))).join(',') + '\r\n');
+        }
+        res.end();
+      },
+    };
+  }
+
+  // -----------------------------------------------------------------
+  // XLSX
+  // -----------------------------------------------------------------
+
+  private static createXlsxWriter(res: Response, report: ReportDefinition): ReportWriter {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+    const sheet = workbook.addWorksheet(report.title.substring(0, 31), {
+      views: [{ state: 'frozen', ySplit: 1 }],
+    });
+
+    sheet.columns = report.columns.map(column => ({
+      header: column.header,
+      key: column.key,
+      width: column.width,
+      style: column.type === 'currency'
+        ? { numFmt: '#,##0.00' }
+        : column.type === 'number'
+          ? { numFmt: '#,##0.###' }
+          : {},
+    }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.getRow(1).commit();
+
+    return {
+      // Committed rows go through the zip stream into the response; wait for it to flush
+      writeRow: async (values) => {
+        sheet.addRow(values).commit();
+        await waitForDrain(res);
+      },
+      finish: async (totals) => {
+        if (totals) {
+          const row = sheet.addRow(totals.map((value, index) => (index === 0 ? 'Total' : value ?? '')));
+          row.font = { bold: true };
+          row.commit();
+        }
+        sheet.commit();
+        await workbook.commit();
+      },
+    };
+  }
+
+  // -----------------------------------------------------------------
+  // PDF
+  // -----------------------------------------------------------------
+
+  private static createPdfWriter(res: Response, report: ReportDefinition, params: ReportExportParams): ReportWriter {
+    const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: 36 });
+    doc.pipe(res);
+
+    // The built-in Helvetica has no Cyrillic glyphs; point REPORT_PDF_FONT at a TTF that does
+    if (process.env.REPORT_PDF_FONT) {
+      doc.registerFont('report', process.env.REPORT_PDF_FONT);
+      doc.font('report');
+    }
+
+    const left = doc.page.margins.left;
+    const usableWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const totalWeight = report.columns.reduce((sum, column) => sum + column.width, 0);
+    const widths = report.columns.map(column => (column.width / totalWeight) * usableWidth);
+    const rowHeight = 16;
+    const bottom = () => doc.page.height - doc.page.margins.bottom - rowHeight;
+
+    const drawRow = (values: any[], bold = false) => {
+      const y = doc.y;
+      let x = left;
+
+      doc.fontSize(8);
+      if (!process.env.REPORT_PDF_FONT) {
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+      }
+
+      values.forEach((value, index) => {
+        const column = report.columns[index];
+        const numeric = column.type && column.type !== 'text' && column.type !== 'date';
+        const text = typeof value === 'number' && column.type === 'currency'
+          ? value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+          : String(value ?? '');
+
+        doc.text(text, x + 2, y + 4, {
+          width: widths[index] - 4,
+          align: numeric ? 'right' : 'left',
+          lineBreak: false,
+          ellipsis: true,
+        });
+        x += widths[index];
+      });
+
+      doc.moveTo(left, y + rowHeight).lineTo(left + usableWidth, y + rowHeight).lineWidth(0.5).strokeColor('#cccccc').stroke();
+      doc.x = left;
+      doc.y = y + rowHeight;
+    };
+
+    const drawHeader = () => drawRow(report.columns.map(column => column.header), true);
+
+    const filters = [
+      params.start_date || params.end_date ? `Period: ${params.start_date || '...'} - ${params.end_date || '...'}` : null,
+      params.branch_id ? `Branch: ${params.branch_id}` : null,
+      params.employee_id ? `Employee: ${params.employee_id}` : null,
+      `Generated: ${dayjs().format('YYYY-MM-DD HH:mm')}`,
+    ].filter(Boolean).join('   ');
+
+    doc.fontSize(16).text(report.title, { align: 'left' });
+    doc.fontSize(9).fillColor('#555555').text(filters).fillColor('black');
+    doc.moveDown();
+    drawHeader();
+
+    return {
+      writeRow: async (values) => {
+        if (doc.y > bottom()) {
+          doc.addPage();
+          drawHeader();
+        }
+        drawRow(values);
+        await waitForDrain(res);
+      },
+      finish: (totals) => new Promise<void>((resolve, reject) => {
+        if (totals) {
+          if (doc.y > bottom()) {
+            doc.addPage();
+          }
+          drawRow(totals.map((value, index) => (index === 0 ? 'Total' : value ?? '')), true);
+        }
+        res.once('finish', resolve);
+        res.once('error', reject);
+        doc.end();
+      }),
+    };
+  }
+}
@@ -0,0 +1,139 @@
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+
+// =================================================================
+// INTERFACES AND TYPES
+// =================================================================
+
+export interface BranchShiftReport {
+  branch_shift_id: string; // cash_shifts.id at the branch
+  terminal_id: string;
+  shift_number: number;
+  opened_by: string;
+  closed_by?: string | null;
+  opened_at: string;
+  closed_at: string;
+  opening_float: number;
+  expected_cash: number;
+  counted_cash: number;
+  cash_difference: number;
+  notes?: string;
+  report: Record<string, any>; // Z report as produced by the branch
+}
+
+export interface ShiftReportFilters {
+  terminalId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// =================================================================
+// SHIFT REPORT SERVICE
+// =================================================================
+
+/**
+ * Shift Report Service
+ *
+ * Stores the Z reports branches produce when a POS terminal's cash shift is closed,
+ * so the main office can review expected against counted cash per terminal. A branch
+ * may resend a report after a timeout; the stored copy is replaced, not duplicated.
+ */
+export class ShiftReportService {
+  static async saveBranchReport(branchId: string, report: BranchShiftReport): Promise<{ id: string; created: boolean }> {
+    const sales = report.report?.sales || {};
+
+    const result = await DatabaseManager.query(
+      `INSERT INTO branch_shift_reports (
+         branch_id, branch_shift_id, terminal_id, shift_number, opened_by, closed_by,
+         opened_at, closed_at, opening_float, expected_cash, counted_cash, cash_difference,
+         sales_count, sales_total, report, notes
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+       ON CONFLICT (branch_id, branch_shift_id) DO UPDATE SET
+         closed_by = EXCLUDED.closed_by,
+         closed_at = EXCLUDED.closed_at,
+         expected_cash = EXCLUDED.expected_cash,
+         counted_cash = EXCLUDED.counted_cash,
+         cash_difference = EXCLUDED.cash_difference,
+         sales_count = EXCLUDED.sales_count,
+         sales_total = EXCLUDED.sales_total,
+         report = EXCLUDED.report,
+         notes = EXCLUDED.notes
+       RETURNING id, (xmax = 0) AS created`,
+      [
+        branchId, report.branch_shift_id, report.terminal_id, report.shift_number, report.opened_by, report.closed_by || null,
+        report.opened_at, report.closed_at, report.opening_float, report.expected_cash, report.counted_cash, report.cash_difference,
+        parseInt(sales.count || 0), parseFloat(sales.total || 0), JSON.stringify(report.report), report.notes || null
+      ]
+    );
+
+    return { id: result.rows[0].id, created: result.rows[0].created };
+  }
+
+  /**
+   * Closed shifts of a branch, newest first, without the full report
+   */
+  static async listBranchReports(branchId: string, filters: ShiftReportFilters = {}): Promise<{ reports: any[]; total: number }> {
+    const conditions = ['branch_id = $1'];
+    const params: any[] = [branchId];
+
+    if (filters.terminalId) {
+      params.push(filters.terminalId);
+      conditions.push(`terminal_id = $${params.length}`);
+    }
+    if (filters.from) {
+      params.push(filters.from);
+      conditions.push(`closed_at >= $${params.length}`);
+    }
+    if (filters.to) {
+      params.push(filters.to);
+      conditions.push(`closed_at < $${params.length}`);
+    }
+
+    const where = conditions.join(' AND ');
+    const countResult = await DatabaseManager.query(
+      `SELECT COUNT(*) AS total FROM branch_shift_reports WHERE ${where}`,
+      params
+    );
+
+    const result = await DatabaseManager.query(
+      `SELECT id, branch_shift_id, terminal_id, shift_number, opened_by, closed_by, opened_at, closed_at,
+              opening_float, expected_cash, counted_cash, cash_difference, sales_count, sales_total, notes, created_at
+       FROM branch_shift_reports
+       WHERE ${where}
+       ORDER BY closed_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filters.limit || 50, filters.offset || 0]
+    );
+
+    return {
+      reports: result.rows.map((row: any) => this.mapReport(row)),
+      total: parseInt(countResult.rows[0].total)
+    };
+  }
+
+  static async getBranchReport(branchId: string, reportId: string): Promise<any> {
+    const result = await DatabaseManager.query(
+      'SELECT * FROM branch_shift_reports WHERE branch_id = $1 AND id = $2',
+      [branchId, reportId]
+    );
+
+    if (result.rows.length === 0) {
+      throw createError('Shift report not found', 404);
+    }
+
+    return this.mapReport(result.rows[0]);
+  }
+
+  private static mapReport(row: any): any {
+    return {
+      ...row,
+      opening_float: parseFloat(row.opening_float),
+      expected_cash: parseFloat(row.expected_cash),
+      counted_cash: parseFloat(row.counted_cash),
+      cash_difference: parseFloat(row.cash_difference),
+      sales_total: parseFloat(row.sales_total || 0)
+    };
+  }
+}
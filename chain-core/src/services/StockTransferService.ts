@@ -0,0 +1,488 @@
+import { PoolClient } from 'pg';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import { CostingService } from './CostingService';
+
+// =================================================================
+// INTERFACES AND TYPES
+// =================================================================
+
+export type StockTransferStatus = 'requested' | 'approved' | 'rejected' | 'shipped' | 'received' | 'cancelled';
+
+export interface CreateTransferRequest {
+  fromBranchId: string;
+  toBranchId: string;
+  requestedByBranchId?: string;
+  notes?: string;
+  items: Array<{
+    productId: string;
+    quantityRequested: number;
+    urgency?: 'low' | 'medium' | 'high';
+    notes?: string;
+  }>;
+}
+
+export interface TransferItemQuantity {
+  itemId: string;
+  quantity: number;
+  notes?: string;
+}
+
+export interface TransferFilters {
+  branchId?: string;
+  direction?: 'incoming' | 'outgoing';
+  status?: StockTransferStatus;
+  limit: number;
+  offset: number;
+}
+
+export interface TransferDiscrepancy {
+  itemId: string;
+  productId: string;
+  quantityShipped: number;
+  quantityReceived: number;
+  difference: number;
+}
+
+// =================================================================
+// STOCK TRANSFER SERVICE
+// =================================================================
+
+/**
+ * Stock Transfer Service
+ *
+ * Moves stock between branches: a branch or the main office requests a transfer,
+ * the main office approves it, the sending branch ships it and the receiving branch
+ * confirms what actually arrived. Stock movements are posted when stock leaves
+ * (transfer_out) and when it arrives (transfer_in).
+ */
+export class StockTransferService {
+  /**
+   * Create a transfer in the requested state
+   */
+  static async createTransfer(request: CreateTransferRequest): Promise<any> {
+    if (request.fromBranchId === request.toBranchId) {
+      throw createError('A branch cannot transfer stock to itself', 400);
+    }
+
+    const transferId = await DatabaseManager.transaction(async (client) => {
+      const branchesResult = await client.query(
+        'SELECT id FROM branches WHERE id = ANY($1::uuid[]) AND is_active = true',
+        [[request.fromBranchId, request.toBranchId]]
+      );
+      if (branchesResult.rows.length !== 2) {
+        throw createError('Source or destination branch not found', 404);
+      }
+
+      const productIds = [...new Set(request.items.map(item => item.productId))];
+      if (productIds.length !== request.items.length) {
+        throw createError('Each product can only appear once per transfer', 400);
+      }
+
+      const productsResult = await client.query(
+        'SELECT id FROM products WHERE id = ANY($1::uuid[])',
+        [productIds]
+      );
+      if (productsResult.rows.length !== productIds.length) {
+        throw createError('One or more products not found', 404);
+      }
+
+      const transferResult = await client.query(`
+        INSERT INTO stock_transfers (
+          transfer_number, from_branch_id, to_branch_id, status,
+          requested_by_branch_id, notes, requested_at
+        ) VALUES (
+          $1, $2, $3, 'requested', $4, $5, NOW()
+        ) RETURNING id
+      `, [
+        this.generateTransferNumber(), request.fromBranchId, request.toBranchId,
+        request.requestedByBranchId || null, request.notes || null
+      ]);
+
+      const id = transferResult.rows[0].id;
+
+      for (const item of request.items) {
+        await client.query(`
+          INSERT INTO stock_transfer_items (
+            transfer_id, product_id, quantity_requested, urgency, notes
+          ) VALUES ($1, $2, $3, $4, $5)
+        `, [id, item.productId, item.quantityRequested, item.urgency || null, item.notes || null]);
+      }
+
+      return id;
+    });
+
+    return this.getTransfer(transferId);
+  }
+
+  /**
+   * List transfers, optionally limited to those involving one branch
+   */
+  static async listTransfers(filters: TransferFilters): Promise<{ transfers: any[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.branchId) {
+      params.push(filters.branchId);
+      if (filters.direction === 'incoming') {
+        conditions.push(`st.to_branch_id = $${params.length}`);
+      } else if (filters.direction === 'outgoing') {
+        conditions.push(`st.from_branch_id = $${params.length}`);
+      } else {
+        conditions.push(`(st.from_branch_id = $${params.length} OR st.to_branch_id = $${params.length})`);
+      }
+    }
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`st.status = $${params.length}`);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await DatabaseManager.query(
+      `SELECT COUNT(*) as total FROM stock_transfers st ${whereClause}`,
+      params
+    );
+
+    const result = await DatabaseManager.query(`
+      SELECT
+        st.*,
+        fb.name as from_branch_name, fb.code as from_branch_code,
+        tb.name as to_branch_name, tb.code as to_branch_code,
+        (SELECT COUNT(*) FROM stock_transfer_items sti WHERE sti.transfer_id = st.id) as item_count
+      FROM stock_transfers st
+      JOIN branches fb ON st.from_branch_id = fb.id
+      JOIN branches tb ON st.to_branch_id = tb.id
+      ${whereClause}
+      ORDER BY st.requested_at DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+    `, [...params, filters.limit, filters.offset]);
+
+    return {
+      transfers: result.rows,
+      total: parseInt(countResult.rows[0].total)
+    };
+  }
+
+  /**
+   * Get a transfer with its items
+   */
+  static async getTransfer(transferId: string, db: Pick<PoolClient, 'query'> | typeof DatabaseManager = DatabaseManager): Promise<any> {
+    const transferResult = await db.query(`
+      SELECT
+        st.*,
+        fb.name as from_branch_name, fb.code as from_branch_code,
+        tb.name as to_branch_name, tb.code as to_branch_code
+      FROM stock_transfers st
+      JOIN branches fb ON st.from_branch_id = fb.id
+      JOIN branches tb ON st.to_branch_id = tb.id
+      WHERE st.id = $1
+    `, [transferId]);
+
+    if (transferResult.rows.length === 0) {
+      throw createError('Stock transfer not found', 404);
+    }
+
+    const itemsResult = await db.query(`
+      SELECT
+        sti.*,
+        p.name as product_name, p.sku, p.barcode
+      FROM stock_transfer_items sti
+      JOIN products p ON sti.product_id = p.id
+      WHERE sti.transfer_id = $1
+      ORDER BY p.name
+    `, [transferId]);
+
+    return {
+      ...transferResult.rows[0],
+      items: itemsResult.rows
+    };
+  }
+
+  /**
+   * Approve a requested transfer. Quantities default to what was requested;
+   * an approved quantity of 0 drops the line.
+   */
+  static async approveTransfer(transferId: string, approvedBy?: string, quantities: TransferItemQuantity[] = []): Promise<any> {
+    await DatabaseManager.transaction(async (client) => {
+      await this.lockTransfer(client, transferId, ['requested']);
+
+      const items = await this.getItemsForUpdate(client, transferId, quantities);
+      const approved = items.map(item => ({
+        ...item,
+        quantity: this.quantityFor(quantities, item.id, parseFloat(item.quantity_requested))
+      }));
+
+      if (approved.every(item => item.quantity <= 0)) {
+        throw createError('At least one item must be approved', 400);
+      }
+
+      for (const item of approved) {
+        await client.query(
+          'UPDATE stock_transfer_items SET quantity_approved = $1 WHERE id = $2',
+          [item.quantity, item.id]
+        );
+      }
+
+      await client.query(`
+        UPDATE stock_transfers
+        SET status = 'approved', approved_by = $1, approved_at = NOW()
+        WHERE id = $2
+      `, [approvedBy || null, transferId]);
+    });
+
+    return this.getTransfer(transferId);
+  }
+
+  /**
+   * Reject a requested transfer
+   */
+  static async rejectTransfer(transferId: string, reason: string, rejectedBy?: string): Promise<any> {
+    await DatabaseManager.transaction(async (client) => {
+      await this.lockTransfer(client, transferId, ['requested']);
+
+      await client.query(`
+        UPDATE stock_transfers
+        SET status = 'rejected', rejection_reason = $1, approved_by = $2, approved_at = NOW()
+        WHERE id = $3
+      `, [reason, rejectedBy || null, transferId]);
+    });
+
+    return this.getTransfer(transferId);
+  }
+
+  /**
+   * Cancel a transfer that has not been shipped yet
+   */
+  static async cancelTransfer(transferId: string): Promise<any> {
+    await DatabaseManager.transaction(async (client) => {
+      await this.lockTransfer(client, transferId, ['requested', 'approved']);
+
+      await client.query(
+        `UPDATE stock_transfers SET status = 'cancelled' WHERE id = $1`,
+        [transferId]
+      );
+    });
+
+    return this.getTransfer(transferId);
+  }
+
+  /**
+   * Ship an approved transfer from the sending branch and post transfer_out movements
+   */
+  static async shipTransfer(transferId: string, branchId: string, shippedBy?: string, quantities: TransferItemQuantity[] = []): Promise<any> {
+    await DatabaseManager.transaction(async (client) => {
+      const transfer = await this.lockTransfer(client, transferId, ['approved']);
+
+      if (transfer.from_branch_id !== branchId) {
+        throw createError('Only the sending branch can ship this transfer', 403);
+      }
+
+      const items = await this.getItemsForUpdate(client, transferId, quantities);
+
+      for (const item of items) {
+        const approved = parseFloat(item.quantity_approved || 0);
+        const shipped = this.quantityFor(quantities, item.id, approved);
+
+        if (shipped > approved) {
+          throw createError(`Cannot ship more than the approved quantity (${approved}) for ${item.product_name}`, 400);
+        }
+
+        await client.query(
+          'UPDATE stock_transfer_items SET quantity_shipped = $1 WHERE id = $2',
+          [shipped, item.id]
+        );
+
+        if (shipped > 0) {
+          await this.postMovement(client, branchId, item.product_id, 'transfer_out', shipped, transferId,
+            `Transfer ${transfer.transfer_number} shipped`);
+        }
+      }
+
+      await client.query(`
+        UPDATE stock_transfers
+        SET status = 'shipped', shipped_by = $1, shipped_at = NOW()
+        WHERE id = $2
+      `, [shippedBy || null, transferId]);
+    });
+
+    return this.getTransfer(transferId);
+  }
+
+  /**
+   * Receive a shipped transfer at the destination branch and post transfer_in movements.
+   * Received quantities default to what was shipped; any difference is flagged as a discrepancy.
+   */
+  static async receiveTransfer(transferId: string, branchId: string, receivedBy?: string, quantities: TransferItemQuantity[] = []): Promise<any> {
+    const discrepancies = await DatabaseManager.transaction(async (client) => {
+      const transfer = await this.lockTransfer(client, transferId, ['shipped']);
+
+      if (transfer.to_branch_id !== branchId) {
+        throw createError('Only the receiving branch can receive this transfer', 403);
+      }
+
+      const items = await this.getItemsForUpdate(client, transferId, quantities);
+      const received = items.map(item => ({
+        itemId: item.id,
+        productId: item.product_id,
+        quantityShipped: parseFloat(item.quantity_shipped || 0),
+        quantityReceived: this.quantityFor(quantities, item.id, parseFloat(item.quantity_shipped || 0))
+      }));
+
+      for (const item of received) {
+        const notes = quantities.find(quantity => quantity.itemId === item.itemId)?.notes;
+
+        await client.query(`
+          UPDATE stock_transfer_items
+          SET quantity_received = $1, discrepancy_notes = $2
+          WHERE id = $3
+        `, [item.quantityReceived, notes || null, item.itemId]);
+
+        if (item.quantityReceived > 0) {
+          await this.postMovement(client, branchId, item.productId, 'transfer_in', item.quantityReceived, transferId,
+            `Transfer ${transfer.transfer_number} received`);
+        }
+      }
+
+      const found = this.findDiscrepancies(received);
+
+      await client.query(`
+        UPDATE stock_transfers
+        SET status = 'received', received_by = $1, received_at = NOW(), has_discrepancy = $2
+        WHERE id = $3
+      `, [receivedBy || null, found.length > 0, transferId]);
+
+      return found;
+    });
+
+    return {
+      ...(await this.getTransfer(transferId)),
+      discrepancies
+    };
+  }
+
+  /**
+   * Lines where the received quantity differs from the shipped quantity
+   */
+  static findDiscrepancies(items: Array<Omit<TransferDiscrepancy, 'difference'>>): TransferDiscrepancy[] {
+    return items
+      .map(item => ({
+        ...item,
+        difference: Math.round((item.quantityReceived - item.quantityShipped) * 1000) / 1000
+      }))
+      .filter(item => item.difference !== 0);
+  }
+
+  // =================================================================
+  // PRIVATE HELPERS
+  // =================================================================
+
+  private static async lockTransfer(client: PoolClient, transferId: string, allowedStatuses: StockTransferStatus[]): Promise<any> {
+    const result = await client.query(
+      'SELECT * FROM stock_transfers WHERE id = $1 FOR UPDATE',
+      [transferId]
+    );
+
+    if (result.rows.length === 0) {
+      throw createError('Stock transfer not found', 404);
+    }
+
+    const transfer = result.rows[0];
+    if (!allowedStatuses.includes(transfer.status)) {
+      throw createError(`Transfer is ${transfer.status}; expected ${allowedStatuses.join(' or ')}`, 409);
+    }
+
+    return transfer;
+  }
+
+  private static async getItemsForUpdate(client: PoolClient, transferId: string, quantities: TransferItemQuantity[]): Promise<any[]> {
+    const result = await client.query(`
+      SELECT sti.*, p.name as product_name
+      FROM stock_transfer_items sti
+      JOIN products p ON sti.product_id = p.id
+      WHERE sti.transfer_id = $1
+      FOR UPDATE OF sti
+    `, [transferId]);
+
+    const itemIds = new Set(result.rows.map((row: any) => row.id));
+    const unknown = quantities.find(quantity => !itemIds.has(quantity.itemId));
+    if (unknown) {
+      throw createError(`Item ${unknown.itemId} does not belong to this transfer`, 400);
+    }
+
+    return result.rows;
+  }
+
+  private static quantityFor(quantities: TransferItemQuantity[], itemId: string, fallback: number): number {
+    const match = quantities.find(quantity => quantity.itemId === itemId);
+    return match ? match.quantity : fallback;
+  }
+
+  private static async postMovement(
+    client: PoolClient,
+    branchId: string,
+    productId: string,
+    movementType: 'transfer_in' | 'transfer_out',
+    quantity: number,
+    transferId: string,
+    notes: string
+  ): Promise<void> {
+    const stockChange = movementType === 'transfer_in' ? quantity : -quantity;
+
+    // Stock arrives at the cost it left the sending branch with
+    let unitCost: number | null = null;
+    if (movementType === 'transfer_out') {
+      const issued = await CostingService.issue({ branchId, productId, quantity }, client);
+      unitCost = issued.unitCost;
+    } else {
+      const shippedResult = await client.query(`
+        SELECT unit_cost FROM stock_movements
+        WHERE reference_id = $1 AND reference_type = 'transfer' AND movement_type = 'transfer_out' AND product_id = $2
+        ORDER BY created_at DESC
+        LIMIT 1
+      `, [transferId, productId]);
+      unitCost = shippedResult.rows[0]?.unit_cost != null ? parseFloat(shippedResult.rows[0].unit_cost) : null;
+    }
+
+    const movementResult = await client.query(`
+      INSERT INTO stock_movements (
+        branch_id, product_id, movement_type, quantity, unit_cost,
+        reference_id, reference_type, notes, created_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, 'transfer', $7, NOW()
+      )
+      RETURNING id
+    `, [branchId, productId, movementType, quantity, unitCost, transferId, notes]);
+
+    if (movementType === 'transfer_in') {
+      await CostingService.receive({
+        branchId,
+        productId,
+        quantity,
+        unitCost,
+        movementType,
+        movementId: movementResult.rows[0].id
+      }, client);
+    }
+
+    await client.query(`
+      INSERT INTO branch_inventory (
+        branch_id, product_id, quantity_in_stock, last_movement_at, updated_at
+      ) VALUES (
+        $1, $2, GREATEST($3::numeric, 0), NOW(), NOW()
+      )
+      ON CONFLICT (branch_id, product_id)
+      DO UPDATE SET
+        quantity_in_stock = GREATEST(branch_inventory.quantity_in_stock + $3::numeric, 0),
+        last_movement_at = NOW(),
+        updated_at = NOW()
+    `, [branchId, productId, stockChange]);
+  }
+
+  private static generateTransferNumber(): string {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const suffix = Math.random().toString(36).substring(2, 8).toUpperCase();
+    return `TRF-${date}-${suffix}`;
+  }
+}
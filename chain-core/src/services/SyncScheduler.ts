@@ -1,9 +1,19 @@
+import { CronExpressionParser } from 'cron-parser';
+import cron, { ScheduledTask } from 'node-cron';
 import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+import { OneCExchangeService } from './OneCExchangeService';
+import { PriceScheduleService } from './PriceScheduleService';
 import { RedisManager } from './redis';
 
-interface SyncTask {
+export const SYNC_TASK_TYPES = ['products', 'inventory', 'transactions', 'employees', 'branches', 'prices', 'onec_export'] as const;
+
+export type SyncTaskType = typeof SYNC_TASK_TYPES[number];
+export type SyncRunTrigger = 'scheduled' | 'manual' | 'startup';
+
+export interface SyncTask {
   id: string;
-  type: 'products' | 'inventory' | 'transactions' | 'employees' | 'branches';
+  type: SyncTaskType;
   branchId?: string;
   scheduleType: 'interval' | 'cron' | 'manual';
   intervalMinutes?: number;
@@ -15,9 +25,19 @@ interface SyncTask {
   priority: number;
 }
 
-interface SyncResult {
+export interface SyncTaskChanges {
+  scheduleType?: SyncTask['scheduleType'];
+  intervalMinutes?: number | null;
+  cronExpression?: string | null;
+  isActive?: boolean;
+  priority?: number;
+}
+
+export interface SyncResult {
   taskId: string;
   taskType: string;
+  branchId?: string;
+  trigger?: SyncRunTrigger;
   success: boolean;
   recordsProcessed: number;
   errorMessage?: string;
@@ -29,6 +49,8 @@ export class SyncScheduler {
   private static instance: SyncScheduler;
   private tasks: Map<string, SyncTask> = new Map();
   private intervals: Map<string, NodeJS.Timeout> = new Map();
+  private cronJobs: Map<string, ScheduledTask> = new Map();
+  private timezone: string = 'UTC';
   private isRunning: boolean = false;
   private redisManager: RedisManager;
   private isStartupPhase: boolean = false;
@@ -46,8 +68,8 @@ export class SyncScheduler {
   }
 
   private setupDefaultTasks(): void {
-    // Default sync tasks - These are INTERNAL chain-core sync tasks only
-    // NO 1C integration tasks - 1C sync is handled manually via API endpoints
+    // Default sync tasks. 1C pulls master data through the /api/1c endpoints itself;
+    // onec_export pushes sales and stock to 1C once an exchange URL is configured
     const defaultTasks: Omit<SyncTask, 'id'>[] = [
       {
         type: 'products',
@@ -80,11 +102,28 @@ export class SyncScheduler {
         isActive: true,
         status: 'idle',
         priority: 4
+      },
+      {
+        type: 'prices',
+        scheduleType: 'interval',
+        intervalMinutes: 5,
+        isActive: true,
+        status: 'idle',
+        priority: 5
+      },
+      {
+        type: 'onec_export',
+        scheduleType: 'interval',
+        intervalMinutes: 60,
+        isActive: true,
+        status: 'idle',
+        priority: 6
       }
     ];
 
     defaultTasks.forEach(task => {
-      const taskId = this.generateTaskId(task.type, task.branchId);
+      // Stable IDs so restarts pick up the stored defaults instead of inserting new ones
+      const taskId = `${task.type}_all`;
       this.tasks.set(taskId, {
         id: taskId,
         ...task
@@ -105,6 +144,9 @@ export class SyncScheduler {
     // Temporarily reduce database query logging during startup
     DatabaseManager.setVerboseLogging(false);
 
+    // Cron expressions run in the chain's timezone
+    await this.loadTimezone();
+
     // Load tasks from database
     await this.loadTasksFromDatabase();
 
@@ -121,10 +163,7 @@ export class SyncScheduler {
       if (task.isActive) {
         await this.scheduleTask(task);
         // Check if task needs immediate execution (startup sync)
-        const shouldRunImmediately = !task.lastRun || 
-          (task.nextRun && new Date() > task.nextRun);
-        
-        if (shouldRunImmediately) {
+        if (task.scheduleType === 'interval' && this.isOverdue(task)) {
           startupTasks.push(task.type);
         }
       }
@@ -152,7 +191,7 @@ export class SyncScheduler {
       const startupDuration = Date.now() - startupStartTime;
       
       console.log(`🚀 SyncScheduler startup completed: ${startupTasks.length} initial sync tasks executed (${totalRecordsProcessed} total records processed, ${startupTasks.join(', ')}) in ${startupDuration}ms`);
-      console.log(`📋 Active sync schedules: Products(30min), Inventory(15min), Transactions(5min), Employees(60min)`);
+      console.log(`📋 Active sync schedules (${this.timezone}): ${this.describeSchedules()}`);
       
       this.isStartupPhase = false;
       // Re-enable verbose logging after startup
@@ -170,22 +209,47 @@ export class SyncScheduler {
     console.log('Stopping SyncScheduler...');
     this.isRunning = false;
 
-    // Clear all intervals
-    for (const [taskId, interval] of this.intervals.entries()) {
-      clearInterval(interval);
-      this.intervals.delete(taskId);
+    // Clear all intervals and cron jobs
+    for (const taskId of this.tasks.keys()) {
+      this.unscheduleTask(taskId);
     }
 
     console.log('SyncScheduler stopped');
   }
 
+  private async loadTimezone(): Promise<void> {
+    try {
+      const result = await DatabaseManager.query(
+        'SELECT timezone FROM chains ORDER BY created_at ASC LIMIT 1'
+      );
+      const timezone = result.rows[0]?.timezone;
+
+      if (timezone && this.isValidTimezone(timezone)) {
+        this.timezone = timezone;
+      } else if (timezone) {
+        console.error(`Invalid chain timezone "${timezone}", cron tasks will use ${this.timezone}`);
+      }
+    } catch (error) {
+      console.error('Failed to load chain timezone:', error);
+    }
+  }
+
+  private isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   private async loadTasksFromDatabase(): Promise<void> {
     try {
+      // Paused tasks are loaded too so they can be listed and resumed
       const result = await DatabaseManager.query(`
         SELECT id, task_type, branch_id, schedule_type, interval_minutes, 
                cron_expression, is_active, last_run, next_run, status, priority
         FROM sync_tasks
-        WHERE is_active = true
       `);
 
       for (const row of result.rows) {
@@ -199,7 +263,8 @@ export class SyncScheduler {
           isActive: row.is_active,
           lastRun: row.last_run,
           nextRun: row.next_run,
-          status: row.status,
+          // A task still marked running was interrupted by a restart
+          status: row.status === 'running' ? 'failed' : row.status,
           priority: row.priority
         };
 
@@ -255,21 +320,20 @@ export class SyncScheduler {
   }
 
   private async scheduleTask(task: SyncTask): Promise<void> {
+    this.unscheduleTask(task.id);
+
     if (task.scheduleType === 'interval' && task.intervalMinutes) {
       const intervalMs = task.intervalMinutes * 60 * 1000;
       
       // Run immediately if never run before or overdue
-      const shouldRunImmediately = !task.lastRun || 
-        (task.nextRun && new Date() > task.nextRun);
-
-      if (shouldRunImmediately) {
+      if (this.isOverdue(task)) {
         // Run with small delay to avoid blocking
-        setTimeout(() => this.executeTask(task), 1000);
+        setTimeout(() => this.executeTask(task, 'startup'), 1000);
       }
 
       // Schedule recurring execution
       const interval = setInterval(async () => {
-        await this.executeTask(task);
+        await this.executeTask(task, 'scheduled');
       }, intervalMs);
 
       this.intervals.set(task.id, interval);
@@ -277,11 +341,84 @@ export class SyncScheduler {
       // Update next run time
       task.nextRun = new Date(Date.now() + intervalMs);
       await this.updateTaskInDatabase(task);
+    } else if (task.scheduleType === 'cron' && task.cronExpression) {
+      // Cron tasks are not caught up on startup: a missed nightly run
+      // should wait for its next slot rather than fire during store hours
+      const job = cron.schedule(task.cronExpression, () => {
+        this.executeTask(task, 'scheduled');
+      }, { timezone: this.timezone });
+
+      this.cronJobs.set(task.id, job);
+
+      task.nextRun = this.getNextCronRun(task.cronExpression);
+      await this.updateTaskInDatabase(task);
+    } else {
+      // Manual tasks only run when triggered
+      task.nextRun = undefined;
+      await this.updateTaskInDatabase(task);
+    }
+  }
+
+  private unscheduleTask(taskId: string): void {
+    const interval = this.intervals.get(taskId);
+    if (interval) {
+      clearInterval(interval);
+      this.intervals.delete(taskId);
+    }
+
+    const job = this.cronJobs.get(taskId);
+    if (job) {
+      job.stop();
+      this.cronJobs.delete(taskId);
+    }
+  }
+
+  private isOverdue(task: SyncTask): boolean {
+    return !task.lastRun || (!!task.nextRun && new Date() > task.nextRun);
+  }
+
+  private getNextCronRun(cronExpression: string, from: Date = new Date()): Date {
+    return CronExpressionParser.parse(cronExpression, { tz: this.timezone, currentDate: from }).next().toDate();
+  }
+
+  private describeSchedules(): string {
+    return Array.from(this.tasks.values())
+      .filter(task => task.isActive)
+      .map(task => {
+        const name = `${task.type}${task.branchId ? `@${task.branchId}` : ''}`;
+        if (task.scheduleType === 'interval') return `${name}(${task.intervalMinutes}min)`;
+        if (task.scheduleType === 'cron') return `${name}(${task.cronExpression})`;
+        return `${name}(manual)`;
+      })
+      .join(', ');
+  }
+
+  /**
+   * Branches that have their own task of this type; the chain-wide task skips them
+   */
+  private getOverriddenBranchIds(task: SyncTask): string[] {
+    if (task.branchId) {
+      return [];
+    }
+
+    return Array.from(this.tasks.values())
+      .filter(other => other.type === task.type && other.branchId && other.isActive)
+      .map(other => other.branchId!);
+  }
+
+  private validateSchedule(task: Pick<SyncTask, 'scheduleType' | 'intervalMinutes' | 'cronExpression'>): void {
+    if (task.scheduleType === 'interval' && (!task.intervalMinutes || task.intervalMinutes < 1)) {
+      throw createError('Interval tasks need interval_minutes of at least 1', 400);
+    }
+
+    if (task.scheduleType === 'cron') {
+      if (!task.cronExpression || !cron.validate(task.cronExpression)) {
+        throw createError(`Invalid cron expression: ${task.cronExpression || '(empty)'}`, 400);
+      }
     }
-    // TODO: Add cron scheduling support
   }
 
-  private async executeTask(task: SyncTask): Promise<SyncResult> {
+  private async executeTask(task: SyncTask, trigger: SyncRunTrigger): Promise<SyncResult> {
     if (task.status === 'running') {
       if (!this.isStartupPhase) {
         console.log(`Task ${task.id} is already running, skipping...`);
@@ -289,6 +426,8 @@ export class SyncScheduler {
       return {
         taskId: task.id,
         taskType: task.type,
+        branchId: task.branchId,
+        trigger,
         success: false,
         recordsProcessed: 0,
         errorMessage: 'Task already running',
@@ -307,6 +446,9 @@ export class SyncScheduler {
     // Update task status
     task.status = 'running';
     task.lastRun = new Date();
+    if (trigger !== 'manual') {
+      task.nextRun = this.computeNextRun(task);
+    }
     await this.updateTaskInDatabase(task);
 
     try {
@@ -328,11 +470,19 @@ export class SyncScheduler {
         case 'branches':
           result = await this.syncBranches(task);
           break;
+        case 'prices':
+          result = await this.syncPrices(task);
+          break;
+        case 'onec_export':
+          result = await this.syncOneCExport(task);
+          break;
         default:
           throw new Error(`Unknown task type: ${task.type}`);
       }
 
       task.status = 'completed';
+      result.branchId = task.branchId;
+      result.trigger = trigger;
       result.duration = Date.now() - startTime;
       result.completedAt = new Date();
 
@@ -360,6 +510,8 @@ export class SyncScheduler {
       const result: SyncResult = {
         taskId: task.id,
         taskType: task.type,
+        branchId: task.branchId,
+        trigger,
         success: false,
         recordsProcessed: 0,
         errorMessage,
@@ -380,6 +532,16 @@ export class SyncScheduler {
     }
   }
 
+  private computeNextRun(task: SyncTask): Date | undefined {
+    if (task.scheduleType === 'interval' && task.intervalMinutes) {
+      return new Date(Date.now() + task.intervalMinutes * 60 * 1000);
+    }
+    if (task.scheduleType === 'cron' && task.cronExpression) {
+      return this.getNextCronRun(task.cronExpression);
+    }
+    return undefined;
+  }
+
   private async syncProducts(task: SyncTask): Promise<SyncResult> {
     // Placeholder implementation - sync products with external system
     const recordsProcessed = Math.floor(Math.random() * 50) + 1;
@@ -412,6 +574,12 @@ export class SyncScheduler {
       if (task.branchId) {
         query += ` AND branch_id = $1`;
         params.push(task.branchId);
+      } else {
+        const overridden = this.getOverriddenBranchIds(task);
+        if (overridden.length > 0) {
+          query += ` AND branch_id <> ALL($1::uuid[])`;
+          params.push(overridden);
+        }
       }
 
       const result = await DatabaseManager.query(query, params);
@@ -451,6 +619,12 @@ export class SyncScheduler {
       if (task.branchId) {
         query += ` AND branch_id = $1`;
         params.push(task.branchId);
+      } else {
+        const overridden = this.getOverriddenBranchIds(task);
+        if (overridden.length > 0) {
+          query += ` AND branch_id <> ALL($1::uuid[])`;
+          params.push(overridden);
+        }
       }
 
       const result = await DatabaseManager.query(query, params);
@@ -505,6 +679,48 @@ export class SyncScheduler {
     };
   }
 
+  private async syncPrices(task: SyncTask): Promise<SyncResult> {
+    // Switch scheduled prices over in branch_product_pricing, then retry deliveries that
+    // did not reach their branch yet
+    const scope = task.branchId
+      ? { branchId: task.branchId }
+      : { excludeBranchIds: this.getOverriddenBranchIds(task) };
+
+    const switched = await PriceScheduleService.applyDueChanges(scope);
+    const delivery = await PriceScheduleService.deliverPending(scope);
+
+    return {
+      taskId: task.id,
+      taskType: task.type,
+      success: delivery.failed === 0,
+      recordsProcessed: switched.activated + switched.completed + delivery.delivered,
+      errorMessage: delivery.failed > 0 ? `${delivery.failed} price changes could not be delivered to branches` : undefined,
+      duration: 0,
+      completedAt: new Date()
+    };
+  }
+
+  private async syncOneCExport(task: SyncTask): Promise<SyncResult> {
+    // Push sales, payments and stock to 1C; without an exchange URL there is nothing to do
+    const scope = task.branchId
+      ? { branchId: task.branchId }
+      : { excludeBranchIds: this.getOverriddenBranchIds(task) };
+
+    const result = await OneCExchangeService.exportAll(scope);
+
+    return {
+      taskId: task.id,
+      taskType: task.type,
+      success: result.failed === 0,
+      recordsProcessed: result.exported,
+      errorMessage: result.failed > 0
+        ? `${result.failed} records could not be exported to 1C: ${result.batches.find(batch => !batch.success)?.errorMessage}`
+        : undefined,
+      duration: 0,
+      completedAt: new Date()
+    };
+  }
+
   private async updateTaskInDatabase(task: SyncTask): Promise<void> {
     try {
       // During startup phase, disable query logging to reduce noise
@@ -537,19 +753,19 @@ export class SyncScheduler {
       }
 
       await DatabaseManager.query(`
-        INSERT INTO sync_history (
-          task_id, integration_type, entity_type, sync_status, 
-          records_synced, error_message, started_at, completed_at
-        ) VALUES (
-          $1, 'scheduler', $2, $3, 
-          $4, $5, $6, $7
-        )
+        INSERT INTO sync_task_runs (
+          task_id, task_type, branch_id, trigger, success,
+          records_processed, error_message, duration_ms, started_at, completed_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
       `, [
         result.taskId,
         result.taskType,
-        result.success ? 'completed' : 'failed',
+        result.branchId || null,
+        result.trigger || 'manual',
+        result.success,
         result.recordsProcessed,
         result.errorMessage,
+        result.duration,
         new Date(result.completedAt.getTime() - result.duration),
         result.completedAt
       ]);
@@ -567,9 +783,31 @@ export class SyncScheduler {
     return `${type}_${branchId || 'all'}_${Date.now()}`;
   }
 
+  private async saveTaskDefinition(task: SyncTask): Promise<void> {
+    await DatabaseManager.query(`
+      UPDATE sync_tasks
+      SET schedule_type = $1, interval_minutes = $2, cron_expression = $3,
+          is_active = $4, priority = $5, next_run = $6
+      WHERE id = $7
+    `, [
+      task.scheduleType, task.intervalMinutes ?? null, task.cronExpression ?? null,
+      task.isActive, task.priority, task.nextRun ?? null, task.id
+    ]);
+  }
+
   // Public API methods
 
   public async addTask(task: Omit<SyncTask, 'id' | 'status'>): Promise<string> {
+    this.validateSchedule(task);
+
+    if (task.branchId) {
+      const existing = Array.from(this.tasks.values())
+        .find(other => other.type === task.type && other.branchId === task.branchId);
+      if (existing) {
+        throw createError(`Branch already has a ${task.type} task (${existing.id}); edit it instead`, 409);
+      }
+    }
+
     const taskId = this.generateTaskId(task.type, task.branchId);
     const newTask: SyncTask = {
       id: taskId,
@@ -577,8 +815,6 @@ export class SyncScheduler {
       ...task
     };
 
-    this.tasks.set(taskId, newTask);
-
     // Save to database
     await DatabaseManager.query(`
       INSERT INTO sync_tasks (
@@ -591,6 +827,8 @@ export class SyncScheduler {
       newTask.status, newTask.priority
     ]);
 
+    this.tasks.set(taskId, newTask);
+
     // Schedule if active
     if (newTask.isActive && this.isRunning) {
       await this.scheduleTask(newTask);
@@ -599,18 +837,55 @@ export class SyncScheduler {
     return taskId;
   }
 
+  /**
+   * Edit a task's schedule, priority or active flag and reschedule it
+   */
+  public async updateTask(taskId: string, changes: SyncTaskChanges): Promise<SyncTask> {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      throw createError(`Sync task not found: ${taskId}`, 404);
+    }
+
+    const updated: SyncTask = {
+      ...task,
+      scheduleType: changes.scheduleType ?? task.scheduleType,
+      intervalMinutes: changes.intervalMinutes === null ? undefined : changes.intervalMinutes ?? task.intervalMinutes,
+      cronExpression: changes.cronExpression === null ? undefined : changes.cronExpression ?? task.cronExpression,
+      isActive: changes.isActive ?? task.isActive,
+      priority: changes.priority ?? task.priority
+    };
+    this.validateSchedule(updated);
+
+    // Mutate in place: scheduled callbacks hold a reference to this object
+    this.unscheduleTask(taskId);
+    Object.assign(task, updated);
+
+    if (task.isActive && this.isRunning) {
+      await this.scheduleTask(task);
+    } else {
+      task.nextRun = undefined;
+    }
+
+    await this.saveTaskDefinition(task);
+    return task;
+  }
+
+  public async pauseTask(taskId: string): Promise<SyncTask> {
+    return this.updateTask(taskId, { isActive: false });
+  }
+
+  public async resumeTask(taskId: string): Promise<SyncTask> {
+    return this.updateTask(taskId, { isActive: true });
+  }
+
   public async removeTask(taskId: string): Promise<boolean> {
     const task = this.tasks.get(taskId);
     if (!task) {
       return false;
     }
 
-    // Clear interval if exists
-    const interval = this.intervals.get(taskId);
-    if (interval) {
-      clearInterval(interval);
-      this.intervals.delete(taskId);
-    }
+    // Stop its interval or cron job
+    this.unscheduleTask(taskId);
 
     // Remove from memory
     this.tasks.delete(taskId);
@@ -624,10 +899,10 @@ export class SyncScheduler {
   public async runTaskNow(taskId: string): Promise<SyncResult> {
     const task = this.tasks.get(taskId);
     if (!task) {
-      throw new Error(`Task not found: ${taskId}`);
+      throw createError(`Sync task not found: ${taskId}`, 404);
     }
 
-    return await this.executeTask(task);
+    return await this.executeTask(task, 'manual');
   }
 
   public getTasks(): SyncTask[] {
@@ -638,9 +913,13 @@ export class SyncScheduler {
     return this.tasks.get(taskId);
   }
 
+  public getTimezone(): string {
+    return this.timezone;
+  }
+
   public async getTaskHistory(taskId: string, limit: number = 10): Promise<any[]> {
     const result = await DatabaseManager.query(`
-      SELECT * FROM sync_history 
+      SELECT * FROM sync_task_runs 
       WHERE task_id = $1 
       ORDER BY completed_at DESC 
       LIMIT $2
@@ -651,6 +930,7 @@ export class SyncScheduler {
 
   public getStatus(): {
     isRunning: boolean;
+    timezone: string;
     totalTasks: number;
     activeTasks: number;
     runningTasks: number;
@@ -665,6 +945,7 @@ export class SyncScheduler {
 
     return {
       isRunning: this.isRunning,
+      timezone: this.timezone,
       totalTasks: this.tasks.size,
       activeTasks: activeTasks.length,
       runningTasks: runningTasks.length,
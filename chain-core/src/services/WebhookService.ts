@@ -0,0 +1,559 @@
+import axios from 'axios';
+import { createHmac, randomBytes } from 'crypto';
+import { DatabaseManager } from '../database/manager';
+import { createError } from '../middleware/errorHandler';
+
+// =================================================================
+// INTERFACES AND TYPES
+// =================================================================
+
+export const WEBHOOK_EVENTS = ['transaction.completed', 'inventory.low_stock', 'product.updated', 'branch.offline'] as const;
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'delivered', 'failed'] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+// ping is only sent on request, to check a receiver; it cannot be subscribed to
+export type WebhookDeliveryEvent = WebhookEvent | 'ping';
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+export interface WebhookSubscription {
+  id: string;
+  apiKeyId: string;
+  apiKeyName: string;
+  apiKeyActive: boolean;
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  isActive: boolean;
+  pendingDeliveries: number;
+  failedDeliveries: number;
+  lastDeliveryAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookSubscriptionInput {
+  apiKeyId: string;
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  isActive?: boolean;
+}
+
+export interface WebhookSubscriptionChanges {
+  url?: string;
+  events?: WebhookEvent[];
+  description?: string | null;
+  isActive?: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  url: string;
+  event: WebhookDeliveryEvent;
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  responseStatus?: number;
+  responseBody?: string;
+  lastError?: string;
+  redeliveryOf?: string;
+  deliveredAt?: string;
+  createdAt: string;
+}
+
+export interface WebhookDeliveryFilters {
+  subscriptionId?: string;
+  status?: WebhookDeliveryStatus;
+  event?: string;
+  limit?: number;
+}
+
+// A claimed delivery with what is needed to send it
+interface DueDelivery {
+  id: string;
+  event: WebhookDeliveryEvent;
+  payload: Record<string, any>;
+  attempts: number;
+  url: string;
+  secret: string;
+}
+
+const MAX_ATTEMPTS = 8;
+// 30s, 1m, 2m, 4m ... capped at 6h between attempts
+const RETRY_BASE_SECONDS = 30;
+const RETRY_MAX_SECONDS = 6 * 60 * 60;
+// A claimed delivery is retried by the next worker run if this one dies before recording the outcome
+const CLAIM_LEASE_SECONDS = 120;
+const BATCH_SIZE = 20;
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+const DEFAULT_PROCESS_INTERVAL_MS = 15000;
+
+const SUBSCRIPTION_COLUMNS = `
+  ws.id, ws.api_key_id, ak.name AS api_key_name,
+  (ak.is_active AND (ak.expires_at IS NULL OR ak.expires_at > NOW())) AS api_key_active,
+  ws.url, ws.events, ws.description, ws.is_active, ws.created_at, ws.updated_at,
+  (SELECT COUNT(*) FROM webhook_deliveries wd WHERE wd.subscription_id = ws.id AND wd.status = 'pending') AS pending_deliveries,
+  (SELECT COUNT(*) FROM webhook_deliveries wd WHERE wd.subscription_id = ws.id AND wd.status = 'failed') AS failed_deliveries,
+  (SELECT MAX(wd.delivered_at) FROM webhook_deliveries wd WHERE wd.subscription_id = ws.id) AS last_delivery_at
+`;
+
+// =================================================================
+// WEBHOOK SERVICE
+// =================================================================
+
+/**
+ * Webhook Service
+ *
+ * Pushes chain events to the integrations behind API keys. publish() queues one delivery per
+ * matching subscription in webhook_deliveries, which doubles as the delivery log; a worker sends
+ * due deliveries as signed JSON POSTs and reschedules failures with exponential backoff until
+ * MAX_ATTEMPTS is reached. Subscriptions only receive events while their API key is active.
+ */
+export class WebhookService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static processing = false;
+
+  // =================================================================
+  // SUBSCRIPTIONS
+  // =================================================================
+
+  static async getSubscriptions(apiKeyId?: string): Promise<WebhookSubscription[]> {
+    const result = await DatabaseManager.query(`
+      SELECT ${SUBSCRIPTION_COLUMNS}
+      FROM webhook_subscriptions ws
+      JOIN api_keys ak ON ws.api_key_id = ak.id
+      WHERE ($1::uuid IS NULL OR ws.api_key_id = $1)
+      ORDER BY ak.name, ws.created_at
+    `, [apiKeyId || null]);
+
+    return result.rows.map(this.mapSubscription);
+  }
+
+  static async getSubscription(id: string): Promise<WebhookSubscription> {
+    const result = await DatabaseManager.query(`
+      SELECT ${SUBSCRIPTION_COLUMNS}
+      FROM webhook_subscriptions ws
+      JOIN api_keys ak ON ws.api_key_id = ak.id
+      WHERE ws.id = $1
+    `, [id]);
+
+    if (result.rows.length === 0) {
+      throw createError('Webhook subscription not found', 404);
+    }
+    return this.mapSubscription(result.rows[0]);
+  }
+
+  /**
+   * The signing secret is returned here and by rotateSecret only
+   */
+  static async createSubscription(
+    input: WebhookSubscriptionInput,
+    createdBy?: string
+  ): Promise<{ subscription: WebhookSubscription; secret: string }> {
+    const apiKey = await DatabaseManager.query('SELECT id FROM api_keys WHERE id = $1', [input.apiKeyId]);
+    if (apiKey.rows.length === 0) {
+      throw createError('API key not found', 404);
+    }
+
+    const secret = this.generateSecret();
+    const result = await DatabaseManager.query(`
+      INSERT INTO webhook_subscriptions (api_key_id, url, secret, events, description, is_active, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id
+    `, [
+      input.apiKeyId, input.url, secret, input.events, input.description || null,
+      input.isActive ?? true, createdBy || null
+    ]);
+
+    return { subscription: await this.getSubscription(result.rows[0].id), secret };
+  }
+
+  static async updateSubscription(id: string, changes: WebhookSubscriptionChanges): Promise<WebhookSubscription> {
+    const result = await DatabaseManager.query(`
+      UPDATE webhook_subscriptions SET
+        url = COALESCE($2, url),
+        events = COALESCE($3, events),
+        description = CASE WHEN $4 THEN $5 ELSE description END,
+        is_active = COALESCE($6, is_active)
+      WHERE id = $1
+      RETURNING id
+    `, [
+      id, changes.url ?? null, changes.events ?? null,
+      changes.description !== undefined, changes.description ?? null,
+      changes.isActive ?? null
+    ]);
+
+    if (result.rows.length === 0) {
+      throw createError('Webhook subscription not found', 404);
+    }
+    return this.getSubscription(id);
+  }
+
+  static async deleteSubscription(id: string): Promise<void> {
+    const result = await DatabaseManager.query('DELETE FROM webhook_subscriptions WHERE id = $1 RETURNING id', [id]);
+    if (result.rows.length === 0) {
+      throw createError('Webhook subscription not found', 404);
+    }
+  }
+
+  /**
+   * Deliveries still pending are signed with the new secret when they go out
+   */
+  static async rotateSecret(id: string): Promise<string> {
+    const secret = this.generateSecret();
+    const result = await DatabaseManager.query(
+      'UPDATE webhook_subscriptions SET secret = $2 WHERE id = $1 RETURNING id',
+      [id, secret]
+    );
+
+    if (result.rows.length === 0) {
+      throw createError('Webhook subscription not found', 404);
+    }
+    return secret;
+  }
+
+  // =================================================================
+  // PUBLISHING
+  // =================================================================
+
+  /**
+   * Queue an event for every active subscription to it. Never throws: a webhook
+   * problem must not fail the sale, alert or product update that raised the event.
+   */
+  static async publish(event: WebhookEvent, data: Record<string, any>): Promise<number> {
+    try {
+      const result = await DatabaseManager.query(`
+        INSERT INTO webhook_deliveries (subscription_id, event, payload)
+        SELECT ws.id, $1::text, $2
+        FROM webhook_subscriptions ws
+        JOIN api_keys ak ON ws.api_key_id = ak.id
+        WHERE ws.is_active = true
+          AND $1::text = ANY(ws.events)
+          AND ak.is_active = true
+          AND (ak.expires_at IS NULL OR ak.expires_at > NOW())
+      `, [event, JSON.stringify(this.buildPayload(event, data))]);
+
+      if (result.rowCount) {
+        this.processSoon();
+      }
+      return result.rowCount || 0;
+    } catch (error) {
+      console.warn(`⚠️ Failed to queue ${event} webhooks:`, error instanceof Error ? error.message : error);
+      return 0;
+    }
+  }
+
+  /**
+   * product.updated for each product as it is now; source tells receivers whether the change
+   * came from chain-manager or from 1C, so a 1C integration can skip its own updates
+   */
+  static async publishProductUpdates(productIds: string[], source: 'chain_manager' | 'onec'): Promise<void> {
+    if (productIds.length === 0) {
+      return;
+    }
+
+    try {
+      const result = await DatabaseManager.query(`
+        SELECT p.id, p.onec_id, p.sku, p.barcode, p.name, p.base_price, p.cost, p.unit_of_measure,
+               p.tax_rate, p.is_active, p.parent_product_id, c.key AS category_key, p.updated_at
+        FROM products p
+        LEFT JOIN categories c ON p.category_id = c.id
+        WHERE p.id = ANY($1::uuid[])
+      `, [productIds]);
+
+      for (const row of result.rows) {
+        await this.publish('product.updated', {
+          productId: row.id,
+          onecId: row.onec_id,
+          sku: row.sku,
+          barcode: row.barcode,
+          name: row.name,
+          basePrice: parseFloat(row.base_price),
+          cost: row.cost === null ? null : parseFloat(row.cost),
+          unitOfMeasure: row.unit_of_measure,
+          taxRate: row.tax_rate === null ? null : parseFloat(row.tax_rate),
+          isActive: row.is_active,
+          parentProductId: row.parent_product_id,
+          categoryKey: row.category_key,
+          updatedAt: row.updated_at,
+          source
+        });
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to queue product.updated webhooks:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Queue a ping to one subscription so the receiver and its signature check can be tested
+   */
+  static async ping(subscriptionId: string): Promise<WebhookDelivery> {
+    const subscription = await this.getSubscription(subscriptionId);
+    const result = await DatabaseManager.query(`
+      INSERT INTO webhook_deliveries (subscription_id, event, payload)
+      VALUES ($1, 'ping', $2)
+      RETURNING id
+    `, [subscription.id, JSON.stringify(this.buildPayload('ping', { subscriptionId: subscription.id }))]);
+
+    this.processSoon();
+    return this.getDelivery(result.rows[0].id);
+  }
+
+  // =================================================================
+  // DELIVERY LOG
+  // =================================================================
+
+  static async getDeliveries(filters: WebhookDeliveryFilters = {}): Promise<WebhookDelivery[]> {
+    const result = await DatabaseManager.query(`
+      SELECT wd.*, ws.url
+      FROM webhook_deliveries wd
+      JOIN webhook_subscriptions ws ON wd.subscription_id = ws.id
+      WHERE ($1::uuid IS NULL OR wd.subscription_id = $1)
+        AND ($2::text IS NULL OR wd.status = $2)
+        AND ($3::text IS NULL OR wd.event = $3)
+      ORDER BY wd.created_at DESC
+      LIMIT $4
+    `, [filters.subscriptionId || null, filters.status || null, filters.event || null, filters.limit || 100]);
+
+    return result.rows.map(this.mapDelivery);
+  }
+
+  static async getDelivery(id: string): Promise<WebhookDelivery> {
+    const result = await DatabaseManager.query(`
+      SELECT wd.*, ws.url
+      FROM webhook_deliveries wd
+      JOIN webhook_subscriptions ws ON wd.subscription_id = ws.id
+      WHERE wd.id = $1
+    `, [id]);
+
+    if (result.rows.length === 0) {
+      throw createError('Webhook delivery not found', 404);
+    }
+    return this.mapDelivery(result.rows[0]);
+  }
+
+  /**
+   * Send a logged delivery again as a new delivery with the same payload; the original keeps its history
+   */
+  static async redeliver(id: string): Promise<WebhookDelivery> {
+    const original = await this.getDelivery(id);
+    const subscription = await this.getSubscription(original.subscriptionId);
+    if (!subscription.isActive || !subscription.apiKeyActive) {
+      throw createError('Webhook subscription or its API key is disabled', 409);
+    }
+
+    const result = await DatabaseManager.query(`
+      INSERT INTO webhook_deliveries (subscription_id, event, payload, redelivery_of)
+      VALUES ($1, $2, $3, $4)
+      RETURNING id
+    `, [original.subscriptionId, original.event, JSON.stringify(original.payload), original.id]);
+
+    this.processSoon();
+    return this.getDelivery(result.rows[0].id);
+  }
+
+  // =================================================================
+  // DELIVERY WORKER
+  // =================================================================
+
+  /**
+   * Send the deliveries that are due. Each one is claimed for CLAIM_LEASE_SECONDS first,
+   * so several chain-core instances never send the same delivery at the same time.
+   */
+  static async processDueDeliveries(): Promise<{ delivered: number; failed: number }> {
+    const outcome = { delivered: 0, failed: 0 };
+    if (this.processing) {
+      return outcome;
+    }
+
+    this.processing = true;
+    try {
+      const claimed = await DatabaseManager.query(`
+        UPDATE webhook_deliveries wd
+        SET next_attempt_at = NOW() + make_interval(secs => $1)
+        FROM webhook_subscriptions ws
+        WHERE wd.subscription_id = ws.id
+          AND wd.id IN (
+            SELECT d.id
+            FROM webhook_deliveries d
+            JOIN webhook_subscriptions s ON d.subscription_id = s.id
+            JOIN api_keys ak ON s.api_key_id = ak.id
+            WHERE d.status = 'pending'
+              AND d.next_attempt_at <= NOW()
+              AND s.is_active = true
+              AND ak.is_active = true
+              AND (ak.expires_at IS NULL OR ak.expires_at > NOW())
+            ORDER BY d.next_attempt_at
+            LIMIT $2
+            FOR UPDATE OF d SKIP LOCKED
+          )
+        RETURNING wd.id, wd.event, wd.payload, wd.attempts, ws.url, ws.secret
+      `, [CLAIM_LEASE_SECONDS, BATCH_SIZE]);
+
+      for (const delivery of claimed.rows as DueDelivery[]) {
+        if (await this.attempt(delivery)) {
+          outcome.delivered++;
+        } else {
+          outcome.failed++;
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Send due deliveries every 15 seconds; new events are also sent right away
+   */
+  static start(intervalMs: number = parseInt(process.env.WEBHOOK_PROCESS_INTERVAL_MS || '') || DEFAULT_PROCESS_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.run(), intervalMs);
+    this.run();
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Signature sent in X-RockPoint-Signature; receivers recompute it over the raw request body
+   */
+  static sign(secret: string, timestamp: number, body: string): string {
+    const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${digest}`;
+  }
+
+  private static run(): void {
+    this.processDueDeliveries()
+      .catch(error => console.warn('⚠️ Webhook delivery run failed:', error.message));
+  }
+
+  // Only while the worker runs, so publishing from scripts and tests does not send anything
+  private static processSoon(): void {
+    if (this.timer) {
+      setImmediate(() => this.run());
+    }
+  }
+
+  private static async attempt(delivery: DueDelivery): Promise<boolean> {
+    const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const attempts = delivery.attempts + 1;
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await axios.post(delivery.url, body, {
+        timeout: REQUEST_TIMEOUT_MS,
+        maxRedirects: 0,
+        responseType: 'text',
+        transformResponse: data => data,
+        validateStatus: () => true,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'RockPoint-Webhooks/1.0',
+          'X-RockPoint-Event': delivery.event,
+          'X-RockPoint-Delivery': delivery.id,
+          'X-RockPoint-Signature': this.sign(delivery.secret, timestamp, body)
+        }
+      });
+
+      responseStatus = response.status;
+      responseBody = typeof response.data === 'string' ? response.data.substring(0, MAX_RESPONSE_BODY_LENGTH) : null;
+      if (response.status < 200 || response.status >= 300) {
+        error = `Receiver answered HTTP ${response.status}`;
+      }
+    } catch (requestError: any) {
+      error = requestError.code ? `${requestError.code}: ${requestError.message}` : requestError.message;
+    }
+
+    if (!error) {
+      await DatabaseManager.query(`
+        UPDATE webhook_deliveries
+        SET status = 'delivered', attempts = $2, response_status = $3, response_body = $4,
+            last_error = NULL, next_attempt_at = NULL, delivered_at = NOW()
+        WHERE id = $1
+      `, [delivery.id, attempts, responseStatus, responseBody]);
+      return true;
+    }
+
+    // A failed delivery has no next attempt; NOW() + NULL leaves next_attempt_at empty
+    const exhausted = attempts >= MAX_ATTEMPTS;
+    await DatabaseManager.query(`
+      UPDATE webhook_deliveries
+      SET status = $2, attempts = $3, response_status = $4, response_body = $5, last_error = $6,
+          next_attempt_at = NOW() + make_interval(secs => $7::int)
+      WHERE id = $1
+    `, [
+      delivery.id, exhausted ? 'failed' : 'pending', attempts, responseStatus, responseBody, error,
+      exhausted ? null : this.retryDelaySeconds(attempts)
+    ]);
+    return false;
+  }
+
+  private static retryDelaySeconds(attempts: number): number {
+    return Math.min(RETRY_BASE_SECONDS * 2 ** (attempts - 1), RETRY_MAX_SECONDS);
+  }
+
+  private static buildPayload(event: WebhookDeliveryEvent, data: Record<string, any>): Record<string, any> {
+    return {
+      event,
+      occurred_at: new Date().toISOString(),
+      data
+    };
+  }
+
+  private static generateSecret(): string {
+    return `whsec_${randomBytes(24).toString('hex')}`;
+  }
+
+  private static mapSubscription(row: any): WebhookSubscription {
+    return {
+      id: row.id,
+      apiKeyId: row.api_key_id,
+      apiKeyName: row.api_key_name,
+      apiKeyActive: row.api_key_active,
+      url: row.url,
+      events: row.events,
+      description: row.description || undefined,
+      isActive: row.is_active,
+      pendingDeliveries: parseInt(row.pending_deliveries),
+      failedDeliveries: parseInt(row.failed_deliveries),
+      lastDeliveryAt: row.last_delivery_at || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private static mapDelivery(row: any): WebhookDelivery {
+    return {
+      id: row.id,
+      subscriptionId: row.subscription_id,
+      url: row.url,
+      event: row.event,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at || undefined,
+      responseStatus: row.response_status ?? undefined,
+      responseBody: row.response_body ?? undefined,
+      lastError: row.last_error || undefined,
+      redeliveryOf: row.redelivery_of || undefined,
+      deliveredAt: row.delivered_at || undefined,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -1,85 +1,117 @@
-import { Server as HTTPServer } from 'http';
+import { IncomingMessage } from 'http';
 import jwt from 'jsonwebtoken';
-import { DatabaseManager } from '../database/manager';
+import { v4 as uuidv4 } from 'uuid';
+import { WebSocket, WebSocketServer } from 'ws';
 
-interface AuthenticatedSocket {
+interface ConnectedClient {
   id: string;
-  userId?: string;
+  socket: WebSocket;
+  userId: string;
   branchId?: string;
   role?: string;
-  handshake: {
-    auth: {
-      token?: string;
-    };
-  };
-  join: (room: string) => void;
-  leave: (room: string) => void;
-  emit: (event: string, data: any) => void;
-  disconnect: () => void;
-  on: (event: string, handler: (...args: any[]) => void) => void;
 }
 
+// Close code sent to clients that connect without a valid chain-manager token
+const UNAUTHORIZED_CLOSE_CODE = 4401;
+
+/**
+ * Tracks chain-manager clients connected to the chain-core WebSocket server and pushes
+ * messages to them as { type, data, timestamp }. Clients authenticate with their login JWT
+ * in the `token` query parameter.
+ */
 export class WebSocketManager {
   private static instance: WebSocketManager;
-  private io: any; // Using any for now since we're removing socket.io dependency
-  private connectedClients: Map<string, AuthenticatedSocket> = new Map();
+  private wsServer: WebSocketServer | null = null;
+  private connectedClients: Map<string, ConnectedClient> = new Map();
 
-  private constructor(server: HTTPServer) {
-    // For now, create a mock implementation
-    // In a real implementation, you'd use either socket.io or native WebSocket
-    console.warn('WebSocketManager: Socket.io not implemented, using mock');
-    
-    this.setupMiddleware();
-    this.setupEventHandlers();
-  }
+  private constructor() {}
 
-  public static getInstance(server?: HTTPServer): WebSocketManager {
-    if (!WebSocketManager.instance && server) {
-      WebSocketManager.instance = new WebSocketManager(server);
+  public static getInstance(): WebSocketManager {
+    if (!WebSocketManager.instance) {
+      WebSocketManager.instance = new WebSocketManager();
     }
     return WebSocketManager.instance;
   }
 
-  private setupMiddleware(): void {
-    // Mock implementation - would be replaced with actual socket.io or WebSocket setup
-    console.log('WebSocket middleware setup - mock implementation');
+  private authenticate(request: IncomingMessage): { userId: string; role?: string } | null {
+    try {
+      const url = new URL(request.url || '/', 'http://localhost');
+      const token = url.searchParams.get('token');
+      if (!token) {
+        return null;
+      }
+
+      const decoded = jwt.verify(token, process.env.JWT_SECRET || 'default-secret') as any;
+      return decoded?.userId ? { userId: decoded.userId, role: decoded.role } : null;
+    } catch {
+      return null;
+    }
   }
 
-  private setupEventHandlers(): void {
-    // Mock implementation - would be replaced with actual socket.io or WebSocket setup
-    console.log('WebSocket event handlers setup - mock implementation');
+  private handleConnection(socket: WebSocket, request: IncomingMessage): void {
+    const user = this.authenticate(request);
+    if (!user) {
+      socket.close(UNAUTHORIZED_CLOSE_CODE, 'Unauthorized');
+      return;
+    }
+
+    const client: ConnectedClient = { id: uuidv4(), socket, ...user };
+    this.connectedClients.set(client.id, client);
+
+    socket.on('close', () => {
+      this.connectedClients.delete(client.id);
+    });
+
+    socket.on('error', (error) => {
+      console.error(`WebSocket client ${client.id} error:`, error.message);
+    });
+
+    this.send(client, 'connected', { clientId: client.id });
   }
 
-  private setupClientEventHandlers(socket: AuthenticatedSocket): void {
-    // Mock implementation - would be replaced with actual event handling
-    console.log('Client event handlers setup - mock implementation');
+  private send(client: ConnectedClient, event: string, data: any): void {
+    if (client.socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    client.socket.send(JSON.stringify({
+      type: event,
+      data,
+      timestamp: new Date().toISOString()
+    }));
+  }
+
+  private emitWhere(predicate: (client: ConnectedClient) => boolean, event: string, data: any): void {
+    for (const client of this.connectedClients.values()) {
+      if (predicate(client)) {
+        this.send(client, event, data);
+      }
+    }
   }
 
   // Public methods for broadcasting messages
 
   public emitToAll(event: string, data: any): void {
-    // Mock implementation
-    console.log(`Broadcasting to all: ${event}`, data);
+    this.emitWhere(() => true, event, data);
   }
 
   public emitToBranch(branchId: string, event: string, data: any): void {
-    // Mock implementation
-    console.log(`Broadcasting to branch ${branchId}: ${event}`, data);
+    this.emitWhere(client => client.branchId === branchId, event, data);
   }
 
   public emitToRole(role: string, event: string, data: any): void {
-    // Mock implementation
-    console.log(`Broadcasting to role ${role}: ${event}`, data);
+    this.emitWhere(client => client.role === role, event, data);
   }
 
   public emitToUser(userId: string, event: string, data: any): void {
-    // Mock implementation
-    console.log(`Sending to user ${userId}: ${event}`, data);
+    this.emitWhere(client => client.userId === userId, event, data);
   }
 
   public emitToSocket(socketId: string, event: string, data: any): void {
-    // Mock implementation
-    console.log(`Sending to socket ${socketId}: ${event}`, data);
+    const client = this.connectedClients.get(socketId);
+    if (client) {
+      this.send(client, event, data);
+    }
   }
 
   // Business-specific broadcast methods
@@ -183,8 +215,8 @@ export class WebSocketManager {
 
   public getClientsByBranch(branchId: string): number {
     let count = 0;
-    for (const socket of this.connectedClients.values()) {
-      if (socket.branchId === branchId) {
+    for (const client of this.connectedClients.values()) {
+      if (client.branchId === branchId) {
         count++;
       }
     }
@@ -193,8 +225,8 @@ export class WebSocketManager {
 
   public getClientsByRole(role: string): number {
     let count = 0;
-    for (const socket of this.connectedClients.values()) {
-      if (socket.role === role) {
+    for (const client of this.connectedClients.values()) {
+      if (client.role === role) {
         count++;
       }
     }
@@ -202,11 +234,10 @@ export class WebSocketManager {
   }
 
   public disconnectUser(userId: string): void {
-    for (const [socketId, socket] of this.connectedClients.entries()) {
-      if (socket.userId === userId) {
-        socket.disconnect();
-        this.connectedClients.delete(socketId);
-        break;
+    for (const [clientId, client] of this.connectedClients.entries()) {
+      if (client.userId === userId) {
+        client.socket.close();
+        this.connectedClients.delete(clientId);
       }
     }
   }
@@ -219,12 +250,12 @@ export class WebSocketManager {
     const connectionsByBranch: Record<string, number> = {};
     const connectionsByRole: Record<string, number> = {};
 
-    for (const socket of this.connectedClients.values()) {
-      if (socket.branchId) {
-        connectionsByBranch[socket.branchId] = (connectionsByBranch[socket.branchId] || 0) + 1;
+    for (const client of this.connectedClients.values()) {
+      if (client.branchId) {
+        connectionsByBranch[client.branchId] = (connectionsByBranch[client.branchId] || 0) + 1;
       }
-      if (socket.role) {
-        connectionsByRole[socket.role] = (connectionsByRole[socket.role] || 0) + 1;
+      if (client.role) {
+        connectionsByRole[client.role] = (connectionsByRole[client.role] || 0) + 1;
       }
     }
 
@@ -236,14 +267,19 @@ export class WebSocketManager {
   }
 
   public closeAll(): void {
-    for (const [socketId, socket] of this.connectedClients.entries()) {
-      socket.disconnect();
-      this.connectedClients.delete(socketId);
+    for (const [clientId, client] of this.connectedClients.entries()) {
+      client.socket.close(1001, 'Server shutting down');
+      this.connectedClients.delete(clientId);
     }
   }
 
   // Initialize method for server startup
-  public initialize(): void {
-    console.log('✅ WebSocket server initialized and ready for connections');
+  public initialize(wsServer: WebSocketServer): void {
+    if (this.wsServer) {
+      return;
+    }
+
+    this.wsServer = wsServer;
+    wsServer.on('connection', (socket, request) => this.handleConnection(socket, request));
   }
 }
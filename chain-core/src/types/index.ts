@@ -19,6 +19,7 @@ export interface Branch {
   timezone: string;
   currency: string;
   taxRate: number;
+  costingMethod: 'weighted_average' | 'fifo';
   isActive: boolean;
   lastSyncAt?: Date;
   apiEndpoint?: string;
@@ -115,6 +116,7 @@ export interface BranchInventory {
   minStockLevel: number;
   maxStockLevel?: number;
   reorderPoint?: number;
+  averageCost?: number;
   lastCountedAt?: Date;
   lastMovementAt?: Date;
   createdAt?: Date;
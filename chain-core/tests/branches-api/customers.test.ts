@@ -0,0 +1,128 @@
+import { Express } from 'express';
+import request from 'supertest';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseManager } from '../../src/database/manager';
+import { cleanupTestBranchData, createBranchAuthHeaders, createBranchTestApp, setupTestBranchData } from '../helpers/branchTestApp';
+
+let app: Express;
+let customerId: string;
+
+const CARD = 'TEST_CARD_001';
+
+const ledgerEntry = (overrides: any = {}) => ({
+  id: uuidv4(),
+  customer_id: customerId,
+  loyalty_card_number: CARD,
+  entry_type: 'earn',
+  points: 100,
+  description: 'Earned on sale of 100.00',
+  created_at: new Date().toISOString(),
+  ...overrides
+});
+
+beforeAll(async () => {
+  app = await createBranchTestApp();
+  await setupTestBranchData();
+
+  const result = await DatabaseManager.query(`
+    INSERT INTO customers (name, phone, loyalty_card_number, loyalty_points)
+    VALUES ('Test Loyalty Customer', '+998 90 555 00 11', $1, 0)
+    ON CONFLICT (loyalty_card_number) DO UPDATE SET loyalty_points = 0
+    RETURNING id
+  `, [CARD]);
+  customerId = result.rows[0].id;
+  await DatabaseManager.query('DELETE FROM loyalty_transactions WHERE customer_id = $1', [customerId]);
+});
+
+afterAll(async () => {
+  await cleanupTestBranchData();
+});
+
+describe('Branch Customers API', () => {
+  describe('GET /api/branch-api/customers/lookup', () => {
+    test('should find a customer by loyalty card', async () => {
+      const response = await request(app)
+        .get(`/api/branch-api/customers/lookup?card=${CARD}`)
+        .set(createBranchAuthHeaders())
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.customer.id).toBe(customerId);
+      expect(response.body.data.customer).toHaveProperty('loyalty_points');
+    });
+
+    test('should find a customer by phone regardless of formatting', async () => {
+      const response = await request(app)
+        .get('/api/branch-api/customers/lookup?phone=998905550011')
+        .set(createBranchAuthHeaders())
+        .expect(200);
+
+      expect(response.body.data.customer.id).toBe(customerId);
+    });
+
+    test('should return 404 for unknown cards', async () => {
+      await request(app)
+        .get('/api/branch-api/customers/lookup?card=TEST_CARD_UNKNOWN')
+        .set(createBranchAuthHeaders())
+        .expect(404);
+    });
+
+    test('should require a card or phone', async () => {
+      await request(app)
+        .get('/api/branch-api/customers/lookup')
+        .set(createBranchAuthHeaders())
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/branch-api/customers/loyalty/ledger', () => {
+    test('should apply entries and return the chain-wide balance', async () => {
+      const earn = ledgerEntry();
+      const redeem = ledgerEntry({ entry_type: 'redeem', points: -40, description: 'Paid 0.40 with store credit' });
+
+      const response = await request(app)
+        .post('/api/branch-api/customers/loyalty/ledger')
+        .set(createBranchAuthHeaders())
+        .send({ entries: [earn, redeem] })
+        .expect(200);
+
+      expect(response.body.data.applied).toBe(2);
+      expect(response.body.data.results[1]).toMatchObject({ id: redeem.id, status: 'applied', loyalty_points: 60 });
+
+      const history = await DatabaseManager.query(
+        'SELECT entry_type, points, balance_after FROM loyalty_transactions WHERE customer_id = $1 ORDER BY created_at',
+        [customerId]
+      );
+      expect(history.rows.map((row: any) => row.balance_after)).toEqual([100, 60]);
+    });
+
+    test('should apply a resent entry only once', async () => {
+      const entry = ledgerEntry({ points: 25 });
+
+      await request(app)
+        .post('/api/branch-api/customers/loyalty/ledger')
+        .set(createBranchAuthHeaders())
+        .send({ entries: [entry] })
+        .expect(200);
+
+      const response = await request(app)
+        .post('/api/branch-api/customers/loyalty/ledger')
+        .set(createBranchAuthHeaders())
+        .send({ entries: [entry] })
+        .expect(200);
+
+      expect(response.body.data.results[0]).toMatchObject({ status: 'duplicate', loyalty_points: 85 });
+    });
+
+    test('should report entries for unknown customers without failing the batch', async () => {
+      const response = await request(app)
+        .post('/api/branch-api/customers/loyalty/ledger')
+        .set(createBranchAuthHeaders())
+        .send({ entries: [ledgerEntry({ customer_id: uuidv4(), loyalty_card_number: 'TEST_CARD_UNKNOWN' }), ledgerEntry({ points: 5 })] })
+        .expect(200);
+
+      expect(response.body.data.results[0].status).toBe('error');
+      expect(response.body.data.results[1]).toMatchObject({ status: 'applied', loyalty_points: 90 });
+    });
+  });
+});
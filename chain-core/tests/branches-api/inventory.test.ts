@@ -1,5 +1,9 @@
 import { Express } from 'express';
 import request from 'supertest';
+import { DatabaseManager } from '../../src/database/manager';
+import { CostingService } from '../../src/services/CostingService';
+import { PurchaseOrderService } from '../../src/services/PurchaseOrderService';
+import { StockTransferService } from '../../src/services/StockTransferService';
 import { cleanupTestBranchData, createBranchAuthHeaders, createBranchTestApp, createMockStockMovement, setupTestBranchData } from '../helpers/branchTestApp';
 
 let app: Express;
@@ -342,9 +346,29 @@ describe('Branch Inventory API', () => {
   });
 
   describe('POST /api/branch-api/inventory/transfer-request', () => {
+    let otherBranchId: string;
+
+    beforeAll(async () => {
+      const branchResult = await DatabaseManager.query(`
+        INSERT INTO branches (code, name, address, phone, is_active)
+        VALUES ('TEST_BRANCH_TRANSFER', 'Transfer Test Branch', 'Test Address', '+998900000000', true)
+        ON CONFLICT (code) DO UPDATE SET is_active = true
+        RETURNING id
+      `);
+      otherBranchId = branchResult.rows[0].id;
+    });
+
+    afterAll(async () => {
+      // Transfer items keep their products; remove them so the test products can be cleaned up
+      await DatabaseManager.query(
+        'DELETE FROM stock_transfers WHERE from_branch_id = $1 OR to_branch_id = $1',
+        [otherBranchId]
+      );
+    });
+
     test('should create transfer request', async () => {
       const transferRequest = {
-        to_branch_id: 'other-branch-id',
+        to_branch_id: otherBranchId,
         items: [
           {
             product_id: 'TEST_PROD_001',
@@ -364,12 +388,92 @@ describe('Branch Inventory API', () => {
 
       expect(response.body.success).toBe(true);
       expect(response.body.data).toHaveProperty('transfer_id');
-      expect(response.body.data.status).toBe('pending');
+      expect(response.body.data.status).toBe('requested');
+      expect(response.body.data.from_branch_id).toBe(testData.branchId);
+      expect(response.body.data.to_branch_id).toBe(otherBranchId);
+    });
+
+    test('should replenish this branch when from_branch_id is given', async () => {
+      const response = await request(app)
+        .post('/api/branch-api/inventory/transfer-request')
+        .set(createBranchAuthHeaders())
+        .send({
+          from_branch_id: otherBranchId,
+          items: [{ product_id: 'TEST_PROD_001', quantity_requested: 5 }]
+        })
+        .expect(201);
+
+      expect(response.body.data.from_branch_id).toBe(otherBranchId);
+      expect(response.body.data.to_branch_id).toBe(testData.branchId);
+    });
+
+    test('should ship an approved transfer and post a transfer_out movement', async () => {
+      const createResponse = await request(app)
+        .post('/api/branch-api/inventory/transfer-request')
+        .set(createBranchAuthHeaders())
+        .send({
+          to_branch_id: otherBranchId,
+          items: [{ product_id: 'TEST_PROD_001', quantity_requested: 4 }]
+        })
+        .expect(201);
+
+      const transferId = createResponse.body.data.transfer_id;
+
+      // Shipping is only allowed after approval
+      await request(app)
+        .post(`/api/branch-api/inventory/transfers/${transferId}/ship`)
+        .set(createBranchAuthHeaders())
+        .send({})
+        .expect(409);
+
+      await StockTransferService.approveTransfer(transferId);
+
+      const stockBefore = await request(app)
+        .get('/api/branch-api/inventory/stock/TEST_PROD_001')
+        .set(createBranchAuthHeaders())
+        .expect(200);
+
+      const shipResponse = await request(app)
+        .post(`/api/branch-api/inventory/transfers/${transferId}/ship`)
+        .set(createBranchAuthHeaders())
+        .send({ employee_id: 'EMP_TEST_001' })
+        .expect(200);
+
+      expect(shipResponse.body.data.transfer.status).toBe('shipped');
+      expect(parseFloat(shipResponse.body.data.transfer.items[0].quantity_shipped)).toBe(4);
+
+      const stockAfter = await request(app)
+        .get('/api/branch-api/inventory/stock/TEST_PROD_001')
+        .set(createBranchAuthHeaders())
+        .expect(200);
+
+      expect(parseFloat(stockAfter.body.data.quantity_in_stock))
+        .toBe(Math.max(0, parseFloat(stockBefore.body.data.quantity_in_stock) - 4));
+
+      // The sending branch cannot receive its own shipment
+      await request(app)
+        .post(`/api/branch-api/inventory/transfers/${transferId}/receive`)
+        .set(createBranchAuthHeaders())
+        .send({})
+        .expect(403);
+    });
+
+    test('should list transfers for this branch', async () => {
+      const response = await request(app)
+        .get('/api/branch-api/inventory/transfers?direction=outgoing')
+        .set(createBranchAuthHeaders())
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.transfers.length).toBeGreaterThan(0);
+      response.body.data.transfers.forEach((transfer: any) => {
+        expect(transfer.from_branch_id).toBe(testData.branchId);
+      });
     });
 
     test('should validate transfer request data', async () => {
       const invalidTransfer = {
-        // Missing required to_branch_id
+        // Missing from_branch_id / to_branch_id
         items: [
           {
             product_id: 'TEST_PROD_001',
@@ -388,4 +492,213 @@ describe('Branch Inventory API', () => {
       expect(response.body.code).toBe('VALIDATION_ERROR');
     });
   });
+
+  describe('Purchase orders', () => {
+    let supplierId: string;
+
+    beforeAll(async () => {
+      const supplierResult = await DatabaseManager.query(`
+        INSERT INTO suppliers (code, name)
+        VALUES ('TEST_SUPPLIER', 'Test Supplier')
+        ON CONFLICT (code) DO UPDATE SET is_active = true
+        RETURNING id
+      `);
+      supplierId = supplierResult.rows[0].id;
+    });
+
+    afterAll(async () => {
+      await DatabaseManager.query('DELETE FROM purchase_orders WHERE supplier_id = $1', [supplierId]);
+      await DatabaseManager.query('DELETE FROM suppliers WHERE id = $1', [supplierId]);
+    });
+
+    const createApprovedOrder = async (quantity: number) => {
+      const order = await PurchaseOrderService.createPurchaseOrder({
+        supplierId,
+        branchId: testData.branchId,
+        items: [{ productId: testData.productId, quantityOrdered: quantity, unitCost: 55000 }]
+      });
+      await PurchaseOrderService.submitPurchaseOrder(order.id);
+      return PurchaseOrderService.approvePurchaseOrder(order.id);
+    };
+
+    test('should receive a delivery in parts and post purchase movements with cost', async () => {
+      const order = await createApprovedOrder(10);
+
+      const stockBefore = await request(app)
+        .get('/api/branch-api/inventory/stock/TEST_PROD_001')
+        .set(createBranchAuthHeaders())
+        .expect(200);
+
+      const partialResponse = await request(app)
+        .post(`/api/branch-api/inventory/purchase-orders/${order.id}/receive`)
+        .set(createBranchAuthHeaders())
+        .send({
+          employee_id: 'EMP_TEST_001',
+          supplier_invoice_number: 'INV-001',
+          items: [{ item_id: order.items[0].id, quantity: 4, unit_cost: 54000 }]
+        })
+        .expect(200);
+
+      expect(partialResponse.body.data.purchase_order.status).toBe('partially_received');
+      expect(parseFloat(partialResponse.body.data.purchase_order.goods_received_note.total_cost)).toBe(216000);
+
+      const movementResult = await DatabaseManager.query(
+        `SELECT movement_type, quantity, unit_cost FROM stock_movements
+         WHERE reference_id = $1 AND reference_type = 'goods_received_note'`,
+        [partialResponse.body.data.purchase_order.goods_received_note.id]
+      );
+      expect(movementResult.rows[0].movement_type).toBe('purchase');
+      expect(parseFloat(movementResult.rows[0].unit_cost)).toBe(54000);
+
+      // The rest of the order arrives without explicit quantities
+      const finalResponse = await request(app)
+        .post(`/api/branch-api/inventory/purchase-orders/${order.id}/receive`)
+        .set(createBranchAuthHeaders())
+        .send({ employee_id: 'EMP_TEST_001' })
+        .expect(200);
+
+      expect(finalResponse.body.data.purchase_order.status).toBe('received');
+      expect(finalResponse.body.data.purchase_order.receipts).toHaveLength(2);
+
+      const stockAfter = await request(app)
+        .get('/api/branch-api/inventory/stock/TEST_PROD_001')
+        .set(createBranchAuthHeaders())
+        .expect(200);
+
+      expect(parseFloat(stockAfter.body.data.quantity_in_stock))
+        .toBe(parseFloat(stockBefore.body.data.quantity_in_stock) + 10);
+    });
+
+    test('should not receive more than was ordered', async () => {
+      const order = await createApprovedOrder(3);
+
+      const response = await request(app)
+        .post(`/api/branch-api/inventory/purchase-orders/${order.id}/receive`)
+        .set(createBranchAuthHeaders())
+        .send({ items: [{ item_id: order.items[0].id, quantity: 5 }] })
+        .expect(400);
+
+      expect(response.body.error).toMatch(/outstanding quantity \(3\)/);
+    });
+
+    test('should not receive more than was ordered over repeated lines of one item', async () => {
+      const order = await createApprovedOrder(3);
+
+      const response = await request(app)
+        .post(`/api/branch-api/inventory/purchase-orders/${order.id}/receive`)
+        .set(createBranchAuthHeaders())
+        .send({
+          items: [
+            { item_id: order.items[0].id, quantity: 2, unit_cost: 55000 },
+            { item_id: order.items[0].id, quantity: 2, unit_cost: 54000 }
+          ]
+        })
+        .expect(400);
+
+      expect(response.body.error).toMatch(/outstanding quantity \(3\)/);
+
+      const itemResult = await DatabaseManager.query(
+        'SELECT quantity_received FROM purchase_order_items WHERE id = $1',
+        [order.items[0].id]
+      );
+      expect(parseFloat(itemResult.rows[0].quantity_received)).toBe(0);
+    });
+
+    test('should not receive a purchase order before it is approved', async () => {
+      const order = await PurchaseOrderService.createPurchaseOrder({
+        supplierId,
+        branchId: testData.branchId,
+        items: [{ productId: testData.productId, quantityOrdered: 2 }]
+      });
+
+      const response = await request(app)
+        .post(`/api/branch-api/inventory/purchase-orders/${order.id}/receive`)
+        .set(createBranchAuthHeaders())
+        .send({})
+        .expect(409);
+
+      expect(response.body.error).toMatch(/^Purchase order is draft;/);
+    });
+
+    test('should list purchase orders for this branch', async () => {
+      const response = await request(app)
+        .get('/api/branch-api/inventory/purchase-orders')
+        .set(createBranchAuthHeaders())
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      response.body.data.purchase_orders.forEach((order: any) => {
+        expect(order.branch_id).toBe(testData.branchId);
+      });
+    });
+  });
+
+  describe('Costing', () => {
+    const clearCostLayers = async () => {
+      await DatabaseManager.query(
+        'DELETE FROM inventory_cost_layers WHERE branch_id = $1 AND product_id = $2',
+        [testData.branchId, testData.productId]
+      );
+      await DatabaseManager.query(
+        'UPDATE branch_inventory SET quantity_in_stock = 0, average_cost = NULL WHERE branch_id = $1 AND product_id = $2',
+        [testData.branchId, testData.productId]
+      );
+    };
+
+    const receive = async (quantity: number, unitCost: number) => {
+      await CostingService.receive({
+        branchId: testData.branchId,
+        productId: testData.productId,
+        quantity,
+        unitCost,
+        movementType: 'purchase'
+      });
+      await DatabaseManager.query(
+        'UPDATE branch_inventory SET quantity_in_stock = quantity_in_stock + $3 WHERE branch_id = $1 AND product_id = $2',
+        [testData.branchId, testData.productId, quantity]
+      );
+    };
+
+    beforeEach(clearCostLayers);
+
+    afterAll(async () => {
+      await clearCostLayers();
+      await DatabaseManager.query("UPDATE branches SET costing_method = 'weighted_average' WHERE id = $1", [testData.branchId]);
+    });
+
+    test('should cost sales from the oldest layers under FIFO', async () => {
+      await DatabaseManager.query("UPDATE branches SET costing_method = 'fifo' WHERE id = $1", [testData.branchId]);
+      await receive(4, 50000);
+      await receive(6, 60000);
+
+      const issued = await CostingService.issue({ branchId: testData.branchId, productId: testData.productId, quantity: 5 });
+
+      expect(issued.method).toBe('fifo');
+      expect(issued.costAmount).toBe(260000);
+      expect(issued.unitCost).toBe(52000);
+
+      const layers = await DatabaseManager.query(
+        `SELECT unit_cost, remaining_quantity FROM inventory_cost_layers
+         WHERE branch_id = $1 AND product_id = $2 ORDER BY received_at`,
+        [testData.branchId, testData.productId]
+      );
+      expect(layers.rows.map((row: any) => parseFloat(row.remaining_quantity))).toEqual([0, 5]);
+    });
+
+    test('should cost sales at the moving average under weighted average', async () => {
+      await DatabaseManager.query("UPDATE branches SET costing_method = 'weighted_average' WHERE id = $1", [testData.branchId]);
+      await receive(4, 50000);
+      await receive(6, 60000);
+
+      const issued = await CostingService.issue({ branchId: testData.branchId, productId: testData.productId, quantity: 5 });
+
+      expect(issued.costAmount).toBe(280000);
+
+      const valuation = await DatabaseManager.query(
+        'SELECT average_cost FROM branch_inventory_valuation WHERE branch_id = $1 AND product_id = $2',
+        [testData.branchId, testData.productId]
+      );
+      expect(parseFloat(valuation.rows[0].average_cost)).toBe(56000);
+    });
+  });
 });
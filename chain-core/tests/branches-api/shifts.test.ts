@@ -0,0 +1,91 @@
+import { Express } from 'express';
+import request from 'supertest';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseManager } from '../../src/database/manager';
+import { cleanupTestBranchData, createBranchAuthHeaders, createBranchTestApp, setupTestBranchData } from '../helpers/branchTestApp';
+
+let app: Express;
+let branchId: string;
+
+const zReport = (overrides: any = {}) => ({
+  branch_shift_id: uuidv4(),
+  terminal_id: 'TEST_POS_001',
+  shift_number: 1,
+  opened_by: 'EMP_TEST_001',
+  closed_by: 'EMP_TEST_001',
+  opened_at: '2026-10-19T08:00:00.000Z',
+  closed_at: '2026-10-19T16:00:00.000Z',
+  opening_float: 100,
+  expected_cash: 133.8,
+  counted_cash: 130,
+  cash_difference: -3.8,
+  report: {
+    type: 'Z',
+    sales: { count: 3, subtotal: 240, tax: 28.8, discounts: 5, total: 268.8 },
+    payments: [
+      { method: 'cash', count: 2, amount: 200, change_given: 31.2, net_amount: 168.8, refunded: 20 },
+      { method: 'card', count: 1, amount: 100, change_given: 0, net_amount: 100, refunded: 0 }
+    ],
+    cash: { opening_float: 100, sales: 168.8, refunds: 20, pay_ins: 50, pay_outs: 15, drops: 150, expected: 133.8, counted: 130, difference: -3.8 }
+  },
+  ...overrides
+});
+
+beforeAll(async () => {
+  app = await createBranchTestApp();
+  ({ branchId } = await setupTestBranchData());
+});
+
+afterAll(async () => {
+  await cleanupTestBranchData();
+});
+
+describe('Branch Shifts API', () => {
+  describe('POST /api/branch-api/shifts/reports', () => {
+    test('should store a Z report for the branch', async () => {
+      const report = zReport();
+
+      const response = await request(app)
+        .post('/api/branch-api/shifts/reports')
+        .set(createBranchAuthHeaders())
+        .send(report)
+        .expect(201);
+
+      expect(response.body.data.status).toBe('created');
+
+      const stored = await DatabaseManager.query(
+        'SELECT branch_id, sales_count, sales_total, cash_difference FROM branch_shift_reports WHERE id = $1',
+        [response.body.data.id]
+      );
+      expect(stored.rows[0]).toMatchObject({ branch_id: branchId, sales_count: 3, sales_total: '268.80', cash_difference: '-3.80' });
+    });
+
+    test('should replace a resent report instead of duplicating it', async () => {
+      const report = zReport({ shift_number: 2 });
+
+      const first = await request(app)
+        .post('/api/branch-api/shifts/reports')
+        .set(createBranchAuthHeaders())
+        .send(report)
+        .expect(201);
+
+      const second = await request(app)
+        .post('/api/branch-api/shifts/reports')
+        .set(createBranchAuthHeaders())
+        .send({ ...report, counted_cash: 133.8, cash_difference: 0 })
+        .expect(200);
+
+      expect(second.body.data).toEqual({ id: first.body.data.id, status: 'updated' });
+    });
+
+    test('should reject reports that are not Z reports', async () => {
+      const report = zReport();
+
+      await request(app)
+        .post('/api/branch-api/shifts/reports')
+        .set(createBranchAuthHeaders())
+        .send({ ...report, report: { ...report.report, type: 'X' } })
+        .expect(400);
+    });
+  });
+});
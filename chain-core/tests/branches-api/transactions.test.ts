@@ -1,5 +1,7 @@
 import { Express } from 'express';
 import request from 'supertest';
+import { DatabaseManager } from '../../src/database/manager';
+import { CostingService } from '../../src/services/CostingService';
 import { cleanupTestBranchData, createBranchAuthHeaders, createBranchTestApp, createMockTransaction, setupTestBranchData } from '../helpers/branchTestApp';
 
 let app: Express;
@@ -43,6 +45,64 @@ describe('Branch Transactions API', () => {
       expect(response.body.data.status).toBe('submitted');
     });
 
+    test('should cost and take stock for a completed sale only once when it is resent', async () => {
+      const branchProduct = [testData.branchId, testData.productId];
+      await DatabaseManager.query('DELETE FROM inventory_cost_layers WHERE branch_id = $1 AND product_id = $2', branchProduct);
+      await CostingService.receive({
+        branchId: testData.branchId,
+        productId: testData.productId,
+        quantity: 10,
+        unitCost: 50000,
+        movementType: 'purchase'
+      });
+
+      const stockOf = async () => parseFloat((await DatabaseManager.query(
+        'SELECT quantity_in_stock FROM branch_inventory WHERE branch_id = $1 AND product_id = $2', branchProduct
+      )).rows[0].quantity_in_stock);
+      const stockBefore = await stockOf();
+
+      const transaction = createMockTransaction({
+        transaction_number: `TXN_RESENT_${Date.now()}`,
+        items: [{
+          product_id: testData.productId,
+          name: 'Test Product',
+          quantity: 2,
+          unit_price: 75000.00,
+          total_price: 150000.00
+        }]
+      }, testData);
+
+      const first = await request(app)
+        .post('/api/branch-api/transactions/submit')
+        .set(createBranchAuthHeaders())
+        .send(transaction)
+        .expect(201);
+      const costAfterFirst = await DatabaseManager.query(
+        'SELECT cost_amount FROM transaction_items WHERE transaction_id = $1', [first.body.data.transaction_id]
+      );
+
+      await request(app)
+        .post('/api/branch-api/transactions/submit')
+        .set(createBranchAuthHeaders())
+        .send(transaction)
+        .expect(201);
+
+      const items = await DatabaseManager.query(
+        'SELECT cost_amount FROM transaction_items WHERE transaction_id = $1', [first.body.data.transaction_id]
+      );
+      expect(items.rows).toHaveLength(1);
+      expect(items.rows[0].cost_amount).toBe(costAfterFirst.rows[0].cost_amount);
+
+      const layers = await DatabaseManager.query(
+        'SELECT SUM(remaining_quantity) AS remaining FROM inventory_cost_layers WHERE branch_id = $1 AND product_id = $2',
+        branchProduct
+      );
+      expect(parseFloat(layers.rows[0].remaining)).toBe(8);
+      expect(await stockOf()).toBe(stockBefore - 2);
+
+      await DatabaseManager.query('DELETE FROM inventory_cost_layers WHERE branch_id = $1 AND product_id = $2', branchProduct);
+    });
+
     test('should submit bulk transactions successfully', async () => {
       const transactions = [
         createMockTransaction({ transaction_id: 'TXN_BULK_001' }, testData),
@@ -76,7 +76,15 @@ export async function createBranchTestApp(): Promise<Express> {
         message: err.message
       });
     }
-    
+
+    // Errors raised with createError carry their status, as the real errorHandler answers
+    if (err.statusCode) {
+      return res.status(err.statusCode).json({
+        success: false,
+        error: err.message
+      });
+    }
+
     res.status(500).json({
       success: false,
       error: 'Internal server error',
@@ -312,6 +320,8 @@ export async function cleanupTestBranchData() {
     const thirtySecondsAgo = new Date(Date.now() - 30 * 1000).toISOString();
     
     // If successful, proceed with cleanup - only delete recent test data
+    await DatabaseManager.query('DELETE FROM customers WHERE loyalty_card_number LIKE \'TEST_CARD_%\'');
+    await DatabaseManager.query('DELETE FROM branch_shift_reports WHERE branch_id IN (SELECT id FROM branches WHERE code LIKE \'TEST_%\')');
     await DatabaseManager.query('DELETE FROM branch_inventory WHERE last_movement_at > $1 OR updated_at > $1', [thirtySecondsAgo]);
     await DatabaseManager.query('DELETE FROM employees WHERE employee_id LIKE \'EMP_TEST_%\' OR created_at > $1', [thirtySecondsAgo]);
     await DatabaseManager.query('DELETE FROM products WHERE (onec_id LIKE \'TEST_PROD_%\' OR created_at > $1)', [thirtySecondsAgo]);
@@ -0,0 +1,172 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+// Local stand-in for the CommerceML exchange of a 1C information base
+// (checkauth, init, file, import). Run it directly to point a dev chain-core at it:
+//   npm run mock:1c-exchange
+export interface MockOneCExchangeOptions {
+  username?: string;
+  password?: string;
+  fileLimit?: number;
+  // Times mode=import answers "progress" before "success"
+  importProgressSteps?: number;
+}
+
+export interface MockExchangeRequest {
+  type: string;
+  mode: string;
+  filename?: string;
+}
+
+export class MockOneCExchange {
+  readonly imported: string[] = [];
+  readonly requests: MockExchangeRequest[] = [];
+
+  private server: http.Server | null = null;
+  // Parts are joined as bytes: a file_limit split can fall inside a multibyte character
+  private uploads = new Map<string, Buffer[]>();
+  private sessions = new Set<string>();
+  private pendingImports = new Map<string, number>();
+  private failures: number[] = [];
+  private rejection: string | null = null;
+
+  constructor(private options: MockOneCExchangeOptions = {}) {}
+
+  // Uploaded exchange files by name
+  get files(): Map<string, string> {
+    return new Map(Array.from(this.uploads.entries()).map(([name, parts]) => [name, Buffer.concat(parts).toString('utf8')]));
+  }
+
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('Mock 1C exchange is not running');
+    }
+    return `http://127.0.0.1:${address.port}/exchange`;
+  }
+
+  async start(port: number = 0): Promise<string> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>(resolve => this.server!.listen(port, '127.0.0.1', resolve));
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    if (this.server) {
+      await new Promise<void>(resolve => this.server!.close(() => resolve()));
+      this.server = null;
+    }
+  }
+
+  reset(): void {
+    this.uploads.clear();
+    this.imported.length = 0;
+    this.requests.length = 0;
+    this.sessions.clear();
+    this.pendingImports.clear();
+    this.failures = [];
+    this.rejection = null;
+  }
+
+  // Answer the next requests with these HTTP statuses, e.g. failNext(503, 503)
+  failNext(...statuses: number[]): void {
+    this.failures.push(...statuses);
+  }
+
+  // Answer mode=import with "failure" and this reason until reset
+  rejectImports(reason: string): void {
+    this.rejection = reason;
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const type = url.searchParams.get('type') || '';
+      const mode = url.searchParams.get('mode') || '';
+      const filename = url.searchParams.get('filename') || undefined;
+      this.requests.push({ type, mode, filename });
+
+      const failure = this.failures.shift();
+      if (failure) {
+        return this.reply(res, failure, 'Service unavailable');
+      }
+
+      if (mode === 'checkauth') {
+        return this.checkAuth(req, res);
+      }
+
+      const cookie = (req.headers.cookie || '').split(';').map(part => part.trim()).find(part => part.startsWith('mock1c='));
+      if (!cookie || !this.sessions.has(cookie.substring('mock1c='.length))) {
+        return this.reply(res, 200, 'failure\nNot authorized');
+      }
+
+      switch (mode) {
+        case 'init':
+          return this.reply(res, 200, `zip=no\nfile_limit=${this.options.fileLimit || 104857600}`);
+        case 'file':
+          if (!filename) {
+            return this.reply(res, 200, 'failure\nFile name is missing');
+          }
+          this.uploads.set(filename, [...(this.uploads.get(filename) || []), Buffer.concat(chunks)]);
+          return this.reply(res, 200, 'success');
+        case 'import':
+          return this.importFile(res, filename);
+        default:
+          return this.reply(res, 200, `failure\nUnknown mode ${mode}`);
+      }
+    });
+  }
+
+  private checkAuth(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const expected = Buffer.from(`${this.options.username || 'exchange'}:${this.options.password || 'secret'}`).toString('base64');
+    if (req.headers.authorization !== `Basic ${expected}`) {
+      return this.reply(res, 401, 'Unauthorized');
+    }
+
+    const session = Math.random().toString(36).substring(2);
+    this.sessions.add(session);
+    this.reply(res, 200, `success\nmock1c\n${session}`);
+  }
+
+  private importFile(res: http.ServerResponse, filename?: string): void {
+    if (!filename || !this.uploads.has(filename)) {
+      return this.reply(res, 200, `failure\nFile ${filename} was not uploaded`);
+    }
+    if (this.rejection) {
+      return this.reply(res, 200, `failure\n${this.rejection}`);
+    }
+
+    const remaining = this.pendingImports.get(filename) ?? this.options.importProgressSteps ?? 0;
+    if (remaining > 0) {
+      this.pendingImports.set(filename, remaining - 1);
+      return this.reply(res, 200, 'progress');
+    }
+
+    this.imported.push(filename);
+    this.reply(res, 200, 'success');
+  }
+
+  private reply(res: http.ServerResponse, status: number, body: string): void {
+    res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(body);
+  }
+}
+
+if (require.main === module) {
+  const exchange = new MockOneCExchange({
+    username: process.env.ONEC_EXCHANGE_USERNAME,
+    password: process.env.ONEC_EXCHANGE_PASSWORD
+  });
+
+  exchange.start(parseInt(process.env.MOCK_1C_PORT || '') || 8081).then(url => {
+    console.log(`🧪 Mock 1C exchange listening at ${url}`);
+    setInterval(() => {
+      const filename = exchange.imported.shift();
+      if (filename) {
+        console.log(`📥 Imported ${filename}:\n${exchange.files.get(filename)}`);
+      }
+    }, 1000);
+  });
+}
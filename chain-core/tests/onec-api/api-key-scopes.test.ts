@@ -0,0 +1,232 @@
+import { Express } from 'express';
+import request from 'supertest';
+import { ONEC_ROUTERS } from '../../src/api/1c';
+import { DatabaseManager } from '../../src/database/manager';
+import { ApiKeyService } from '../../src/services/ApiKeyService';
+import { createTestApp } from '../helpers/testApp';
+
+let app: Express;
+
+interface ScopedKeyOptions {
+  permissions?: string[];
+  branches?: string[];
+  ipRanges?: string[];
+  rateLimit?: number;
+}
+
+// Keys are named "Scope Test ..." so the shared test cleanup removes them
+async function createKey(name: string, options: ScopedKeyOptions = {}): Promise<{ id: string; key: string }> {
+  const key = `rp_scope_test_${name.toLowerCase().replace(/\W+/g, '_')}`;
+  const result = await DatabaseManager.query(`
+    INSERT INTO api_keys (name, key_hash, permissions, allowed_branch_codes, allowed_ip_ranges, rate_limit_per_minute)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    RETURNING id
+  `, [
+    `Scope Test ${name}`,
+    key,
+    options.permissions || ['*'],
+    options.branches || [],
+    options.ipRanges || [],
+    options.rateLimit || null
+  ]);
+  return { id: result.rows[0].id, key };
+}
+
+async function usageOf(apiKeyId: string, count: number): Promise<any[]> {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const result = await DatabaseManager.query(
+      'SELECT * FROM api_key_usage WHERE api_key_id = $1 ORDER BY created_at', [apiKeyId]
+    );
+    if (result.rows.length >= count) {
+      return result.rows;
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error('API key usage was not recorded');
+}
+
+beforeAll(async () => {
+  app = await createTestApp();
+});
+
+beforeEach(async () => {
+  await DatabaseManager.query("DELETE FROM api_keys WHERE name LIKE 'Scope Test %'");
+  await DatabaseManager.query("DELETE FROM branches WHERE code IN ('SCOPE_A', 'SCOPE_B')");
+  await DatabaseManager.query(`
+    INSERT INTO branches (code, name, is_active) VALUES ('SCOPE_A', 'Scope Branch A', true), ('SCOPE_B', 'Scope Branch B', true)
+  `);
+});
+
+describe('1C API - API Key Scopes', () => {
+  describe('Permission catalogue', () => {
+    test('should list every protected route with its permission and branch scope', () => {
+      const catalogue = ApiKeyService.getPermissionCatalogue('/api/1c', ONEC_ROUTERS);
+      const names = catalogue.permissions.map(permission => permission.name);
+
+      expect(names).toEqual(expect.arrayContaining([
+        'admin:read', 'admin:write', 'branches:read', 'branches:write', 'customers:read', 'customers:write',
+        'employees:read', 'employees:write', 'inventory:read', 'inventory:write', 'products:read', 'products:write',
+        'transactions:read', 'transactions:write', '*'
+      ]));
+      expect(catalogue.routes).toEqual(expect.arrayContaining([
+        { method: 'GET', path: '/api/1c/branches/:code', permission: 'branches:read', branchScope: 'param' },
+        { method: 'PUT', path: '/api/1c/inventory', permission: 'inventory:write', branchScope: 'body' },
+        { method: 'GET', path: '/api/1c/analytics', permission: 'admin:read', branchScope: 'none' }
+      ]));
+      expect(catalogue.permissions.every(permission => permission.description)).toBe(true);
+    });
+
+    test('should flag permissions that are not in the catalogue', () => {
+      const catalogue = ApiKeyService.getPermissionCatalogue('/api/1c', ONEC_ROUTERS);
+
+      expect(ApiKeyService.findUnknownPermissions(catalogue, ['products:read', 'sync:execute'])).toEqual(['sync:execute']);
+    });
+  });
+
+  describe('Branch restrictions', () => {
+    test('should allow the branches of the key and refuse the others', async () => {
+      const { key } = await createKey('Branch A', { branches: ['SCOPE_A'] });
+
+      await request(app).get('/api/1c/branches/SCOPE_A').set('Authorization', `Bearer ${key}`).expect(200);
+
+      const response = await request(app)
+        .get('/api/1c/branches/SCOPE_B')
+        .set('Authorization', `Bearer ${key}`)
+        .expect(403);
+      expect(response.body.code).toBe('BRANCH_NOT_ALLOWED');
+    });
+
+    test('should imply the branch of a single-branch key and require it otherwise', async () => {
+      const single = await createKey('Single', { branches: ['SCOPE_A'] });
+      const both = await createKey('Both', { branches: ['SCOPE_A', 'SCOPE_B'] });
+
+      await request(app).get('/api/1c/inventory').set('Authorization', `Bearer ${single.key}`).expect(200);
+
+      const response = await request(app)
+        .get('/api/1c/inventory')
+        .set('Authorization', `Bearer ${both.key}`)
+        .expect(400);
+      expect(response.body.code).toBe('BRANCH_CODE_REQUIRED');
+    });
+
+    test('should check every record of a bulk body', async () => {
+      const { key } = await createKey('Bulk', { branches: ['SCOPE_A'] });
+
+      const response = await request(app)
+        .put('/api/1c/inventory')
+        .set('Authorization', `Bearer ${key}`)
+        .send({
+          updates: [
+            { product_id: 'P-1', branch_code: 'SCOPE_A', quantity_in_stock: 5 },
+            { product_id: 'P-1', branch_code: 'SCOPE_B', quantity_in_stock: 5 }
+          ]
+        })
+        .expect(403);
+      expect(response.body.code).toBe('BRANCH_NOT_ALLOWED');
+    });
+
+    test('should refuse chain-wide reports but allow master data', async () => {
+      const { key } = await createKey('Reports', { branches: ['SCOPE_A'] });
+
+      const response = await request(app)
+        .get('/api/1c/analytics')
+        .set('Authorization', `Bearer ${key}`)
+        .expect(403);
+      expect(response.body.code).toBe('BRANCH_SCOPE_UNSUPPORTED');
+
+      await request(app).get('/api/1c/categories').set('Authorization', `Bearer ${key}`).expect(200);
+    });
+
+    test('should still require the permission of the route', async () => {
+      const { key } = await createKey('Read Only', { permissions: ['branches:read'], branches: ['SCOPE_A'] });
+
+      const response = await request(app)
+        .delete('/api/1c/branches/SCOPE_A')
+        .set('Authorization', `Bearer ${key}`)
+        .expect(403);
+      expect(response.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+    });
+  });
+
+  describe('IP ranges', () => {
+    test('should only accept requests from the allowed ranges', async () => {
+      const office = await createKey('Office', { ipRanges: ['10.0.0.0/8'] });
+      const local = await createKey('Local', { ipRanges: ['127.0.0.0/8'] });
+
+      const response = await request(app)
+        .get('/api/1c/branches')
+        .set('Authorization', `Bearer ${office.key}`)
+        .expect(403);
+      expect(response.body.code).toBe('IP_NOT_ALLOWED');
+
+      await request(app).get('/api/1c/branches').set('Authorization', `Bearer ${local.key}`).expect(200);
+
+      const [refused] = await usageOf(office.id, 1);
+      expect(refused).toMatchObject({ status_code: 403, denied_reason: 'IP_NOT_ALLOWED' });
+      const apiKey = await DatabaseManager.query('SELECT usage_count, last_used_at FROM api_keys WHERE id = $1', [office.id]);
+      expect(apiKey.rows[0]).toMatchObject({ usage_count: 0, last_used_at: null });
+    });
+
+    test('should normalize ranges and match IPv4-mapped addresses', () => {
+      expect(ApiKeyService.normalizeIpRange('203.0.113.7')).toBe('203.0.113.7/32');
+      expect(ApiKeyService.normalizeIpRange('10.0.0.0/33')).toBeNull();
+      expect(ApiKeyService.normalizeIpRange('not-an-ip')).toBeNull();
+      expect(ApiKeyService.isIpAllowed('::ffff:10.1.2.3', ['10.0.0.0/8'])).toBe(true);
+      expect(ApiKeyService.isIpAllowed('2001:db8::1', ['10.0.0.0/8'])).toBe(false);
+    });
+  });
+
+  describe('Rate limits', () => {
+    test('should refuse requests over the per-minute limit of the key', async () => {
+      const { id, key } = await createKey('Limited', { rateLimit: 2 });
+
+      for (let i = 0; i < 2; i++) {
+        const response = await request(app).get('/api/1c/branches').set('Authorization', `Bearer ${key}`).expect(200);
+        expect(response.headers['x-ratelimit-limit']).toBe('2');
+      }
+
+      const response = await request(app)
+        .get('/api/1c/branches')
+        .set('Authorization', `Bearer ${key}`)
+        .expect(429);
+      expect(response.body.code).toBe('RATE_LIMIT_EXCEEDED');
+      expect(response.headers['retry-after']).toBeDefined();
+
+      const rows = await usageOf(id, 3);
+      expect(rows[2]).toMatchObject({ status_code: 429, denied_reason: 'RATE_LIMIT_EXCEEDED' });
+      const apiKey = await DatabaseManager.query('SELECT usage_count FROM api_keys WHERE id = $1', [id]);
+      expect(apiKey.rows[0].usage_count).toBe(2);
+    });
+  });
+
+  describe('Usage audit trail', () => {
+    test('should log each request once, including refused ones', async () => {
+      const { id, key } = await createKey('Audited', { branches: ['SCOPE_A'] });
+
+      await request(app).get('/api/1c/branches/SCOPE_A').set('Authorization', `Bearer ${key}`).expect(200);
+      await request(app).get('/api/1c/branches/SCOPE_B').set('Authorization', `Bearer ${key}`).expect(403);
+
+      const rows = await usageOf(id, 2);
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({
+        method: 'GET',
+        route: '/api/1c/branches/:code',
+        path: '/api/1c/branches/SCOPE_A',
+        permission: 'branches:read',
+        branch_codes: ['SCOPE_A'],
+        status_code: 200,
+        denied_reason: null
+      });
+      expect(rows[1]).toMatchObject({ status_code: 403, denied_reason: 'BRANCH_NOT_ALLOWED' });
+
+      // The refused request is logged but is not usage of the key
+      const apiKey = await DatabaseManager.query('SELECT usage_count, last_used_ip FROM api_keys WHERE id = $1', [id]);
+      expect(apiKey.rows[0].usage_count).toBe(1);
+      expect(apiKey.rows[0].last_used_ip).toBe('127.0.0.1');
+
+      const usage = await ApiKeyService.getUsage(id, { deniedOnly: true });
+      expect(usage.summary).toMatchObject({ requests: 2, denied: 1 });
+      expect(usage.entries).toHaveLength(1);
+    });
+  });
+});
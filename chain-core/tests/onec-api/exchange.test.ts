@@ -0,0 +1,161 @@
+import { DatabaseManager } from '../../src/database/manager';
+import { OneCExchangeService } from '../../src/services/OneCExchangeService';
+import { MockOneCExchange } from '../helpers/mockOneCExchange';
+
+const exchange = new MockOneCExchange({ username: 'exchange', password: 'secret' });
+let branchId: string;
+let productId: string;
+
+async function createSale(number: string, status: string = 'completed'): Promise<string> {
+  const sale = await DatabaseManager.query(`
+    INSERT INTO transactions (branch_id, transaction_number, terminal_id, subtotal, tax_amount, total_amount, status, completed_at)
+    VALUES ($1, $2, 'POS-01', 20000, 2400, 22400, $3, NOW())
+    RETURNING id
+  `, [branchId, number, status]);
+  const transactionId = sale.rows[0].id;
+
+  await DatabaseManager.query(`
+    INSERT INTO transaction_items (transaction_id, product_id, quantity, unit_price, original_price, tax_rate, tax_amount, total_amount)
+    VALUES ($1, $2, 2, 11200, 11200, 0.12, 2400, 22400)
+  `, [transactionId, productId]);
+  await DatabaseManager.query(`
+    INSERT INTO payments (transaction_id, method, amount, status)
+    VALUES ($1, 'cash', 22400, 'completed')
+  `, [transactionId]);
+
+  return transactionId;
+}
+
+beforeAll(async () => {
+  process.env.ONEC_EXCHANGE_URL = await exchange.start();
+  process.env.ONEC_EXCHANGE_USERNAME = 'exchange';
+  process.env.ONEC_EXCHANGE_PASSWORD = 'secret';
+  // No back-off between attempts in tests
+  jest.spyOn(OneCExchangeService as any, 'delay').mockResolvedValue(undefined);
+});
+
+afterAll(async () => {
+  await exchange.stop();
+  delete process.env.ONEC_EXCHANGE_URL;
+});
+
+beforeEach(async () => {
+  exchange.reset();
+  await DatabaseManager.query("DELETE FROM onec_sync_logs WHERE direction = 'export'");
+  await DatabaseManager.query("DELETE FROM branches WHERE code = 'EXCH001'");
+  await DatabaseManager.query("DELETE FROM products WHERE sku = 'EXCH-001'");
+
+  const branch = await DatabaseManager.query(`
+    INSERT INTO branches (code, name, currency) VALUES ('EXCH001', 'Exchange Branch', 'UZS') RETURNING id
+  `);
+  branchId = branch.rows[0].id;
+
+  const product = await DatabaseManager.query(`
+    INSERT INTO products (onec_id, sku, barcode, name, base_price, cost, unit_of_measure)
+    VALUES ('1C-EXCH-001', 'EXCH-001', '4780000000011', 'Exchange Product', 11200, 8000, 'pcs')
+    RETURNING id
+  `);
+  productId = product.rows[0].id;
+});
+
+describe('1C CommerceML Exchange - Outbound Push', () => {
+  test('should push sales and their payments as CommerceML documents', async () => {
+    const transactionId = await createSale('EXCH-TXN-001');
+
+    const result = await OneCExchangeService.exportAll({ branchId }, ['transactions', 'payments']);
+
+    expect(result).toMatchObject({ configured: true, exported: 2, failed: 0 });
+    expect(exchange.requests.map(request => request.mode)).toEqual(
+      ['checkauth', 'init', 'file', 'import', 'checkauth', 'init', 'file', 'import']
+    );
+    expect(exchange.imported).toHaveLength(2);
+
+    const sales = exchange.files.get(result.batches[0].filename)!;
+    expect(sales).toContain('<КоммерческаяИнформация ВерсияСхемы="2.10"');
+    expect(sales).toContain(`<Ид>${transactionId}</Ид><Номер>EXCH-TXN-001</Номер>`);
+    expect(sales).toContain('<ХозОперация>Отпуск товара</ХозОперация>');
+    expect(sales).toContain('<Ид>1C-EXCH-001</Ид><Артикул>EXCH-001</Артикул>');
+    expect(exchange.files.get(result.batches[1].filename)).toContain('<ХозОперация>Выплата наличных денег</ХозОперация>');
+
+    const pending = await DatabaseManager.query(
+      'SELECT onec_exported_at FROM transactions WHERE id = $1',
+      [transactionId]
+    );
+    expect(pending.rows[0].onec_exported_at).not.toBeNull();
+
+    const logs = await DatabaseManager.query(
+      "SELECT sync_type, status, records_total, records_processed FROM onec_sync_logs WHERE direction = 'export' ORDER BY started_at"
+    );
+    expect(logs.rows).toEqual([
+      { sync_type: 'transactions', status: 'completed', records_total: 1, records_processed: 1 },
+      { sync_type: 'payments', status: 'completed', records_total: 1, records_processed: 1 }
+    ]);
+  });
+
+  test('should retry a batch after server errors', async () => {
+    await createSale('EXCH-TXN-002');
+    exchange.failNext(503, 502);
+
+    const result = await OneCExchangeService.exportAll({ branchId }, ['transactions']);
+
+    expect(result.batches[0]).toMatchObject({ success: true, attempts: 3 });
+    expect(exchange.imported).toHaveLength(1);
+  });
+
+  test('should keep records pending and log a failed batch when 1C rejects the file', async () => {
+    const transactionId = await createSale('EXCH-TXN-003');
+    exchange.rejectImports('Period is closed');
+
+    const result = await OneCExchangeService.exportAll({ branchId }, ['transactions', 'payments']);
+
+    expect(result).toMatchObject({ exported: 0, failed: 1 });
+    expect(result.batches).toHaveLength(1);
+    expect(result.batches[0]).toMatchObject({ success: false, attempts: 1 });
+
+    const sale = await DatabaseManager.query('SELECT onec_exported_at FROM transactions WHERE id = $1', [transactionId]);
+    expect(sale.rows[0].onec_exported_at).toBeNull();
+
+    const log = await DatabaseManager.query(
+      "SELECT status, records_failed, error_message FROM onec_sync_logs WHERE id = $1",
+      [result.batches[0].logId]
+    );
+    expect(log.rows[0]).toMatchObject({ status: 'failed', records_failed: 1 });
+    expect(log.rows[0].error_message).toContain('Period is closed');
+  });
+
+  test('should not push anything after a bad login', async () => {
+    await createSale('EXCH-TXN-004');
+    process.env.ONEC_EXCHANGE_PASSWORD = 'wrong';
+
+    try {
+      const result = await OneCExchangeService.exportAll({ branchId }, ['transactions']);
+
+      expect(result.batches[0]).toMatchObject({ success: false, attempts: 1 });
+      expect(exchange.files.size).toBe(0);
+    } finally {
+      process.env.ONEC_EXCHANGE_PASSWORD = 'secret';
+    }
+  });
+
+  test('should send stock balances again only after they change', async () => {
+    await DatabaseManager.query(`
+      INSERT INTO branch_inventory (branch_id, product_id, quantity_in_stock) VALUES ($1, $2, 12.5)
+    `, [branchId, productId]);
+
+    const first = await OneCExchangeService.exportAll({ branchId }, ['inventory']);
+    expect(first.exported).toBe(1);
+    expect(exchange.requests[0].type).toBe('catalog');
+    expect(exchange.files.get(first.batches[0].filename)).toContain('<Склад><Ид>EXCH001</Ид><Количество>12.5</Количество></Склад>');
+
+    const unchanged = await OneCExchangeService.exportAll({ branchId }, ['inventory']);
+    expect(unchanged.batches).toHaveLength(0);
+
+    await DatabaseManager.query(
+      'UPDATE branch_inventory SET quantity_in_stock = 10 WHERE branch_id = $1 AND product_id = $2',
+      [branchId, productId]
+    );
+
+    const changed = await OneCExchangeService.exportAll({ branchId }, ['inventory']);
+    expect(changed.exported).toBe(1);
+  });
+});
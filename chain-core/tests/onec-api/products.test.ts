@@ -387,6 +387,94 @@ describe('1C API - Products Management', () => {
       expect(dbResult.rows[0].images).toEqual(product.images);
       expect(dbResult.rows[0].attributes).toEqual(product.attributes);
     });
+
+    test('should import variants after their parent and share its category', async () => {
+      const parent = createMockProduct({ oneC_id: 'SHIRT', sku: 'SHIRT', barcode: undefined, category_key: 'APPAREL' });
+      const variant = createMockProduct({
+        oneC_id: 'SHIRT-M-RED',
+        sku: 'SHIRT-M-RED',
+        barcode: '4600000000011',
+        name: 'Shirt M / Red',
+        category_key: undefined,
+        parent_oneC_id: 'SHIRT',
+        variant_attributes: { size: 'M', colour: 'Red' }
+      });
+
+      // The variant comes first in the request
+      const response = await request(app)
+        .post('/api/1c/products')
+        .set(createAuthHeaders())
+        .send([variant, parent])
+        .expect(200);
+
+      expect(response.body.data.imported).toBe(2);
+
+      const dbResult = await DatabaseManager.query(`
+        SELECT v.parent_product_id, v.variant_attributes, v.category_id, p.id as parent_id, p.category_id as parent_category_id
+        FROM products v JOIN products p ON p.oneC_id = 'SHIRT'
+        WHERE v.oneC_id = 'SHIRT-M-RED'
+      `);
+      expect(dbResult.rows[0].parent_product_id).toBe(dbResult.rows[0].parent_id);
+      expect(dbResult.rows[0].variant_attributes).toEqual({ size: 'M', colour: 'Red' });
+      expect(dbResult.rows[0].category_id).toBe(dbResult.rows[0].parent_category_id);
+    });
+
+    test('should fail variants whose parent is unknown', async () => {
+      const variant = createMockProduct({ parent_oneC_id: 'MISSING', variant_attributes: { size: 'L' } });
+
+      const response = await request(app)
+        .post('/api/1c/products')
+        .set(createAuthHeaders())
+        .send([variant])
+        .expect(400);
+
+      expect(response.body.data.results[0].error).toContain('Parent product MISSING not found');
+    });
+
+    test('should store additional barcodes and find the product by them', async () => {
+      const product = createMockProduct({
+        barcodes: [
+          { barcode: '4600000000028', quantity_multiplier: 1, description: 'Old supplier label' },
+          { barcode: '4600000000035', quantity_multiplier: 6, description: 'Six-pack' }
+        ]
+      });
+
+      await request(app)
+        .post('/api/1c/products')
+        .set(createAuthHeaders())
+        .send([product])
+        .expect(200);
+
+      const response = await request(app)
+        .get('/api/1c/products/4600000000035')
+        .set(createAuthHeaders())
+        .expect(200);
+
+      expect(response.body.data.product.sku).toBe(product.sku);
+      expect(response.body.data.product.barcodes).toHaveLength(2);
+      expect(response.body.data.product.barcodes).toContainEqual(
+        expect.objectContaining({ barcode: '4600000000035', quantity_multiplier: 6 })
+      );
+    });
+
+    test('should reject barcodes that belong to another product', async () => {
+      const first = createMockProduct({ oneC_id: 'FIRST', sku: 'FIRST', barcode: '4600000000042' });
+      const second = createMockProduct({
+        oneC_id: 'SECOND',
+        sku: 'SECOND',
+        barcode: '4600000000059',
+        barcodes: [{ barcode: '4600000000042', quantity_multiplier: 1 }]
+      });
+
+      const response = await request(app)
+        .post('/api/1c/products')
+        .set(createAuthHeaders())
+        .send([first, second])
+        .expect(200);
+
+      expect(response.body.data.results[1].success).toBe(false);
+      expect(response.body.data.results[1].error).toContain('already used by another product');
+    });
   });
 
   describe('PUT /api/1c/products/prices', () => {
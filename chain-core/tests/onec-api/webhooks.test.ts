@@ -0,0 +1,109 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { DatabaseManager } from '../../src/database/manager';
+import { WebhookEvent, WebhookService } from '../../src/services/WebhookService';
+
+interface ReceivedWebhook {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const received: ReceivedWebhook[] = [];
+let responseStatus = 200;
+let receiverUrl: string;
+let apiKeyId: string;
+
+const receiver = http.createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    received.push({ headers: req.headers, body: Buffer.concat(chunks).toString('utf8') });
+    res.writeHead(responseStatus, { 'Content-Type': 'text/plain' });
+    res.end(responseStatus === 200 ? 'ok' : 'unavailable');
+  });
+});
+
+async function subscribe(events: WebhookEvent[] = ['transaction.completed']) {
+  return WebhookService.createSubscription({ apiKeyId, url: receiverUrl, events });
+}
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+  receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => receiver.close(() => resolve()));
+});
+
+beforeEach(async () => {
+  received.length = 0;
+  responseStatus = 200;
+  await DatabaseManager.query("DELETE FROM api_keys WHERE name = 'Webhook Test Key'");
+
+  const apiKey = await DatabaseManager.query(`
+    INSERT INTO api_keys (name, key_hash, permissions) VALUES ('Webhook Test Key', 'rp_webhook_test_key', ARRAY['*'])
+    RETURNING id
+  `);
+  apiKeyId = apiKey.rows[0].id;
+});
+
+describe('Outbound Webhooks', () => {
+  test('should deliver subscribed events with a verifiable signature', async () => {
+    const { subscription, secret } = await subscribe();
+
+    expect(await WebhookService.publish('transaction.completed', { transactionId: 'TXN-1', totalAmount: 22400 })).toBe(1);
+    expect(await WebhookService.publish('product.updated', { productId: 'P-1' })).toBe(0);
+
+    const outcome = await WebhookService.processDueDeliveries();
+    expect(outcome).toEqual({ delivered: 1, failed: 0 });
+    expect(received).toHaveLength(1);
+
+    const [webhook] = received;
+    const body = JSON.parse(webhook.body);
+    expect(webhook.headers['x-rockpoint-event']).toBe('transaction.completed');
+    expect(body).toMatchObject({
+      id: webhook.headers['x-rockpoint-delivery'],
+      event: 'transaction.completed',
+      data: { transactionId: 'TXN-1', totalAmount: 22400 }
+    });
+
+    const timestamp = parseInt(/t=(\d+)/.exec(webhook.headers['x-rockpoint-signature'] as string)![1]);
+    expect(webhook.headers['x-rockpoint-signature']).toBe(WebhookService.sign(secret, timestamp, webhook.body));
+
+    const [delivery] = await WebhookService.getDeliveries({ subscriptionId: subscription.id });
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 1, responseStatus: 200 });
+  });
+
+  test('should back off after a failed attempt and let a failed delivery be resent', async () => {
+    const { subscription } = await subscribe();
+    responseStatus = 503;
+
+    await WebhookService.publish('transaction.completed', { transactionId: 'TXN-2' });
+    expect(await WebhookService.processDueDeliveries()).toEqual({ delivered: 0, failed: 1 });
+
+    const [failed] = await WebhookService.getDeliveries({ subscriptionId: subscription.id });
+    expect(failed).toMatchObject({ status: 'pending', attempts: 1, responseStatus: 503 });
+    expect(failed.lastError).toContain('503');
+    expect(new Date(failed.nextAttemptAt!).getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet
+    expect(await WebhookService.processDueDeliveries()).toEqual({ delivered: 0, failed: 0 });
+
+    responseStatus = 200;
+    const resent = await WebhookService.redeliver(failed.id);
+    expect(resent).toMatchObject({ status: 'pending', redeliveryOf: failed.id, event: 'transaction.completed' });
+
+    expect(await WebhookService.processDueDeliveries()).toEqual({ delivered: 1, failed: 0 });
+    expect(JSON.parse(received[received.length - 1].body).data).toEqual({ transactionId: 'TXN-2' });
+  });
+
+  test('should not queue events for a disabled API key', async () => {
+    await subscribe();
+    await DatabaseManager.query('UPDATE api_keys SET is_active = false WHERE id = $1', [apiKeyId]);
+
+    expect(await WebhookService.publish('transaction.completed', { transactionId: 'TXN-3' })).toBe(0);
+    expect(await WebhookService.processDueDeliveries()).toEqual({ delivered: 0, failed: 0 });
+    expect(received).toHaveLength(0);
+  });
+});
@@ -28,11 +28,32 @@ beforeAll(async () => {
         expires_at TIMESTAMP WITH TIME ZONE,
         usage_count INTEGER DEFAULT 0,
         last_used_at TIMESTAMP WITH TIME ZONE,
+        last_used_ip VARCHAR(45),
+        allowed_branch_codes TEXT[] DEFAULT '{}',
+        allowed_ip_ranges TEXT[] DEFAULT '{}',
+        rate_limit_per_minute INTEGER,
         created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
         updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
       )
     `);
 
+    await DatabaseManager.query(`
+      CREATE TABLE IF NOT EXISTS api_key_usage (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        api_key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+        method VARCHAR(10) NOT NULL,
+        route VARCHAR(255),
+        path TEXT NOT NULL,
+        permission VARCHAR(100),
+        branch_codes TEXT[] DEFAULT '{}',
+        ip_address VARCHAR(45),
+        status_code INTEGER NOT NULL,
+        response_time_ms INTEGER,
+        denied_reason VARCHAR(50),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
     await DatabaseManager.query(`
       CREATE TABLE IF NOT EXISTS branches (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -0,0 +1,298 @@
+import {
+    Add,
+    Delete,
+    Save,
+} from '@mui/icons-material';
+import {
+    Alert,
+    Box,
+    Button,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    FormControl,
+    IconButton,
+    InputLabel,
+    MenuItem,
+    Select,
+    Stack,
+    Switch,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    TextField,
+    Tooltip,
+    Typography,
+} from '@mui/material';
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import apiService, { AlertRule, AlertRuleType, AlertSeverity, Branch } from '../../services/api';
+
+interface AlertRulesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Thresholds each rule type takes; an empty low stock threshold means each item's minimum stock level
+const ruleParams: Record<AlertRuleType, string[]> = {
+  low_stock: ['threshold'],
+  branch_offline: ['minutes'],
+  sync_failures: ['failures'],
+  void_spike: ['threshold', 'windowMinutes'],
+};
+
+const ruleTypes = Object.keys(ruleParams) as AlertRuleType[];
+const severities: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+export const AlertRulesDialog: React.FC<AlertRulesDialogProps> = ({ open, onClose }) => {
+  const { t } = useTranslation();
+
+  const [rules, setRules] = React.useState<AlertRule[]>([]);
+  const [drafts, setDrafts] = React.useState<Record<string, AlertRule>>({});
+  const [branches, setBranches] = React.useState<Branch[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [newRule, setNewRule] = React.useState<{ ruleType: AlertRuleType; branchId: string }>({
+    ruleType: 'low_stock',
+    branchId: '',
+  });
+
+  const loadRules = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const [rulesResponse, branchesResponse] = await Promise.all([
+      apiService.getAlertRules(),
+      apiService.getBranches(),
+    ]);
+    if (rulesResponse.success && rulesResponse.data) {
+      setRules(rulesResponse.data.rules);
+      setDrafts({});
+    } else {
+      setError(rulesResponse.error || t('alerts.failedToLoadRules'));
+    }
+    if (branchesResponse.success && branchesResponse.data) {
+      setBranches(branchesResponse.data.branches);
+    }
+    setIsLoading(false);
+  }, [t]);
+
+  React.useEffect(() => {
+    if (open) {
+      loadRules();
+    }
+  }, [open, loadRules]);
+
+  const draftOf = (rule: AlertRule) => drafts[rule.id] || rule;
+
+  const updateDraft = (rule: AlertRule, changes: Partial<AlertRule>) => {
+    setDrafts(current => ({ ...current, [rule.id]: { ...draftOf(rule), ...changes } }));
+  };
+
+  const updateParam = (rule: AlertRule, param: string, value: string) => {
+    const params = { ...draftOf(rule).params };
+    if (value === '') {
+      delete params[param];
+    } else {
+      params[param] = Number(value);
+    }
+    updateDraft(rule, { params });
+  };
+
+  const replaceRule = (updated: AlertRule) => {
+    setRules(current => current.map(rule => (rule.id === updated.id ? updated : rule)));
+    setDrafts(current => {
+      const { [updated.id]: _saved, ...rest } = current;
+      return rest;
+    });
+  };
+
+  const handleSave = async (rule: AlertRule) => {
+    const draft = draftOf(rule);
+    const response = await apiService.updateAlertRule(rule.id, {
+      severity: draft.severity,
+      params: draft.params,
+      is_active: draft.isActive,
+    });
+    if (response.success && response.data) {
+      replaceRule(response.data.rule);
+    } else {
+      setError(response.error || t('alerts.failedToSaveRule'));
+    }
+  };
+
+  const handleToggle = async (rule: AlertRule, isActive: boolean) => {
+    const response = await apiService.updateAlertRule(rule.id, { is_active: isActive });
+    if (response.success && response.data) {
+      replaceRule(response.data.rule);
+    } else {
+      setError(response.error || t('alerts.failedToSaveRule'));
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!window.confirm(t('alerts.confirmDeleteRule', { name: rule.name }))) return;
+
+    const response = await apiService.deleteAlertRule(rule.id);
+    if (response.success) {
+      setRules(current => current.filter(item => item.id !== rule.id));
+    } else {
+      setError(response.error || t('alerts.failedToSaveRule'));
+    }
+  };
+
+  // A copy of the chain-wide rule for one branch, so its thresholds can differ there
+  const handleAdd = async () => {
+    const template = rules.find(rule => rule.ruleType === newRule.ruleType && !rule.branchId);
+    const branch = branches.find(item => item.id === newRule.branchId);
+
+    const response = await apiService.createAlertRule({
+      rule_type: newRule.ruleType,
+      name: branch ? `${t(`alerts.types.${newRule.ruleType}`)} – ${branch.name}` : t(`alerts.types.${newRule.ruleType}`),
+      branch_id: newRule.branchId || undefined,
+      severity: template?.severity,
+      params: template?.params,
+    });
+    if (response.success && response.data) {
+      setRules(current => [...current, response.data!.rule]);
+    } else {
+      setError(response.error || t('alerts.failedToSaveRule'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>{t('alerts.rules')}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('alerts.rule')}</TableCell>
+                <TableCell>{t('alerts.branch')}</TableCell>
+                <TableCell>{t('alerts.thresholds')}</TableCell>
+                <TableCell>{t('alerts.severity')}</TableCell>
+                <TableCell>{t('alerts.active')}</TableCell>
+                <TableCell align="right">{t('common.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rules.map(rule => {
+                const draft = draftOf(rule);
+                return (
+                  <TableRow key={rule.id}>
+                    <TableCell>
+                      <Typography variant="body2">{rule.name}</Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {t(`alerts.types.${rule.ruleType}`)}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{rule.branchName || t('alerts.allBranches')}</TableCell>
+                    <TableCell>
+                      <Stack direction="row" spacing={1}>
+                        {ruleParams[rule.ruleType].map(param => (
+                          <TextField
+                            key={param}
+                            size="small"
+                            type="number"
+                            label={t(`alerts.params.${param}`)}
+                            value={draft.params[param] ?? ''}
+                            placeholder={rule.ruleType === 'low_stock' ? t('alerts.minStockLevel') : undefined}
+                            onChange={(event) => updateParam(rule, param, event.target.value)}
+                            InputLabelProps={{ shrink: true }}
+                            sx={{ width: 140 }}
+                          />
+                        ))}
+                      </Stack>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        value={draft.severity}
+                        onChange={(event) => updateDraft(rule, { severity: event.target.value as AlertSeverity })}
+                      >
+                        {severities.map(severity => (
+                          <MenuItem key={severity} value={severity}>
+                            {t(`alerts.severities.${severity}`)}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={rule.isActive} onChange={(event) => handleToggle(rule, event.target.checked)} />
+                    </TableCell>
+                    <TableCell align="right">
+                      <Tooltip title={t('common.save')}>
+                        <span>
+                          <IconButton size="small" disabled={!drafts[rule.id]} onClick={() => handleSave(rule)}>
+                            <Save fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      {rule.branchId && (
+                        <Tooltip title={t('common.delete')}>
+                          <IconButton size="small" color="error" onClick={() => handleDelete(rule)}>
+                            <Delete fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <Typography variant="subtitle2" sx={{ mt: 3, mb: 1 }}>
+          {t('alerts.addBranchRule')}
+        </Typography>
+        <Stack direction="row" spacing={2} alignItems="center">
+          <FormControl size="small" sx={{ minWidth: 220 }}>
+            <InputLabel>{t('alerts.rule')}</InputLabel>
+            <Select
+              label={t('alerts.rule')}
+              value={newRule.ruleType}
+              onChange={(event) => setNewRule(current => ({ ...current, ruleType: event.target.value as AlertRuleType }))}
+            >
+              {ruleTypes.map(type => (
+                <MenuItem key={type} value={type}>{t(`alerts.types.${type}`)}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 220 }}>
+            <InputLabel>{t('alerts.branch')}</InputLabel>
+            <Select
+              label={t('alerts.branch')}
+              value={newRule.branchId}
+              onChange={(event) => setNewRule(current => ({ ...current, branchId: event.target.value }))}
+            >
+              {branches.map(branch => (
+                <MenuItem key={branch.id} value={branch.id}>{branch.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button variant="outlined" startIcon={<Add />} disabled={!newRule.branchId} onClick={handleAdd}>
+            {t('common.add')}
+          </Button>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('common.close')}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,203 @@
+import {
+    Check,
+    NotificationsActive,
+    Refresh,
+    Snooze,
+    Tune,
+} from '@mui/icons-material';
+import {
+    Alert,
+    AlertTitle,
+    Box,
+    Card,
+    CardContent,
+    Chip,
+    CircularProgress,
+    IconButton,
+    Menu,
+    MenuItem,
+    Stack,
+    Tooltip,
+    Typography,
+} from '@mui/material';
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import apiService, { AlertSeverity, DashboardAlert } from '../../services/api';
+import { webSocketService, WebSocketMessage } from '../../services/websocket';
+import { AlertRulesDialog } from './AlertRulesDialog';
+
+const severityRank: Record<AlertSeverity, number> = { critical: 3, warning: 2, info: 1 };
+
+const severityToAlert: Record<AlertSeverity, 'error' | 'warning' | 'info'> = {
+  critical: 'error',
+  warning: 'warning',
+  info: 'info',
+};
+
+const snoozeOptions = [60, 4 * 60, 24 * 60];
+
+const sortAlerts = (alerts: DashboardAlert[]) => [...alerts].sort((a, b) =>
+  severityRank[b.severity] - severityRank[a.severity]
+  || new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+);
+
+// An alert the current user has not acknowledged, snoozed, or seen resolve
+const isVisible = (alert: DashboardAlert) =>
+  !alert.acknowledged
+  && !alert.resolvedAt
+  && (!alert.snoozedUntil || new Date(alert.snoozedUntil).getTime() <= Date.now());
+
+export const AlertsPanel: React.FC = () => {
+  const { t } = useTranslation();
+
+  const [alerts, setAlerts] = React.useState<DashboardAlert[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [snoozeMenu, setSnoozeMenu] = React.useState<{ anchor: HTMLElement; alertId: string } | null>(null);
+  const [rulesOpen, setRulesOpen] = React.useState(false);
+
+  const loadAlerts = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const response = await apiService.getAlerts();
+    if (response.success && response.data) {
+      setAlerts(sortAlerts(response.data.alerts));
+    } else {
+      setError(response.error || t('alerts.failedToLoad'));
+    }
+    setIsLoading(false);
+  }, [t]);
+
+  React.useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts]);
+
+  // chain-core pushes new alerts, resolutions and this user's changes from other sessions
+  React.useEffect(() => {
+    const handleMessage = (message: WebSocketMessage) => {
+      if (message.type === 'alert' || message.type === 'alert_state') {
+        const incoming = message.data as DashboardAlert;
+        setAlerts(current => {
+          const others = current.filter(alert => alert.id !== incoming.id);
+          return isVisible(incoming) ? sortAlerts([...others, incoming]) : others;
+        });
+      } else if (message.type === 'alert_resolved') {
+        setAlerts(current => current.filter(alert => alert.id !== message.data.id));
+      }
+    };
+
+    webSocketService.addMessageListener(handleMessage);
+    return () => webSocketService.removeMessageListener(handleMessage);
+  }, []);
+
+  const handleAcknowledge = async (alertId: string) => {
+    const response = await apiService.acknowledgeAlert(alertId);
+    if (response.success) {
+      setAlerts(current => current.filter(alert => alert.id !== alertId));
+    } else {
+      setError(response.error || t('alerts.failedToUpdate'));
+    }
+  };
+
+  const handleSnooze = async (minutes: number) => {
+    if (!snoozeMenu) return;
+    const { alertId } = snoozeMenu;
+    setSnoozeMenu(null);
+
+    const response = await apiService.snoozeAlert(alertId, minutes);
+    if (response.success) {
+      setAlerts(current => current.filter(alert => alert.id !== alertId));
+    } else {
+      setError(response.error || t('alerts.failedToUpdate'));
+    }
+  };
+
+  return (
+    <Card sx={{ mb: 4 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <NotificationsActive color={alerts.length > 0 ? 'warning' : 'disabled'} />
+            <Typography variant="h6">{t('alerts.title')}</Typography>
+            {alerts.length > 0 && <Chip label={alerts.length} size="small" color="warning" />}
+          </Box>
+          <Box>
+            <Tooltip title={t('alerts.rules')}>
+              <IconButton onClick={() => setRulesOpen(true)}>
+                <Tune />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title={t('common.refresh')}>
+              <IconButton onClick={loadAlerts} disabled={isLoading}>
+                <Refresh />
+              </IconButton>
+            </Tooltip>
+          </Box>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {isLoading && alerts.length === 0 ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : alerts.length === 0 ? (
+          <Typography color="text.secondary">{t('alerts.noAlerts')}</Typography>
+        ) : (
+          <Stack spacing={1}>
+            {alerts.map(alert => (
+              <Alert
+                key={alert.id}
+                severity={severityToAlert[alert.severity]}
+                action={
+                  <Box sx={{ display: 'flex' }}>
+                    <Tooltip title={t('alerts.acknowledge')}>
+                      <IconButton size="small" color="inherit" onClick={() => handleAcknowledge(alert.id)}>
+                        <Check fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title={t('alerts.snooze')}>
+                      <IconButton
+                        size="small"
+                        color="inherit"
+                        onClick={(event) => setSnoozeMenu({ anchor: event.currentTarget, alertId: alert.id })}
+                      >
+                        <Snooze fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </Box>
+                }
+              >
+                <AlertTitle>{alert.title}</AlertTitle>
+                <Typography variant="body2">{alert.message}</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {t(`alerts.types.${alert.type}`)}
+                  {alert.branchName ? ` · ${alert.branchName}` : ''}
+                  {` · ${t('alerts.since', { time: new Date(alert.timestamp).toLocaleString() })}`}
+                </Typography>
+              </Alert>
+            ))}
+          </Stack>
+        )}
+
+        <Menu
+          anchorEl={snoozeMenu?.anchor}
+          open={Boolean(snoozeMenu)}
+          onClose={() => setSnoozeMenu(null)}
+        >
+          {snoozeOptions.map(minutes => (
+            <MenuItem key={minutes} onClick={() => handleSnooze(minutes)}>
+              {t('alerts.snoozeFor', { hours: minutes / 60 })}
+            </MenuItem>
+          ))}
+        </Menu>
+
+        <AlertRulesDialog open={rulesOpen} onClose={() => setRulesOpen(false)} />
+      </CardContent>
+    </Card>
+  );
+};
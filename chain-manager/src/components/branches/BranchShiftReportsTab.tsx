@@ -0,0 +1,294 @@
+import { Refresh, Visibility } from '@mui/icons-material';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import apiService, { ShiftReport } from '../../services/api';
+
+interface BranchShiftReportsTabProps {
+  branchId: string;
+  formatCurrency: (amount: number) => string;
+}
+
+export const BranchShiftReportsTab: React.FC<BranchShiftReportsTabProps> = ({ branchId, formatCurrency }) => {
+  const { t } = useTranslation();
+
+  const [reports, setReports] = React.useState<ShiftReport[]>([]);
+  const [total, setTotal] = React.useState(0);
+  const [page, setPage] = React.useState(0);
+  const [rowsPerPage, setRowsPerPage] = React.useState(25);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [activeReport, setActiveReport] = React.useState<ShiftReport | null>(null);
+
+  const loadReports = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const response = await apiService.getBranchShiftReports(branchId, {
+      limit: rowsPerPage,
+      offset: page * rowsPerPage,
+    });
+    if (response.success && response.data) {
+      setReports(response.data.reports);
+      setTotal(response.data.total);
+    } else {
+      setReports([]);
+      setError(response.error || t('shiftReports.failedToLoad'));
+    }
+    setIsLoading(false);
+  }, [branchId, page, rowsPerPage, t]);
+
+  React.useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  const openReport = async (report: ShiftReport) => {
+    const response = await apiService.getBranchShiftReport(branchId, report.id);
+    if (response.success && response.data) {
+      setActiveReport(response.data.report);
+    } else {
+      setError(response.error || t('shiftReports.failedToLoad'));
+    }
+  };
+
+  const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : '-');
+
+  const methodLabel = (method: string) => t(`paymentMethods.${method}`, { defaultValue: method.replace(/_/g, ' ') });
+
+  const renderDifference = (difference: number) => {
+    if (Math.abs(difference) < 0.005) {
+      return <Chip size="small" color="success" label={t('shiftReports.balanced')} />;
+    }
+    return (
+      <Chip
+        size="small"
+        color={difference < 0 ? 'error' : 'warning'}
+        label={`${difference < 0 ? t('shiftReports.short') : t('shiftReports.over')} ${formatCurrency(Math.abs(difference))}`}
+      />
+    );
+  };
+
+  const details = activeReport?.details;
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6">{t('shiftReports.title')}</Typography>
+        <Button variant="outlined" startIcon={<Refresh />} onClick={loadReports} disabled={isLoading}>
+          {t('common.refresh')}
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : reports.length === 0 ? (
+        <Alert severity="info">{t('shiftReports.noReports')}</Alert>
+      ) : (
+        <>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('shiftReports.terminal')}</TableCell>
+                  <TableCell>{t('shiftReports.shift')}</TableCell>
+                  <TableCell>{t('shiftReports.cashier')}</TableCell>
+                  <TableCell>{t('shiftReports.openedAt')}</TableCell>
+                  <TableCell>{t('shiftReports.closedAt')}</TableCell>
+                  <TableCell align="right">{t('shiftReports.sales')}</TableCell>
+                  <TableCell align="right">{t('shiftReports.expectedCash')}</TableCell>
+                  <TableCell align="right">{t('shiftReports.countedCash')}</TableCell>
+                  <TableCell>{t('shiftReports.difference')}</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {reports.map(report => (
+                  <TableRow key={report.id} hover>
+                    <TableCell>{report.terminalId}</TableCell>
+                    <TableCell>#{report.shiftNumber}</TableCell>
+                    <TableCell>{report.closedBy || report.openedBy}</TableCell>
+                    <TableCell>{formatDate(report.openedAt)}</TableCell>
+                    <TableCell>{formatDate(report.closedAt)}</TableCell>
+                    <TableCell align="right">
+                      {formatCurrency(report.salesTotal)} ({report.salesCount})
+                    </TableCell>
+                    <TableCell align="right">{formatCurrency(report.expectedCash)}</TableCell>
+                    <TableCell align="right">{formatCurrency(report.countedCash)}</TableCell>
+                    <TableCell>{renderDifference(report.cashDifference)}</TableCell>
+                    <TableCell align="right">
+                      <Tooltip title={t('branches.viewDetails')}>
+                        <IconButton size="small" onClick={() => openReport(report)}>
+                          <Visibility fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+          <TablePagination
+            component="div"
+            count={total}
+            page={page}
+            onPageChange={(_, newPage) => setPage(newPage)}
+            rowsPerPage={rowsPerPage}
+            onRowsPerPageChange={(e) => {
+              setRowsPerPage(parseInt(e.target.value, 10));
+              setPage(0);
+            }}
+            rowsPerPageOptions={[10, 25, 50]}
+            labelRowsPerPage={t('common.rowsPerPage')}
+          />
+        </>
+      )}
+
+      <Dialog open={!!activeReport} onClose={() => setActiveReport(null)} maxWidth="md" fullWidth>
+        {activeReport && (
+          <>
+            <DialogTitle>
+              {t('shiftReports.reportTitle', { terminal: activeReport.terminalId, number: activeReport.shiftNumber })}
+            </DialogTitle>
+            <DialogContent dividers>
+              <Typography variant="body2" color="text.secondary" gutterBottom>
+                {formatDate(activeReport.openedAt)} - {formatDate(activeReport.closedAt)} • {activeReport.openedBy}
+                {activeReport.closedBy && activeReport.closedBy !== activeReport.openedBy ? ` / ${activeReport.closedBy}` : ''}
+              </Typography>
+
+              {details && (
+                <Stack spacing={3} sx={{ mt: 2 }}>
+                  <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))', gap: 2 }}>
+                    <Box>
+                      <Typography variant="caption" color="text.secondary">{t('shiftReports.sales')}</Typography>
+                      <Typography variant="h6">{formatCurrency(details.sales.total)}</Typography>
+                    </Box>
+                    <Box>
+                      <Typography variant="caption" color="text.secondary">{t('shiftReports.transactions')}</Typography>
+                      <Typography variant="h6">{details.sales.count}</Typography>
+                    </Box>
+                    <Box>
+                      <Typography variant="caption" color="text.secondary">{t('shiftReports.tax')}</Typography>
+                      <Typography variant="h6">{formatCurrency(details.sales.tax)}</Typography>
+                    </Box>
+                    <Box>
+                      <Typography variant="caption" color="text.secondary">{t('shiftReports.discounts')}</Typography>
+                      <Typography variant="h6">{formatCurrency(details.sales.discounts)}</Typography>
+                    </Box>
+                    <Box>
+                      <Typography variant="caption" color="text.secondary">{t('shiftReports.voids')}</Typography>
+                      <Typography variant="h6">{details.voids.count} / {formatCurrency(details.voids.total)}</Typography>
+                    </Box>
+                    <Box>
+                      <Typography variant="caption" color="text.secondary">{t('shiftReports.refunds')}</Typography>
+                      <Typography variant="h6">{details.refunds.count} / {formatCurrency(details.refunds.total)}</Typography>
+                    </Box>
+                  </Box>
+
+                  <Box>
+                    <Typography variant="subtitle1" gutterBottom>{t('shiftReports.byPaymentMethod')}</Typography>
+                    <Table size="small">
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>{t('shiftReports.method')}</TableCell>
+                          <TableCell align="right">{t('shiftReports.count')}</TableCell>
+                          <TableCell align="right">{t('shiftReports.tendered')}</TableCell>
+                          <TableCell align="right">{t('shiftReports.change')}</TableCell>
+                          <TableCell align="right">{t('shiftReports.net')}</TableCell>
+                          <TableCell align="right">{t('shiftReports.refunded')}</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {details.payments.map(payment => (
+                          <TableRow key={payment.method}>
+                            <TableCell sx={{ textTransform: 'capitalize' }}>{methodLabel(payment.method)}</TableCell>
+                            <TableCell align="right">{payment.count}</TableCell>
+                            <TableCell align="right">{formatCurrency(payment.amount)}</TableCell>
+                            <TableCell align="right">{formatCurrency(payment.changeGiven)}</TableCell>
+                            <TableCell align="right">{formatCurrency(payment.netAmount)}</TableCell>
+                            <TableCell align="right">{formatCurrency(payment.refunded)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </Box>
+
+                  <Box>
+                    <Typography variant="subtitle1" gutterBottom>{t('shiftReports.cashReconciliation')}</Typography>
+                    <Table size="small">
+                      <TableBody>
+                        {[
+                          [t('shiftReports.openingFloat'), details.cash.openingFloat],
+                          [t('shiftReports.cashSales'), details.cash.sales],
+                          [t('shiftReports.cashRefunds'), -details.cash.refunds],
+                          [t('shiftReports.payIns'), details.cash.payIns],
+                          [t('shiftReports.payOuts'), -details.cash.payOuts],
+                          [t('shiftReports.drops'), -details.cash.drops],
+                        ].map(([label, amount]) => (
+                          <TableRow key={label as string}>
+                            <TableCell>{label}</TableCell>
+                            <TableCell align="right">{formatCurrency(amount as number)}</TableCell>
+                          </TableRow>
+                        ))}
+                        <TableRow>
+                          <TableCell><strong>{t('shiftReports.expectedCash')}</strong></TableCell>
+                          <TableCell align="right"><strong>{formatCurrency(details.cash.expected)}</strong></TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell><strong>{t('shiftReports.countedCash')}</strong></TableCell>
+                          <TableCell align="right"><strong>{formatCurrency(details.cash.counted)}</strong></TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                    <Box sx={{ mt: 1, display: 'flex', justifyContent: 'flex-end' }}>
+                      {renderDifference(details.cash.difference)}
+                    </Box>
+                  </Box>
+                </Stack>
+              )}
+
+              {activeReport.notes && (
+                <>
+                  <Divider sx={{ my: 2 }} />
+                  <Typography variant="subtitle2">{t('shiftReports.notes')}</Typography>
+                  <Typography variant="body2">{activeReport.notes}</Typography>
+                </>
+              )}
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={() => setActiveReport(null)}>{t('common.close')}</Button>
+            </DialogActions>
+          </>
+        )}
+      </Dialog>
+    </Box>
+  );
+};
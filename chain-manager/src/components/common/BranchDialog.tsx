@@ -15,6 +15,7 @@ import {
     Divider,
     FormControl,
     FormControlLabel,
+    FormHelperText,
     IconButton,
     InputAdornment,
     InputLabel,
@@ -101,6 +102,7 @@ const BranchDialog: React.FC<BranchDialogProps> = ({
     timezone: 'Asia/Tashkent',
     currency: 'UZS',
     taxRate: 12,
+    costingMethod: 'weighted_average',
     isActive: true,
     apiKey: '',
     server_ip: '',
@@ -123,6 +125,7 @@ const BranchDialog: React.FC<BranchDialogProps> = ({
         timezone: branch.timezone || 'Asia/Tashkent',
         currency: branch.currency || 'UZS',
         taxRate: branch.taxRate || 12,
+        costingMethod: branch.costingMethod || 'weighted_average',
         isActive: branch.isActive ?? true,
         apiKey: branch.apiKey || '',
         server_ip: (branch as any).server_ip || '',
@@ -142,6 +145,7 @@ const BranchDialog: React.FC<BranchDialogProps> = ({
         timezone: 'Asia/Tashkent',
         currency: 'UZS',
         taxRate: 12,
+        costingMethod: 'weighted_average',
         isActive: true,
         apiKey: generateApiKey(),
         server_ip: '',
@@ -369,6 +373,18 @@ const BranchDialog: React.FC<BranchDialogProps> = ({
               }}
               inputProps={{ min: 0, max: 100, step: 0.1 }}
             />
+            <FormControl fullWidth>
+              <InputLabel>{t('branches.costingMethod')}</InputLabel>
+              <Select
+                value={formData.costingMethod || 'weighted_average'}
+                label={t('branches.costingMethod')}
+                onChange={(e) => handleInputChange('costingMethod', e.target.value)}
+              >
+                <MenuItem value="weighted_average">{t('branches.costingMethods.weighted_average')}</MenuItem>
+                <MenuItem value="fifo">{t('branches.costingMethods.fifo')}</MenuItem>
+              </Select>
+              <FormHelperText>{t('branches.costingMethodHelper')}</FormHelperText>
+            </FormControl>
 
             <Divider />
 
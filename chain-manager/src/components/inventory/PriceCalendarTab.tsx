@@ -0,0 +1,499 @@
+import {
+    Add,
+    Cancel,
+    ChevronLeft,
+    ChevronRight,
+    Refresh,
+    Send,
+} from '@mui/icons-material';
+import {
+    Alert,
+    Autocomplete,
+    Box,
+    Button,
+    Card,
+    CardContent,
+    Chip,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    FormControlLabel,
+    IconButton,
+    Paper,
+    Stack,
+    Switch,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    TextField,
+    Tooltip,
+    Typography,
+} from '@mui/material';
+import dayjs, { Dayjs } from 'dayjs';
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import apiService, { Branch, PriceDeliveryStatus, Product, ScheduledPriceChange, ScheduledPriceStatus } from '../../services/api';
+
+interface PriceCalendarTabProps {
+  branches: Branch[];
+  products: Product[];
+  selectedBranchId: string | null;
+  onNotify: (message: string, severity: 'success' | 'error' | 'warning' | 'info') => void;
+}
+
+const statusColors: Record<ScheduledPriceStatus, 'default' | 'info' | 'success' | 'warning'> = {
+  scheduled: 'info',
+  active: 'success',
+  completed: 'default',
+  cancelled: 'warning',
+};
+
+const deliveryColors: Record<PriceDeliveryStatus, 'default' | 'success' | 'error'> = {
+  pending: 'default',
+  delivered: 'success',
+  failed: 'error',
+};
+
+const LOCAL_FORMAT = 'YYYY-MM-DDTHH:mm';
+const MAX_CHIPS_PER_DAY = 3;
+
+const emptyForm = {
+  product: null as Product | null,
+  branchIds: [] as string[],
+  price: '',
+  cost: '',
+  effectiveFrom: '',
+  effectiveUntil: '',
+  notes: '',
+};
+
+// Effective times are wall-clock times in each branch's timezone, so they are shown as they are
+const formatLocal = (value: string | null) => (value ? dayjs(value).format('YYYY-MM-DD HH:mm') : '-');
+
+const isOnDay = (change: ScheduledPriceChange, day: Dayjs) => {
+  const start = dayjs(change.effectiveFrom).startOf('day');
+  const end = change.effectiveUntil ? dayjs(change.effectiveUntil) : start.endOf('day');
+  return !day.isBefore(start) && day.isBefore(end);
+};
+
+export const PriceCalendarTab: React.FC<PriceCalendarTabProps> = ({
+  branches,
+  products,
+  selectedBranchId,
+  onNotify,
+}) => {
+  const { t, i18n } = useTranslation();
+
+  const [month, setMonth] = React.useState(() => dayjs().startOf('month'));
+  const [selectedDay, setSelectedDay] = React.useState(() => dayjs().startOf('day'));
+  const [changes, setChanges] = React.useState<ScheduledPriceChange[]>([]);
+  const [showCancelled, setShowCancelled] = React.useState(false);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const [dialogOpen, setDialogOpen] = React.useState(false);
+  const [form, setForm] = React.useState(emptyForm);
+
+  // Whole weeks around the month, Monday first
+  const gridStart = React.useMemo(() => {
+    const offset = (month.day() + 6) % 7;
+    return month.subtract(offset, 'day');
+  }, [month]);
+  const gridDays = React.useMemo(
+    () => Array.from({ length: 42 }, (_, index) => gridStart.add(index, 'day')),
+    [gridStart]
+  );
+
+  const loadChanges = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const response = await apiService.getScheduledPriceChanges({
+      from: gridStart.format(LOCAL_FORMAT),
+      to: gridStart.add(42, 'day').format(LOCAL_FORMAT),
+      branchId: selectedBranchId || undefined,
+      includeCancelled: showCancelled,
+    });
+    if (response.success && response.data) {
+      setChanges(response.data.changes);
+    } else {
+      setChanges([]);
+      setError(response.error || t('priceSchedule.failedToLoad'));
+    }
+    setIsLoading(false);
+  }, [gridStart, selectedBranchId, showCancelled, t]);
+
+  React.useEffect(() => {
+    loadChanges();
+  }, [loadChanges]);
+
+  const weekdayNames = React.useMemo(
+    () => gridDays.slice(0, 7).map(day => day.toDate().toLocaleDateString(i18n.language, { weekday: 'short' })),
+    [gridDays, i18n.language]
+  );
+
+  // One chip per batch starting that day, however many branches it covers
+  const startsByDay = React.useMemo(() => {
+    const byDay = new Map<string, ScheduledPriceChange[][]>();
+    const batches = new Map<string, ScheduledPriceChange[]>();
+    changes.forEach(change => {
+      const key = `${dayjs(change.effectiveFrom).format('YYYY-MM-DD')}|${change.batchId}`;
+      batches.set(key, [...(batches.get(key) || []), change]);
+    });
+    batches.forEach((batch, key) => {
+      const day = key.split('|')[0];
+      byDay.set(day, [...(byDay.get(day) || []), batch]);
+    });
+    return byDay;
+  }, [changes]);
+
+  const dayChanges = React.useMemo(
+    () => changes.filter(change => isOnDay(change, selectedDay)),
+    [changes, selectedDay]
+  );
+
+  const formatPrice = (value: number | null | undefined) =>
+    value === null || value === undefined ? '-' : value.toLocaleString(i18n.language, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  const openDialog = () => {
+    setForm({
+      ...emptyForm,
+      branchIds: selectedBranchId ? [selectedBranchId] : [],
+      effectiveFrom: selectedDay.isBefore(dayjs(), 'day')
+        ? dayjs().add(1, 'day').startOf('day').format(LOCAL_FORMAT)
+        : selectedDay.format(LOCAL_FORMAT),
+    });
+    setDialogOpen(true);
+  };
+
+  const untilBeforeFrom = !!form.effectiveUntil && !!form.effectiveFrom && form.effectiveUntil <= form.effectiveFrom;
+  const canSchedule = !!form.product && parseFloat(form.price) > 0 && !!form.effectiveFrom && !untilBeforeFrom;
+
+  const handleSchedule = async () => {
+    if (!canSchedule) return;
+
+    setIsSaving(true);
+    const response = await apiService.schedulePriceChange({
+      product_id: form.product!.id,
+      branch_ids: form.branchIds.length > 0 ? form.branchIds : undefined,
+      price: parseFloat(form.price),
+      cost: form.cost ? parseFloat(form.cost) : undefined,
+      effective_from: form.effectiveFrom,
+      effective_until: form.effectiveUntil || undefined,
+      notes: form.notes || undefined,
+    });
+    setIsSaving(false);
+
+    if (!response.success) {
+      onNotify(response.error || t('priceSchedule.actionFailed'), 'error');
+      return;
+    }
+
+    onNotify(t('priceSchedule.scheduledSuccessfully'), 'success');
+    setDialogOpen(false);
+    setSelectedDay(dayjs(form.effectiveFrom).startOf('day'));
+    loadChanges();
+  };
+
+  const handleCancel = async (change: ScheduledPriceChange, wholeBatch: boolean) => {
+    if (!window.confirm(t('priceSchedule.confirmCancel'))) return;
+
+    const response = await apiService.cancelScheduledPriceChange(wholeBatch ? change.batchId : change.id, wholeBatch);
+    if (!response.success) {
+      onNotify(response.error || t('priceSchedule.actionFailed'), 'error');
+      return;
+    }
+
+    onNotify(t('priceSchedule.cancelledSuccessfully'), 'success');
+    loadChanges();
+  };
+
+  const handleDeliver = async () => {
+    const response = await apiService.deliverScheduledPrices();
+    if (!response.success || !response.data) {
+      onNotify(response.error || t('priceSchedule.actionFailed'), 'error');
+      return;
+    }
+
+    onNotify(t('priceSchedule.deliveredSummary', response.data), response.data.failed > 0 ? 'warning' : 'success');
+    loadChanges();
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2, flexWrap: 'wrap' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <IconButton onClick={() => setMonth(month.subtract(1, 'month'))} aria-label={t('priceSchedule.previousMonth')}>
+              <ChevronLeft />
+            </IconButton>
+            <Typography variant="h6" sx={{ minWidth: 180, textAlign: 'center', textTransform: 'capitalize' }}>
+              {month.toDate().toLocaleDateString(i18n.language, { month: 'long', year: 'numeric' })}
+            </Typography>
+            <IconButton onClick={() => setMonth(month.add(1, 'month'))} aria-label={t('priceSchedule.nextMonth')}>
+              <ChevronRight />
+            </IconButton>
+            <Button
+              size="small"
+              onClick={() => {
+                setMonth(dayjs().startOf('month'));
+                setSelectedDay(dayjs().startOf('day'));
+              }}
+            >
+              {t('priceSchedule.today')}
+            </Button>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+            <FormControlLabel
+              control={<Switch checked={showCancelled} onChange={(e) => setShowCancelled(e.target.checked)} />}
+              label={t('priceSchedule.showCancelled')}
+            />
+            <Button startIcon={<Refresh />} onClick={loadChanges} disabled={isLoading}>
+              {t('inventory.refresh')}
+            </Button>
+            <Button startIcon={<Send />} onClick={handleDeliver}>
+              {t('priceSchedule.deliverNow')}
+            </Button>
+            <Button variant="contained" startIcon={<Add />} onClick={openDialog}>
+              {t('priceSchedule.scheduleChange')}
+            </Button>
+          </Box>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', border: 1, borderColor: 'divider', borderRadius: 1, overflow: 'hidden' }}>
+          {weekdayNames.map(name => (
+            <Box key={name} sx={{ p: 1, bgcolor: 'action.hover', textAlign: 'center', textTransform: 'capitalize' }}>
+              <Typography variant="caption" fontWeight="bold">{name}</Typography>
+            </Box>
+          ))}
+          {gridDays.map(day => {
+            const key = day.format('YYYY-MM-DD');
+            const batches = startsByDay.get(key) || [];
+            const inWindow = changes.some(change => change.effectiveUntil && isOnDay(change, day));
+            const isSelected = day.isSame(selectedDay, 'day');
+
+            return (
+              <Box
+                key={key}
+                onClick={() => setSelectedDay(day)}
+                sx={{
+                  minHeight: 96,
+                  p: 0.5,
+                  borderTop: 1,
+                  borderLeft: day.day() === 1 ? 0 : 1,
+                  borderColor: 'divider',
+                  cursor: 'pointer',
+                  bgcolor: isSelected ? 'action.selected' : inWindow ? 'action.hover' : undefined,
+                  opacity: day.month() === month.month() ? 1 : 0.5,
+                }}
+              >
+                <Typography
+                  variant="body2"
+                  fontWeight={day.isSame(dayjs(), 'day') ? 'bold' : undefined}
+                  color={day.isSame(dayjs(), 'day') ? 'primary' : undefined}
+                >
+                  {day.date()}
+                </Typography>
+                <Stack spacing={0.5} sx={{ mt: 0.5 }}>
+                  {batches.slice(0, MAX_CHIPS_PER_DAY).map(batch => (
+                    <Chip
+                      key={batch[0].batchId}
+                      size="small"
+                      color={statusColors[batch[0].status]}
+                      variant={batch[0].status === 'cancelled' ? 'outlined' : 'filled'}
+                      label={`${batch[0].productName}: ${formatPrice(batch[0].price)}${batch.length > 1 ? ` (${t('priceSchedule.branchCount', { count: batch.length })})` : ''}`}
+                      sx={{ justifyContent: 'flex-start', maxWidth: '100%' }}
+                    />
+                  ))}
+                  {batches.length > MAX_CHIPS_PER_DAY && (
+                    <Typography variant="caption" color="text.secondary">
+                      {t('priceSchedule.moreChanges', { count: batches.length - MAX_CHIPS_PER_DAY })}
+                    </Typography>
+                  )}
+                </Stack>
+              </Box>
+            );
+          })}
+        </Box>
+
+        <Typography variant="subtitle1" sx={{ mt: 3, mb: 1 }}>
+          {t('priceSchedule.changesOn', { date: selectedDay.toDate().toLocaleDateString(i18n.language) })}
+        </Typography>
+
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('priceSchedule.product')}</TableCell>
+                <TableCell>{t('priceSchedule.branch')}</TableCell>
+                <TableCell align="right">{t('priceSchedule.previousPrice')}</TableCell>
+                <TableCell align="right">{t('priceSchedule.newPrice')}</TableCell>
+                <TableCell>{t('priceSchedule.effectiveFrom')}</TableCell>
+                <TableCell>{t('priceSchedule.effectiveUntil')}</TableCell>
+                <TableCell>{t('priceSchedule.status')}</TableCell>
+                <TableCell>{t('priceSchedule.delivery')}</TableCell>
+                <TableCell>{t('inventory.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={9} align="center">
+                    <CircularProgress size={24} />
+                  </TableCell>
+                </TableRow>
+              ) : dayChanges.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} align="center">
+                    <Typography color="text.secondary">{t('priceSchedule.noChangesOnDay')}</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : dayChanges.map(change => (
+                <TableRow key={change.id}>
+                  <TableCell>
+                    {change.productName}
+                    {change.sku && (
+                      <Typography variant="caption" color="text.secondary" display="block">{change.sku}</Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {change.branchName}
+                    {change.branchTimezone && (
+                      <Typography variant="caption" color="text.secondary" display="block">{change.branchTimezone}</Typography>
+                    )}
+                  </TableCell>
+                  <TableCell align="right">{formatPrice(change.previousPrice ?? change.basePrice)}</TableCell>
+                  <TableCell align="right"><strong>{formatPrice(change.price)}</strong></TableCell>
+                  <TableCell>{formatLocal(change.effectiveFrom)}</TableCell>
+                  <TableCell>{formatLocal(change.effectiveUntil)}</TableCell>
+                  <TableCell>
+                    <Chip size="small" label={t(`priceSchedule.statuses.${change.status}`)} color={statusColors[change.status]} />
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title={change.deliveryError || ''}>
+                      <Chip
+                        size="small"
+                        variant="outlined"
+                        label={t(`priceSchedule.deliveryStatuses.${change.deliveryStatus}`)}
+                        color={deliveryColors[change.deliveryStatus]}
+                      />
+                    </Tooltip>
+                  </TableCell>
+                  <TableCell>
+                    {(change.status === 'scheduled' || change.status === 'active') && (
+                      <Stack direction="row">
+                        <Tooltip title={t('priceSchedule.cancelChange')}>
+                          <IconButton size="small" onClick={() => handleCancel(change, false)}>
+                            <Cancel fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Button size="small" color="warning" onClick={() => handleCancel(change, true)}>
+                          {t('priceSchedule.cancelBatch')}
+                        </Button>
+                      </Stack>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </CardContent>
+
+      {/* Schedule dialog */}
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{t('priceSchedule.scheduleChange')}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Autocomplete
+              options={products}
+              value={form.product}
+              onChange={(_, product) => setForm(prev => ({ ...prev, product }))}
+              getOptionLabel={(product) => `${product.name} (${product.sku})`}
+              isOptionEqualToValue={(option, value) => option.id === value.id}
+              renderInput={(params) => <TextField {...params} label={t('priceSchedule.product')} required />}
+            />
+            <Autocomplete
+              multiple
+              options={branches}
+              value={branches.filter(branch => form.branchIds.includes(branch.id))}
+              onChange={(_, selected) => setForm(prev => ({ ...prev, branchIds: selected.map(branch => branch.id) }))}
+              getOptionLabel={(branch) => branch.name}
+              isOptionEqualToValue={(option, value) => option.id === value.id}
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  label={t('priceSchedule.branches')}
+                  placeholder={form.branchIds.length === 0 ? t('priceSchedule.allBranches') : undefined}
+                  helperText={form.branchIds.length === 0 ? t('priceSchedule.allBranches') : undefined}
+                />
+              )}
+            />
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                fullWidth
+                required
+                type="number"
+                label={t('priceSchedule.price')}
+                value={form.price}
+                onChange={(e) => setForm(prev => ({ ...prev, price: e.target.value }))}
+                helperText={form.product ? `${t('inventory.basePrice')}: ${formatPrice(form.product.basePrice)}` : undefined}
+                inputProps={{ min: 0, step: 0.01 }}
+              />
+              <TextField
+                fullWidth
+                type="number"
+                label={t('priceSchedule.cost')}
+                value={form.cost}
+                onChange={(e) => setForm(prev => ({ ...prev, cost: e.target.value }))}
+                inputProps={{ min: 0, step: 0.01 }}
+              />
+            </Box>
+            <TextField
+              required
+              type="datetime-local"
+              label={t('priceSchedule.effectiveFrom')}
+              value={form.effectiveFrom}
+              onChange={(e) => setForm(prev => ({ ...prev, effectiveFrom: e.target.value }))}
+              helperText={t('priceSchedule.timezoneHelper')}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              type="datetime-local"
+              label={t('priceSchedule.effectiveUntil')}
+              value={form.effectiveUntil}
+              onChange={(e) => setForm(prev => ({ ...prev, effectiveUntil: e.target.value }))}
+              error={untilBeforeFrom}
+              helperText={untilBeforeFrom ? t('priceSchedule.untilAfterFrom') : t('priceSchedule.untilHelper')}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              multiline
+              rows={2}
+              label={t('priceSchedule.notes')}
+              value={form.notes}
+              onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>{t('common.cancel')}</Button>
+          <Button variant="contained" onClick={handleSchedule} disabled={!canSchedule || isSaving}>
+            {t('priceSchedule.schedule')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
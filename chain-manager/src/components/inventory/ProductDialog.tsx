@@ -1,4 +1,4 @@
-import { CloudUpload, Delete } from '@mui/icons-material';
+import { Add, CloudUpload, Delete } from '@mui/icons-material';
 import {
   Alert,
   Autocomplete,
@@ -21,7 +21,21 @@ import {
 } from '@mui/material';
 import React from 'react';
 import { useTranslation } from 'react-i18next';
-import { Branch, Category, Product } from '../../services/api';
+import apiService, { Branch, Category, Product, ProductBarcode, ProductVariant } from '../../services/api';
+
+// Variant rows keep the attributes as typed ("size=M, colour=red") until saved
+type VariantRow = ProductVariant & { attributesText: string };
+
+const formatAttributes = (attributes?: Record<string, string> | null) =>
+  Object.entries(attributes || {}).map(([key, value]) => `${key}=${value}`).join(', ');
+
+const parseAttributes = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text.split(',')
+      .map(pair => pair.split('=').map(part => part.trim()))
+      .filter(([key, value]) => key && value)
+      .map(([key, value]) => [key, value])
+  );
 
 interface ProductDialogProps {
   open: boolean;
@@ -83,6 +97,53 @@ export const ProductDialog: React.FC<ProductDialogProps> = ({
   const [imageUploading, setImageUploading] = React.useState(false);
   const [imageError, setImageError] = React.useState<string | null>(null);
 
+  // Additional barcodes and variants come with the product details, not the list
+  const [barcodes, setBarcodes] = React.useState<ProductBarcode[]>([]);
+  const [variants, setVariants] = React.useState<VariantRow[]>([]);
+  const [variantAttributesText, setVariantAttributesText] = React.useState('');
+  const [parentProductName, setParentProductName] = React.useState<string | null>(null);
+  const [detailsLoaded, setDetailsLoaded] = React.useState(false);
+
+  // Barcodes and variants are chain-wide, so they are only edited outside branch mode
+  const showCatalogSections = !selectedBranchId;
+  const isVariant = !!product?.parentProductId;
+
+  React.useEffect(() => {
+    setBarcodes([]);
+    setVariants([]);
+    setVariantAttributesText(formatAttributes(product?.variantAttributes));
+    setParentProductName(null);
+    setDetailsLoaded(!product);
+
+    if (!open || !product?.id) return;
+
+    let cancelled = false;
+    apiService.getProduct(product.id).then(response => {
+      if (cancelled || !response.success || !response.data) return;
+      const details = response.data;
+      setBarcodes(details.barcodes || []);
+      setVariants((details.variants || []).map(variant => ({
+        ...variant,
+        attributesText: formatAttributes(variant.variantAttributes),
+      })));
+      setVariantAttributesText(formatAttributes(details.variantAttributes));
+      setParentProductName(details.parentProductName || null);
+      setDetailsLoaded(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [product, open]);
+
+  const updateBarcode = (index: number, changes: Partial<ProductBarcode>) => {
+    setBarcodes(prev => prev.map((barcode, i) => (i === index ? { ...barcode, ...changes } : barcode)));
+  };
+
+  const updateVariant = (index: number, changes: Partial<VariantRow>) => {
+    setVariants(prev => prev.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
   React.useEffect(() => {
     if (product) {
       // Use branch-specific pricing if available and branch is selected, otherwise use global pricing
@@ -235,7 +296,31 @@ export const ProductDialog: React.FC<ProductDialogProps> = ({
       return;
     }
 
-    await onSave(formData, selectedBranches);
+    const catalogData: Partial<Product> = {};
+    if (showCatalogSections && detailsLoaded) {
+      catalogData.barcodes = barcodes.filter(barcode => barcode.barcode.trim());
+
+      if (isVariant) {
+        const attributes = parseAttributes(variantAttributesText);
+        if (Object.keys(attributes).length === 0) {
+          alert(t('inventory.variantAttributesRequired'));
+          return;
+        }
+        catalogData.variantAttributes = attributes;
+      } else {
+        const rows = variants.map(({ attributesText, ...variant }) => ({
+          ...variant,
+          variantAttributes: parseAttributes(attributesText),
+        }));
+        if (rows.some(variant => !variant.sku.trim() || Object.keys(variant.variantAttributes).length === 0)) {
+          alert(t('inventory.variantFieldsRequired'));
+          return;
+        }
+        catalogData.variants = rows;
+      }
+    }
+
+    await onSave({ ...formData, ...catalogData }, selectedBranches);
     onClose();
   };
 
@@ -281,6 +366,11 @@ export const ProductDialog: React.FC<ProductDialogProps> = ({
             </Box>
           </Box>
         )}
+        {isVariant && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            {t('inventory.variantOf', { name: parentProductName || product?.parentProductName || '' })}
+          </Alert>
+        )}
         <Stack spacing={2} sx={{ mt: 1 }}>
           <Box sx={{ display: 'flex', gap: 2 }}>
             <TextField
@@ -497,6 +587,145 @@ export const ProductDialog: React.FC<ProductDialogProps> = ({
             </Box>
           )}
 
+          {/* Additional Barcodes Section */}
+          {showCatalogSections && product && !detailsLoaded && (
+            <Typography variant="body2" color="text.secondary">
+              {t('inventory.loadingProductDetails')}
+            </Typography>
+          )}
+
+          {showCatalogSections && detailsLoaded && (
+            <>
+              <Typography variant="h6" sx={{ mt: 2, mb: 1 }}>
+                {t('inventory.additionalBarcodes')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('inventory.additionalBarcodesHelper')}
+              </Typography>
+
+              {barcodes.map((barcode, index) => (
+                <Box key={barcode.id || index} sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    label={t('inventory.barcode')}
+                    value={barcode.barcode}
+                    onChange={(e) => updateBarcode(index, { barcode: e.target.value })}
+                  />
+                  <TextField
+                    size="small"
+                    type="number"
+                    label={t('inventory.quantityMultiplier')}
+                    value={barcode.quantityMultiplier}
+                    onChange={(e) => updateBarcode(index, { quantityMultiplier: parseFloat(e.target.value) || 1 })}
+                    inputProps={{ min: 0.001, step: 1 }}
+                    sx={{ minWidth: 140 }}
+                  />
+                  <TextField
+                    fullWidth
+                    size="small"
+                    label={t('inventory.barcodeDescription')}
+                    value={barcode.description || ''}
+                    onChange={(e) => updateBarcode(index, { description: e.target.value })}
+                    helperText={barcode.supplierName}
+                  />
+                  <IconButton onClick={() => setBarcodes(prev => prev.filter((_, i) => i !== index))}>
+                    <Delete />
+                  </IconButton>
+                </Box>
+              ))}
+
+              <Box>
+                <Button
+                  startIcon={<Add />}
+                  onClick={() => setBarcodes(prev => [...prev, { barcode: '', quantityMultiplier: 1 }])}
+                >
+                  {t('inventory.addBarcode')}
+                </Button>
+              </Box>
+
+              {isVariant ? (
+                <TextField
+                  fullWidth
+                  label={t('inventory.variantAttributes')}
+                  value={variantAttributesText}
+                  onChange={(e) => setVariantAttributesText(e.target.value)}
+                  helperText={t('inventory.variantAttributesHelper')}
+                />
+              ) : (
+                <>
+                  <Typography variant="h6" sx={{ mt: 2, mb: 1 }}>
+                    {t('inventory.variants')}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {t('inventory.variantsHelper')}
+                  </Typography>
+
+                  {variants.map((variant, index) => (
+                    <Box key={variant.id || index} sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+                      <TextField
+                        fullWidth
+                        size="small"
+                        label={t('inventory.variantAttributes')}
+                        placeholder="size=M, colour=red"
+                        value={variant.attributesText}
+                        onChange={(e) => updateVariant(index, { attributesText: e.target.value })}
+                      />
+                      <TextField
+                        size="small"
+                        label={t('inventory.sku')}
+                        value={variant.sku}
+                        onChange={(e) => updateVariant(index, { sku: e.target.value })}
+                      />
+                      <TextField
+                        size="small"
+                        label={t('inventory.barcode')}
+                        value={variant.barcode || ''}
+                        onChange={(e) => updateVariant(index, { barcode: e.target.value })}
+                      />
+                      <TextField
+                        size="small"
+                        type="number"
+                        label={t('inventory.basePrice')}
+                        value={variant.basePrice ?? ''}
+                        onChange={(e) => updateVariant(index, {
+                          basePrice: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0,
+                        })}
+                        sx={{ minWidth: 110 }}
+                      />
+                      <Switch
+                        checked={variant.isActive}
+                        onChange={(e) => updateVariant(index, { isActive: e.target.checked })}
+                        inputProps={{ 'aria-label': t('inventory.active') }}
+                      />
+                      <IconButton onClick={() => setVariants(prev => prev.filter((_, i) => i !== index))}>
+                        <Delete />
+                      </IconButton>
+                    </Box>
+                  ))}
+
+                  <Box>
+                    <Button
+                      startIcon={<Add />}
+                      onClick={() => setVariants(prev => [
+                        ...prev,
+                        {
+                          sku: formData.sku ? `${formData.sku}-${prev.length + 1}` : '',
+                          basePrice: formData.basePrice,
+                          variantAttributes: {},
+                          attributesText: '',
+                          isActive: true,
+                        },
+                      ])}
+                    >
+                      {t('inventory.addVariant')}
+                    </Button>
+                  </Box>
+                </>
+              )}
+            </>
+          )}
+
           {/* Branch Selection Section (only for new products in general inventory) */}
           {showBranchSelection && (
             <>
@@ -0,0 +1,656 @@
+import {
+    Add,
+    AutoMode,
+    Delete,
+    Refresh,
+    Visibility,
+} from '@mui/icons-material';
+import {
+    Alert,
+    Autocomplete,
+    Box,
+    Button,
+    Card,
+    CardContent,
+    Chip,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    FormControl,
+    IconButton,
+    InputLabel,
+    MenuItem,
+    Paper,
+    Select,
+    Stack,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    TextField,
+    Tooltip,
+    Typography,
+} from '@mui/material';
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../hooks/useAuth';
+import apiService, { ApiResponse, Branch, Product, PurchaseOrder, PurchaseOrderStatus, Supplier } from '../../services/api';
+
+interface PurchaseOrdersTabProps {
+  branches: Branch[];
+  products: Product[];
+  selectedBranchId: string | null;
+  onNotify: (message: string, severity: 'success' | 'error' | 'warning' | 'info') => void;
+}
+
+interface OrderLine {
+  product: Product | null;
+  quantity: number;
+  unitCost: string;
+}
+
+const statusColors: Record<PurchaseOrderStatus, 'default' | 'info' | 'primary' | 'success' | 'error' | 'warning'> = {
+  draft: 'default',
+  submitted: 'warning',
+  approved: 'info',
+  rejected: 'error',
+  ordered: 'primary',
+  partially_received: 'warning',
+  received: 'success',
+  cancelled: 'default',
+};
+
+const cancellableStatuses: PurchaseOrderStatus[] = ['draft', 'submitted', 'approved', 'ordered'];
+
+const emptyNewOrder = {
+  supplierId: '',
+  branchId: '',
+  expectedDate: '',
+  notes: '',
+  lines: [{ product: null, quantity: 1, unitCost: '' }] as OrderLine[],
+};
+
+export const PurchaseOrdersTab: React.FC<PurchaseOrdersTabProps> = ({
+  branches,
+  products,
+  selectedBranchId,
+  onNotify,
+}) => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  const [orders, setOrders] = React.useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = React.useState<Supplier[]>([]);
+  const [statusFilter, setStatusFilter] = React.useState<PurchaseOrderStatus | ''>('submitted');
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  // Review dialog; draft lines stay editable
+  const [activeOrder, setActiveOrder] = React.useState<PurchaseOrder | null>(null);
+  const [draftLines, setDraftLines] = React.useState<Record<string, { quantity: number; unitCost: number }>>({});
+  const [rejectionReason, setRejectionReason] = React.useState('');
+
+  // New purchase order dialog
+  const [newOrderOpen, setNewOrderOpen] = React.useState(false);
+  const [newOrder, setNewOrder] = React.useState(emptyNewOrder);
+
+  const loadOrders = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const response = await apiService.getPurchaseOrders({
+      branchId: selectedBranchId || undefined,
+      status: statusFilter || undefined,
+    });
+    if (response.success && response.data) {
+      setOrders(response.data.purchaseOrders);
+    } else {
+      setOrders([]);
+      setError(response.error || t('purchaseOrders.failedToLoad'));
+    }
+    setIsLoading(false);
+  }, [selectedBranchId, statusFilter, t]);
+
+  React.useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  React.useEffect(() => {
+    apiService.getSuppliers({ isActive: true }).then(response => {
+      if (response.success && response.data) {
+        setSuppliers(response.data.suppliers);
+      }
+    });
+  }, []);
+
+  const showOrder = (order: PurchaseOrder) => {
+    const lines: Record<string, { quantity: number; unitCost: number }> = {};
+    (order.items || []).forEach(item => {
+      lines[item.id] = { quantity: item.quantityOrdered, unitCost: item.unitCost };
+    });
+    setDraftLines(lines);
+    setActiveOrder(order);
+  };
+
+  const openReview = async (order: PurchaseOrder) => {
+    const response = await apiService.getPurchaseOrder(order.id);
+    if (!response.success || !response.data) {
+      onNotify(response.error || t('purchaseOrders.failedToLoad'), 'error');
+      return;
+    }
+    setRejectionReason('');
+    showOrder(response.data.purchaseOrder);
+  };
+
+  const closeReview = () => {
+    setActiveOrder(null);
+    setDraftLines({});
+  };
+
+  const runAction = async (
+    action: () => Promise<ApiResponse<{ purchaseOrder: PurchaseOrder } | void>>,
+    successMessage: string,
+    keepOpen = false
+  ) => {
+    setIsSaving(true);
+    const response = await action();
+    setIsSaving(false);
+
+    if (!response.success) {
+      onNotify(response.error || t('purchaseOrders.actionFailed'), 'error');
+      return;
+    }
+
+    onNotify(successMessage, 'success');
+    loadOrders();
+    if (keepOpen && response.data) {
+      showOrder(response.data.purchaseOrder);
+    } else {
+      closeReview();
+    }
+  };
+
+  const handleSaveDraft = () => {
+    if (!activeOrder) return;
+    runAction(
+      () => apiService.updatePurchaseOrder(activeOrder.id, {
+        items: (activeOrder.items || [])
+          .filter(item => (draftLines[item.id]?.quantity || 0) > 0)
+          .map(item => ({
+            product_id: item.productId,
+            quantity_ordered: draftLines[item.id].quantity,
+            unit_cost: draftLines[item.id].unitCost,
+          })),
+      }),
+      t('purchaseOrders.savedSuccessfully'),
+      true
+    );
+  };
+
+  const handleDelete = () => {
+    if (!activeOrder || !window.confirm(t('purchaseOrders.confirmDelete'))) return;
+    runAction(() => apiService.deletePurchaseOrder(activeOrder.id), t('purchaseOrders.deletedSuccessfully'));
+  };
+
+  const handleReject = () => {
+    if (!activeOrder || !rejectionReason.trim()) return;
+    runAction(
+      () => apiService.rejectPurchaseOrder(activeOrder.id, rejectionReason.trim(), user?.id),
+      t('purchaseOrders.rejectedSuccessfully')
+    );
+  };
+
+  const handleCancel = () => {
+    if (!activeOrder || !window.confirm(t('purchaseOrders.confirmCancel'))) return;
+    runAction(() => apiService.cancelPurchaseOrder(activeOrder.id), t('purchaseOrders.cancelledSuccessfully'));
+  };
+
+  const handleGenerate = async () => {
+    setIsSaving(true);
+    const response = await apiService.generatePurchaseOrders(selectedBranchId || undefined, user?.id);
+    setIsSaving(false);
+
+    if (!response.success || !response.data) {
+      onNotify(response.error || t('purchaseOrders.actionFailed'), 'error');
+      return;
+    }
+
+    const { purchaseOrders, withoutSupplier } = response.data;
+    if (withoutSupplier.length > 0) {
+      onNotify(t('purchaseOrders.generatedWithoutSupplier', {
+        count: purchaseOrders.length,
+        products: withoutSupplier.map(item => item.productName).join(', '),
+      }), 'warning');
+    } else {
+      onNotify(t('purchaseOrders.generated', { count: purchaseOrders.length }), purchaseOrders.length > 0 ? 'success' : 'info');
+    }
+
+    setStatusFilter('draft');
+    loadOrders();
+  };
+
+  const updateNewLine = (index: number, line: Partial<OrderLine>) => {
+    setNewOrder(prev => ({
+      ...prev,
+      lines: prev.lines.map((existing, i) => (i === index ? { ...existing, ...line } : existing)),
+    }));
+  };
+
+  const canCreate = newOrder.supplierId && newOrder.branchId &&
+    newOrder.lines.length > 0 &&
+    newOrder.lines.every(line => line.product && line.quantity > 0);
+
+  const handleCreate = async () => {
+    if (!canCreate) return;
+
+    setIsSaving(true);
+    const response = await apiService.createPurchaseOrder({
+      supplier_id: newOrder.supplierId,
+      branch_id: newOrder.branchId,
+      expected_date: newOrder.expectedDate || undefined,
+      notes: newOrder.notes || undefined,
+      created_by: user?.id,
+      items: newOrder.lines.map(line => ({
+        product_id: line.product!.id,
+        quantity_ordered: line.quantity,
+        unit_cost: line.unitCost === '' ? undefined : Number(line.unitCost),
+      })),
+    });
+    setIsSaving(false);
+
+    if (!response.success) {
+      onNotify(response.error || t('purchaseOrders.actionFailed'), 'error');
+      return;
+    }
+
+    onNotify(t('purchaseOrders.createdSuccessfully'), 'success');
+    setNewOrderOpen(false);
+    setNewOrder(emptyNewOrder);
+    setStatusFilter('draft');
+    loadOrders();
+  };
+
+  const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : '-');
+  const formatMoney = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+  const isDraft = activeOrder?.status === 'draft';
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2, flexWrap: 'wrap' }}>
+          <Typography variant="h6">
+            {t('purchaseOrders.title')} ({orders.length})
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+            <FormControl size="small" sx={{ minWidth: 180 }}>
+              <InputLabel>{t('purchaseOrders.status')}</InputLabel>
+              <Select
+                value={statusFilter}
+                label={t('purchaseOrders.status')}
+                onChange={(e) => setStatusFilter(e.target.value as PurchaseOrderStatus | '')}
+              >
+                <MenuItem value="">{t('purchaseOrders.allStatuses')}</MenuItem>
+                {(Object.keys(statusColors) as PurchaseOrderStatus[]).map(status => (
+                  <MenuItem key={status} value={status}>{t(`purchaseOrders.statuses.${status}`)}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Button startIcon={<Refresh />} onClick={loadOrders} disabled={isLoading}>
+              {t('inventory.refresh')}
+            </Button>
+            <Tooltip title={t('purchaseOrders.generateHelp')}>
+              <span>
+                <Button startIcon={<AutoMode />} onClick={handleGenerate} disabled={isSaving}>
+                  {t('purchaseOrders.generate')}
+                </Button>
+              </span>
+            </Tooltip>
+            <Button
+              variant="contained"
+              startIcon={<Add />}
+              onClick={() => {
+                setNewOrder({ ...emptyNewOrder, branchId: selectedBranchId || '' });
+                setNewOrderOpen(true);
+              }}
+            >
+              {t('purchaseOrders.newOrder')}
+            </Button>
+          </Box>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('purchaseOrders.number')}</TableCell>
+                <TableCell>{t('purchaseOrders.supplier')}</TableCell>
+                <TableCell>{t('purchaseOrders.branch')}</TableCell>
+                <TableCell align="center">{t('purchaseOrders.items')}</TableCell>
+                <TableCell align="right">{t('purchaseOrders.totalCost')}</TableCell>
+                <TableCell>{t('purchaseOrders.createdAt')}</TableCell>
+                <TableCell>{t('purchaseOrders.status')}</TableCell>
+                <TableCell>{t('inventory.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={8} align="center">
+                    <CircularProgress size={24} />
+                  </TableCell>
+                </TableRow>
+              ) : orders.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} align="center">
+                    <Typography color="text.secondary">{t('purchaseOrders.noOrders')}</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : orders.map(order => (
+                <TableRow key={order.id}>
+                  <TableCell>{order.poNumber}</TableCell>
+                  <TableCell>{order.supplierName}</TableCell>
+                  <TableCell>{order.branchName}</TableCell>
+                  <TableCell align="center">{order.itemCount}</TableCell>
+                  <TableCell align="right">{formatMoney(order.totalCost)}</TableCell>
+                  <TableCell>{formatDate(order.createdAt)}</TableCell>
+                  <TableCell>
+                    <Stack direction="row" spacing={1}>
+                      <Chip label={t(`purchaseOrders.statuses.${order.status}`)} color={statusColors[order.status]} size="small" />
+                      {order.source === 'reorder' && (
+                        <Chip label={t('purchaseOrders.fromReorder')} size="small" variant="outlined" />
+                      )}
+                    </Stack>
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title={t('purchaseOrders.review')}>
+                      <IconButton onClick={() => openReview(order)}>
+                        <Visibility />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </CardContent>
+
+      {/* Review / approval dialog */}
+      <Dialog open={!!activeOrder} onClose={closeReview} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {t('purchaseOrders.orderDetails', { number: activeOrder?.poNumber })}
+        </DialogTitle>
+        <DialogContent>
+          {activeOrder && (
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              <Box sx={{ display: 'flex', gap: 4, flexWrap: 'wrap', alignItems: 'center' }}>
+                <Typography variant="body2">
+                  <strong>{t('purchaseOrders.supplier')}:</strong> {activeOrder.supplierName}
+                </Typography>
+                <Typography variant="body2">
+                  <strong>{t('purchaseOrders.branch')}:</strong> {activeOrder.branchName}
+                </Typography>
+                {activeOrder.expectedDate && (
+                  <Typography variant="body2">
+                    <strong>{t('purchaseOrders.expectedDate')}:</strong> {new Date(activeOrder.expectedDate).toLocaleDateString()}
+                  </Typography>
+                )}
+                <Chip label={t(`purchaseOrders.statuses.${activeOrder.status}`)} color={statusColors[activeOrder.status]} size="small" />
+              </Box>
+              {activeOrder.notes && (
+                <Typography variant="body2" color="text.secondary">{activeOrder.notes}</Typography>
+              )}
+              {activeOrder.rejectionReason && (
+                <Alert severity="error">{activeOrder.rejectionReason}</Alert>
+              )}
+
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('inventory.product')}</TableCell>
+                    <TableCell align="right">{t('purchaseOrders.ordered')}</TableCell>
+                    <TableCell align="right">{t('purchaseOrders.received')}</TableCell>
+                    <TableCell align="right">{t('purchaseOrders.unitCost')}</TableCell>
+                    <TableCell align="right">{t('purchaseOrders.lineTotal')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {(activeOrder.items || []).map(item => {
+                    const line = draftLines[item.id] || { quantity: item.quantityOrdered, unitCost: item.unitCost };
+                    return (
+                      <TableRow key={item.id}>
+                        <TableCell>
+                          <Typography variant="body2">{item.productName}</Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            {item.sku}{item.supplierSku ? ` · ${item.supplierSku}` : ''}
+                          </Typography>
+                        </TableCell>
+                        <TableCell align="right">
+                          {isDraft ? (
+                            <TextField
+                              type="number"
+                              size="small"
+                              value={line.quantity}
+                              onChange={(e) => setDraftLines(prev => ({ ...prev, [item.id]: { ...line, quantity: Number(e.target.value) } }))}
+                              inputProps={{ min: 0, step: 'any' }}
+                              sx={{ width: 100 }}
+                            />
+                          ) : item.quantityOrdered}
+                        </TableCell>
+                        <TableCell align="right">{item.quantityReceived}</TableCell>
+                        <TableCell align="right">
+                          {isDraft ? (
+                            <TextField
+                              type="number"
+                              size="small"
+                              value={line.unitCost}
+                              onChange={(e) => setDraftLines(prev => ({ ...prev, [item.id]: { ...line, unitCost: Number(e.target.value) } }))}
+                              inputProps={{ min: 0, step: 'any' }}
+                              sx={{ width: 120 }}
+                            />
+                          ) : formatMoney(item.unitCost)}
+                        </TableCell>
+                        <TableCell align="right">{formatMoney(line.quantity * line.unitCost)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              {(activeOrder.receipts || []).length > 0 && (
+                <Box>
+                  <Typography variant="subtitle2" sx={{ mb: 1 }}>{t('purchaseOrders.receipts')}</Typography>
+                  <Table size="small">
+                    <TableBody>
+                      {(activeOrder.receipts || []).map(receipt => (
+                        <TableRow key={receipt.id}>
+                          <TableCell>{receipt.grnNumber}</TableCell>
+                          <TableCell>{receipt.supplierInvoiceNumber || '-'}</TableCell>
+                          <TableCell>{formatDate(receipt.receivedAt)}</TableCell>
+                          <TableCell align="right">{formatMoney(receipt.totalCost)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Box>
+              )}
+
+              {activeOrder.status === 'submitted' && (
+                <TextField
+                  label={t('purchaseOrders.rejectionReason')}
+                  value={rejectionReason}
+                  onChange={(e) => setRejectionReason(e.target.value)}
+                  helperText={t('purchaseOrders.rejectionReasonHelper')}
+                  size="small"
+                  fullWidth
+                />
+              )}
+            </Stack>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {activeOrder && cancellableStatuses.includes(activeOrder.status) && (
+            <Button color="inherit" onClick={isDraft ? handleDelete : handleCancel} disabled={isSaving} sx={{ mr: 'auto' }}>
+              {isDraft ? t('common.delete') : t('purchaseOrders.cancelOrder')}
+            </Button>
+          )}
+          <Button onClick={closeReview} disabled={isSaving}>{t('common.close')}</Button>
+          {activeOrder && isDraft && (
+            <>
+              <Button onClick={handleSaveDraft} disabled={isSaving}>{t('common.save')}</Button>
+              <Button
+                variant="contained"
+                onClick={() => runAction(() => apiService.submitPurchaseOrder(activeOrder.id), t('purchaseOrders.submittedSuccessfully'))}
+                disabled={isSaving}
+              >
+                {t('purchaseOrders.submit')}
+              </Button>
+            </>
+          )}
+          {activeOrder?.status === 'submitted' && (
+            <>
+              <Button color="error" onClick={handleReject} disabled={isSaving || !rejectionReason.trim()}>
+                {t('purchaseOrders.reject')}
+              </Button>
+              <Button
+                variant="contained"
+                onClick={() => runAction(() => apiService.approvePurchaseOrder(activeOrder.id, user?.id), t('purchaseOrders.approvedSuccessfully'))}
+                disabled={isSaving}
+              >
+                {isSaving ? <CircularProgress size={20} /> : t('purchaseOrders.approve')}
+              </Button>
+            </>
+          )}
+          {activeOrder?.status === 'approved' && (
+            <Button
+              variant="contained"
+              onClick={() => runAction(() => apiService.markPurchaseOrderOrdered(activeOrder.id), t('purchaseOrders.orderedSuccessfully'), true)}
+              disabled={isSaving}
+            >
+              {t('purchaseOrders.markOrdered')}
+            </Button>
+          )}
+        </DialogActions>
+      </Dialog>
+
+      {/* New purchase order dialog */}
+      <Dialog open={newOrderOpen} onClose={() => setNewOrderOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>{t('purchaseOrders.newOrder')}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <FormControl fullWidth size="small">
+                <InputLabel>{t('purchaseOrders.supplier')}</InputLabel>
+                <Select
+                  value={newOrder.supplierId}
+                  label={t('purchaseOrders.supplier')}
+                  onChange={(e) => setNewOrder(prev => ({ ...prev, supplierId: e.target.value }))}
+                >
+                  {suppliers.map(supplier => (
+                    <MenuItem key={supplier.id} value={supplier.id}>{supplier.name}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl fullWidth size="small">
+                <InputLabel>{t('purchaseOrders.branch')}</InputLabel>
+                <Select
+                  value={newOrder.branchId}
+                  label={t('purchaseOrders.branch')}
+                  onChange={(e) => setNewOrder(prev => ({ ...prev, branchId: e.target.value }))}
+                >
+                  {branches.map(branch => (
+                    <MenuItem key={branch.id} value={branch.id}>{branch.name}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <TextField
+                type="date"
+                size="small"
+                label={t('purchaseOrders.expectedDate')}
+                value={newOrder.expectedDate}
+                onChange={(e) => setNewOrder(prev => ({ ...prev, expectedDate: e.target.value }))}
+                InputLabelProps={{ shrink: true }}
+                fullWidth
+              />
+            </Box>
+
+            {newOrder.lines.map((line, index) => (
+              <Box key={index} sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+                <Autocomplete
+                  sx={{ flex: 1 }}
+                  size="small"
+                  options={products}
+                  value={line.product}
+                  getOptionLabel={(product) => `${product.name} (${product.sku})`}
+                  isOptionEqualToValue={(option, value) => option.id === value.id}
+                  onChange={(_, product) => updateNewLine(index, { product })}
+                  renderInput={(params) => <TextField {...params} label={t('inventory.product')} />}
+                />
+                <TextField
+                  type="number"
+                  size="small"
+                  label={t('inventory.quantity')}
+                  value={line.quantity}
+                  onChange={(e) => updateNewLine(index, { quantity: Number(e.target.value) })}
+                  inputProps={{ min: 0, step: 'any' }}
+                  sx={{ width: 120 }}
+                />
+                <TextField
+                  type="number"
+                  size="small"
+                  label={t('purchaseOrders.unitCost')}
+                  value={line.unitCost}
+                  placeholder={t('purchaseOrders.supplierCost')}
+                  onChange={(e) => updateNewLine(index, { unitCost: e.target.value })}
+                  inputProps={{ min: 0, step: 'any' }}
+                  InputLabelProps={{ shrink: true }}
+                  sx={{ width: 150 }}
+                />
+                <IconButton
+                  onClick={() => setNewOrder(prev => ({ ...prev, lines: prev.lines.filter((_, i) => i !== index) }))}
+                  disabled={newOrder.lines.length === 1}
+                >
+                  <Delete />
+                </IconButton>
+              </Box>
+            ))}
+            <Box>
+              <Button
+                startIcon={<Add />}
+                onClick={() => setNewOrder(prev => ({ ...prev, lines: [...prev.lines, { product: null, quantity: 1, unitCost: '' }] }))}
+              >
+                {t('purchaseOrders.addItem')}
+              </Button>
+            </Box>
+
+            <TextField
+              label={t('purchaseOrders.notes')}
+              value={newOrder.notes}
+              onChange={(e) => setNewOrder(prev => ({ ...prev, notes: e.target.value }))}
+              multiline
+              rows={2}
+              fullWidth
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setNewOrderOpen(false)} disabled={isSaving}>{t('common.cancel')}</Button>
+          <Button variant="contained" onClick={handleCreate} disabled={isSaving || !canCreate}>
+            {t('purchaseOrders.create')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
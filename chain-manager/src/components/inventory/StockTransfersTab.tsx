@@ -0,0 +1,518 @@
+import {
+    Add,
+    Delete,
+    Refresh,
+    Visibility,
+} from '@mui/icons-material';
+import {
+    Alert,
+    Autocomplete,
+    Box,
+    Button,
+    Card,
+    CardContent,
+    Chip,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    FormControl,
+    IconButton,
+    InputLabel,
+    MenuItem,
+    Paper,
+    Select,
+    Stack,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    TextField,
+    Tooltip,
+    Typography,
+} from '@mui/material';
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../hooks/useAuth';
+import apiService, { Branch, Product, StockTransfer, StockTransferStatus } from '../../services/api';
+
+interface StockTransfersTabProps {
+  branches: Branch[];
+  products: Product[];
+  selectedBranchId: string | null;
+  onNotify: (message: string, severity: 'success' | 'error' | 'warning' | 'info') => void;
+}
+
+interface NewTransferLine {
+  product: Product | null;
+  quantity: number;
+}
+
+const statusColors: Record<StockTransferStatus, 'default' | 'info' | 'primary' | 'success' | 'error' | 'warning'> = {
+  requested: 'warning',
+  approved: 'info',
+  rejected: 'error',
+  shipped: 'primary',
+  received: 'success',
+  cancelled: 'default',
+};
+
+const emptyNewTransfer = {
+  fromBranchId: '',
+  toBranchId: '',
+  notes: '',
+  lines: [{ product: null, quantity: 1 }] as NewTransferLine[],
+};
+
+export const StockTransfersTab: React.FC<StockTransfersTabProps> = ({
+  branches,
+  products,
+  selectedBranchId,
+  onNotify,
+}) => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  const [transfers, setTransfers] = React.useState<StockTransfer[]>([]);
+  const [statusFilter, setStatusFilter] = React.useState<StockTransferStatus | ''>('requested');
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  // Review dialog
+  const [activeTransfer, setActiveTransfer] = React.useState<StockTransfer | null>(null);
+  const [approvedQuantities, setApprovedQuantities] = React.useState<Record<string, number>>({});
+  const [rejectionReason, setRejectionReason] = React.useState('');
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  // New transfer dialog
+  const [newTransferOpen, setNewTransferOpen] = React.useState(false);
+  const [newTransfer, setNewTransfer] = React.useState(emptyNewTransfer);
+
+  const loadTransfers = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const response = await apiService.getStockTransfers({
+      branchId: selectedBranchId || undefined,
+      status: statusFilter || undefined,
+    });
+    if (response.success && response.data) {
+      setTransfers(response.data.transfers);
+    } else {
+      setTransfers([]);
+      setError(response.error || t('transfers.failedToLoad'));
+    }
+    setIsLoading(false);
+  }, [selectedBranchId, statusFilter, t]);
+
+  React.useEffect(() => {
+    loadTransfers();
+  }, [loadTransfers]);
+
+  const openReview = async (transfer: StockTransfer) => {
+    const response = await apiService.getStockTransfer(transfer.id);
+    if (!response.success || !response.data) {
+      onNotify(response.error || t('transfers.failedToLoad'), 'error');
+      return;
+    }
+
+    const details = response.data.transfer;
+    const quantities: Record<string, number> = {};
+    (details.items || []).forEach(item => {
+      quantities[item.id] = item.quantityApproved ?? item.quantityRequested;
+    });
+
+    setApprovedQuantities(quantities);
+    setRejectionReason('');
+    setActiveTransfer(details);
+  };
+
+  const closeReview = () => {
+    setActiveTransfer(null);
+    setApprovedQuantities({});
+  };
+
+  const runAction = async (
+    action: () => Promise<{ success: boolean; error?: string }>,
+    successMessage: string
+  ) => {
+    setIsSaving(true);
+    const response = await action();
+    setIsSaving(false);
+
+    if (!response.success) {
+      onNotify(response.error || t('transfers.actionFailed'), 'error');
+      return false;
+    }
+
+    onNotify(successMessage, 'success');
+    loadTransfers();
+    return true;
+  };
+
+  const handleApprove = async () => {
+    if (!activeTransfer) return;
+    const items = Object.entries(approvedQuantities).map(([itemId, quantity]) => ({
+      item_id: itemId,
+      quantity_approved: Math.max(0, quantity || 0),
+    }));
+
+    if (await runAction(
+      () => apiService.approveStockTransfer(activeTransfer.id, items, user?.id),
+      t('transfers.approvedSuccessfully')
+    )) {
+      closeReview();
+    }
+  };
+
+  const handleReject = async () => {
+    if (!activeTransfer || !rejectionReason.trim()) return;
+
+    if (await runAction(
+      () => apiService.rejectStockTransfer(activeTransfer.id, rejectionReason.trim(), user?.id),
+      t('transfers.rejectedSuccessfully')
+    )) {
+      closeReview();
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!activeTransfer || !window.confirm(t('transfers.confirmCancel'))) return;
+
+    if (await runAction(
+      () => apiService.cancelStockTransfer(activeTransfer.id),
+      t('transfers.cancelledSuccessfully')
+    )) {
+      closeReview();
+    }
+  };
+
+  const updateNewLine = (index: number, line: Partial<NewTransferLine>) => {
+    setNewTransfer(prev => ({
+      ...prev,
+      lines: prev.lines.map((existing, i) => (i === index ? { ...existing, ...line } : existing)),
+    }));
+  };
+
+  const canCreate = newTransfer.fromBranchId && newTransfer.toBranchId &&
+    newTransfer.fromBranchId !== newTransfer.toBranchId &&
+    newTransfer.lines.length > 0 &&
+    newTransfer.lines.every(line => line.product && line.quantity > 0);
+
+  const handleCreate = async () => {
+    if (!canCreate) return;
+
+    if (await runAction(
+      () => apiService.createStockTransfer({
+        from_branch_id: newTransfer.fromBranchId,
+        to_branch_id: newTransfer.toBranchId,
+        notes: newTransfer.notes || undefined,
+        items: newTransfer.lines.map(line => ({
+          product_id: line.product!.id,
+          quantity_requested: line.quantity,
+        })),
+      }),
+      t('transfers.createdSuccessfully')
+    )) {
+      setNewTransferOpen(false);
+      setNewTransfer(emptyNewTransfer);
+    }
+  };
+
+  const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : '-');
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2, flexWrap: 'wrap' }}>
+          <Typography variant="h6">
+            {t('transfers.title')} ({transfers.length})
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+            <FormControl size="small" sx={{ minWidth: 180 }}>
+              <InputLabel>{t('transfers.status')}</InputLabel>
+              <Select
+                value={statusFilter}
+                label={t('transfers.status')}
+                onChange={(e) => setStatusFilter(e.target.value as StockTransferStatus | '')}
+              >
+                <MenuItem value="">{t('transfers.allStatuses')}</MenuItem>
+                {(Object.keys(statusColors) as StockTransferStatus[]).map(status => (
+                  <MenuItem key={status} value={status}>{t(`transfers.statuses.${status}`)}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Button startIcon={<Refresh />} onClick={loadTransfers} disabled={isLoading}>
+              {t('inventory.refresh')}
+            </Button>
+            <Button variant="contained" startIcon={<Add />} onClick={() => setNewTransferOpen(true)}>
+              {t('transfers.newTransfer')}
+            </Button>
+          </Box>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('transfers.number')}</TableCell>
+                <TableCell>{t('transfers.fromBranch')}</TableCell>
+                <TableCell>{t('transfers.toBranch')}</TableCell>
+                <TableCell align="center">{t('transfers.items')}</TableCell>
+                <TableCell>{t('transfers.requestedAt')}</TableCell>
+                <TableCell>{t('transfers.status')}</TableCell>
+                <TableCell>{t('inventory.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} align="center">
+                    <CircularProgress size={24} />
+                  </TableCell>
+                </TableRow>
+              ) : transfers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} align="center">
+                    <Typography color="text.secondary">{t('transfers.noTransfers')}</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : transfers.map(transfer => (
+                <TableRow key={transfer.id}>
+                  <TableCell>{transfer.transferNumber}</TableCell>
+                  <TableCell>{transfer.fromBranchName}</TableCell>
+                  <TableCell>{transfer.toBranchName}</TableCell>
+                  <TableCell align="center">{transfer.itemCount}</TableCell>
+                  <TableCell>{formatDate(transfer.requestedAt)}</TableCell>
+                  <TableCell>
+                    <Stack direction="row" spacing={1}>
+                      <Chip label={t(`transfers.statuses.${transfer.status}`)} color={statusColors[transfer.status]} size="small" />
+                      {transfer.hasDiscrepancy && (
+                        <Chip label={t('transfers.discrepancy')} color="warning" size="small" variant="outlined" />
+                      )}
+                    </Stack>
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title={t('transfers.review')}>
+                      <IconButton onClick={() => openReview(transfer)}>
+                        <Visibility />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </CardContent>
+
+      {/* Review / approval dialog */}
+      <Dialog open={!!activeTransfer} onClose={closeReview} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {t('transfers.transferDetails', { number: activeTransfer?.transferNumber })}
+        </DialogTitle>
+        <DialogContent>
+          {activeTransfer && (
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              <Box sx={{ display: 'flex', gap: 4, flexWrap: 'wrap' }}>
+                <Typography variant="body2">
+                  <strong>{t('transfers.fromBranch')}:</strong> {activeTransfer.fromBranchName}
+                </Typography>
+                <Typography variant="body2">
+                  <strong>{t('transfers.toBranch')}:</strong> {activeTransfer.toBranchName}
+                </Typography>
+                <Chip label={t(`transfers.statuses.${activeTransfer.status}`)} color={statusColors[activeTransfer.status]} size="small" />
+              </Box>
+              {activeTransfer.notes && (
+                <Typography variant="body2" color="text.secondary">{activeTransfer.notes}</Typography>
+              )}
+              {activeTransfer.rejectionReason && (
+                <Alert severity="error">{activeTransfer.rejectionReason}</Alert>
+              )}
+
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('inventory.product')}</TableCell>
+                    <TableCell align="right">{t('transfers.requested')}</TableCell>
+                    <TableCell align="right">{t('transfers.approved')}</TableCell>
+                    <TableCell align="right">{t('transfers.shipped')}</TableCell>
+                    <TableCell align="right">{t('transfers.received')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {(activeTransfer.items || []).map(item => {
+                    const difference = item.quantityReceived !== null && item.quantityShipped !== null
+                      ? item.quantityReceived - item.quantityShipped
+                      : 0;
+
+                    return (
+                      <TableRow key={item.id}>
+                        <TableCell>
+                          <Typography variant="body2">{item.productName}</Typography>
+                          <Typography variant="caption" color="text.secondary">{item.sku}</Typography>
+                          {item.discrepancyNotes && (
+                            <Typography variant="caption" color="warning.main" display="block">
+                              {item.discrepancyNotes}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell align="right">{item.quantityRequested}</TableCell>
+                        <TableCell align="right">
+                          {activeTransfer.status === 'requested' ? (
+                            <TextField
+                              type="number"
+                              size="small"
+                              value={approvedQuantities[item.id] ?? ''}
+                              onChange={(e) => setApprovedQuantities(prev => ({ ...prev, [item.id]: Number(e.target.value) }))}
+                              inputProps={{ min: 0, step: 'any' }}
+                              sx={{ width: 100 }}
+                            />
+                          ) : (item.quantityApproved ?? '-')}
+                        </TableCell>
+                        <TableCell align="right">{item.quantityShipped ?? '-'}</TableCell>
+                        <TableCell align="right">
+                          {item.quantityReceived ?? '-'}
+                          {difference !== 0 && (
+                            <Typography component="span" variant="body2" color="warning.main" sx={{ ml: 1 }}>
+                              ({difference > 0 ? '+' : ''}{difference})
+                            </Typography>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              {activeTransfer.status === 'requested' && (
+                <TextField
+                  label={t('transfers.rejectionReason')}
+                  value={rejectionReason}
+                  onChange={(e) => setRejectionReason(e.target.value)}
+                  helperText={t('transfers.rejectionReasonHelper')}
+                  size="small"
+                  fullWidth
+                />
+              )}
+            </Stack>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {activeTransfer && ['requested', 'approved'].includes(activeTransfer.status) && (
+            <Button color="inherit" onClick={handleCancel} disabled={isSaving} sx={{ mr: 'auto' }}>
+              {t('transfers.cancelTransfer')}
+            </Button>
+          )}
+          <Button onClick={closeReview} disabled={isSaving}>{t('common.close')}</Button>
+          {activeTransfer?.status === 'requested' && (
+            <>
+              <Button color="error" onClick={handleReject} disabled={isSaving || !rejectionReason.trim()}>
+                {t('transfers.reject')}
+              </Button>
+              <Button variant="contained" onClick={handleApprove} disabled={isSaving}>
+                {isSaving ? <CircularProgress size={20} /> : t('transfers.approve')}
+              </Button>
+            </>
+          )}
+        </DialogActions>
+      </Dialog>
+
+      {/* New transfer dialog */}
+      <Dialog open={newTransferOpen} onClose={() => setNewTransferOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>{t('transfers.newTransfer')}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <FormControl fullWidth size="small">
+                <InputLabel>{t('transfers.fromBranch')}</InputLabel>
+                <Select
+                  value={newTransfer.fromBranchId}
+                  label={t('transfers.fromBranch')}
+                  onChange={(e) => setNewTransfer(prev => ({ ...prev, fromBranchId: e.target.value }))}
+                >
+                  {branches.map(branch => (
+                    <MenuItem key={branch.id} value={branch.id}>{branch.name}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl fullWidth size="small">
+                <InputLabel>{t('transfers.toBranch')}</InputLabel>
+                <Select
+                  value={newTransfer.toBranchId}
+                  label={t('transfers.toBranch')}
+                  onChange={(e) => setNewTransfer(prev => ({ ...prev, toBranchId: e.target.value }))}
+                >
+                  {branches.filter(branch => branch.id !== newTransfer.fromBranchId).map(branch => (
+                    <MenuItem key={branch.id} value={branch.id}>{branch.name}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+
+            {newTransfer.lines.map((line, index) => (
+              <Box key={index} sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+                <Autocomplete
+                  sx={{ flex: 1 }}
+                  size="small"
+                  options={products}
+                  value={line.product}
+                  getOptionLabel={(product) => `${product.name} (${product.sku})`}
+                  isOptionEqualToValue={(option, value) => option.id === value.id}
+                  onChange={(_, product) => updateNewLine(index, { product })}
+                  renderInput={(params) => <TextField {...params} label={t('inventory.product')} />}
+                />
+                <TextField
+                  type="number"
+                  size="small"
+                  label={t('inventory.quantity')}
+                  value={line.quantity}
+                  onChange={(e) => updateNewLine(index, { quantity: Number(e.target.value) })}
+                  inputProps={{ min: 0, step: 'any' }}
+                  sx={{ width: 120 }}
+                />
+                <IconButton
+                  onClick={() => setNewTransfer(prev => ({ ...prev, lines: prev.lines.filter((_, i) => i !== index) }))}
+                  disabled={newTransfer.lines.length === 1}
+                >
+                  <Delete />
+                </IconButton>
+              </Box>
+            ))}
+            <Box>
+              <Button
+                startIcon={<Add />}
+                onClick={() => setNewTransfer(prev => ({ ...prev, lines: [...prev.lines, { product: null, quantity: 1 }] }))}
+              >
+                {t('transfers.addItem')}
+              </Button>
+            </Box>
+
+            <TextField
+              label={t('transfers.notes')}
+              value={newTransfer.notes}
+              onChange={(e) => setNewTransfer(prev => ({ ...prev, notes: e.target.value }))}
+              multiline
+              rows={2}
+              fullWidth
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setNewTransferOpen(false)} disabled={isSaving}>{t('common.cancel')}</Button>
+          <Button variant="contained" onClick={handleCreate} disabled={isSaving || !canCreate}>
+            {t('transfers.create')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,501 @@
+import { Add, Delete, Edit, Inventory2, Refresh, Search } from '@mui/icons-material';
+import {
+    Alert,
+    Autocomplete,
+    Box,
+    Button,
+    Card,
+    CardContent,
+    Chip,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    FormControlLabel,
+    IconButton,
+    InputAdornment,
+    Paper,
+    Stack,
+    Switch,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    TextField,
+    Tooltip,
+    Typography,
+} from '@mui/material';
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import apiService, { Product, Supplier, SupplierInput } from '../../services/api';
+
+interface SuppliersTabProps {
+  products: Product[];
+  onNotify: (message: string, severity: 'success' | 'error' | 'warning' | 'info') => void;
+}
+
+const emptySupplier: SupplierInput = {
+  code: '',
+  name: '',
+  contact_person: '',
+  phone: '',
+  email: '',
+  address: '',
+  tax_id: '',
+  payment_terms_days: 0,
+  lead_time_days: 0,
+  notes: '',
+  is_active: true,
+};
+
+const emptyTerms = {
+  product: null as Product | null,
+  supplierSku: '',
+  unitCost: '',
+  minOrderQuantity: 1,
+  isPreferred: false,
+};
+
+export const SuppliersTab: React.FC<SuppliersTabProps> = ({ products, onNotify }) => {
+  const { t } = useTranslation();
+
+  const [suppliers, setSuppliers] = React.useState<Supplier[]>([]);
+  const [searchQuery, setSearchQuery] = React.useState('');
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  // Create / edit dialog
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [formOpen, setFormOpen] = React.useState(false);
+  const [form, setForm] = React.useState<SupplierInput>(emptySupplier);
+
+  // Supplier products dialog
+  const [productsSupplier, setProductsSupplier] = React.useState<Supplier | null>(null);
+  const [terms, setTerms] = React.useState(emptyTerms);
+
+  const loadSuppliers = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const response = await apiService.getSuppliers({ search: searchQuery || undefined });
+    if (response.success && response.data) {
+      setSuppliers(response.data.suppliers);
+    } else {
+      setSuppliers([]);
+      setError(response.error || t('suppliers.failedToLoad'));
+    }
+    setIsLoading(false);
+  }, [searchQuery, t]);
+
+  React.useEffect(() => {
+    loadSuppliers();
+  }, [loadSuppliers]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptySupplier);
+    setFormOpen(true);
+  };
+
+  const openEdit = (supplier: Supplier) => {
+    setEditingId(supplier.id);
+    setForm({
+      code: supplier.code,
+      name: supplier.name,
+      contact_person: supplier.contactPerson || '',
+      phone: supplier.phone || '',
+      email: supplier.email || '',
+      address: supplier.address || '',
+      tax_id: supplier.taxId || '',
+      payment_terms_days: supplier.paymentTermsDays,
+      lead_time_days: supplier.leadTimeDays,
+      notes: supplier.notes || '',
+      is_active: supplier.isActive,
+    });
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.code.trim() || !form.name.trim()) return;
+
+    setIsSaving(true);
+    const response = editingId
+      ? await apiService.updateSupplier(editingId, form)
+      : await apiService.createSupplier(form);
+    setIsSaving(false);
+
+    if (!response.success) {
+      onNotify(response.error || t('suppliers.saveFailed'), 'error');
+      return;
+    }
+
+    onNotify(t('suppliers.savedSuccessfully'), 'success');
+    setFormOpen(false);
+    loadSuppliers();
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!window.confirm(t('suppliers.confirmDelete', { name: supplier.name }))) return;
+
+    const response = await apiService.deleteSupplier(supplier.id);
+    if (!response.success) {
+      onNotify(response.error || t('suppliers.saveFailed'), 'error');
+      return;
+    }
+
+    onNotify(
+      response.data?.deactivated ? t('suppliers.deactivated') : t('suppliers.deletedSuccessfully'),
+      response.data?.deactivated ? 'info' : 'success'
+    );
+    loadSuppliers();
+  };
+
+  const openProducts = async (supplier: Supplier) => {
+    const response = await apiService.getSupplier(supplier.id);
+    if (!response.success || !response.data) {
+      onNotify(response.error || t('suppliers.failedToLoad'), 'error');
+      return;
+    }
+    setTerms(emptyTerms);
+    setProductsSupplier(response.data.supplier);
+  };
+
+  const refreshProducts = async (supplierId: string) => {
+    const response = await apiService.getSupplier(supplierId);
+    if (response.success && response.data) {
+      setProductsSupplier(response.data.supplier);
+    }
+    loadSuppliers();
+  };
+
+  const handleSaveTerms = async () => {
+    if (!productsSupplier || !terms.product) return;
+
+    setIsSaving(true);
+    const response = await apiService.setSupplierProduct(productsSupplier.id, terms.product.id, {
+      supplier_sku: terms.supplierSku || undefined,
+      unit_cost: terms.unitCost === '' ? undefined : Number(terms.unitCost),
+      min_order_quantity: terms.minOrderQuantity,
+      is_preferred: terms.isPreferred,
+    });
+    setIsSaving(false);
+
+    if (!response.success) {
+      onNotify(response.error || t('suppliers.saveFailed'), 'error');
+      return;
+    }
+
+    setTerms(emptyTerms);
+    refreshProducts(productsSupplier.id);
+  };
+
+  const handleRemoveProduct = async (productId: string) => {
+    if (!productsSupplier) return;
+
+    const response = await apiService.removeSupplierProduct(productsSupplier.id, productId);
+    if (!response.success) {
+      onNotify(response.error || t('suppliers.saveFailed'), 'error');
+      return;
+    }
+    refreshProducts(productsSupplier.id);
+  };
+
+  const setField = (field: keyof SupplierInput, value: string | number | boolean) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2, flexWrap: 'wrap' }}>
+          <Typography variant="h6">
+            {t('suppliers.title')} ({suppliers.length})
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+            <TextField
+              size="small"
+              placeholder={t('suppliers.search')}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              InputProps={{
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <Search />
+                  </InputAdornment>
+                ),
+              }}
+            />
+            <Button startIcon={<Refresh />} onClick={loadSuppliers} disabled={isLoading}>
+              {t('inventory.refresh')}
+            </Button>
+            <Button variant="contained" startIcon={<Add />} onClick={openCreate}>
+              {t('suppliers.addSupplier')}
+            </Button>
+          </Box>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('suppliers.code')}</TableCell>
+                <TableCell>{t('suppliers.name')}</TableCell>
+                <TableCell>{t('suppliers.contactPerson')}</TableCell>
+                <TableCell>{t('suppliers.phone')}</TableCell>
+                <TableCell align="center">{t('suppliers.products')}</TableCell>
+                <TableCell align="center">{t('suppliers.openOrders')}</TableCell>
+                <TableCell>{t('suppliers.status')}</TableCell>
+                <TableCell>{t('inventory.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={8} align="center">
+                    <CircularProgress size={24} />
+                  </TableCell>
+                </TableRow>
+              ) : suppliers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} align="center">
+                    <Typography color="text.secondary">{t('suppliers.noSuppliers')}</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : suppliers.map(supplier => (
+                <TableRow key={supplier.id}>
+                  <TableCell>{supplier.code}</TableCell>
+                  <TableCell>{supplier.name}</TableCell>
+                  <TableCell>{supplier.contactPerson || '-'}</TableCell>
+                  <TableCell>{supplier.phone || '-'}</TableCell>
+                  <TableCell align="center">{supplier.productCount ?? 0}</TableCell>
+                  <TableCell align="center">{supplier.openOrderCount ?? 0}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={supplier.isActive ? t('suppliers.active') : t('suppliers.inactive')}
+                      color={supplier.isActive ? 'success' : 'default'}
+                      size="small"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title={t('suppliers.manageProducts')}>
+                      <IconButton onClick={() => openProducts(supplier)}>
+                        <Inventory2 />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title={t('common.edit')}>
+                      <IconButton onClick={() => openEdit(supplier)}>
+                        <Edit />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title={t('common.delete')}>
+                      <IconButton onClick={() => handleDelete(supplier)}>
+                        <Delete />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </CardContent>
+
+      {/* Create / edit supplier dialog */}
+      <Dialog open={formOpen} onClose={() => setFormOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingId ? t('suppliers.editSupplier') : t('suppliers.addSupplier')}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label={t('suppliers.code')}
+                value={form.code}
+                onChange={(e) => setField('code', e.target.value)}
+                required
+                fullWidth
+              />
+              <TextField
+                label={t('suppliers.taxId')}
+                value={form.tax_id}
+                onChange={(e) => setField('tax_id', e.target.value)}
+                fullWidth
+              />
+            </Box>
+            <TextField
+              label={t('suppliers.name')}
+              value={form.name}
+              onChange={(e) => setField('name', e.target.value)}
+              required
+              fullWidth
+            />
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label={t('suppliers.contactPerson')}
+                value={form.contact_person}
+                onChange={(e) => setField('contact_person', e.target.value)}
+                fullWidth
+              />
+              <TextField
+                label={t('suppliers.phone')}
+                value={form.phone}
+                onChange={(e) => setField('phone', e.target.value)}
+                fullWidth
+              />
+            </Box>
+            <TextField
+              label={t('suppliers.email')}
+              value={form.email}
+              onChange={(e) => setField('email', e.target.value)}
+              fullWidth
+            />
+            <TextField
+              label={t('suppliers.address')}
+              value={form.address}
+              onChange={(e) => setField('address', e.target.value)}
+              fullWidth
+            />
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                type="number"
+                label={t('suppliers.paymentTermsDays')}
+                value={form.payment_terms_days}
+                onChange={(e) => setField('payment_terms_days', Number(e.target.value))}
+                inputProps={{ min: 0 }}
+                fullWidth
+              />
+              <TextField
+                type="number"
+                label={t('suppliers.leadTimeDays')}
+                value={form.lead_time_days}
+                onChange={(e) => setField('lead_time_days', Number(e.target.value))}
+                inputProps={{ min: 0 }}
+                fullWidth
+              />
+            </Box>
+            <TextField
+              label={t('suppliers.notes')}
+              value={form.notes}
+              onChange={(e) => setField('notes', e.target.value)}
+              multiline
+              rows={2}
+              fullWidth
+            />
+            <FormControlLabel
+              control={<Switch checked={!!form.is_active} onChange={(e) => setField('is_active', e.target.checked)} />}
+              label={t('suppliers.active')}
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setFormOpen(false)} disabled={isSaving}>{t('common.cancel')}</Button>
+          <Button variant="contained" onClick={handleSave} disabled={isSaving || !form.code.trim() || !form.name.trim()}>
+            {t('common.save')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Supplier products dialog */}
+      <Dialog open={!!productsSupplier} onClose={() => setProductsSupplier(null)} maxWidth="md" fullWidth>
+        <DialogTitle>{t('suppliers.productsOf', { name: productsSupplier?.name })}</DialogTitle>
+        <DialogContent>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('inventory.product')}</TableCell>
+                <TableCell>{t('suppliers.supplierSku')}</TableCell>
+                <TableCell align="right">{t('suppliers.unitCost')}</TableCell>
+                <TableCell align="right">{t('suppliers.minOrderQuantity')}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {(productsSupplier?.products || []).length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} align="center">
+                    <Typography color="text.secondary">{t('suppliers.noProducts')}</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (productsSupplier?.products || []).map(item => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <Typography variant="body2">{item.productName}</Typography>
+                      {item.isPreferred && <Chip label={t('suppliers.preferred')} color="primary" size="small" />}
+                    </Stack>
+                  </TableCell>
+                  <TableCell>{item.supplierSku || '-'}</TableCell>
+                  <TableCell align="right">{item.unitCost ?? '-'}</TableCell>
+                  <TableCell align="right">{item.minOrderQuantity}</TableCell>
+                  <TableCell align="right">
+                    <IconButton size="small" onClick={() => handleRemoveProduct(item.productId)}>
+                      <Delete fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mt: 3 }}>
+            <Autocomplete
+              sx={{ flex: 1 }}
+              size="small"
+              options={products}
+              value={terms.product}
+              getOptionLabel={(product) => `${product.name} (${product.sku})`}
+              isOptionEqualToValue={(option, value) => option.id === value.id}
+              onChange={(_, product) => setTerms(prev => ({ ...prev, product }))}
+              renderInput={(params) => <TextField {...params} label={t('inventory.product')} />}
+            />
+            <TextField
+              size="small"
+              label={t('suppliers.supplierSku')}
+              value={terms.supplierSku}
+              onChange={(e) => setTerms(prev => ({ ...prev, supplierSku: e.target.value }))}
+              sx={{ width: 140 }}
+            />
+            <TextField
+              type="number"
+              size="small"
+              label={t('suppliers.unitCost')}
+              value={terms.unitCost}
+              onChange={(e) => setTerms(prev => ({ ...prev, unitCost: e.target.value }))}
+              inputProps={{ min: 0, step: 'any' }}
+              sx={{ width: 120 }}
+            />
+            <TextField
+              type="number"
+              size="small"
+              label={t('suppliers.minOrderQuantity')}
+              value={terms.minOrderQuantity}
+              onChange={(e) => setTerms(prev => ({ ...prev, minOrderQuantity: Number(e.target.value) }))}
+              inputProps={{ min: 1, step: 'any' }}
+              sx={{ width: 110 }}
+            />
+            <FormControlLabel
+              control={<Switch checked={terms.isPreferred} onChange={(e) => setTerms(prev => ({ ...prev, isPreferred: e.target.checked }))} />}
+              label={t('suppliers.preferred')}
+            />
+          </Box>
+          <Typography variant="caption" color="text.secondary">
+            {t('suppliers.preferredHelp')}
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setProductsSupplier(null)}>{t('common.close')}</Button>
+          <Button variant="contained" onClick={handleSaveTerms} disabled={isSaving || !terms.product}>
+            {t('suppliers.saveTerms')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,218 @@
+import { Refresh } from '@mui/icons-material';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { useCallback, useEffect, useState } from 'react';
+import apiService from '../../services/api';
+
+interface ApiKeyUsageEntry {
+  id: string;
+  method: string;
+  route?: string;
+  path: string;
+  permission?: string;
+  branchCodes: string[];
+  ipAddress?: string;
+  statusCode: number;
+  responseTimeMs?: number;
+  deniedReason?: string;
+  createdAt: string;
+}
+
+interface ApiKeyUsageSummary {
+  requests: number;
+  denied: number;
+  errors: number;
+  routes: Array<{ method: string; route: string; requests: number; denied: number; lastUsedAt: string }>;
+  statuses: Array<{ statusCode: number; requests: number }>;
+}
+
+interface ApiKeyUsageDialogProps {
+  apiKey: { id: string; name: string } | null;
+  onClose: () => void;
+  onError: (message: string) => void;
+}
+
+const PERIODS = [1, 7, 30, 90];
+
+const formatDateTime = (value?: string) => (value ? new Date(value).toLocaleString() : '-');
+
+const statusColor = (statusCode: number) =>
+  statusCode >= 500 ? 'error' : statusCode >= 400 ? 'warning' : 'success';
+
+// Requests made with an API key: totals, the busiest routes and the latest requests
+const ApiKeyUsageDialog = ({ apiKey, onClose, onError }: ApiKeyUsageDialogProps) => {
+  const [days, setDays] = useState(7);
+  const [deniedOnly, setDeniedOnly] = useState(false);
+  const [summary, setSummary] = useState<ApiKeyUsageSummary | null>(null);
+  const [entries, setEntries] = useState<ApiKeyUsageEntry[]>([]);
+
+  const loadUsage = useCallback(async () => {
+    if (!apiKey) return;
+
+    const response = await apiService.request(
+      'GET',
+      `/admin/api-keys/${apiKey.id}/usage?days=${days}&limit=100${deniedOnly ? '&denied_only=true' : ''}`
+    );
+    if (response.success) {
+      setSummary(response.data.summary);
+      setEntries(response.data.entries || []);
+    } else {
+      onError(response.error || 'Failed to load API key usage');
+    }
+  }, [apiKey, days, deniedOnly, onError]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const handleClose = () => {
+    setSummary(null);
+    setEntries([]);
+    setDeniedOnly(false);
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!apiKey} onClose={handleClose} maxWidth="lg" fullWidth>
+      <DialogTitle sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Box>Usage: {apiKey?.name}</Box>
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <FormControlLabel
+            control={<Switch checked={deniedOnly} onChange={(e) => setDeniedOnly(e.target.checked)} />}
+            label="Refused only"
+          />
+          <FormControl size="small" sx={{ minWidth: 140 }}>
+            <InputLabel>Period</InputLabel>
+            <Select value={days} label="Period" onChange={(e) => setDays(Number(e.target.value))}>
+              {PERIODS.map(period => (
+                <MenuItem key={period} value={period}>
+                  {period === 1 ? 'Last 24 hours' : `Last ${period} days`}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <IconButton onClick={loadUsage}>
+            <Refresh />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {summary && (
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+            <Chip label={`${summary.requests} requests`} />
+            <Chip label={`${summary.denied} refused`} color={summary.denied > 0 ? 'warning' : 'default'} />
+            <Chip label={`${summary.errors} server errors`} color={summary.errors > 0 ? 'error' : 'default'} />
+            {summary.statuses.map(status => (
+              <Chip
+                key={status.statusCode}
+                label={`${status.statusCode}: ${status.requests}`}
+                color={statusColor(status.statusCode)}
+                variant="outlined"
+                size="small"
+              />
+            ))}
+          </Box>
+        )}
+
+        <Typography variant="subtitle2" sx={{ mb: 1 }}>Routes</Typography>
+        <TableContainer component={Paper} variant="outlined" sx={{ mb: 3 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Route</TableCell>
+                <TableCell align="right">Requests</TableCell>
+                <TableCell align="right">Refused</TableCell>
+                <TableCell>Last Used</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {!summary || summary.routes.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} align="center">
+                    <Typography color="text.secondary">No requests in this period</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : summary.routes.map(route => (
+                <TableRow key={`${route.method} ${route.route}`}>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{route.method} {route.route}</TableCell>
+                  <TableCell align="right">{route.requests}</TableCell>
+                  <TableCell align="right">{route.denied}</TableCell>
+                  <TableCell>{formatDateTime(route.lastUsedAt)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        <Typography variant="subtitle2" sx={{ mb: 1 }}>Recent Requests</Typography>
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Time</TableCell>
+                <TableCell>Request</TableCell>
+                <TableCell>Branches</TableCell>
+                <TableCell>IP Address</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Time (ms)</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} align="center">
+                    <Typography color="text.secondary">No requests recorded</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : entries.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell>{formatDateTime(entry.createdAt)}</TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                    {entry.method} {entry.path}
+                  </TableCell>
+                  <TableCell>{entry.branchCodes.join(', ') || '-'}</TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{entry.ipAddress || '-'}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={entry.deniedReason ? `${entry.statusCode} ${entry.deniedReason}` : entry.statusCode}
+                      color={statusColor(entry.statusCode)}
+                      size="small"
+                    />
+                  </TableCell>
+                  <TableCell align="right">{entry.responseTimeMs ?? '-'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ApiKeyUsageDialog;
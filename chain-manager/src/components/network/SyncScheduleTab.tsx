@@ -0,0 +1,512 @@
+import {
+  Add,
+  Delete,
+  Edit,
+  History,
+  PlayArrow,
+  Refresh,
+} from '@mui/icons-material';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { useCallback, useEffect, useState } from 'react';
+import apiService from '../../services/api';
+
+type SyncTaskType = 'products' | 'inventory' | 'transactions' | 'employees' | 'branches' | 'prices' | 'onec_export';
+type ScheduleType = 'interval' | 'cron' | 'manual';
+
+interface SyncTask {
+  id: string;
+  task_type: SyncTaskType;
+  branch_id: string | null;
+  branch_name: string | null;
+  schedule_type: ScheduleType;
+  interval_minutes: number | null;
+  cron_expression: string | null;
+  is_active: boolean;
+  status: 'idle' | 'running' | 'failed' | 'completed';
+  priority: number;
+  last_run: string | null;
+  next_run: string | null;
+}
+
+interface SyncTaskRun {
+  id: string;
+  trigger: 'scheduled' | 'manual' | 'startup';
+  success: boolean;
+  records_processed: number;
+  error_message?: string;
+  duration_ms: number;
+  started_at: string;
+  completed_at: string;
+}
+
+interface SyncTaskFormData {
+  task_type: SyncTaskType;
+  branch_id: string;
+  schedule_type: ScheduleType;
+  interval_minutes: number;
+  cron_expression: string;
+  priority: number;
+  is_active: boolean;
+}
+
+interface SyncScheduleTabProps {
+  branches: Array<{ id: string; name: string; code?: string }>;
+  onError: (message: string) => void;
+}
+
+const TASK_TYPES: SyncTaskType[] = ['products', 'inventory', 'transactions', 'employees', 'branches', 'prices', 'onec_export'];
+
+const taskTypeLabel = (type: SyncTaskType) => (type === 'onec_export' ? '1C export' : type);
+
+const CRON_PRESETS = [
+  { label: 'Nightly at 02:00', value: '0 2 * * *' },
+  { label: 'Every hour', value: '0 * * * *' },
+  { label: 'Weekdays at 23:30', value: '30 23 * * 1-5' },
+  { label: 'Sundays at 03:00', value: '0 3 * * 0' },
+];
+
+const emptyForm: SyncTaskFormData = {
+  task_type: 'products',
+  branch_id: '',
+  schedule_type: 'cron',
+  interval_minutes: 30,
+  cron_expression: '0 2 * * *',
+  priority: 5,
+  is_active: true,
+};
+
+const statusColors = {
+  idle: 'default',
+  running: 'info',
+  failed: 'error',
+  completed: 'success',
+} as const;
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '-');
+
+const describeSchedule = (task: SyncTask) => {
+  if (task.schedule_type === 'interval') return `Every ${task.interval_minutes} min`;
+  if (task.schedule_type === 'cron') return task.cron_expression;
+  return 'Manual only';
+};
+
+const SyncScheduleTab = ({ branches, onError }: SyncScheduleTabProps) => {
+  const [tasks, setTasks] = useState<SyncTask[]>([]);
+  const [timezone, setTimezone] = useState('UTC');
+  const [schedulerRunning, setSchedulerRunning] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyTaskId, setBusyTaskId] = useState<string | null>(null);
+  const [lastResult, setLastResult] = useState<{ severity: 'success' | 'error'; message: string } | null>(null);
+
+  // Create / edit dialog
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTask, setEditingTask] = useState<SyncTask | null>(null);
+  const [formData, setFormData] = useState<SyncTaskFormData>(emptyForm);
+
+  // Run history dialog
+  const [historyTask, setHistoryTask] = useState<SyncTask | null>(null);
+  const [runs, setRuns] = useState<SyncTaskRun[]>([]);
+
+  const loadTasks = useCallback(async () => {
+    setIsLoading(true);
+    const response = await apiService.request('GET', '/sync/tasks');
+    if (response.success) {
+      setTasks(response.data.tasks || []);
+      setTimezone(response.data.scheduler?.timezone || 'UTC');
+      setSchedulerRunning(!!response.data.scheduler?.is_running);
+    } else {
+      onError(response.error || 'Failed to load sync tasks');
+    }
+    setIsLoading(false);
+  }, [onError]);
+
+  useEffect(() => {
+    loadTasks();
+  }, [loadTasks]);
+
+  const openCreateDialog = () => {
+    setEditingTask(null);
+    setFormData(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (task: SyncTask) => {
+    setEditingTask(task);
+    setFormData({
+      task_type: task.task_type,
+      branch_id: task.branch_id || '',
+      schedule_type: task.schedule_type,
+      interval_minutes: task.interval_minutes || 30,
+      cron_expression: task.cron_expression || '0 2 * * *',
+      priority: task.priority,
+      is_active: task.is_active,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const schedule = {
+      schedule_type: formData.schedule_type,
+      interval_minutes: formData.schedule_type === 'interval' ? formData.interval_minutes : null,
+      cron_expression: formData.schedule_type === 'cron' ? formData.cron_expression : null,
+      priority: formData.priority,
+      is_active: formData.is_active,
+    };
+
+    const response = editingTask
+      ? await apiService.request('PUT', `/sync/tasks/${editingTask.id}`, schedule)
+      : await apiService.request('POST', '/sync/tasks', {
+        ...schedule,
+        task_type: formData.task_type,
+        branch_id: formData.branch_id || undefined,
+      });
+
+    if (response.success) {
+      setDialogOpen(false);
+      await loadTasks();
+    } else {
+      onError(response.error || 'Failed to save sync task');
+    }
+  };
+
+  const handleToggleActive = async (task: SyncTask) => {
+    setBusyTaskId(task.id);
+    const response = await apiService.request('POST', `/sync/tasks/${task.id}/${task.is_active ? 'pause' : 'resume'}`);
+    if (response.success) {
+      await loadTasks();
+    } else {
+      onError(response.error || 'Failed to update sync task');
+    }
+    setBusyTaskId(null);
+  };
+
+  const handleRunNow = async (task: SyncTask) => {
+    setBusyTaskId(task.id);
+    const response = await apiService.request('POST', `/sync/tasks/${task.id}/run`);
+    const result = response.data?.result;
+
+    setLastResult(response.success
+      ? { severity: 'success', message: `${task.task_type} sync completed: ${result?.records_processed ?? 0} records in ${result?.duration_ms ?? 0} ms` }
+      : { severity: 'error', message: response.error || `${task.task_type} sync failed` });
+
+    setBusyTaskId(null);
+    await loadTasks();
+  };
+
+  const handleDelete = async (task: SyncTask) => {
+    if (!window.confirm(`Delete the ${task.task_type} sync task${task.branch_name ? ` for ${task.branch_name}` : ''}?`)) {
+      return;
+    }
+
+    const response = await apiService.request('DELETE', `/sync/tasks/${task.id}`);
+    if (response.success) {
+      await loadTasks();
+    } else {
+      onError(response.error || 'Failed to delete sync task');
+    }
+  };
+
+  const openHistory = async (task: SyncTask) => {
+    setHistoryTask(task);
+    setRuns([]);
+    const response = await apiService.request('GET', `/sync/tasks/${task.id}/runs?limit=50`);
+    if (response.success) {
+      setRuns(response.data.runs || []);
+    } else {
+      onError(response.error || 'Failed to load run history');
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ mb: 3, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Box>
+          <Typography variant="h6">Scheduled Sync Tasks</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Cron schedules run in the chain timezone ({timezone}). Branch tasks override the chain-wide task of the same type.
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <IconButton onClick={loadTasks} disabled={isLoading}>
+            <Refresh />
+          </IconButton>
+          <Button variant="contained" startIcon={<Add />} onClick={openCreateDialog}>
+            Add Sync Task
+          </Button>
+        </Box>
+      </Box>
+
+      {!schedulerRunning && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          The sync scheduler is not running on chain-core; tasks will only run when triggered manually.
+        </Alert>
+      )}
+
+      {lastResult && (
+        <Alert severity={lastResult.severity} sx={{ mb: 2 }} onClose={() => setLastResult(null)}>
+          {lastResult.message}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Task</TableCell>
+              <TableCell>Scope</TableCell>
+              <TableCell>Schedule</TableCell>
+              <TableCell>Last Run</TableCell>
+              <TableCell>Next Run</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell align="center">Active</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {tasks.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} align="center">
+                  <Typography color="text.secondary">
+                    {isLoading ? 'Loading sync tasks...' : 'No sync tasks configured'}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ) : tasks.map(task => (
+              <TableRow key={task.id}>
+                <TableCell sx={{ textTransform: 'capitalize' }}>{taskTypeLabel(task.task_type)}</TableCell>
+                <TableCell>
+                  {task.branch_id
+                    ? <Chip label={task.branch_name || task.branch_id} size="small" color="secondary" variant="outlined" />
+                    : <Chip label="All branches" size="small" variant="outlined" />}
+                </TableCell>
+                <TableCell sx={{ fontFamily: task.schedule_type === 'cron' ? 'monospace' : undefined }}>
+                  {describeSchedule(task)}
+                </TableCell>
+                <TableCell>{formatDateTime(task.last_run)}</TableCell>
+                <TableCell>{task.is_active ? formatDateTime(task.next_run) : 'Paused'}</TableCell>
+                <TableCell>
+                  <Chip label={task.status} size="small" color={statusColors[task.status]} />
+                </TableCell>
+                <TableCell align="center">
+                  <Switch
+                    checked={task.is_active}
+                    onChange={() => handleToggleActive(task)}
+                    disabled={busyTaskId === task.id}
+                  />
+                </TableCell>
+                <TableCell align="right">
+                  <Tooltip title="Run now">
+                    <span>
+                      <IconButton onClick={() => handleRunNow(task)} disabled={busyTaskId === task.id || task.status === 'running'}>
+                        {busyTaskId === task.id ? <CircularProgress size={20} /> : <PlayArrow />}
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Run history">
+                    <IconButton onClick={() => openHistory(task)}>
+                      <History />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Edit schedule">
+                    <IconButton onClick={() => openEditDialog(task)}>
+                      <Edit />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete">
+                    <IconButton color="error" onClick={() => handleDelete(task)}>
+                      <Delete />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Create / Edit Task Dialog */}
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingTask ? 'Edit Sync Task' : 'Add Sync Task'}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'grid', gap: 2, mt: 1 }}>
+            <FormControl fullWidth disabled={!!editingTask}>
+              <InputLabel>Task Type</InputLabel>
+              <Select
+                value={formData.task_type}
+                label="Task Type"
+                onChange={(e) => setFormData({ ...formData, task_type: e.target.value as SyncTaskType })}
+              >
+                {TASK_TYPES.map(type => (
+                  <MenuItem key={type} value={type} sx={{ textTransform: 'capitalize' }}>{taskTypeLabel(type)}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl fullWidth disabled={!!editingTask}>
+              <InputLabel>Scope</InputLabel>
+              <Select
+                value={formData.branch_id}
+                label="Scope"
+                onChange={(e) => setFormData({ ...formData, branch_id: e.target.value })}
+              >
+                <MenuItem value="">All branches (chain-wide)</MenuItem>
+                {branches.map(branch => (
+                  <MenuItem key={branch.id} value={branch.id}>
+                    {branch.name}{branch.code ? ` (${branch.code})` : ''}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl fullWidth>
+              <InputLabel>Schedule</InputLabel>
+              <Select
+                value={formData.schedule_type}
+                label="Schedule"
+                onChange={(e) => setFormData({ ...formData, schedule_type: e.target.value as ScheduleType })}
+              >
+                <MenuItem value="cron">Cron expression</MenuItem>
+                <MenuItem value="interval">Fixed interval</MenuItem>
+                <MenuItem value="manual">Manual only</MenuItem>
+              </Select>
+            </FormControl>
+
+            {formData.schedule_type === 'interval' && (
+              <TextField
+                fullWidth
+                type="number"
+                label="Interval (minutes)"
+                value={formData.interval_minutes}
+                onChange={(e) => setFormData({ ...formData, interval_minutes: parseInt(e.target.value) || 0 })}
+                inputProps={{ min: 1 }}
+              />
+            )}
+
+            {formData.schedule_type === 'cron' && (
+              <>
+                <TextField
+                  fullWidth
+                  label="Cron Expression"
+                  value={formData.cron_expression}
+                  onChange={(e) => setFormData({ ...formData, cron_expression: e.target.value })}
+                  helperText={`minute hour day-of-month month day-of-week, evaluated in ${timezone}`}
+                  InputProps={{ sx: { fontFamily: 'monospace' } }}
+                />
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                  {CRON_PRESETS.map(preset => (
+                    <Chip
+                      key={preset.value}
+                      label={preset.label}
+                      size="small"
+                      onClick={() => setFormData({ ...formData, cron_expression: preset.value })}
+                      color={formData.cron_expression === preset.value ? 'primary' : 'default'}
+                    />
+                  ))}
+                </Box>
+              </>
+            )}
+
+            <TextField
+              fullWidth
+              type="number"
+              label="Priority"
+              value={formData.priority}
+              onChange={(e) => setFormData({ ...formData, priority: parseInt(e.target.value) || 1 })}
+              helperText="Lower numbers are listed first"
+              inputProps={{ min: 1, max: 100 }}
+            />
+
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                />
+              }
+              label="Active"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave}>
+            {editingTask ? 'Save' : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Run History Dialog */}
+      <Dialog open={!!historyTask} onClose={() => setHistoryTask(null)} maxWidth="md" fullWidth>
+        <DialogTitle>
+          Run History: {historyTask?.task_type}{historyTask?.branch_name ? ` (${historyTask.branch_name})` : ''}
+        </DialogTitle>
+        <DialogContent>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Started</TableCell>
+                <TableCell>Trigger</TableCell>
+                <TableCell>Result</TableCell>
+                <TableCell align="right">Records</TableCell>
+                <TableCell align="right">Duration</TableCell>
+                <TableCell>Error</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {runs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} align="center">
+                    <Typography color="text.secondary">No runs recorded yet</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : runs.map(run => (
+                <TableRow key={run.id}>
+                  <TableCell>{formatDateTime(run.started_at)}</TableCell>
+                  <TableCell>{run.trigger}</TableCell>
+                  <TableCell>
+                    <Chip label={run.success ? 'Success' : 'Failed'} size="small" color={run.success ? 'success' : 'error'} />
+                  </TableCell>
+                  <TableCell align="right">{run.records_processed}</TableCell>
+                  <TableCell align="right">{run.duration_ms} ms</TableCell>
+                  <TableCell>{run.error_message || '-'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setHistoryTask(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default SyncScheduleTab;
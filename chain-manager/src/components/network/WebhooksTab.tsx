@@ -0,0 +1,589 @@
+import {
+  Add,
+  ContentCopy,
+  Delete,
+  Edit,
+  History,
+  Key,
+  Refresh,
+  Replay,
+  Send,
+} from '@mui/icons-material';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  FormLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { useCallback, useEffect, useState } from 'react';
+import apiService from '../../services/api';
+
+type WebhookEvent = 'transaction.completed' | 'inventory.low_stock' | 'product.updated' | 'branch.offline';
+type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+interface WebhookSubscription {
+  id: string;
+  apiKeyId: string;
+  apiKeyName: string;
+  apiKeyActive: boolean;
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  isActive: boolean;
+  pendingDeliveries: number;
+  failedDeliveries: number;
+  lastDeliveryAt?: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  event: WebhookEvent | 'ping';
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  responseStatus?: number;
+  lastError?: string;
+  redeliveryOf?: string;
+  deliveredAt?: string;
+  createdAt: string;
+}
+
+interface WebhookFormData {
+  api_key_id: string;
+  url: string;
+  events: WebhookEvent[];
+  description: string;
+  is_active: boolean;
+}
+
+interface WebhooksTabProps {
+  apiKeys: Array<{ id: string; name: string; is_active: boolean }>;
+  onError: (message: string) => void;
+}
+
+const EVENTS: Array<{ value: WebhookEvent; description: string }> = [
+  { value: 'transaction.completed', description: 'A branch submitted a completed sale' },
+  { value: 'inventory.low_stock', description: 'A product is low or out of stock at a branch' },
+  { value: 'product.updated', description: 'A product was edited or deactivated' },
+  { value: 'branch.offline', description: 'A branch server stopped responding' },
+];
+
+const emptyForm: WebhookFormData = {
+  api_key_id: '',
+  url: '',
+  events: ['transaction.completed'],
+  description: '',
+  is_active: true,
+};
+
+const deliveryStatusColors = {
+  pending: 'warning',
+  delivered: 'success',
+  failed: 'error',
+} as const;
+
+const formatDateTime = (value?: string) => (value ? new Date(value).toLocaleString() : '-');
+
+const WebhooksTab = ({ apiKeys, onError }: WebhooksTabProps) => {
+  const [subscriptions, setSubscriptions] = useState<WebhookSubscription[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Signing secret, shown once after creation or rotation
+  const [secret, setSecret] = useState<{ url: string; value: string } | null>(null);
+
+  // Create / edit dialog
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<WebhookSubscription | null>(null);
+  const [formData, setFormData] = useState<WebhookFormData>(emptyForm);
+
+  // Delivery log dialog
+  const [logSubscription, setLogSubscription] = useState<WebhookSubscription | null>(null);
+  const [logStatus, setLogStatus] = useState<DeliveryStatus | ''>('');
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+
+  const loadSubscriptions = useCallback(async () => {
+    setIsLoading(true);
+    const response = await apiService.request('GET', '/admin/webhooks');
+    if (response.success) {
+      setSubscriptions(response.data.subscriptions || []);
+    } else {
+      onError(response.error || 'Failed to load webhooks');
+    }
+    setIsLoading(false);
+  }, [onError]);
+
+  const loadDeliveries = useCallback(async (subscription: WebhookSubscription, status: DeliveryStatus | '') => {
+    const query = `subscription_id=${subscription.id}&limit=100${status ? `&status=${status}` : ''}`;
+    const response = await apiService.request('GET', `/admin/webhook-deliveries?${query}`);
+    if (response.success) {
+      setDeliveries(response.data.deliveries || []);
+    } else {
+      onError(response.error || 'Failed to load webhook deliveries');
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    loadSubscriptions();
+  }, [loadSubscriptions]);
+
+  useEffect(() => {
+    if (logSubscription) {
+      loadDeliveries(logSubscription, logStatus);
+    }
+  }, [logSubscription, logStatus, loadDeliveries]);
+
+  const openCreateDialog = () => {
+    setEditing(null);
+    setFormData({ ...emptyForm, api_key_id: apiKeys.find(key => key.is_active)?.id || '' });
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (subscription: WebhookSubscription) => {
+    setEditing(subscription);
+    setFormData({
+      api_key_id: subscription.apiKeyId,
+      url: subscription.url,
+      events: subscription.events,
+      description: subscription.description || '',
+      is_active: subscription.isActive,
+    });
+    setDialogOpen(true);
+  };
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setFormData({
+      ...formData,
+      events: formData.events.includes(event)
+        ? formData.events.filter(value => value !== event)
+        : [...formData.events, event],
+    });
+  };
+
+  const handleSave = async () => {
+    const changes = {
+      url: formData.url.trim(),
+      events: formData.events,
+      description: formData.description.trim() || (editing ? null : undefined),
+      is_active: formData.is_active,
+    };
+
+    const response = editing
+      ? await apiService.request('PUT', `/admin/webhooks/${editing.id}`, changes)
+      : await apiService.request('POST', '/admin/webhooks', { ...changes, api_key_id: formData.api_key_id });
+
+    if (response.success) {
+      if (!editing) {
+        setSecret({ url: changes.url, value: response.data.secret });
+      }
+      setDialogOpen(false);
+      await loadSubscriptions();
+    } else {
+      onError(response.error || 'Failed to save webhook');
+    }
+  };
+
+  const handleToggleActive = async (subscription: WebhookSubscription) => {
+    setBusyId(subscription.id);
+    const response = await apiService.request('PUT', `/admin/webhooks/${subscription.id}`, { is_active: !subscription.isActive });
+    if (response.success) {
+      await loadSubscriptions();
+    } else {
+      onError(response.error || 'Failed to update webhook');
+    }
+    setBusyId(null);
+  };
+
+  const handlePing = async (subscription: WebhookSubscription) => {
+    setBusyId(subscription.id);
+    const response = await apiService.request('POST', `/admin/webhooks/${subscription.id}/ping`);
+    if (response.success) {
+      setNotice(`Ping queued for ${subscription.url}; its result appears in the delivery log`);
+    } else {
+      onError(response.error || 'Failed to send ping');
+    }
+    setBusyId(null);
+  };
+
+  const handleRotateSecret = async (subscription: WebhookSubscription) => {
+    if (!window.confirm(`Issue a new signing secret for ${subscription.url}? The receiver must be updated before the next delivery.`)) {
+      return;
+    }
+
+    const response = await apiService.request('POST', `/admin/webhooks/${subscription.id}/rotate-secret`);
+    if (response.success) {
+      setSecret({ url: subscription.url, value: response.data.secret });
+    } else {
+      onError(response.error || 'Failed to rotate signing secret');
+    }
+  };
+
+  const handleDelete = async (subscription: WebhookSubscription) => {
+    if (!window.confirm(`Delete the webhook to ${subscription.url} and its delivery log?`)) {
+      return;
+    }
+
+    const response = await apiService.request('DELETE', `/admin/webhooks/${subscription.id}`);
+    if (response.success) {
+      await loadSubscriptions();
+    } else {
+      onError(response.error || 'Failed to delete webhook');
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    const response = await apiService.request('POST', `/admin/webhook-deliveries/${delivery.id}/redeliver`);
+    if (response.success && logSubscription) {
+      await loadDeliveries(logSubscription, logStatus);
+    } else if (!response.success) {
+      onError(response.error || 'Failed to redeliver webhook');
+    }
+  };
+
+  const openLog = (subscription: WebhookSubscription) => {
+    setDeliveries([]);
+    setLogStatus('');
+    setLogSubscription(subscription);
+  };
+
+  const closeLog = async () => {
+    setLogSubscription(null);
+    await loadSubscriptions();
+  };
+
+  return (
+    <Box>
+      <Box sx={{ mb: 3, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Box>
+          <Typography variant="h6">Webhooks</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Events are sent to the integrations behind API keys as signed POST requests and retried with increasing delays until they are acknowledged.
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <IconButton onClick={loadSubscriptions} disabled={isLoading}>
+            <Refresh />
+          </IconButton>
+          <Button variant="contained" startIcon={<Add />} onClick={openCreateDialog} disabled={apiKeys.length === 0}>
+            Add Webhook
+          </Button>
+        </Box>
+      </Box>
+
+      {secret && (
+        <Alert severity="warning" sx={{ mb: 2 }} onClose={() => setSecret(null)}>
+          <Typography variant="subtitle2" sx={{ mb: 1 }}>
+            Signing secret for {secret.url}. Store it securely; it will not be shown again.
+          </Typography>
+          <TextField
+            value={secret.value}
+            size="small"
+            fullWidth
+            InputProps={{
+              readOnly: true,
+              sx: { fontFamily: 'monospace' },
+              endAdornment: (
+                <IconButton onClick={() => navigator.clipboard.writeText(secret.value)} size="small">
+                  <ContentCopy />
+                </IconButton>
+              ),
+            }}
+          />
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert severity="info" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>API Key</TableCell>
+              <TableCell>URL</TableCell>
+              <TableCell>Events</TableCell>
+              <TableCell align="right">Pending</TableCell>
+              <TableCell align="right">Failed</TableCell>
+              <TableCell>Last Delivery</TableCell>
+              <TableCell align="center">Active</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {subscriptions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} align="center">
+                  <Typography color="text.secondary">
+                    {isLoading ? 'Loading webhooks...' : 'No webhooks configured'}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ) : subscriptions.map(subscription => (
+              <TableRow key={subscription.id}>
+                <TableCell>
+                  {subscription.apiKeyName}
+                  {!subscription.apiKeyActive && (
+                    <Chip label="Key disabled" size="small" color="error" variant="outlined" sx={{ ml: 1 }} />
+                  )}
+                </TableCell>
+                <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                  {subscription.url}
+                  {subscription.description && (
+                    <Typography variant="caption" color="text.secondary" display="block" sx={{ fontFamily: 'inherit' }}>
+                      {subscription.description}
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                    {subscription.events.map(event => (
+                      <Chip key={event} label={event} size="small" variant="outlined" />
+                    ))}
+                  </Box>
+                </TableCell>
+                <TableCell align="right">{subscription.pendingDeliveries}</TableCell>
+                <TableCell align="right">
+                  {subscription.failedDeliveries > 0
+                    ? <Chip label={subscription.failedDeliveries} size="small" color="error" />
+                    : 0}
+                </TableCell>
+                <TableCell>{formatDateTime(subscription.lastDeliveryAt)}</TableCell>
+                <TableCell align="center">
+                  <Switch
+                    checked={subscription.isActive}
+                    onChange={() => handleToggleActive(subscription)}
+                    disabled={busyId === subscription.id}
+                  />
+                </TableCell>
+                <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                  <Tooltip title="Send test ping">
+                    <span>
+                      <IconButton
+                        onClick={() => handlePing(subscription)}
+                        disabled={busyId === subscription.id || !subscription.isActive || !subscription.apiKeyActive}
+                      >
+                        <Send />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Delivery log">
+                    <IconButton onClick={() => openLog(subscription)}>
+                      <History />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Edit">
+                    <IconButton onClick={() => openEditDialog(subscription)}>
+                      <Edit />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Rotate signing secret">
+                    <IconButton onClick={() => handleRotateSecret(subscription)}>
+                      <Key />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete">
+                    <IconButton color="error" onClick={() => handleDelete(subscription)}>
+                      <Delete />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Create / Edit Webhook Dialog */}
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editing ? 'Edit Webhook' : 'Add Webhook'}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'grid', gap: 2, mt: 1 }}>
+            <FormControl fullWidth disabled={!!editing}>
+              <InputLabel>API Key</InputLabel>
+              <Select
+                value={formData.api_key_id}
+                label="API Key"
+                onChange={(e) => setFormData({ ...formData, api_key_id: e.target.value })}
+              >
+                {apiKeys.map(apiKey => (
+                  <MenuItem key={apiKey.id} value={apiKey.id}>
+                    {apiKey.name}{apiKey.is_active ? '' : ' (disabled)'}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <TextField
+              fullWidth
+              label="Payload URL"
+              placeholder="https://erp.example.com/rockpoint/webhooks"
+              value={formData.url}
+              onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+              InputProps={{ sx: { fontFamily: 'monospace' } }}
+            />
+
+            <FormControl component="fieldset">
+              <FormLabel component="legend">Events</FormLabel>
+              <FormGroup>
+                {EVENTS.map(event => (
+                  <FormControlLabel
+                    key={event.value}
+                    control={
+                      <Checkbox
+                        checked={formData.events.includes(event.value)}
+                        onChange={() => toggleEvent(event.value)}
+                      />
+                    }
+                    label={
+                      <Box>
+                        <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>{event.value}</Typography>
+                        <Typography variant="caption" color="text.secondary">{event.description}</Typography>
+                      </Box>
+                    }
+                  />
+                ))}
+              </FormGroup>
+            </FormControl>
+
+            <TextField
+              fullWidth
+              label="Description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              multiline
+              rows={2}
+            />
+
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                />
+              }
+              label="Active"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={!formData.api_key_id || !formData.url.trim() || formData.events.length === 0}
+          >
+            {editing ? 'Save' : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delivery Log Dialog */}
+      <Dialog open={!!logSubscription} onClose={closeLog} maxWidth="lg" fullWidth>
+        <DialogTitle sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Box sx={{ wordBreak: 'break-all' }}>Deliveries: {logSubscription?.url}</Box>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+            <FormControl size="small" sx={{ minWidth: 140 }}>
+              <InputLabel>Status</InputLabel>
+              <Select
+                value={logStatus}
+                label="Status"
+                onChange={(e) => setLogStatus(e.target.value as DeliveryStatus | '')}
+              >
+                <MenuItem value="">All</MenuItem>
+                <MenuItem value="pending">Pending</MenuItem>
+                <MenuItem value="delivered">Delivered</MenuItem>
+                <MenuItem value="failed">Failed</MenuItem>
+              </Select>
+            </FormControl>
+            <IconButton onClick={() => logSubscription && loadDeliveries(logSubscription, logStatus)}>
+              <Refresh />
+            </IconButton>
+          </Box>
+        </DialogTitle>
+        <DialogContent>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Created</TableCell>
+                <TableCell>Event</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Attempts</TableCell>
+                <TableCell>Response</TableCell>
+                <TableCell>Next Attempt / Delivered</TableCell>
+                <TableCell>Error</TableCell>
+                <TableCell align="right">Redeliver</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {deliveries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} align="center">
+                    <Typography color="text.secondary">No deliveries recorded</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : deliveries.map(delivery => (
+                <TableRow key={delivery.id}>
+                  <TableCell>{formatDateTime(delivery.createdAt)}</TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>
+                    {delivery.event}
+                    {delivery.redeliveryOf && (
+                      <Chip label="Redelivery" size="small" variant="outlined" sx={{ ml: 1 }} />
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Chip label={delivery.status} size="small" color={deliveryStatusColors[delivery.status]} />
+                  </TableCell>
+                  <TableCell align="right">{delivery.attempts}</TableCell>
+                  <TableCell>{delivery.responseStatus ?? '-'}</TableCell>
+                  <TableCell>
+                    {delivery.status === 'delivered' ? formatDateTime(delivery.deliveredAt) : formatDateTime(delivery.nextAttemptAt)}
+                  </TableCell>
+                  <TableCell>{delivery.lastError || '-'}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Send again as a new delivery">
+                      <IconButton size="small" onClick={() => handleRedeliver(delivery)}>
+                        <Replay fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeLog}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default WebhooksTab;
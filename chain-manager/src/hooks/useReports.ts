@@ -72,6 +72,11 @@ export interface FinancialSummary {
     total_revenue: number;
     total_tax: number;
     transaction_count: number;
+    net_revenue?: number;
+    cost_of_goods_sold?: number;
+    gross_profit?: number;
+    gross_margin?: number;
+    inventory_value?: number;
   };
   payment_methods: Array<{
     method: string;
@@ -42,6 +42,7 @@ import React, { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useNavigate, useParams } from 'react-router-dom';
 
+import { BranchShiftReportsTab } from '../components/branches/BranchShiftReportsTab';
 import { useBranches } from '../hooks/useBranches';
 import type { Branch, BranchPaymentMethod, PaymentMethodCredential } from '../services/api';
 import apiService from '../services/api';
@@ -740,6 +741,7 @@ const BranchDetailsPage: React.FC = () => {
         >
           <Tab label="Overview" />
           <Tab label="Sales Performance" />
+          <Tab label={t('shiftReports.title')} />
         </Tabs>
       );
     }
@@ -872,6 +874,11 @@ const BranchDetailsPage: React.FC = () => {
               </Box>
             )}
           </TabPanel>
+
+          {/* Cash Shifts Tab */}
+          <TabPanel value={currentTab} index={2}>
+            {id && <BranchShiftReportsTab branchId={id} formatCurrency={formatCurrency} />}
+          </TabPanel>
         </>
       );
     }
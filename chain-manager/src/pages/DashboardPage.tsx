@@ -19,6 +19,7 @@ import {
 } from '@mui/material';
 import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
+import { AlertsPanel } from '../components/alerts/AlertsPanel';
 import { useAuth } from '../hooks/useAuth';
 import { useDashboard } from '../hooks/useDashboard';
 
@@ -193,6 +194,9 @@ const DashboardPage = () => {
         ))}
       </Box>
 
+      {/* Alerts */}
+      <AlertsPanel />
+
       {/* Additional Stats Cards */}
       {comprehensiveStats && (
         <Box
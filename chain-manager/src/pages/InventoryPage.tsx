@@ -51,6 +51,10 @@ import { InventoryDialog } from '../components/inventory/InventoryDialog';
 import { ProductDialog } from '../components/inventory/ProductDialog';
 import { PromotionDialog } from '../components/inventory/PromotionDialog';
 import { StockAdjustmentDialog } from '../components/inventory/StockAdjustmentDialog';
+import { PriceCalendarTab } from '../components/inventory/PriceCalendarTab';
+import { PurchaseOrdersTab } from '../components/inventory/PurchaseOrdersTab';
+import { StockTransfersTab } from '../components/inventory/StockTransfersTab';
+import { SuppliersTab } from '../components/inventory/SuppliersTab';
 import { useCategories } from '../hooks';
 import { useBranches } from '../hooks/useBranches';
 import { useInventoryManagement } from '../hooks/useInventoryManagement';
@@ -816,6 +820,10 @@ const InventoryPage = () => {
           {!selectedBranchId && <Tab label={t('inventory.categories')} />}
           <Tab label={t('inventory.inventory')} />
           {selectedBranchId && <Tab label={t('inventory.promotions')} />}
+          <Tab label={t('transfers.title')} />
+          <Tab label={t('priceSchedule.title')} />
+          <Tab label={t('purchaseOrders.title')} />
+          <Tab label={t('suppliers.title')} />
         </Tabs>
       </Box>
 
@@ -1126,6 +1134,40 @@ const InventoryPage = () => {
         </Card>
       )}
 
+      {currentTab === 3 && (
+        <StockTransfersTab
+          branches={safeBranches}
+          products={safeProducts}
+          selectedBranchId={selectedBranchId}
+          onNotify={(message, severity) => setSnackbar({ open: true, message, severity })}
+        />
+      )}
+
+      {currentTab === 4 && (
+        <PriceCalendarTab
+          branches={safeBranches}
+          products={safeProducts}
+          selectedBranchId={selectedBranchId}
+          onNotify={(message, severity) => setSnackbar({ open: true, message, severity })}
+        />
+      )}
+
+      {currentTab === 5 && (
+        <PurchaseOrdersTab
+          branches={safeBranches}
+          products={safeProducts}
+          selectedBranchId={selectedBranchId}
+          onNotify={(message, severity) => setSnackbar({ open: true, message, severity })}
+        />
+      )}
+
+      {currentTab === 6 && (
+        <SuppliersTab
+          products={safeProducts}
+          onNotify={(message, severity) => setSnackbar({ open: true, message, severity })}
+        />
+      )}
+
       {/* Dialogs */}
       <ProductDialog
         open={productDialogOpen}
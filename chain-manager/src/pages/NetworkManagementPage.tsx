@@ -3,15 +3,18 @@ import {
   ContentCopy,
   Delete,
   Edit,
+  History,
   Key,
   NetworkCheck,
   Refresh,
   Router,
+  Schedule,
   Search,
   Settings,
   SettingsEthernet,
   Visibility,
   VisibilityOff,
+  Webhook,
 } from '@mui/icons-material';
 import {
   Alert,
@@ -40,6 +43,9 @@ import {
   Typography,
 } from '@mui/material';
 import React, { useEffect, useState } from 'react';
+import ApiKeyUsageDialog from '../components/network/ApiKeyUsageDialog';
+import SyncScheduleTab from '../components/network/SyncScheduleTab';
+import WebhooksTab from '../components/network/WebhooksTab';
 import apiService from '../services/api';
 
 interface BranchServer {
@@ -96,8 +102,12 @@ interface ApiKey {
   updated_at: string;
   expires_at?: string;
   last_used_at?: string;
+  last_used_ip?: string;
   usage_count: number;
   key_preview: string;
+  allowed_branch_codes: string[];
+  allowed_ip_ranges: string[];
+  rate_limit_per_minute: number | null;
 }
 
 interface ApiKeyFormData {
@@ -105,13 +115,33 @@ interface ApiKeyFormData {
   description?: string;
   permissions: string[];
   expires_at?: string;
+  allowed_branch_codes: string[];
+  allowed_ip_ranges: string[];
+  rate_limit_per_minute: number | null;
 }
 
+// Entry of the permission catalogue chain-core generates from its 1C routes
 interface Permission {
   name: string;
   description: string;
+  routes: Array<{ method: string; path: string; branchScope: string }>;
 }
 
+const emptyApiKeyForm: ApiKeyFormData = {
+  name: '',
+  description: '',
+  permissions: [],
+  allowed_branch_codes: [],
+  allowed_ip_ranges: [],
+  rate_limit_per_minute: null,
+};
+
+// IP ranges are edited one per line; blank lines are dropped before saving
+const toApiKeyPayload = (data: ApiKeyFormData): ApiKeyFormData => ({
+  ...data,
+  allowed_ip_ranges: data.allowed_ip_ranges.map(range => range.trim()).filter(Boolean),
+});
+
 const NetworkManagementPage = () => {
   const [currentTab, setCurrentTab] = useState(0);
   const [branchServers, setBranchServers] = useState<BranchServer[]>([]);
@@ -131,6 +161,7 @@ const NetworkManagementPage = () => {
   const [editingServer, setEditingServer] = useState<BranchServer | null>(null);
   const [editingApiKey, setEditingApiKey] = useState<ApiKey | null>(null);
   const [newApiKeyData, setNewApiKeyData] = useState<{ key: string; warning: string } | null>(null);
+  const [usageApiKey, setUsageApiKey] = useState<ApiKey | null>(null);
   const [showApiKey, setShowApiKey] = useState<Record<string, boolean>>({});
   const [formData, setFormData] = useState<BranchServerFormData>({
     branch_id: '',
@@ -141,11 +172,7 @@ const NetworkManagementPage = () => {
     websocket_port: 3001,
     network_type: 'lan',
   });
-  const [apiKeyFormData, setApiKeyFormData] = useState<ApiKeyFormData>({
-    name: '',
-    description: '',
-    permissions: [],
-  });
+  const [apiKeyFormData, setApiKeyFormData] = useState<ApiKeyFormData>(emptyApiKeyForm);
 
   useEffect(() => {
     loadData();
@@ -259,17 +286,13 @@ const NetworkManagementPage = () => {
   };
 
   const resetApiKeyForm = () => {
-    setApiKeyFormData({
-      name: '',
-      description: '',
-      permissions: [],
-    });
+    setApiKeyFormData(emptyApiKeyForm);
   };
 
   // API Key Management Functions
   const handleCreateApiKey = async () => {
     try {
-      const response = await apiService.request('POST', '/admin/api-keys', apiKeyFormData);
+      const response = await apiService.request('POST', '/admin/api-keys', toApiKeyPayload(apiKeyFormData));
       if (response.success) {
         setNewApiKeyData({
           key: response.data.api_key,
@@ -285,9 +308,9 @@ const NetworkManagementPage = () => {
     }
   };
 
-  const handleUpdateApiKey = async (id: string, updates: Partial<ApiKeyFormData>) => {
+  const handleUpdateApiKey = async (id: string, updates: ApiKeyFormData) => {
     try {
-      const response = await apiService.request('PUT', `/admin/api-keys/${id}`, updates);
+      const response = await apiService.request('PUT', `/admin/api-keys/${id}`, toApiKeyPayload(updates));
       if (response.success) {
         await loadData();
         setEditingApiKey(null);
@@ -398,6 +421,9 @@ const NetworkManagementPage = () => {
       description: apiKey.description || '',
       permissions: apiKey.permissions,
       expires_at: apiKey.expires_at,
+      allowed_branch_codes: apiKey.allowed_branch_codes || [],
+      allowed_ip_ranges: apiKey.allowed_ip_ranges || [],
+      rate_limit_per_minute: apiKey.rate_limit_per_minute ?? null,
     });
     setApiKeyDialogOpen(true);
   };
@@ -493,6 +519,8 @@ const NetworkManagementPage = () => {
           <Tab label="Branch Servers" icon={<Router />} />
           <Tab label="Network Settings" icon={<Settings />} />
           <Tab label="1C API Keys" icon={<Key />} />
+          <Tab label="Sync Schedules" icon={<Schedule />} />
+          <Tab label="Webhooks" icon={<Webhook />} />
         </Tabs>
       </Paper>
 
@@ -836,12 +864,21 @@ const NetworkManagementPage = () => {
                       <Typography variant="body2" sx={{ mb: 1 }}>
                         <strong>Permissions:</strong> {apiKey.permissions.join(', ') || 'None'}
                       </Typography>
+                      <Typography variant="body2" sx={{ mb: 1 }}>
+                        <strong>Branches:</strong> {apiKey.allowed_branch_codes?.length ? apiKey.allowed_branch_codes.join(', ') : 'All branches'}
+                      </Typography>
+                      <Typography variant="body2" sx={{ mb: 1 }}>
+                        <strong>IP Ranges:</strong> {apiKey.allowed_ip_ranges?.length ? apiKey.allowed_ip_ranges.join(', ') : 'Any address'}
+                        {' • '}
+                        <strong>Rate Limit:</strong> {apiKey.rate_limit_per_minute ? `${apiKey.rate_limit_per_minute} requests/minute` : 'Unlimited'}
+                      </Typography>
                       <Typography variant="body2" sx={{ mb: 1 }}>
                         <strong>Usage Count:</strong> {apiKey.usage_count}
                       </Typography>
                       <Typography variant="caption" color="text.secondary">
                         Created: {new Date(apiKey.created_at).toLocaleString()}
                         {apiKey.last_used_at && ` • Last used: ${new Date(apiKey.last_used_at).toLocaleString()}`}
+                        {apiKey.last_used_ip && ` from ${apiKey.last_used_ip}`}
                         {apiKey.expires_at && ` • Expires: ${new Date(apiKey.expires_at).toLocaleString()}`}
                       </Typography>
                     </Box>
@@ -854,6 +891,14 @@ const NetworkManagementPage = () => {
                       >
                         Edit
                       </Button>
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        startIcon={<History />}
+                        onClick={() => setUsageApiKey(apiKey)}
+                      >
+                        Usage
+                      </Button>
                       <Button
                         size="small"
                         variant="outlined"
@@ -880,6 +925,23 @@ const NetworkManagementPage = () => {
         )}
       </TabPanel>
 
+      {/* Sync Schedules Tab (rendered outside TabPanel so it keeps its state across page re-renders) */}
+      {currentTab === 3 && (
+        <Box sx={{ py: 3 }}>
+          <SyncScheduleTab branches={branches} onError={setError} />
+        </Box>
+      )}
+
+      {/* Webhooks Tab */}
+      {currentTab === 4 && (
+        <Box sx={{ py: 3 }}>
+          <WebhooksTab apiKeys={apiKeys} onError={setError} />
+        </Box>
+      )}
+
+      {/* API Key Usage Dialog */}
+      <ApiKeyUsageDialog apiKey={usageApiKey} onClose={() => setUsageApiKey(null)} onError={setError} />
+
       {/* Server Configuration Dialog */}
       <Dialog open={serverDialogOpen} onClose={() => setServerDialogOpen(false)} maxWidth="md" fullWidth>
         <DialogTitle>
@@ -1034,6 +1096,7 @@ const NetworkManagementPage = () => {
                       </Typography>
                       <Typography variant="caption" color="text.secondary">
                         {permission.description}
+                        {permission.routes.length > 0 && ` (${permission.routes.length} routes)`}
                       </Typography>
                     </Box>
                   </MenuItem>
@@ -1041,6 +1104,56 @@ const NetworkManagementPage = () => {
               </Select>
             </FormControl>
 
+            <FormControl fullWidth>
+              <InputLabel shrink>Allowed Branches</InputLabel>
+              <Select
+                multiple
+                displayEmpty
+                value={apiKeyFormData.allowed_branch_codes}
+                label="Allowed Branches"
+                notched
+                onChange={(e) => setApiKeyFormData(prev => ({
+                  ...prev,
+                  allowed_branch_codes: typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value
+                }))}
+                renderValue={(selected) => (selected.length ? selected.join(', ') : 'All branches')}
+              >
+                {branches.map((branch) => (
+                  <MenuItem key={branch.id} value={branch.code}>
+                    {branch.name} ({branch.code})
+                  </MenuItem>
+                ))}
+              </Select>
+              <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5, mx: 1.75 }}>
+                Restricted keys only reach data of these branches; chain-wide reports and logs are refused
+              </Typography>
+            </FormControl>
+
+            <TextField
+              label="Allowed IP Ranges"
+              value={apiKeyFormData.allowed_ip_ranges.join('\n')}
+              onChange={(e) => setApiKeyFormData(prev => ({ ...prev, allowed_ip_ranges: e.target.value.split('\n') }))}
+              fullWidth
+              multiline
+              rows={3}
+              placeholder={'10.20.0.0/16\n203.0.113.7'}
+              helperText="One address or CIDR range per line; leave empty to accept any address"
+              InputProps={{ sx: { fontFamily: 'monospace' } }}
+            />
+
+            <TextField
+              label="Rate Limit (requests per minute)"
+              type="number"
+              value={apiKeyFormData.rate_limit_per_minute ?? ''}
+              onChange={(e) => setApiKeyFormData(prev => ({
+                ...prev,
+                rate_limit_per_minute: e.target.value ? parseInt(e.target.value) : null
+              }))}
+              fullWidth
+              inputProps={{ min: 1 }}
+              helperText="Leave empty for no limit"
+            />
+
             <TextField
               label="Expires At (Optional)"
               type="datetime-local"
@@ -20,6 +20,8 @@ import {
   Container,
   FormControl,
   InputLabel,
+  ListSubheader,
+  Menu,
   MenuItem,
   Paper,
   Select,
@@ -36,10 +38,16 @@ import { useTranslation } from 'react-i18next';
 import { Bar, BarChart, CartesianGrid, Cell, Legend, Line, LineChart, Pie, PieChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
 import { useBranches } from '../hooks/useBranches';
 import { useReports } from '../hooks/useReports';
+import type { ReportExportFormat, ReportExportType } from '../services/api';
+import apiService from '../services/api';
 
 // Color palette for charts
 const CHART_COLORS = ['#1976d2', '#dc004e', '#ed6c02', '#2e7d32', '#9c27b0', '#00695c', '#d84315'];
 
+// Report exported from each tab (overview, trends, top products, categories, employees, branches, inventory, financial)
+const TAB_EXPORT_TYPES: ReportExportType[] = ['sales', 'sales', 'products', 'products', 'employees', 'branches', 'inventory', 'financial'];
+const EXPORT_FORMATS: ReportExportFormat[] = ['csv', 'xlsx', 'pdf'];
+
 const ReportsPage = () => {
   const { t } = useTranslation();
   const { branches } = useBranches();
@@ -73,6 +81,11 @@ const ReportsPage = () => {
   const [endDate, setEndDate] = useState<Dayjs | null>(dayjs());
   const [period, setPeriod] = useState<'daily' | 'weekly' | 'monthly'>('daily');
 
+  // Export state
+  const [exportAnchor, setExportAnchor] = useState<HTMLElement | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
   // Safe data with fallbacks
   const safeBranches = branches || [];
   const safeDashboardStats = dashboardStats || {
@@ -96,7 +109,10 @@ const ReportsPage = () => {
     in_stock_count: 0
   };
   const safeFinancialSummary = financialSummary || {
-    financial_summary: { total_revenue: 0, total_tax: 0, transaction_count: 0 },
+    financial_summary: {
+      total_revenue: 0, total_tax: 0, transaction_count: 0,
+      cost_of_goods_sold: 0, gross_profit: 0, gross_margin: 0, inventory_value: 0
+    },
     payment_methods: [],
     hourly_sales: []
   };
@@ -282,6 +298,12 @@ const ReportsPage = () => {
       width: 100,
       type: 'number'
     },
+    { 
+      field: 'unit_cost', 
+      headerName: t('reports.inventory.unitCost'), 
+      width: 120,
+      valueFormatter: (value) => formatCurrency(value)
+    },
     { 
       field: 'inventory_value', 
       headerName: t('reports.inventory.value'), 
@@ -338,6 +360,25 @@ const ReportsPage = () => {
     setSelectedTab(newValue);
   };
 
+  const exportType = TAB_EXPORT_TYPES[selectedTab] || 'sales';
+
+  const handleExport = async (format: ReportExportFormat) => {
+    setExportAnchor(null);
+    setIsExporting(true);
+    setExportError(null);
+
+    const response = await apiService.downloadReportExport(exportType, format, {
+      startDate: startDate?.format('YYYY-MM-DD'),
+      endDate: endDate?.format('YYYY-MM-DD'),
+      branchId: selectedBranch || undefined,
+    });
+
+    if (!response.success) {
+      setExportError(response.error || t('reports.exportFailed'));
+    }
+    setIsExporting(false);
+  };
+
   return (
     <LocalizationProvider dateAdapter={AdapterDayjs}>
       <Container maxWidth="xl" sx={{ mt: 2, mb: 4 }}>
@@ -366,11 +407,24 @@ const ReportsPage = () => {
             </Button>
             <Button
               variant="outlined"
-              startIcon={<FileDownload />}
-              disabled={isLoading}
+              startIcon={isExporting ? <CircularProgress size={16} /> : <FileDownload />}
+              onClick={(e) => setExportAnchor(e.currentTarget)}
+              disabled={isLoading || isExporting}
             >
               {t('reports.export')}
             </Button>
+            <Menu
+              anchorEl={exportAnchor}
+              open={Boolean(exportAnchor)}
+              onClose={() => setExportAnchor(null)}
+            >
+              <ListSubheader>{t(`reports.exportTypes.${exportType}`)}</ListSubheader>
+              {EXPORT_FORMATS.map(format => (
+                <MenuItem key={format} onClick={() => handleExport(format)}>
+                  {t(`reports.exportFormats.${format}`)}
+                </MenuItem>
+              ))}
+            </Menu>
           </Box>
         </Box>
 
@@ -453,6 +507,12 @@ const ReportsPage = () => {
           </Alert>
         )}
 
+        {exportError && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setExportError(null)}>
+            {exportError}
+          </Alert>
+        )}
+
         {/* Tabs */}
         <Paper sx={{ mb: 2 }}>
           <Tabs value={selectedTab} onChange={handleTabChange} variant="scrollable" scrollButtons="auto">
@@ -788,6 +848,36 @@ const ReportsPage = () => {
                       </Typography>
                     </CardContent>
                   </Card>
+                <Card>
+                  <CardContent>
+                    <Typography variant="h5" color="warning.main" fontWeight="bold">
+                      {isLoadingFinancial ? <CircularProgress size={20} /> : formatCurrency(safeFinancialSummary.financial_summary.cost_of_goods_sold || 0)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {t('reports.financial.costOfGoodsSold')}
+                    </Typography>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent>
+                    <Typography variant="h5" color="success.main" fontWeight="bold">
+                      {isLoadingFinancial ? <CircularProgress size={20} /> : formatCurrency(safeFinancialSummary.financial_summary.gross_profit || 0)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {t('reports.financial.grossProfit', { margin: safeFinancialSummary.financial_summary.gross_margin || 0 })}
+                    </Typography>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent>
+                    <Typography variant="h5" color="info.main" fontWeight="bold">
+                      {isLoadingFinancial ? <CircularProgress size={20} /> : formatCurrency(safeFinancialSummary.financial_summary.inventory_value || 0)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {t('reports.financial.inventoryValue')}
+                    </Typography>
+                  </CardContent>
+                </Card>
             </Box>
 
             {/* Payment Methods Chart */}
@@ -1,5 +1,5 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import { transformBranch, transformCategory, transformEmployee, transformInventory, transformProduct } from '../utils/transformers';
+import { toBackendBarcode, toBackendVariant, transformAlertRule, transformBranch, transformCategory, transformEmployee, transformInventory, transformProduct, transformPurchaseOrder, transformScheduledPriceChange, transformShiftReport, transformStockTransfer, transformSupplier } from '../utils/transformers';
 
 // Types - Updated to match chain-core backend
 export interface User {
@@ -53,6 +53,7 @@ export interface Branch {
   timezone: string;
   currency: string;
   taxRate: number;
+  costingMethod?: 'weighted_average' | 'fifo';
   isActive: boolean;
   lastSyncAt?: Date;
   apiEndpoint?: string;
@@ -187,12 +188,42 @@ export interface Product {
   oneCId?: string;
   createdAt?: string;
   updatedAt?: string;
+  // Variants: a variant points at its parent and differs from it by variantAttributes
+  parentProductId?: string | null;
+  parentProductName?: string;
+  variantAttributes?: Record<string, string> | null;
+  variantCount?: number;
+  barcodes?: ProductBarcode[]; // Additional barcodes, loaded with the product details
+  variants?: ProductVariant[];
   // Branch-specific pricing fields (populated when branch_id is provided)
   branch_price?: number;
   branch_cost?: number;
   is_available?: boolean;
 }
 
+// Additional barcode of a product: alternate supplier barcode or multipack
+export interface ProductBarcode {
+  id?: string;
+  barcode: string;
+  quantityMultiplier: number; // Units of the product one scan adds
+  supplierId?: string | null;
+  supplierName?: string;
+  description?: string | null;
+}
+
+export interface ProductVariant {
+  id?: string;
+  sku: string;
+  barcode?: string | null;
+  name?: string;
+  variantAttributes: Record<string, string>;
+  basePrice?: number;
+  cost?: number | null;
+  isActive: boolean;
+  oneCId?: string | null;
+  barcodes?: ProductBarcode[];
+}
+
 export interface Category {
   id: string;
   key: string;
@@ -226,6 +257,258 @@ export interface BranchInventory {
   is_available?: boolean;
 }
 
+export type StockTransferStatus = 'requested' | 'approved' | 'rejected' | 'shipped' | 'received' | 'cancelled';
+
+export interface StockTransferItem {
+  id: string;
+  productId: string;
+  productName: string;
+  sku?: string;
+  barcode?: string;
+  quantityRequested: number;
+  quantityApproved: number | null;
+  quantityShipped: number | null;
+  quantityReceived: number | null;
+  urgency?: 'low' | 'medium' | 'high';
+  notes?: string;
+  discrepancyNotes?: string;
+}
+
+export interface StockTransfer {
+  id: string;
+  transferNumber: string;
+  fromBranchId: string;
+  fromBranchName: string;
+  toBranchId: string;
+  toBranchName: string;
+  status: StockTransferStatus;
+  requestedByBranchId?: string;
+  notes?: string;
+  rejectionReason?: string;
+  hasDiscrepancy: boolean;
+  itemCount?: number;
+  requestedAt: string;
+  approvedAt?: string;
+  shippedAt?: string;
+  receivedAt?: string;
+  items?: StockTransferItem[];
+}
+
+export interface SupplierProduct {
+  id: string;
+  productId: string;
+  productName: string;
+  sku?: string;
+  barcode?: string;
+  supplierSku?: string;
+  unitCost: number | null;
+  minOrderQuantity: number;
+  isPreferred: boolean;
+}
+
+export interface Supplier {
+  id: string;
+  code: string;
+  name: string;
+  contactPerson?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  taxId?: string;
+  paymentTermsDays: number;
+  leadTimeDays: number;
+  notes?: string;
+  isActive: boolean;
+  productCount?: number;
+  openOrderCount?: number;
+  products?: SupplierProduct[];
+}
+
+export type PurchaseOrderStatus =
+  | 'draft'
+  | 'submitted'
+  | 'approved'
+  | 'rejected'
+  | 'ordered'
+  | 'partially_received'
+  | 'received'
+  | 'cancelled';
+
+export interface PurchaseOrderItem {
+  id: string;
+  productId: string;
+  productName: string;
+  sku?: string;
+  barcode?: string;
+  supplierSku?: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: number;
+  notes?: string;
+}
+
+// A delivery booked by the branch against a purchase order
+export interface GoodsReceivedNote {
+  id: string;
+  grnNumber: string;
+  supplierInvoiceNumber?: string;
+  receivedBy?: string;
+  totalCost: number;
+  receivedAt: string;
+  notes?: string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  supplierId: string;
+  supplierName: string;
+  branchId: string;
+  branchName: string;
+  status: PurchaseOrderStatus;
+  source: 'manual' | 'reorder';
+  expectedDate?: string;
+  totalCost: number;
+  notes?: string;
+  rejectionReason?: string;
+  itemCount?: number;
+  createdAt: string;
+  submittedAt?: string;
+  approvedAt?: string;
+  orderedAt?: string;
+  receivedAt?: string;
+  items?: PurchaseOrderItem[];
+  receipts?: GoodsReceivedNote[];
+}
+
+export interface SupplierInput {
+  code: string;
+  name: string;
+  contact_person?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  tax_id?: string;
+  payment_terms_days?: number;
+  lead_time_days?: number;
+  notes?: string;
+  is_active?: boolean;
+}
+
+export interface PurchaseOrderItemInput {
+  product_id: string;
+  quantity_ordered: number;
+  unit_cost?: number;
+}
+
+export interface ShiftPaymentTotal {
+  method: string;
+  count: number;
+  amount: number;
+  changeGiven: number;
+  netAmount: number;
+  refunded: number;
+}
+
+// Z report of a closed cash shift on a branch POS terminal
+export interface ShiftReport {
+  id: string;
+  branchShiftId: string;
+  terminalId: string;
+  shiftNumber: number;
+  openedBy: string;
+  closedBy?: string;
+  openedAt: string;
+  closedAt: string;
+  openingFloat: number;
+  expectedCash: number;
+  countedCash: number;
+  cashDifference: number;
+  salesCount: number;
+  salesTotal: number;
+  notes?: string;
+  details?: {
+    sales: { count: number; subtotal: number; tax: number; discounts: number; total: number };
+    voids: { count: number; total: number };
+    refunds: { count: number; total: number };
+    payments: ShiftPaymentTotal[];
+    cash: {
+      openingFloat: number;
+      sales: number;
+      refunds: number;
+      payIns: number;
+      payOuts: number;
+      drops: number;
+      expected: number;
+      counted: number;
+      difference: number;
+    };
+  };
+}
+
+export type ScheduledPriceStatus = 'scheduled' | 'active' | 'completed' | 'cancelled';
+export type PriceDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// Price change for one branch; effective times are local to the branch's timezone
+export interface ScheduledPriceChange {
+  id: string;
+  batchId: string;
+  branchId: string;
+  branchName?: string;
+  branchCode?: string;
+  branchTimezone?: string;
+  productId: string;
+  productName?: string;
+  sku?: string;
+  basePrice?: number;
+  price: number;
+  cost: number | null;
+  previousPrice: number | null;
+  effectiveFrom: string;
+  effectiveUntil: string | null;
+  status: ScheduledPriceStatus;
+  deliveryStatus: PriceDeliveryStatus;
+  deliveryError?: string;
+  deliveredAt?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+export type AlertRuleType = 'low_stock' | 'branch_offline' | 'sync_failures' | 'void_spike';
+
+// Alert with the current user's acknowledgement and snooze
+export interface DashboardAlert {
+  id: string;
+  ruleId: string | null;
+  type: AlertRuleType | 'out_of_stock';
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  details: Record<string, any>;
+  timestamp: string;
+  branchId: string | null;
+  branchName: string | null;
+  acknowledged: boolean;
+  snoozedUntil: string | null;
+  lastSeenAt: string;
+  resolvedAt: string | null;
+}
+
+export interface AlertRule {
+  id: string;
+  ruleType: AlertRuleType;
+  name: string;
+  branchId: string | null;
+  branchName: string | null;
+  severity: AlertSeverity;
+  params: Record<string, number>;
+  isActive: boolean;
+}
+
+export type ReportExportType = 'sales' | 'products' | 'employees' | 'inventory' | 'financial' | 'branches';
+export type ReportExportFormat = 'csv' | 'xlsx' | 'pdf';
+
 export interface Transaction {
   id: string;
   branchId: string;
@@ -897,6 +1180,12 @@ class ApiService {
   async getProduct(id: string): Promise<ApiResponse<Product>> {
     try {
       const response = await this.api.get(`/products/${id}`);
+      if (response.data.success && response.data.data?.product) {
+        return {
+          ...response.data,
+          data: transformProduct(response.data.data.product)
+        };
+      }
       return response.data;
     } catch (error: any) {
       return {
@@ -932,6 +1221,8 @@ class ApiService {
         attributes: productData.attributes,
         is_active: productData.isActive !== false,
         onec_id: productData.oneCId,
+        barcodes: productData.barcodes?.map(toBackendBarcode),
+        variants: productData.variants?.map(toBackendVariant),
         // Add selected branches for distribution
         selected_branches: selectedBranches,
       };
@@ -979,6 +1270,9 @@ class ApiService {
       if (productData.attributes !== undefined) backendData.attributes = productData.attributes;
       if (productData.isActive !== undefined) backendData.is_active = productData.isActive;
       if (productData.oneCId !== undefined) backendData.onec_id = productData.oneCId;
+      if (productData.variantAttributes) backendData.variant_attributes = productData.variantAttributes;
+      if (productData.barcodes !== undefined) backendData.barcodes = productData.barcodes.map(toBackendBarcode);
+      if (productData.variants !== undefined) backendData.variants = productData.variants.map(toBackendVariant);
 
       const response = await this.api.put(`/products/${id}`, backendData);
       return response.data;
@@ -1143,6 +1437,387 @@ class ApiService {
     }
   }
 
+  // Stock Transfer APIs
+  async getStockTransfers(filters?: { branchId?: string; status?: StockTransferStatus }): Promise<ApiResponse<{ transfers: StockTransfer[] }>> {
+    try {
+      const params = new URLSearchParams();
+      if (filters?.branchId) params.append('branch_id', filters.branchId);
+      if (filters?.status) params.append('status', filters.status);
+
+      const response = await this.api.get(`/inventory/transfers?${params.toString()}`);
+      if (response.data.success && response.data.data) {
+        return {
+          ...response.data,
+          data: {
+            transfers: response.data.data.transfers.map(transformStockTransfer)
+          }
+        };
+      }
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to fetch stock transfers',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  async getStockTransfer(id: string): Promise<ApiResponse<{ transfer: StockTransfer }>> {
+    return this.stockTransferRequest(() => this.api.get(`/inventory/transfers/${id}`), 'Failed to fetch stock transfer');
+  }
+
+  async createStockTransfer(data: {
+    from_branch_id: string;
+    to_branch_id: string;
+    items: Array<{ product_id: string; quantity_requested: number }>;
+    notes?: string;
+  }): Promise<ApiResponse<{ transfer: StockTransfer }>> {
+    return this.stockTransferRequest(() => this.api.post('/inventory/transfers', data), 'Failed to create stock transfer');
+  }
+
+  async approveStockTransfer(id: string, items: Array<{ item_id: string; quantity_approved: number }>, approvedBy?: string): Promise<ApiResponse<{ transfer: StockTransfer }>> {
+    return this.stockTransferRequest(
+      () => this.api.put(`/inventory/transfers/${id}/approve`, { items, approved_by: approvedBy }),
+      'Failed to approve stock transfer'
+    );
+  }
+
+  async rejectStockTransfer(id: string, reason: string, rejectedBy?: string): Promise<ApiResponse<{ transfer: StockTransfer }>> {
+    return this.stockTransferRequest(
+      () => this.api.put(`/inventory/transfers/${id}/reject`, { reason, rejected_by: rejectedBy }),
+      'Failed to reject stock transfer'
+    );
+  }
+
+  async cancelStockTransfer(id: string): Promise<ApiResponse<{ transfer: StockTransfer }>> {
+    return this.stockTransferRequest(() => this.api.put(`/inventory/transfers/${id}/cancel`), 'Failed to cancel stock transfer');
+  }
+
+  private async stockTransferRequest(
+    send: () => Promise<AxiosResponse>,
+    fallbackError: string
+  ): Promise<ApiResponse<{ transfer: StockTransfer }>> {
+    try {
+      const response = await send();
+      if (response.data.success && response.data.data) {
+        return {
+          ...response.data,
+          data: {
+            transfer: transformStockTransfer(response.data.data.transfer)
+          }
+        };
+      }
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || fallbackError,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  // Supplier APIs
+  async getSuppliers(filters?: { search?: string; isActive?: boolean }): Promise<ApiResponse<{ suppliers: Supplier[] }>> {
+    try {
+      const params = new URLSearchParams();
+      if (filters?.search) params.append('search', filters.search);
+      if (filters?.isActive !== undefined) params.append('is_active', String(filters.isActive));
+
+      const response = await this.api.get(`/suppliers?${params.toString()}`);
+      if (response.data.success && response.data.data) {
+        return {
+          ...response.data,
+          data: {
+            suppliers: response.data.data.suppliers.map(transformSupplier)
+          }
+        };
+      }
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to fetch suppliers',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  async getSupplier(id: string): Promise<ApiResponse<{ supplier: Supplier }>> {
+    return this.supplierRequest(() => this.api.get(`/suppliers/${id}`), 'Failed to fetch supplier');
+  }
+
+  async createSupplier(data: SupplierInput): Promise<ApiResponse<{ supplier: Supplier }>> {
+    return this.supplierRequest(() => this.api.post('/suppliers', data), 'Failed to create supplier');
+  }
+
+  async updateSupplier(id: string, data: Partial<SupplierInput>): Promise<ApiResponse<{ supplier: Supplier }>> {
+    return this.supplierRequest(() => this.api.put(`/suppliers/${id}`, data), 'Failed to update supplier');
+  }
+
+  async deleteSupplier(id: string): Promise<ApiResponse<{ deactivated: boolean }>> {
+    try {
+      const response = await this.api.delete(`/suppliers/${id}`);
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to delete supplier',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  async setSupplierProduct(
+    supplierId: string,
+    productId: string,
+    data: { supplier_sku?: string; unit_cost?: number; min_order_quantity?: number; is_preferred?: boolean }
+  ): Promise<ApiResponse<void>> {
+    try {
+      const response = await this.api.put(`/suppliers/${supplierId}/products/${productId}`, data);
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to save supplier product',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  async removeSupplierProduct(supplierId: string, productId: string): Promise<ApiResponse<void>> {
+    try {
+      const response = await this.api.delete(`/suppliers/${supplierId}/products/${productId}`);
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to remove supplier product',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  private async supplierRequest(
+    send: () => Promise<AxiosResponse>,
+    fallbackError: string
+  ): Promise<ApiResponse<{ supplier: Supplier }>> {
+    try {
+      const response = await send();
+      if (response.data.success && response.data.data) {
+        return {
+          ...response.data,
+          data: {
+            supplier: transformSupplier(response.data.data.supplier)
+          }
+        };
+      }
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || fallbackError,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  // Purchase Order APIs
+  async getPurchaseOrders(filters?: { branchId?: string; supplierId?: string; status?: PurchaseOrderStatus }): Promise<ApiResponse<{ purchaseOrders: PurchaseOrder[] }>> {
+    try {
+      const params = new URLSearchParams();
+      if (filters?.branchId) params.append('branch_id', filters.branchId);
+      if (filters?.supplierId) params.append('supplier_id', filters.supplierId);
+      if (filters?.status) params.append('status', filters.status);
+
+      const response = await this.api.get(`/inventory/purchase-orders?${params.toString()}`);
+      if (response.data.success && response.data.data) {
+        return {
+          ...response.data,
+          data: {
+            purchaseOrders: response.data.data.purchase_orders.map(transformPurchaseOrder)
+          }
+        };
+      }
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to fetch purchase orders',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  async getPurchaseOrder(id: string): Promise<ApiResponse<{ purchaseOrder: PurchaseOrder }>> {
+    return this.purchaseOrderRequest(() => this.api.get(`/inventory/purchase-orders/${id}`), 'Failed to fetch purchase order');
+  }
+
+  async createPurchaseOrder(data: {
+    supplier_id: string;
+    branch_id: string;
+    expected_date?: string;
+    notes?: string;
+    created_by?: string;
+    items: PurchaseOrderItemInput[];
+  }): Promise<ApiResponse<{ purchaseOrder: PurchaseOrder }>> {
+    return this.purchaseOrderRequest(() => this.api.post('/inventory/purchase-orders', data), 'Failed to create purchase order');
+  }
+
+  async updatePurchaseOrder(id: string, data: {
+    expected_date?: string | null;
+    notes?: string;
+    items?: PurchaseOrderItemInput[];
+  }): Promise<ApiResponse<{ purchaseOrder: PurchaseOrder }>> {
+    return this.purchaseOrderRequest(() => this.api.put(`/inventory/purchase-orders/${id}`, data), 'Failed to update purchase order');
+  }
+
+  async deletePurchaseOrder(id: string): Promise<ApiResponse<void>> {
+    try {
+      const response = await this.api.delete(`/inventory/purchase-orders/${id}`);
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to delete purchase order',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  async generatePurchaseOrders(branchId?: string, createdBy?: string): Promise<ApiResponse<{
+    purchaseOrders: PurchaseOrder[];
+    withoutSupplier: Array<{ branchId: string; productId: string; productName: string; quantity: number }>;
+  }>> {
+    try {
+      const response = await this.api.post('/inventory/purchase-orders/generate', { branch_id: branchId, created_by: createdBy });
+      if (response.data.success && response.data.data) {
+        return {
+          ...response.data,
+          data: {
+            purchaseOrders: response.data.data.purchase_orders.map(transformPurchaseOrder),
+            withoutSupplier: response.data.data.without_supplier.map((item: any) => ({
+              branchId: item.branch_id,
+              productId: item.product_id,
+              productName: item.product_name,
+              quantity: Number(item.quantity),
+            }))
+          }
+        };
+      }
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to generate purchase orders',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  async submitPurchaseOrder(id: string): Promise<ApiResponse<{ purchaseOrder: PurchaseOrder }>> {
+    return this.purchaseOrderRequest(() => this.api.put(`/inventory/purchase-orders/${id}/submit`), 'Failed to submit purchase order');
+  }
+
+  async approvePurchaseOrder(id: string, approvedBy?: string): Promise<ApiResponse<{ purchaseOrder: PurchaseOrder }>> {
+    return this.purchaseOrderRequest(
+      () => this.api.put(`/inventory/purchase-orders/${id}/approve`, { approved_by: approvedBy }),
+      'Failed to approve purchase order'
+    );
+  }
+
+  async rejectPurchaseOrder(id: string, reason: string, rejectedBy?: string): Promise<ApiResponse<{ purchaseOrder: PurchaseOrder }>> {
+    return this.purchaseOrderRequest(
+      () => this.api.put(`/inventory/purchase-orders/${id}/reject`, { reason, rejected_by: rejectedBy }),
+      'Failed to reject purchase order'
+    );
+  }
+
+  async markPurchaseOrderOrdered(id: string): Promise<ApiResponse<{ purchaseOrder: PurchaseOrder }>> {
+    return this.purchaseOrderRequest(() => this.api.put(`/inventory/purchase-orders/${id}/order`), 'Failed to update purchase order');
+  }
+
+  async cancelPurchaseOrder(id: string): Promise<ApiResponse<{ purchaseOrder: PurchaseOrder }>> {
+    return this.purchaseOrderRequest(() => this.api.put(`/inventory/purchase-orders/${id}/cancel`), 'Failed to cancel purchase order');
+  }
+
+  private async purchaseOrderRequest(
+    send: () => Promise<AxiosResponse>,
+    fallbackError: string
+  ): Promise<ApiResponse<{ purchaseOrder: PurchaseOrder }>> {
+    try {
+      const response = await send();
+      if (response.data.success && response.data.data) {
+        return {
+          ...response.data,
+          data: {
+            purchaseOrder: transformPurchaseOrder(response.data.data.purchase_order)
+          }
+        };
+      }
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || fallbackError,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  // Shift Report APIs
+  async getBranchShiftReports(
+    branchId: string,
+    filters?: { terminalId?: string; limit?: number; offset?: number }
+  ): Promise<ApiResponse<{ reports: ShiftReport[]; total: number }>> {
+    try {
+      const params = new URLSearchParams();
+      if (filters?.terminalId) params.append('terminalId', filters.terminalId);
+      if (filters?.limit) params.append('limit', filters.limit.toString());
+      if (filters?.offset) params.append('offset', filters.offset.toString());
+
+      const response = await this.api.get(`/branches/${branchId}/shift-reports?${params.toString()}`);
+      if (response.data.success && response.data.data) {
+        return {
+          ...response.data,
+          data: {
+            reports: response.data.data.reports.map(transformShiftReport),
+            total: response.data.data.pagination.total
+          }
+        };
+      }
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to fetch shift reports',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  async getBranchShiftReport(branchId: string, reportId: string): Promise<ApiResponse<{ report: ShiftReport }>> {
+    try {
+      const response = await this.api.get(`/branches/${branchId}/shift-reports/${reportId}`);
+      if (response.data.success && response.data.data) {
+        return {
+          ...response.data,
+          data: {
+            report: transformShiftReport(response.data.data.report)
+          }
+        };
+      }
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to fetch shift report',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
   // Promotions APIs
   async getBranchPromotions(branchId: string): Promise<ApiResponse<{ promotions: Promotion[] }>> {
     try {
@@ -1424,6 +2099,51 @@ class ApiService {
     }
   }
 
+  async downloadReportExport(
+    type: ReportExportType,
+    format: ReportExportFormat,
+    filters?: { startDate?: string; endDate?: string; branchId?: string }
+  ): Promise<ApiResponse<{ fileName: string }>> {
+    try {
+      const params: any = { format };
+      if (filters?.startDate) params.start_date = filters.startDate;
+      if (filters?.endDate) params.end_date = filters.endDate;
+      if (filters?.branchId) params.branch_id = filters.branchId;
+
+      const response = await this.api.get(`/reports/export/${type}`, { params, responseType: 'blob' });
+
+      const disposition: string = response.headers['content-disposition'] || '';
+      const fileName = disposition.match(/filename="?([^"]+)"?/)?.[1] || `${type}-report.${format}`;
+
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+
+      return { success: true, data: { fileName }, timestamp: new Date().toISOString() };
+    } catch (error: any) {
+      // Error bodies arrive as a Blob because of responseType: 'blob'
+      let message = 'Failed to export report';
+      if (error.response?.data instanceof Blob) {
+        try {
+          message = JSON.parse(await error.response.data.text()).error || message;
+        } catch {
+          // Not JSON; keep the generic message
+        }
+      }
+
+      return {
+        success: false,
+        error: message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
   // Branch Pricing Methods
   async getBranchPricing(branchId?: string, productId?: string): Promise<ApiResponse<{ branch_pricing: any[] }>> {
     try {
@@ -1497,6 +2217,210 @@ class ApiService {
     }
   }
 
+  // Scheduled price change APIs
+  async getScheduledPriceChanges(filters: {
+    from?: string;
+    to?: string;
+    branchId?: string;
+    productId?: string;
+    includeCancelled?: boolean;
+  }): Promise<ApiResponse<{ changes: ScheduledPriceChange[] }>> {
+    try {
+      const params = new URLSearchParams();
+      if (filters.from) params.append('from', filters.from);
+      if (filters.to) params.append('to', filters.to);
+      if (filters.branchId) params.append('branch_id', filters.branchId);
+      if (filters.productId) params.append('product_id', filters.productId);
+      if (filters.includeCancelled) params.append('include_cancelled', 'true');
+
+      const response = await this.api.get(`/branch-pricing/schedule?${params.toString()}`);
+      if (response.data.success && response.data.data) {
+        return {
+          ...response.data,
+          data: {
+            changes: response.data.data.changes.map(transformScheduledPriceChange)
+          }
+        };
+      }
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to fetch scheduled price changes',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  async schedulePriceChange(data: {
+    product_id: string;
+    branch_ids?: string[];
+    price: number;
+    cost?: number;
+    effective_from: string;
+    effective_until?: string;
+    notes?: string;
+  }): Promise<ApiResponse<{ batch_id: string; changes: any[] }>> {
+    try {
+      const response = await this.api.post('/branch-pricing/schedule', data);
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to schedule price change',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  async cancelScheduledPriceChange(id: string, wholeBatch = false): Promise<ApiResponse<{ cancelled: number }>> {
+    try {
+      const url = wholeBatch ? `/branch-pricing/schedule/batch/${id}` : `/branch-pricing/schedule/${id}`;
+      const response = await this.api.delete(url);
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to cancel price change',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  async deliverScheduledPrices(): Promise<ApiResponse<{ delivered: number; failed: number }>> {
+    try {
+      const response = await this.api.post('/branch-pricing/schedule/deliver');
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to deliver price changes',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  // Alert APIs
+  async getAlerts(filters: { branchId?: string; includeAcknowledged?: boolean } = {}): Promise<ApiResponse<{ alerts: DashboardAlert[] }>> {
+    try {
+      const params = new URLSearchParams();
+      if (filters.branchId) params.append('branch_id', filters.branchId);
+      if (filters.includeAcknowledged) params.append('include_acknowledged', 'true');
+
+      const response = await this.api.get(`/dashboard/alerts?${params.toString()}`);
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to fetch alerts',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  async acknowledgeAlert(id: string): Promise<ApiResponse<{ alert: DashboardAlert }>> {
+    try {
+      const response = await this.api.post(`/dashboard/alerts/${id}/acknowledge`);
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to acknowledge alert',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  async snoozeAlert(id: string, minutes: number): Promise<ApiResponse<{ alert: DashboardAlert }>> {
+    try {
+      const response = await this.api.post(`/dashboard/alerts/${id}/snooze`, { minutes });
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to snooze alert',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  async getAlertRules(): Promise<ApiResponse<{ rules: AlertRule[] }>> {
+    try {
+      const response = await this.api.get('/dashboard/alert-rules');
+      if (response.data.success && response.data.data) {
+        return {
+          ...response.data,
+          data: {
+            rules: response.data.data.rules.map(transformAlertRule)
+          }
+        };
+      }
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to fetch alert rules',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  async createAlertRule(data: {
+    rule_type: AlertRuleType;
+    name: string;
+    branch_id?: string;
+    severity?: AlertSeverity;
+    params?: Record<string, number>;
+  }): Promise<ApiResponse<{ rule: AlertRule }>> {
+    try {
+      const response = await this.api.post('/dashboard/alert-rules', data);
+      if (response.data.success && response.data.data) {
+        return { ...response.data, data: { rule: transformAlertRule(response.data.data.rule) } };
+      }
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to create alert rule',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  async updateAlertRule(id: string, data: {
+    name?: string;
+    severity?: AlertSeverity;
+    params?: Record<string, number>;
+    is_active?: boolean;
+  }): Promise<ApiResponse<{ rule: AlertRule }>> {
+    try {
+      const response = await this.api.put(`/dashboard/alert-rules/${id}`, data);
+      if (response.data.success && response.data.data) {
+        return { ...response.data, data: { rule: transformAlertRule(response.data.data.rule) } };
+      }
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to update alert rule',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  async deleteAlertRule(id: string): Promise<ApiResponse<void>> {
+    try {
+      const response = await this.api.delete(`/dashboard/alert-rules/${id}`);
+      return response.data;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to delete alert rule',
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
   // Network Management APIs
   async getBranchServers(params?: { status?: string; network_type?: string }): Promise<ApiResponse<any[]>> {
     try {
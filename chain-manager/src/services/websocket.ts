@@ -31,7 +31,10 @@ class WebSocketService {
     }
 
     try {
-      this.ws = new WebSocket(this.url);
+      // chain-core only accepts connections carrying the login token
+      const token = localStorage.getItem('auth_token');
+      const url = token ? `${this.url}?token=${encodeURIComponent(token)}` : this.url;
+      this.ws = new WebSocket(url);
 
       this.ws.onopen = () => {
         console.log('WebSocket connected');
@@ -119,6 +119,23 @@ export function transformProduct(product: any) {
     oneCId: product.onec_id || product.oneC_id,
     createdAt: product.created_at,
     updatedAt: product.updated_at,
+    parentProductId: product.parent_product_id,
+    parentProductName: product.parent_product_name,
+    variantAttributes: product.variant_attributes,
+    variantCount: product.variant_count !== undefined ? Number(product.variant_count) : undefined,
+    barcodes: product.barcodes?.map(transformProductBarcode),
+    variants: product.variants?.map((variant: any) => ({
+      id: variant.id,
+      sku: variant.sku,
+      barcode: variant.barcode,
+      name: variant.name,
+      variantAttributes: variant.variant_attributes || {},
+      basePrice: Number(variant.base_price || 0),
+      cost: variant.cost === null || variant.cost === undefined ? null : Number(variant.cost),
+      isActive: variant.is_active,
+      oneCId: variant.onec_id,
+      barcodes: variant.barcodes?.map(transformProductBarcode),
+    })),
     // Branch-specific pricing fields
     branch_price: product.branch_price,
     branch_cost: product.branch_cost,
@@ -126,6 +143,50 @@ export function transformProduct(product: any) {
   };
 }
 
+/**
+ * Transform an additional product barcode from backend to frontend format
+ */
+export function transformProductBarcode(barcode: any) {
+  return {
+    id: barcode.id,
+    barcode: barcode.barcode,
+    quantityMultiplier: Number(barcode.quantity_multiplier || 1),
+    supplierId: barcode.supplier_id,
+    supplierName: barcode.supplier_name,
+    description: barcode.description,
+  };
+}
+
+/**
+ * Transform an additional product barcode from frontend to backend format
+ */
+export function toBackendBarcode(barcode: any) {
+  return {
+    barcode: barcode.barcode,
+    quantity_multiplier: Number(barcode.quantityMultiplier) || 1,
+    supplier_id: barcode.supplierId || null,
+    description: barcode.description || null,
+  };
+}
+
+/**
+ * Transform a product variant from frontend to backend format
+ */
+export function toBackendVariant(variant: any) {
+  return {
+    id: variant.id,
+    sku: variant.sku,
+    barcode: variant.barcode || null,
+    name: variant.name || undefined,
+    variant_attributes: variant.variantAttributes,
+    base_price: variant.basePrice,
+    cost: variant.cost,
+    is_active: variant.isActive !== false,
+    onec_id: variant.oneCId || null,
+    barcodes: variant.barcodes?.map(toBackendBarcode),
+  };
+}
+
 /**
  * Transform category data from backend to frontend format
  */
@@ -180,3 +241,210 @@ export function transformInventory(inventory: any) {
     updatedAt: inventory.updated_at,
   };
 }
+
+/**
+ * Transform stock transfer data from backend to frontend format
+ */
+export function transformStockTransfer(transfer: any) {
+  const toNumber = (value: any) => (value === null || value === undefined ? null : Number(value));
+
+  return {
+    id: transfer.id,
+    transferNumber: transfer.transfer_number,
+    fromBranchId: transfer.from_branch_id,
+    fromBranchName: transfer.from_branch_name,
+    toBranchId: transfer.to_branch_id,
+    toBranchName: transfer.to_branch_name,
+    status: transfer.status,
+    requestedByBranchId: transfer.requested_by_branch_id,
+    notes: transfer.notes,
+    rejectionReason: transfer.rejection_reason,
+    hasDiscrepancy: !!transfer.has_discrepancy,
+    itemCount: transfer.item_count !== undefined ? Number(transfer.item_count) : transfer.items?.length,
+    requestedAt: transfer.requested_at,
+    approvedAt: transfer.approved_at,
+    shippedAt: transfer.shipped_at,
+    receivedAt: transfer.received_at,
+    items: transfer.items?.map((item: any) => ({
+      id: item.id,
+      productId: item.product_id,
+      productName: item.product_name,
+      sku: item.sku,
+      barcode: item.barcode,
+      quantityRequested: Number(item.quantity_requested),
+      quantityApproved: toNumber(item.quantity_approved),
+      quantityShipped: toNumber(item.quantity_shipped),
+      quantityReceived: toNumber(item.quantity_received),
+      urgency: item.urgency,
+      notes: item.notes,
+      discrepancyNotes: item.discrepancy_notes,
+    })),
+  };
+}
+
+export function transformShiftReport(report: any) {
+  const details = report.report;
+
+  return {
+    id: report.id,
+    branchShiftId: report.branch_shift_id,
+    terminalId: report.terminal_id,
+    shiftNumber: Number(report.shift_number),
+    openedBy: report.opened_by,
+    closedBy: report.closed_by,
+    openedAt: report.opened_at,
+    closedAt: report.closed_at,
+    openingFloat: Number(report.opening_float),
+    expectedCash: Number(report.expected_cash),
+    countedCash: Number(report.counted_cash),
+    cashDifference: Number(report.cash_difference),
+    salesCount: Number(report.sales_count || 0),
+    salesTotal: Number(report.sales_total || 0),
+    notes: report.notes,
+    details: details ? {
+      sales: details.sales,
+      voids: details.voids,
+      refunds: details.refunds,
+      payments: (details.payments || []).map((payment: any) => ({
+        method: payment.method,
+        count: payment.count,
+        amount: payment.amount,
+        changeGiven: payment.change_given,
+        netAmount: payment.net_amount,
+        refunded: payment.refunded,
+      })),
+      cash: {
+        openingFloat: details.cash.opening_float,
+        sales: details.cash.sales,
+        refunds: details.cash.refunds,
+        payIns: details.cash.pay_ins,
+        payOuts: details.cash.pay_outs,
+        drops: details.cash.drops,
+        expected: details.cash.expected,
+        counted: details.cash.counted,
+        difference: details.cash.difference,
+      },
+    } : undefined,
+  };
+}
+
+export function transformScheduledPriceChange(change: any) {
+  const toNumber = (value: any) => (value === null || value === undefined ? null : Number(value));
+
+  return {
+    id: change.id,
+    batchId: change.batch_id,
+    branchId: change.branch_id,
+    branchName: change.branch_name,
+    branchCode: change.branch_code,
+    branchTimezone: change.branch_timezone,
+    productId: change.product_id,
+    productName: change.product_name,
+    sku: change.sku,
+    basePrice: toNumber(change.base_price) ?? undefined,
+    price: Number(change.price),
+    cost: toNumber(change.cost),
+    previousPrice: toNumber(change.previous_price),
+    effectiveFrom: change.effective_from,
+    effectiveUntil: change.effective_until,
+    status: change.status,
+    deliveryStatus: change.delivery_status,
+    deliveryError: change.delivery_error,
+    deliveredAt: change.delivered_at,
+    notes: change.notes,
+    createdAt: change.created_at,
+  };
+}
+
+export function transformAlertRule(rule: any) {
+  return {
+    id: rule.id,
+    ruleType: rule.rule_type,
+    name: rule.name,
+    branchId: rule.branch_id,
+    branchName: rule.branch_name,
+    severity: rule.severity,
+    params: rule.params || {},
+    isActive: rule.is_active,
+  };
+}
+
+/**
+ * Transform supplier data from backend to frontend format
+ */
+export function transformSupplier(supplier: any) {
+  return {
+    id: supplier.id,
+    code: supplier.code,
+    name: supplier.name,
+    contactPerson: supplier.contact_person,
+    phone: supplier.phone,
+    email: supplier.email,
+    address: supplier.address,
+    taxId: supplier.tax_id,
+    paymentTermsDays: Number(supplier.payment_terms_days || 0),
+    leadTimeDays: Number(supplier.lead_time_days || 0),
+    notes: supplier.notes,
+    isActive: supplier.is_active,
+    productCount: supplier.product_count !== undefined ? Number(supplier.product_count) : supplier.products?.length,
+    openOrderCount: supplier.open_order_count !== undefined ? Number(supplier.open_order_count) : undefined,
+    products: supplier.products?.map((product: any) => ({
+      id: product.id,
+      productId: product.product_id,
+      productName: product.product_name,
+      sku: product.sku,
+      barcode: product.barcode,
+      supplierSku: product.supplier_sku,
+      unitCost: product.unit_cost === null || product.unit_cost === undefined ? null : Number(product.unit_cost),
+      minOrderQuantity: Number(product.min_order_quantity || 1),
+      isPreferred: !!product.is_preferred,
+    })),
+  };
+}
+
+/**
+ * Transform purchase order data from backend to frontend format
+ */
+export function transformPurchaseOrder(order: any) {
+  return {
+    id: order.id,
+    poNumber: order.po_number,
+    supplierId: order.supplier_id,
+    supplierName: order.supplier_name,
+    branchId: order.branch_id,
+    branchName: order.branch_name,
+    status: order.status,
+    source: order.source,
+    expectedDate: order.expected_date,
+    totalCost: Number(order.total_cost || 0),
+    notes: order.notes,
+    rejectionReason: order.rejection_reason,
+    itemCount: order.item_count !== undefined ? Number(order.item_count) : order.items?.length,
+    createdAt: order.created_at,
+    submittedAt: order.submitted_at,
+    approvedAt: order.approved_at,
+    orderedAt: order.ordered_at,
+    receivedAt: order.received_at,
+    items: order.items?.map((item: any) => ({
+      id: item.id,
+      productId: item.product_id,
+      productName: item.product_name,
+      sku: item.sku,
+      barcode: item.barcode,
+      supplierSku: item.supplier_sku,
+      quantityOrdered: Number(item.quantity_ordered),
+      quantityReceived: Number(item.quantity_received || 0),
+      unitCost: Number(item.unit_cost || 0),
+      notes: item.notes,
+    })),
+    receipts: order.receipts?.map((receipt: any) => ({
+      id: receipt.id,
+      grnNumber: receipt.grn_number,
+      supplierInvoiceNumber: receipt.supplier_invoice_number,
+      receivedBy: receipt.received_by,
+      totalCost: Number(receipt.total_cost || 0),
+      receivedAt: receipt.received_at,
+      notes: receipt.notes,
+    })),
+  };
+}
@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ILicenseFile extends Document {
+  _id: mongoose.Types.ObjectId;
+  fileId: string;
+  licenseKey: string;
+  machineId?: string;
+  issuedAt: Date;
+  validUntil: Date;
+  revokedAt?: Date;
+  revocationReason?: string;
+}
+
+const licenseFileSchema = new Schema<ILicenseFile>({
+  fileId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  licenseKey: {
+    type: String,
+    required: true,
+    uppercase: true
+  },
+  machineId: {
+    type: String,
+    trim: true
+  },
+  issuedAt: {
+    type: Date,
+    default: Date.now
+  },
+  validUntil: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date
+  },
+  revocationReason: {
+    type: String,
+    trim: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better performance
+licenseFileSchema.index({ licenseKey: 1, issuedAt: -1 });
+licenseFileSchema.index({ revokedAt: 1 });
+
+export const LicenseFile = mongoose.model<ILicenseFile>('LicenseFile', licenseFileSchema);
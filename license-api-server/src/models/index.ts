@@ -1,5 +1,6 @@
 export { Customer, ICustomer } from './Customer';
 export { ILicense, License } from './License';
+export { ILicenseFile, LicenseFile } from './LicenseFile';
 export { ISoftwareRelease, SoftwareRelease } from './SoftwareRelease';
 export { IUsageLog, UsageLog } from './UsageLog';
 
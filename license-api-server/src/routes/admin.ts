@@ -3,11 +3,13 @@ import { Request, Response, Router } from 'express';
 import jwt from 'jsonwebtoken';
 import { authenticateAdmin } from '../middleware/auth';
 import { Customer, License, UsageLog } from '../models';
+import { LicenseFileError, LicenseFileService } from '../services/LicenseFileService';
 import { LicenseService } from '../services/LicenseService';
 import { logger } from '../utils/logger';
 
 const router = Router();
 const licenseService = new LicenseService();
+const licenseFileService = new LicenseFileService();
 
 // Admin login
 router.post('/login', async (req: Request, res: Response) => {
@@ -244,6 +246,82 @@ router.patch('/licenses/:licenseKey/deactivate', authenticateAdmin, async (req:
   }
 });
 
+// Issue an offline license file, optionally bound to one machine
+router.post('/licenses/:licenseKey/files', authenticateAdmin, async (req: Request, res: Response) => {
+  try {
+    const { licenseKey } = req.params;
+    const { machineId } = req.body;
+
+    const { file, filename, content } = await licenseFileService.issueFile(licenseKey, machineId);
+
+    res.status(201).json({
+      success: true,
+      file,
+      filename,
+      content
+    });
+  } catch (error) {
+    if (error instanceof LicenseFileError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+    logger.error('Issue license file error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// List license files issued for a license
+router.get('/licenses/:licenseKey/files', authenticateAdmin, async (req: Request, res: Response) => {
+  try {
+    const files = await licenseFileService.listFiles(req.params.licenseKey);
+
+    res.json({
+      success: true,
+      files
+    });
+  } catch (error) {
+    logger.error('Get license files error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Revoke a license file; apps drop it on their next heartbeat
+router.patch('/license-files/:fileId/revoke', authenticateAdmin, async (req: Request, res: Response) => {
+  try {
+    const { fileId } = req.params;
+    const { reason } = req.body;
+
+    const file = await licenseFileService.revokeFile(fileId, reason);
+
+    if (file) {
+      res.json({
+        success: true,
+        file,
+        message: 'License file revoked successfully'
+      });
+    } else {
+      res.status(404).json({
+        success: false,
+        message: 'License file not found'
+      });
+    }
+  } catch (error) {
+    logger.error('Revoke license file error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 // Get usage statistics
 router.get('/usage-stats', authenticateAdmin, async (req: Request, res: Response) => {
   try {
@@ -1,9 +1,20 @@
 import { Request, Response, Router } from 'express';
+import { ILicense } from '../models';
+import { LicenseFileService } from '../services/LicenseFileService';
 import { LicenseService } from '../services/LicenseService';
 import { logger } from '../utils/logger';
 
 const router = Router();
 const licenseService = new LicenseService();
+const licenseFileService = new LicenseFileService();
+
+// Limits and features the apps enforce locally, also while offline
+const toLicenseSummary = (license: ILicense) => ({
+  features: license.features,
+  maxBranches: license.maxBranches,
+  maxPOSTerminals: license.maxPOSTerminals,
+  expiryDate: license.expiryDate
+});
 
 // Validate license for downloads
 router.post('/validate-license', async (req: Request, res: Response) => {
@@ -53,6 +64,14 @@ router.post('/activate-license', async (req: Request, res: Response) => {
       });
     }
 
+    // Session tokens are signed with the license signing key
+    if (!licenseFileService.isConfigured()) {
+      return res.status(503).json({
+        success: false,
+        message: 'License signing key is not configured'
+      });
+    }
+
     const validation = await licenseService.validateLicense(licenseKey, appType, machineId);
     
     if (validation.valid) {
@@ -66,12 +85,15 @@ router.post('/activate-license', async (req: Request, res: Response) => {
       res.json({
         success: true,
         sessionToken: validation.sessionToken,
-        permissions: validation.permissions
+        permissions: validation.permissions,
+        license: toLicenseSummary(validation.license!),
+        revocationList: await licenseFileService.getRevocationList()
       });
     } else {
       res.status(403).json({
         success: false,
-        reason: validation.reason
+        reason: validation.reason,
+        revocationList: await licenseFileService.getRevocationList()
       });
     }
   } catch (error) {
@@ -95,10 +117,31 @@ router.post('/license-heartbeat', async (req: Request, res: Response) => {
       });
     }
 
-    // Here you would verify the session token and extract license info
-    // For now, we'll assume it's valid and track the heartbeat
-    
-    res.json({ success: true });
+    // Session tokens are signed with the license signing key
+    if (!licenseFileService.isConfigured()) {
+      return res.status(503).json({
+        success: false,
+        message: 'License signing key is not configured'
+      });
+    }
+
+    const result = await licenseService.heartbeat(sessionToken, machineId, appType);
+
+    if (!result.valid) {
+      return res.status(result.status).json({
+        success: false,
+        reason: result.reason,
+        revocationList: await licenseFileService.getRevocationList()
+      });
+    }
+
+    res.json({
+      success: true,
+      sessionToken: result.sessionToken,
+      permissions: result.license!.features,
+      license: toLicenseSummary(result.license!),
+      revocationList: await licenseFileService.getRevocationList()
+    });
   } catch (error) {
     logger.error('Heartbeat error:', error);
     res.status(500).json({
@@ -108,4 +151,42 @@ router.post('/license-heartbeat', async (req: Request, res: Response) => {
   }
 });
 
+// Public key apps use to verify license files and revocation lists offline
+router.get('/license-public-key', (req: Request, res: Response) => {
+  if (!licenseFileService.isConfigured()) {
+    return res.status(503).json({
+      success: false,
+      message: 'License signing key is not configured'
+    });
+  }
+
+  res.json({
+    success: true,
+    algorithm: 'Ed25519',
+    publicKey: licenseFileService.getPublicKey()
+  });
+});
+
+// Current revocation list for apps licensed with a file
+router.get('/license-revocations', async (req: Request, res: Response) => {
+  try {
+    const revocationList = await licenseFileService.getRevocationList();
+
+    if (!revocationList) {
+      return res.status(503).json({
+        success: false,
+        message: 'License signing key is not configured'
+      });
+    }
+
+    res.json({ success: true, revocationList });
+  } catch (error) {
+    logger.error('Revocation list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 export default router;
@@ -0,0 +1,236 @@
+import { createPrivateKey, createPublicKey, KeyObject, randomUUID, sign, verify } from 'crypto';
+import { readFileSync } from 'fs';
+import { ILicenseFile, License, LicenseFile } from '../models';
+import { logger } from '../utils/logger';
+
+export const LICENSE_FILE_FORMAT = 'rockpoint-license';
+export const REVOCATION_LIST_FORMAT = 'rockpoint-license-revocations';
+
+// Signed envelope shared by license files and revocation lists
+export interface SignedDocument {
+  format: string;
+  version: number;
+  algorithm: 'Ed25519';
+  payload: string; // base64 JSON
+  signature: string; // base64 Ed25519 signature over the decoded payload bytes
+}
+
+export interface LicenseFilePayload {
+  fileId: string;
+  licenseKey: string;
+  customer: {
+    id: string;
+    name: string;
+    company: string;
+  };
+  maxBranches: number;
+  maxPOSTerminals: number;
+  features: string[];
+  expiryDate: string;
+  machineId?: string;
+  issuedAt: string;
+}
+
+export interface RevocationListPayload {
+  issuedAt: string;
+  revokedFileIds: string[];
+  revokedLicenseKeys: string[];
+}
+
+export class LicenseFileError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+/**
+ * Issues license files that apps verify offline with only the public key, the signed
+ * revocation list apps pick up during heartbeats, and the session tokens of activations.
+ * The Ed25519 private key is read from LICENSE_SIGNING_KEY (PEM) or LICENSE_SIGNING_KEY_PATH.
+ */
+export class LicenseFileService {
+  private privateKey: KeyObject | null | undefined;
+
+  isConfigured(): boolean {
+    return this.loadKey() !== null;
+  }
+
+  getPublicKey(): string {
+    return createPublicKey(this.requireKey()).export({ type: 'spki', format: 'pem' }).toString();
+  }
+
+  async issueFile(licenseKey: string, machineId?: string): Promise<{ file: ILicenseFile; filename: string; content: string }> {
+    this.requireKey();
+
+    const license = await License.findOne({ licenseKey: licenseKey.toUpperCase() }).populate('customerId');
+    if (!license) {
+      throw new LicenseFileError('License not found', 404);
+    }
+    if (!license.isActive) {
+      throw new LicenseFileError('License is deactivated', 400);
+    }
+    if (new Date() > license.expiryDate) {
+      throw new LicenseFileError('License expired', 400);
+    }
+
+    // customerId is populated above
+    const customer = license.customerId as unknown as { _id: unknown; name: string; company: string };
+    const file = new LicenseFile({
+      fileId: randomUUID(),
+      licenseKey: license.licenseKey,
+      machineId: machineId || undefined,
+      validUntil: license.expiryDate
+    });
+
+    const payload: LicenseFilePayload = {
+      fileId: file.fileId,
+      licenseKey: license.licenseKey,
+      customer: {
+        id: String(customer._id),
+        name: customer.name,
+        company: customer.company
+      },
+      maxBranches: license.maxBranches,
+      maxPOSTerminals: license.maxPOSTerminals,
+      features: license.features,
+      expiryDate: license.expiryDate.toISOString(),
+      machineId: file.machineId,
+      issuedAt: file.issuedAt.toISOString()
+    };
+
+    await file.save();
+    logger.info(`License file ${file.fileId} issued for ${license.licenseKey}`);
+
+    return {
+      file,
+      filename: `rockpoint-${license.licenseKey}.lic`,
+      content: JSON.stringify(this.signDocument(LICENSE_FILE_FORMAT, payload), null, 2)
+    };
+  }
+
+  async listFiles(licenseKey: string): Promise<ILicenseFile[]> {
+    return LicenseFile.find({ licenseKey: licenseKey.toUpperCase() }).sort({ issuedAt: -1 });
+  }
+
+  async revokeFile(fileId: string, reason?: string): Promise<ILicenseFile | null> {
+    const file = await LicenseFile.findOne({ fileId });
+    if (!file) {
+      return null;
+    }
+
+    if (!file.revokedAt) {
+      file.revokedAt = new Date();
+      file.revocationReason = reason;
+      await file.save();
+      logger.info(`License file revoked: ${fileId} - ${reason || 'No reason provided'}`);
+    }
+    return file;
+  }
+
+  /**
+   * Revoked files plus deactivated licenses that have files out there. Returns null while no
+   * signing key is configured, since apps could not trust an unsigned list.
+   */
+  async getRevocationList(): Promise<SignedDocument | null> {
+    if (!this.isConfigured()) {
+      return null;
+    }
+
+    const [revokedFiles, licenseKeysWithFiles] = await Promise.all([
+      LicenseFile.find({ revokedAt: { $exists: true } }).select('fileId'),
+      LicenseFile.distinct('licenseKey')
+    ]);
+    const deactivated = await License.find({
+      licenseKey: { $in: licenseKeysWithFiles },
+      isActive: false
+    }).select('licenseKey');
+
+    const payload: RevocationListPayload = {
+      issuedAt: new Date().toISOString(),
+      revokedFileIds: revokedFiles.map(file => file.fileId),
+      revokedLicenseKeys: deactivated.map(license => license.licenseKey)
+    };
+
+    return this.signDocument(REVOCATION_LIST_FORMAT, payload);
+  }
+
+  /**
+   * Session token as a compact JWT signed with EdDSA, so apps can check a cached token
+   * with the public key before they trust the limits in it
+   */
+  signToken(claims: object): string {
+    const header = Buffer.from(JSON.stringify({ alg: 'EdDSA', typ: 'JWT' })).toString('base64url');
+    const body = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    const signature = sign(null, Buffer.from(`${header}.${body}`), this.requireKey()).toString('base64url');
+
+    return `${header}.${body}.${signature}`;
+  }
+
+  /**
+   * Claims of a session token this server signed that has not expired; null otherwise
+   */
+  verifyToken<T extends { exp?: number }>(token: string): T | null {
+    const [header, body, signature] = (token || '').split('.');
+    if (!header || !body || !signature) {
+      return null;
+    }
+
+    try {
+      if (JSON.parse(Buffer.from(header, 'base64url').toString('utf8')).alg !== 'EdDSA') {
+        return null;
+      }
+
+      const publicKey = createPublicKey(this.requireKey());
+      if (!verify(null, Buffer.from(`${header}.${body}`), publicKey, Buffer.from(signature, 'base64url'))) {
+        return null;
+      }
+
+      const claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as T;
+      return claims.exp && claims.exp * 1000 > Date.now() ? claims : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private signDocument(format: string, payload: object): SignedDocument {
+    const bytes = Buffer.from(JSON.stringify(payload), 'utf8');
+
+    return {
+      format,
+      version: 1,
+      algorithm: 'Ed25519',
+      payload: bytes.toString('base64'),
+      signature: sign(null, bytes, this.requireKey()).toString('base64')
+    };
+  }
+
+  private requireKey(): KeyObject {
+    const key = this.loadKey();
+    if (!key) {
+      throw new LicenseFileError('License signing key is not configured', 503);
+    }
+    return key;
+  }
+
+  // Loaded on first use, after dotenv has populated the environment
+  private loadKey(): KeyObject | null {
+    if (this.privateKey !== undefined) {
+      return this.privateKey;
+    }
+
+    try {
+      const pem = process.env.LICENSE_SIGNING_KEY?.replace(/\\n/g, '\n')
+        || (process.env.LICENSE_SIGNING_KEY_PATH ? readFileSync(process.env.LICENSE_SIGNING_KEY_PATH, 'utf8') : '');
+
+      const key = pem ? createPrivateKey(pem) : null;
+      if (key && key.asymmetricKeyType !== 'ed25519') {
+        throw new Error(`expected an ed25519 key, got ${key.asymmetricKeyType}`);
+      }
+      this.privateKey = key;
+    } catch (error) {
+      this.privateKey = null;
+      logger.error('Invalid license signing key:', error);
+    }
+    return this.privateKey;
+  }
+}
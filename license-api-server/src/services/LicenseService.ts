@@ -1,7 +1,7 @@
 import { createHash } from 'crypto';
-import jwt from 'jsonwebtoken';
 import { Customer, ILicense, License, UsageLog } from '../models';
 import { logger } from '../utils/logger';
+import { LicenseFileService } from './LicenseFileService';
 
 export interface LicenseData {
   customerId: string;
@@ -20,6 +20,26 @@ export interface ValidationResult {
   permissions?: string[];
 }
 
+export interface LicenseClaims {
+  licenseKey: string;
+  customerId: string;
+  machineId: string;
+  appType?: string;
+  permissions: string[];
+  maxBranches: number;
+  maxPOSTerminals: number;
+  licenseExpiresAt: string;
+  exp?: number;
+}
+
+export interface HeartbeatResult {
+  valid: boolean;
+  status: number;
+  reason?: string;
+  sessionToken?: string;
+  license?: ILicense;
+}
+
 export interface UsageStats {
   chainManagers: number;
   branches: number;
@@ -28,11 +48,8 @@ export interface UsageStats {
 }
 
 export class LicenseService {
-  private secret: string;
-
-  constructor() {
-    this.secret = process.env.LICENSE_SECRET || 'your-license-encryption-key-change-in-production';
-  }
+  // Session tokens are signed with the same Ed25519 key as license files
+  private tokens = new LicenseFileService();
 
   async generateLicense(customerData: LicenseData): Promise<{ licenseKey: string; license: ILicense }> {
     try {
@@ -97,6 +114,16 @@ export class LicenseService {
       // Check usage limits if appType is provided
       if (appType && machineId) {
         const usage = await this.getCurrentUsage(licenseKey);
+        const alreadyActive = usage.lastActiveDevices.some(
+          device => device._id.appType === appType && device._id.machineId === machineId
+        );
+
+        // A machine that is already counted may re-activate, e.g. after a restart
+        if (alreadyActive) {
+          usage.chainManagers = 0;
+          usage.branches = 0;
+          usage.posTerminals = 0;
+        }
         
         if (appType === 'chain-manager' && usage.chainManagers >= 1) {
           return { valid: false, reason: 'Chain manager already active' };
@@ -118,7 +145,7 @@ export class LicenseService {
       // Generate session token if machine ID is provided
       let sessionToken;
       if (machineId) {
-        sessionToken = this.generateSessionToken(license, machineId);
+        sessionToken = this.generateSessionToken(license, machineId, appType);
       }
 
       return {
@@ -134,14 +161,50 @@ export class LicenseService {
     }
   }
 
-  private generateSessionToken(license: ILicense, machineId: string): string {
-    return jwt.sign({
+  private generateSessionToken(license: ILicense, machineId: string, appType?: string): string {
+    // Both a populated customer and a bare ObjectId expose _id
+    const customerId = (license.customerId as unknown as { _id: unknown })._id;
+
+    return this.tokens.signToken({
       licenseKey: license.licenseKey,
-      customerId: license.customerId,
+      customerId: String(customerId),
       machineId,
+      appType,
       permissions: license.features,
+      maxBranches: license.maxBranches,
+      maxPOSTerminals: license.maxPOSTerminals,
+      licenseExpiresAt: license.expiryDate.toISOString(),
       exp: Math.floor(Date.now() / 1000) + (24 * 60 * 60) // 24 hours
-    }, this.secret);
+    });
+  }
+
+  async heartbeat(sessionToken: string, machineId: string, appType?: string): Promise<HeartbeatResult> {
+    const claims = this.tokens.verifyToken<LicenseClaims>(sessionToken);
+    if (!claims) {
+      return { valid: false, status: 401, reason: 'Session token is invalid or expired' };
+    }
+
+    if (claims.machineId !== machineId) {
+      return { valid: false, status: 401, reason: 'Session token was issued to another machine' };
+    }
+
+    // Limits were checked on activation; a heartbeat only confirms the license still holds
+    const validation = await this.validateLicense(claims.licenseKey);
+    if (!validation.valid || !validation.license) {
+      return { valid: false, status: 403, reason: validation.reason };
+    }
+
+    const resolvedAppType = appType || claims.appType;
+    if (resolvedAppType) {
+      await this.trackUsage(claims.licenseKey, resolvedAppType, 'heartbeat', machineId);
+    }
+
+    return {
+      valid: true,
+      status: 200,
+      license: validation.license,
+      sessionToken: this.generateSessionToken(validation.license, machineId, resolvedAppType)
+    };
   }
 
   async trackUsage(
@@ -0,0 +1,586 @@
+import { createHash, createPublicKey, KeyObject, verify } from 'crypto';
+import { readFileSync } from 'fs';
+import os from 'os';
+import { LicenseError } from './errors';
+import {
+  LicenseAppType,
+  LicenseClientOptions,
+  LicenseFeature,
+  LicenseFilePayload,
+  LicenseState,
+  LicenseStore,
+  LicenseTokenClaims,
+  RevocationListPayload,
+  SignedLicenseDocument
+} from './types';
+
+interface CachedLicense {
+  token: string;
+  claims: LicenseTokenClaims;
+  verifiedAt: Date;
+}
+
+const LICENSE_FILE_FORMAT = 'rockpoint-license';
+const REVOCATION_LIST_FORMAT = 'rockpoint-license-revocations';
+const DEFAULT_SERVER_URL = 'http://localhost:3002/api';
+const DEFAULT_GRACE_DAYS = 7;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * License Client
+ *
+ * Activates an app against license-api-server with a machine ID and keeps the license alive
+ * with heartbeats. The session token from the last successful call, signed with the license
+ * server's Ed25519 key, is cached in the app's store, so the limits and features it carries
+ * keep applying while the license server is unreachable - for up to LICENSE_OFFLINE_GRACE_DAYS
+ * after the last successful check. The token is verified with the public key on every load.
+ *
+ * Stores with poor connectivity can install a license file instead: it is verified with
+ * the license server's public key alone and applies until it expires, unless it shows up
+ * on the signed revocation list that comes back with every activation and heartbeat.
+ */
+export class LicenseClient {
+  private readonly appType: LicenseAppType;
+  private readonly store: LicenseStore;
+  private readonly requireLicense?: boolean;
+
+  private timer: NodeJS.Timeout | null = null;
+  private machineId: string | null = null;
+  private cached: CachedLicense | null | undefined;
+  private licenseFile: LicenseFilePayload | null | undefined;
+  private licenseFileError: string | null = null;
+  private revocations: RevocationListPayload | null | undefined;
+  private online = false;
+  private rejection: string | null = null;
+
+  constructor(options: LicenseClientOptions) {
+    this.appType = options.appType;
+    this.store = options.store;
+    this.requireLicense = options.requireLicense;
+  }
+
+  // =================================================================
+  // CONFIGURATION
+  // =================================================================
+
+  /**
+   * Stable identifier for this machine: hostname, platform and hardware addresses
+   */
+  getMachineId(): string {
+    if (!this.machineId) {
+      const macs = Object.values(os.networkInterfaces())
+        .flat()
+        .filter(iface => iface && !iface.internal && iface.mac !== '00:00:00:00:00:00')
+        .map(iface => iface!.mac);
+
+      const fingerprint = [os.hostname(), os.platform(), os.arch(), ...Array.from(new Set(macs)).sort()].join('|');
+      this.machineId = createHash('sha256').update(fingerprint).digest('hex').substring(0, 32);
+    }
+    return this.machineId;
+  }
+
+  /**
+   * Configured key, else the key of an installed license file
+   */
+  async getLicenseKey(): Promise<string> {
+    const config = await this.store.read(['license_key']);
+    const key = config.get('license_key') || process.env.LICENSE_KEY;
+    if (key) {
+      return key;
+    }
+
+    const file = await this.loadLicenseFile();
+    return file?.licenseKey || '';
+  }
+
+  /**
+   * Forget what was loaded from the store, so the next check reads it again
+   */
+  reload(): void {
+    this.cached = undefined;
+    this.licenseFile = undefined;
+    this.licenseFileError = null;
+    this.revocations = undefined;
+    this.online = false;
+    this.rejection = null;
+  }
+
+  private getServerUrl(): string {
+    return (process.env.LICENSE_SERVER_URL || DEFAULT_SERVER_URL).replace(/\/$/, '');
+  }
+
+  private getGraceDays(): number {
+    const days = parseFloat(process.env.LICENSE_OFFLINE_GRACE_DAYS || '');
+    return days >= 0 ? days : DEFAULT_GRACE_DAYS;
+  }
+
+  private getPublicKey(): KeyObject | null {
+    const pem = process.env.LICENSE_PUBLIC_KEY?.replace(/\\n/g, '\n')
+      || (process.env.LICENSE_PUBLIC_KEY_PATH ? readFileSync(process.env.LICENSE_PUBLIC_KEY_PATH, 'utf8') : '');
+    return pem ? createPublicKey(pem) : null;
+  }
+
+  // =================================================================
+  // STATE AND GATING
+  // =================================================================
+
+  /**
+   * Current license state, re-evaluated against the clock on every call
+   */
+  async getState(now: Date = new Date()): Promise<LicenseState> {
+    const base = {
+      source: null,
+      fileId: null,
+      machineId: this.getMachineId(),
+      features: [] as LicenseFeature[],
+      maxBranches: null,
+      maxPOSTerminals: null,
+      expiresAt: null,
+      lastVerifiedAt: null,
+      graceUntil: null
+    };
+
+    const file = await this.loadLicenseFile();
+    if (this.licenseFileError) {
+      return { ...base, status: 'invalid', source: 'file', reason: this.licenseFileError };
+    }
+    if (file) {
+      const state = await this.evaluateFile(file, now);
+      return this.rejection && this.isUsable(state) ? { ...state, status: 'invalid', reason: this.rejection } : state;
+    }
+
+    const licenseKey = await this.getLicenseKey();
+    if (!licenseKey) {
+      // Read on every check, as the apps load their environment after importing this
+      return (this.requireLicense ?? process.env.NODE_ENV === 'production')
+        ? { ...base, status: 'unlicensed', reason: 'No license key is configured' }
+        : { ...base, status: 'unrestricted' };
+    }
+
+    if (this.rejection) {
+      return { ...base, status: 'invalid', source: 'server', reason: this.rejection };
+    }
+
+    const cached = await this.loadCache();
+    if (!cached) {
+      return { ...base, status: 'unlicensed', reason: 'License has not been activated yet' };
+    }
+
+    const { claims, verifiedAt } = cached;
+    const graceUntil = new Date(verifiedAt.getTime() + this.getGraceDays() * 24 * 60 * 60 * 1000);
+    const state: LicenseState = {
+      ...base,
+      status: this.online ? 'active' : 'grace',
+      source: 'server',
+      features: claims.permissions || [],
+      maxBranches: claims.maxBranches,
+      maxPOSTerminals: claims.maxPOSTerminals,
+      expiresAt: claims.licenseExpiresAt,
+      lastVerifiedAt: verifiedAt.toISOString(),
+      graceUntil: graceUntil.toISOString()
+    };
+
+    if (claims.licenseKey !== licenseKey.toUpperCase() || claims.machineId !== state.machineId) {
+      return { ...state, status: 'unlicensed', reason: 'Cached license was issued for another key or machine' };
+    }
+    if (new Date(claims.licenseExpiresAt) <= now) {
+      return { ...state, status: 'expired', reason: 'License expired' };
+    }
+    if (graceUntil <= now) {
+      return { ...state, status: 'expired', reason: 'Offline grace period ended; the license server must be reached' };
+    }
+
+    return state;
+  }
+
+  isUsable(state: LicenseState): boolean {
+    return ['active', 'grace', 'unrestricted'].includes(state.status);
+  }
+
+  async hasFeature(feature: LicenseFeature): Promise<boolean> {
+    const state = await this.getState();
+    return state.status === 'unrestricted' || (this.isUsable(state) && state.features.includes(feature));
+  }
+
+  async assertFeature(feature: LicenseFeature): Promise<void> {
+    if (!(await this.hasFeature(feature))) {
+      throw new LicenseError(`License does not include the "${feature}" feature`, 403);
+    }
+  }
+
+  /**
+   * License state to check a limit against before adding something the license counts, such
+   * as a branch or a POS terminal. Throws when the license cannot be used; null when unrestricted.
+   */
+  async requireUsableState(action: string): Promise<LicenseState | null> {
+    const state = await this.getState();
+    if (state.status === 'unrestricted') {
+      return null;
+    }
+    if (!this.isUsable(state)) {
+      throw new LicenseError(`${action}: ${state.reason || `license is ${state.status}`}`, 403);
+    }
+    return state;
+  }
+
+  /**
+   * Express middleware refusing the route unless the license includes the feature
+   */
+  requireFeature(feature: LicenseFeature) {
+    return (_req: unknown, _res: unknown, next: (error?: unknown) => void): void => {
+      this.assertFeature(feature).then(() => next()).catch(next);
+    };
+  }
+
+  // =================================================================
+  // LICENSE FILES
+  // =================================================================
+
+  /**
+   * Verify an Ed25519-signed license document with the license server's public key
+   */
+  verifySignedDocument<T>(document: SignedLicenseDocument, format: string): T {
+    const publicKey = this.getPublicKey();
+    if (!publicKey) {
+      throw new LicenseError('LICENSE_PUBLIC_KEY is not configured; license files cannot be verified', 503);
+    }
+    if (!document || document.format !== format || document.version !== 1 || document.algorithm !== 'Ed25519') {
+      throw new LicenseError(`Not a ${format} document`, 400);
+    }
+
+    const payload = Buffer.from(document.payload || '', 'base64');
+    const signature = Buffer.from(document.signature || '', 'base64');
+    if (!verify(null, payload, publicKey, signature)) {
+      throw new LicenseError('License signature is invalid', 400);
+    }
+
+    return JSON.parse(payload.toString('utf8')) as T;
+  }
+
+  /**
+   * Install a license file; it replaces any previous one once it verifies for this machine
+   */
+  async installLicenseFile(content: string): Promise<LicenseState> {
+    let document: SignedLicenseDocument;
+    try {
+      document = JSON.parse(content);
+    } catch {
+      throw new LicenseError('License file is not valid JSON', 400);
+    }
+
+    const payload = this.verifySignedDocument<LicenseFilePayload>(document, LICENSE_FILE_FORMAT);
+    const state = await this.evaluateFile(payload);
+    if (!this.isUsable(state)) {
+      throw new LicenseError(state.reason || `License file is ${state.status}`, 400);
+    }
+
+    await this.store.write([['license_file', content, 'Signed offline license file']]);
+    this.licenseFile = payload;
+    this.licenseFileError = null;
+    this.rejection = null;
+
+    return state;
+  }
+
+  async removeLicenseFile(): Promise<LicenseState> {
+    await this.store.remove(['license_file']);
+    this.licenseFile = undefined;
+    this.licenseFileError = null;
+    return this.getState();
+  }
+
+  private async evaluateFile(file: LicenseFilePayload, now: Date = new Date()): Promise<LicenseState> {
+    const state: LicenseState = {
+      status: 'active',
+      source: 'file',
+      fileId: file.fileId,
+      machineId: this.getMachineId(),
+      features: file.features || [],
+      maxBranches: file.maxBranches,
+      maxPOSTerminals: file.maxPOSTerminals,
+      expiresAt: file.expiryDate,
+      lastVerifiedAt: null,
+      graceUntil: null
+    };
+
+    const revocations = await this.loadRevocations();
+    if (revocations?.revokedFileIds.includes(file.fileId) || revocations?.revokedLicenseKeys.includes(file.licenseKey)) {
+      return { ...state, status: 'invalid', reason: 'License file was revoked' };
+    }
+    if (file.machineId && file.machineId !== state.machineId) {
+      return { ...state, status: 'invalid', reason: 'License file was issued for another machine' };
+    }
+    if (new Date(file.expiryDate) <= now) {
+      return { ...state, status: 'expired', reason: 'License expired' };
+    }
+
+    return state;
+  }
+
+  private async loadLicenseFile(): Promise<LicenseFilePayload | null> {
+    if (this.licenseFile !== undefined) {
+      return this.licenseFile;
+    }
+
+    const config = await this.store.read(['license_file']);
+    const path = process.env.LICENSE_FILE_PATH;
+    this.licenseFile = null;
+    this.licenseFileError = null;
+
+    try {
+      const content = config.get('license_file') || (path ? readFileSync(path, 'utf8') : '');
+      if (content) {
+        this.licenseFile = this.verifySignedDocument<LicenseFilePayload>(JSON.parse(content), LICENSE_FILE_FORMAT);
+      }
+    } catch (error: any) {
+      this.licenseFileError = `License file cannot be used: ${error.message}`;
+      console.warn(`⚠️ ${this.licenseFileError}`);
+    }
+    return this.licenseFile;
+  }
+
+  private async loadRevocations(): Promise<RevocationListPayload | null> {
+    if (this.revocations !== undefined) {
+      return this.revocations;
+    }
+
+    const config = await this.store.read(['license_revocations']);
+    const content = config.get('license_revocations');
+    try {
+      this.revocations = content
+        ? this.verifySignedDocument<RevocationListPayload>(JSON.parse(content), REVOCATION_LIST_FORMAT)
+        : null;
+    } catch (error: any) {
+      console.warn('⚠️ Cached license revocation list cannot be used:', error.message);
+      this.revocations = null;
+    }
+    return this.revocations;
+  }
+
+  /**
+   * Keep the newest revocation list the license server sent; one that fails verification is ignored
+   */
+  private async storeRevocations(document?: SignedLicenseDocument | null): Promise<void> {
+    if (!document || !this.getPublicKey()) {
+      return;
+    }
+
+    try {
+      const payload = this.verifySignedDocument<RevocationListPayload>(document, REVOCATION_LIST_FORMAT);
+      const current = await this.loadRevocations();
+      if (current && new Date(current.issuedAt) >= new Date(payload.issuedAt)) {
+        return;
+      }
+
+      await this.store.write([['license_revocations', JSON.stringify(document), 'Signed license revocation list']]);
+      this.revocations = payload;
+    } catch (error: any) {
+      console.warn('⚠️ License revocation list rejected:', error.message);
+    }
+  }
+
+  // =================================================================
+  // LICENSE SERVER
+  // =================================================================
+
+  /**
+   * Activate this machine; a new key is only saved once the license server accepts it
+   */
+  async activate(licenseKey?: string): Promise<LicenseState> {
+    const key = (licenseKey || await this.getLicenseKey()).trim();
+    if (!key) {
+      throw new LicenseError('No license key is configured', 400);
+    }
+
+    const body = await this.post('/activate-license', {
+      licenseKey: key,
+      appType: this.appType,
+      machineId: this.getMachineId(),
+      computerName: os.hostname()
+    });
+
+    if (licenseKey) {
+      await this.store.write([['license_key', key, 'RockPoint license key']]);
+    }
+    await this.storeToken(body.sessionToken);
+
+    return this.getState();
+  }
+
+  /**
+   * Confirm the license with the server, rotate the cached token and pick up revocations.
+   * Falls back to the cached token or license file while the server is unreachable.
+   */
+  async refresh(): Promise<LicenseState> {
+    if (!(await this.getLicenseKey())) {
+      return this.getState();
+    }
+
+    try {
+      const cached = await this.loadCache();
+      let renewed = false;
+      if (cached) {
+        try {
+          const body = await this.post('/license-heartbeat', {
+            sessionToken: cached.token,
+            machineId: this.getMachineId(),
+            appType: this.appType
+          });
+          await this.storeToken(body.sessionToken);
+          renewed = true;
+        } catch (error: any) {
+          // A token that lapsed while offline is replaced by activating again
+          if (error.statusCode !== 401) {
+            throw error;
+          }
+        }
+      }
+
+      if (!renewed) {
+        await this.activate();
+      }
+    } catch (error: any) {
+      if (error.statusCode === 403) {
+        // The license itself was refused; drop the cached token so it stops applying
+        this.rejection = error.message;
+        await this.clearToken();
+      } else {
+        this.online = false;
+        console.warn('⚠️ License check failed, using cached license:', error.message);
+      }
+    }
+
+    return this.getState();
+  }
+
+  /**
+   * Heartbeat every hour; the first run activates the license if needed
+   */
+  start(intervalMs: number = parseInt(process.env.LICENSE_HEARTBEAT_INTERVAL_MS || '') || DEFAULT_HEARTBEAT_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = () => {
+      this.refresh()
+        .then(state => {
+          if (!this.isUsable(state)) {
+            console.warn(`⚠️ License is ${state.status}: ${state.reason}`);
+          }
+        })
+        .catch(error => console.warn('⚠️ License check failed:', error.message));
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // =================================================================
+  // HELPERS
+  // =================================================================
+
+  private async post(endpoint: string, data: Record<string, unknown>): Promise<any> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.getServerUrl()}${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+    } catch (error: any) {
+      throw new LicenseError(`License server is unreachable: ${error.message}`, 502);
+    }
+
+    // Refusals carry the revocation list too
+    const body = await response.json().catch(() => ({}));
+    await this.storeRevocations(body.revocationList);
+
+    if (!response.ok) {
+      throw new LicenseError(body.reason || body.message || 'License server rejected the request', response.status);
+    }
+    return body;
+  }
+
+  /**
+   * Claims of a session token whose EdDSA signature checks out against the license server's
+   * public key; null for a token that is unsigned, tampered with or unreadable. The expiry is
+   * left to the license server, as the cached token keeps applying through the grace period.
+   */
+  private decodeToken(token: string): LicenseTokenClaims | null {
+    const publicKey = this.getPublicKey();
+    const [header, body, signature] = token.split('.');
+    if (!publicKey || !header || !body || !signature) {
+      return null;
+    }
+
+    try {
+      if (JSON.parse(Buffer.from(header, 'base64url').toString('utf8')).alg !== 'EdDSA') {
+        return null;
+      }
+      if (!verify(null, Buffer.from(`${header}.${body}`), publicKey, Buffer.from(signature, 'base64url'))) {
+        return null;
+      }
+
+      const claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+      return claims && typeof claims === 'object' ? claims : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async loadCache(): Promise<CachedLicense | null> {
+    if (this.cached !== undefined) {
+      return this.cached;
+    }
+
+    const config = await this.store.read(['license_token', 'license_verified_at']);
+    const token = config.get('license_token');
+    const claims = token ? this.decodeToken(token) : null;
+    const verifiedAt = config.get('license_verified_at');
+
+    if (token && !claims) {
+      console.warn('⚠️ Cached license token failed signature verification and is ignored');
+    }
+
+    this.cached = token && claims && verifiedAt
+      ? { token, claims, verifiedAt: new Date(verifiedAt) }
+      : null;
+    return this.cached;
+  }
+
+  private async storeToken(token: string): Promise<void> {
+    if (!this.getPublicKey()) {
+      throw new LicenseError('LICENSE_PUBLIC_KEY is not configured; license tokens cannot be verified', 503);
+    }
+
+    const claims = token ? this.decodeToken(token) : null;
+    if (!claims) {
+      throw new LicenseError('License server returned a token that failed signature verification', 502);
+    }
+
+    const verifiedAt = new Date();
+    await this.store.write([
+      ['license_token', token, 'Signed license token from the last successful check'],
+      ['license_verified_at', verifiedAt.toISOString(), 'Last successful license check; starts the offline grace period']
+    ]);
+
+    this.cached = { token, claims, verifiedAt };
+    this.online = true;
+    this.rejection = null;
+  }
+
+  private async clearToken(): Promise<void> {
+    await this.store.remove(['license_token', 'license_verified_at']);
+    this.cached = null;
+    this.online = false;
+  }
+}
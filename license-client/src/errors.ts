@@ -0,0 +1,13 @@
+/**
+ * Error carrying the HTTP status the apps answer with, as their createError does
+ */
+export class LicenseError extends Error {
+  readonly statusCode: number;
+  readonly isOperational = true;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.name = 'LicenseError';
+    this.statusCode = statusCode;
+  }
+}
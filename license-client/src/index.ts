@@ -0,0 +1,3 @@
+export { LicenseError } from './errors';
+export { LicenseClient } from './LicenseClient';
+export * from './types';
@@ -0,0 +1,94 @@
+// Mirrors the license-api-server features enum
+export type LicenseFeature =
+  | 'inventory'
+  | 'analytics'
+  | 'reporting'
+  | 'multi-branch'
+  | 'advanced-pos'
+  | 'api-access'
+  | 'cloud-sync';
+
+// Apps the license server counts activations for
+export type LicenseAppType = 'branch-core' | 'chain-core' | 'pos-manager';
+
+// unrestricted: no license key while a license is not required; grace: license server unreachable, cached token still honoured
+export type LicenseStatus = 'active' | 'grace' | 'expired' | 'invalid' | 'unlicensed' | 'unrestricted';
+
+// server: session token from activation and heartbeats; file: signed license file verified offline
+export type LicenseSource = 'server' | 'file';
+
+export interface LicenseState {
+  status: LicenseStatus;
+  source: LicenseSource | null;
+  fileId: string | null;
+  machineId: string;
+  features: LicenseFeature[];
+  maxBranches: number | null;
+  maxPOSTerminals: number | null;
+  expiresAt: string | null;
+  lastVerifiedAt: string | null;
+  graceUntil: string | null;
+  reason?: string;
+}
+
+// Claims of the session token issued by license-api-server
+export interface LicenseTokenClaims {
+  licenseKey: string;
+  customerId: string;
+  machineId: string;
+  appType?: string;
+  permissions: LicenseFeature[];
+  maxBranches: number;
+  maxPOSTerminals: number;
+  licenseExpiresAt: string;
+  exp: number;
+}
+
+// Ed25519-signed envelope used for license files and revocation lists
+export interface SignedLicenseDocument {
+  format: string;
+  version: number;
+  algorithm: string;
+  payload: string;
+  signature: string;
+}
+
+export interface LicenseFilePayload {
+  fileId: string;
+  licenseKey: string;
+  customer: {
+    id: string;
+    name: string;
+    company: string;
+  };
+  maxBranches: number;
+  maxPOSTerminals: number;
+  features: LicenseFeature[];
+  expiryDate: string;
+  machineId?: string;
+  issuedAt: string;
+}
+
+export interface RevocationListPayload {
+  issuedAt: string;
+  revokedFileIds: string[];
+  revokedLicenseKeys: string[];
+}
+
+/**
+ * Where an app keeps its license key, the cached token, an installed license file and
+ * the revocation list: a settings table on the servers, a file on a POS terminal
+ */
+export interface LicenseStore {
+  read(keys: string[]): Promise<Map<string, string>>;
+  // [key, value, description]
+  write(values: Array<[string, string, string]>): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+}
+
+export interface LicenseClientOptions {
+  appType: LicenseAppType;
+  store: LicenseStore;
+  // Without a license key the app runs unrestricted unless this is set (default: NODE_ENV is production)
+  requireLicense?: boolean;
+}
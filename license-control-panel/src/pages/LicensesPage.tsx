@@ -1,4 +1,9 @@
-import { Add as AddIcon, Block as BlockIcon, CheckCircle as CheckIcon } from '@mui/icons-material';
+import {
+    Add as AddIcon,
+    Block as BlockIcon,
+    CheckCircle as CheckIcon,
+    Description as FileIcon
+} from '@mui/icons-material';
 import {
     Box,
     Button,
@@ -11,6 +16,9 @@ import {
     FormControl,
     IconButton,
     InputLabel,
+    List,
+    ListItem,
+    ListItemText,
     MenuItem,
     Paper,
     Select,
@@ -37,6 +45,15 @@ interface License {
   createdAt: string;
 }
 
+interface LicenseFile {
+  _id: string;
+  fileId: string;
+  machineId?: string;
+  issuedAt: string;
+  validUntil: string;
+  revokedAt?: string;
+}
+
 const LicensesPage: React.FC = () => {
   const [licenses, setLicenses] = useState<License[]>([]);
   const [customers, setCustomers] = useState<any[]>([]);
@@ -49,6 +66,9 @@ const LicensesPage: React.FC = () => {
     features: [] as string[],
     expiryDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000) // 1 year from now
   });
+  const [fileLicense, setFileLicense] = useState<License | null>(null);
+  const [licenseFiles, setLicenseFiles] = useState<LicenseFile[]>([]);
+  const [fileMachineId, setFileMachineId] = useState('');
 
   const availableFeatures = [
     'inventory',
@@ -118,6 +138,58 @@ const LicensesPage: React.FC = () => {
     }
   };
 
+  const openLicenseFiles = async (license: License) => {
+    setFileLicense(license);
+    setFileMachineId('');
+    setLicenseFiles([]);
+    try {
+      const response = await axios.get(`/api/admin/licenses/${license.licenseKey}/files`);
+      setLicenseFiles(response.data.files);
+    } catch (error) {
+      toast.error('Failed to load license files');
+      console.error('Error fetching license files:', error);
+    }
+  };
+
+  const handleIssueLicenseFile = async () => {
+    if (!fileLicense) return;
+
+    try {
+      const response = await axios.post(`/api/admin/licenses/${fileLicense.licenseKey}/files`, {
+        machineId: fileMachineId.trim() || undefined
+      });
+
+      // Download the signed file straight away
+      const blob = new Blob([response.data.content], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = response.data.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      setLicenseFiles([response.data.file, ...licenseFiles]);
+      setFileMachineId('');
+      toast.success('License file issued!');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to issue license file');
+      console.error('Error issuing license file:', error);
+    }
+  };
+
+  const handleRevokeLicenseFile = async (fileId: string) => {
+    try {
+      const response = await axios.patch(`/api/admin/license-files/${fileId}/revoke`, {
+        reason: 'Revoked by admin'
+      });
+      setLicenseFiles(licenseFiles.map((file) => (file.fileId === fileId ? response.data.file : file)));
+      toast.success('License file revoked successfully!');
+    } catch (error) {
+      toast.error('Failed to revoke license file');
+      console.error('Error revoking license file:', error);
+    }
+  };
+
   const columns: GridColDef[] = [
     { field: 'licenseKey', headerName: 'License Key', width: 180 },
     { 
@@ -173,6 +245,13 @@ const LicensesPage: React.FC = () => {
       width: 120,
       renderCell: (params: any) => (
         <Box>
+          <IconButton
+            onClick={() => openLicenseFiles(params.row)}
+            size="small"
+            title="License files"
+          >
+            <FileIcon />
+          </IconButton>
           {params.row.isActive ? (
             <IconButton
               onClick={() => handleDeactivateLicense(params.row.licenseKey)}
@@ -303,6 +382,72 @@ const LicensesPage: React.FC = () => {
             </Button>
           </DialogActions>
         </Dialog>
+
+        <Dialog open={Boolean(fileLicense)} onClose={() => setFileLicense(null)} maxWidth="sm" fullWidth>
+          <DialogTitle>License Files - {fileLicense?.licenseKey}</DialogTitle>
+          <DialogContent>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Signed files let stores run without reaching the license server. Leave the machine ID
+              empty to allow the file on any machine.
+            </Typography>
+
+            <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+              <TextField
+                label="Machine ID (optional)"
+                size="small"
+                fullWidth
+                value={fileMachineId}
+                onChange={(e) => setFileMachineId(e.target.value)}
+              />
+              <Button
+                variant="contained"
+                onClick={handleIssueLicenseFile}
+                disabled={!fileLicense?.isActive}
+                sx={{ whiteSpace: 'nowrap' }}
+              >
+                Issue & Download
+              </Button>
+            </Box>
+
+            <List dense>
+              {licenseFiles.map((file) => (
+                <ListItem
+                  key={file.fileId}
+                  secondaryAction={
+                    file.revokedAt ? (
+                      <Chip label="Revoked" color="error" size="small" />
+                    ) : (
+                      <IconButton
+                        edge="end"
+                        onClick={() => handleRevokeLicenseFile(file.fileId)}
+                        color="error"
+                        size="small"
+                        title="Revoke"
+                      >
+                        <BlockIcon />
+                      </IconButton>
+                    )
+                  }
+                >
+                  <ListItemText
+                    primary={file.fileId}
+                    secondary={`Issued ${new Date(file.issuedAt).toLocaleDateString()} · ${
+                      file.machineId ? `Machine ${file.machineId}` : 'Any machine'
+                    }`}
+                  />
+                </ListItem>
+              ))}
+              {licenseFiles.length === 0 && (
+                <Typography variant="body2" color="text.secondary">
+                  No license files issued yet
+                </Typography>
+              )}
+            </List>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setFileLicense(null)}>Close</Button>
+          </DialogActions>
+        </Dialog>
       </Container>
   );
 };
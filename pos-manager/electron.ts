@@ -1,6 +1,73 @@
 // electron.ts
-import { app, BrowserWindow, Menu } from 'electron';
+import { app, BrowserWindow, dialog, ipcMain, Menu, nativeImage } from 'electron';
 import * as path from 'path';
+import { TerminalAnnouncer } from './electron/discovery/announcer.cjs';
+import { LicenseBridge } from './electron/license/bridge.cjs';
+import { PrinterBridge } from './electron/printing/bridge.cjs';
+import { MonochromeSource } from './electron/printing/escpos.cjs';
+import { ScaleBridge } from './electron/scale/bridge.cjs';
+
+// Decode the receipt logo with Electron's image support and scale it to the paper width
+function loadLogo(logoPath: string, maxWidth: number): MonochromeSource | undefined {
+  let image = nativeImage.createFromPath(logoPath);
+  if (image.isEmpty()) {
+    return undefined;
+  }
+
+  if (image.getSize().width > maxWidth) {
+    image = image.resize({ width: maxWidth });
+  }
+
+  const { width, height } = image.getSize();
+  return { width, height, data: image.toBitmap(), channelOrder: 'bgra' };
+}
+
+function registerPrinterBridge() {
+  const printer = new PrinterBridge(path.join(app.getPath('userData'), 'printer.json'), { loadLogo });
+
+  ipcMain.handle('printer:get-config', () => printer.getConfig());
+  ipcMain.handle('printer:save-config', (_event, config) => printer.saveConfig(config));
+  ipcMain.handle('printer:print-receipt', (_event, receipt, options) => printer.printReceipt(receipt, options));
+  ipcMain.handle('printer:open-drawer', () => printer.openCashDrawer());
+  ipcMain.handle('printer:test-page', () => printer.printTestPage());
+  ipcMain.handle('printer:choose-logo', async (event) => {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    const options = { properties: ['openFile' as const], filters: [{ name: 'Images', extensions: ['png', 'jpg', 'jpeg', 'bmp'] }] };
+    const result = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options);
+    return result.canceled ? null : result.filePaths[0] ?? null;
+  });
+}
+
+function registerScaleBridge() {
+  const scale = new ScaleBridge(path.join(app.getPath('userData'), 'scale.json'));
+
+  ipcMain.handle('scale:get-config', () => scale.getConfig());
+  ipcMain.handle('scale:save-config', (_event, config) => scale.saveConfig(config));
+  ipcMain.handle('scale:read-weight', () => scale.readWeight());
+}
+
+function registerTerminalAnnouncer() {
+  const announcer = new TerminalAnnouncer({
+    udpPort: parseInt(process.env.TERMINAL_DISCOVERY_PORT || '') || undefined,
+  });
+
+  ipcMain.handle('discovery:announce', (_event, identity) => announcer.announce(identity));
+  app.on('before-quit', () => announcer.stop());
+}
+
+function registerLicenseBridge() {
+  const license = new LicenseBridge(path.join(app.getPath('userData'), 'license.json'), app.isPackaged);
+
+  ipcMain.handle('license:get-state', () => license.getState());
+  ipcMain.handle('license:refresh', () => license.refresh());
+  ipcMain.handle('license:activate', (_event, licenseKey) => license.activate(licenseKey));
+  ipcMain.handle('license:install-file', (_event, content) => license.installLicenseFile(content));
+  ipcMain.handle('license:remove-file', () => license.removeLicenseFile());
+
+  // Activates on the first run, then sends a heartbeat every hour
+  license.start();
+  app.on('before-quit', () => license.stop());
+}
 
 function createWindow() {
   const win = new BrowserWindow({
@@ -11,6 +78,9 @@ function createWindow() {
     webPreferences: {
       nodeIntegration: false,
       contextIsolation: true,
+      // Exposes window.posPrinter (ESC/POS receipt printing), window.posScale (weighing),
+      // window.posDiscovery (announcing the till to the branch server) and window.posLicense
+      preload: path.join(__dirname, 'electron', 'preload.cjs'),
       // Enable web security for production
       webSecurity: process.env.NODE_ENV !== 'development',
       // Add Content Security Policy
@@ -127,6 +197,10 @@ function createMenu() {
 
 app.whenReady().then(() => {
   createMenu();
+  registerPrinterBridge();
+  registerScaleBridge();
+  registerTerminalAnnouncer();
+  registerLicenseBridge();
   createWindow();
 
   app.on('activate', () => {
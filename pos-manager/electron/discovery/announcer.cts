@@ -0,0 +1,135 @@
+// Terminal announcer used by the Electron main process
+//
+// Broadcasts this till's identity over UDP so the branch server can list it under
+// discovered terminals, and answers the branch server's discovery queries (sent to the
+// broadcast address or, during a subnet probe, to this machine) straight away.
+
+import * as dgram from 'dgram';
+import * as os from 'os';
+
+export interface TerminalIdentity {
+  terminalId: string;
+  name?: string;
+  port?: number;
+  softwareVersion?: string;
+}
+
+export interface TerminalAnnouncerOptions {
+  udpPort?: number;
+  intervalMs?: number;
+}
+
+export const DEFAULT_DISCOVERY_PORT = 41234;
+const DEFAULT_INTERVAL_MS = 30000;
+const BROADCAST_ADDRESS = '255.255.255.255';
+const ANNOUNCE_TYPE = 'pos_terminal_announce';
+const QUERY_TYPE = 'pos_terminal_discover';
+
+export class TerminalAnnouncer {
+  private socket: dgram.Socket | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private identity: TerminalIdentity | null = null;
+
+  constructor(private readonly options: TerminalAnnouncerOptions = {}) {}
+
+  private get udpPort(): number {
+    return this.options.udpPort ?? DEFAULT_DISCOVERY_PORT;
+  }
+
+  /**
+   * Start announcing, or announce the new identity when the renderer changes it
+   */
+  async announce(identity: TerminalIdentity): Promise<void> {
+    if (!identity || typeof identity.terminalId !== 'string' || !identity.terminalId.trim()) {
+      throw new Error('A terminal ID is required to announce the terminal');
+    }
+    this.identity = identity;
+
+    if (!this.socket) {
+      this.socket = await this.open();
+      this.timer = setInterval(() => this.send(BROADCAST_ADDRESS, this.udpPort), this.options.intervalMs ?? DEFAULT_INTERVAL_MS);
+    }
+    this.send(BROADCAST_ADDRESS, this.udpPort);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.socket) {
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+
+  private async open(): Promise<dgram.Socket> {
+    const bind = (port: number) => new Promise<dgram.Socket>((resolve, reject) => {
+      const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+      socket.once('error', reject);
+      socket.bind(port, () => {
+        socket.off('error', reject);
+        resolve(socket);
+      });
+    });
+
+    let socket: dgram.Socket;
+    try {
+      socket = await bind(this.udpPort);
+    } catch (error) {
+      // Without the discovery port the till still broadcasts, it just cannot answer queries
+      console.warn(`Terminal discovery port ${this.udpPort} is in use:`, error);
+      socket = await bind(0);
+    }
+
+    socket.setBroadcast(true);
+    socket.on('error', error => console.warn('Terminal announcer socket error:', error));
+    socket.on('message', (data, remote) => {
+      try {
+        if (JSON.parse(data.toString('utf8'))?.type === QUERY_TYPE) {
+          this.send(remote.address, remote.port);
+        }
+      } catch {
+        // Not a discovery datagram
+      }
+    });
+    return socket;
+  }
+
+  private send(address: string, port: number): void {
+    if (!this.socket || !this.identity) {
+      return;
+    }
+
+    const message = Buffer.from(JSON.stringify({
+      type: ANNOUNCE_TYPE,
+      terminal_id: this.identity.terminalId,
+      name: this.identity.name,
+      port: this.identity.port,
+      mac_address: macAddress(),
+      software_version: this.identity.softwareVersion,
+      hardware_info: {
+        platform: process.platform,
+        arch: process.arch,
+        hostname: os.hostname(),
+        cpus: os.cpus().length,
+        memory: os.totalmem(),
+      },
+    }));
+
+    this.socket.send(message, port, address, error => {
+      if (error) console.warn('Terminal announcement failed:', error.message);
+    });
+  }
+}
+
+// MAC address of the first external IPv4 interface
+function macAddress(): string | undefined {
+  for (const addresses of Object.values(os.networkInterfaces())) {
+    const external = addresses?.find(address => address.family === 'IPv4' && !address.internal);
+    if (external && external.mac !== '00:00:00:00:00:00') {
+      return external.mac;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,105 @@
+// License bridge used by the Electron main process
+//
+// Runs the shared license client as a pos-manager activation, which the license server
+// counts against the licensed POS terminals. The license key, the cached token, an offline
+// license file and the revocation list are kept in a JSON file under the app's user data folder.
+
+import { LicenseClient, LicenseState, LicenseStore } from '@rockpoint/license-client';
+import { promises as fs } from 'fs';
+
+export interface LicenseResult {
+  success: boolean;
+  state?: LicenseState;
+  error?: string;
+}
+
+// JSON object of setting key to value, written whole on every change
+class JsonFileStore implements LicenseStore {
+  private values: Record<string, string> | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  async read(keys: string[]): Promise<Map<string, string>> {
+    const values = await this.load();
+    return new Map(keys.filter(key => key in values).map(key => [key, values[key]]));
+  }
+
+  async write(entries: Array<[string, string, string]>): Promise<void> {
+    const values = await this.load();
+    for (const [key, value] of entries) {
+      values[key] = value;
+    }
+    await this.save(values);
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    const values = await this.load();
+    keys.forEach(key => delete values[key]);
+    await this.save(values);
+  }
+
+  private async load(): Promise<Record<string, string>> {
+    if (!this.values) {
+      try {
+        this.values = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      } catch {
+        this.values = {};
+      }
+    }
+    return this.values!;
+  }
+
+  private async save(values: Record<string, string>): Promise<void> {
+    await fs.writeFile(this.filePath, JSON.stringify(values, null, 2), 'utf8');
+    this.values = values;
+  }
+}
+
+export class LicenseBridge {
+  private readonly client: LicenseClient;
+
+  // Installed apps always need a license; development builds run unrestricted without a key
+  constructor(storePath: string, requireLicense: boolean) {
+    this.client = new LicenseClient({ appType: 'pos-manager', store: new JsonFileStore(storePath), requireLicense });
+  }
+
+  getState(): Promise<LicenseState> {
+    return this.client.getState();
+  }
+
+  /**
+   * Check the license with the license server now; falls back to the cached license offline
+   */
+  refresh(): Promise<LicenseState> {
+    return this.client.refresh();
+  }
+
+  activate(licenseKey: string): Promise<LicenseResult> {
+    return this.run(() => this.client.activate(licenseKey));
+  }
+
+  installLicenseFile(content: string): Promise<LicenseResult> {
+    return this.run(() => this.client.installLicenseFile(content));
+  }
+
+  removeLicenseFile(): Promise<LicenseResult> {
+    return this.run(() => this.client.removeLicenseFile());
+  }
+
+  start(): void {
+    this.client.start();
+  }
+
+  stop(): void {
+    this.client.stop();
+  }
+
+  // Refusals come back as a result, as IPC would otherwise wrap the message
+  private async run(action: () => Promise<LicenseState>): Promise<LicenseResult> {
+    try {
+      return { success: true, state: await action() };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
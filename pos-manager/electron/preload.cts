@@ -0,0 +1,34 @@
+// Preload script: exposes the receipt printer bridge to the renderer as window.posPrinter,
+// the weighing scale bridge as window.posScale, the terminal announcer as window.posDiscovery
+// and the license client as window.posLicense
+//
+// Runs sandboxed, so it only forwards calls to the main process over IPC.
+
+import { contextBridge, ipcRenderer } from 'electron';
+
+contextBridge.exposeInMainWorld('posPrinter', {
+  getConfig: () => ipcRenderer.invoke('printer:get-config'),
+  saveConfig: (config: unknown) => ipcRenderer.invoke('printer:save-config', config),
+  chooseLogo: () => ipcRenderer.invoke('printer:choose-logo'),
+  printReceipt: (receipt: unknown, options?: { openDrawer?: boolean }) => ipcRenderer.invoke('printer:print-receipt', receipt, options),
+  openCashDrawer: () => ipcRenderer.invoke('printer:open-drawer'),
+  printTestPage: () => ipcRenderer.invoke('printer:test-page'),
+});
+
+contextBridge.exposeInMainWorld('posScale', {
+  getConfig: () => ipcRenderer.invoke('scale:get-config'),
+  saveConfig: (config: unknown) => ipcRenderer.invoke('scale:save-config', config),
+  readWeight: () => ipcRenderer.invoke('scale:read-weight'),
+});
+
+contextBridge.exposeInMainWorld('posDiscovery', {
+  announce: (identity: unknown) => ipcRenderer.invoke('discovery:announce', identity),
+});
+
+contextBridge.exposeInMainWorld('posLicense', {
+  getState: () => ipcRenderer.invoke('license:get-state'),
+  refresh: () => ipcRenderer.invoke('license:refresh'),
+  activate: (licenseKey: string) => ipcRenderer.invoke('license:activate', licenseKey),
+  installLicenseFile: (content: string) => ipcRenderer.invoke('license:install-file', content),
+  removeLicenseFile: () => ipcRenderer.invoke('license:remove-file'),
+});
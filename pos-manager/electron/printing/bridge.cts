@@ -0,0 +1,162 @@
+// Printing bridge used by the Electron main process
+//
+// Keeps the printer settings in a JSON file under the app's user data folder and turns
+// print requests from the renderer into ESC/POS jobs. The transport and logo loader are
+// injectable so the bridge can run against CapturePrinterTransport without hardware.
+
+import { promises as fs } from 'fs';
+import { CutMode, DEFAULT_CODE_PAGE, DOT_WIDTH, EscPosEncoder, MonochromeSource, PaperWidth } from './escpos.cjs';
+import { ReceiptDocument, ReceiptRenderOptions, renderReceipt, renderTestPage } from './receipt.cjs';
+import { PrinterConnection, PrinterTransport, PrinterTransportConfig, createPrinterTransport } from './transports.cjs';
+
+export interface PrinterConfig extends PrinterTransportConfig {
+  enabled: boolean;
+  paperWidth: PaperWidth;
+  codePage: number;
+  cutMode: CutMode;
+  drawerPin: 2 | 5;
+  openDrawerOnCash: boolean;
+  logoPath?: string;
+}
+
+export interface PrintJobResult {
+  success: boolean;
+  bytes?: number;
+  error?: string;
+}
+
+export interface PrinterBridgeOptions {
+  createTransport?: (config: PrinterConfig) => PrinterTransport;
+  /** Decodes the logo file to pixels no wider than `maxWidth` dots */
+  loadLogo?: (logoPath: string, maxWidth: number) => MonochromeSource | undefined;
+}
+
+export const DEFAULT_PRINTER_CONFIG: PrinterConfig = {
+  enabled: false,
+  connection: 'usb',
+  devicePath: process.platform === 'win32' ? '\\\\localhost\\ReceiptPrinter' : '/dev/usb/lp0',
+  baudRate: 9600,
+  port: 9100,
+  paperWidth: 80,
+  codePage: DEFAULT_CODE_PAGE,
+  cutMode: 'partial',
+  drawerPin: 2,
+  openDrawerOnCash: true,
+};
+
+const CONNECTIONS: PrinterConnection[] = ['usb', 'serial', 'network'];
+const CUT_MODES: CutMode[] = ['full', 'partial', 'none'];
+
+export class PrinterBridge {
+  private config: PrinterConfig | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly configPath: string, private readonly options: PrinterBridgeOptions = {}) {}
+
+  async getConfig(): Promise<PrinterConfig> {
+    if (!this.config) {
+      try {
+        const stored = JSON.parse(await fs.readFile(this.configPath, 'utf8'));
+        this.config = normalizeConfig(stored, DEFAULT_PRINTER_CONFIG);
+      } catch {
+        this.config = { ...DEFAULT_PRINTER_CONFIG };
+      }
+    }
+    return { ...this.config };
+  }
+
+  async saveConfig(update: Partial<PrinterConfig>): Promise<PrinterConfig> {
+    const next = normalizeConfig(update, await this.getConfig());
+    await fs.writeFile(this.configPath, JSON.stringify(next, null, 2), 'utf8');
+    this.config = next;
+    return { ...next };
+  }
+
+  /**
+   * Print a sale receipt. The drawer opens when asked to and the settings allow it.
+   */
+  async printReceipt(receipt: ReceiptDocument, options: { openDrawer?: boolean } = {}): Promise<PrintJobResult> {
+    return this.run(config => renderReceipt(receipt, {
+      ...this.renderOptions(config),
+      openDrawer: Boolean(options.openDrawer) && config.openDrawerOnCash,
+    }));
+  }
+
+  async openCashDrawer(): Promise<PrintJobResult> {
+    return this.run(config => new EscPosEncoder(config.paperWidth, config.codePage)
+      .initialize()
+      .openCashDrawer(config.drawerPin)
+      .encode());
+  }
+
+  async printTestPage(): Promise<PrintJobResult> {
+    return this.run(config => renderTestPage(this.renderOptions(config)), true);
+  }
+
+  private renderOptions(config: PrinterConfig): ReceiptRenderOptions {
+    let logo: MonochromeSource | undefined;
+    if (config.logoPath && this.options.loadLogo) {
+      try {
+        logo = this.options.loadLogo(config.logoPath, DOT_WIDTH[config.paperWidth]);
+      } catch (error) {
+        console.warn('Receipt logo could not be loaded:', error);
+      }
+    }
+
+    return {
+      paperWidth: config.paperWidth,
+      codePage: config.codePage,
+      cutMode: config.cutMode,
+      drawerPin: config.drawerPin,
+      logo,
+    };
+  }
+
+  // Jobs are sent one at a time so two receipts never interleave on the same printer
+  private run(render: (config: PrinterConfig) => Buffer, ignoreEnabled = false): Promise<PrintJobResult> {
+    const job = this.queue.then(async (): Promise<PrintJobResult> => {
+      const config = await this.getConfig();
+      if (!config.enabled && !ignoreEnabled) {
+        return { success: false, error: 'Receipt printer is not enabled' };
+      }
+
+      try {
+        const data = render(config);
+        const transport = this.options.createTransport
+          ? this.options.createTransport(config)
+          : createPrinterTransport(config);
+        await transport.write(data);
+        return { success: true, bytes: data.length };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    this.queue = job;
+    return job;
+  }
+}
+
+// Settings come from the renderer, so only known fields with valid values are kept
+function normalizeConfig(input: Partial<PrinterConfig>, base: PrinterConfig): PrinterConfig {
+  const config: PrinterConfig = { ...base };
+  if (!input || typeof input !== 'object') {
+    return config;
+  }
+
+  if (typeof input.enabled === 'boolean') config.enabled = input.enabled;
+  if (CONNECTIONS.includes(input.connection as PrinterConnection)) config.connection = input.connection as PrinterConnection;
+  if (typeof input.devicePath === 'string') config.devicePath = input.devicePath.trim();
+  if (typeof input.host === 'string') config.host = input.host.trim();
+  if (Number.isInteger(input.port) && input.port! > 0 && input.port! < 65536) config.port = input.port;
+  if (Number.isInteger(input.baudRate) && input.baudRate! > 0) config.baudRate = input.baudRate;
+  if (Number.isInteger(input.timeoutMs) && input.timeoutMs! > 0) config.timeoutMs = input.timeoutMs;
+  if (input.paperWidth === 58 || input.paperWidth === 80) config.paperWidth = input.paperWidth;
+  if (Number.isInteger(input.codePage) && input.codePage! >= 0 && input.codePage! <= 255) config.codePage = input.codePage!;
+  if (CUT_MODES.includes(input.cutMode as CutMode)) config.cutMode = input.cutMode as CutMode;
+  if (input.drawerPin === 2 || input.drawerPin === 5) config.drawerPin = input.drawerPin;
+  if (typeof input.openDrawerOnCash === 'boolean') config.openDrawerOnCash = input.openDrawerOnCash;
+  if (typeof input.logoPath === 'string') config.logoPath = input.logoPath.trim() || undefined;
+
+  return config;
+}
@@ -0,0 +1,338 @@
+// ESC/POS command encoder for 58mm and 80mm thermal receipt printers
+//
+// Builds the raw byte stream sent to the printer. Text is encoded to the printer's
+// code page (PC866 by default, which covers Russian and Uzbek Cyrillic), images are
+// sent as monochrome raster graphics and QR codes / barcodes use the printer's own
+// symbol generators so they stay sharp at any paper width.
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export type PaperWidth = 58 | 80;
+export type Alignment = 'left' | 'center' | 'right';
+export type CutMode = 'full' | 'partial' | 'none';
+export type BarcodeType = 'CODE128' | 'EAN13';
+
+export interface MonochromeSource {
+  width: number;
+  height: number;
+  /** 4 bytes per pixel; `channelOrder` says which byte is which */
+  data: Uint8Array;
+  channelOrder?: 'rgba' | 'bgra';
+}
+
+/** Characters per line in font A */
+export const LINE_WIDTH: Record<PaperWidth, number> = { 58: 32, 80: 48 };
+
+/** Printable dots per line at 203 dpi */
+export const DOT_WIDTH: Record<PaperWidth, number> = { 58: 384, 80: 576 };
+
+/** ESC t value of PC866 on Epson-compatible printers */
+export const DEFAULT_CODE_PAGE = 17;
+
+const ALIGNMENT_CODES: Record<Alignment, number> = { left: 0, center: 1, right: 2 };
+
+// Letters PC866 does not have are printed as their closest Russian counterpart
+const CHARACTER_FALLBACKS: Record<string, string> = {
+  'Қ': 'К', 'қ': 'к',
+  'Ғ': 'Г', 'ғ': 'г',
+  'Ҳ': 'Х', 'ҳ': 'х',
+  'ʻ': "'", 'ʼ': "'", '‘': "'", '’': "'", '`': "'",
+  '“': '"', '”': '"', '«': '"', '»': '"',
+  '–': '-', '—': '-', '…': '...',
+};
+
+/**
+ * Encode text to PC866. Unsupported characters become '?'.
+ */
+export function encodePC866(text: string): number[] {
+  const bytes: number[] = [];
+
+  for (const char of text) {
+    const fallback = CHARACTER_FALLBACKS[char];
+    if (fallback) {
+      bytes.push(...encodePC866(fallback));
+      continue;
+    }
+
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code >= 0x0410 && code <= 0x043f) {
+      bytes.push(code - 0x0410 + 0x80); // А..п
+    } else if (code >= 0x0440 && code <= 0x044f) {
+      bytes.push(code - 0x0440 + 0xe0); // р..я
+    } else if (code === 0x0401) {
+      bytes.push(0xf0); // Ё
+    } else if (code === 0x0451) {
+      bytes.push(0xf1); // ё
+    } else if (code === 0x040e) {
+      bytes.push(0xf6); // Ў
+    } else if (code === 0x045e) {
+      bytes.push(0xf7); // ў
+    } else if (code === 0x2116) {
+      bytes.push(0xfc); // №
+    } else {
+      bytes.push(0x3f);
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Fluent builder for an ESC/POS byte stream
+ */
+export class EscPosEncoder {
+  private bytes: number[] = [];
+  private charWidth = 1;
+
+  constructor(private readonly paperWidth: PaperWidth = 80, private readonly codePage = DEFAULT_CODE_PAGE) {}
+
+  /** Characters per line at the current character width */
+  get lineWidth(): number {
+    return Math.floor(LINE_WIDTH[this.paperWidth] / this.charWidth);
+  }
+
+  get dotWidth(): number {
+    return DOT_WIDTH[this.paperWidth];
+  }
+
+  /** Reset the printer and select the code page */
+  initialize(): this {
+    this.charWidth = 1;
+    return this.raw([ESC, 0x40, ESC, 0x74, this.codePage]);
+  }
+
+  raw(bytes: ArrayLike<number>): this {
+    for (let i = 0; i < bytes.length; i++) {
+      this.bytes.push(bytes[i] & 0xff);
+    }
+    return this;
+  }
+
+  text(value: string): this {
+    return this.raw(encodePC866(value));
+  }
+
+  line(value = ''): this {
+    return this.text(value).raw([LF]);
+  }
+
+  feed(lines = 1): this {
+    return this.raw([ESC, 0x64, Math.max(0, Math.min(255, lines))]);
+  }
+
+  align(alignment: Alignment): this {
+    return this.raw([ESC, 0x61, ALIGNMENT_CODES[alignment]]);
+  }
+
+  bold(enabled: boolean): this {
+    return this.raw([ESC, 0x45, enabled ? 1 : 0]);
+  }
+
+  /** Character magnification, 1-8 in each direction */
+  size(width = 1, height = 1): this {
+    const w = Math.max(1, Math.min(8, width)) - 1;
+    const h = Math.max(1, Math.min(8, height)) - 1;
+    this.charWidth = w + 1;
+    return this.raw([GS, 0x21, (w << 4) | h]);
+  }
+
+  /** Full-width rule made of the given character */
+  rule(char = '-'): this {
+    return this.line(char.repeat(this.lineWidth));
+  }
+
+  /** Left and right text on one line; the left side is wrapped when both do not fit */
+  columns(left: string, right: string, width = this.lineWidth): this {
+    const available = width - right.length - 1;
+    if (available <= 0) {
+      return this.line(left).line(right.padStart(width));
+    }
+    if (left.length <= available) {
+      return this.line(left.padEnd(width - right.length) + right);
+    }
+
+    const leftLines = wrapText(left, available);
+    leftLines.slice(0, -1).forEach(part => this.line(part));
+    const last = leftLines[leftLines.length - 1] ?? '';
+    return this.line(last.padEnd(width - right.length) + right);
+  }
+
+  /** Text wrapped on word boundaries to the line width */
+  wrapped(value: string): this {
+    wrapText(value, this.lineWidth).forEach(part => this.line(part));
+    return this;
+  }
+
+  /**
+   * QR code via GS ( k (model 2). `moduleSize` is the dot size of one QR module (1-16).
+   */
+  qrCode(data: string, moduleSize = 6, errorCorrection: 'L' | 'M' | 'Q' | 'H' = 'M'): this {
+    const payload = Array.from(Buffer.from(data, 'utf8'));
+    const storeLength = payload.length + 3;
+    const levels = { L: 48, M: 49, Q: 50, H: 51 };
+
+    return this
+      .raw([GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00])
+      .raw([GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, Math.max(1, Math.min(16, moduleSize))])
+      .raw([GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, levels[errorCorrection]])
+      .raw([GS, 0x28, 0x6b, storeLength & 0xff, (storeLength >> 8) & 0xff, 0x31, 0x50, 0x30])
+      .raw(payload)
+      .raw([GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30])
+      .raw([LF]);
+  }
+
+  /**
+   * Barcode via GS k with the human readable text below it. CODE128 data is sent in
+   * code set B; EAN13 takes 12 digits (the printer adds the check digit) or 13.
+   */
+  barcode(data: string, type: BarcodeType = 'CODE128', height = 80): this {
+    const moduleWidth = barcodeModuleWidth(data, type, this.dotWidth);
+    if (moduleWidth === 0) {
+      throw new Error(`Barcode "${data}" does not fit on ${this.paperWidth}mm paper`);
+    }
+
+    let symbol: number;
+    let payload: number[];
+    if (type === 'EAN13') {
+      if (!/^\d{12,13}$/.test(data)) {
+        throw new Error('EAN13 barcodes need 12 or 13 digits');
+      }
+      symbol = 67;
+      payload = Array.from(Buffer.from(data.slice(0, 12), 'ascii'));
+    } else {
+      if (!/^[\x20-\x7e]+$/.test(data)) {
+        throw new Error('CODE128 barcodes take printable ASCII only');
+      }
+      symbol = 73;
+      payload = [0x7b, 0x42, ...Buffer.from(data.replace(/\{/g, '{{'), 'ascii')];
+    }
+
+    return this
+      .raw([GS, 0x68, Math.max(1, Math.min(255, height))])
+      .raw([GS, 0x77, moduleWidth])
+      .raw([GS, 0x48, 0x02])
+      .raw([GS, 0x66, 0x00])
+      .raw([GS, 0x6b, symbol, payload.length])
+      .raw(payload)
+      .raw([LF]);
+  }
+
+  /**
+   * Raster image via GS v 0, thresholded to black and white and scaled down to the
+   * paper width when wider. Sent in bands so printers with small buffers keep up.
+   */
+  image(source: MonochromeSource, threshold = 128): this {
+    const { width, height, rows } = toMonochromeRows(source, this.dotWidth, threshold);
+    const bytesPerRow = Math.ceil(width / 8);
+    const bandHeight = 128;
+
+    for (let top = 0; top < height; top += bandHeight) {
+      const band = rows.slice(top, top + bandHeight);
+      this.raw([GS, 0x76, 0x30, 0x00, bytesPerRow & 0xff, (bytesPerRow >> 8) & 0xff, band.length & 0xff, (band.length >> 8) & 0xff]);
+      band.forEach(row => this.raw(row));
+    }
+
+    return this;
+  }
+
+  /** Feed past the tear bar and cut */
+  cut(mode: CutMode = 'partial', feedLines = 4): this {
+    if (mode === 'none') {
+      return this.feed(feedLines);
+    }
+    return this.raw([GS, 0x56, mode === 'full' ? 0x41 : 0x42, Math.max(0, Math.min(255, feedLines))]);
+  }
+
+  /** Pulse the cash drawer kick-out connector (pin 2 or pin 5) */
+  openCashDrawer(pin: 2 | 5 = 2): this {
+    return this.raw([ESC, 0x70, pin === 2 ? 0x00 : 0x01, 0x19, 0xfa]);
+  }
+
+  encode(): Buffer {
+    return Buffer.from(this.bytes);
+  }
+}
+
+/**
+ * Split text into lines of at most `width` characters, breaking on spaces where possible
+ */
+export function wrapText(value: string, width: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of value.split('\n')) {
+    let current = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      let rest = word;
+      while (rest.length > width) {
+        if (current) {
+          lines.push(current);
+          current = '';
+        }
+        lines.push(rest.slice(0, width));
+        rest = rest.slice(width);
+      }
+      if (!current) {
+        current = rest;
+      } else if (current.length + 1 + rest.length <= width) {
+        current = `${current} ${rest}`;
+      } else {
+        lines.push(current);
+        current = rest;
+      }
+    }
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+/**
+ * Widest module (2-4 dots) at which the barcode fits the paper, or 0 when it does not fit at all
+ */
+export function barcodeModuleWidth(data: string, type: BarcodeType, dotWidth: number): number {
+  // EAN13 is always 95 modules; CODE128 set B is 11 per character plus start, check and stop
+  const modules = type === 'EAN13' ? 95 : 11 * (data.length + 3) + 2;
+  for (let width = 4; width >= 2; width--) {
+    if (modules * width <= dotWidth) {
+      return width;
+    }
+  }
+  return modules <= dotWidth ? 1 : 0;
+}
+
+function toMonochromeRows(source: MonochromeSource, maxWidth: number, threshold: number) {
+  const scale = source.width > maxWidth ? maxWidth / source.width : 1;
+  const width = Math.max(1, Math.floor(source.width * scale));
+  const height = Math.max(1, Math.floor(source.height * scale));
+  const [red, blue] = source.channelOrder === 'bgra' ? [2, 0] : [0, 2];
+  const bytesPerRow = Math.ceil(width / 8);
+  const rows: number[][] = [];
+
+  for (let y = 0; y < height; y++) {
+    const row = new Array<number>(bytesPerRow).fill(0);
+    const sourceY = Math.min(source.height - 1, Math.floor(y / scale));
+
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(source.width - 1, Math.floor(x / scale));
+      const offset = (sourceY * source.width + sourceX) * 4;
+      const alpha = source.data[offset + 3] / 255;
+      // Transparent pixels count as paper (white)
+      const luminance = 255 - alpha * (255 - (
+        0.299 * source.data[offset + red] +
+        0.587 * source.data[offset + 1] +
+        0.114 * source.data[offset + blue]
+      ));
+
+      if (luminance < threshold) {
+        row[x >> 3] |= 0x80 >> (x & 7);
+      }
+    }
+    rows.push(row);
+  }
+
+  return { width, height, rows };
+}
@@ -0,0 +1,149 @@
+// Lays out a sale receipt as ESC/POS
+//
+// The renderer sends the receipt already worded (labels, item names, payment method
+// names); this module only decides how it sits on the paper.
+
+import { BarcodeType, CutMode, EscPosEncoder, MonochromeSource, PaperWidth, barcodeModuleWidth } from './escpos.cjs';
+
+export interface ReceiptLine {
+  label: string;
+  amount: number;
+  emphasis?: boolean;
+}
+
+export interface ReceiptDocument {
+  storeName: string;
+  title?: string;
+  headerLines: string[];
+  items: Array<{
+    name: string;
+    quantity: number;
+    unitPrice: number;
+    total: number;
+    barcode?: string;
+  }>;
+  totals: ReceiptLine[];
+  paymentsTitle?: string;
+  payments: ReceiptLine[];
+  change?: ReceiptLine;
+  footerLines: string[];
+  /** Payme / fiscal receipt URL printed as a QR code */
+  qr?: { data: string; caption?: string };
+  barcode?: { data: string; type?: BarcodeType };
+  currencySymbol?: string;
+}
+
+export interface ReceiptRenderOptions {
+  paperWidth: PaperWidth;
+  codePage?: number;
+  logo?: MonochromeSource;
+  cutMode?: CutMode;
+  openDrawer?: boolean;
+  drawerPin?: 2 | 5;
+}
+
+export function renderReceipt(receipt: ReceiptDocument, options: ReceiptRenderOptions): Buffer {
+  const encoder = new EscPosEncoder(options.paperWidth, options.codePage);
+  const money = (amount: number) => `${receipt.currencySymbol ?? ''}${amount.toFixed(2)}`;
+
+  encoder.initialize();
+
+  // Kick the drawer first so it opens while the receipt is still printing
+  if (options.openDrawer) {
+    encoder.openCashDrawer(options.drawerPin);
+  }
+
+  encoder.align('center');
+  if (options.logo) {
+    encoder.image(options.logo).feed(1);
+  }
+
+  encoder.bold(true).size(2, 2).wrapped(receipt.storeName).size(1, 1).bold(false);
+  if (receipt.title) {
+    encoder.line(receipt.title);
+  }
+  receipt.headerLines.forEach(line => encoder.wrapped(line));
+
+  encoder.align('left').rule('=');
+
+  for (const item of receipt.items) {
+    encoder.bold(true).wrapped(item.name).bold(false);
+    const detail = `  ${formatQuantity(item.quantity)} x ${money(item.unitPrice)}${item.barcode ? ` [${item.barcode}]` : ''}`;
+    encoder.columns(detail, money(item.total));
+  }
+
+  encoder.rule('=');
+
+  for (const total of receipt.totals) {
+    if (total.emphasis) {
+      encoder.rule('-').bold(true).size(1, 2).columns(total.label, money(total.amount)).size(1, 1).bold(false);
+    } else {
+      encoder.columns(total.label, money(total.amount));
+    }
+  }
+
+  if (receipt.payments.length > 0) {
+    encoder.rule('=');
+    if (receipt.paymentsTitle) {
+      encoder.bold(true).line(receipt.paymentsTitle).bold(false);
+    }
+    receipt.payments.forEach(payment => encoder.columns(payment.label, money(payment.amount)));
+  }
+
+  if (receipt.change && receipt.change.amount > 0) {
+    encoder.rule('-').bold(true).columns(receipt.change.label, money(receipt.change.amount)).bold(false);
+  }
+
+  encoder.rule('=').align('center');
+  receipt.footerLines.forEach(line => encoder.wrapped(line));
+
+  if (receipt.qr) {
+    encoder.feed(1).qrCode(receipt.qr.data, options.paperWidth === 58 ? 5 : 6);
+    if (receipt.qr.caption) {
+      encoder.wrapped(receipt.qr.caption);
+    }
+  }
+
+  // A long barcode that does not fit narrow paper is left out; the ID is in the header anyway
+  if (receipt.barcode) {
+    const type = receipt.barcode.type ?? 'CODE128';
+    if (barcodeModuleWidth(receipt.barcode.data, type, encoder.dotWidth) > 0) {
+      encoder.feed(1).barcode(receipt.barcode.data, type, 60);
+    }
+  }
+
+  encoder.align('left').cut(options.cutMode ?? 'partial');
+
+  return encoder.encode();
+}
+
+/**
+ * Short test page: alignment, code page, QR code, barcode and cut
+ */
+export function renderTestPage(options: ReceiptRenderOptions): Buffer {
+  const encoder = new EscPosEncoder(options.paperWidth, options.codePage);
+
+  encoder.initialize().align('center');
+  if (options.logo) {
+    encoder.image(options.logo).feed(1);
+  }
+
+  return encoder
+    .bold(true).size(2, 2).line('TEST').size(1, 1).bold(false)
+    .line(`${options.paperWidth}mm / ${encoder.lineWidth} chars`)
+    .rule('-')
+    .align('left').line('ABCDEFGHIJKLMNOPQRSTUVWXYZ 0123456789')
+    .line('АБВГДЕЁЖЗИЙКЛМНОПРСТУФХЦЧШЩЪЫЬЭЮЯ')
+    .line("Oʻzbekiston, Ўзбекистон, Қўқон")
+    .columns('Left', 'Right')
+    .align('center').feed(1)
+    .qrCode('https://rockpoint.uz', options.paperWidth === 58 ? 5 : 6)
+    .barcode('RP-TEST-01', 'CODE128', 60)
+    .align('left')
+    .cut(options.cutMode ?? 'partial')
+    .encode();
+}
+
+function formatQuantity(quantity: number): string {
+  return Number.isInteger(quantity) ? String(quantity) : quantity.toFixed(3).replace(/0+$/, '');
+}
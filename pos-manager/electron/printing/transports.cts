@@ -0,0 +1,149 @@
+// Printer connections for the ESC/POS bridge
+//
+// USB printers are written through their device file (/dev/usb/lp0 on Linux, a shared
+// printer path such as \\localhost\Receipt on Windows), serial printers through their
+// port after setting the baud rate, and network printers over raw TCP (port 9100).
+// CapturePrinterTransport keeps the bytes in memory instead of printing them.
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import * as net from 'net';
+
+export type PrinterConnection = 'usb' | 'serial' | 'network';
+
+export interface PrinterTransportConfig {
+  connection: PrinterConnection;
+  devicePath?: string;
+  baudRate?: number;
+  host?: string;
+  port?: number;
+  timeoutMs?: number;
+}
+
+export interface PrinterTransport {
+  write(data: Buffer): Promise<void>;
+}
+
+const DEFAULT_NETWORK_PORT = 9100;
+const DEFAULT_TIMEOUT_MS = 5000;
+
+/**
+ * Writes to a printer exposed as a file: USB printer device or Windows printer share
+ */
+export class DevicePrinterTransport implements PrinterTransport {
+  constructor(private readonly devicePath: string) {}
+
+  async write(data: Buffer): Promise<void> {
+    // Append mode so character devices are never truncated or created by mistake
+    await fs.writeFile(this.devicePath, data, { flag: 'a' });
+  }
+}
+
+/**
+ * Writes to a serial port after configuring 8N1 at the given baud rate
+ */
+export class SerialPrinterTransport implements PrinterTransport {
+  constructor(private readonly portPath: string, private readonly baudRate = 9600) {}
+
+  async write(data: Buffer): Promise<void> {
+    await this.configurePort();
+    const devicePath = process.platform === 'win32' && /^COM\d+$/i.test(this.portPath)
+      ? `\\\\.\\${this.portPath}`
+      : this.portPath;
+    await fs.writeFile(devicePath, data, { flag: 'a' });
+  }
+
+  private configurePort(): Promise<void> {
+    const [command, args] = process.platform === 'win32'
+      ? ['mode', [`${this.portPath}:`, `BAUD=${this.baudRate}`, 'PARITY=N', 'DATA=8', 'STOP=1']]
+      : ['stty', [process.platform === 'darwin' ? '-f' : '-F', this.portPath, String(this.baudRate), 'raw', '-echo', 'cs8', '-cstopb', '-parenb']];
+
+    return new Promise((resolve, reject) => {
+      execFile(command, args, { timeout: DEFAULT_TIMEOUT_MS, shell: process.platform === 'win32' }, (error) => {
+        if (error) {
+          reject(new Error(`Could not configure serial port ${this.portPath}: ${error.message}`));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Sends the stream over a raw TCP socket (JetDirect / port 9100)
+ */
+export class NetworkPrinterTransport implements PrinterTransport {
+  constructor(
+    private readonly host: string,
+    private readonly port = DEFAULT_NETWORK_PORT,
+    private readonly timeoutMs = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  write(data: Buffer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      socket.setTimeout(this.timeoutMs);
+
+      socket.once('connect', () => {
+        socket.end(data);
+      });
+      socket.once('timeout', () => {
+        socket.destroy(new Error(`Printer ${this.host}:${this.port} did not respond within ${this.timeoutMs}ms`));
+      });
+      socket.once('error', reject);
+      socket.once('close', (hadError) => {
+        if (!hadError) {
+          resolve();
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Stand-in printer that records every byte written to it
+ */
+export class CapturePrinterTransport implements PrinterTransport {
+  private chunks: Buffer[] = [];
+
+  async write(data: Buffer): Promise<void> {
+    this.chunks.push(Buffer.from(data));
+  }
+
+  /** Everything written so far as one stream */
+  bytes(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+
+  /** One buffer per print job */
+  jobs(): Buffer[] {
+    return [...this.chunks];
+  }
+
+  clear(): void {
+    this.chunks = [];
+  }
+}
+
+export function createPrinterTransport(config: PrinterTransportConfig): PrinterTransport {
+  switch (config.connection) {
+    case 'usb':
+      if (!config.devicePath) {
+        throw new Error('USB printer needs a device path');
+      }
+      return new DevicePrinterTransport(config.devicePath);
+    case 'serial':
+      if (!config.devicePath) {
+        throw new Error('Serial printer needs a port');
+      }
+      return new SerialPrinterTransport(config.devicePath, config.baudRate);
+    case 'network':
+      if (!config.host) {
+        throw new Error('Network printer needs a host');
+      }
+      return new NetworkPrinterTransport(config.host, config.port, config.timeoutMs);
+    default:
+      throw new Error(`Unknown printer connection: ${String(config.connection)}`);
+  }
+}
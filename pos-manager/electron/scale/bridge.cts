@@ -0,0 +1,122 @@
+// Weighing bridge used by the Electron main process
+//
+// Keeps the scale settings in a JSON file under the app's user data folder and reads
+// weights for the renderer. Without a scale attached the bridge runs in simulated mode,
+// where the weight typed in the scale settings is what the checkout reads.
+
+import { promises as fs } from 'fs';
+import { ScaleCommand, ScaleConnection, ScaleTransport, ScaleTransportConfig, createScaleTransport } from './transports.cjs';
+
+export interface ScaleConfig extends ScaleTransportConfig {
+  enabled: boolean;
+  // Keep reading until the scale reports a stable weight, up to timeoutMs
+  requireStable: boolean;
+}
+
+export interface WeightResult {
+  success: boolean;
+  weight?: number; // Kilograms
+  stable?: boolean;
+  error?: string;
+}
+
+export interface ScaleBridgeOptions {
+  createTransport?: (config: ScaleConfig) => ScaleTransport;
+}
+
+export const DEFAULT_SCALE_CONFIG: ScaleConfig = {
+  enabled: false,
+  connection: 'simulated',
+  devicePath: process.platform === 'win32' ? 'COM1' : '/dev/ttyUSB0',
+  baudRate: 9600,
+  command: 'enq',
+  timeoutMs: 2000,
+  simulatedWeight: 0,
+  requireStable: true,
+};
+
+const CONNECTIONS: ScaleConnection[] = ['serial', 'simulated'];
+const COMMANDS: ScaleCommand[] = ['enq', 'w', 'none'];
+const MAX_WEIGHT_KG = 1000;
+
+export class ScaleBridge {
+  private config: ScaleConfig | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly configPath: string, private readonly options: ScaleBridgeOptions = {}) {}
+
+  async getConfig(): Promise<ScaleConfig> {
+    if (!this.config) {
+      try {
+        const stored = JSON.parse(await fs.readFile(this.configPath, 'utf8'));
+        this.config = normalizeConfig(stored, DEFAULT_SCALE_CONFIG);
+      } catch {
+        this.config = { ...DEFAULT_SCALE_CONFIG };
+      }
+    }
+    return { ...this.config };
+  }
+
+  async saveConfig(update: Partial<ScaleConfig>): Promise<ScaleConfig> {
+    const next = normalizeConfig(update, await this.getConfig());
+    await fs.writeFile(this.configPath, JSON.stringify(next, null, 2), 'utf8');
+    this.config = next;
+    return { ...next };
+  }
+
+  /**
+   * Read the weight on the platter in kilograms
+   */
+  async readWeight(): Promise<WeightResult> {
+    // Reads are sent one at a time so two requests never share the serial port
+    const job = this.queue.then(async (): Promise<WeightResult> => {
+      const config = await this.getConfig();
+      if (!config.enabled) {
+        return { success: false, error: 'Scale is not enabled' };
+      }
+
+      try {
+        const transport = this.options.createTransport
+          ? this.options.createTransport(config)
+          : createScaleTransport(config);
+
+        const deadline = Date.now() + (config.timeoutMs ?? DEFAULT_SCALE_CONFIG.timeoutMs!);
+        let reading = await transport.read();
+        while (config.requireStable && !reading.stable && Date.now() < deadline) {
+          reading = await transport.read();
+        }
+
+        if (config.requireStable && !reading.stable) {
+          return { success: false, weight: reading.weight, stable: false, error: 'Weight did not settle' };
+        }
+        return { success: true, weight: reading.weight, stable: reading.stable };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    this.queue = job;
+    return job;
+  }
+}
+
+// Settings come from the renderer, so only known fields with valid values are kept
+function normalizeConfig(input: Partial<ScaleConfig>, base: ScaleConfig): ScaleConfig {
+  const config: ScaleConfig = { ...base };
+  if (!input || typeof input !== 'object') {
+    return config;
+  }
+
+  if (typeof input.enabled === 'boolean') config.enabled = input.enabled;
+  if (CONNECTIONS.includes(input.connection as ScaleConnection)) config.connection = input.connection as ScaleConnection;
+  if (typeof input.devicePath === 'string') config.devicePath = input.devicePath.trim();
+  if (Number.isInteger(input.baudRate) && input.baudRate! > 0) config.baudRate = input.baudRate;
+  if (COMMANDS.includes(input.command as ScaleCommand)) config.command = input.command as ScaleCommand;
+  if (Number.isInteger(input.timeoutMs) && input.timeoutMs! > 0) config.timeoutMs = input.timeoutMs;
+  if (typeof input.simulatedWeight === 'number' && input.simulatedWeight >= 0 && input.simulatedWeight <= MAX_WEIGHT_KG) {
+    config.simulatedWeight = Math.round(input.simulatedWeight * 1000) / 1000;
+  }
+  if (typeof input.requireStable === 'boolean') config.requireStable = input.requireStable;
+
+  return config;
+}
@@ -0,0 +1,154 @@
+// Scale connections for the weighing bridge
+//
+// Serial scales are asked for a reading with a one-byte or one-line command and answer
+// with a short ASCII frame such as "ST,GS,  0.455kg"; scales set to continuous output
+// send that frame on their own. SimulatedScaleTransport stands in for a scale that is
+// not connected and answers with a weight typed in the scale settings.
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+
+export type ScaleConnection = 'serial' | 'simulated';
+export type ScaleCommand = 'enq' | 'w' | 'none';
+
+export interface ScaleTransportConfig {
+  connection: ScaleConnection;
+  devicePath?: string;
+  baudRate?: number;
+  command?: ScaleCommand;
+  timeoutMs?: number;
+  simulatedWeight?: number;
+}
+
+export interface ScaleReading {
+  weight: number; // Kilograms
+  stable: boolean;
+}
+
+export interface ScaleTransport {
+  read(): Promise<ScaleReading>;
+}
+
+const DEFAULT_TIMEOUT_MS = 2000;
+
+const COMMAND_BYTES: Record<ScaleCommand, Buffer | null> = {
+  enq: Buffer.from([0x05]), // CAS, Massa-K and most POS scales
+  w: Buffer.from('W\r', 'ascii'), // NCI / Toledo-compatible scales
+  none: null, // Continuous output
+};
+
+/**
+ * Read a weight out of a scale frame. Grams and pounds are converted to kilograms;
+ * "US" (unstable) or "M" (motion) in the frame marks the reading as unstable.
+ */
+export function parseScaleFrame(frame: string): ScaleReading | null {
+  const text = frame.replace(/[\x00-\x1f]/g, ' ');
+  const match = text.match(/([-+]?\s*\d+(?:[.,]\d+)?)\s*(kg|g|lb)?/i);
+  if (!match) {
+    return null;
+  }
+
+  const value = parseFloat(match[1].replace(/\s/g, '').replace(',', '.'));
+  if (!Number.isFinite(value)) {
+    return null;
+  }
+
+  const unit = (match[2] || 'kg').toLowerCase();
+  const kilograms = unit === 'g' ? value / 1000 : unit === 'lb' ? value * 0.45359237 : value;
+
+  return {
+    weight: Math.round(kilograms * 1000) / 1000,
+    stable: !/\bUS\b|\bM\b/i.test(text),
+  };
+}
+
+/**
+ * Asks a serial scale for a reading and waits for one complete frame
+ */
+export class SerialScaleTransport implements ScaleTransport {
+  constructor(
+    private readonly portPath: string,
+    private readonly baudRate = 9600,
+    private readonly command: ScaleCommand = 'enq',
+    private readonly timeoutMs = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  async read(): Promise<ScaleReading> {
+    await this.configurePort();
+    const devicePath = process.platform === 'win32' && /^COM\d+$/i.test(this.portPath)
+      ? `\\\\.\\${this.portPath}`
+      : this.portPath;
+
+    const handle = await fs.open(devicePath, 'r+');
+    try {
+      const request = COMMAND_BYTES[this.command];
+      if (request) {
+        await handle.write(request);
+      }
+
+      const deadline = Date.now() + this.timeoutMs;
+      const buffer = Buffer.alloc(64);
+      let frame = '';
+
+      while (Date.now() < deadline) {
+        // Reads return empty after the port's inter-byte timeout, so the deadline is checked regularly
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, null);
+        frame += buffer.subarray(0, bytesRead).toString('ascii');
+
+        // A frame ends with CR/LF or ETX; continuous scales may start mid-frame, so use the last full one
+        const frames = frame.split(/[\r\n\x03]+/).filter(part => part.trim());
+        const complete = /[\r\n\x03]$/.test(frame) ? frames : frames.slice(0, -1);
+        const reading = complete.length > 0 ? parseScaleFrame(complete[complete.length - 1]) : null;
+        if (reading) {
+          return reading;
+        }
+      }
+
+      throw new Error(`Scale on ${this.portPath} did not answer within ${this.timeoutMs}ms`);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private configurePort(): Promise<void> {
+    // min 0 time 2: a read returns after 0.2s without data instead of blocking
+    const [command, args] = process.platform === 'win32'
+      ? ['mode', [`${this.portPath}:`, `BAUD=${this.baudRate}`, 'PARITY=N', 'DATA=8', 'STOP=1', 'TO=ON']]
+      : ['stty', [process.platform === 'darwin' ? '-f' : '-F', this.portPath, String(this.baudRate), 'raw', '-echo', 'cs8', '-cstopb', '-parenb', 'min', '0', 'time', '2']];
+
+    return new Promise((resolve, reject) => {
+      execFile(command, args, { timeout: DEFAULT_TIMEOUT_MS, shell: process.platform === 'win32' }, (error) => {
+        if (error) {
+          reject(new Error(`Could not configure serial port ${this.portPath}: ${error.message}`));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Stand-in scale that always reports the weight it was given
+ */
+export class SimulatedScaleTransport implements ScaleTransport {
+  constructor(private readonly weight = 0) {}
+
+  async read(): Promise<ScaleReading> {
+    return { weight: this.weight, stable: true };
+  }
+}
+
+export function createScaleTransport(config: ScaleTransportConfig): ScaleTransport {
+  switch (config.connection) {
+    case 'serial':
+      if (!config.devicePath) {
+        throw new Error('Serial scale needs a port');
+      }
+      return new SerialScaleTransport(config.devicePath, config.baudRate, config.command, config.timeoutMs);
+    case 'simulated':
+      return new SimulatedScaleTransport(config.simulatedWeight);
+    default:
+      throw new Error(`Unknown scale connection: ${String(config.connection)}`);
+  }
+}
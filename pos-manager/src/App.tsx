@@ -9,10 +9,13 @@ import CheckoutPage from './pages/CheckoutPage';
 import DashboardPage from './pages/DashboardPage';
 import EmployeesPage from './pages/EmployeesPage';
 import InventoryPage from './pages/InventoryPage';
+import LicenseSettingsPage from './pages/LicenseSettingsPage';
 import LoginPage from './pages/LoginPage';
 import NetworkSettingsPage from './pages/NetworkSettingsPage';
 import PaymentMethodsSettingsPage from './pages/PaymentMethodsSettingsPage';
 import POSTerminalManagementPage from './pages/POSTerminalManagementPage';
+import PrinterSettingsPage from './pages/PrinterSettingsPage';
+import ScaleSettingsPage from './pages/ScaleSettingsPage';
 import SettingsPage from './pages/SettingsPage';
 import NetworkService from './services/networkService';
 import { theme } from './theme';
@@ -86,6 +89,30 @@ function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/settings/printer"
+              element={
+                <ProtectedRoute requiredRoles={['admin']}>
+                  <PrinterSettingsPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/settings/scale"
+              element={
+                <ProtectedRoute requiredRoles={['admin']}>
+                  <ScaleSettingsPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/settings/license"
+              element={
+                <ProtectedRoute requiredRoles={['admin']}>
+                  <LicenseSettingsPage />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/api-keys"
               element={
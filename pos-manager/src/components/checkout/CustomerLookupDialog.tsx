@@ -0,0 +1,128 @@
+import {
+  CreditCard,
+  Phone,
+  Search,
+} from '@mui/icons-material';
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  InputAdornment,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { CustomerLookupResult } from '../../services/api';
+import { apiService } from '../../services/api';
+
+interface CustomerLookupDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onCustomerFound: (result: CustomerLookupResult) => void;
+}
+
+// Attach a loyalty customer to the sale by scanning their card or typing their phone
+export const CustomerLookupDialog: React.FC<CustomerLookupDialogProps> = ({
+  open,
+  onClose,
+  onCustomerFound,
+}) => {
+  const { t } = useTranslation();
+  const [searchBy, setSearchBy] = useState<'card' | 'phone'>('card');
+  const [value, setValue] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setValue('');
+      setError(null);
+    }
+  }, [open]);
+
+  const handleSearch = async () => {
+    const query = value.trim();
+    if (!query) return;
+
+    setSearching(true);
+    setError(null);
+    const response = await apiService.lookupCustomer(searchBy === 'card' ? { card: query } : { phone: query });
+    setSearching(false);
+
+    if (response.success && response.data) {
+      onCustomerFound(response.data);
+      onClose();
+    } else if (response.offline) {
+      setError(t('loyalty.offline'));
+    } else {
+      setError(response.error === 'Customer not found' ? t('loyalty.notFound') : response.error || t('loyalty.lookupFailed'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{t('loyalty.findCustomer')}</DialogTitle>
+      <DialogContent>
+        <ToggleButtonGroup
+          exclusive
+          fullWidth
+          size="small"
+          value={searchBy}
+          onChange={(_, next) => next && setSearchBy(next)}
+          sx={{ mb: 2, mt: 1 }}
+        >
+          <ToggleButton value="card">
+            <CreditCard sx={{ mr: 1 }} fontSize="small" />
+            {t('loyalty.card')}
+          </ToggleButton>
+          <ToggleButton value="phone">
+            <Phone sx={{ mr: 1 }} fontSize="small" />
+            {t('loyalty.phone')}
+          </ToggleButton>
+        </ToggleButtonGroup>
+
+        <TextField
+          autoFocus
+          fullWidth
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => {
+            // Card scanners finish with Enter
+            if (e.key === 'Enter') handleSearch();
+          }}
+          placeholder={searchBy === 'card' ? t('loyalty.cardPlaceholder') : t('loyalty.phonePlaceholder')}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                {searchBy === 'card' ? <CreditCard /> : <Phone />}
+              </InputAdornment>
+            ),
+          }}
+        />
+
+        {error && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('common.cancel')}</Button>
+        <Button
+          variant="contained"
+          startIcon={searching ? <CircularProgress size={16} /> : <Search />}
+          onClick={handleSearch}
+          disabled={searching || !value.trim()}
+        >
+          {t('loyalty.search')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
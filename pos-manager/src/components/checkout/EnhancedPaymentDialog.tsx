@@ -4,6 +4,7 @@ import {
   QrCode,
   Receipt,
   Remove,
+  Stars,
 } from '@mui/icons-material';
 import {
   Alert,
@@ -21,15 +22,16 @@ import {
   Typography,
 } from '@mui/material';
 import { useEffect, useState } from 'react';
-import { apiService, type PaymentMethodStatus } from '../../services/api';
+import { apiService, type LoyaltyCustomer, type PaymentMethodStatus } from '../../services/api';
 import { CashPaymentTab } from './CashPaymentTab';
 import { ClickPassTab } from './ClickPassTab';
+import { LoyaltyPointsTab } from './LoyaltyPointsTab';
 import { PaymeTab } from './PaymeTab';
 import { UzumFastPayTab } from './UzumFastPayTab';
 
 interface Payment {
   id: string;
-  method: 'cash' | 'card' | 'digital_wallet' | 'fastpay' | 'click_pass' | 'payme_qr' | 'payme';
+  method: 'cash' | 'card' | 'digital_wallet' | 'fastpay' | 'click_pass' | 'payme_qr' | 'payme' | 'store_credit';
   amount: number;
   timestamp: Date;
 }
@@ -45,6 +47,9 @@ interface EnhancedPaymentDialogProps {
   subtotal?: number;
   employeeName?: string;
   terminalId?: string;
+  cashOnly?: boolean; // Offline mode: card and QR providers cannot be reached
+  customer?: LoyaltyCustomer | null; // Loyalty customer on the sale; enables paying with points
+  pointValue?: number;
 }
 
 export const EnhancedPaymentDialog: React.FC<EnhancedPaymentDialogProps> = ({
@@ -56,6 +61,9 @@ export const EnhancedPaymentDialog: React.FC<EnhancedPaymentDialogProps> = ({
   cartItems = [],
   employeeName,
   terminalId,
+  cashOnly = false,
+  customer = null,
+  pointValue = 0.01,
 }) => {
   const [activeTab, setActiveTab] = useState(0);
   const [payments, setPayments] = useState<Payment[]>([]);
@@ -66,6 +74,9 @@ export const EnhancedPaymentDialog: React.FC<EnhancedPaymentDialogProps> = ({
   const paidAmount = payments.reduce((sum, payment) => sum + payment.amount, 0);
   const remainingAmount = Math.max(0, totalAmount - paidAmount);
   const exactRemainingAmount = Math.round(remainingAmount * 100) / 100;
+  const pointsUsed = payments
+    .filter(payment => payment.method === 'store_credit')
+    .reduce((sum, payment) => sum + Math.ceil(Math.round((payment.amount / pointValue) * 100) / 100), 0);
 
   // Load active payment methods
   useEffect(() => {
@@ -89,10 +100,13 @@ export const EnhancedPaymentDialog: React.FC<EnhancedPaymentDialogProps> = ({
       }
     };
 
-    if (open) {
+    if (open && cashOnly) {
+      setActivePaymentMethods([]);
+      setLoadingPaymentMethods(false);
+    } else if (open) {
       loadPaymentMethods();
     }
-  }, [open]);
+  }, [open, cashOnly]);
 
   // Reset state when dialog opens/closes
   const resetDialog = () => {
@@ -148,7 +162,10 @@ export const EnhancedPaymentDialog: React.FC<EnhancedPaymentDialogProps> = ({
   // Get available payment methods
   const getAvailablePaymentMethods = () => {
     const methods = ['cash'];
-    
+
+    if (cashOnly) {
+      return methods;
+    }
     
     if (isPaymentMethodActive('uzum_fastpay')) {
       methods.push('uzum_fastpay');
@@ -162,6 +179,10 @@ export const EnhancedPaymentDialog: React.FC<EnhancedPaymentDialogProps> = ({
     if (isPaymentMethodActive('payme')) {
       methods.push('payme');
     } 
+
+    if (customer) {
+      methods.push('store_credit');
+    }
     
     return methods;
   };
@@ -182,6 +203,7 @@ export const EnhancedPaymentDialog: React.FC<EnhancedPaymentDialogProps> = ({
       case 'uzum_fastpay': return <QrCode />;
       case 'click_pass': return <QrCode />;
       case 'payme': return <QrCode />;
+      case 'store_credit': return <Stars />;
       default: return <PaymentIcon />;
     }
   };
@@ -192,6 +214,7 @@ export const EnhancedPaymentDialog: React.FC<EnhancedPaymentDialogProps> = ({
       case 'uzum_fastpay': return '🏦 Uzum FastPay';
       case 'click_pass': return '💸 Click Pass';
       case 'payme': return '💳 PayMe';
+      case 'store_credit': return '⭐ Loyalty Points';
       default: return method;
     }
   };
@@ -297,6 +320,12 @@ export const EnhancedPaymentDialog: React.FC<EnhancedPaymentDialogProps> = ({
           </Box>
         </Box>
 
+        {cashOnly && (
+          <Alert severity="warning" sx={{ m: 3, mb: 0 }}>
+            Offline mode: only cash can be accepted until the branch server is reachable again.
+          </Alert>
+        )}
+
         {/* Payment History */}
         {payments.length > 0 && (
           <Box sx={{ p: 3, borderBottom: 1, borderColor: 'grey.200' }}>
@@ -386,6 +415,17 @@ export const EnhancedPaymentDialog: React.FC<EnhancedPaymentDialogProps> = ({
                 />
               )}
 
+              {/* Loyalty Points Payment Tab */}
+              {getCurrentTabType(activeTab) === 'store_credit' && (
+                <LoyaltyPointsTab
+                  customer={customer}
+                  pointValue={pointValue}
+                  pointsUsed={pointsUsed}
+                  exactRemainingAmount={exactRemainingAmount}
+                  onProcessPayment={processPayment}
+                />
+              )}
+
               {/* PayMe Payment Tab */}
               {getCurrentTabType(activeTab) === 'payme' && (
                 <PaymeTab
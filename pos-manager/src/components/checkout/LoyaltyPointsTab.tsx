@@ -0,0 +1,91 @@
+import { Alert, Box, Button, Slider, Typography } from '@mui/material';
+import { useEffect, useState } from 'react';
+import type { LoyaltyCustomer } from '../../services/api';
+
+interface LoyaltyPointsTabProps {
+  customer: LoyaltyCustomer | null;
+  pointValue: number;
+  pointsUsed: number; // Already spent on earlier payments of this sale
+  exactRemainingAmount: number;
+  onProcessPayment: (method: 'store_credit', amount: number) => void;
+}
+
+export const LoyaltyPointsTab: React.FC<LoyaltyPointsTabProps> = ({
+  customer,
+  pointValue,
+  pointsUsed,
+  exactRemainingAmount,
+  onProcessPayment,
+}) => {
+  const availablePoints = Math.max(0, (customer?.loyalty_points || 0) - pointsUsed);
+  const availableAmount = Math.floor(availablePoints * pointValue * 100) / 100;
+  const maxAmount = Math.min(exactRemainingAmount, availableAmount);
+  const [amount, setAmount] = useState(maxAmount);
+
+  useEffect(() => {
+    setAmount(maxAmount);
+  }, [maxAmount]);
+
+  if (!customer) {
+    return (
+      <Alert severity="info">
+        Add a loyalty customer to the sale to pay with points.
+      </Alert>
+    );
+  }
+
+  const pointsNeeded = Math.ceil(Math.round((amount / pointValue) * 100) / 100);
+
+  return (
+    <Box>
+      <Typography variant="h5" gutterBottom color="primary" fontWeight="bold">
+        ⭐ Pay with Points
+      </Typography>
+      <Typography variant="body1" color="text.secondary" mb={3}>
+        {customer.name} has {availablePoints} points (worth ${availableAmount.toFixed(2)})
+      </Typography>
+
+      {maxAmount <= 0 ? (
+        <Alert severity="warning">Not enough points to pay any part of this sale.</Alert>
+      ) : (
+        <>
+          <Typography variant="h2" color="primary" fontWeight="bold" sx={{ mb: 1 }}>
+            ${amount.toFixed(2)}
+          </Typography>
+          <Typography variant="body2" color="text.secondary" mb={2}>
+            Uses {pointsNeeded} points
+          </Typography>
+          <Slider
+            value={amount}
+            min={0}
+            max={maxAmount}
+            step={Math.min(pointValue, maxAmount)}
+            onChange={(_, value) => setAmount(Math.round((value as number) * 100) / 100)}
+            sx={{ mb: 3 }}
+          />
+          <Box sx={{ display: 'flex', gap: 3 }}>
+            <Button
+              fullWidth
+              variant="outlined"
+              size="large"
+              onClick={() => setAmount(maxAmount)}
+              sx={{ py: 2, fontSize: '1.1rem' }}
+            >
+              📊 Maximum (${maxAmount.toFixed(2)})
+            </Button>
+            <Button
+              fullWidth
+              variant="contained"
+              size="large"
+              disabled={amount <= 0}
+              onClick={() => onProcessPayment('store_credit', amount)}
+              sx={{ py: 2, fontSize: '1.2rem', fontWeight: 'bold' }}
+            >
+              ⭐ Pay ${amount.toFixed(2)}
+            </Button>
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,224 @@
+import {
+  CloudOff,
+  Refresh,
+  Sync,
+} from '@mui/icons-material';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../hooks/useAuth';
+import { useOfflineMode } from '../../hooks/useOfflineMode';
+import type { OfflineSaleConflict } from '../../services/api';
+import { apiService } from '../../services/api';
+
+// Manager view of sales made while the till was offline: what is still queued here and
+// what the branch flagged when the queued sales were replayed
+export const OfflineSalesPanel = () => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const { isOffline, syncing, queuedSales, catalogUpdatedAt, catalogSize, syncNow, onSynced } = useOfflineMode();
+
+  const [conflicts, setConflicts] = useState<OfflineSaleConflict[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resolving, setResolving] = useState<OfflineSaleConflict | null>(null);
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadConflicts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const response = await apiService.getOfflineConflicts('open');
+    if (response.success && response.data) {
+      setConflicts(response.data.conflicts);
+    } else if (!response.offline) {
+      setError(response.error || t('offline.loadError'));
+    }
+    setLoading(false);
+  }, [t]);
+
+  useEffect(() => {
+    if (!isOffline) {
+      loadConflicts();
+    }
+  }, [isOffline, loadConflicts]);
+
+  // New conflicts can appear whenever queued sales reach the branch
+  useEffect(() => onSynced(() => {
+    loadConflicts();
+  }), [onSynced, loadConflicts]);
+
+  const handleResolve = async () => {
+    if (!resolving || !user) return;
+
+    setSubmitting(true);
+    const response = await apiService.resolveOfflineConflict(resolving.id, user.employeeId, notes.trim() || undefined);
+    setSubmitting(false);
+
+    if (!response.success) {
+      setError(response.error || t('offline.resolveError'));
+      return;
+    }
+
+    setConflicts(prev => prev.filter(conflict => conflict.id !== resolving.id));
+    setResolving(null);
+    setNotes('');
+  };
+
+  const describeConflict = (conflict: OfflineSaleConflict) => {
+    if (conflict.conflict_type === 'negative_stock') {
+      return t('offline.negativeStockDetails', {
+        product: conflict.product_name || conflict.product_id,
+        quantity: Number(conflict.actual_value),
+      });
+    }
+    return t('offline.priceMismatchDetails', {
+      charged: Number(conflict.expected_value).toFixed(2),
+      expected: Number(conflict.actual_value).toFixed(2),
+    });
+  };
+
+  const rejectedSales = queuedSales.filter(sale => sale.lastError);
+
+  return (
+    <Paper sx={{ p: 3, mt: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="h5">{t('offline.title')}</Typography>
+          <Typography variant="body2" color="text.secondary">
+            {catalogUpdatedAt
+              ? t('offline.catalogCached', { count: catalogSize, date: new Date(catalogUpdatedAt).toLocaleString() })
+              : t('offline.catalogMissing')}
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            variant="outlined"
+            startIcon={syncing ? <CircularProgress size={16} /> : <Sync />}
+            onClick={() => syncNow(true)}
+            disabled={syncing || queuedSales.length === 0}
+          >
+            {t('offline.syncNow')}
+          </Button>
+          <Button startIcon={<Refresh />} onClick={loadConflicts} disabled={isOffline || loading}>
+            {t('offline.refresh')}
+          </Button>
+        </Box>
+      </Box>
+
+      {isOffline && (
+        <Alert severity="warning" icon={<CloudOff />} sx={{ mb: 2 }}>
+          {t('offline.banner')}
+        </Alert>
+      )}
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {queuedSales.length > 0 && (
+        <Alert severity={rejectedSales.length > 0 ? 'error' : 'info'} sx={{ mb: 2 }}>
+          {t('offline.pendingSales', { count: queuedSales.length - rejectedSales.length })}
+          {rejectedSales.map(sale => (
+            <Typography key={sale.id} variant="body2" sx={{ mt: 0.5 }}>
+              {t('offline.rejectedSale', {
+                date: new Date(sale.createdAt).toLocaleString(),
+                total: sale.expectedTotal.toFixed(2),
+                error: sale.lastError,
+              })}
+            </Typography>
+          ))}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+          <CircularProgress />
+        </Box>
+      ) : conflicts.length === 0 ? (
+        <Typography color="text.secondary">{t('offline.noConflicts')}</Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('offline.syncedAt')}</TableCell>
+                <TableCell>{t('offline.terminal')}</TableCell>
+                <TableCell>{t('offline.cashier')}</TableCell>
+                <TableCell>{t('offline.conflict')}</TableCell>
+                <TableCell>{t('offline.details')}</TableCell>
+                <TableCell align="right" />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {conflicts.map(conflict => (
+                <TableRow key={conflict.id}>
+                  <TableCell>{new Date(conflict.created_at).toLocaleString()}</TableCell>
+                  <TableCell>{conflict.terminal_id}</TableCell>
+                  <TableCell>{conflict.employee_id}</TableCell>
+                  <TableCell>
+                    <Chip
+                      size="small"
+                      color={conflict.conflict_type === 'negative_stock' ? 'error' : 'warning'}
+                      label={t(`offline.conflictTypes.${conflict.conflict_type}`)}
+                    />
+                  </TableCell>
+                  <TableCell>{describeConflict(conflict)}</TableCell>
+                  <TableCell align="right">
+                    <Button size="small" onClick={() => setResolving(conflict)}>
+                      {t('offline.resolve')}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={!!resolving} onClose={() => setResolving(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{t('offline.resolveTitle')}</DialogTitle>
+        <DialogContent>
+          {resolving && (
+            <Typography sx={{ mb: 2 }}>{describeConflict(resolving)}</Typography>
+          )}
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label={t('offline.resolutionNotes')}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setResolving(null)}>{t('common.cancel')}</Button>
+          <Button variant="contained" onClick={handleResolve} disabled={submitting}>
+            {submitting ? <CircularProgress size={20} /> : t('offline.resolve')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
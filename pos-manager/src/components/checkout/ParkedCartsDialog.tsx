@@ -0,0 +1,196 @@
+import {
+  Cancel,
+  PlayArrow,
+} from '@mui/icons-material';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  List,
+  ListItem,
+  ListItemSecondaryAction,
+  ListItemText,
+  Switch,
+  Typography,
+} from '@mui/material';
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { ParkedCart, ParkedCartStatus } from '../../services/api';
+import { apiService } from '../../services/api';
+
+interface ParkedCartsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onResume: (cart: ParkedCart) => void;
+  employeeId?: string;
+  // Supervisors can cancel parked carts and look through resumed, cancelled and expired ones
+  canSupervise: boolean;
+  // Resuming replaces the cart, so it is blocked while a sale is in progress
+  cartInProgress: boolean;
+}
+
+const statusColors: Record<ParkedCartStatus, 'default' | 'primary' | 'success' | 'warning' | 'error'> = {
+  parked: 'primary',
+  resumed: 'success',
+  cancelled: 'default',
+  expired: 'warning',
+};
+
+// Carts parked at any till of the branch, waiting to be resumed
+export const ParkedCartsDialog: React.FC<ParkedCartsDialogProps> = ({
+  open,
+  onClose,
+  onResume,
+  employeeId,
+  canSupervise,
+  cartInProgress,
+}) => {
+  const { t } = useTranslation();
+  const [carts, setCarts] = useState<ParkedCart[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCarts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const response = await apiService.getParkedCarts(showHistory ? 'all' : 'parked');
+    setLoading(false);
+
+    if (response.success && response.data) {
+      setCarts(response.data.carts);
+    } else {
+      setCarts([]);
+      setError(response.offline ? t('checkout.parkOffline') : response.error || t('checkout.parkedLoadFailed'));
+    }
+  }, [showHistory, t]);
+
+  useEffect(() => {
+    if (open) {
+      loadCarts();
+    }
+  }, [open, loadCarts]);
+
+  const handleCancel = async (cart: ParkedCart) => {
+    if (!employeeId || !window.confirm(t('checkout.parkCancelConfirm', { number: cart.park_number }))) return;
+
+    const response = await apiService.cancelParkedCart(cart.id, employeeId);
+    if (response.success) {
+      loadCarts();
+    } else {
+      setError(response.error || t('checkout.parkedLoadFailed'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{t('checkout.parkedCarts')}</DialogTitle>
+      <DialogContent>
+        {canSupervise && (
+          <FormControlLabel
+            control={<Switch checked={showHistory} onChange={(e) => setShowHistory(e.target.checked)} />}
+            label={t('checkout.parkShowHistory')}
+          />
+        )}
+        {cartInProgress && (
+          <Alert severity="info" sx={{ my: 1 }}>
+            {t('checkout.parkFinishCurrent')}
+          </Alert>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ my: 1 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={3}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : carts.length === 0 ? (
+          <Typography color="text.secondary" align="center" sx={{ py: 3 }}>
+            {t('checkout.noParkedCarts')}
+          </Typography>
+        ) : (
+          <List>
+            {carts.map(cart => (
+              <ListItem key={cart.id} divider sx={{ pr: 12 }}>
+                <ListItemText
+                  primary={
+                    <Box component="span" display="flex" alignItems="center" gap={1}>
+                      <Typography component="span" fontFamily="monospace" fontWeight="bold">
+                        {cart.park_number}
+                      </Typography>
+                      {showHistory && (
+                        <Chip size="small" color={statusColors[cart.status]} label={t(`checkout.parkStatus.${cart.status}`)} />
+                      )}
+                    </Box>
+                  }
+                  secondary={
+                    <Box component="span">
+                      {cart.note && (
+                        <Typography component="span" variant="body2" display="block">
+                          {cart.note}
+                        </Typography>
+                      )}
+                      <Typography component="span" variant="body2" display="block">
+                        {t('checkout.parkSummary', {
+                          count: cart.item_count,
+                          total: cart.total_amount.toFixed(2),
+                          terminal: cart.terminal_id,
+                          employee: cart.employee_name || cart.employee_id,
+                        })}
+                      </Typography>
+                      {cart.customer_name && (
+                        <Typography component="span" variant="body2" display="block">
+                          {cart.customer_name}
+                        </Typography>
+                      )}
+                      <Typography component="span" variant="caption" color="text.secondary" display="block">
+                        {cart.status === 'parked'
+                          ? t('checkout.parkExpiresAt', { time: new Date(cart.expires_at).toLocaleString() })
+                          : new Date(cart.created_at).toLocaleString()}
+                      </Typography>
+                    </Box>
+                  }
+                />
+                {cart.status === 'parked' && (
+                  <ListItemSecondaryAction>
+                    <IconButton
+                      color="primary"
+                      title={t('checkout.resumeCart')}
+                      onClick={() => onResume(cart)}
+                      disabled={cartInProgress}
+                    >
+                      <PlayArrow />
+                    </IconButton>
+                    {canSupervise && (
+                      <IconButton
+                        color="error"
+                        title={t('checkout.cancelParkedCart')}
+                        onClick={() => handleCancel(cart)}
+                      >
+                        <Cancel />
+                      </IconButton>
+                    )}
+                  </ListItemSecondaryAction>
+                )}
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('common.close')}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -3,6 +3,7 @@ import {
   Receipt as ReceiptIcon,
 } from '@mui/icons-material';
 import {
+  Alert,
   Box,
   Button,
   Dialog,
@@ -10,8 +11,11 @@ import {
   DialogContent,
   Typography,
 } from '@mui/material';
-import { useEffect } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
+import type { FiscalReceipt, TaxBreakdownEntry } from '../../services/api';
+import type { ReceiptDocument } from '../../services/printerService';
+import { printerService } from '../../services/printerService';
 
 interface Payment {
   id: string;
@@ -40,10 +44,15 @@ interface ReceiptDialogProps {
   payments: Payment[];
   subtotal: number;
   taxAmount: number;
+  taxBreakdown?: TaxBreakdownEntry[];
+  pricesIncludeTax?: boolean;
   totalAmount: number;
   changeAmount: number;
   employeeName?: string;
   terminalId?: string;
+  qrUrl?: string; // Payme or fiscal receipt URL, printed as a QR code on thermal printers
+  fiscal?: FiscalReceipt | null; // Fiscal receipt of the sale; null when the branch has no fiscal module
+  offlineSale?: boolean; // Sold while the branch server was unreachable, fiscalized when it is replayed
 }
 
 export const ReceiptDialog: React.FC<ReceiptDialogProps> = ({
@@ -54,13 +63,19 @@ export const ReceiptDialog: React.FC<ReceiptDialogProps> = ({
   payments,
   subtotal,
   taxAmount,
+  taxBreakdown = [],
+  pricesIncludeTax = false,
   totalAmount,
   changeAmount,
   employeeName,
   terminalId,
+  qrUrl,
+  fiscal,
+  offlineSale = false,
 }) => {
   const { t } = useTranslation();
   const currentTime = new Date();
+  const [printError, setPrintError] = useState<string | null>(null);
 
   // Fixed Uzbek labels for receipt - always in Uzbek regardless of current language
   const uzbekLabels = {
@@ -71,6 +86,8 @@ export const ReceiptDialog: React.FC<ReceiptDialogProps> = ({
     cashier: "KASSIR",
     subtotal: "ORALIQ JAMI:",
     tax: "SOLIQ:",
+    vat: "QQS",
+    vatIncluded: "shu jumladan",
     total: "JAMI:",
     payment: "TO'LOV:",
     changeDue: "QAYTIM:",
@@ -79,9 +96,28 @@ export const ReceiptDialog: React.FC<ReceiptDialogProps> = ({
     forYourRecords: "hisob qaydlaringiz uchun",
     cash: "NAQD",
     card: "KARTA",
-    digital: "RAQAMLI"
+    digital: "RAQAMLI",
+    scanToVerify: "Chekni tekshirish uchun skanerlang",
+    fiscalReceipt: "FISKAL CHEK",
+    fiscalModule: "FM",
+    receiptNumber: "CHEK №",
+    fiscalSign: "FISKAL BELGI",
+    fiscalPending: "Fiskal chek keyinroq ro'yxatdan o'tkaziladi"
   };
 
+  // Fiscal module data once the sale is registered; otherwise a note that it is still queued
+  const fiscalized = fiscal?.status === 'fiscalized' ? fiscal : null;
+  const fiscalLines: string[] = fiscalized
+    ? [
+        uzbekLabels.fiscalReceipt,
+        `${uzbekLabels.fiscalModule}: ${fiscalized.fiscal_module_id}`,
+        `${uzbekLabels.receiptNumber}: ${fiscalized.receipt_seq}`,
+        `${uzbekLabels.fiscalSign}: ${fiscalized.fiscal_sign}`,
+        ...(fiscalized.fiscalized_at ? [new Date(fiscalized.fiscalized_at).toLocaleString()] : []),
+      ]
+    : fiscal || offlineSale ? [uzbekLabels.fiscalPending] : [];
+  const receiptQrUrl = fiscalized?.qr_url || qrUrl;
+
   const getPaymentMethodLabel = (method: string) => {
     switch (method) {
       case 'cash': return uzbekLabels.cash;
@@ -91,16 +127,65 @@ export const ReceiptDialog: React.FC<ReceiptDialogProps> = ({
     }
   };
 
-  const handlePrint = () => {
+  const buildReceiptDocument = (): ReceiptDocument => ({
+    storeName: uzbekLabels.companyName,
+    title: uzbekLabels.receipt,
+    headerLines: [
+      `${currentTime.toLocaleDateString()} ${currentTime.toLocaleTimeString()}`,
+      `${uzbekLabels.transactionId}: ${transactionId}`,
+      ...(terminalId ? [`${uzbekLabels.terminal}: ${terminalId}`] : []),
+      ...(employeeName ? [`${uzbekLabels.cashier}: ${employeeName}`] : []),
+    ],
+    items: cartItems.map(item => ({
+      name: (item.product.name_uz || item.product.name).toUpperCase(),
+      quantity: item.quantity,
+      unitPrice: item.unit_price,
+      total: item.total_price,
+      barcode: item.product.barcode,
+    })),
+    totals: [
+      { label: uzbekLabels.subtotal, amount: subtotal },
+      { label: uzbekLabels.tax, amount: taxAmount },
+      ...taxBreakdown.map(entry => ({
+        label: `  ${uzbekLabels.vat} ${Math.round(entry.rate * 10000) / 100}%${pricesIncludeTax ? ` (${uzbekLabels.vatIncluded})` : ''}:`,
+        amount: entry.taxAmount,
+      })),
+      { label: uzbekLabels.total, amount: totalAmount, emphasis: true },
+    ],
+    paymentsTitle: uzbekLabels.payment,
+    payments: payments.map(payment => ({ label: getPaymentMethodLabel(payment.method), amount: payment.amount })),
+    change: { label: uzbekLabels.changeDue, amount: changeAmount },
+    footerLines: [...fiscalLines, uzbekLabels.thankYou, uzbekLabels.keepReceipt, uzbekLabels.forYourRecords],
+    qr: receiptQrUrl ? { data: receiptQrUrl, caption: uzbekLabels.scanToVerify } : undefined,
+    barcode: transactionId ? { data: transactionId } : undefined,
+    currencySymbol: '$',
+  });
+
+  // Thermal printer through the desktop bridge when it is set up, otherwise the browser print dialog.
+  // The cash drawer is only kicked on the automatic print, never on a reprint.
+  const handlePrint = async (openDrawer = false) => {
+    if (await printerService.isEnabled()) {
+      const result = await printerService.printReceipt(buildReceiptDocument(), {
+        openDrawer: openDrawer && payments.some(payment => payment.method === 'cash'),
+      });
+      setPrintError(result.success ? null : [t('printer.printFailed'), result.error].filter(Boolean).join(': '));
+      return;
+    }
+
     window.print();
   };
 
+  // The auto-print below should fire once per opening, not whenever the receipt props change
+  const handlePrintRef = useRef(handlePrint);
+  handlePrintRef.current = handlePrint;
+
   // Auto-print receipt when dialog opens
   useEffect(() => {
     if (open) {
+      setPrintError(null);
       // Small delay to ensure the dialog is fully rendered before printing
       const timer = setTimeout(() => {
-        handlePrint();
+        handlePrintRef.current(true);
       }, 500);
 
       return () => clearTimeout(timer);
@@ -137,6 +222,12 @@ export const ReceiptDialog: React.FC<ReceiptDialogProps> = ({
           fontFamily: 'monospace',
         }
       }}>
+        {printError && (
+          <Alert severity="error" sx={{ mb: 2, '@media print': { display: 'none' } }}>
+            {printError}
+          </Alert>
+        )}
+
         {/* Receipt Header */}
         <Box sx={{
           textAlign: 'center',
@@ -333,6 +424,28 @@ export const ReceiptDialog: React.FC<ReceiptDialogProps> = ({
               ${taxAmount.toFixed(2)}
             </Typography>
           </Box>
+          {taxBreakdown.map(entry => (
+            <Box key={entry.rate} display="flex" justifyContent="space-between" sx={{ mb: 0.5, pl: 1 }}>
+              <Typography variant="body2" sx={{
+                fontFamily: 'monospace',
+                color: 'black',
+                '@media print': {
+                  fontSize: '10px'
+                }
+              }}>
+                {uzbekLabels.vat} {Math.round(entry.rate * 10000) / 100}%{pricesIncludeTax ? ` (${uzbekLabels.vatIncluded})` : ''}:
+              </Typography>
+              <Typography variant="body2" sx={{
+                fontFamily: 'monospace',
+                color: 'black',
+                '@media print': {
+                  fontSize: '10px'
+                }
+              }}>
+                ${entry.taxAmount.toFixed(2)}
+              </Typography>
+            </Box>
+          ))}
           <Box sx={{
             borderTop: '1px dashed black',
             pt: 0.5,
@@ -476,6 +589,49 @@ export const ReceiptDialog: React.FC<ReceiptDialogProps> = ({
           }
         }} />
 
+        {/* Fiscal receipt */}
+        {fiscalLines.length > 0 && (
+          <Box sx={{
+            textAlign: 'center',
+            mb: 2,
+            '@media print': { mb: '4px' }
+          }}>
+            {fiscalLines.map((line, index) => (
+              <Typography key={index} variant="body2" sx={{
+                fontFamily: 'monospace',
+                fontWeight: index === 0 && fiscalized ? 'bold' : 'normal',
+                color: 'black',
+                '@media print': {
+                  fontSize: '10px',
+                  marginBottom: '1px'
+                }
+              }}>
+                {line}
+              </Typography>
+            ))}
+            {receiptQrUrl && fiscalized && (
+              <Typography variant="caption" sx={{
+                fontFamily: 'monospace',
+                color: 'black',
+                display: 'block',
+                wordBreak: 'break-all',
+                '@media print': {
+                  fontSize: '8px'
+                }
+              }}>
+                {receiptQrUrl}
+              </Typography>
+            )}
+            {!fiscalized && (
+              <Alert severity={fiscal?.status === 'failed' ? 'error' : 'warning'} sx={{ mt: 1, textAlign: 'left', '@media print': { display: 'none' } }}>
+                {fiscal?.status === 'failed'
+                  ? t('checkout.fiscalFailed', { error: fiscal.last_error || '' })
+                  : offlineSale ? t('checkout.fiscalOfflineSale') : t('checkout.fiscalPending')}
+              </Alert>
+            )}
+          </Box>
+        )}
+
         <Box sx={{
           textAlign: 'center',
           '@media print': { mt: '6px' }
@@ -516,7 +672,7 @@ export const ReceiptDialog: React.FC<ReceiptDialogProps> = ({
 
       <DialogActions sx={{ p: 3, '@media print': { display: 'none' } }}>
         <Button
-          onClick={handlePrint}
+          onClick={() => handlePrint()}
           variant="outlined"
           startIcon={<Print />}
           size="large"
@@ -0,0 +1,128 @@
+import { Scale } from '@mui/icons-material';
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  InputAdornment,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { Product } from '../../services/api';
+import { scaleService } from '../../services/scaleService';
+
+interface WeightDialogProps {
+  open: boolean;
+  product: Product | null;
+  onClose: () => void;
+  onConfirm: (product: Product, quantity: number) => void;
+}
+
+// Quantity of a product sold by weight or volume: read from the scale or keyed in
+export const WeightDialog: React.FC<WeightDialogProps> = ({
+  open,
+  product,
+  onClose,
+  onConfirm,
+}) => {
+  const { t } = useTranslation();
+  const [value, setValue] = useState('');
+  const [reading, setReading] = useState(false);
+  const [scaleEnabled, setScaleEnabled] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const unit = product?.unit_of_measure || 'kg';
+  const quantity = Math.round(parseFloat(value.replace(',', '.')) * 1000) / 1000;
+  const isValid = Number.isFinite(quantity) && quantity > 0 && (!product || quantity <= product.quantity_in_stock);
+
+  const readScale = useCallback(async () => {
+    setReading(true);
+    setError(null);
+    const result = await scaleService.readWeight();
+    setReading(false);
+
+    if (result.success && result.weight !== undefined) {
+      setValue(result.weight.toFixed(3));
+    } else {
+      setError(result.error || t('scale.readFailed'));
+    }
+  }, [t]);
+
+  // Weigh straight away when a scale is set up, so the cashier only has to confirm
+  useEffect(() => {
+    if (!open) return;
+
+    setValue('');
+    setError(null);
+    scaleService.isEnabled().then(enabled => {
+      setScaleEnabled(enabled);
+      if (enabled && unit === 'kg') {
+        readScale();
+      }
+    });
+  }, [open, unit, readScale]);
+
+  const handleConfirm = () => {
+    if (product && isValid) {
+      onConfirm(product, quantity);
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{t('scale.enterQuantity', { name: product?.name ?? '' })}</DialogTitle>
+      <DialogContent>
+        {product && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {t('scale.pricePerUnit', { price: product.price.toFixed(2), unit })}
+          </Typography>
+        )}
+        <TextField
+          autoFocus
+          fullWidth
+          label={t('scale.quantity')}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleConfirm()}
+          inputProps={{ inputMode: 'decimal' }}
+          InputProps={{ endAdornment: <InputAdornment position="end">{unit}</InputAdornment> }}
+          error={value !== '' && !isValid}
+          helperText={
+            product && value !== '' && quantity > product.quantity_in_stock
+              ? t('scale.exceedsStock', { stock: product.quantity_in_stock, unit })
+              : product && isValid
+                ? t('scale.lineTotal', { total: (Math.round(quantity * product.price * 100) / 100).toFixed(2) })
+                : ' '
+          }
+        />
+        {error && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {scaleService.isAvailable() && (
+          <Button
+            startIcon={reading ? <CircularProgress size={16} /> : <Scale />}
+            onClick={readScale}
+            disabled={reading || !scaleEnabled}
+            sx={{ mr: 'auto' }}
+          >
+            {t('scale.readScale')}
+          </Button>
+        )}
+        <Button onClick={onClose}>{t('common.cancel')}</Button>
+        <Button variant="contained" onClick={handleConfirm} disabled={!isValid || reading}>
+          {t('scale.addToCart')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,318 @@
+import {
+  MoveToInbox,
+  Refresh,
+} from '@mui/icons-material';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../hooks/useAuth';
+import type { PurchaseOrder, PurchaseOrderItem, PurchaseOrderStatus } from '../../services/api';
+import { apiService } from '../../services/api';
+
+type View = 'open' | 'all';
+
+interface LineInput {
+  quantity: string;
+  unitCost: string;
+  notes: string;
+}
+
+interface PurchaseOrdersPanelProps {
+  onNotify: (message: string, severity: 'success' | 'error' | 'warning') => void;
+}
+
+const statusColors: Record<PurchaseOrderStatus, 'default' | 'info' | 'primary' | 'success' | 'error' | 'warning'> = {
+  draft: 'default',
+  submitted: 'default',
+  approved: 'info',
+  rejected: 'error',
+  ordered: 'primary',
+  partially_received: 'warning',
+  received: 'success',
+  cancelled: 'default',
+};
+
+// Deliveries can only be booked once the main office has approved the order
+const receivableStatuses: PurchaseOrderStatus[] = ['approved', 'ordered', 'partially_received'];
+
+const outstandingFor = (item: PurchaseOrderItem) =>
+  Math.max(Number(item.quantity_ordered) - Number(item.quantity_received), 0);
+
+export const PurchaseOrdersPanel = ({ onNotify }: PurchaseOrdersPanelProps) => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  const [view, setView] = useState<View>('open');
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Receive dialog
+  const [activeOrder, setActiveOrder] = useState<PurchaseOrder | null>(null);
+  const [lineInputs, setLineInputs] = useState<Record<string, LineInput>>({});
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadOrders = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const response = await apiService.getPurchaseOrders();
+    if (response.success && response.data) {
+      const all = response.data.purchaseOrders;
+      setOrders(view === 'open' ? all.filter(order => receivableStatuses.includes(order.status)) : all);
+    } else {
+      setOrders([]);
+      setError(response.error || t('purchaseOrders.loadError'));
+    }
+    setLoading(false);
+  }, [view, t]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  const openDialog = async (order: PurchaseOrder) => {
+    const response = await apiService.getPurchaseOrder(order.id);
+    if (!response.success || !response.data) {
+      onNotify(response.error || t('purchaseOrders.loadError'), 'error');
+      return;
+    }
+
+    const details = response.data.purchaseOrder;
+    const inputs: Record<string, LineInput> = {};
+    (details.items || []).forEach(item => {
+      inputs[item.id] = { quantity: String(outstandingFor(item)), unitCost: String(Number(item.unit_cost)), notes: '' };
+    });
+
+    setLineInputs(inputs);
+    setInvoiceNumber('');
+    setActiveOrder(details);
+  };
+
+  const closeDialog = () => {
+    setActiveOrder(null);
+    setLineInputs({});
+  };
+
+  const updateLine = (itemId: string, field: keyof LineInput, value: string) => {
+    setLineInputs(prev => ({ ...prev, [itemId]: { ...prev[itemId], [field]: value } }));
+  };
+
+  const handleSubmit = async () => {
+    if (!activeOrder || !user) return;
+
+    const items = (activeOrder.items || []).map(item => ({
+      itemId: item.id,
+      quantity: Math.max(0, Math.round((parseFloat(lineInputs[item.id]?.quantity || '0') || 0) * 1000) / 1000),
+      unitCost: lineInputs[item.id]?.unitCost === '' ? undefined : Number(lineInputs[item.id]?.unitCost),
+      notes: lineInputs[item.id]?.notes || undefined,
+    }));
+
+    if (items.every(item => item.quantity === 0)) {
+      onNotify(t('purchaseOrders.nothingToReceive'), 'warning');
+      return;
+    }
+
+    setSubmitting(true);
+    const response = await apiService.receivePurchaseOrder(activeOrder.id, user.employeeId, items, {
+      supplierInvoiceNumber: invoiceNumber || undefined,
+    });
+    setSubmitting(false);
+
+    if (!response.success || !response.data) {
+      onNotify(response.error || t('purchaseOrders.receiveError'), 'error');
+      return;
+    }
+
+    if (response.data.purchaseOrder.status === 'received') {
+      onNotify(t('purchaseOrders.receivedSuccess'), 'success');
+    } else {
+      onNotify(t('purchaseOrders.partiallyReceived'), 'warning');
+    }
+
+    closeDialog();
+    loadOrders();
+  };
+
+  return (
+    <Box>
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" gap={2} flexWrap="wrap">
+          <ToggleButtonGroup
+            value={view}
+            exclusive
+            size="small"
+            onChange={(_event, value: View | null) => value && setView(value)}
+          >
+            <ToggleButton value="open">{t('purchaseOrders.toReceive')}</ToggleButton>
+            <ToggleButton value="all">{t('purchaseOrders.all')}</ToggleButton>
+          </ToggleButtonGroup>
+          <Button startIcon={<Refresh />} onClick={loadOrders} disabled={loading}>
+            {t('purchaseOrders.refresh')}
+          </Button>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('purchaseOrders.number')}</TableCell>
+              <TableCell>{t('purchaseOrders.supplier')}</TableCell>
+              <TableCell align="center">{t('purchaseOrders.items')}</TableCell>
+              <TableCell>{t('purchaseOrders.expectedDate')}</TableCell>
+              <TableCell align="center">{t('purchaseOrders.status')}</TableCell>
+              <TableCell align="center">{t('purchaseOrders.actions')}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  <CircularProgress size={24} />
+                </TableCell>
+              </TableRow>
+            ) : orders.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  <Typography color="text.secondary">{t('purchaseOrders.noOrders')}</Typography>
+                </TableCell>
+              </TableRow>
+            ) : orders.map(order => (
+              <TableRow key={order.id}>
+                <TableCell>{order.po_number}</TableCell>
+                <TableCell>{order.supplier_name}</TableCell>
+                <TableCell align="center">{order.item_count}</TableCell>
+                <TableCell>{order.expected_date ? new Date(order.expected_date).toLocaleDateString() : '-'}</TableCell>
+                <TableCell align="center">
+                  <Chip
+                    label={t(`purchaseOrders.statuses.${order.status}`)}
+                    color={statusColors[order.status]}
+                    size="small"
+                  />
+                </TableCell>
+                <TableCell align="center">
+                  {receivableStatuses.includes(order.status) && (
+                    <Button size="small" variant="contained" startIcon={<MoveToInbox />} onClick={() => openDialog(order)}>
+                      {t('purchaseOrders.receive')}
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Dialog open={!!activeOrder} onClose={closeDialog} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {t('purchaseOrders.receiveTitle', { number: activeOrder?.po_number, supplier: activeOrder?.supplier_name })}
+        </DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {t('purchaseOrders.receiveHint')}
+          </Typography>
+          <TextField
+            size="small"
+            label={t('purchaseOrders.invoiceNumber')}
+            value={invoiceNumber}
+            onChange={(e) => setInvoiceNumber(e.target.value)}
+            sx={{ mb: 2, minWidth: 260 }}
+          />
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('purchaseOrders.product')}</TableCell>
+                <TableCell align="right">{t('purchaseOrders.outstandingQty')}</TableCell>
+                <TableCell align="right">{t('purchaseOrders.receivedQty')}</TableCell>
+                <TableCell align="right">{t('purchaseOrders.unitCost')}</TableCell>
+                <TableCell>{t('purchaseOrders.notes')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {(activeOrder?.items || []).map(item => {
+                const outstanding = outstandingFor(item);
+                const entered = parseFloat(lineInputs[item.id]?.quantity || '0') || 0;
+
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <Typography variant="body2">{item.product_name}</Typography>
+                      <Typography variant="caption" color="text.secondary">{item.barcode || item.sku}</Typography>
+                    </TableCell>
+                    <TableCell align="right">{outstanding}</TableCell>
+                    <TableCell align="right">
+                      <TextField
+                        type="number"
+                        size="small"
+                        value={lineInputs[item.id]?.quantity ?? ''}
+                        onChange={(e) => updateLine(item.id, 'quantity', e.target.value)}
+                        error={entered > outstanding}
+                        disabled={outstanding === 0}
+                        inputProps={{ min: 0, max: outstanding, step: 'any' }}
+                        sx={{ width: 100 }}
+                      />
+                    </TableCell>
+                    <TableCell align="right">
+                      <TextField
+                        type="number"
+                        size="small"
+                        value={lineInputs[item.id]?.unitCost ?? ''}
+                        onChange={(e) => updateLine(item.id, 'unitCost', e.target.value)}
+                        disabled={outstanding === 0}
+                        inputProps={{ min: 0, step: 'any' }}
+                        sx={{ width: 120 }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        fullWidth
+                        value={lineInputs[item.id]?.notes ?? ''}
+                        onChange={(e) => updateLine(item.id, 'notes', e.target.value)}
+                        disabled={outstanding === 0}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialog} disabled={submitting}>{t('common.cancel')}</Button>
+          <Button variant="contained" onClick={handleSubmit} disabled={submitting}>
+            {submitting ? <CircularProgress size={20} /> : t('purchaseOrders.confirmReceive')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
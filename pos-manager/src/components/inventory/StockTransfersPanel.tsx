@@ -0,0 +1,311 @@
+import {
+  LocalShipping,
+  MoveToInbox,
+  Refresh,
+} from '@mui/icons-material';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../hooks/useAuth';
+import type { StockTransfer, StockTransferStatus } from '../../services/api';
+import { apiService } from '../../services/api';
+
+type Direction = 'incoming' | 'outgoing';
+type Mode = 'ship' | 'receive';
+
+interface LineInput {
+  quantity: string;
+  notes: string;
+}
+
+interface StockTransfersPanelProps {
+  onNotify: (message: string, severity: 'success' | 'error' | 'warning') => void;
+}
+
+const statusColors: Record<StockTransferStatus, 'default' | 'info' | 'primary' | 'success' | 'error' | 'warning'> = {
+  requested: 'default',
+  approved: 'info',
+  rejected: 'error',
+  shipped: 'primary',
+  received: 'success',
+  cancelled: 'default',
+};
+
+export const StockTransfersPanel = ({ onNotify }: StockTransfersPanelProps) => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  const [direction, setDirection] = useState<Direction>('incoming');
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ship / receive dialog
+  const [mode, setMode] = useState<Mode>('receive');
+  const [activeTransfer, setActiveTransfer] = useState<StockTransfer | null>(null);
+  const [lineInputs, setLineInputs] = useState<Record<string, LineInput>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadTransfers = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const response = await apiService.getStockTransfers(direction);
+    if (response.success && response.data) {
+      setTransfers(response.data.transfers);
+    } else {
+      setTransfers([]);
+      setError(response.error || t('transfers.loadError'));
+    }
+    setLoading(false);
+  }, [direction, t]);
+
+  useEffect(() => {
+    loadTransfers();
+  }, [loadTransfers]);
+
+  const openDialog = async (transfer: StockTransfer, dialogMode: Mode) => {
+    const response = await apiService.getStockTransfer(transfer.id);
+    if (!response.success || !response.data) {
+      onNotify(response.error || t('transfers.loadError'), 'error');
+      return;
+    }
+
+    const details = response.data.transfer;
+    const inputs: Record<string, LineInput> = {};
+    (details.items || []).forEach(item => {
+      const expected = dialogMode === 'ship' ? item.quantity_approved : item.quantity_shipped;
+      inputs[item.id] = { quantity: String(Number(expected) || 0), notes: '' };
+    });
+
+    setMode(dialogMode);
+    setLineInputs(inputs);
+    setActiveTransfer(details);
+  };
+
+  const closeDialog = () => {
+    setActiveTransfer(null);
+    setLineInputs({});
+  };
+
+  const updateLine = (itemId: string, field: keyof LineInput, value: string) => {
+    setLineInputs(prev => ({ ...prev, [itemId]: { ...prev[itemId], [field]: value } }));
+  };
+
+  const handleSubmit = async () => {
+    if (!activeTransfer || !user) return;
+
+    const items = (activeTransfer.items || []).map(item => ({
+      itemId: item.id,
+      quantity: Math.max(0, Math.round((parseFloat(lineInputs[item.id]?.quantity || '0') || 0) * 1000) / 1000),
+      notes: lineInputs[item.id]?.notes || undefined,
+    }));
+
+    setSubmitting(true);
+    const response = mode === 'ship'
+      ? await apiService.shipStockTransfer(activeTransfer.id, user.employeeId, items)
+      : await apiService.receiveStockTransfer(activeTransfer.id, user.employeeId, items);
+    setSubmitting(false);
+
+    if (!response.success || !response.data) {
+      onNotify(response.error || t('transfers.actionError'), 'error');
+      return;
+    }
+
+    if (mode === 'ship') {
+      onNotify(t('transfers.shippedSuccess'), 'success');
+    } else if (response.data.transfer.has_discrepancy) {
+      onNotify(t('transfers.receivedWithDiscrepancy'), 'warning');
+    } else {
+      onNotify(t('transfers.receivedSuccess'), 'success');
+    }
+
+    closeDialog();
+    loadTransfers();
+  };
+
+  const expectedFor = (item: NonNullable<StockTransfer['items']>[number]) =>
+    Number(mode === 'ship' ? item.quantity_approved : item.quantity_shipped) || 0;
+
+  return (
+    <Box>
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" gap={2} flexWrap="wrap">
+          <ToggleButtonGroup
+            value={direction}
+            exclusive
+            size="small"
+            onChange={(_event, value: Direction | null) => value && setDirection(value)}
+          >
+            <ToggleButton value="incoming">{t('transfers.incoming')}</ToggleButton>
+            <ToggleButton value="outgoing">{t('transfers.outgoing')}</ToggleButton>
+          </ToggleButtonGroup>
+          <Button startIcon={<Refresh />} onClick={loadTransfers} disabled={loading}>
+            {t('transfers.refresh')}
+          </Button>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('transfers.number')}</TableCell>
+              <TableCell>{direction === 'incoming' ? t('transfers.from') : t('transfers.to')}</TableCell>
+              <TableCell align="center">{t('transfers.items')}</TableCell>
+              <TableCell>{t('transfers.requestedAt')}</TableCell>
+              <TableCell align="center">{t('transfers.status')}</TableCell>
+              <TableCell align="center">{t('transfers.actions')}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  <CircularProgress size={24} />
+                </TableCell>
+              </TableRow>
+            ) : transfers.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  <Typography color="text.secondary">{t('transfers.noTransfers')}</Typography>
+                </TableCell>
+              </TableRow>
+            ) : transfers.map(transfer => (
+              <TableRow key={transfer.id}>
+                <TableCell>{transfer.transfer_number}</TableCell>
+                <TableCell>{direction === 'incoming' ? transfer.from_branch_name : transfer.to_branch_name}</TableCell>
+                <TableCell align="center">{transfer.item_count}</TableCell>
+                <TableCell>{new Date(transfer.requested_at).toLocaleString()}</TableCell>
+                <TableCell align="center">
+                  <Box display="flex" justifyContent="center" gap={1}>
+                    <Chip
+                      label={t(`transfers.statuses.${transfer.status}`)}
+                      color={statusColors[transfer.status]}
+                      size="small"
+                    />
+                    {transfer.has_discrepancy && (
+                      <Chip label={t('transfers.discrepancy')} color="warning" size="small" />
+                    )}
+                  </Box>
+                </TableCell>
+                <TableCell align="center">
+                  {direction === 'outgoing' && transfer.status === 'approved' && (
+                    <Button size="small" variant="contained" startIcon={<LocalShipping />} onClick={() => openDialog(transfer, 'ship')}>
+                      {t('transfers.ship')}
+                    </Button>
+                  )}
+                  {direction === 'incoming' && transfer.status === 'shipped' && (
+                    <Button size="small" variant="contained" startIcon={<MoveToInbox />} onClick={() => openDialog(transfer, 'receive')}>
+                      {t('transfers.receive')}
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Dialog open={!!activeTransfer} onClose={closeDialog} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {mode === 'ship'
+            ? t('transfers.shipTitle', { number: activeTransfer?.transfer_number })
+            : t('transfers.receiveTitle', { number: activeTransfer?.transfer_number })}
+        </DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {mode === 'ship' ? t('transfers.shipHint') : t('transfers.receiveHint')}
+          </Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('transfers.product')}</TableCell>
+                <TableCell align="right">
+                  {mode === 'ship' ? t('transfers.approvedQty') : t('transfers.shippedQty')}
+                </TableCell>
+                <TableCell align="right">
+                  {mode === 'ship' ? t('transfers.shipQty') : t('transfers.receivedQty')}
+                </TableCell>
+                {mode === 'receive' && <TableCell>{t('transfers.notes')}</TableCell>}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {(activeTransfer?.items || []).map(item => {
+                const expected = expectedFor(item);
+                const entered = parseFloat(lineInputs[item.id]?.quantity || '0') || 0;
+                const mismatch = mode === 'receive' && entered !== expected;
+
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <Typography variant="body2">{item.product_name}</Typography>
+                      <Typography variant="caption" color="text.secondary">{item.barcode || item.sku}</Typography>
+                    </TableCell>
+                    <TableCell align="right">{expected}</TableCell>
+                    <TableCell align="right">
+                      <TextField
+                        type="number"
+                        size="small"
+                        value={lineInputs[item.id]?.quantity ?? ''}
+                        onChange={(e) => updateLine(item.id, 'quantity', e.target.value)}
+                        error={mismatch || (mode === 'ship' && entered > expected)}
+                        inputProps={{ min: 0, max: mode === 'ship' ? expected : undefined, step: 'any' }}
+                        sx={{ width: 100 }}
+                      />
+                    </TableCell>
+                    {mode === 'receive' && (
+                      <TableCell>
+                        <TextField
+                          size="small"
+                          fullWidth
+                          placeholder={mismatch ? t('transfers.discrepancyNotes') : ''}
+                          value={lineInputs[item.id]?.notes ?? ''}
+                          onChange={(e) => updateLine(item.id, 'notes', e.target.value)}
+                        />
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialog} disabled={submitting}>{t('common.cancel')}</Button>
+          <Button variant="contained" onClick={handleSubmit} disabled={submitting}>
+            {submitting
+              ? <CircularProgress size={20} />
+              : mode === 'ship' ? t('transfers.confirmShip') : t('transfers.confirmReceive')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
@@ -0,0 +1,607 @@
+import {
+  Add,
+  FactCheck,
+  QrCodeScanner,
+  Refresh,
+} from '@mui/icons-material';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../hooks/useAuth';
+import type { Stocktake, StocktakeItem, StocktakeScope, StocktakeStatus } from '../../services/api';
+import { apiService } from '../../services/api';
+
+type View = 'open' | 'all';
+type ItemFilter = 'all' | 'uncounted' | 'variances';
+
+interface StocktakePanelProps {
+  onNotify: (message: string, severity: 'success' | 'error' | 'warning') => void;
+}
+
+const statusColors: Record<StocktakeStatus, 'default' | 'info' | 'primary' | 'success' | 'error' | 'warning'> = {
+  counting: 'primary',
+  review: 'warning',
+  approved: 'success',
+  cancelled: 'default',
+};
+
+// Other staff may be scanning the same stocktake; their counts show up on the next refresh
+const COUNT_REFRESH_INTERVAL = 10000;
+
+const emptyNewStocktake = {
+  name: '',
+  scope: 'full' as StocktakeScope,
+  categoryId: '',
+  location: '',
+  notes: '',
+};
+
+export const StocktakePanel = ({ onNotify }: StocktakePanelProps) => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  const [view, setView] = useState<View>('open');
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // New stocktake dialog
+  const [newOpen, setNewOpen] = useState(false);
+  const [newStocktake, setNewStocktake] = useState(emptyNewStocktake);
+  const [categories, setCategories] = useState<{ id: string; name: string; product_count: number }[]>([]);
+  const [locations, setLocations] = useState<string[]>([]);
+
+  // Counting / review dialog
+  const [active, setActive] = useState<Stocktake | null>(null);
+  const [itemFilter, setItemFilter] = useState<ItemFilter>('all');
+  const [scanValue, setScanValue] = useState('');
+  const [scanQuantity, setScanQuantity] = useState('1');
+  const [lastScanned, setLastScanned] = useState<StocktakeItem | null>(null);
+  const [selectedProductIds, setSelectedProductIds] = useState<string[]>([]);
+  const [uncountedAsZero, setUncountedAsZero] = useState(false);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+
+  const loadStocktakes = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const response = await apiService.getStocktakes();
+    if (response.success && response.data) {
+      const all = response.data.stocktakes;
+      setStocktakes(view === 'open' ? all.filter(stocktake => stocktake.status === 'counting' || stocktake.status === 'review') : all);
+    } else {
+      setStocktakes([]);
+      setError(response.error || t('stocktake.loadError'));
+    }
+    setLoading(false);
+  }, [view, t]);
+
+  useEffect(() => {
+    loadStocktakes();
+  }, [loadStocktakes]);
+
+  const refreshActive = useCallback(async (stocktakeId: string) => {
+    const response = await apiService.getStocktake(stocktakeId);
+    if (response.success && response.data) {
+      setActive(response.data.stocktake);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!active || active.status !== 'counting') return;
+
+    const timer = setInterval(() => refreshActive(active.id), COUNT_REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [active, refreshActive]);
+
+  const openNewDialog = async () => {
+    setNewStocktake(emptyNewStocktake);
+    setNewOpen(true);
+
+    const [categoriesResponse, locationsResponse] = await Promise.all([
+      apiService.getCategories(),
+      apiService.getProductLocations(),
+    ]);
+    if (categoriesResponse.success && categoriesResponse.data) {
+      setCategories(categoriesResponse.data.categories);
+    }
+    if (locationsResponse.success && locationsResponse.data) {
+      setLocations(locationsResponse.data.locations.map(entry => entry.location));
+    }
+  };
+
+  const canCreate = newStocktake.scope === 'full' ||
+    (newStocktake.scope === 'category' && !!newStocktake.categoryId) ||
+    (newStocktake.scope === 'location' && !!newStocktake.location.trim());
+
+  const handleCreate = async () => {
+    if (!user || !canCreate) return;
+
+    setSubmitting(true);
+    const response = await apiService.createStocktake({
+      name: newStocktake.name || undefined,
+      scope: newStocktake.scope,
+      categoryId: newStocktake.scope === 'category' ? newStocktake.categoryId : undefined,
+      location: newStocktake.scope === 'location' ? newStocktake.location.trim() : undefined,
+      notes: newStocktake.notes || undefined,
+      employeeId: user.employeeId,
+    });
+    setSubmitting(false);
+
+    if (!response.success || !response.data) {
+      onNotify(response.error || t('stocktake.actionError'), 'error');
+      return;
+    }
+
+    onNotify(t('stocktake.started', { count: response.data.stocktake.item_count }), 'success');
+    setNewOpen(false);
+    loadStocktakes();
+    openStocktake(response.data.stocktake);
+  };
+
+  const openStocktake = async (stocktake: Stocktake) => {
+    const response = await apiService.getStocktake(stocktake.id);
+    if (!response.success || !response.data) {
+      onNotify(response.error || t('stocktake.loadError'), 'error');
+      return;
+    }
+
+    const details = response.data.stocktake;
+    setActive(details);
+    setItemFilter(details.status === 'review' ? 'variances' : 'all');
+    setLastScanned(null);
+    setScanValue('');
+    setScanQuantity('1');
+    setUncountedAsZero(false);
+    setSelectedProductIds((details.items || [])
+      .filter(item => item.variance !== null && item.variance !== 0)
+      .map(item => item.product_id));
+  };
+
+  const closeStocktake = () => {
+    setActive(null);
+    loadStocktakes();
+  };
+
+  const handleScan = async () => {
+    if (!active || !user || !scanValue.trim()) return;
+
+    const quantity = Math.round(parseFloat(scanQuantity) * 1000) / 1000;
+    if (!quantity) {
+      onNotify(t('stocktake.invalidQuantity'), 'warning');
+      return;
+    }
+
+    const response = await apiService.recordStocktakeCount(active.id, {
+      barcode: scanValue.trim(),
+      quantity,
+      employeeId: user.employeeId,
+    });
+    setScanValue('');
+    setScanQuantity('1');
+    scanInputRef.current?.focus();
+
+    if (!response.success || !response.data) {
+      onNotify(response.error || t('stocktake.scanError'), 'error');
+      return;
+    }
+
+    const item = response.data.item;
+    setLastScanned(item);
+    setActive(prev => prev && {
+      ...prev,
+      items: (prev.items || []).map(existing => (existing.id === item.id ? item : existing)),
+    });
+  };
+
+  const runAction = async (
+    action: () => Promise<{ success: boolean; error?: string; data?: { stocktake: Stocktake } }>,
+    successMessage: string
+  ) => {
+    setSubmitting(true);
+    const response = await action();
+    setSubmitting(false);
+
+    if (!response.success || !response.data) {
+      onNotify(response.error || t('stocktake.actionError'), 'error');
+      return;
+    }
+
+    onNotify(successMessage, 'success');
+    openStocktake(response.data.stocktake);
+    loadStocktakes();
+  };
+
+  const handleApprove = () => {
+    if (!active || !user) return;
+
+    const productIds = uncountedAsZero
+      ? [...selectedProductIds, ...(active.items || []).filter(item => item.counted_quantity === null).map(item => item.product_id)]
+      : selectedProductIds;
+
+    runAction(
+      () => apiService.approveStocktake(active.id, user.employeeId, { productIds, uncountedAsZero }),
+      t('stocktake.approvedSuccess')
+    );
+  };
+
+  const handleCancel = () => {
+    if (!active || !window.confirm(t('stocktake.confirmCancel'))) return;
+    runAction(() => apiService.cancelStocktake(active.id), t('stocktake.cancelledSuccess'));
+  };
+
+  const toggleSelected = (productId: string) => {
+    setSelectedProductIds(prev => (prev.includes(productId)
+      ? prev.filter(id => id !== productId)
+      : [...prev, productId]));
+  };
+
+  const scopeLabel = (stocktake: Stocktake) => {
+    if (stocktake.scope_type === 'category') return `${t('stocktake.scopes.category')}: ${stocktake.category_name}`;
+    if (stocktake.scope_type === 'location') return `${t('stocktake.scopes.location')}: ${stocktake.location}`;
+    return t('stocktake.scopes.full');
+  };
+
+  const visibleItems = (active?.items || []).filter(item => {
+    if (itemFilter === 'uncounted') return item.counted_quantity === null;
+    if (itemFilter === 'variances') return item.variance !== null && item.variance !== 0;
+    return true;
+  });
+
+  const isReview = active?.status === 'review';
+
+  return (
+    <Box>
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" gap={2} flexWrap="wrap">
+          <ToggleButtonGroup
+            value={view}
+            exclusive
+            size="small"
+            onChange={(_event, value: View | null) => value && setView(value)}
+          >
+            <ToggleButton value="open">{t('stocktake.open')}</ToggleButton>
+            <ToggleButton value="all">{t('stocktake.all')}</ToggleButton>
+          </ToggleButtonGroup>
+          <Box display="flex" gap={1}>
+            <Button startIcon={<Refresh />} onClick={loadStocktakes} disabled={loading}>
+              {t('stocktake.refresh')}
+            </Button>
+            <Button variant="contained" startIcon={<Add />} onClick={openNewDialog}>
+              {t('stocktake.newStocktake')}
+            </Button>
+          </Box>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('stocktake.number')}</TableCell>
+              <TableCell>{t('stocktake.scope')}</TableCell>
+              <TableCell align="center">{t('stocktake.progress')}</TableCell>
+              <TableCell align="center">{t('stocktake.variances')}</TableCell>
+              <TableCell>{t('stocktake.snapshotAt')}</TableCell>
+              <TableCell align="center">{t('stocktake.status')}</TableCell>
+              <TableCell align="center">{t('stocktake.actions')}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} align="center">
+                  <CircularProgress size={24} />
+                </TableCell>
+              </TableRow>
+            ) : stocktakes.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} align="center">
+                  <Typography color="text.secondary">{t('stocktake.noStocktakes')}</Typography>
+                </TableCell>
+              </TableRow>
+            ) : stocktakes.map(stocktake => (
+              <TableRow key={stocktake.id}>
+                <TableCell>
+                  <Typography variant="body2">{stocktake.stocktake_number}</Typography>
+                  {stocktake.name && <Typography variant="caption" color="text.secondary">{stocktake.name}</Typography>}
+                </TableCell>
+                <TableCell>{scopeLabel(stocktake)}</TableCell>
+                <TableCell align="center">{stocktake.counted_count} / {stocktake.item_count}</TableCell>
+                <TableCell align="center">{stocktake.variance_count}</TableCell>
+                <TableCell>{new Date(stocktake.snapshot_at).toLocaleString()}</TableCell>
+                <TableCell align="center">
+                  <Chip label={t(`stocktake.statuses.${stocktake.status}`)} color={statusColors[stocktake.status]} size="small" />
+                </TableCell>
+                <TableCell align="center">
+                  <Button
+                    size="small"
+                    variant={stocktake.status === 'counting' || stocktake.status === 'review' ? 'contained' : 'text'}
+                    startIcon={stocktake.status === 'counting' ? <QrCodeScanner /> : <FactCheck />}
+                    onClick={() => openStocktake(stocktake)}
+                  >
+                    {stocktake.status === 'counting'
+                      ? t('stocktake.count')
+                      : stocktake.status === 'review' ? t('stocktake.review') : t('stocktake.view')}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* New stocktake */}
+      <Dialog open={newOpen} onClose={() => setNewOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{t('stocktake.newStocktake')}</DialogTitle>
+        <DialogContent>
+          <Box display="flex" flexDirection="column" gap={2} mt={1}>
+            <Typography variant="body2" color="text.secondary">
+              {t('stocktake.snapshotHint')}
+            </Typography>
+            <TextField
+              label={t('stocktake.name')}
+              value={newStocktake.name}
+              onChange={(e) => setNewStocktake(prev => ({ ...prev, name: e.target.value }))}
+              fullWidth
+            />
+            <FormControl fullWidth>
+              <InputLabel>{t('stocktake.scope')}</InputLabel>
+              <Select
+                value={newStocktake.scope}
+                label={t('stocktake.scope')}
+                onChange={(e) => setNewStocktake(prev => ({ ...prev, scope: e.target.value as StocktakeScope }))}
+              >
+                <MenuItem value="full">{t('stocktake.scopes.full')}</MenuItem>
+                <MenuItem value="category">{t('stocktake.scopes.category')}</MenuItem>
+                <MenuItem value="location">{t('stocktake.scopes.location')}</MenuItem>
+              </Select>
+            </FormControl>
+            {newStocktake.scope === 'category' && (
+              <FormControl fullWidth>
+                <InputLabel>{t('stocktake.scopes.category')}</InputLabel>
+                <Select
+                  value={newStocktake.categoryId}
+                  label={t('stocktake.scopes.category')}
+                  onChange={(e) => setNewStocktake(prev => ({ ...prev, categoryId: e.target.value }))}
+                >
+                  {categories.map(category => (
+                    <MenuItem key={category.id} value={category.id}>
+                      {category.name} ({category.product_count})
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+            {newStocktake.scope === 'location' && (
+              <Autocomplete
+                freeSolo
+                options={locations}
+                inputValue={newStocktake.location}
+                onInputChange={(_event, value) => setNewStocktake(prev => ({ ...prev, location: value }))}
+                renderInput={(params) => <TextField {...params} label={t('stocktake.scopes.location')} />}
+              />
+            )}
+            <TextField
+              label={t('stocktake.notes')}
+              value={newStocktake.notes}
+              onChange={(e) => setNewStocktake(prev => ({ ...prev, notes: e.target.value }))}
+              multiline
+              rows={2}
+              fullWidth
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setNewOpen(false)} disabled={submitting}>{t('common.cancel')}</Button>
+          <Button variant="contained" onClick={handleCreate} disabled={submitting || !canCreate}>
+            {submitting ? <CircularProgress size={20} /> : t('stocktake.start')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Counting and review */}
+      <Dialog open={!!active} onClose={closeStocktake} maxWidth="lg" fullWidth>
+        <DialogTitle>
+          <Box display="flex" alignItems="center" gap={2}>
+            {active?.stocktake_number}
+            {active && (
+              <>
+                <Chip label={t(`stocktake.statuses.${active.status}`)} color={statusColors[active.status]} size="small" />
+                <Typography variant="body2" color="text.secondary">
+                  {scopeLabel(active)} · {t('stocktake.countedOf', { counted: active.counted_count, total: active.item_count })}
+                </Typography>
+              </>
+            )}
+          </Box>
+        </DialogTitle>
+        <DialogContent>
+          {active?.status === 'counting' && (
+            <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+              <Box display="flex" gap={2} alignItems="center">
+                <TextField
+                  inputRef={scanInputRef}
+                  autoFocus
+                  fullWidth
+                  label={t('stocktake.scanBarcode')}
+                  value={scanValue}
+                  onChange={(e) => setScanValue(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleScan();
+                    }
+                  }}
+                  InputProps={{
+                    startAdornment: (
+                      <InputAdornment position="start">
+                        <QrCodeScanner />
+                      </InputAdornment>
+                    ),
+                  }}
+                />
+                <TextField
+                  type="number"
+                  label={t('stocktake.quantity')}
+                  value={scanQuantity}
+                  onChange={(e) => setScanQuantity(e.target.value)}
+                  helperText={t('stocktake.quantityHint')}
+                  inputProps={{ step: 'any' }}
+                  sx={{ width: 160 }}
+                />
+              </Box>
+              {lastScanned && (
+                <Alert severity="success" sx={{ mt: 2 }}>
+                  {t('stocktake.lastScanned', { product: lastScanned.product_name, counted: lastScanned.counted_quantity })}
+                </Alert>
+              )}
+            </Paper>
+          )}
+
+          {isReview && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              {t('stocktake.reviewHint')}
+            </Alert>
+          )}
+
+          <ToggleButtonGroup
+            value={itemFilter}
+            exclusive
+            size="small"
+            onChange={(_event, value: ItemFilter | null) => value && setItemFilter(value)}
+            sx={{ mb: 1 }}
+          >
+            <ToggleButton value="all">{t('stocktake.filters.all')}</ToggleButton>
+            <ToggleButton value="uncounted">{t('stocktake.filters.uncounted')}</ToggleButton>
+            <ToggleButton value="variances">{t('stocktake.filters.variances')}</ToggleButton>
+          </ToggleButtonGroup>
+
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                {isReview && <TableCell padding="checkbox" />}
+                <TableCell>{t('stocktake.product')}</TableCell>
+                <TableCell>{t('stocktake.location')}</TableCell>
+                <TableCell align="right">{t('stocktake.expected')}</TableCell>
+                <TableCell align="right">{t('stocktake.counted')}</TableCell>
+                <TableCell align="right">{t('stocktake.variance')}</TableCell>
+                {active?.status === 'approved' && <TableCell align="right">{t('stocktake.posted')}</TableCell>}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {visibleItems.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} align="center">
+                    <Typography color="text.secondary">{t('stocktake.noItems')}</Typography>
+                  </TableCell>
+                </TableRow>
+              ) : visibleItems.map(item => (
+                <TableRow key={item.id}>
+                  {isReview && (
+                    <TableCell padding="checkbox">
+                      {item.variance !== null && item.variance !== 0 && (
+                        <Checkbox
+                          checked={selectedProductIds.includes(item.product_id)}
+                          onChange={() => toggleSelected(item.product_id)}
+                        />
+                      )}
+                    </TableCell>
+                  )}
+                  <TableCell>
+                    <Typography variant="body2">{item.product_name}</Typography>
+                    <Typography variant="caption" color="text.secondary">{item.barcode || item.sku}</Typography>
+                  </TableCell>
+                  <TableCell>{item.location || '-'}</TableCell>
+                  <TableCell align="right">{item.expected_quantity}</TableCell>
+                  <TableCell align="right">{item.counted_quantity ?? '-'}</TableCell>
+                  <TableCell
+                    align="right"
+                    sx={{ color: item.variance ? (item.variance > 0 ? 'success.main' : 'error.main') : undefined, fontWeight: item.variance ? 600 : undefined }}
+                  >
+                    {item.variance === null ? '-' : item.variance > 0 ? `+${item.variance}` : item.variance}
+                  </TableCell>
+                  {active?.status === 'approved' && (
+                    <TableCell align="right">{item.adjustment_quantity ?? '-'}</TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {isReview && (
+            <FormControlLabel
+              sx={{ mt: 2 }}
+              control={<Checkbox checked={uncountedAsZero} onChange={(e) => setUncountedAsZero(e.target.checked)} />}
+              label={t('stocktake.uncountedAsZero', { count: active.item_count - active.counted_count })}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          {active && (active.status === 'counting' || active.status === 'review') && (
+            <Button color="inherit" onClick={handleCancel} disabled={submitting} sx={{ mr: 'auto' }}>
+              {t('stocktake.cancelStocktake')}
+            </Button>
+          )}
+          <Button onClick={closeStocktake} disabled={submitting}>{t('common.close')}</Button>
+          {active?.status === 'counting' && (
+            <Button
+              variant="contained"
+              onClick={() => runAction(() => apiService.finishStocktakeCounting(active.id), t('stocktake.finishedSuccess'))}
+              disabled={submitting}
+            >
+              {t('stocktake.finishCounting')}
+            </Button>
+          )}
+          {isReview && active && (
+            <>
+              <Button
+                onClick={() => runAction(() => apiService.reopenStocktakeCounting(active.id), t('stocktake.reopenedSuccess'))}
+                disabled={submitting}
+              >
+                {t('stocktake.reopen')}
+              </Button>
+              <Button variant="contained" onClick={handleApprove} disabled={submitting}>
+                {submitting ? <CircularProgress size={20} /> : t('stocktake.approve')}
+              </Button>
+            </>
+          )}
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
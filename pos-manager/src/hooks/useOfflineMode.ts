@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { OfflineStatus, OfflineSyncResult, QueuedOfflineSale } from '../services/offlineStore';
+import { offlineStore } from '../services/offlineStore';
+
+export interface UseOfflineModeReturn extends OfflineStatus {
+  offlineTerminalId: string | null;
+  queuedSales: QueuedOfflineSale[];
+  syncNow: (includeRejected?: boolean) => Promise<OfflineSyncResult>;
+  checkConnection: () => Promise<boolean>;
+  onSynced: (callback: (result: OfflineSyncResult) => void) => () => void;
+}
+
+export function useOfflineMode(): UseOfflineModeReturn {
+  const { i18n } = useTranslation();
+  const [status, setStatus] = useState<OfflineStatus>(() => offlineStore.getStatus());
+  const [queuedSales, setQueuedSales] = useState<QueuedOfflineSale[]>(() => offlineStore.getQueuedSales());
+
+  useEffect(() => {
+    const unsubscribe = offlineStore.subscribe((nextStatus) => {
+      setStatus(nextStatus);
+      setQueuedSales(offlineStore.getQueuedSales());
+    });
+    setStatus(offlineStore.getStatus());
+
+    return unsubscribe;
+  }, []);
+
+  // Starts the connection watch once and keeps the cached catalog in the cashier's language
+  useEffect(() => {
+    offlineStore.start(i18n.language);
+  }, [i18n.language]);
+
+  const syncNow = useCallback(async (includeRejected = false) => {
+    if (await offlineStore.checkConnection()) {
+      return offlineStore.syncQueue(includeRejected);
+    }
+    return { synced: 0, conflicts: 0, rejected: 0 };
+  }, []);
+
+  const checkConnection = useCallback(() => offlineStore.checkConnection(), []);
+
+  const onSynced = useCallback((callback: (result: OfflineSyncResult) => void) => {
+    return offlineStore.onSynced(callback);
+  }, []);
+
+  return {
+    ...status,
+    offlineTerminalId: offlineStore.getTerminalId(),
+    queuedSales,
+    syncNow,
+    checkConnection,
+    onSynced,
+  };
+}
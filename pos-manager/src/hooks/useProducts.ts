@@ -2,13 +2,16 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import type { ApiResponse, Product } from '../services/api';
 import { apiService } from '../services/api';
+import { offlineStore } from '../services/offlineStore';
 
-// Helper function to convert string prices to numbers
+// Helper function to convert string prices and (DECIMAL) quantities to numbers
 const normalizeProduct = (product: any): Product => {
   const normalized = {
     ...product,
     price: typeof product.price === 'string' ? parseFloat(product.price) : product.price,
     cost: typeof product.cost === 'string' ? parseFloat(product.cost) : product.cost,
+    quantity_in_stock: typeof product.quantity_in_stock === 'string' ? parseFloat(product.quantity_in_stock) : product.quantity_in_stock,
+    low_stock_threshold: typeof product.low_stock_threshold === 'string' ? parseFloat(product.low_stock_threshold) : product.low_stock_threshold,
   };
   
   return normalized;
@@ -17,6 +20,14 @@ const normalizeProduct = (product: any): Product => {
 const normalizeProducts = (products: any[]): Product[] => 
   products.map(normalizeProduct);
 
+// A scanned product; quantity is set when the barcode was a scale label carrying it
+// or a multipack barcode, lineTotal when the label carries the price to charge
+export interface ScannedProduct {
+  product: Product;
+  quantity?: number;
+  lineTotal?: number;
+}
+
 export interface UseProductsReturn {
   products: Product[];
   categories: { key: string; name: string; product_count: number }[];
@@ -25,7 +36,7 @@ export interface UseProductsReturn {
   error: string | null;
   searchProducts: (query: string, limit?: number, offset?: number) => Promise<Product[]>;
   searchProductsForAutoComplete: (query: string) => Promise<Product[]>;
-  getProductByBarcode: (barcode: string) => Promise<Product | null>;
+  getProductByBarcode: (barcode: string) => Promise<ScannedProduct | null>;
   getAllProducts: () => Promise<Product[]>;
   getCategories: () => Promise<{ key: string; name: string; product_count: number }[]>;
   getProductsByCategory: (category: string, limit?: number, offset?: number) => Promise<Product[]>;
@@ -146,6 +157,14 @@ export function useProducts(): UseProductsReturn {
         try {
           const response: ApiResponse<{ products: Product[] }> = 
             await apiService.autocompleteProducts(query.trim(), 8, i18n.language);
+
+          if (response.offline) {
+            offlineStore.reportOffline();
+            const cachedProducts = offlineStore.searchProducts(query, 8);
+            setSearchSuggestions(cachedProducts);
+            resolve(cachedProducts);
+            return;
+          }
           
           if (response.success && response.data && response.data.products) {
             const normalizedProducts = normalizeProducts(response.data.products);
@@ -184,6 +203,13 @@ export function useProducts(): UseProductsReturn {
         offset,
         language: i18n.language 
       });
+
+      if (response.offline) {
+        offlineStore.reportOffline();
+        const cachedProducts = offlineStore.searchProducts(query, limit);
+        setProducts(cachedProducts);
+        return cachedProducts;
+      }
       
       if (response.success && response.data && response.data.products) {
         const normalizedProducts = normalizeProducts(response.data.products);
@@ -203,16 +229,27 @@ export function useProducts(): UseProductsReturn {
     }
   }, [i18n.language]);
 
-  const getProductByBarcode = useCallback(async (barcode: string): Promise<Product | null> => {
+  const getProductByBarcode = useCallback(async (barcode: string): Promise<ScannedProduct | null> => {
     setLoading(true);
     setError(null);
 
     try {
       const response = await apiService.getProductByBarcode(barcode, i18n.language);
+
+      if (response.offline) {
+        offlineStore.reportOffline();
+        const offlineProduct = offlineStore.findByBarcode(barcode);
+        return offlineProduct ? { product: offlineProduct } : null;
+      }
       
       if (response.success && response.data && response.data.product) {
         const normalizedProduct = normalizeProduct(response.data.product);
-        return normalizedProduct;
+        const quantity = response.data.embedded?.quantity
+          ?? (response.data.packaging && response.data.packaging.quantity_multiplier !== 1
+            ? Number(response.data.packaging.quantity_multiplier)
+            : undefined);
+        const lineTotal = response.data.embedded?.kind === 'price' ? response.data.embedded.price : undefined;
+        return { product: normalizedProduct, quantity, lineTotal };
       } else {
         const errorMsg = response.error || 'Product not found';
         setError(errorMsg);
@@ -364,6 +401,13 @@ export function useProducts(): UseProductsReturn {
 
     try {
       const response: ApiResponse<{ categories: { key: string; name: string; product_count: number }[] }> = await apiService.getCategories(i18n.language);
+
+      if (response.offline) {
+        offlineStore.reportOffline();
+        const cachedCategories = offlineStore.getCategories();
+        setCategories(cachedCategories);
+        return cachedCategories;
+      }
       
       if (response.success && response.data) {
         setCategories(response.data.categories);
@@ -392,6 +436,13 @@ export function useProducts(): UseProductsReturn {
         offset,
         language: i18n.language 
       });
+
+      if (response.offline) {
+        offlineStore.reportOffline();
+        const cachedProducts = offlineStore.getProductsByCategory(category);
+        setProducts(cachedProducts);
+        return cachedProducts;
+      }
       
       if (response.success && response.data && response.data.products) {
         const normalizedProducts = normalizeProducts(response.data.products);
@@ -419,6 +470,11 @@ export function useProducts(): UseProductsReturn {
 
     try {
       const response = await apiService.getProductsByIds(productIds, i18n.language);
+
+      if (response.offline) {
+        offlineStore.reportOffline();
+        return offlineStore.getProductsByIds(productIds);
+      }
       
       if (response.success && response.data && response.data.products) {
         const normalizedProducts = normalizeProducts(response.data.products);
@@ -1,5 +1,5 @@
 import { useCallback, useState } from 'react';
-import type { ApiResponse, Transaction } from '../services/api';
+import type { ApiResponse, RefundRequest, RefundResult, Transaction } from '../services/api';
 import { apiService } from '../services/api';
 
 export interface UseTransactionsReturn {
@@ -16,7 +16,8 @@ export interface UseTransactionsReturn {
   }) => Promise<Transaction[]>;
   getTransactionById: (id: string) => Promise<Transaction | null>;
   voidTransaction: (id: string, reason: string) => Promise<boolean>;
-  refundTransaction: (id: string, reason: string) => Promise<boolean>;
+  refundTransaction: (id: string, refund: RefundRequest) => Promise<RefundResult | null>;
+  retryRefund: (refundId: string) => Promise<RefundResult | null>;
   clearError: () => void;
 }
 
@@ -138,32 +139,64 @@ export function useTransactions(): UseTransactionsReturn {
     }
   }, []);
 
-  const refundTransaction = useCallback(async (id: string, reason: string): Promise<boolean> => {
+  const refundTransaction = useCallback(async (id: string, refund: RefundRequest): Promise<RefundResult | null> => {
     setLoading(true);
     setError(null);
 
     try {
-      const response: ApiResponse = await apiService.refundTransaction(id, reason);
+      const response: ApiResponse<RefundResult> = await apiService.refundTransaction(id, refund);
       
-      if (response.success) {
-        // Update local state
+      if (response.success && response.data) {
+        const { transactionStatus } = response.data;
+        // Update local state - a partial refund leaves the sale completed
         setTransactions(prev => 
           prev.map(t => 
             t.id === id 
-              ? { ...t, status: 'refunded' as const }
+              ? { ...t, status: transactionStatus }
               : t
           )
         );
-        return true;
+        return response.data;
       } else {
         const errorMsg = response.error || 'Failed to refund transaction';
         setError(errorMsg);
-        return false;
+        return null;
       }
     } catch (err: any) {
       const errorMsg = err.message || 'Network error occurred';
       setError(errorMsg);
-      return false;
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const retryRefund = useCallback(async (refundId: string): Promise<RefundResult | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response: ApiResponse<RefundResult> = await apiService.retryRefund(refundId);
+
+      if (response.success && response.data) {
+        const { refund, transactionStatus } = response.data;
+        setTransactions(prev =>
+          prev.map(t =>
+            t.id === refund.original_transaction_id
+              ? { ...t, status: transactionStatus }
+              : t
+          )
+        );
+        return response.data;
+      } else {
+        const errorMsg = response.error || 'Failed to retry refund';
+        setError(errorMsg);
+        return null;
+      }
+    } catch (err: any) {
+      const errorMsg = err.message || 'Network error occurred';
+      setError(errorMsg);
+      return null;
     } finally {
       setLoading(false);
     }
@@ -178,6 +211,7 @@ export function useTransactions(): UseTransactionsReturn {
     getTransactionById,
     voidTransaction,
     refundTransaction,
+    retryRefund,
     clearError,
   };
 }
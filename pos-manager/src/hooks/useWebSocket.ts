@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useState } from 'react';
-import type { InventoryChange, PriceResponse, TerminalStatus } from '../services/websocket';
+import type { InventoryChange, PriceResponse, TerminalStatus, WebSocketMessage } from '../services/websocket';
 import { wsService } from '../services/websocket';
 
 export interface UseWebSocketReturn {
@@ -12,6 +12,7 @@ export interface UseWebSocketReturn {
   onPriceResponse: (callback: (data: PriceResponse) => void) => () => void;
   onInventoryChanged: (callback: (data: InventoryChange) => void) => () => void;
   onTerminalStatus: (callback: (data: TerminalStatus) => void) => () => void;
+  onTerminalDiscovery: (callback: (message: WebSocketMessage) => void) => () => void;
 }
 
 export function useWebSocket(): UseWebSocketReturn {
@@ -100,6 +101,16 @@ export function useWebSocket(): UseWebSocketReturn {
     };
   }, []);
 
+  // terminal_discovered, terminal_discovery_scan and terminal_adopted from the branch server
+  const onTerminalDiscovery = useCallback((callback: (message: WebSocketMessage) => void) => {
+    wsService.on('terminal_discovery', callback);
+
+    // Return cleanup function
+    return () => {
+      wsService.off('terminal_discovery', callback);
+    };
+  }, []);
+
   return {
     isConnected,
     terminalId,
@@ -110,5 +121,6 @@ export function useWebSocket(): UseWebSocketReturn {
     onPriceResponse,
     onInventoryChanged,
     onTerminalStatus,
+    onTerminalDiscovery,
   };
 }
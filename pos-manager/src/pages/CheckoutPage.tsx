@@ -1,12 +1,18 @@
 import {
   Add,
+  CardMembership,
   CheckCircle,
+  CloudOff,
   Delete,
+  Inventory2,
+  Pause,
   Payment as PaymentIcon,
+  PersonSearch,
   QrCodeScanner,
   Remove,
   Search,
   ShoppingCart,
+  LocalOffer,
 } from '@mui/icons-material';
 import {
   Alert,
@@ -16,11 +22,13 @@ import {
   Card,
   CardContent,
   CardMedia,
+  Chip,
   CircularProgress,
   Container,
   Dialog,
   DialogActions,
   DialogContent,
+  DialogTitle,
   Divider,
   IconButton,
   List,
@@ -35,19 +43,36 @@ import {
 import { useEffect, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { NavigationBar } from '../components/NavigationBar';
+import { CustomerLookupDialog } from '../components/checkout/CustomerLookupDialog';
 import { EnhancedPaymentDialog } from '../components/checkout/EnhancedPaymentDialog';
+import { ParkedCartsDialog } from '../components/checkout/ParkedCartsDialog';
 import { ReceiptDialog } from '../components/checkout/ReceiptDialog';
+import { WeightDialog } from '../components/checkout/WeightDialog';
 import { useAuth } from '../hooks/useAuth';
+import { useOfflineMode } from '../hooks/useOfflineMode';
 import { useProducts } from '../hooks/useProducts';
 import { useTransactions } from '../hooks/useTransactions';
 import { useWebSocket } from '../hooks/useWebSocket';
-import type { Product, TransactionItem } from '../services/api';
+import type { CartLineInput, CartQuote, CustomerLookupResult, FiscalReceipt, ParkedCart, Product, TransactionItem } from '../services/api';
 import { apiService } from '../services/api';
+import type { LicenseState } from '../services/licenseService';
+import { licenseService } from '../services/licenseService';
+import { offlineStore } from '../services/offlineStore';
+import { scaleService } from '../services/scaleService';
 
 interface CartItem extends TransactionItem {
   product: Product;
+  label_priced?: boolean; // Holds price-embedded scale labels; total_price is charged as it stands
 }
 
+// Cart line sent to the branch; lines of price labels carry the printed price as their total
+const toCartLine = (item: CartItem): CartLineInput => ({
+  productId: item.product_id,
+  quantity: item.quantity,
+  unitPrice: item.unit_price,
+  ...(item.label_priced ? { lineTotal: item.total_price } : {})
+});
+
 const CheckoutPage = () => {
   const { user } = useAuth();
   const { t, i18n } = useTranslation();
@@ -81,6 +106,16 @@ const CheckoutPage = () => {
     syncTransaction,
     onInventoryChanged
   } = useWebSocket();
+  const {
+    isOffline,
+    pendingSales,
+    syncing,
+    offlineTerminalId,
+    onSynced
+  } = useOfflineMode();
+
+  // While offline the WebSocket has no terminal; keep selling under the last one it assigned
+  const activeTerminalId = terminalId || (isOffline ? offlineTerminalId : null);
 
   const [barcode, setBarcode] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
@@ -100,6 +135,8 @@ const CheckoutPage = () => {
     paymentMethod: string;
     payments?: any[];
     receiptData?: any;
+    fiscal?: FiscalReceipt | null;
+    offline?: boolean;
   } | null>(null);
 
   // Scanner-related state
@@ -108,10 +145,76 @@ const CheckoutPage = () => {
   const [snackbarMessage, setSnackbarMessage] = useState('checkout.productNotFound');
   const barcodeInputRef = useRef<HTMLInputElement>(null);
 
-  const subtotal = cart.reduce((sum, item) => sum + item.total_price, 0);
-  const taxRate = 0.08; // 8% tax rate
-  const taxAmount = Math.round(subtotal * taxRate * 10) / 10; // Round to 1 decimal place
-  const total = Math.round((subtotal + taxAmount) * 10) / 10; // Round to 1 decimal place
+  const [cartQuote, setCartQuote] = useState<CartQuote | null>(null);
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+  const [loyaltyCustomer, setLoyaltyCustomer] = useState<CustomerLookupResult | null>(null);
+  const [customerDialogOpen, setCustomerDialogOpen] = useState(false);
+  const [parkDialogOpen, setParkDialogOpen] = useState(false);
+  const [parkNote, setParkNote] = useState('');
+  const [parking, setParking] = useState(false);
+  const [parkedDialogOpen, setParkedDialogOpen] = useState(false);
+  const canSupervise = ['supervisor', 'manager', 'admin'].includes(user?.role || '');
+  // Product sold by weight or volume waiting for its quantity
+  const [weighingProduct, setWeighingProduct] = useState<Product | null>(null);
+  const [licenseState, setLicenseState] = useState<LicenseState | null>(null);
+
+  // Re-price the cart with the branch's active promotions whenever it changes
+  useEffect(() => {
+    if (cart.length === 0) {
+      setCartQuote(null);
+      return;
+    }
+
+    const quoteItems = cart.map(toCartLine);
+
+    // Offline the till prices from its cached catalog; the branch re-prices the sale on replay
+    if (isOffline) {
+      setCartQuote(offlineStore.quoteCart(quoteItems));
+      return;
+    }
+
+    let cancelled = false;
+    apiService.quoteTransaction(quoteItems).then(response => {
+      if (cancelled) return;
+      if (response.offline) {
+        offlineStore.reportOffline();
+        setCartQuote(offlineStore.quoteCart(quoteItems));
+      } else if (response.success && response.data) {
+        setCartQuote(response.data);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cart, isOffline]);
+
+  // Tell the cashier when sales queued offline have reached the branch
+  useEffect(() => {
+    return onSynced((result) => {
+      if (result.conflicts > 0 || result.rejected > 0) {
+        setSyncNotice(t('offline.syncedWithConflicts', { count: result.synced, conflicts: result.conflicts + result.rejected }));
+      } else {
+        setSyncNotice(t('offline.synced', { count: result.synced }));
+      }
+    });
+  }, [onSynced, t]);
+
+  // Ignore a quote that no longer matches the cart (e.g. while a new one is in flight)
+  const quoteMatchesCart = !!cartQuote && cartQuote.items.length === cart.length &&
+    cartQuote.items.every((line, index) =>
+      line.productId === cart[index].product_id && line.quantity === cart[index].quantity
+    );
+  const getLineQuote = (index: number) => (quoteMatchesCart ? cartQuote!.items[index] : undefined);
+
+  const grossSubtotal = cart.reduce((sum, item) => sum + item.total_price, 0);
+  const discountTotal = quoteMatchesCart ? cartQuote!.discountTotal : 0;
+  // Tax is calculated by the branch per product rate; checkout waits for a matching quote
+  const subtotal = quoteMatchesCart ? cartQuote!.subtotal : Math.round((grossSubtotal - discountTotal) * 100) / 100;
+  const taxAmount = quoteMatchesCart ? cartQuote!.tax : 0;
+  const total = quoteMatchesCart ? cartQuote!.total : subtotal;
+  const taxBreakdown = quoteMatchesCart ? cartQuote!.taxBreakdown : [];
+  const pricesIncludeTax = quoteMatchesCart && cartQuote!.pricesIncludeTax;
 
   // Handle scanner key events
   useEffect(() => {
@@ -158,6 +261,13 @@ const CheckoutPage = () => {
     return cleanup;
   }, [onInventoryChanged, updateLocalProductStock]);
 
+  // Warn the cashier when this till's license has lapsed; the desktop app checks it hourly
+  useEffect(() => {
+    licenseService.getState()
+      .then(setLicenseState)
+      .catch((error) => console.error('Failed to read the license state:', error));
+  }, []);
+
   // Load categories on component mount
   useEffect(() => {
     const loadCategories = async () => {
@@ -198,10 +308,11 @@ const CheckoutPage = () => {
 
     clearProductsError();
     try {
-      const product = await getProductByBarcode(cleanBarcode);
+      const scanned = await getProductByBarcode(cleanBarcode);
+      const product = scanned?.product;
 
       // Check if product is null (404 - not found)
-      if (!product || product === null) {
+      if (!product) {
         clearProductsError();
         console.log('Product not found for barcode:', cleanBarcode);
         setSnackbarMessage('checkout.productNotFound');
@@ -218,8 +329,12 @@ const CheckoutPage = () => {
         return;
       }
 
-      // Product found and in stock - add to cart
-      addToCart(product);
+      // Product found and in stock - add to cart; scale labels already carry the quantity
+      if (scanned.quantity) {
+        addToCart(product, scanned.quantity, scanned.lineTotal);
+      } else {
+        addOrWeighProduct(product);
+      }
       setBarcode('');
 
       // Request real-time price if connected
@@ -280,7 +395,7 @@ const CheckoutPage = () => {
   const handleProductSelect = (product: Product | null) => {
     setSelectedProduct(product);
     if (product && product.quantity_in_stock > 0) {
-      addToCart(product);
+      addOrWeighProduct(product);
       setSearchQuery('');
       setSelectedProduct(null);
       clearSearchSuggestions();
@@ -299,7 +414,17 @@ const CheckoutPage = () => {
     }
   };
 
-  const addToCart = (product: Product, quantity = 1) => {
+  // Weighed and measured products ask for their quantity first
+  const addOrWeighProduct = (product: Product) => {
+    if (scaleService.isMeasured(product.unit_of_measure)) {
+      setWeighingProduct(product);
+    } else {
+      addToCart(product);
+    }
+  };
+
+  // lineTotal is the price printed on a price-embedded label; the line is charged that, not quantity x price
+  const addToCart = (product: Product, quantity = 1, lineTotal?: number) => {
     // Check if product is in stock
     if (product.quantity_in_stock <= 0) {
       setSnackbarMessage('inventory.outOfStock');
@@ -312,18 +437,22 @@ const CheckoutPage = () => {
 
       if (existingItem) {
         // Check if we can add more quantity
-        const newQuantity = existingItem.quantity + quantity;
+        const newQuantity = Math.round((existingItem.quantity + quantity) * 1000) / 1000;
         if (newQuantity > product.quantity_in_stock) {
           // Can't add more than available stock
           return prev;
         }
 
+        const labelPriced = existingItem.label_priced || lineTotal !== undefined;
         return prev.map(item =>
           item.product_id === product.id
             ? {
               ...item,
               quantity: newQuantity,
-              total_price: newQuantity * product.price
+              total_price: labelPriced
+                ? Math.round((item.total_price + (lineTotal ?? quantity * product.price)) * 100) / 100
+                : Math.round(newQuantity * product.price * 100) / 100,
+              label_priced: labelPriced
             }
             : item
         );
@@ -337,7 +466,8 @@ const CheckoutPage = () => {
           product_id: product.id,
           quantity,
           unit_price: product.price,
-          total_price: product.price * quantity,
+          total_price: lineTotal ?? Math.round(product.price * quantity * 100) / 100,
+          label_priced: lineTotal !== undefined,
           product
         };
         return [...prev, newItem];
@@ -358,7 +488,10 @@ const CheckoutPage = () => {
         return {
           ...item,
           quantity: newQuantity,
-          total_price: newQuantity * item.unit_price
+          // Units added or taken off a price-labelled line count at the shelf price
+          total_price: item.label_priced
+            ? Math.round((item.total_price + change * item.unit_price) * 100) / 100
+            : newQuantity * item.unit_price
         };
       }
       return item;
@@ -369,14 +502,146 @@ const CheckoutPage = () => {
     setCart(prev => prev.filter(item => item.product_id !== productId));
   };
 
+  // Put the cart on hold on the branch server so any till can pick it up later
+  const handleParkCart = async () => {
+    if (!user || !activeTerminalId || cart.length === 0) return;
+
+    setParking(true);
+    const response = await apiService.parkCart({
+      terminalId: activeTerminalId,
+      employeeId: user.employeeId,
+      customerId: loyaltyCustomer?.customer.id,
+      note: parkNote.trim() || undefined,
+      items: cart.map(item => ({ productId: item.product_id, quantity: item.quantity }))
+    });
+    setParking(false);
+
+    if (response.success && response.data) {
+      setCart([]);
+      setLoyaltyCustomer(null);
+      setParkDialogOpen(false);
+      setParkNote('');
+      setSyncNotice(t('checkout.cartParked', { number: response.data.cart.park_number }));
+    } else {
+      setSyncNotice(response.offline ? t('checkout.parkOffline') : response.error || t('checkout.parkFailed'));
+    }
+  };
+
+  // Rebuild the cart from a parked one at today's prices, skipping lines no longer in stock
+  const handleResumeCart = async (parkedCart: ParkedCart) => {
+    if (!user || !activeTerminalId || cart.length > 0) return;
+
+    const response = await apiService.resumeParkedCart(parkedCart.id, activeTerminalId, user.employeeId);
+    if (!response.success || !response.data) {
+      setSyncNotice(response.error || t('checkout.parkResumeFailed'));
+      return;
+    }
+
+    const { cart: resumed, items } = response.data;
+    const resumedProducts = await getProductsByIds(items.map(item => item.productId));
+    const resumedItems: CartItem[] = [];
+
+    for (const item of items) {
+      const product = resumedProducts.find(p => p.id === item.productId);
+      if (!item.available || !product || product.quantity_in_stock <= 0) continue;
+
+      const quantity = Math.min(item.quantity, product.quantity_in_stock);
+      resumedItems.push({
+        product_id: product.id,
+        quantity,
+        unit_price: product.price,
+        total_price: Math.round(product.price * quantity * 100) / 100,
+        product
+      });
+    }
+
+    setCart(resumedItems);
+    setParkedDialogOpen(false);
+
+    const skipped = items.length - resumedItems.length;
+    setSyncNotice(skipped > 0
+      ? t('checkout.cartResumedPartial', { number: resumed.park_number, count: skipped })
+      : t('checkout.cartResumed', { number: resumed.park_number }));
+
+    const card = resumed.customer_card_number;
+    const phone = resumed.customer_phone;
+    if (card || phone) {
+      const customerResponse = await apiService.lookupCustomer(card ? { card } : { phone: phone! });
+      if (customerResponse.success && customerResponse.data) {
+        setLoyaltyCustomer(customerResponse.data);
+      }
+    }
+  };
+
   const handleCheckout = async () => {
-    if (!user || !terminalId || cart.length === 0) return;
+    if (!user || !activeTerminalId || cart.length === 0) return;
     // Just open the enhanced payment dialog
     setCheckoutDialogOpen(true);
   };
 
+  // Finish a cash sale without the branch server: queue it for replay and print the receipt
+  const completeOfflineSale = (payments: { method: string; amount: number }[], receiptData: { changeAmount: number; paidAmount: number }) => {
+    if (!user || !activeTerminalId) return;
+
+    if (payments.some(payment => payment.method !== 'cash')) {
+      alert(t('offline.cashOnly'));
+      return;
+    }
+
+    const sale = offlineStore.queueSale({
+      terminalId: activeTerminalId,
+      employeeId: user.employeeId,
+      items: cart.map(toCartLine),
+      customerId: loyaltyCustomer?.customer.id,
+      expectedTotal: total,
+      payments: payments.map(payment => ({ method: 'cash' as const, amount: payment.amount }))
+    });
+
+    cart.forEach(item => {
+      updateLocalProductStock(item.product_id, item.product.quantity_in_stock - item.quantity);
+    });
+
+    setCompletedTransactionData({
+      transactionId: sale.id,
+      changeAmount: receiptData.changeAmount,
+      totalAmount: total,
+      amountReceived: receiptData.paidAmount,
+      paymentMethod: payments.length > 1 ? 'mixed' : payments[0]?.method,
+      payments,
+      offline: true,
+      receiptData: {
+        ...receiptData,
+        subtotal: subtotal,
+        taxAmount: taxAmount,
+        taxBreakdown: taxBreakdown,
+        pricesIncludeTax: pricesIncludeTax,
+        cartItems: cart.map(item => ({
+          product_id: item.product_id,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          total_price: item.total_price,
+          product: {
+            name: item.product?.name || '',
+            name_uz: item.product?.name || '',
+            barcode: item.product?.barcode
+          }
+        }))
+      }
+    });
+
+    setCart([]);
+    setLoyaltyCustomer(null);
+    setCheckoutDialogOpen(false);
+    setReceiptDialogOpen(true);
+  };
+
   const handlePaymentComplete = async (payments: any[], receiptData: any) => {
-    if (!user || !terminalId || cart.length === 0) return;
+    if (!user || !activeTerminalId || cart.length === 0) return;
+
+    if (isOffline) {
+      completeOfflineSale(payments, receiptData);
+      return;
+    }
 
     clearTransactionError();
 
@@ -384,11 +649,8 @@ const CheckoutPage = () => {
     const transactionData = {
       terminalId: terminalId,
       employeeId: user.employeeId,
-      items: cart.map(({ product, ...item }) => ({
-        productId: item.product_id,
-        quantity: item.quantity,
-        unitPrice: item.unit_price
-      }))
+      customerId: loyaltyCustomer?.customer.id,
+      items: cart.map(toCartLine)
     };
 
     console.log('🔍 Transaction data being sent:', {
@@ -414,6 +676,11 @@ const CheckoutPage = () => {
           throw new Error('Transaction created but no ID returned');
         }
 
+        // Line totals after the promotions the server actually applied
+        const pricedLines = (transactionResponse as unknown as { items?: CartQuote['items'] }).items || [];
+        const getPricedTotal = (item: CartItem) =>
+          pricedLines.find(line => line.productId === item.product_id)?.total ?? item.total_price;
+
         // Step 2: Process all payments using split payment endpoint
         const paymentData = payments.map(payment => ({
           method: payment.method,
@@ -478,7 +745,7 @@ const CheckoutPage = () => {
               product_id: item.product_id,
               quantity: item.quantity,
               unit_price: item.unit_price,
-              total_price: item.quantity * item.unit_price,
+              total_price: getPricedTotal(item),
               product: {
                 name: item.product?.name || '',
                 name_uz: uzbekProductsMap.get(item.product_id) || item.product?.name || '',
@@ -495,7 +762,7 @@ const CheckoutPage = () => {
             product_id: item.product_id,
             quantity: item.quantity,
             unit_price: item.unit_price,
-            total_price: item.quantity * item.unit_price,
+            total_price: getPricedTotal(item),
             product: {
               name: item.product?.name || '',
               name_uz: item.product?.name || '', // Fallback to current name
@@ -511,16 +778,20 @@ const CheckoutPage = () => {
           amountReceived: receiptData.paidAmount,
           paymentMethod: payments.length > 1 ? 'mixed' : payments[0]?.method,
           payments,
+          fiscal: paymentResult.data?.fiscal ?? null,
           receiptData: {
             ...receiptData,
             subtotal: subtotal,
             taxAmount: taxAmount,
+            taxBreakdown: taxBreakdown,
+            pricesIncludeTax: pricesIncludeTax,
             cartItems: cartItemsWithUzbekNames
           }
         });
 
         // Clear cart and close dialogs
         setCart([]);
+        setLoyaltyCustomer(null);
         setCheckoutDialogOpen(false);
 
         // Open receipt dialog instead of simple completion dialog
@@ -538,6 +809,25 @@ const CheckoutPage = () => {
       <NavigationBar />
 
       <Container maxWidth={false} sx={{ mt: 2, mb: 2, px: 3 }}>
+        {isOffline && (
+          <Alert severity="warning" icon={<CloudOff />} sx={{ mb: 2 }}>
+            {t('offline.banner')}
+            {pendingSales > 0 && ` ${t('offline.pendingSales', { count: pendingSales })}`}
+          </Alert>
+        )}
+
+        {!isOffline && (syncing || pendingSales > 0) && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            {syncing ? t('offline.syncing') : t('offline.pendingSales', { count: pendingSales })}
+          </Alert>
+        )}
+
+        {licenseState && !licenseService.isUsable(licenseState) && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {[t('license.notUsable'), licenseState.reason].filter(Boolean).join(': ')}
+          </Alert>
+        )}
+
         {/* Error Messages */}
         {(productsError || transactionError) && (
           <Alert
@@ -854,7 +1144,7 @@ const CheckoutPage = () => {
                               boxShadow: product.quantity_in_stock > 0 ? (theme) => theme.shadows[4] : 'none'
                             }
                           }}
-                          onClick={() => product.quantity_in_stock > 0 && addToCart(product)}
+                          onClick={() => product.quantity_in_stock > 0 && addOrWeighProduct(product)}
                         >
                           {/* Product Image */}
                           {product.has_image && product.image_paths?.thumbnail ? (
@@ -935,46 +1225,113 @@ const CheckoutPage = () => {
                   <Typography variant="h6">{t('checkout.cart')} ({cart.length} {t('checkout.items')})</Typography>
                 </Box>
                 <Typography variant="caption" color="text.secondary">
-                  {t('checkout.terminal')}: {terminalId || t('checkout.notConnected')}
+                  {t('checkout.terminal')}: {activeTerminalId || t('checkout.notConnected')}
                 </Typography>
               </Box>
 
+              <Box mb={1} display="flex" alignItems="center" justifyContent="space-between" gap={1}>
+                {loyaltyCustomer ? (
+                  <Chip
+                    icon={<CardMembership />}
+                    color={loyaltyCustomer.source === 'chain' ? 'primary' : 'warning'}
+                    variant="outlined"
+                    label={t('loyalty.customerChip', {
+                      name: loyaltyCustomer.customer.name,
+                      points: loyaltyCustomer.customer.loyalty_points,
+                    })}
+                    title={loyaltyCustomer.source === 'local' ? t('loyalty.localBalance') : undefined}
+                    onDelete={() => setLoyaltyCustomer(null)}
+                  />
+                ) : (
+                  <Button
+                    size="small"
+                    startIcon={<PersonSearch />}
+                    onClick={() => setCustomerDialogOpen(true)}
+                    disabled={isOffline}
+                  >
+                    {t('loyalty.addCustomer')}
+                  </Button>
+                )}
+                <Box display="flex" gap={1}>
+                  <Button
+                    size="small"
+                    startIcon={<Pause />}
+                    onClick={() => setParkDialogOpen(true)}
+                    disabled={isOffline || cart.length === 0}
+                  >
+                    {t('checkout.parkCart')}
+                  </Button>
+                  <Button
+                    size="small"
+                    startIcon={<Inventory2 />}
+                    onClick={() => setParkedDialogOpen(true)}
+                    disabled={isOffline}
+                  >
+                    {t('checkout.parkedCarts')}
+                  </Button>
+                </Box>
+              </Box>
+
               <List sx={{ flexGrow: 1, overflow: 'auto' }}>
-                {cart.map((item) => (
-                  <ListItem key={item.product_id} sx={{ px: 0 }}>
-                    <ListItemText
-                      primary={item.product.name}
-                      secondary={
-                        <Box component="span">
-                          <Typography component="span" variant="body2" display="block">
-                            ${item.unit_price.toFixed(2)} {t('checkout.each')}
-                          </Typography>
-                          <Typography component="span" variant="caption" color="text.secondary" display="block">
-                            {t('checkout.stockLabel')} {item.product.quantity_in_stock}
-                          </Typography>
+                {cart.map((item, index) => {
+                  const measured = scaleService.isMeasured(item.product.unit_of_measure);
+                  return (
+                    <ListItem key={item.product_id} sx={{ px: 0 }}>
+                      <ListItemText
+                        primary={item.product.name}
+                        secondary={
+                          <Box component="span">
+                            <Typography component="span" variant="body2" display="block">
+                              ${item.unit_price.toFixed(2)} {measured ? t('checkout.perUnit', { unit: item.product.unit_of_measure }) : t('checkout.each')}
+                            </Typography>
+                            <Typography component="span" variant="caption" color="text.secondary" display="block">
+                              {t('checkout.stockLabel')} {item.product.quantity_in_stock}
+                            </Typography>
+                            {getLineQuote(index)?.discounts.map((discount) => (
+                              <Typography
+                                key={discount.promotionId}
+                                component="span"
+                                variant="caption"
+                                color="success.main"
+                                display="flex"
+                                alignItems="center"
+                                gap={0.5}
+                              >
+                                <LocalOffer sx={{ fontSize: 14 }} />
+                                {discount.name}: -${discount.amount.toFixed(2)}
+                              </Typography>
+                            ))}
+                          </Box>
+                        }
+                      />
+                      <ListItemSecondaryAction>
+                        <Box display="flex" alignItems="center" gap={1}>
+                          {measured ? (
+                            // Weighed lines are re-weighed rather than stepped by one
+                            <Typography>{item.quantity.toFixed(3)} {item.product.unit_of_measure}</Typography>
+                          ) : (
+                            <>
+                              <IconButton size="small" onClick={() => updateQuantity(item.product_id, -1)}>
+                                <Remove />
+                              </IconButton>
+                              <Typography>{item.quantity}</Typography>
+                              <IconButton
+                                size="small"
+                                onClick={() => updateQuantity(item.product_id, 1)}
+                                disabled={item.quantity >= item.product.quantity_in_stock}
+                              >
+                                <Add />
+                              </IconButton>
+                            </>
+                          )}
+                          <IconButton size="small" onClick={() => removeItem(item.product_id)}>
+                            <Delete />
+                          </IconButton>
                         </Box>
-                      }
-                    />
-                    <ListItemSecondaryAction>
-                      <Box display="flex" alignItems="center" gap={1}>
-                        <IconButton size="small" onClick={() => updateQuantity(item.product_id, -1)}>
-                          <Remove />
-                        </IconButton>
-                        <Typography>{item.quantity}</Typography>
-                        <IconButton
-                          size="small"
-                          onClick={() => updateQuantity(item.product_id, 1)}
-                          disabled={item.quantity >= item.product.quantity_in_stock}
-                        >
-                          <Add />
-                        </IconButton>
-                        <IconButton size="small" onClick={() => removeItem(item.product_id)}>
-                          <Delete />
-                        </IconButton>
-                      </Box>
-                    </ListItemSecondaryAction>
-                  </ListItem>
-                ))}
+                      </ListItemSecondaryAction>
+                    </ListItem>
+                  );
+                })}
                 {cart.length === 0 && (
                   <ListItem>
                     <ListItemText
@@ -990,15 +1347,31 @@ const CheckoutPage = () => {
               <Box>
                 <Box display="flex" justifyContent="space-between" mb={1}>
                   <Typography>{t('checkout.subtotal')}:</Typography>
-                  <Typography>${subtotal.toFixed(1)}</Typography>
-                </Box>
-                <Box display="flex" justifyContent="space-between" mb={1}>
-                  <Typography>{t('checkout.tax')} ({(taxRate * 100).toFixed(0)}%):</Typography>
-                  <Typography>${taxAmount.toFixed(1)}</Typography>
+                  <Typography>${grossSubtotal.toFixed(1)}</Typography>
                 </Box>
+                {discountTotal > 0 && (
+                  <Box display="flex" justifyContent="space-between" mb={1}>
+                    <Typography color="success.main">{t('checkout.discounts')}:</Typography>
+                    <Typography color="success.main">-${discountTotal.toFixed(2)}</Typography>
+                  </Box>
+                )}
+                {taxBreakdown.length > 0 ? taxBreakdown.map(entry => (
+                  <Box key={entry.rate} display="flex" justifyContent="space-between" mb={1}>
+                    <Typography>
+                      {t('checkout.tax')} ({Math.round(entry.rate * 10000) / 100}%)
+                      {pricesIncludeTax ? ` ${t('checkout.taxIncluded')}` : ''}:
+                    </Typography>
+                    <Typography>${entry.taxAmount.toFixed(2)}</Typography>
+                  </Box>
+                )) : (
+                  <Box display="flex" justifyContent="space-between" mb={1}>
+                    <Typography>{t('checkout.tax')}:</Typography>
+                    <Typography>${taxAmount.toFixed(2)}</Typography>
+                  </Box>
+                )}
                 <Box display="flex" justifyContent="space-between" mb={2}>
                   <Typography variant="h6">{t('checkout.total')}:</Typography>
-                  <Typography variant="h6">${total.toFixed(1)}</Typography>
+                  <Typography variant="h6">${total.toFixed(2)}</Typography>
                 </Box>
 
                 <Button
@@ -1007,7 +1380,7 @@ const CheckoutPage = () => {
                   size="large"
                   startIcon={<PaymentIcon />}
                   onClick={handleCheckout}
-                  disabled={cart.length === 0 || transactionLoading}
+                  disabled={cart.length === 0 || !quoteMatchesCart || transactionLoading}
                   sx={{ py: 1.5 }}
                 >
                   {transactionLoading ? <CircularProgress size={24} /> : t('checkout.checkout')}
@@ -1025,10 +1398,59 @@ const CheckoutPage = () => {
           onPaymentComplete={handlePaymentComplete}
           isProcessing={transactionLoading}
           cartItems={cart}
+          cashOnly={isOffline}
           taxAmount={taxAmount}
           subtotal={subtotal}
           employeeName={user?.name}
-          terminalId={terminalId || undefined}
+          terminalId={activeTerminalId || undefined}
+          customer={loyaltyCustomer?.loyalty.enabled ? loyaltyCustomer.customer : null}
+          pointValue={loyaltyCustomer?.loyalty.pointValue}
+        />
+
+        <WeightDialog
+          open={!!weighingProduct}
+          product={weighingProduct}
+          onClose={() => setWeighingProduct(null)}
+          onConfirm={addToCart}
+        />
+
+        <CustomerLookupDialog
+          open={customerDialogOpen}
+          onClose={() => setCustomerDialogOpen(false)}
+          onCustomerFound={setLoyaltyCustomer}
+        />
+
+        {/* Park Cart Dialog */}
+        <Dialog open={parkDialogOpen} onClose={() => setParkDialogOpen(false)} maxWidth="xs" fullWidth>
+          <DialogTitle>{t('checkout.parkCart')}</DialogTitle>
+          <DialogContent>
+            <TextField
+              autoFocus
+              fullWidth
+              margin="dense"
+              label={t('checkout.parkNote')}
+              placeholder={t('checkout.parkNotePlaceholder')}
+              value={parkNote}
+              onChange={(e) => setParkNote(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleParkCart()}
+              inputProps={{ maxLength: 255 }}
+            />
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setParkDialogOpen(false)}>{t('common.cancel')}</Button>
+            <Button variant="contained" onClick={handleParkCart} disabled={parking}>
+              {parking ? <CircularProgress size={20} /> : t('checkout.parkCart')}
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        <ParkedCartsDialog
+          open={parkedDialogOpen}
+          onClose={() => setParkedDialogOpen(false)}
+          onResume={handleResumeCart}
+          employeeId={user?.employeeId}
+          canSupervise={canSupervise}
+          cartInProgress={cart.length > 0}
         />
 
         {/* Receipt Dialog */}
@@ -1043,10 +1465,14 @@ const CheckoutPage = () => {
           payments={completedTransactionData?.payments || []}
           subtotal={completedTransactionData?.receiptData?.subtotal || 0}
           taxAmount={completedTransactionData?.receiptData?.taxAmount || 0}
+          taxBreakdown={completedTransactionData?.receiptData?.taxBreakdown || []}
+          pricesIncludeTax={completedTransactionData?.receiptData?.pricesIncludeTax || false}
           totalAmount={completedTransactionData?.totalAmount || 0}
           changeAmount={completedTransactionData?.changeAmount || 0}
           employeeName={user?.name}
-          terminalId={terminalId || undefined}
+          terminalId={activeTerminalId || undefined}
+          fiscal={completedTransactionData?.fiscal}
+          offlineSale={completedTransactionData?.offline}
         />
 
         {/* Transaction Complete Dialog */}
@@ -1150,6 +1576,22 @@ const CheckoutPage = () => {
             {t(snackbarMessage)}
           </Alert>
         </Snackbar>
+
+        {/* Offline Sync Snackbar */}
+        <Snackbar
+          open={!!syncNotice}
+          autoHideDuration={6000}
+          onClose={() => setSyncNotice(null)}
+          anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+        >
+          <Alert
+            onClose={() => setSyncNotice(null)}
+            severity="info"
+            sx={{ width: '100%' }}
+          >
+            {syncNotice}
+          </Alert>
+        </Snackbar>
       </Container>
     </>
   );
@@ -18,6 +18,7 @@ import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useNavigate } from 'react-router-dom';
 import { NavigationBar } from '../components/NavigationBar';
+import { OfflineSalesPanel } from '../components/checkout/OfflineSalesPanel';
 import NetworkStatusComponent from '../components/common/NetworkStatusComponent';
 import { useAuth } from '../hooks/useAuth';
 import { useWebSocket } from '../hooks/useWebSocket';
@@ -218,6 +219,9 @@ const DashboardPage = () => {
           {/* Network Information */}
           <NetworkStatusComponent />
         </Box>
+
+        {/* Sales made while the till was offline */}
+        <OfflineSalesPanel />
       </Container>
     </>
   );
@@ -47,6 +47,9 @@ import {
 import { useCallback, useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { NavigationBar } from '../components/NavigationBar';
+import { PurchaseOrdersPanel } from '../components/inventory/PurchaseOrdersPanel';
+import { StocktakePanel } from '../components/inventory/StocktakePanel';
+import { StockTransfersPanel } from '../components/inventory/StockTransfersPanel';
 import { useProducts } from '../hooks/useProducts';
 import type { Product } from '../services/api';
 import { apiService } from '../services/api';
@@ -60,6 +63,7 @@ interface ProductFormData {
   low_stock_threshold: number;
   category: string;
   brand: string;
+  location?: string;
   description: string;
   image_url: string;
   is_active: boolean;
@@ -241,6 +245,7 @@ const InventoryPage = () => {
       low_stock_threshold: product.low_stock_threshold || 10,
       category: product.category_key || product.category || '',
       brand: product.brand || '',
+      location: product.location || '',
       description: product.description || '',
       image_url: product.image_url || '',
       is_active: product.is_active,
@@ -567,6 +572,9 @@ const InventoryPage = () => {
                 </Box>
               }
             />
+            <Tab label={t('transfers.title')} />
+            <Tab label={t('purchaseOrders.title')} />
+            <Tab label={t('stocktake.title')} />
           </Tabs>
         </Paper>
 
@@ -609,158 +617,181 @@ const InventoryPage = () => {
           </Paper>
         )}
 
+        {/* Stock transfers from and to this branch */}
+        {tabValue === 2 && (
+          <StockTransfersPanel
+            onNotify={(message, severity) => setSnackbar({ open: true, message, severity })}
+          />
+        )}
+
+        {/* Supplier deliveries against purchase orders */}
+        {tabValue === 3 && (
+          <PurchaseOrdersPanel
+            onNotify={(message, severity) => setSnackbar({ open: true, message, severity })}
+          />
+        )}
+
+        {/* Stocktake sessions: frozen snapshot, shared counting, batch posting of variances */}
+        {tabValue === 4 && (
+          <StocktakePanel
+            onNotify={(message, severity) => setSnackbar({ open: true, message, severity })}
+          />
+        )}
+
         {/* Products Table */}
-        <TableContainer component={Paper}>
-          <Table>
-            <TableHead>
-              <TableRow>
-                <TableCell>{t('inventory.sku')}</TableCell>
-                <TableCell>{t('inventory.product')}</TableCell>
-                <TableCell>{t('inventory.category')}</TableCell>
-                <TableCell>{t('inventory.barcode')}</TableCell>
-                <TableCell align="right">{t('inventory.price')}</TableCell>
-                <TableCell align="right">{t('inventory.cost')}</TableCell>
-                <TableCell align="center">{t('inventory.stock')}</TableCell>
-                <TableCell align="center">{t('inventory.status')}</TableCell>
-                <TableCell align="center">{t('inventory.active')}</TableCell>
-                {editMode && <TableCell align="center">{t('inventory.actions')}</TableCell>}
-              </TableRow>
-            </TableHead>
-            <TableBody>
-              {paginatedProducts.map((product) => (
-                <TableRow key={product.id} hover>
-                  <TableCell>
-                    <Typography variant="body2" fontFamily="monospace" color="primary">
-                      {product.sku || 'N/A'}
-                    </Typography>
-                  </TableCell>
-                  <TableCell>
-                    <Box display="flex" alignItems="center" gap={2}>
-                      {/* Product Thumbnail */}
-                      {product.has_image && product.image_paths?.thumbnail ? (
-                        <Avatar
-                          src={`http://localhost:3000${product.image_paths.thumbnail}`}
-                          alt={product.name}
-                          sx={{ width: 40, height: 40 }}
-                          variant="rounded"
-                        />
-                      ) : (
-                        <Avatar
-                          sx={{
-                            width: 40,
-                            height: 40,
-                            bgcolor: 'grey.300',
-                            color: 'grey.600'
-                          }}
-                          variant="rounded"
-                        >
-                          {product.name.charAt(0).toUpperCase()}
-                        </Avatar>
-                      )}
-
-                      {/* Product Details */}
-                      <Box>
-                        <Typography variant="subtitle2" fontWeight="bold">
-                          {product.name}
-                        </Typography>
-                        {product.brand && (
-                          <Typography variant="caption" color="text.secondary">
-                            {product.brand}
-                          </Typography>
+        {tabValue < 2 && (
+          <TableContainer component={Paper}>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('inventory.sku')}</TableCell>
+                  <TableCell>{t('inventory.product')}</TableCell>
+                  <TableCell>{t('inventory.category')}</TableCell>
+                  <TableCell>{t('inventory.barcode')}</TableCell>
+                  <TableCell align="right">{t('inventory.price')}</TableCell>
+                  <TableCell align="right">{t('inventory.cost')}</TableCell>
+                  <TableCell align="center">{t('inventory.stock')}</TableCell>
+                  <TableCell align="center">{t('inventory.status')}</TableCell>
+                  <TableCell align="center">{t('inventory.active')}</TableCell>
+                  {editMode && <TableCell align="center">{t('inventory.actions')}</TableCell>}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {paginatedProducts.map((product) => (
+                  <TableRow key={product.id} hover>
+                    <TableCell>
+                      <Typography variant="body2" fontFamily="monospace" color="primary">
+                        {product.sku || 'N/A'}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Box display="flex" alignItems="center" gap={2}>
+                        {/* Product Thumbnail */}
+                        {product.has_image && product.image_paths?.thumbnail ? (
+                          <Avatar
+                            src={`http://localhost:3000${product.image_paths.thumbnail}`}
+                            alt={product.name}
+                            sx={{ width: 40, height: 40 }}
+                            variant="rounded"
+                          />
+                        ) : (
+                          <Avatar
+                            sx={{
+                              width: 40,
+                              height: 40,
+                              bgcolor: 'grey.300',
+                              color: 'grey.600'
+                            }}
+                            variant="rounded"
+                          >
+                            {product.name.charAt(0).toUpperCase()}
+                          </Avatar>
                         )}
+
+                        {/* Product Details */}
+                        <Box>
+                          <Typography variant="subtitle2" fontWeight="bold">
+                            {product.name}
+                          </Typography>
+                          {product.brand && (
+                            <Typography variant="caption" color="text.secondary">
+                              {product.brand}
+                            </Typography>
+                          )}
+                        </Box>
                       </Box>
-                    </Box>
-                  </TableCell>
-                  <TableCell>
-                    <Chip
-                      label={product.category_name || product.category || t('inventory.uncategorized')}
-                      size="small"
-                    />
-                  </TableCell>
-                  <TableCell>
-                    <Typography variant="body2" fontFamily="monospace">
-                      {product.barcode || 'N/A'}
-                    </Typography>
-                  </TableCell>
-                  <TableCell align="right">
-                    <Typography fontWeight="bold">
-                      ${product.price.toFixed(2)}
-                    </Typography>
-                  </TableCell>
-                  <TableCell align="right">
-                    ${(product.cost || 0).toFixed(2)}
-                  </TableCell>
-                  <TableCell align="center">
-                    <Box display="flex" flexDirection="column" alignItems="center">
-                      <Typography variant="body2" fontWeight="bold">
-                        {product.quantity_in_stock}
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        label={product.category_name || product.category || t('inventory.uncategorized')}
+                        size="small"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" fontFamily="monospace">
+                        {product.barcode || 'N/A'}
                       </Typography>
-                      <Typography variant="caption" color="text.secondary">
-                        Threshold: {product.low_stock_threshold || 10}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Typography fontWeight="bold">
+                        ${product.price.toFixed(2)}
                       </Typography>
-                    </Box>
-                  </TableCell>
-                  <TableCell align="center">
-                    <Chip
-                      label={getStockStatusText(product)}
-                      color={getStockStatusColor(product)}
-                      size="small"
-                      icon={product.quantity_in_stock === 0 ? <Warning /> : undefined}
-                    />
-                  </TableCell>
-                  <TableCell align="center">
-                    <Box display="flex" alignItems="center" justifyContent="center">
-                      {product.is_active ? (
-                        <Visibility color="success" />
-                      ) : (
-                        <VisibilityOff color="disabled" />
-                      )}
-                    </Box>
-                  </TableCell>
-                  {editMode && (
+                    </TableCell>
+                    <TableCell align="right">
+                      ${(product.cost || 0).toFixed(2)}
+                    </TableCell>
                     <TableCell align="center">
-                      <Box display="flex" gap={1} justifyContent="center">
-                        <Tooltip title={t('inventory.editProduct')}>
-                          <IconButton
-                            size="small"
-                            onClick={() => handleEditProduct(product)}
-                          >
-                            <Edit />
-                          </IconButton>
-                        </Tooltip>
-                        <Tooltip title={t('inventory.deleteProduct')}>
-                          <IconButton
-                            size="small"
-                            color="error"
-                            onClick={() => {
-                              setProductToDelete(product);
-                              setDeleteDialogOpen(true);
-                            }}
-                          >
-                            <Delete />
-                          </IconButton>
-                        </Tooltip>
+                      <Box display="flex" flexDirection="column" alignItems="center">
+                        <Typography variant="body2" fontWeight="bold">
+                          {product.quantity_in_stock}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          Threshold: {product.low_stock_threshold || 10}
+                        </Typography>
                       </Box>
                     </TableCell>
-                  )}
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-
-          <TablePagination
-            rowsPerPageOptions={[5, 10, 25, 50]}
-            component="div"
-            count={currentProducts.length}
-            rowsPerPage={rowsPerPage}
-            page={page}
-            onPageChange={(_event, newPage) => setPage(newPage)}
-            onRowsPerPageChange={(event) => {
-              setRowsPerPage(parseInt(event.target.value, 10));
-              setPage(0);
-            }}
-          />
-        </TableContainer>
+                    <TableCell align="center">
+                      <Chip
+                        label={getStockStatusText(product)}
+                        color={getStockStatusColor(product)}
+                        size="small"
+                        icon={product.quantity_in_stock === 0 ? <Warning /> : undefined}
+                      />
+                    </TableCell>
+                    <TableCell align="center">
+                      <Box display="flex" alignItems="center" justifyContent="center">
+                        {product.is_active ? (
+                          <Visibility color="success" />
+                        ) : (
+                          <VisibilityOff color="disabled" />
+                        )}
+                      </Box>
+                    </TableCell>
+                    {editMode && (
+                      <TableCell align="center">
+                        <Box display="flex" gap={1} justifyContent="center">
+                          <Tooltip title={t('inventory.editProduct')}>
+                            <IconButton
+                              size="small"
+                              onClick={() => handleEditProduct(product)}
+                            >
+                              <Edit />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title={t('inventory.deleteProduct')}>
+                            <IconButton
+                              size="small"
+                              color="error"
+                              onClick={() => {
+                                setProductToDelete(product);
+                                setDeleteDialogOpen(true);
+                              }}
+                            >
+                              <Delete />
+                            </IconButton>
+                          </Tooltip>
+                        </Box>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <TablePagination
+              rowsPerPageOptions={[5, 10, 25, 50]}
+              component="div"
+              count={currentProducts.length}
+              rowsPerPage={rowsPerPage}
+              page={page}
+              onPageChange={(_event, newPage) => setPage(newPage)}
+              onRowsPerPageChange={(event) => {
+                setRowsPerPage(parseInt(event.target.value, 10));
+                setPage(0);
+              }}
+            />
+          </TableContainer>
+        )}
 
         {/* Edit Product Dialog */}
         <Dialog open={editDialogOpen} onClose={() => setEditDialogOpen(false)} maxWidth="md" fullWidth>
@@ -804,6 +835,14 @@ const InventoryPage = () => {
                 value={formData.brand}
                 onChange={(e) => setFormData({ ...formData, brand: e.target.value })}
               />
+
+              <TextField
+                fullWidth
+                label={t('inventory.location')}
+                value={formData.location}
+                onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                helperText={t('inventory.locationHelper')}
+              />
             </Box>
 
             <Box
@@ -837,7 +876,7 @@ const InventoryPage = () => {
                 label={t('inventory.stockQuantity')}
                 type="number"
                 value={formData.quantity_in_stock}
-                onChange={(e) => setFormData({ ...formData, quantity_in_stock: parseInt(e.target.value) })}
+                onChange={(e) => setFormData({ ...formData, quantity_in_stock: parseFloat(e.target.value) })}
               />
             </Box>
 
@@ -854,7 +893,7 @@ const InventoryPage = () => {
                 label={t('inventory.lowStockThreshold')}
                 type="number"
                 value={formData.low_stock_threshold}
-                onChange={(e) => setFormData({ ...formData, low_stock_threshold: parseInt(e.target.value) })}
+                onChange={(e) => setFormData({ ...formData, low_stock_threshold: parseFloat(e.target.value) })}
               />
 
               <Box display="flex" alignItems="center" gap={2}>
@@ -1069,7 +1108,7 @@ const InventoryPage = () => {
                   label={t('inventory.stockQuantityLabel')}
                   type="number"
                   value={addProductFormData.quantity_in_stock}
-                  onChange={(e) => setAddProductFormData({ ...addProductFormData, quantity_in_stock: parseInt(e.target.value) || 0 })}
+                  onChange={(e) => setAddProductFormData({ ...addProductFormData, quantity_in_stock: parseFloat(e.target.value) || 0 })}
                   inputProps={{ min: 0 }}
                 />
                 <TextField
@@ -1077,7 +1116,7 @@ const InventoryPage = () => {
                   label={t('inventory.lowStockThresholdLabel')}
                   type="number"
                   value={addProductFormData.low_stock_threshold}
-                  onChange={(e) => setAddProductFormData({ ...addProductFormData, low_stock_threshold: parseInt(e.target.value) || 10 })}
+                  onChange={(e) => setAddProductFormData({ ...addProductFormData, low_stock_threshold: parseFloat(e.target.value) || 10 })}
                   inputProps={{ min: 0 }}
                 />
               </Box>
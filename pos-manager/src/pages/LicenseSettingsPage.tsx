@@ -0,0 +1,252 @@
+import {
+  ArrowBack,
+  CardMembership,
+  Delete,
+  Refresh,
+  UploadFile,
+} from '@mui/icons-material';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Container,
+  Divider,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { NavigationBar } from '../components/NavigationBar';
+import type { LicenseResult, LicenseState, LicenseStatus } from '../services/licenseService';
+import { licenseService } from '../services/licenseService';
+
+const STATUS_COLORS: Record<LicenseStatus, 'success' | 'warning' | 'error' | 'default'> = {
+  active: 'success',
+  grace: 'warning',
+  expired: 'error',
+  invalid: 'error',
+  unlicensed: 'error',
+  unrestricted: 'default',
+};
+
+const LicenseSettingsPage: React.FC = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [state, setState] = useState<LicenseState | null>(null);
+  const [licenseKey, setLicenseKey] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+
+  const available = licenseService.isAvailable();
+
+  useEffect(() => {
+    licenseService.getState()
+      .then(setState)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const apply = (result: LicenseResult, successText: string) => {
+    if (result.state) setState(result.state);
+    setMessage(result.success
+      ? { severity: 'success', text: successText }
+      : { severity: 'error', text: result.error || t('license.failed') });
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      setMessage({ severity: 'error', text: error instanceof Error ? error.message : t('license.failed') });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleActivate = () => run(async () => {
+    apply(await licenseService.activate(licenseKey.trim()), t('license.activated'));
+    setLicenseKey('');
+  });
+
+  const handleRefresh = () => run(async () => {
+    const refreshed = await licenseService.refresh();
+    if (refreshed) setState(refreshed);
+    setMessage({ severity: 'success', text: t('license.checked') });
+  });
+
+  const handleFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    run(async () => apply(await licenseService.installLicenseFile(await file.text()), t('license.fileInstalled')));
+  };
+
+  const handleRemoveFile = () => run(async () => {
+    apply(await licenseService.removeLicenseFile(), t('license.fileRemoved'));
+  });
+
+  const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : '-');
+
+  return (
+    <>
+      <NavigationBar />
+      <Container maxWidth="md" sx={{ mt: 4, mb: 4 }}>
+        <Box sx={{ mb: 4 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+            <Button
+              startIcon={<ArrowBack />}
+              onClick={() => navigate('/settings')}
+              sx={{ mr: 2 }}
+            >
+              {t('settings.backToSettings')}
+            </Button>
+            <Typography variant="h4" fontWeight="bold">
+              {t('license.title')}
+            </Typography>
+          </Box>
+          <Typography variant="body1" color="text.secondary">
+            {t('license.subtitle')}
+          </Typography>
+        </Box>
+
+        {!available && (
+          <Alert severity="info" sx={{ mb: 3 }}>
+            {t('license.desktopOnly')}
+          </Alert>
+        )}
+
+        {message && (
+          <Alert severity={message.severity} onClose={() => setMessage(null)} sx={{ mb: 3 }}>
+            {message.text}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress />
+          </Box>
+        ) : state && (
+          <Stack spacing={3}>
+            <Card>
+              <CardContent>
+                <Stack spacing={2}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                    <Typography variant="h6">{t('license.status')}</Typography>
+                    <Chip label={t(`license.statuses.${state.status}`)} color={STATUS_COLORS[state.status]} />
+                    {state.source && (
+                      <Chip variant="outlined" label={t(`license.sources.${state.source}`)} />
+                    )}
+                  </Box>
+                  {state.reason && (
+                    <Alert severity={licenseService.isUsable(state) ? 'warning' : 'error'}>{state.reason}</Alert>
+                  )}
+                  <Typography variant="body2">
+                    {t('license.machineId')}: <code>{state.machineId}</code>
+                  </Typography>
+                  <Typography variant="body2">
+                    {t('license.expiresAt')}: {formatDate(state.expiresAt)}
+                  </Typography>
+                  <Typography variant="body2">
+                    {t('license.lastVerifiedAt')}: {formatDate(state.lastVerifiedAt)}
+                  </Typography>
+                  {state.status === 'grace' && (
+                    <Typography variant="body2">
+                      {t('license.graceUntil')}: {formatDate(state.graceUntil)}
+                    </Typography>
+                  )}
+                  {state.maxPOSTerminals !== null && (
+                    <Typography variant="body2">
+                      {t('license.maxPOSTerminals')}: {state.maxPOSTerminals}
+                    </Typography>
+                  )}
+                  {state.features.length > 0 && (
+                    <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                      {state.features.map(feature => (
+                        <Chip key={feature} size="small" label={feature} />
+                      ))}
+                    </Box>
+                  )}
+                  <Box>
+                    <Button variant="outlined" startIcon={<Refresh />} onClick={handleRefresh} disabled={!available || busy}>
+                      {t('license.checkNow')}
+                    </Button>
+                  </Box>
+                </Stack>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent>
+                <Stack spacing={2}>
+                  <Typography variant="h6">{t('license.activation')}</Typography>
+                  <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                    <TextField
+                      fullWidth
+                      label={t('license.licenseKey')}
+                      value={licenseKey}
+                      onChange={(e) => setLicenseKey(e.target.value)}
+                      helperText={t('license.licenseKeyHelp')}
+                    />
+                    <Button
+                      variant="contained"
+                      startIcon={<CardMembership />}
+                      onClick={handleActivate}
+                      disabled={!available || busy || !licenseKey.trim()}
+                      sx={{ alignSelf: { sm: 'flex-start' }, minWidth: 140, height: 56 }}
+                    >
+                      {t('license.activate')}
+                    </Button>
+                  </Stack>
+
+                  <Divider />
+
+                  <Typography variant="body2" color="text.secondary">
+                    {t('license.offlineHelp')}
+                  </Typography>
+                  <input
+                    ref={fileInput}
+                    type="file"
+                    accept=".json,.lic,application/json"
+                    hidden
+                    onChange={handleFileSelected}
+                  />
+                  <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+                    <Button
+                      variant="outlined"
+                      startIcon={<UploadFile />}
+                      onClick={() => fileInput.current?.click()}
+                      disabled={!available || busy}
+                    >
+                      {t('license.installFile')}
+                    </Button>
+                    {state.source === 'file' && (
+                      <Button
+                        variant="outlined"
+                        color="error"
+                        startIcon={<Delete />}
+                        onClick={handleRemoveFile}
+                        disabled={!available || busy}
+                      >
+                        {t('license.removeFile')}
+                      </Button>
+                    )}
+                  </Box>
+                </Stack>
+              </CardContent>
+            </Card>
+          </Stack>
+        )}
+      </Container>
+    </>
+  );
+};
+
+export default LicenseSettingsPage;
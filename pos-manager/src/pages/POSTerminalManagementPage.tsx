@@ -4,8 +4,10 @@ import {
   Computer,
   Edit,
   NetworkCheck,
+  Radar,
   Refresh,
   Search,
+  Wifi,
 } from '@mui/icons-material';
 import {
   Alert,
@@ -31,38 +33,13 @@ import {
   TextField,
   Typography,
 } from '@mui/material';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useNavigate } from 'react-router-dom';
 import { NavigationBar } from '../components/NavigationBar';
-
-// This would be imported from your API service
-// import apiService from '../services/api';
-
-interface POSTerminal {
-  id: string;
-  terminal_id: string;
-  name: string;
-  ip_address: string;
-  port: number;
-  mac_address?: string;
-  location?: string;
-  assigned_employee_id?: string;
-  assigned_employee_name?: string;
-  assigned_employee_role?: string;
-  status: 'online' | 'offline' | 'maintenance' | 'error';
-  last_seen?: string;
-  hardware_info?: any;
-  software_version?: string;
-}
-
-interface Employee {
-  id: string;
-  name: string;
-  employee_id: string;
-  role: string;
-  status: string;
-}
+import { useWebSocket } from '../hooks/useWebSocket';
+import type { DiscoveredTerminal, Employee, POSTerminal, TerminalDiscoveryScan } from '../services/api';
+import { apiService } from '../services/api';
 
 interface POSTerminalFormData {
   terminal_id: string;
@@ -95,104 +72,127 @@ const POSTerminalManagementPage = () => {
     port: 5173,
   });
 
-  useEffect(() => {
-    loadData();
-  }, []);
+  // Terminals found on the network that can be adopted
+  const [discovered, setDiscovered] = useState<DiscoveredTerminal[]>([]);
+  const [scan, setScan] = useState<TerminalDiscoveryScan | null>(null);
+  const [discoveryListening, setDiscoveryListening] = useState(true);
+  const [ipRange, setIpRange] = useState('');
+  const [adoptingKey, setAdoptingKey] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const { onTerminalDiscovery } = useWebSocket();
 
-  const loadData = async () => {
+  const loadData = useCallback(async () => {
     setIsLoading(true);
     try {
-      // Mock data for demonstration - replace with actual API calls
-      setTerminals([
-        {
-          id: '1',
-          terminal_id: 'POS-001',
-          name: 'Checkout Counter 1',
-          ip_address: '192.168.1.101',
-          port: 5173,
-          mac_address: '00:11:22:33:44:55',
-          location: 'Front Counter - Left',
-          assigned_employee_id: '1',
-          assigned_employee_name: 'John Doe',
-          assigned_employee_role: 'cashier',
-          status: 'online',
-          last_seen: new Date().toISOString(),
-          software_version: '1.0.0',
-        },
-        {
-          id: '2',
-          terminal_id: 'POS-002',
-          name: 'Checkout Counter 2',
-          ip_address: '192.168.1.102',
-          port: 5173,
-          mac_address: '00:11:22:33:44:56',
-          location: 'Front Counter - Right',
-          status: 'offline',
-          last_seen: new Date(Date.now() - 3600000).toISOString(),
-          software_version: '1.0.0',
-        },
-        {
-          id: '3',
-          terminal_id: 'POS-003',
-          name: 'Self-Service Kiosk',
-          ip_address: '192.168.1.103',
-          port: 5173,
-          mac_address: '00:11:22:33:44:57',
-          location: 'Customer Service Area',
-          status: 'maintenance',
-          last_seen: new Date(Date.now() - 7200000).toISOString(),
-          software_version: '0.9.5',
-        },
-      ]);
-
-      setEmployees([
-        { id: '1', name: 'John Doe', employee_id: 'EMP001', role: 'cashier', status: 'active' },
-        { id: '2', name: 'Jane Smith', employee_id: 'EMP002', role: 'supervisor', status: 'active' },
-        { id: '3', name: 'Mike Johnson', employee_id: 'EMP003', role: 'cashier', status: 'active' },
+      const [terminalsResponse, employeesResponse, discoveryResponse] = await Promise.all([
+        apiService.getPOSTerminals(),
+        apiService.getAllEmployees(),
+        apiService.getDiscoveredTerminals(),
       ]);
 
-      // Real API calls would look like this:
-      // const [terminalsResponse, employeesResponse] = await Promise.all([
-      //   apiService.request('GET', '/network/terminals'),
-      //   apiService.getEmployees(),
-      // ]);
-      // if (terminalsResponse.success) setTerminals(terminalsResponse.data);
-      // if (employeesResponse.success) setEmployees(employeesResponse.data);
+      if (terminalsResponse.success && terminalsResponse.data) {
+        setTerminals(terminalsResponse.data);
+      } else {
+        setError(terminalsResponse.error || t('terminals.loadFailed'));
+      }
+      if (employeesResponse.success && employeesResponse.data) {
+        setEmployees(employeesResponse.data.employees);
+      }
+      if (discoveryResponse.success && discoveryResponse.data) {
+        setDiscovered(discoveryResponse.data.terminals);
+        setScan(discoveryResponse.data.scan);
+        setDiscoveryListening(discoveryResponse.data.listening);
+      }
     } catch (error: any) {
       setError(error.message);
     } finally {
       setIsLoading(false);
     }
+  }, [t]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  // Discovery results stream in over the WebSocket while the page is open
+  useEffect(() => {
+    return onTerminalDiscovery((message) => {
+      if (message.type === 'terminal_discovery_scan') {
+        setScan(message.payload as TerminalDiscoveryScan);
+        return;
+      }
+
+      const found = message.payload as DiscoveredTerminal;
+      setDiscovered(prev => [
+        found,
+        // An announcement replaces what the probe found at the same address
+        ...prev.filter(d => d.key !== found.key && !(found.terminal_id && !d.terminal_id && d.ip_address === found.ip_address)),
+      ]);
+      if (message.type === 'terminal_adopted') {
+        apiService.getPOSTerminals().then(response => {
+          if (response.success && response.data) setTerminals(response.data);
+        });
+      }
+    });
+  }, [onTerminalDiscovery]);
+
+  const handleDiscover = async (probe: boolean) => {
+    const response = await apiService.discoverTerminals({ ipRange: ipRange.trim(), probe });
+    if (!response.success) {
+      setError(response.error || t('terminals.discoveryFailed'));
+    } else if (response.data?.scan) {
+      setScan(response.data.scan);
+    }
+  };
+
+  const handleAdopt = async (terminal: DiscoveredTerminal) => {
+    // Terminals found by the probe did not tell us their ID, so ask for it first
+    if (!terminal.terminal_id) {
+      setEditingTerminal(null);
+      setAdoptingKey(terminal.key);
+      setFormData({
+        terminal_id: '',
+        name: '',
+        ip_address: terminal.ip_address,
+        port: terminal.port,
+      });
+      setTerminalDialogOpen(true);
+      return;
+    }
+
+    const response = await apiService.adoptDiscoveredTerminal(terminal.key);
+    if (response.success && response.data) {
+      setNotice(t('terminals.terminalAdopted', { name: response.data.name }));
+      await loadData();
+    } else {
+      setError(response.error || t('terminals.adoptFailed'));
+    }
   };
 
   const handleSaveTerminal = async () => {
     try {
-      // Mock save - replace with actual API call
-      const newTerminal: POSTerminal = {
-        id: editingTerminal?.id || Date.now().toString(),
-        ...formData,
-        status: 'offline',
-        last_seen: new Date().toISOString(),
-      };
-
-      if (editingTerminal) {
-        setTerminals(prev => prev.map(t => t.id === editingTerminal.id ? { ...t, ...newTerminal } : t));
-      } else {
-        setTerminals(prev => [...prev, newTerminal]);
+      const response = adoptingKey
+        ? await apiService.adoptDiscoveredTerminal(adoptingKey, {
+            terminal_id: formData.terminal_id,
+            name: formData.name,
+            location: formData.location,
+            assigned_employee_id: formData.assigned_employee_id || undefined,
+          })
+        : await apiService.savePOSTerminal({
+            ...formData,
+            assigned_employee_id: formData.assigned_employee_id || undefined,
+          });
+
+      if (!response.success) {
+        setError(response.error || t('terminals.saveFailed'));
+        return;
       }
 
+      await loadData();
       setTerminalDialogOpen(false);
       setEditingTerminal(null);
+      setAdoptingKey(null);
       resetForm();
-
-      // Real API call:
-      // const response = await apiService.request('POST', '/network/terminals', formData);
-      // if (response.success) {
-      //   await loadData();
-      //   setTerminalDialogOpen(false);
-      //   setEditingTerminal(null);
-      //   resetForm();
-      // }
     } catch (error: any) {
       setError(error.message);
     }
@@ -200,18 +200,11 @@ const POSTerminalManagementPage = () => {
 
   const handleTestConnection = async (terminalId: string) => {
     try {
-      // Mock test connection - replace with actual API call
-      setTerminals(prev => prev.map(t =>
-        t.id === terminalId
-          ? { ...t, status: Math.random() > 0.5 ? 'online' : 'error', last_seen: new Date().toISOString() }
-          : t
-      ));
-
-      // Real API call:
-      // const response = await apiService.request('POST', `/network/terminals/${terminalId}/test-connection`);
-      // if (response.success) {
-      //   await loadData();
-      // }
+      const response = await apiService.testPOSTerminalConnection(terminalId);
+      if (!response.success) {
+        setError(response.error || t('terminals.connectionFailed'));
+      }
+      await loadData();
     } catch (error: any) {
       setError(error.message);
     }
@@ -219,6 +212,7 @@ const POSTerminalManagementPage = () => {
 
   const handleEditTerminal = (terminal: POSTerminal) => {
     setEditingTerminal(terminal);
+    setAdoptingKey(null);
     setFormData({
       terminal_id: terminal.terminal_id,
       name: terminal.name,
@@ -305,6 +299,7 @@ const POSTerminalManagementPage = () => {
               onClick={() => {
                 resetForm();
                 setEditingTerminal(null);
+                setAdoptingKey(null);
                 setTerminalDialogOpen(true);
               }}
             >
@@ -321,6 +316,12 @@ const POSTerminalManagementPage = () => {
           </Alert>
         )}
 
+        {notice && (
+          <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+            {notice}
+          </Alert>
+        )}
+
         {/* Stats Cards */}
         <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: 3, mb: 3 }}>
           <Card>
@@ -406,6 +407,101 @@ const POSTerminalManagementPage = () => {
           </Stack>
         </Paper>
 
+        {/* Discovered Terminals */}
+        <Paper sx={{ p: 2, mb: 3 }}>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }} sx={{ mb: 2 }}>
+            <Box sx={{ flexGrow: 1 }}>
+              <Typography variant="h6">{t('terminals.discoveredTerminals')}</Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('terminals.discoveryHint')}
+              </Typography>
+            </Box>
+            <TextField
+              size="small"
+              label={t('terminals.ipRange')}
+              value={ipRange}
+              onChange={(e) => setIpRange(e.target.value)}
+              placeholder="192.168.1.0/24"
+              sx={{ minWidth: 200 }}
+            />
+            <Button variant="outlined" startIcon={<Wifi />} onClick={() => handleDiscover(false)}>
+              {t('terminals.searchNetwork')}
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<Radar />}
+              onClick={() => handleDiscover(true)}
+              disabled={scan?.status === 'running'}
+            >
+              {t('terminals.probeSubnet')}
+            </Button>
+          </Stack>
+
+          {!discoveryListening && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              {t('terminals.discoveryOff')}
+            </Alert>
+          )}
+
+          {scan?.status === 'running' && (
+            <Box sx={{ mb: 2 }}>
+              <LinearProgress
+                variant="determinate"
+                value={scan.hosts_total > 0 ? (scan.hosts_probed / scan.hosts_total) * 100 : 0}
+              />
+              <Typography variant="caption" color="text.secondary">
+                {t('terminals.probing', { range: scan.range, probed: scan.hosts_probed, total: scan.hosts_total })}
+              </Typography>
+            </Box>
+          )}
+          {scan?.status === 'finished' && (
+            <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 2 }}>
+              {t('terminals.probeFinished', { range: scan.range, found: scan.found })}
+            </Typography>
+          )}
+
+          {discovered.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              {t('terminals.noDiscoveredTerminals')}
+            </Typography>
+          ) : (
+            <Stack spacing={1}>
+              {discovered.map((terminal) => (
+                <Box
+                  key={terminal.key}
+                  sx={{ display: 'flex', alignItems: 'center', gap: 2, p: 1, border: 1, borderColor: 'divider', borderRadius: 1 }}
+                >
+                  <Box sx={{ flexGrow: 1 }}>
+                    <Typography variant="body1" fontWeight="bold">
+                      {terminal.name || terminal.terminal_id || terminal.ip_address}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {[
+                        terminal.terminal_id,
+                        `${terminal.ip_address}:${terminal.port}`,
+                        terminal.mac_address,
+                        terminal.software_version && `v${terminal.software_version}`,
+                      ].filter(Boolean).join(' · ')}
+                    </Typography>
+                  </Box>
+                  <Chip
+                    size="small"
+                    variant="outlined"
+                    label={terminal.source === 'announce' ? t('terminals.announced') : t('terminals.foundByProbe')}
+                  />
+                  {terminal.registered_terminal_id ? (
+                    <Chip size="small" color="success" label={t('terminals.registered')} />
+                  ) : (
+                    <Button size="small" variant="contained" startIcon={<Add />} onClick={() => handleAdopt(terminal)}>
+                      {t('terminals.adopt')}
+                    </Button>
+                  )}
+                </Box>
+              ))}
+            </Stack>
+          )}
+        </Paper>
+
         {/* Terminals Grid */}
         {filteredTerminals.length === 0 ? (
           <Paper sx={{ p: 4, textAlign: 'center' }}>
@@ -419,6 +515,7 @@ const POSTerminalManagementPage = () => {
               onClick={() => {
                 resetForm();
                 setEditingTerminal(null);
+                setAdoptingKey(null);
                 setTerminalDialogOpen(true);
               }}
               sx={{ mt: 2 }}
@@ -496,7 +593,9 @@ const POSTerminalManagementPage = () => {
         {/* Terminal Configuration Dialog */}
         <Dialog open={terminalDialogOpen} onClose={() => setTerminalDialogOpen(false)} maxWidth="md" fullWidth>
           <DialogTitle>
-            {editingTerminal ? t('terminals.editTerminal') : t('terminals.addTerminal')}
+            {editingTerminal
+              ? t('terminals.editTerminal')
+              : adoptingKey ? t('terminals.adoptTerminal') : t('terminals.addTerminal')}
           </DialogTitle>
           <DialogContent>
             <Box sx={{ display: 'grid', gap: 2, mt: 1 }}>
@@ -522,12 +621,14 @@ const POSTerminalManagementPage = () => {
                   value={formData.ip_address}
                   onChange={(e) => setFormData(prev => ({ ...prev, ip_address: e.target.value }))}
                   placeholder="192.168.1.101"
+                  disabled={!!adoptingKey}
                 />
                 <TextField
                   label={t('terminals.port')}
                   type="number"
                   value={formData.port}
                   onChange={(e) => setFormData(prev => ({ ...prev, port: parseInt(e.target.value) }))}
+                  disabled={!!adoptingKey}
                 />
               </Box>
 
@@ -577,7 +678,9 @@ const POSTerminalManagementPage = () => {
           <DialogActions>
             <Button onClick={() => setTerminalDialogOpen(false)}>{t('common.cancel')}</Button>
             <Button onClick={handleSaveTerminal} variant="contained">
-              {editingTerminal ? t('terminals.updateTerminal') : t('terminals.addPOSTerminal')}
+              {editingTerminal
+                ? t('terminals.updateTerminal')
+                : adoptingKey ? t('terminals.adopt') : t('terminals.addPOSTerminal')}
             </Button>
           </DialogActions>
         </Dialog>
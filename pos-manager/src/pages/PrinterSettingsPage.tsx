@@ -0,0 +1,288 @@
+import {
+  ArrowBack,
+  Image as ImageIcon,
+  Print as PrintIcon,
+  PointOfSale,
+  Save,
+} from '@mui/icons-material';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CircularProgress,
+  Container,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { NavigationBar } from '../components/NavigationBar';
+import type { PrintJobResult, PrinterConfig } from '../services/printerService';
+import { printerService } from '../services/printerService';
+
+const PrinterSettingsPage: React.FC = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [config, setConfig] = useState<PrinterConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+
+  const available = printerService.isAvailable();
+
+  useEffect(() => {
+    printerService.getConfig()
+      .then(setConfig)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const update = <K extends keyof PrinterConfig>(key: K, value: PrinterConfig[K]) => {
+    setConfig(prev => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!config) return;
+    setBusy(true);
+    try {
+      const saved = await printerService.saveConfig(config);
+      if (saved) setConfig(saved);
+      setMessage({ severity: 'success', text: t('printer.saved') });
+    } catch (error) {
+      setMessage({ severity: 'error', text: error instanceof Error ? error.message : t('printer.saveFailed') });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Test page and drawer kick use the saved settings, so save first
+  const runJob = async (job: () => Promise<PrintJobResult>, successText: string) => {
+    if (!config) return;
+    setBusy(true);
+    try {
+      await printerService.saveConfig(config);
+      const result = await job();
+      setMessage(result.success
+        ? { severity: 'success', text: successText }
+        : { severity: 'error', text: [t('printer.printFailed'), result.error].filter(Boolean).join(': ') });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleChooseLogo = async () => {
+    const logoPath = await printerService.chooseLogo();
+    if (logoPath) update('logoPath', logoPath);
+  };
+
+  return (
+    <>
+      <NavigationBar />
+      <Container maxWidth="md" sx={{ mt: 4, mb: 4 }}>
+        <Box sx={{ mb: 4 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+            <Button
+              startIcon={<ArrowBack />}
+              onClick={() => navigate('/settings')}
+              sx={{ mr: 2 }}
+            >
+              {t('settings.backToSettings')}
+            </Button>
+            <Typography variant="h4" fontWeight="bold">
+              {t('printer.title')}
+            </Typography>
+          </Box>
+          <Typography variant="body1" color="text.secondary">
+            {t('printer.subtitle')}
+          </Typography>
+        </Box>
+
+        {!available && (
+          <Alert severity="info" sx={{ mb: 3 }}>
+            {t('printer.desktopOnly')}
+          </Alert>
+        )}
+
+        {message && (
+          <Alert severity={message.severity} onClose={() => setMessage(null)} sx={{ mb: 3 }}>
+            {message.text}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress />
+          </Box>
+        ) : config && (
+          <Card>
+            <CardContent>
+              <Stack spacing={3}>
+                <FormControlLabel
+                  control={<Switch checked={config.enabled} onChange={(e) => update('enabled', e.target.checked)} />}
+                  label={t('printer.enabled')}
+                />
+
+                <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                  <FormControl fullWidth>
+                    <InputLabel>{t('printer.connection')}</InputLabel>
+                    <Select
+                      value={config.connection}
+                      label={t('printer.connection')}
+                      onChange={(e) => update('connection', e.target.value as PrinterConfig['connection'])}
+                    >
+                      <MenuItem value="usb">{t('printer.connections.usb')}</MenuItem>
+                      <MenuItem value="serial">{t('printer.connections.serial')}</MenuItem>
+                      <MenuItem value="network">{t('printer.connections.network')}</MenuItem>
+                    </Select>
+                  </FormControl>
+                  <FormControl fullWidth>
+                    <InputLabel>{t('printer.paperWidth')}</InputLabel>
+                    <Select
+                      value={config.paperWidth}
+                      label={t('printer.paperWidth')}
+                      onChange={(e) => update('paperWidth', Number(e.target.value) as PrinterConfig['paperWidth'])}
+                    >
+                      <MenuItem value={58}>58 mm</MenuItem>
+                      <MenuItem value={80}>80 mm</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Stack>
+
+                {config.connection === 'network' ? (
+                  <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                    <TextField
+                      fullWidth
+                      label={t('printer.host')}
+                      value={config.host || ''}
+                      onChange={(e) => update('host', e.target.value)}
+                      placeholder="192.168.1.50"
+                    />
+                    <TextField
+                      label={t('printer.port')}
+                      type="number"
+                      value={config.port ?? 9100}
+                      onChange={(e) => update('port', Number(e.target.value))}
+                      sx={{ minWidth: 140 }}
+                    />
+                  </Stack>
+                ) : (
+                  <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                    <TextField
+                      fullWidth
+                      label={config.connection === 'serial' ? t('printer.serialPort') : t('printer.devicePath')}
+                      value={config.devicePath || ''}
+                      onChange={(e) => update('devicePath', e.target.value)}
+                      helperText={config.connection === 'serial' ? t('printer.serialPortHelp') : t('printer.devicePathHelp')}
+                    />
+                    {config.connection === 'serial' && (
+                      <TextField
+                        label={t('printer.baudRate')}
+                        type="number"
+                        value={config.baudRate ?? 9600}
+                        onChange={(e) => update('baudRate', Number(e.target.value))}
+                        sx={{ minWidth: 140 }}
+                      />
+                    )}
+                  </Stack>
+                )}
+
+                <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                  <FormControl fullWidth>
+                    <InputLabel>{t('printer.cutMode')}</InputLabel>
+                    <Select
+                      value={config.cutMode}
+                      label={t('printer.cutMode')}
+                      onChange={(e) => update('cutMode', e.target.value as PrinterConfig['cutMode'])}
+                    >
+                      <MenuItem value="partial">{t('printer.cutModes.partial')}</MenuItem>
+                      <MenuItem value="full">{t('printer.cutModes.full')}</MenuItem>
+                      <MenuItem value="none">{t('printer.cutModes.none')}</MenuItem>
+                    </Select>
+                  </FormControl>
+                  <TextField
+                    fullWidth
+                    label={t('printer.codePage')}
+                    type="number"
+                    value={config.codePage}
+                    onChange={(e) => update('codePage', Number(e.target.value))}
+                    helperText={t('printer.codePageHelp')}
+                  />
+                </Stack>
+
+                <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
+                  <FormControlLabel
+                    sx={{ flex: 1 }}
+                    control={
+                      <Switch
+                        checked={config.openDrawerOnCash}
+                        onChange={(e) => update('openDrawerOnCash', e.target.checked)}
+                      />
+                    }
+                    label={t('printer.openDrawerOnCash')}
+                  />
+                  <FormControl sx={{ minWidth: 180 }}>
+                    <InputLabel>{t('printer.drawerPin')}</InputLabel>
+                    <Select
+                      value={config.drawerPin}
+                      label={t('printer.drawerPin')}
+                      onChange={(e) => update('drawerPin', Number(e.target.value) as PrinterConfig['drawerPin'])}
+                    >
+                      <MenuItem value={2}>{t('printer.pin', { pin: 2 })}</MenuItem>
+                      <MenuItem value={5}>{t('printer.pin', { pin: 5 })}</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Stack>
+
+                <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
+                  <TextField
+                    fullWidth
+                    label={t('printer.logo')}
+                    value={config.logoPath || ''}
+                    onChange={(e) => update('logoPath', e.target.value)}
+                    helperText={t('printer.logoHelp')}
+                  />
+                  <Button variant="outlined" startIcon={<ImageIcon />} onClick={handleChooseLogo} disabled={!available}>
+                    {t('printer.chooseLogo')}
+                  </Button>
+                </Stack>
+
+                <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+                  <Button variant="contained" startIcon={<Save />} onClick={handleSave} disabled={!available || busy}>
+                    {t('common.save')}
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    startIcon={<PrintIcon />}
+                    onClick={() => runJob(() => printerService.printTestPage(), t('printer.testPrinted'))}
+                    disabled={!available || busy}
+                  >
+                    {t('printer.testPage')}
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    startIcon={<PointOfSale />}
+                    onClick={() => runJob(() => printerService.openCashDrawer(), t('printer.drawerOpened'))}
+                    disabled={!available || busy}
+                  >
+                    {t('printer.openDrawer')}
+                  </Button>
+                </Box>
+              </Stack>
+            </CardContent>
+          </Card>
+        )}
+      </Container>
+    </>
+  );
+};
+
+export default PrinterSettingsPage;
@@ -0,0 +1,215 @@
+import {
+  ArrowBack,
+  Save,
+  Scale,
+} from '@mui/icons-material';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CircularProgress,
+  Container,
+  FormControl,
+  FormControlLabel,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { NavigationBar } from '../components/NavigationBar';
+import type { ScaleConfig } from '../services/scaleService';
+import { scaleService } from '../services/scaleService';
+
+const ScaleSettingsPage: React.FC = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [config, setConfig] = useState<ScaleConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+
+  const available = scaleService.isAvailable();
+
+  useEffect(() => {
+    scaleService.getConfig()
+      .then(setConfig)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const update = <K extends keyof ScaleConfig>(key: K, value: ScaleConfig[K]) => {
+    setConfig(prev => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!config) return;
+    setBusy(true);
+    try {
+      const saved = await scaleService.saveConfig(config);
+      if (saved) setConfig(saved);
+      setMessage({ severity: 'success', text: t('scale.saved') });
+    } catch (error) {
+      setMessage({ severity: 'error', text: error instanceof Error ? error.message : t('scale.saveFailed') });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Test reads use the saved settings, so save first
+  const handleTestRead = async () => {
+    if (!config) return;
+    setBusy(true);
+    try {
+      await scaleService.saveConfig(config);
+      const result = await scaleService.readWeight();
+      setMessage(result.success && result.weight !== undefined
+        ? { severity: 'success', text: t('scale.weightRead', { weight: result.weight.toFixed(3) }) }
+        : { severity: 'error', text: [t('scale.readFailed'), result.error].filter(Boolean).join(': ') });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <NavigationBar />
+      <Container maxWidth="md" sx={{ mt: 4, mb: 4 }}>
+        <Box sx={{ mb: 4 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+            <Button
+              startIcon={<ArrowBack />}
+              onClick={() => navigate('/settings')}
+              sx={{ mr: 2 }}
+            >
+              {t('settings.backToSettings')}
+            </Button>
+            <Typography variant="h4" fontWeight="bold">
+              {t('scale.title')}
+            </Typography>
+          </Box>
+          <Typography variant="body1" color="text.secondary">
+            {t('scale.subtitle')}
+          </Typography>
+        </Box>
+
+        {!available && (
+          <Alert severity="info" sx={{ mb: 3 }}>
+            {t('scale.desktopOnly')}
+          </Alert>
+        )}
+
+        {message && (
+          <Alert severity={message.severity} onClose={() => setMessage(null)} sx={{ mb: 3 }}>
+            {message.text}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress />
+          </Box>
+        ) : config && (
+          <Card>
+            <CardContent>
+              <Stack spacing={3}>
+                <FormControlLabel
+                  control={<Switch checked={config.enabled} onChange={(e) => update('enabled', e.target.checked)} />}
+                  label={t('scale.enabled')}
+                />
+
+                <FormControl fullWidth>
+                  <InputLabel>{t('scale.connection')}</InputLabel>
+                  <Select
+                    value={config.connection}
+                    label={t('scale.connection')}
+                    onChange={(e) => update('connection', e.target.value as ScaleConfig['connection'])}
+                  >
+                    <MenuItem value="serial">{t('scale.connections.serial')}</MenuItem>
+                    <MenuItem value="simulated">{t('scale.connections.simulated')}</MenuItem>
+                  </Select>
+                </FormControl>
+
+                {config.connection === 'serial' ? (
+                  <>
+                    <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                      <TextField
+                        fullWidth
+                        label={t('printer.serialPort')}
+                        value={config.devicePath || ''}
+                        onChange={(e) => update('devicePath', e.target.value)}
+                        helperText={t('printer.serialPortHelp')}
+                      />
+                      <TextField
+                        label={t('printer.baudRate')}
+                        type="number"
+                        value={config.baudRate ?? 9600}
+                        onChange={(e) => update('baudRate', Number(e.target.value))}
+                        sx={{ minWidth: 140 }}
+                      />
+                    </Stack>
+                    <FormControl fullWidth>
+                      <InputLabel>{t('scale.command')}</InputLabel>
+                      <Select
+                        value={config.command ?? 'enq'}
+                        label={t('scale.command')}
+                        onChange={(e) => update('command', e.target.value as ScaleConfig['command'])}
+                      >
+                        <MenuItem value="enq">{t('scale.commands.enq')}</MenuItem>
+                        <MenuItem value="w">{t('scale.commands.w')}</MenuItem>
+                        <MenuItem value="none">{t('scale.commands.none')}</MenuItem>
+                      </Select>
+                    </FormControl>
+                    <FormControlLabel
+                      control={
+                        <Switch
+                          checked={config.requireStable}
+                          onChange={(e) => update('requireStable', e.target.checked)}
+                        />
+                      }
+                      label={t('scale.requireStable')}
+                    />
+                  </>
+                ) : (
+                  <TextField
+                    fullWidth
+                    label={t('scale.simulatedWeight')}
+                    type="number"
+                    value={config.simulatedWeight ?? 0}
+                    onChange={(e) => update('simulatedWeight', Number(e.target.value))}
+                    helperText={t('scale.simulatedWeightHelp')}
+                    inputProps={{ min: 0, step: 0.005 }}
+                    InputProps={{ endAdornment: <InputAdornment position="end">kg</InputAdornment> }}
+                  />
+                )}
+
+                <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+                  <Button variant="contained" startIcon={<Save />} onClick={handleSave} disabled={!available || busy}>
+                    {t('common.save')}
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    startIcon={<Scale />}
+                    onClick={handleTestRead}
+                    disabled={!available || busy}
+                  >
+                    {t('scale.testRead')}
+                  </Button>
+                </Box>
+              </Stack>
+            </CardContent>
+          </Card>
+        )}
+      </Container>
+    </>
+  );
+};
+
+export default ScaleSettingsPage;
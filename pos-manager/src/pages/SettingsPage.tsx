@@ -1,8 +1,11 @@
 import {
   AccountBalance,
+  CardMembership,
   Computer,
   Key,
   NetworkCheck,
+  Print,
+  Scale,
   Settings as SettingsIcon,
 } from '@mui/icons-material';
 import {
@@ -52,6 +55,30 @@ const SETTINGS_OPTIONS: SettingsOption[] = [
     color: 'success',
     requiredRole: 'admin',
   },
+  {
+    title: 'settings.printerSettings',
+    description: 'settings.printerDescription',
+    icon: <Print sx={{ fontSize: 48 }} />,
+    path: '/settings/printer',
+    color: 'secondary',
+    requiredRole: 'admin',
+  },
+  {
+    title: 'settings.scaleSettings',
+    description: 'settings.scaleDescription',
+    icon: <Scale sx={{ fontSize: 48 }} />,
+    path: '/settings/scale',
+    color: 'secondary',
+    requiredRole: 'admin',
+  },
+  {
+    title: 'settings.licenseSettings',
+    description: 'settings.licenseDescription',
+    icon: <CardMembership sx={{ fontSize: 48 }} />,
+    path: '/settings/license',
+    color: 'warning',
+    requiredRole: 'admin',
+  },
   {
     title: 'settings.apiKeyManagement',
     description: 'settings.apiKeyDescription',
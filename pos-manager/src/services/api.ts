@@ -4,6 +4,7 @@ export interface ApiResponse<T = any> {
   data?: T;
   message?: string;
   error?: string;
+  offline?: boolean; // The branch server could not be reached at all
 }
 
 export interface User {
@@ -26,19 +27,47 @@ export interface Product {
   barcode?: string;
   price: number;
   cost: number;
-  quantity_in_stock: number;
+  quantity_in_stock: number; // Fractional for products sold by weight or volume
   low_stock_threshold: number;
+  unit_of_measure?: string; // pcs, kg, l, ...
   category?: string; // Legacy field - kept for backward compatibility
   category_key?: string; // New field from API
   category_name?: string; // New field from API  
   brand?: string;
+  location?: string; // Aisle, shelf or storage area
   description?: string;
   image_url?: string;
   image_paths?: Record<string, string>; // New field for processed images
   has_image?: boolean; // New field to track if product has images
+  variant_attributes?: Record<string, string> | null; // Size, colour, ... of a variant
   is_active: boolean;
 }
 
+// Scale label (EAN-13 with the weight or package price embedded) resolved by the branch
+export interface EmbeddedBarcode {
+  barcode: string;
+  kind: 'weight' | 'price';
+  prefix: string;
+  item_code: string;
+  weight?: number; // Kilograms
+  price?: number; // Line total printed on the label
+  quantity: number; // Quantity to sell, in the product unit of measure; a price label only moves stock by it
+}
+
+// Additional barcode of a product (supplier barcode or multipack) resolved by the branch
+export interface PackagingBarcode {
+  barcode: string;
+  quantity_multiplier: number; // Units of the product one scan adds
+  description?: string | null;
+}
+
+export interface BarcodeLookup {
+  product: Product;
+  fromCache: boolean;
+  embedded?: EmbeddedBarcode;
+  packaging?: PackagingBarcode;
+}
+
 export interface Transaction {
   id: string;
   terminal_id: string;
@@ -58,9 +87,327 @@ export interface TransactionItem {
   quantity: number;
   unit_price: number;
   total_price: number;
+  discount_amount?: number;
+  applied_promotion_ids?: string[];
   product?: Product;
 }
 
+// Fiscal receipt registered with the fiscal module by branch-core
+export interface FiscalReceipt {
+  id: string;
+  transaction_id: string;
+  refund_id?: string | null;
+  receipt_type: 'sale' | 'refund' | 'void';
+  status: 'pending' | 'fiscalized' | 'failed' | 'cancelled';
+  attempts: number;
+  last_error?: string | null;
+  fiscal_module_id?: string | null;
+  receipt_seq?: string | null;
+  fiscal_sign?: string | null;
+  qr_url?: string | null;
+  fiscalized_at?: string | null;
+  created_at: string;
+}
+
+export interface PaymentResult {
+  transactionId: string;
+  status: 'completed';
+  changeGiven: number;
+  fiscal: FiscalReceipt | null; // null when the branch has no fiscal module configured
+}
+
+export interface RefundRequest {
+  terminalId: string;
+  employeeId: string;
+  reason: string;
+  items: {
+    transactionItemId: string;
+    quantity: number;
+    condition: 'resellable' | 'damaged';
+  }[];
+}
+
+export interface RefundResult {
+  refund: {
+    id: string;
+    original_transaction_id: string;
+    subtotal: number;
+    tax_amount: number;
+    total_amount: number;
+    // partially_failed refunds keep the returned items out of stock until retried
+    status: 'pending' | 'completed' | 'partially_failed' | 'failed';
+    completed_at?: string | null;
+    created_at: string;
+  };
+  payments: {
+    paymentId: string;
+    method: string;
+    amount: number;
+    status: 'pending' | 'completed' | 'failed';
+    providerReference?: string;
+    error?: string;
+  }[];
+  transactionStatus: 'completed' | 'refunded';
+  fiscal: FiscalReceipt | null;
+}
+
+export type StockTransferStatus = 'requested' | 'approved' | 'rejected' | 'shipped' | 'received' | 'cancelled';
+
+export interface StockTransferItem {
+  id: string;
+  product_id: string;
+  product_name: string;
+  sku?: string;
+  barcode?: string;
+  quantity_requested: number | string;
+  quantity_approved?: number | string | null;
+  quantity_shipped?: number | string | null;
+  quantity_received?: number | string | null;
+  discrepancy_notes?: string | null;
+}
+
+export interface StockTransfer {
+  id: string;
+  transfer_number: string;
+  from_branch_id: string;
+  from_branch_name: string;
+  to_branch_id: string;
+  to_branch_name: string;
+  status: StockTransferStatus;
+  notes?: string;
+  has_discrepancy: boolean;
+  requested_at: string;
+  shipped_at?: string;
+  received_at?: string;
+  item_count?: number | string;
+  items?: StockTransferItem[];
+}
+
+export interface TransferQuantity {
+  itemId: string;
+  quantity: number;
+  notes?: string;
+}
+
+export type PurchaseOrderStatus =
+  | 'draft'
+  | 'submitted'
+  | 'approved'
+  | 'rejected'
+  | 'ordered'
+  | 'partially_received'
+  | 'received'
+  | 'cancelled';
+
+export interface PurchaseOrderItem {
+  id: string;
+  product_id: string;
+  product_name: string;
+  sku?: string;
+  barcode?: string;
+  supplier_sku?: string;
+  quantity_ordered: number | string;
+  quantity_received: number | string;
+  unit_cost: number | string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  supplier_name: string;
+  status: PurchaseOrderStatus;
+  expected_date?: string;
+  total_cost: number | string;
+  notes?: string;
+  created_at: string;
+  item_count?: number | string;
+  items?: PurchaseOrderItem[];
+}
+
+export interface ReceiveQuantity {
+  itemId: string;
+  quantity: number;
+  unitCost?: number;
+  notes?: string;
+}
+
+export type StocktakeStatus = 'counting' | 'review' | 'approved' | 'cancelled';
+export type StocktakeScope = 'full' | 'category' | 'location';
+
+export interface StocktakeItem {
+  id: string;
+  product_id: string;
+  product_name: string;
+  barcode?: string;
+  sku?: string;
+  location?: string;
+  expected_quantity: number;
+  counted_quantity: number | null;
+  variance: number | null;
+  adjustment_quantity: number | null;
+  last_counted_at?: string | null;
+}
+
+export interface Stocktake {
+  id: string;
+  stocktake_number: string;
+  name?: string;
+  scope_type: StocktakeScope;
+  category_id?: string | null;
+  category_name?: string | null;
+  location?: string | null;
+  status: StocktakeStatus;
+  notes?: string;
+  created_by: string;
+  approved_by?: string | null;
+  snapshot_at: string;
+  counting_finished_at?: string | null;
+  approved_at?: string | null;
+  item_count: number;
+  counted_count: number;
+  variance_count: number;
+  items?: StocktakeItem[];
+}
+
+export type ParkedCartStatus = 'parked' | 'resumed' | 'cancelled' | 'expired';
+
+export interface ParkedCartItem {
+  productId: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+// Cart put on hold on the branch server; any till of the branch can resume it
+export interface ParkedCart {
+  id: string;
+  park_number: string;
+  terminal_id: string;
+  employee_id: string;
+  employee_name?: string | null;
+  customer_id?: string | null;
+  customer_name?: string | null;
+  customer_card_number?: string | null;
+  customer_phone?: string | null;
+  note?: string | null;
+  items: ParkedCartItem[];
+  item_count: number;
+  total_amount: number;
+  status: ParkedCartStatus;
+  expires_at: string;
+  resumed_at?: string | null;
+  resumed_by?: string | null;
+  resumed_terminal_id?: string | null;
+  cancelled_at?: string | null;
+  cancelled_by?: string | null;
+  created_at: string;
+}
+
+export interface ResumedCartItem extends ParkedCartItem {
+  available: boolean; // Still active and in stock
+  quantityInStock: number;
+  unitOfMeasure?: string;
+}
+
+export interface CartDiscount {
+  promotionId: string;
+  name: string;
+  type: 'percentage_discount' | 'fixed_discount' | 'buy_x_get_y' | 'bulk_discount';
+  amount: number;
+}
+
+// Cart line as the branch prices it
+export interface CartLineInput {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal?: number; // Price printed on price-embedded scale labels; charged instead of quantity x unit price
+}
+
+export interface CartQuoteLine {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  grossTotal: number;
+  discountAmount: number;
+  total: number;
+  appliedPromotionIds: string[];
+  discounts: CartDiscount[];
+  taxRate: number;
+  taxAmount: number;
+  netAmount: number;
+}
+
+export interface TaxBreakdownEntry {
+  rate: number;
+  netAmount: number;
+  taxAmount: number;
+  grossAmount: number;
+}
+
+export interface CartQuote {
+  grossSubtotal: number;
+  discountTotal: number;
+  subtotal: number;
+  tax: number;
+  total: number;
+  pricesIncludeTax: boolean;
+  taxBreakdown: TaxBreakdownEntry[];
+  items: CartQuoteLine[];
+}
+
+export interface OfflineCatalogProduct extends Product {
+  tax_rate?: number | string | null;
+}
+
+export interface OfflineCatalog {
+  products: OfflineCatalogProduct[];
+  taxSettings: {
+    defaultRate: number;
+    pricesIncludeTax: boolean;
+  };
+  language: string;
+  generatedAt: string;
+}
+
+export interface OfflineSale {
+  id: string; // Generated on the till; the branch uses it as the transaction ID
+  terminalId: string;
+  employeeId: string;
+  customerId?: string; // Earns loyalty points when the sale is replayed
+  items: CartLineInput[];
+  createdAt: string;
+  expectedTotal: number;
+  payments: { method: 'cash'; amount: number }[];
+}
+
+export interface OfflineSaleConflict {
+  id: string;
+  transaction_id: string;
+  terminal_id: string;
+  employee_id: string;
+  conflict_type: 'negative_stock' | 'price_mismatch';
+  product_id?: string | null;
+  product_name?: string | null;
+  expected_value?: string | null;
+  actual_value?: string | null;
+  details?: string | null;
+  status: 'open' | 'resolved';
+  resolved_by?: string | null;
+  resolved_at?: string | null;
+  resolution_notes?: string | null;
+  created_at: string;
+}
+
+export interface OfflineSaleReplayResult {
+  transactionId: string;
+  status: string;
+  replayed: boolean;
+  total: number;
+  conflicts: OfflineSaleConflict[];
+}
+
 export interface Payment {
   id?: string;
   method: 'cash' | 'card' | 'digital_wallet' | 'store_credit' | 'fastpay';
@@ -70,6 +417,28 @@ export interface Payment {
   change_given?: number;
 }
 
+export interface LoyaltyCustomer {
+  id: string;
+  name: string;
+  phone?: string;
+  email?: string;
+  loyalty_card_number?: string | null;
+  loyalty_points: number;
+  discount_percentage?: number;
+  is_vip?: boolean;
+}
+
+export interface LoyaltySettings {
+  enabled: boolean;
+  pointValue: number; // Money one point is worth when paying with store credit
+}
+
+export interface CustomerLookupResult {
+  customer: LoyaltyCustomer;
+  source: 'chain' | 'local'; // 'local' when the chain-wide balance could not be fetched
+  loyalty: LoyaltySettings;
+}
+
 export interface FastPayRequest {
   qrCode: string;
   amount: number;
@@ -186,6 +555,58 @@ export interface PaymeQRResponse {
   error?: string;
 }
 
+export interface POSTerminal {
+  id: string;
+  terminal_id: string;
+  name: string;
+  ip_address: string;
+  port: number;
+  mac_address?: string;
+  location?: string;
+  assigned_employee_id?: string;
+  assigned_employee_name?: string;
+  assigned_employee_role?: string;
+  status: 'online' | 'offline' | 'maintenance' | 'error';
+  last_seen?: string;
+  hardware_info?: Record<string, unknown>;
+  software_version?: string;
+}
+
+// Terminal found on the branch network, announced over UDP or by the subnet probe
+export interface DiscoveredTerminal {
+  key: string;
+  terminal_id: string | null;
+  name: string | null;
+  ip_address: string;
+  port: number;
+  mac_address: string | null;
+  software_version: string | null;
+  hardware_info: Record<string, unknown> | null;
+  source: 'announce' | 'probe';
+  first_seen: string;
+  last_seen: string;
+  registered_terminal_id: string | null;
+}
+
+export interface TerminalDiscoveryScan {
+  id: string;
+  range: string;
+  status: 'running' | 'finished';
+  hosts_total: number;
+  hosts_probed: number;
+  found: number;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export interface TerminalDiscoveryStatus {
+  enabled: boolean;
+  listening: boolean;
+  udpPort: number | null;
+  scan: TerminalDiscoveryScan | null;
+  terminals: DiscoveredTerminal[];
+}
+
 class ApiService {
   private baseUrl: string;
   private token: string | null = null;
@@ -256,7 +677,8 @@ class ApiService {
       return {
         success: false,
         error: error.message || 'Network error occurred',
-        data: undefined
+        data: undefined,
+        offline: true
       };
     }
   }
@@ -328,7 +750,7 @@ class ApiService {
     return this.request(`/products/autocomplete?${params}`);
   }
 
-  async getProductByBarcode(barcode: string, language?: string): Promise<ApiResponse<{ product: Product; fromCache: boolean }>> {
+  async getProductByBarcode(barcode: string, language?: string): Promise<ApiResponse<BarcodeLookup>> {
     const params = new URLSearchParams();
     if (language) {
       params.append('language', language);
@@ -401,7 +823,7 @@ class ApiService {
     return this.request(url);
   }
 
-  async getCategories(language?: string): Promise<ApiResponse<{ categories: { key: string; name: string; product_count: number }[] }>> {
+  async getCategories(language?: string): Promise<ApiResponse<{ categories: { id: string; key: string; name: string; product_count: number }[] }>> {
     const params = new URLSearchParams();
     if (language) {
       params.append('language', language);
@@ -428,6 +850,16 @@ class ApiService {
     return this.request(`/products/category/${category}?${params.toString()}`);
   }
 
+  async getOfflineCatalog(language?: string): Promise<ApiResponse<OfflineCatalog>> {
+    const params = new URLSearchParams();
+    if (language) {
+      params.append('language', language);
+    }
+
+    const url = `/products/offline-catalog${params.toString() ? '?' + params.toString() : ''}`;
+    return this.request(url);
+  }
+
   async createCategory(categoryData: { name_en: string; name_ru: string; name_uz: string }): Promise<ApiResponse<{ category: any }>> {
     return this.request('/products/categories', {
       method: 'POST',
@@ -435,6 +867,176 @@ class ApiService {
     });
   }
 
+  // Stock transfer endpoints
+  async getStockTransfers(direction?: 'incoming' | 'outgoing'): Promise<ApiResponse<{ transfers: StockTransfer[] }>> {
+    const params = new URLSearchParams();
+    if (direction) {
+      params.append('direction', direction);
+    }
+
+    const url = `/inventory/transfers${params.toString() ? '?' + params.toString() : ''}`;
+    return this.request(url);
+  }
+
+  async getStockTransfer(id: string): Promise<ApiResponse<{ transfer: StockTransfer }>> {
+    return this.request(`/inventory/transfers/${id}`);
+  }
+
+  async shipStockTransfer(id: string, employeeId: string, items: TransferQuantity[]): Promise<ApiResponse<{ transfer: StockTransfer }>> {
+    return this.request(`/inventory/transfers/${id}/ship`, {
+      method: 'POST',
+      body: JSON.stringify({ employeeId, items }),
+    });
+  }
+
+  async receiveStockTransfer(id: string, employeeId: string, items: TransferQuantity[]): Promise<ApiResponse<{ transfer: StockTransfer }>> {
+    return this.request(`/inventory/transfers/${id}/receive`, {
+      method: 'POST',
+      body: JSON.stringify({ employeeId, items }),
+    });
+  }
+
+  // Purchase order endpoints
+  async getPurchaseOrders(status?: PurchaseOrderStatus): Promise<ApiResponse<{ purchaseOrders: PurchaseOrder[] }>> {
+    const params = new URLSearchParams();
+    if (status) {
+      params.append('status', status);
+    }
+
+    const url = `/inventory/purchase-orders${params.toString() ? '?' + params.toString() : ''}`;
+    return this.request(url);
+  }
+
+  async getPurchaseOrder(id: string): Promise<ApiResponse<{ purchaseOrder: PurchaseOrder }>> {
+    return this.request(`/inventory/purchase-orders/${id}`);
+  }
+
+  async receivePurchaseOrder(
+    id: string,
+    employeeId: string,
+    items: ReceiveQuantity[],
+    details: { supplierInvoiceNumber?: string; notes?: string } = {}
+  ): Promise<ApiResponse<{ purchaseOrder: PurchaseOrder }>> {
+    return this.request(`/inventory/purchase-orders/${id}/receive`, {
+      method: 'POST',
+      body: JSON.stringify({ employeeId, items, ...details }),
+    });
+  }
+
+  // Stocktake endpoints
+  async getStocktakes(status?: StocktakeStatus): Promise<ApiResponse<{ stocktakes: Stocktake[] }>> {
+    const params = new URLSearchParams();
+    if (status) {
+      params.append('status', status);
+    }
+
+    const url = `/inventory/stocktakes${params.toString() ? '?' + params.toString() : ''}`;
+    return this.request(url);
+  }
+
+  async getStocktake(id: string): Promise<ApiResponse<{ stocktake: Stocktake }>> {
+    return this.request(`/inventory/stocktakes/${id}`);
+  }
+
+  async createStocktake(data: {
+    name?: string;
+    scope: StocktakeScope;
+    categoryId?: string;
+    location?: string;
+    employeeId: string;
+    notes?: string;
+  }): Promise<ApiResponse<{ stocktake: Stocktake }>> {
+    return this.request('/inventory/stocktakes', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async recordStocktakeCount(id: string, data: {
+    barcode?: string;
+    productId?: string;
+    quantity: number;
+    employeeId: string;
+    terminalId?: string;
+  }): Promise<ApiResponse<{ item: StocktakeItem }>> {
+    return this.request(`/inventory/stocktakes/${id}/counts`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async finishStocktakeCounting(id: string): Promise<ApiResponse<{ stocktake: Stocktake }>> {
+    return this.request(`/inventory/stocktakes/${id}/finish`, { method: 'POST' });
+  }
+
+  async reopenStocktakeCounting(id: string): Promise<ApiResponse<{ stocktake: Stocktake }>> {
+    return this.request(`/inventory/stocktakes/${id}/reopen`, { method: 'POST' });
+  }
+
+  async approveStocktake(
+    id: string,
+    employeeId: string,
+    options: { productIds?: string[]; uncountedAsZero?: boolean } = {}
+  ): Promise<ApiResponse<{ stocktake: Stocktake }>> {
+    return this.request(`/inventory/stocktakes/${id}/approve`, {
+      method: 'POST',
+      body: JSON.stringify({ employeeId, ...options }),
+    });
+  }
+
+  async cancelStocktake(id: string): Promise<ApiResponse<{ stocktake: Stocktake }>> {
+    return this.request(`/inventory/stocktakes/${id}/cancel`, { method: 'POST' });
+  }
+
+  async getProductLocations(): Promise<ApiResponse<{ locations: { location: string; product_count: number }[] }>> {
+    return this.request('/products/locations');
+  }
+
+  // Parked cart endpoints
+  async getParkedCarts(status: ParkedCartStatus | 'all' = 'parked'): Promise<ApiResponse<{ carts: ParkedCart[] }>> {
+    return this.request(`/parked-carts?status=${status}`);
+  }
+
+  async parkCart(data: {
+    terminalId: string;
+    employeeId: string;
+    customerId?: string;
+    note?: string;
+    items: { productId: string; quantity: number }[];
+  }): Promise<ApiResponse<{ cart: ParkedCart }>> {
+    return this.request('/parked-carts', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async resumeParkedCart(
+    id: string,
+    terminalId: string,
+    employeeId: string
+  ): Promise<ApiResponse<{ cart: ParkedCart; items: ResumedCartItem[] }>> {
+    return this.request(`/parked-carts/${id}/resume`, {
+      method: 'POST',
+      body: JSON.stringify({ terminalId, employeeId }),
+    });
+  }
+
+  async cancelParkedCart(id: string, employeeId: string): Promise<ApiResponse<{ cart: ParkedCart }>> {
+    return this.request(`/parked-carts/${id}/cancel`, {
+      method: 'POST',
+      body: JSON.stringify({ employeeId }),
+    });
+  }
+
+  // Customer endpoints
+  async lookupCustomer(params: { card?: string; phone?: string }): Promise<ApiResponse<CustomerLookupResult>> {
+    const query = new URLSearchParams();
+    if (params.card) query.append('card', params.card);
+    if (params.phone) query.append('phone', params.phone);
+
+    return this.request(`/customers/lookup?${query.toString()}`);
+  }
+
   // Transaction endpoints
   async createTransaction(transactionData: Partial<Transaction>): Promise<ApiResponse<Transaction>> {
     return this.request('/transactions', {
@@ -443,6 +1045,43 @@ class ApiService {
     });
   }
 
+  async quoteTransaction(items: CartLineInput[]): Promise<ApiResponse<CartQuote>> {
+    return this.request('/transactions/quote', {
+      method: 'POST',
+      body: JSON.stringify({ items }),
+    });
+  }
+
+  // Replays a sale completed while offline; safe to repeat, the branch books each sale ID once
+  async replayOfflineSale(sale: OfflineSale): Promise<ApiResponse<OfflineSaleReplayResult>> {
+    return this.request('/transactions', {
+      method: 'POST',
+      body: JSON.stringify({
+        terminalId: sale.terminalId,
+        employeeId: sale.employeeId,
+        customerId: sale.customerId,
+        items: sale.items,
+        clientTransactionId: sale.id,
+        offline: {
+          createdAt: sale.createdAt,
+          expectedTotal: sale.expectedTotal,
+          payments: sale.payments
+        }
+      }),
+    });
+  }
+
+  async getOfflineConflicts(status: 'open' | 'resolved' | 'all' = 'open'): Promise<ApiResponse<{ conflicts: OfflineSaleConflict[] }>> {
+    return this.request(`/transactions/offline-conflicts?status=${status}`);
+  }
+
+  async resolveOfflineConflict(id: string, employeeId: string, notes?: string): Promise<ApiResponse<{ conflict: OfflineSaleConflict }>> {
+    return this.request(`/transactions/offline-conflicts/${id}/resolve`, {
+      method: 'POST',
+      body: JSON.stringify({ employeeId, notes }),
+    });
+  }
+
   async getTransactions(params?: {
     limit?: number;
     offset?: number;
@@ -467,14 +1106,14 @@ class ApiService {
     return this.request(`/transactions/${id}`);
   }
 
-  async processPayment(transactionId: string, paymentData: Partial<Payment>): Promise<ApiResponse> {
+  async processPayment(transactionId: string, paymentData: Partial<Payment>): Promise<ApiResponse<PaymentResult>> {
     return this.request(`/transactions/${transactionId}/payment`, {
       method: 'POST',
       body: JSON.stringify(paymentData),
     });
   }
 
-  async processSplitPayment(transactionId: string, payments: Partial<Payment>[]): Promise<ApiResponse> {
+  async processSplitPayment(transactionId: string, payments: Partial<Payment>[]): Promise<ApiResponse<PaymentResult>> {
     return this.request(`/transactions/${transactionId}/split-payment`, {
       method: 'POST',
       body: JSON.stringify({ payments }),
@@ -488,10 +1127,16 @@ class ApiService {
     });
   }
 
-  async refundTransaction(id: string, reason: string): Promise<ApiResponse> {
+  async refundTransaction(id: string, refund: RefundRequest): Promise<ApiResponse<RefundResult>> {
     return this.request(`/transactions/${id}/refund`, {
       method: 'POST',
-      body: JSON.stringify({ reason }),
+      body: JSON.stringify(refund),
+    });
+  }
+
+  async retryRefund(refundId: string): Promise<ApiResponse<RefundResult>> {
+    return this.request(`/transactions/refunds/${refundId}/retry`, {
+      method: 'POST',
     });
   }
 
@@ -617,6 +1262,44 @@ class ApiService {
     return this.request('/sync/status');
   }
 
+  // POS terminal endpoints
+  async getPOSTerminals(): Promise<ApiResponse<POSTerminal[]>> {
+    return this.request<POSTerminal[]>('/network/terminals');
+  }
+
+  async savePOSTerminal(terminal: Partial<POSTerminal>): Promise<ApiResponse<POSTerminal>> {
+    return this.request<POSTerminal>('/network/terminals', {
+      method: 'POST',
+      body: JSON.stringify(terminal),
+    });
+  }
+
+  async testPOSTerminalConnection(id: string): Promise<ApiResponse<{ status: string; response_time_ms?: number; message?: string }>> {
+    return this.request(`/network/terminals/${id}/test-connection`, { method: 'POST' });
+  }
+
+  async getDiscoveredTerminals(): Promise<ApiResponse<TerminalDiscoveryStatus>> {
+    return this.request<TerminalDiscoveryStatus>('/network/terminals/discovered');
+  }
+
+  // Asks terminals to announce themselves; probe also probes every host of ipRange
+  async discoverTerminals(options: { ipRange?: string; probe?: boolean } = {}): Promise<ApiResponse<{ scan: TerminalDiscoveryScan | null; status: string }>> {
+    return this.request('/network/terminals/discover', {
+      method: 'POST',
+      body: JSON.stringify({ ip_range: options.ipRange || undefined, probe: options.probe }),
+    });
+  }
+
+  async adoptDiscoveredTerminal(
+    key: string,
+    details: { terminal_id?: string; name?: string; location?: string; assigned_employee_id?: string } = {}
+  ): Promise<ApiResponse<POSTerminal>> {
+    return this.request<POSTerminal>(`/network/terminals/discovered/${encodeURIComponent(key)}/adopt`, {
+      method: 'POST',
+      body: JSON.stringify(details),
+    });
+  }
+
   // FastPay endpoints
   async processFastPayPayment(request: FastPayRequest): Promise<ApiResponse<FastPayResponse>> {
     return this.request('/fastpay', {
@@ -674,6 +1357,19 @@ class ApiService {
     });
   }
 
+  // Unauthenticated probe of the server root; false when the branch server cannot be reached
+  async ping(timeoutMs = 5000): Promise<boolean> {
+    try {
+      const response = await fetch(`${new URL(this.baseUrl).origin}/health`, {
+        method: 'GET',
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
   // Payment Methods Management endpoints
   async getPaymentMethodsStatus(): Promise<ApiResponse<{ payment_methods: PaymentMethodStatus[] }>> {
     return this.request('/payment-methods/status');
@@ -0,0 +1,68 @@
+// License of this till, from the renderer
+//
+// The Electron preload exposes window.posLicense, which runs the shared license client in
+// the main process: the till activates as a pos-manager terminal and sends hourly heartbeats.
+// In a plain browser there is no bridge and the till is not licensed on its own.
+
+import type { LicenseState } from '@rockpoint/license-client';
+
+export type { LicenseFeature, LicenseState, LicenseStatus } from '@rockpoint/license-client';
+
+export interface LicenseResult {
+  success: boolean;
+  state?: LicenseState;
+  error?: string;
+}
+
+interface PosLicenseBridge {
+  getState(): Promise<LicenseState>;
+  refresh(): Promise<LicenseState>;
+  activate(licenseKey: string): Promise<LicenseResult>;
+  installLicenseFile(content: string): Promise<LicenseResult>;
+  removeLicenseFile(): Promise<LicenseResult>;
+}
+
+declare global {
+  interface Window {
+    posLicense?: PosLicenseBridge;
+  }
+}
+
+// Statuses the till may sell in; grace keeps working offline on the cached license
+const USABLE_STATUSES = ['active', 'grace', 'unrestricted'];
+
+const NO_BRIDGE: LicenseResult = { success: false, error: 'Licensing is only available in the desktop app' };
+
+class LicenseService {
+  /** True when running inside the Electron app with the license bridge */
+  isAvailable(): boolean {
+    return typeof window !== 'undefined' && !!window.posLicense;
+  }
+
+  async getState(): Promise<LicenseState | null> {
+    return window.posLicense ? window.posLicense.getState() : null;
+  }
+
+  async refresh(): Promise<LicenseState | null> {
+    return window.posLicense ? window.posLicense.refresh() : null;
+  }
+
+  async activate(licenseKey: string): Promise<LicenseResult> {
+    return window.posLicense ? window.posLicense.activate(licenseKey) : NO_BRIDGE;
+  }
+
+  async installLicenseFile(content: string): Promise<LicenseResult> {
+    return window.posLicense ? window.posLicense.installLicenseFile(content) : NO_BRIDGE;
+  }
+
+  async removeLicenseFile(): Promise<LicenseResult> {
+    return window.posLicense ? window.posLicense.removeLicenseFile() : NO_BRIDGE;
+  }
+
+  isUsable(state: LicenseState): boolean {
+    return USABLE_STATUSES.includes(state.status);
+  }
+}
+
+export const licenseService = new LicenseService();
+export default licenseService;
@@ -14,6 +14,16 @@ interface NetworkInfo {
   };
 }
 
+interface PosDiscoveryBridge {
+  announce(identity: { terminalId: string; name?: string; port?: number; softwareVersion?: string }): Promise<void>;
+}
+
+declare global {
+  interface Window {
+    posDiscovery?: PosDiscoveryBridge;
+  }
+}
+
 class NetworkService {
   private static instance: NetworkService;
   private intervalId: NodeJS.Timeout | null = null;
@@ -149,6 +159,7 @@ class NetworkService {
 
     // Initial registration
     this.registerTerminal();
+    this.announceTerminal();
 
     // Regular status updates
     this.intervalId = setInterval(async () => {
@@ -176,6 +187,22 @@ class NetworkService {
     window.addEventListener('unload', handleUnload);
   }
 
+  // The desktop app also announces the till over UDP, so it shows up under discovered terminals
+  private async announceTerminal(): Promise<void> {
+    if (!window.posDiscovery) return;
+    try {
+      const networkInfo = await this.getLocalNetworkInfo();
+      await window.posDiscovery.announce({
+        terminalId: networkInfo.terminalId,
+        name: `Terminal ${networkInfo.terminalId}`,
+        port: networkInfo.port,
+        softwareVersion: networkInfo.softwareVersion,
+      });
+    } catch (error) {
+      console.warn('Could not announce terminal:', error);
+    }
+  }
+
   stopStatusReporting(): void {
     if (this.intervalId) {
       clearInterval(this.intervalId);
@@ -0,0 +1,399 @@
+// Offline Store - keeps the till selling when the branch server or LAN is down
+import type {
+  CartLineInput,
+  CartQuote,
+  CartQuoteLine,
+  OfflineCatalog,
+  OfflineCatalogProduct,
+  OfflineSale,
+  Product,
+  TaxBreakdownEntry
+} from './api';
+import { apiService } from './api';
+import { wsService } from './websocket';
+
+export interface QueuedOfflineSale extends OfflineSale {
+  attempts: number;
+  lastError?: string; // Set when the branch server refused the sale
+}
+
+export interface OfflineStatus {
+  isOffline: boolean;
+  syncing: boolean;
+  pendingSales: number;
+  rejectedSales: number;
+  catalogUpdatedAt: string | null;
+  catalogSize: number;
+}
+
+export interface OfflineSyncResult {
+  synced: number;
+  conflicts: number;
+  rejected: number;
+}
+
+type StatusListener = (status: OfflineStatus) => void;
+type SyncListener = (result: OfflineSyncResult) => void;
+
+// Stored in localStorage, which Electron keeps in the app's userData folder across restarts
+const CATALOG_KEY = 'offline_catalog';
+const QUEUE_KEY = 'offline_sales_queue';
+const TERMINAL_KEY = 'offline_terminal_id';
+
+const HEALTH_CHECK_INTERVAL = 15 * 1000;
+const CATALOG_REFRESH_INTERVAL = 10 * 60 * 1000;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Same rule as the branch TaxEngine: values above 1 are percentages, 0 means "use the branch default"
+const normalizeRate = (rate: number) => {
+  if (!Number.isFinite(rate) || rate <= 0) return 0;
+  return rate > 1 ? rate / 100 : rate;
+};
+
+const generateSaleId = (): string => {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+class OfflineStore {
+  private catalog: OfflineCatalog | null = null;
+  private queue: QueuedOfflineSale[] = [];
+  private isOffline = false;
+  private syncing = false;
+  private language = 'en';
+  private started = false;
+  private lastCatalogRefresh = 0;
+  private statusListeners = new Set<StatusListener>();
+  private syncListeners = new Set<SyncListener>();
+
+  constructor() {
+    this.catalog = this.read<OfflineCatalog>(CATALOG_KEY);
+    this.queue = this.read<QueuedOfflineSale[]>(QUEUE_KEY) || [];
+
+    // The terminal ID comes from the WebSocket; remember it for sales made after the connection drops
+    wsService.on('terminal_assigned', (data: { terminalId: string }) => {
+      if (data?.terminalId) {
+        localStorage.setItem(TERMINAL_KEY, data.terminalId);
+      }
+    });
+  }
+
+  // Start watching the connection; safe to call from every page that needs offline mode
+  start(language: string) {
+    this.setLanguage(language);
+    if (this.started) return;
+    this.started = true;
+
+    this.checkConnection();
+    setInterval(() => this.checkConnection(), HEALTH_CHECK_INTERVAL);
+    window.addEventListener('online', () => this.checkConnection());
+    window.addEventListener('offline', () => this.setOffline(true));
+  }
+
+  setLanguage(language: string) {
+    this.language = language;
+    if (this.started && !this.isOffline && this.catalog?.language !== language) {
+      this.refreshCatalog();
+    }
+  }
+
+  async checkConnection(): Promise<boolean> {
+    const reachable = await apiService.ping();
+    this.setOffline(!reachable);
+
+    if (reachable) {
+      if (!this.catalog || this.catalog.language !== this.language ||
+        Date.now() - this.lastCatalogRefresh > CATALOG_REFRESH_INTERVAL) {
+        await this.refreshCatalog();
+      }
+      if (this.queue.some(sale => !sale.lastError)) {
+        await this.syncQueue();
+      }
+    }
+
+    return reachable;
+  }
+
+  // Mark the branch server as unreachable right away (e.g. after a failed request)
+  reportOffline() {
+    this.setOffline(true);
+  }
+
+  async refreshCatalog(): Promise<boolean> {
+    const response = await apiService.getOfflineCatalog(this.language);
+    if (!response.success || !response.data) {
+      return false;
+    }
+
+    this.catalog = {
+      ...response.data,
+      products: response.data.products.map(product => this.normalizeProduct(product))
+    };
+    this.lastCatalogRefresh = Date.now();
+    this.write(CATALOG_KEY, this.catalog);
+    this.notifyStatus();
+    return true;
+  }
+
+  getStatus(): OfflineStatus {
+    return {
+      isOffline: this.isOffline,
+      syncing: this.syncing,
+      pendingSales: this.queue.filter(sale => !sale.lastError).length,
+      rejectedSales: this.queue.filter(sale => sale.lastError).length,
+      catalogUpdatedAt: this.catalog?.generatedAt || null,
+      catalogSize: this.catalog?.products.length || 0
+    };
+  }
+
+  getTerminalId(): string | null {
+    return localStorage.getItem(TERMINAL_KEY);
+  }
+
+  subscribe(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  onSynced(listener: SyncListener): () => void {
+    this.syncListeners.add(listener);
+    return () => {
+      this.syncListeners.delete(listener);
+    };
+  }
+
+  // Catalog lookups used while offline
+  findByBarcode(barcode: string): Product | null {
+    return this.products().find(product => product.barcode === barcode) || null;
+  }
+
+  searchProducts(query: string, limit = 20): Product[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+
+    return this.products()
+      .filter(product =>
+        product.name.toLowerCase().includes(needle) ||
+        product.barcode?.includes(needle) ||
+        product.sku?.toLowerCase().includes(needle)
+      )
+      .slice(0, limit);
+  }
+
+  getCategories(): { key: string; name: string; product_count: number }[] {
+    const categories = new Map<string, { key: string; name: string; product_count: number }>();
+    for (const product of this.products()) {
+      if (!product.category_key) continue;
+      const category = categories.get(product.category_key) ||
+        { key: product.category_key, name: product.category_name || product.category_key, product_count: 0 };
+      category.product_count++;
+      categories.set(product.category_key, category);
+    }
+    return [...categories.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getProductsByCategory(category: string): Product[] {
+    return this.products().filter(product => category === 'all' || product.category_key === category);
+  }
+
+  getProductsByIds(productIds: string[]): Product[] {
+    return this.products().filter(product => productIds.includes(product.id));
+  }
+
+  // Price a cart from cached prices and tax rates; promotions are applied by the branch on replay
+  quoteCart(items: CartLineInput[]): CartQuote {
+    const settings = this.catalog?.taxSettings || { defaultRate: 0, pricesIncludeTax: false };
+    const defaultRate = normalizeRate(Number(settings.defaultRate));
+
+    const lines: CartQuoteLine[] = items.map(item => {
+      const product = this.catalog?.products.find(candidate => candidate.id === item.productId);
+      // Products without a rate use the branch default; 0 is zero-rated, as on the branch
+      const productRate = product?.tax_rate;
+      const taxRate = productRate === null || productRate === undefined || productRate === ''
+        ? defaultRate
+        : normalizeRate(Number(productRate));
+      const total = round(item.lineTotal ?? item.quantity * item.unitPrice);
+      const taxAmount = settings.pricesIncludeTax ? round(total * taxRate / (1 + taxRate)) : round(total * taxRate);
+
+      return {
+        productId: item.productId,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        grossTotal: total,
+        discountAmount: 0,
+        total,
+        appliedPromotionIds: [],
+        discounts: [],
+        taxRate,
+        taxAmount,
+        netAmount: settings.pricesIncludeTax ? round(total - taxAmount) : total
+      };
+    });
+
+    const byRate = new Map<number, TaxBreakdownEntry>();
+    for (const line of lines) {
+      const entry = byRate.get(line.taxRate) || { rate: line.taxRate, netAmount: 0, taxAmount: 0, grossAmount: 0 };
+      entry.netAmount = round(entry.netAmount + line.netAmount);
+      entry.taxAmount = round(entry.taxAmount + line.taxAmount);
+      entry.grossAmount = round(entry.netAmount + entry.taxAmount);
+      byRate.set(line.taxRate, entry);
+    }
+
+    const subtotal = round(lines.reduce((sum, line) => sum + line.netAmount, 0));
+    const tax = round(lines.reduce((sum, line) => sum + line.taxAmount, 0));
+
+    return {
+      grossSubtotal: round(lines.reduce((sum, line) => sum + line.grossTotal, 0)),
+      discountTotal: 0,
+      subtotal,
+      tax,
+      total: round(subtotal + tax),
+      pricesIncludeTax: settings.pricesIncludeTax,
+      taxBreakdown: [...byRate.values()].sort((a, b) => a.rate - b.rate),
+      items: lines
+    };
+  }
+
+  // Queue a cash sale finished offline and take its units off the cached stock
+  queueSale(sale: Omit<OfflineSale, 'id' | 'createdAt'>): QueuedOfflineSale {
+    const queued: QueuedOfflineSale = {
+      ...sale,
+      id: generateSaleId(),
+      createdAt: new Date().toISOString(),
+      attempts: 0
+    };
+
+    this.queue.push(queued);
+    this.write(QUEUE_KEY, this.queue);
+
+    if (this.catalog) {
+      for (const item of sale.items) {
+        const product = this.catalog.products.find(candidate => candidate.id === item.productId);
+        if (product) {
+          product.quantity_in_stock -= item.quantity;
+        }
+      }
+      this.write(CATALOG_KEY, this.catalog);
+    }
+
+    this.notifyStatus();
+    return queued;
+  }
+
+  getQueuedSales(): QueuedOfflineSale[] {
+    return [...this.queue];
+  }
+
+  // Send queued sales to the branch in the order they were made; each sale ID is booked once
+  async syncQueue(includeRejected = false): Promise<OfflineSyncResult> {
+    const result: OfflineSyncResult = { synced: 0, conflicts: 0, rejected: 0 };
+    if (this.syncing || this.isOffline || this.queue.length === 0) {
+      return result;
+    }
+
+    this.syncing = true;
+    this.notifyStatus();
+
+    for (const sale of [...this.queue]) {
+      if (sale.lastError && !includeRejected) continue;
+
+      const response = await apiService.replayOfflineSale(sale);
+
+      if (response.offline) {
+        this.setOffline(true);
+        break;
+      }
+
+      if (response.success && response.data) {
+        this.queue = this.queue.filter(queued => queued.id !== sale.id);
+        result.synced++;
+        result.conflicts += response.data.conflicts?.length || 0;
+      } else {
+        sale.attempts++;
+        sale.lastError = response.error || 'Rejected by the branch server';
+        result.rejected++;
+      }
+
+      this.write(QUEUE_KEY, this.queue);
+    }
+
+    this.syncing = false;
+    this.notifyStatus();
+
+    if (result.synced > 0 || result.rejected > 0) {
+      // Stock on the branch has moved; pick up the real levels
+      await this.refreshCatalog();
+      this.syncListeners.forEach(listener => listener(result));
+    }
+
+    return result;
+  }
+
+  private products(): Product[] {
+    return this.catalog?.products || [];
+  }
+
+  // Prices arrive as DECIMAL strings from the branch
+  private normalizeProduct(product: OfflineCatalogProduct): OfflineCatalogProduct {
+    return {
+      ...product,
+      price: Number(product.price),
+      cost: Number(product.cost),
+      quantity_in_stock: Number(product.quantity_in_stock),
+      tax_rate: product.tax_rate === null || product.tax_rate === undefined ? null : Number(product.tax_rate)
+    };
+  }
+
+  private setOffline(offline: boolean) {
+    if (this.isOffline === offline) return;
+    this.isOffline = offline;
+
+    if (!offline) {
+      wsService.reconnect();
+    }
+
+    this.notifyStatus();
+  }
+
+  private notifyStatus() {
+    const status = this.getStatus();
+    this.statusListeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('Error in offline status listener:', error);
+      }
+    });
+  }
+
+  private read<T>(key: string): T | null {
+    try {
+      const raw = localStorage.getItem(key);
+      return raw ? JSON.parse(raw) as T : null;
+    } catch (error) {
+      console.error(`Failed to read ${key} from local storage:`, error);
+      return null;
+    }
+  }
+
+  private write(key: string, value: unknown) {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.error(`Failed to save ${key} to local storage:`, error);
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const offlineStore = new OfflineStore();
+export default offlineStore;
@@ -0,0 +1,130 @@
+// Receipt printer access from the renderer
+//
+// The Electron preload exposes window.posPrinter, which renders receipts as ESC/POS in
+// the main process and sends them to the configured USB, serial or network printer.
+// In a plain browser there is no bridge and callers fall back to window.print().
+
+export type PrinterConnection = 'usb' | 'serial' | 'network';
+export type PrinterPaperWidth = 58 | 80;
+export type PrinterCutMode = 'full' | 'partial' | 'none';
+
+export interface PrinterConfig {
+  enabled: boolean;
+  connection: PrinterConnection;
+  devicePath?: string;
+  baudRate?: number;
+  host?: string;
+  port?: number;
+  paperWidth: PrinterPaperWidth;
+  codePage: number;
+  cutMode: PrinterCutMode;
+  drawerPin: 2 | 5;
+  openDrawerOnCash: boolean;
+  logoPath?: string;
+}
+
+export interface ReceiptLine {
+  label: string;
+  amount: number;
+  emphasis?: boolean;
+}
+
+// Already worded receipt; the main process only lays it out for the paper width
+export interface ReceiptDocument {
+  storeName: string;
+  title?: string;
+  headerLines: string[];
+  items: Array<{
+    name: string;
+    quantity: number;
+    unitPrice: number;
+    total: number;
+    barcode?: string;
+  }>;
+  totals: ReceiptLine[];
+  paymentsTitle?: string;
+  payments: ReceiptLine[];
+  change?: ReceiptLine;
+  footerLines: string[];
+  qr?: { data: string; caption?: string };
+  barcode?: { data: string; type?: 'CODE128' | 'EAN13' };
+  currencySymbol?: string;
+}
+
+export interface PrintJobResult {
+  success: boolean;
+  bytes?: number;
+  error?: string;
+}
+
+interface PosPrinterBridge {
+  getConfig(): Promise<PrinterConfig>;
+  saveConfig(config: Partial<PrinterConfig>): Promise<PrinterConfig>;
+  chooseLogo(): Promise<string | null>;
+  printReceipt(receipt: ReceiptDocument, options?: { openDrawer?: boolean }): Promise<PrintJobResult>;
+  openCashDrawer(): Promise<PrintJobResult>;
+  printTestPage(): Promise<PrintJobResult>;
+}
+
+declare global {
+  interface Window {
+    posPrinter?: PosPrinterBridge;
+  }
+}
+
+const NO_BRIDGE: PrintJobResult = { success: false, error: 'Receipt printing is only available in the desktop app' };
+
+class PrinterService {
+  /** True when running inside the Electron app with the printing bridge */
+  isAvailable(): boolean {
+    return typeof window !== 'undefined' && !!window.posPrinter;
+  }
+
+  async getConfig(): Promise<PrinterConfig | null> {
+    return window.posPrinter ? window.posPrinter.getConfig() : null;
+  }
+
+  async saveConfig(config: Partial<PrinterConfig>): Promise<PrinterConfig | null> {
+    return window.posPrinter ? window.posPrinter.saveConfig(config) : null;
+  }
+
+  async chooseLogo(): Promise<string | null> {
+    return window.posPrinter ? window.posPrinter.chooseLogo() : null;
+  }
+
+  /** Whether receipts should go to the thermal printer instead of the browser print dialog */
+  async isEnabled(): Promise<boolean> {
+    const config = await this.getConfig();
+    return !!config?.enabled;
+  }
+
+  async printReceipt(receipt: ReceiptDocument, options: { openDrawer?: boolean } = {}): Promise<PrintJobResult> {
+    if (!window.posPrinter) return NO_BRIDGE;
+    try {
+      return await window.posPrinter.printReceipt(receipt, options);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  async openCashDrawer(): Promise<PrintJobResult> {
+    if (!window.posPrinter) return NO_BRIDGE;
+    try {
+      return await window.posPrinter.openCashDrawer();
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  async printTestPage(): Promise<PrintJobResult> {
+    if (!window.posPrinter) return NO_BRIDGE;
+    try {
+      return await window.posPrinter.printTestPage();
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+export const printerService = new PrinterService();
+export default printerService;
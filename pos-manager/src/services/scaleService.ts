@@ -0,0 +1,81 @@
+// Weighing scale access from the renderer
+//
+// The Electron preload exposes window.posScale, which reads the weight from a serial
+// scale in the main process, or from the weight typed in the scale settings when the
+// scale is simulated. In a plain browser there is no bridge and weights are keyed in.
+
+export type ScaleConnection = 'serial' | 'simulated';
+export type ScaleCommand = 'enq' | 'w' | 'none';
+
+export interface ScaleConfig {
+  enabled: boolean;
+  connection: ScaleConnection;
+  devicePath?: string;
+  baudRate?: number;
+  command?: ScaleCommand;
+  timeoutMs?: number;
+  simulatedWeight?: number;
+  requireStable: boolean;
+}
+
+export interface WeightResult {
+  success: boolean;
+  weight?: number; // Kilograms
+  stable?: boolean;
+  error?: string;
+}
+
+interface PosScaleBridge {
+  getConfig(): Promise<ScaleConfig>;
+  saveConfig(config: Partial<ScaleConfig>): Promise<ScaleConfig>;
+  readWeight(): Promise<WeightResult>;
+}
+
+declare global {
+  interface Window {
+    posScale?: PosScaleBridge;
+  }
+}
+
+// Units whose quantities are weighed or measured rather than counted
+const MEASURED_UNITS = ['kg', 'l'];
+
+const NO_BRIDGE: WeightResult = { success: false, error: 'Reading the scale is only available in the desktop app' };
+
+class ScaleService {
+  /** True when running inside the Electron app with the weighing bridge */
+  isAvailable(): boolean {
+    return typeof window !== 'undefined' && !!window.posScale;
+  }
+
+  async getConfig(): Promise<ScaleConfig | null> {
+    return window.posScale ? window.posScale.getConfig() : null;
+  }
+
+  async saveConfig(config: Partial<ScaleConfig>): Promise<ScaleConfig | null> {
+    return window.posScale ? window.posScale.saveConfig(config) : null;
+  }
+
+  /** Whether the checkout should read weights from the scale */
+  async isEnabled(): Promise<boolean> {
+    const config = await this.getConfig();
+    return !!config?.enabled;
+  }
+
+  async readWeight(): Promise<WeightResult> {
+    if (!window.posScale) return NO_BRIDGE;
+    try {
+      return await window.posScale.readWeight();
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /** Products sold by weight or volume, whose quantity is entered in fractions */
+  isMeasured(unitOfMeasure?: string | null): boolean {
+    return !!unitOfMeasure && MEASURED_UNITS.includes(unitOfMeasure.toLowerCase());
+  }
+}
+
+export const scaleService = new ScaleService();
+export default scaleService;
@@ -129,6 +129,12 @@ class WebSocketService {
         this.emit('employee_action', message.payload);
         break;
 
+      case 'terminal_discovered':
+      case 'terminal_discovery_scan':
+      case 'terminal_adopted':
+        this.emit('terminal_discovery', message);
+        break;
+
       default:
         console.log('Unknown message type:', message.type, message.payload);
         this.emit('unknown_message', message);
@@ -234,6 +240,16 @@ class WebSocketService {
     return this.terminalId;
   }
 
+  // Start over after the branch server comes back (the backoff gives up after a few attempts)
+  reconnect() {
+    if (this.isConnected || this.ws?.readyState === WebSocket.CONNECTING) {
+      return;
+    }
+    this.reconnectAttempts = 0;
+    this.reconnectDelay = 1000;
+    this.connect();
+  }
+
   // Cleanup
   disconnect() {
     if (this.ws) {